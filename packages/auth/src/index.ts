@@ -30,6 +30,7 @@ export {
   getUserEmailFromRequest,
   getUserNameFromRequest,
 } from './next-utils'
+export type { JwtFromRequestOptions } from './next-utils'
 
 // Note: SupabaseAuthAdapter is exported from ./supabase.ts directly
 // Users import it via: import { SupabaseAuthAdapter } from '@solvapay/auth/supabase'
@@ -0,0 +1,86 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { SignJWT } from 'jose'
+import { createJwksFixture, type JwksFixture } from '@solvapay/test-utils/jwks'
+
+import { getUserEmailFromRequest, getUserNameFromRequest } from './next-utils'
+
+const secret = 'next-utils-secret'
+const claims = { sub: 'user_1', email: 'ada@example.com', name: 'Ada' }
+
+function bearer(token: string): Request {
+  return new Request('https://example.com/api', { headers: { authorization: `Bearer ${token}` } })
+}
+
+function signHs256(payload: Record<string, unknown>, key = secret): Promise<string> {
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: 'HS256' })
+    .sign(new TextEncoder().encode(key))
+}
+
+/** A token anyone can mint: a valid-looking payload with a bogus signature. */
+function forge(payload: Record<string, unknown>): string {
+  const part = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  return `${part({ alg: 'RS256', typ: 'JWT' })}.${part(payload)}.forged`
+}
+
+describe('getUserEmailFromRequest / getUserNameFromRequest', () => {
+  let jwks: JwksFixture
+
+  beforeAll(async () => {
+    jwks = await createJwksFixture({ algorithms: ['ES256'] })
+  })
+
+  afterAll(async () => {
+    await jwks.close()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('returns null for a forged token when no verification is configured', async () => {
+    const token = forge(claims)
+
+    expect(await getUserEmailFromRequest(bearer(token))).toBeNull()
+    expect(await getUserNameFromRequest(bearer(token))).toBeNull()
+  })
+
+  it('reads claims from an HS256 token signed with the configured secret', async () => {
+    const token = await signHs256(claims)
+
+    expect(await getUserEmailFromRequest(bearer(token), { jwtSecret: secret })).toBe(
+      'ada@example.com',
+    )
+    expect(await getUserNameFromRequest(bearer(token), { jwtSecret: secret })).toBe('Ada')
+    expect(
+      await getUserEmailFromRequest(bearer(await signHs256(claims, 'attacker')), {
+        jwtSecret: secret,
+      }),
+    ).toBeNull()
+  })
+
+  it('verifies asymmetric tokens against the issuer JWKS', async () => {
+    vi.stubEnv('SOLVAPAY_JWT_ISSUER', jwks.issuer)
+    vi.stubEnv('SOLVAPAY_JWT_AUDIENCE', jwks.audience)
+
+    const token = await jwks.sign(claims, { alg: 'ES256' })
+    expect(await getUserEmailFromRequest(bearer(token))).toBe('ada@example.com')
+    expect(await getUserEmailFromRequest(bearer(forge(claims)))).toBeNull()
+    expect(
+      await getUserEmailFromRequest(bearer(await jwks.sign(claims, { audience: 'other-api' }))),
+    ).toBeNull()
+  })
+
+  it('decodes unverified tokens only when the gateway is trusted and not in strict mode', async () => {
+    const token = forge(claims)
+
+    expect(await getUserEmailFromRequest(bearer(token), { trustGateway: true })).toBe(
+      'ada@example.com',
+    )
+    vi.stubEnv('SOLVAPAY_AUTH_TRUST_GATEWAY', 'true')
+    expect(await getUserNameFromRequest(bearer(token))).toBe('Ada')
+
+    vi.stubEnv('SOLVAPAY_AUTH_STRICT', 'true')
+    expect(await getUserEmailFromRequest(bearer(token))).toBeNull()
+  })
+})
@@ -9,6 +9,8 @@
  * and can be used with Next.js NextRequest (which extends Request)
  */
 
+import type { JWTVerifyGetKey } from 'jose'
+
 /**
  * JWT payload shape we care about (Supabase/JWT conventions).
  */
@@ -49,6 +51,11 @@ function base64UrlDecode(input: string): string {
   throw new Error('No base64 decoder available in this runtime')
 }
 
+/**
+ * Unverified JWT payload decode. Only reachable with `trustGateway` /
+ * `SOLVAPAY_AUTH_TRUST_GATEWAY=true`, when the platform gateway has
+ * already validated the token.
+ */
 function decodeJwtUnverified(token: string): JwtPayload | null {
   const parts = token.split('.')
   if (parts.length !== 3) return null
@@ -71,30 +78,108 @@ function extractBearerToken(request: Request): string | null {
 
 function readEnv(name: string): string | undefined {
   const proc = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process
-  return proc?.env?.[name]
+  const value = proc?.env?.[name]
+  return value === '' ? undefined : value
+}
+
+function readList(name: string): string[] | undefined {
+  return readEnv(name)
+    ?.split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
 }
 
 function isStrictMode(): boolean {
   return readEnv('SOLVAPAY_AUTH_STRICT') === 'true'
 }
 
-async function resolveJwtPayload(token: string, jwtSecret?: string): Promise<JwtPayload | null> {
-  const secret = jwtSecret || readEnv('SOLVAPAY_JWT_SECRET') || readEnv('SUPABASE_JWT_SECRET')
+/**
+ * How {@link getUserEmailFromRequest} and {@link getUserNameFromRequest}
+ * verify the Bearer token. Same rules and environment variables as
+ * `getAuthenticatedUserCore` in `@solvapay/server`.
+ *
+ * @since 1.2.0
+ */
+export interface JwtFromRequestOptions {
+  /** HS256 secret. Env: `SOLVAPAY_JWT_SECRET`, then `SUPABASE_JWT_SECRET`. */
+  jwtSecret?: string
+  /**
+   * Expected `iss` claim. Without `jwksUrl`, keys are fetched from
+   * `{issuer}/.well-known/jwks.json`. Env: `SOLVAPAY_JWT_ISSUER`.
+   */
+  issuer?: string | string[]
+  /** JWKS endpoint URL. Env: `SOLVAPAY_JWKS_URL`. */
+  jwksUrl?: string
+  /** Expected `aud` claim. Env: `SOLVAPAY_JWT_AUDIENCE` (comma-separated). */
+  audience?: string | string[]
+  /**
+   * Read the token without verifying it because the platform gateway
+   * already did. Default: `SOLVAPAY_AUTH_TRUST_GATEWAY`;
+   * `SOLVAPAY_AUTH_STRICT=true` overrides it.
+   */
+  trustGateway?: boolean
+}
+
+const ASYMMETRIC_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384', 'EdDSA']
+const CLOCK_TOLERANCE_SEC = 30
+
+/** Remote key sets by URL, so keys are fetched once per isolate. */
+const remoteKeySets = new Map<string, JWTVerifyGetKey>()
 
-  if (secret) {
+/**
+ * Resolve a Bearer token to its payload: verified when verification is
+ * configured, decoded when the gateway is trusted, `null` otherwise or
+ * when verification fails.
+ */
+async function resolveJwtPayload(
+  token: string,
+  options: JwtFromRequestOptions = {},
+): Promise<JwtPayload | null> {
+  const secret =
+    options.jwtSecret || readEnv('SOLVAPAY_JWT_SECRET') || readEnv('SUPABASE_JWT_SECRET')
+  const issuer = options.issuer ?? readList('SOLVAPAY_JWT_ISSUER')
+  const audience = options.audience ?? readList('SOLVAPAY_JWT_AUDIENCE')
+  const firstIssuer = Array.isArray(issuer) ? issuer[0] : issuer
+  const jwksUrl =
+    options.jwksUrl ??
+    readEnv('SOLVAPAY_JWKS_URL') ??
+    (firstIssuer ? `${firstIssuer.replace(/\/+$/, '')}/.well-known/jwks.json` : undefined)
+
+  if (secret || jwksUrl) {
     try {
-      const { jwtVerify } = await import('jose')
-      const key = new TextEncoder().encode(secret)
-      const { payload } = await jwtVerify(token, key, { algorithms: ['HS256'] })
+      const { createRemoteJWKSet, decodeProtectedHeader, jwtVerify } = await import('jose')
+      const verifyOptions = {
+        ...(issuer?.length ? { issuer } : {}),
+        ...(audience?.length ? { audience } : {}),
+        clockTolerance: CLOCK_TOLERANCE_SEC,
+      }
+      if (decodeProtectedHeader(token).alg?.startsWith('HS')) {
+        if (!secret) return null
+        const { payload } = await jwtVerify(token, new TextEncoder().encode(secret), {
+          ...verifyOptions,
+          algorithms: ['HS256'],
+        })
+        return payload as JwtPayload
+      }
+      if (!jwksUrl) return null
+      let keySet = remoteKeySets.get(jwksUrl)
+      if (!keySet) {
+        keySet = createRemoteJWKSet(new URL(jwksUrl))
+        remoteKeySets.set(jwksUrl, keySet)
+      }
+      const { payload } = await jwtVerify(token, keySet, {
+        ...verifyOptions,
+        algorithms: ASYMMETRIC_ALGORITHMS,
+      })
       return payload as JwtPayload
     } catch {
       return null
     }
   }
 
-  if (isStrictMode()) return null
-
-  return decodeJwtUnverified(token)
+  const trustGateway =
+    !isStrictMode() && (options.trustGateway ?? readEnv('SOLVAPAY_AUTH_TRUST_GATEWAY') === 'true')
+  return trustGateway ? decodeJwtUnverified(token) : null
 }
 
 /**
@@ -142,32 +227,29 @@ export function getUserIdFromRequest(
 /**
  * Extract user email from a Bearer JWT in the Authorization header.
  *
- * When `SOLVAPAY_JWT_SECRET` or `SUPABASE_JWT_SECRET` is set (or the
- * equivalent `options.jwtSecret`), the token is verified via HS256.
- * Otherwise, the payload is decoded without verification — safe when the
- * platform gateway has already validated the token (e.g. Supabase Edge
- * Functions with `verify_jwt = true`, which is the default). Opt into
- * strict mode with `SOLVAPAY_AUTH_STRICT=true` to disable the
- * unverified-decode fallback.
+ * The token is verified before any claim is read: via HS256 when a
+ * secret is configured (`SOLVAPAY_JWT_SECRET` / `SUPABASE_JWT_SECRET`),
+ * or against the issuer's JWKS when `SOLVAPAY_JWT_ISSUER` /
+ * `SOLVAPAY_JWKS_URL` is set. Without either, the token is only read
+ * when `trustGateway` / `SOLVAPAY_AUTH_TRUST_GATEWAY=true` declares that
+ * the platform gateway verified it (e.g. Supabase Edge Functions with
+ * `verify_jwt = true`). Returns `null` for unverified tokens.
  *
  * @param request - Request object (works with NextRequest from next/server)
- * @param options - Configuration options
- * @param options.jwtSecret - JWT secret (defaults to SOLVAPAY_JWT_SECRET / SUPABASE_JWT_SECRET env var)
- * @returns User email string or null if not found
+ * @param options - Verification options; see {@link JwtFromRequestOptions}
+ * @returns User email string or null if not found or not verified
  *
  * @see {@link getUserNameFromRequest} for extracting user name
  * @since 1.0.0
  */
 export async function getUserEmailFromRequest(
   request: Request,
-  options?: {
-    jwtSecret?: string
-  },
+  options?: JwtFromRequestOptions,
 ): Promise<string | null> {
   const token = extractBearerToken(request)
   if (!token) return null
 
-  const payload = await resolveJwtPayload(token, options?.jwtSecret)
+  const payload = await resolveJwtPayload(token, options)
   if (!payload) return null
 
   return typeof payload.email === 'string' ? payload.email : null
@@ -181,26 +263,23 @@ export async function getUserEmailFromRequest(
  * - `user_metadata.name`
  * - `name` claim
  *
- * See {@link getUserEmailFromRequest} for the verification/fallback model.
+ * See {@link getUserEmailFromRequest} for how the token is verified.
  *
  * @param request - Request object (works with NextRequest from next/server)
- * @param options - Configuration options
- * @param options.jwtSecret - JWT secret (defaults to SOLVAPAY_JWT_SECRET / SUPABASE_JWT_SECRET env var)
- * @returns User name string or null if not found
+ * @param options - Verification options; see {@link JwtFromRequestOptions}
+ * @returns User name string or null if not found or not verified
  *
  * @see {@link getUserEmailFromRequest} for extracting user email
  * @since 1.0.0
  */
 export async function getUserNameFromRequest(
   request: Request,
-  options?: {
-    jwtSecret?: string
-  },
+  options?: JwtFromRequestOptions,
 ): Promise<string | null> {
   const token = extractBearerToken(request)
   if (!token) return null
 
-  const payload = await resolveJwtPayload(token, options?.jwtSecret)
+  const payload = await resolveJwtPayload(token, options)
   if (!payload) return null
 
   const metadataFullName =
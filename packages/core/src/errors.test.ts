@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createSolvaPayApiError,
+  parseApiErrorBody,
+  SolvaPayApiError,
+  SolvaPayAuthenticationError,
+  SolvaPayConflictError,
+  SolvaPayError,
+  SolvaPayNotFoundError,
+  SolvaPayRateLimitError,
+  SolvaPayServerError,
+  SolvaPayValidationError,
+} from './index'
+
+describe('createSolvaPayApiError', () => {
+  it.each([
+    [401, SolvaPayAuthenticationError],
+    [403, SolvaPayAuthenticationError],
+    [404, SolvaPayNotFoundError],
+    [400, SolvaPayValidationError],
+    [422, SolvaPayValidationError],
+    [409, SolvaPayConflictError],
+    [429, SolvaPayRateLimitError],
+    [500, SolvaPayServerError],
+    [503, SolvaPayServerError],
+  ])('maps %i to %o', (status, ErrorClass) => {
+    const error = createSolvaPayApiError('failed', { status, body: '' })
+    expect(error).toBeInstanceOf(ErrorClass)
+    expect(error).toBeInstanceOf(SolvaPayApiError)
+    expect(error).toBeInstanceOf(SolvaPayError)
+    expect(error.name).toBe(ErrorClass.name)
+    expect(error.status).toBe(status)
+  })
+
+  it('falls back to the base class for other statuses', () => {
+    const error = createSolvaPayApiError('teapot', { status: 418 })
+    expect(error.constructor).toBe(SolvaPayApiError)
+    expect(error.body).toBe('')
+  })
+
+  it('carries code, requestId and the raw body', () => {
+    const body = JSON.stringify({
+      statusCode: 409,
+      message: 'Customer already exists',
+      code: 'customer_exists',
+      requestId: 'req_body',
+    })
+    const error = createSolvaPayApiError('Create customer failed (409)', { status: 409, body })
+    expect(error).toMatchObject({ code: 'customer_exists', requestId: 'req_body', body })
+
+    const fromHeader = createSolvaPayApiError('x', { status: 409, body, requestId: 'req_header' })
+    expect(fromHeader.requestId).toBe('req_header')
+  })
+
+  it('groups validation messages by field', () => {
+    const error = createSolvaPayApiError('Create customer failed (400)', {
+      status: 400,
+      body: JSON.stringify({
+        statusCode: 400,
+        message: ['email must be an email', 'email should not be empty', 'name must be a string'],
+        error: 'Bad Request',
+      }),
+    }) as SolvaPayValidationError
+
+    expect(error.fieldErrors).toEqual({
+      email: ['email must be an email', 'email should not be empty'],
+      name: ['name must be a string'],
+    })
+  })
+
+  it('keeps retryAfter on rate-limit errors', () => {
+    const error = createSolvaPayApiError('slow down', { status: 429, retryAfter: 30 })
+    expect((error as SolvaPayRateLimitError).retryAfter).toBe(30)
+  })
+})
+
+describe('parseApiErrorBody', () => {
+  it('reads errors arrays and tolerates non-JSON bodies', () => {
+    expect(
+      parseApiErrorBody(
+        JSON.stringify({
+          message: 'Invalid plan',
+          errors: [{ field: 'price', message: 'too low' }],
+        }),
+      ),
+    ).toEqual({ message: 'Invalid plan', fieldErrors: { price: ['too low'] } })
+    expect(parseApiErrorBody('Bad Gateway')).toEqual({ fieldErrors: {} })
+  })
+})
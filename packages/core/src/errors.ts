@@ -0,0 +1,298 @@
+/**
+ * Base error class for SolvaPay SDK errors.
+ *
+ * All SolvaPay SDK errors extend this class, making it easy to catch
+ * and handle SDK-specific errors separately from other errors.
+ *
+ * @example
+ * ```typescript
+ * import { SolvaPayError } from '@solvapay/core';
+ *
+ * try {
+ *   const config = getSolvaPayConfig();
+ * } catch (error) {
+ *   if (error instanceof SolvaPayError) {
+ *     // Handle SolvaPay-specific error
+ *     console.error('SolvaPay error:', error.message);
+ *   } else {
+ *     // Handle other errors
+ *     throw error;
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class SolvaPayError extends Error {
+  /**
+   * HTTP status code associated with the error, when the error
+   * originated from an upstream API response. Optional so existing
+   * `new SolvaPayError(message)` callsites stay valid.
+   */
+  readonly status?: number
+
+  /**
+   * Optional short code for programmatic branching (e.g.
+   * `'missing_secret'`, `'merchant_not_found'`). Free-form by design;
+   * callers should not depend on an exhaustive enum.
+   */
+  readonly code?: string
+
+  /**
+   * Creates a new SolvaPayError instance.
+   *
+   * @param message - Error message
+   * @param init - Optional `{ status, code }` metadata. Both fields
+   *   are preserved on the instance so downstream consumers
+   *   (`handleRouteError`, MCP trace wrappers) can branch on HTTP
+   *   status without parsing the message string.
+   */
+  constructor(message: string, init: { status?: number; code?: string } = {}) {
+    super(message)
+    this.name = 'SolvaPayError'
+    this.status = init.status
+    this.code = init.code
+  }
+}
+
+/**
+ * Field-level validation messages keyed by request field, e.g.
+ * `{ email: ['email must be an email'] }`.
+ */
+export type SolvaPayFieldErrors = Record<string, string[]>
+
+/**
+ * Metadata carried by every {@link SolvaPayApiError}.
+ */
+export interface SolvaPayApiErrorInit {
+  /** HTTP status of the API response. */
+  status: number
+  /** Backend error code from the response body, when it sent one. */
+  code?: string
+  /** Value of the `x-request-id` response header (or body `requestId`) — quote it to support. */
+  requestId?: string
+  /** Raw response body text. */
+  body?: string
+}
+
+/**
+ * Error built from a non-2xx SolvaPay API response. `createSolvaPayClient`
+ * throws one of the status-specific subclasses below; branch with
+ * `instanceof` instead of parsing the message.
+ *
+ * @example
+ * ```typescript
+ * import { SolvaPayNotFoundError, SolvaPayRateLimitError } from '@solvapay/core'
+ *
+ * try {
+ *   await apiClient.getCustomer({ externalRef: userId })
+ * } catch (error) {
+ *   if (error instanceof SolvaPayNotFoundError) return null
+ *   if (error instanceof SolvaPayRateLimitError) await sleep((error.retryAfter ?? 1) * 1000)
+ *   throw error
+ * }
+ * ```
+ *
+ * @since 1.3.0
+ */
+export class SolvaPayApiError extends SolvaPayError {
+  declare readonly status: number
+  readonly requestId?: string
+  readonly body: string
+
+  constructor(message: string, init: SolvaPayApiErrorInit) {
+    super(message, { status: init.status, code: init.code })
+    this.name = 'SolvaPayApiError'
+    this.requestId = init.requestId
+    this.body = init.body ?? ''
+  }
+}
+
+/**
+ * `401` / `403` — the secret key is missing, invalid or lacks access.
+ *
+ * @since 1.3.0
+ */
+export class SolvaPayAuthenticationError extends SolvaPayApiError {
+  constructor(message: string, init: SolvaPayApiErrorInit) {
+    super(message, init)
+    this.name = 'SolvaPayAuthenticationError'
+  }
+}
+
+/**
+ * `404` — the customer, product, plan or purchase does not exist.
+ *
+ * @since 1.3.0
+ */
+export class SolvaPayNotFoundError extends SolvaPayApiError {
+  constructor(message: string, init: SolvaPayApiErrorInit) {
+    super(message, init)
+    this.name = 'SolvaPayNotFoundError'
+  }
+}
+
+/**
+ * `400` / `422` — the request was rejected. {@link fieldErrors} groups
+ * the backend's validation messages by field.
+ *
+ * @since 1.3.0
+ */
+export class SolvaPayValidationError extends SolvaPayApiError {
+  readonly fieldErrors: SolvaPayFieldErrors
+
+  constructor(message: string, init: SolvaPayApiErrorInit & { fieldErrors?: SolvaPayFieldErrors }) {
+    super(message, init)
+    this.name = 'SolvaPayValidationError'
+    this.fieldErrors = init.fieldErrors ?? {}
+  }
+}
+
+/**
+ * `429` — too many requests. {@link retryAfter} is the server's
+ * `Retry-After`, in seconds, when it sent one.
+ *
+ * @since 1.3.0
+ */
+export class SolvaPayRateLimitError extends SolvaPayApiError {
+  readonly retryAfter?: number
+
+  constructor(message: string, init: SolvaPayApiErrorInit & { retryAfter?: number }) {
+    super(message, init)
+    this.name = 'SolvaPayRateLimitError'
+    this.retryAfter = init.retryAfter
+  }
+}
+
+/**
+ * `409` — the request conflicts with existing state (e.g. a customer
+ * with that email already exists).
+ *
+ * @since 1.3.0
+ */
+export class SolvaPayConflictError extends SolvaPayApiError {
+  constructor(message: string, init: SolvaPayApiErrorInit) {
+    super(message, init)
+    this.name = 'SolvaPayConflictError'
+  }
+}
+
+/**
+ * `5xx` — the SolvaPay API failed. Safe to retry idempotent calls.
+ *
+ * @since 1.3.0
+ */
+export class SolvaPayServerError extends SolvaPayApiError {
+  constructor(message: string, init: SolvaPayApiErrorInit) {
+    super(message, init)
+    this.name = 'SolvaPayServerError'
+  }
+}
+
+/**
+ * Fields extracted from an API error body by {@link parseApiErrorBody}.
+ */
+export interface ParsedApiErrorBody {
+  code?: string
+  requestId?: string
+  /** Human-readable message(s), joined. */
+  message?: string
+  fieldErrors: SolvaPayFieldErrors
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const addFieldError = (fieldErrors: SolvaPayFieldErrors, field: string, message: string) => {
+  fieldErrors[field] = [...(fieldErrors[field] ?? []), message]
+}
+
+/**
+ * Best-effort parse of an API error body. Understands the backend's
+ * `{ statusCode, message, error, code?, requestId? }` shape, including
+ * class-validator message arrays (`["email must be an email"]`, keyed by
+ * their leading property name) and `errors: [{ field, message }]` lists.
+ * Non-JSON bodies yield an empty result.
+ */
+export function parseApiErrorBody(body: string): ParsedApiErrorBody {
+  const fieldErrors: SolvaPayFieldErrors = {}
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return { fieldErrors }
+  }
+  if (!isRecord(parsed)) return { fieldErrors }
+
+  const messages = Array.isArray(parsed.message)
+    ? parsed.message.filter((m): m is string => typeof m === 'string')
+    : typeof parsed.message === 'string'
+      ? [parsed.message]
+      : []
+  if (Array.isArray(parsed.message)) {
+    for (const message of messages) {
+      const field = /^([\w.[\]]+) /.exec(message)?.[1]
+      if (field) addFieldError(fieldErrors, field, message)
+    }
+  }
+  if (Array.isArray(parsed.errors)) {
+    for (const entry of parsed.errors) {
+      if (!isRecord(entry)) continue
+      const field = entry.field ?? entry.property ?? entry.path
+      const message = entry.message ?? entry.msg
+      if (typeof field === 'string' && typeof message === 'string') {
+        addFieldError(fieldErrors, field, message)
+      }
+    }
+  }
+
+  return {
+    code: typeof parsed.code === 'string' ? parsed.code : undefined,
+    requestId: typeof parsed.requestId === 'string' ? parsed.requestId : undefined,
+    message: messages.length ? messages.join('; ') : undefined,
+    fieldErrors,
+  }
+}
+
+/**
+ * Build the {@link SolvaPayApiError} subclass matching `init.status`.
+ * `code`, `requestId` and field errors default to whatever
+ * {@link parseApiErrorBody} finds in `init.body`.
+ *
+ * @example
+ * ```typescript
+ * const body = await res.text()
+ * throw createSolvaPayApiError(`Get customer failed (${res.status}): ${body}`, {
+ *   status: res.status,
+ *   body,
+ *   requestId: res.headers.get('x-request-id') ?? undefined,
+ * })
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function createSolvaPayApiError(
+  message: string,
+  init: SolvaPayApiErrorInit & { retryAfter?: number; fieldErrors?: SolvaPayFieldErrors },
+): SolvaPayApiError {
+  const parsed = parseApiErrorBody(init.body ?? '')
+  const resolved = {
+    ...init,
+    code: init.code ?? parsed.code,
+    requestId: init.requestId ?? parsed.requestId,
+  }
+  const { status } = init
+
+  if (status === 401 || status === 403) return new SolvaPayAuthenticationError(message, resolved)
+  if (status === 404) return new SolvaPayNotFoundError(message, resolved)
+  if (status === 400 || status === 422) {
+    return new SolvaPayValidationError(message, {
+      ...resolved,
+      fieldErrors: init.fieldErrors ?? parsed.fieldErrors,
+    })
+  }
+  if (status === 409) return new SolvaPayConflictError(message, resolved)
+  if (status === 429) return new SolvaPayRateLimitError(message, resolved)
+  if (status >= 500) return new SolvaPayServerError(message, resolved)
+  return new SolvaPayApiError(message, resolved)
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { SolvaPayError } from './errors'
 
 export const Env = z.object({
   SOLVAPAY_SECRET_KEY: z.string().min(1),
@@ -6,63 +7,6 @@ export const Env = z.object({
 })
 export type Env = z.infer<typeof Env>
 
-/**
- * Base error class for SolvaPay SDK errors.
- *
- * All SolvaPay SDK errors extend this class, making it easy to catch
- * and handle SDK-specific errors separately from other errors.
- *
- * @example
- * ```typescript
- * import { SolvaPayError } from '@solvapay/core';
- *
- * try {
- *   const config = getSolvaPayConfig();
- * } catch (error) {
- *   if (error instanceof SolvaPayError) {
- *     // Handle SolvaPay-specific error
- *     console.error('SolvaPay error:', error.message);
- *   } else {
- *     // Handle other errors
- *     throw error;
- *   }
- * }
- * ```
- *
- * @since 1.0.0
- */
-export class SolvaPayError extends Error {
-  /**
-   * HTTP status code associated with the error, when the error
-   * originated from an upstream API response. Optional so existing
-   * `new SolvaPayError(message)` callsites stay valid.
-   */
-  readonly status?: number
-
-  /**
-   * Optional short code for programmatic branching (e.g.
-   * `'missing_secret'`, `'merchant_not_found'`). Free-form by design;
-   * callers should not depend on an exhaustive enum.
-   */
-  readonly code?: string
-
-  /**
-   * Creates a new SolvaPayError instance.
-   *
-   * @param message - Error message
-   * @param init - Optional `{ status, code }` metadata. Both fields
-   *   are preserved on the instance so downstream consumers
-   *   (`handleRouteError`, MCP trace wrappers) can branch on HTTP
-   *   status without parsing the message string.
-   */
-  constructor(message: string, init: { status?: number; code?: string } = {}) {
-    super(message)
-    this.name = 'SolvaPayError'
-    this.status = init.status
-    this.code = init.code
-  }
-}
-
 export interface SolvaPayConfig {
   apiKey: string
   apiBaseUrl?: string
@@ -109,6 +53,22 @@ export function getSolvaPayConfig(): SolvaPayConfig {
   }
 }
 
+export {
+  SolvaPayError,
+  SolvaPayApiError,
+  SolvaPayAuthenticationError,
+  SolvaPayNotFoundError,
+  SolvaPayValidationError,
+  SolvaPayRateLimitError,
+  SolvaPayConflictError,
+  SolvaPayServerError,
+  createSolvaPayApiError,
+  parseApiErrorBody,
+  type SolvaPayApiErrorInit,
+  type SolvaPayFieldErrors,
+  type ParsedApiErrorBody,
+} from './errors'
+
 export {
   creditsToDisplayMinorUnits,
   isZeroDecimalCurrency,
@@ -152,4 +112,17 @@ export {
   type SellerIdentityRow,
 } from './seller-identity'
 
+export {
+  createConsoleLogger,
+  createJsonLogger,
+  createPinoLogger,
+  redactLogValue,
+  withRedaction,
+  type JsonLoggerOptions,
+  type LogFields,
+  type Logger,
+  type LogLevel,
+  type PinoLoggerLike,
+} from './logger'
+
 export const version = '0.1.0'
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createJsonLogger,
+  createPinoLogger,
+  redactLogValue,
+  withRedaction,
+  type LogLevel,
+} from './index'
+
+describe('redactLogValue', () => {
+  it('masks keys, bearer tokens, client secrets, JWTs and emails inside strings', () => {
+    expect(
+      redactLogValue(
+        'sk_live_abc123 Bearer abc.def-ghi pi_123_secret_456 eyJhbGciOi.eyJzdWIiOi.c2ln jane@example.com',
+      ),
+    ).toBe('[REDACTED] Bearer [REDACTED] [REDACTED] [REDACTED] [REDACTED_EMAIL]')
+  })
+
+  it('drops credential fields wholesale and keeps usage fields', () => {
+    expect(
+      redactLogValue({
+        headers: { Authorization: 'anything', 'x-request-id': 'req_1' },
+        clientSecret: 'opaque',
+        apiKey: 'opaque',
+        accessToken: 'opaque',
+        totalTokens: 42,
+        customer: { email: 'jane@example.com', ref: 'cus_1' },
+      }),
+    ).toEqual({
+      headers: { Authorization: '[REDACTED]', 'x-request-id': 'req_1' },
+      clientSecret: '[REDACTED]',
+      apiKey: '[REDACTED]',
+      accessToken: '[REDACTED]',
+      totalTokens: 42,
+      customer: { email: '[REDACTED_EMAIL]', ref: 'cus_1' },
+    })
+  })
+
+  it('serialises errors and survives cycles', () => {
+    const cyclic: Record<string, unknown> = { name: 'loop' }
+    cyclic.self = cyclic
+    const error = Object.assign(new Error('Bad key sk_test_abc'), { status: 401 })
+
+    const redacted = redactLogValue({ error, cyclic }) as Record<string, Record<string, unknown>>
+
+    expect(redacted.error).toMatchObject({
+      name: 'Error',
+      message: 'Bad key [REDACTED]',
+      status: 401,
+    })
+    expect(redacted.cyclic).toEqual({ name: 'loop', self: '[Circular]' })
+  })
+})
+
+describe('createJsonLogger', () => {
+  it('writes one JSON object per line at or above its level', () => {
+    const lines: Array<[string, LogLevel]> = []
+    const logger = createJsonLogger({
+      level: 'info',
+      base: { service: 'billing' },
+      write: (line, level) => lines.push([line, level]),
+    })
+
+    logger.debug('hidden')
+    logger.warn('Usage tracking failed', { customerRef: 'cus_1' })
+
+    expect(lines).toHaveLength(1)
+    expect(lines[0]![1]).toBe('warn')
+    expect(JSON.parse(lines[0]![0])).toEqual({
+      level: 'warn',
+      time: expect.any(String),
+      msg: 'Usage tracking failed',
+      service: 'billing',
+      customerRef: 'cus_1',
+    })
+  })
+})
+
+describe('withRedaction', () => {
+  it('redacts before the sink sees the line, and only once', () => {
+    const pino = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const logger = withRedaction(withRedaction(createPinoLogger(pino)))
+
+    logger.info('Created customer for jane@example.com', { token: 'abc' })
+    logger.error('boom')
+
+    expect(pino.info).toHaveBeenCalledWith(
+      { token: '[REDACTED]' },
+      'Created customer for [REDACTED_EMAIL]',
+    )
+    expect(pino.error).toHaveBeenCalledWith({}, 'boom')
+  })
+})
@@ -0,0 +1,261 @@
+/**
+ * Structured logging shared by the SolvaPay packages.
+ *
+ * Every package logs through a {@link Logger}. Pass your own (or wrap a
+ * pino instance with {@link createPinoLogger}) to ship SDK logs to your
+ * pipeline; otherwise servers write JSON lines and the browser writes
+ * to the console. Messages and fields pass through {@link withRedaction}
+ * first, so API keys, bearer tokens, client secrets and email addresses
+ * never reach the sink.
+ */
+
+/**
+ * @since 1.3.0
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured context attached to a log line.
+ *
+ * @since 1.3.0
+ */
+export type LogFields = Record<string, unknown>
+
+/**
+ * Logger accepted by `createSolvaPay`, the MCP server factories and
+ * `SolvaPayProvider`.
+ *
+ * @since 1.3.0
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+/**
+ * `'debug'` when `SOLVAPAY_DEBUG=true`, otherwise `'info'`. Safe to call
+ * where `process` does not exist.
+ */
+function defaultLevel(): LogLevel {
+  const env = typeof process === 'undefined' ? undefined : process.env?.SOLVAPAY_DEBUG
+  return env === 'true' ? 'debug' : 'info'
+}
+
+const REDACTED = '[REDACTED]'
+const REDACTED_EMAIL = '[REDACTED_EMAIL]'
+
+/**
+ * Field names whose values are always dropped, whatever they hold.
+ * `token` only matches whole credential names so usage fields such as
+ * `totalTokens` survive.
+ */
+const SENSITIVE_KEY =
+  /secret|password|passwd|authorization|cookie|signature|api[-_]?key|^(?:access|refresh|id|auth|bearer|session)?[-_]?token$/i
+
+const STRING_PATTERNS: Array<[RegExp, string]> = [
+  [/\bBearer\s+[\w\-.~+/]+=*/gi, `Bearer ${REDACTED}`],
+  // SolvaPay and Stripe secret / restricted keys and webhook secrets.
+  [/\b(?:sk|rk)_(?:live|test|sandbox)_\w+|\bwhsec_\w+/g, REDACTED],
+  // Stripe client secrets (`pi_…_secret_…`, `seti_…_secret_…`).
+  [/\b\w+_secret_\w+/g, REDACTED],
+  // JWTs passed around without a `Bearer` prefix.
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED],
+  [/[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi, REDACTED_EMAIL],
+]
+
+function redactString(value: string): string {
+  let result = value
+  for (const [pattern, replacement] of STRING_PATTERNS) {
+    result = result.replace(pattern, replacement)
+  }
+  return result
+}
+
+const MAX_DEPTH = 8
+
+function redactValue(value: unknown, seen: WeakSet<object>, depth: number): unknown {
+  if (typeof value === 'string') return redactString(value)
+  if (typeof value !== 'object' || value === null) return value
+  if (seen.has(value)) return '[Circular]'
+  if (depth >= MAX_DEPTH) return '[Truncated]'
+  seen.add(value)
+
+  if (value instanceof Error) {
+    const error = value as Error & { code?: unknown; status?: unknown }
+    return {
+      name: error.name,
+      message: redactString(error.message),
+      ...(error.code !== undefined ? { code: error.code } : {}),
+      ...(error.status !== undefined ? { status: error.status } : {}),
+      ...(error.stack ? { stack: redactString(error.stack) } : {}),
+    }
+  }
+  if (Array.isArray(value)) return value.map(item => redactValue(item, seen, depth + 1))
+  if (value instanceof Date) return value.toISOString()
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactValue(item, seen, depth + 1)
+  }
+  return result
+}
+
+/**
+ * Redact a message or field value: secret-looking keys are replaced
+ * wholesale, strings have keys, bearer tokens, client secrets, JWTs and
+ * emails masked, and `Error`s become plain `{ name, message, … }`
+ * objects.
+ *
+ * @since 1.3.0
+ */
+export function redactLogValue<T>(value: T): T {
+  return redactValue(value, new WeakSet(), 0) as T
+}
+
+const REDACTING = Symbol.for('solvapay.logger.redacting')
+
+/**
+ * Wrap `logger` so every message and field is passed through
+ * {@link redactLogValue}. Idempotent — wrapping twice redacts once.
+ *
+ * @since 1.3.0
+ */
+export function withRedaction(logger: Logger): Logger {
+  if ((logger as { [REDACTING]?: true })[REDACTING]) return logger
+  const forward =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (fields === undefined) {
+        logger[level](redactString(message))
+        return
+      }
+      logger[level](redactString(message), redactLogValue(fields))
+    }
+  return Object.assign(
+    {
+      debug: forward('debug'),
+      info: forward('info'),
+      warn: forward('warn'),
+      error: forward('error'),
+    },
+    { [REDACTING]: true as const },
+  )
+}
+
+/**
+ * @since 1.3.0
+ */
+export interface JsonLoggerOptions {
+  /**
+   * Lowest level written (default: `'debug'` when `SOLVAPAY_DEBUG=true`,
+   * otherwise `'info'`).
+   */
+  level?: LogLevel
+  /** Fields added to every line, e.g. `{ service: 'billing' }`. */
+  base?: LogFields
+  /**
+   * Line sink. Defaults to `console.warn` / `console.error` for those
+   * levels and `console.log` otherwise, which reach stdout / stderr on
+   * Node and the log stream on edge runtimes.
+   */
+  write?: (line: string, level: LogLevel) => void
+}
+
+/**
+ * JSON-lines logger — one `{"level","time","msg",…fields}` object per
+ * line. The server default.
+ *
+ * @since 1.3.0
+ */
+export function createJsonLogger(options: JsonLoggerOptions = {}): Logger {
+  const threshold = LEVELS[options.level ?? defaultLevel()]
+  const write =
+    options.write ??
+    ((line: string, level: LogLevel) => {
+      if (level === 'warn') console.warn(line)
+      else if (level === 'error') console.error(line)
+      // eslint-disable-next-line no-console
+      else console.log(line)
+    })
+
+  const log =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (LEVELS[level] < threshold) return
+      let line: string
+      try {
+        line = JSON.stringify({
+          level,
+          time: new Date().toISOString(),
+          msg: message,
+          ...options.base,
+          ...fields,
+        })
+      } catch {
+        // BigInts and the like — keep the message rather than throw.
+        line = JSON.stringify({ level, time: new Date().toISOString(), msg: message })
+      }
+      write(line, level)
+    }
+
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') }
+}
+
+/**
+ * Console logger — `console[level](message, fields)`. The browser
+ * default, where devtools render objects better than JSON strings.
+ *
+ * @since 1.3.0
+ */
+export function createConsoleLogger(options: { level?: LogLevel } = {}): Logger {
+  const threshold = LEVELS[options.level ?? defaultLevel()]
+  const log =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (LEVELS[level] < threshold) return
+      // eslint-disable-next-line no-console
+      if (fields === undefined) console[level](message)
+      // eslint-disable-next-line no-console
+      else console[level](message, fields)
+    }
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') }
+}
+
+/**
+ * The slice of a pino (or pino-compatible: bunyan-style `(fields, msg)`)
+ * logger the adapter calls.
+ *
+ * @since 1.3.0
+ */
+export interface PinoLoggerLike {
+  debug(fields: object, message?: string): void
+  info(fields: object, message?: string): void
+  warn(fields: object, message?: string): void
+  error(fields: object, message?: string): void
+}
+
+/**
+ * Adapt a pino-compatible logger, which takes fields first and the
+ * message second, to {@link Logger}. Levels are filtered by pino.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino'
+ *
+ * const solvaPay = createSolvaPay({ logger: createPinoLogger(pino()) })
+ * ```
+ *
+ * @since 1.3.0
+ */
+export function createPinoLogger(pino: PinoLoggerLike): Logger {
+  return {
+    debug: (message, fields) => pino.debug(fields ?? {}, message),
+    info: (message, fields) => pino.info(fields ?? {}, message),
+    warn: (message, fields) => pino.warn(fields ?? {}, message),
+    error: (message, fields) => pino.error(fields ?? {}, message),
+  }
+}
@@ -386,7 +386,9 @@ describe('buildSolvaPayDescriptors → bootstrap payload', () => {
   })
 
   it('returns a recovery-oriented tool error when getMerchant 404s', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
     const { tools } = buildSolvaPayDescriptors({
+      logger,
       solvaPay: createSolvaPay({
         apiClient: {
           checkLimits: vi
@@ -426,6 +428,13 @@ describe('buildSolvaPayDescriptors → bootstrap payload', () => {
     expect(text).toMatch(/solvapay init/)
     // Make sure we did not stringify a JSON envelope into content[0].text.
     expect(text.trim().startsWith('{')).toBe(false)
+    expect(logger.error).toHaveBeenCalledWith('MCP tool failed', {
+      tool: MCP_TOOL_NAMES.upgrade,
+      status: 404,
+      error: expect.objectContaining({
+        message: expect.stringContaining('Provider account not found'),
+      }),
+    })
   })
 
   it('activate_plan without planRef errors when checkout view is disabled', async () => {
@@ -1,7 +1,10 @@
-import { describe, expect, it } from 'vitest'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { JwtVerificationError } from '@solvapay/server'
+import { createJwksFixture, type JwksFixture } from '@solvapay/test-utils/jwks'
 import { buildAuthInfoFromBearer } from '../src/auth-bridge'
 import {
   McpBearerAuthError,
+  buildBearerChallenge,
   decodeJwtPayload,
   extractBearerToken,
   getCustomerRefFromBearerAuthHeader,
@@ -59,14 +62,14 @@ describe('mcp-auth helpers', () => {
     expect(payload.name).toBe('José García 🎉')
   })
 
-  it('buildAuthInfoFromBearer treats aud as resource metadata, not client identity', () => {
+  it('buildAuthInfoFromBearer treats aud as resource metadata, not client identity', async () => {
     const token = createUnsignedJwt({
       customer_ref: 'cust_123',
       aud: 'https://mcp.example.com',
       scope: 'tools:read tools:write',
     })
 
-    const authInfo = buildAuthInfoFromBearer(`Bearer ${token}`)
+    const authInfo = await buildAuthInfoFromBearer(`Bearer ${token}`, { verify: false })
 
     expect(authInfo?.clientId).toBe('solvapay-mcp-client')
     expect(authInfo?.scopes).toEqual(['tools:read', 'tools:write'])
@@ -74,11 +77,11 @@ describe('mcp-auth helpers', () => {
     expect(authInfo?.extra?.resource).toBe('https://mcp.example.com')
   })
 
-  it('buildAuthInfoFromBearer keeps explicit client identity ahead of resource claims', () => {
+  it('buildAuthInfoFromBearer keeps explicit client identity ahead of resource claims', async () => {
     const cases = [
       {
         payload: { customer_ref: 'cust_123', aud: 'https://mcp.example.com' },
-        options: { clientId: 'client_from_options' },
+        options: { clientId: 'client_from_options', verify: false as const },
         expected: 'client_from_options',
       },
       {
@@ -88,7 +91,7 @@ describe('mcp-auth helpers', () => {
           azp: 'client_from_azp',
           aud: 'https://mcp.example.com',
         },
-        options: {},
+        options: { verify: false as const },
         expected: 'client_from_payload',
       },
       {
@@ -97,7 +100,7 @@ describe('mcp-auth helpers', () => {
           azp: 'client_from_azp',
           aud: 'https://mcp.example.com',
         },
-        options: {},
+        options: { verify: false as const },
         expected: 'client_from_azp',
       },
     ]
@@ -105,7 +108,214 @@ describe('mcp-auth helpers', () => {
     for (const { payload, options, expected } of cases) {
       const token = createUnsignedJwt(payload)
 
-      expect(buildAuthInfoFromBearer(`Bearer ${token}`, options)?.clientId).toBe(expected)
+      expect((await buildAuthInfoFromBearer(`Bearer ${token}`, options))?.clientId).toBe(expected)
     }
   })
 })
+
+describe('buildAuthInfoFromBearer verification', () => {
+  const resource = 'https://mcp.example.com'
+  let jwks: JwksFixture
+
+  beforeAll(async () => {
+    jwks = await createJwksFixture({ audience: resource })
+  })
+
+  afterAll(async () => {
+    await jwks.close()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  const verifyWithJwks = () => ({ verify: { issuer: jwks.issuer, audience: resource } })
+
+  async function rejection(authorization: string, options: object) {
+    const error = await buildAuthInfoFromBearer(authorization, options).catch(err => err)
+    expect(error).toBeInstanceOf(McpBearerAuthError)
+    expect((error as McpBearerAuthError).code).toBe('invalid_token')
+    return error as McpBearerAuthError
+  }
+
+  it('accepts a token signed by the issuer for this resource', async () => {
+    const token = await jwks.sign({ sub: 'cust_signed', scope: 'openid' }, { alg: 'ES256' })
+
+    const authInfo = await buildAuthInfoFromBearer(`Bearer ${token}`, verifyWithJwks())
+
+    expect(authInfo?.extra?.customer_ref).toBe('cust_signed')
+    expect(authInfo?.scopes).toEqual(['openid'])
+  })
+
+  it('rejects a forged token that claims another customer', async () => {
+    await rejection(
+      `Bearer ${createUnsignedJwt({ customerRef: 'cust_victim', iss: jwks.issuer })}`,
+      verifyWithJwks(),
+    )
+  })
+
+  it('rejects expired tokens and tokens for another issuer or audience', async () => {
+    const expired = await jwks.sign({ sub: 'cust_1' }, { expiresInSec: -3600 })
+    const otherAudience = await jwks.sign({ sub: 'cust_1' }, { audience: 'https://other.example' })
+    const otherIssuer = await jwks.sign({ sub: 'cust_1' }, { issuer: 'https://evil.example' })
+
+    expect((await rejection(`Bearer ${expired}`, verifyWithJwks())).message).toMatch(/expired/)
+    await rejection(`Bearer ${otherAudience}`, verifyWithJwks())
+    await rejection(`Bearer ${otherIssuer}`, verifyWithJwks())
+  })
+
+  it('rejects every token when no verification is configured', async () => {
+    for (const name of ['SOLVAPAY_JWT_ISSUER', 'SOLVAPAY_JWKS_URL', 'SOLVAPAY_JWT_SECRET']) {
+      vi.stubEnv(name, '')
+    }
+    const token = await jwks.sign({ sub: 'cust_1' })
+
+    await rejection(`Bearer ${token}`, {})
+  })
+
+  it('reports a missing jose install as not_configured instead of an invalid token', async () => {
+    vi.resetModules()
+    vi.doMock('jose', () => {
+      throw new Error("Cannot find package 'jose'")
+    })
+    try {
+      const { buildAuthInfoFromBearer: build } = await import('../src/auth-bridge')
+      const { JwtVerificationError } = await import('@solvapay/server')
+      const token = await jwks.sign({ sub: 'cust_1' })
+
+      const error = await build(`Bearer ${token}`, verifyWithJwks()).catch(err => err)
+      expect(error).toBeInstanceOf(JwtVerificationError)
+      expect(error).toMatchObject({
+        reason: 'not_configured',
+        message: 'Install jose to verify JWTs',
+      })
+    } finally {
+      vi.doUnmock('jose')
+      vi.resetModules()
+    }
+  })
+
+  it('reads the issuer and JWKS URL from the authorization server metadata', async () => {
+    const authorizationServer = 'https://auth.example/tenant'
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ issuer: jwks.issuer, jwks_uri: jwks.jwksUrl }), {
+          status: 200,
+        }),
+    )
+    const verify = {
+      authorizationServer,
+      audience: resource,
+      fetch: fetchMock as unknown as typeof fetch,
+    }
+
+    const token = await jwks.sign({ sub: 'cust_discovered' })
+    const authInfo = await buildAuthInfoFromBearer(`Bearer ${token}`, { verify })
+    await rejection(
+      `Bearer ${await jwks.sign({ sub: 'cust_1' }, { issuer: authorizationServer })}`,
+      { verify },
+    )
+
+    expect(authInfo?.extra?.customer_ref).toBe('cust_discovered')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0]).toEqual([
+      'https://auth.example/.well-known/oauth-authorization-server/tenant',
+      expect.anything(),
+    ])
+  })
+
+  it('reports unusable authorization server metadata as a server problem and refetches it', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('not found', { status: 404 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ issuer: jwks.issuer })))
+    const verify = {
+      authorizationServer: 'https://broken-auth.example',
+      audience: resource,
+      fetch: fetchMock as unknown as typeof fetch,
+    }
+    const token = await jwks.sign({ sub: 'cust_1' })
+
+    const unavailable = await buildAuthInfoFromBearer(`Bearer ${token}`, { verify }).catch(
+      err => err,
+    )
+    expect(unavailable).toBeInstanceOf(JwtVerificationError)
+    expect(unavailable).toMatchObject({ reason: 'jwks_unavailable' })
+
+    const incomplete = await buildAuthInfoFromBearer(`Bearer ${token}`, { verify }).catch(
+      err => err,
+    )
+    expect(incomplete).toMatchObject({ reason: 'not_configured' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('verifies opaque tokens via RFC 7662 introspection and caches active results', async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const token = new URLSearchParams(init.body as string).get('token')
+      const body =
+        token === 'opaque_active'
+          ? { active: true, sub: 'cust_introspected', aud: resource, iss: 'https://auth.example' }
+          : { active: false }
+      return new Response(JSON.stringify(body), { status: 200 })
+    })
+    const verify = {
+      introspectionUrl: 'https://auth.example/oauth/introspect',
+      clientId: 'mcp',
+      clientSecret: 'secret',
+      issuer: 'https://auth.example',
+      audience: resource,
+      fetch: fetchMock as unknown as typeof fetch,
+    }
+
+    const first = await buildAuthInfoFromBearer('Bearer opaque_active', { verify })
+    const second = await buildAuthInfoFromBearer('Bearer opaque_active', { verify })
+
+    expect(first?.extra?.customer_ref).toBe('cust_introspected')
+    expect(second?.extra?.customer_ref).toBe('cust_introspected')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [url, init] = fetchMock.mock.calls[0]!
+    expect(url).toBe('https://auth.example/oauth/introspect')
+    expect((init.headers as Record<string, string>).authorization).toBe(
+      `Basic ${btoa('mcp:secret')}`,
+    )
+
+    await rejection('Bearer opaque_revoked', { verify })
+  })
+
+  it('rejects introspected tokens issued for another resource', async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ active: true, sub: 'cust_1', aud: 'https://other.example' })),
+    )
+
+    await rejection('Bearer opaque_elsewhere', {
+      verify: {
+        introspectionUrl: 'https://auth.example/oauth/introspect',
+        audience: resource,
+        fetch: fetchMock as unknown as typeof fetch,
+      },
+    })
+  })
+})
+
+describe('buildBearerChallenge', () => {
+  const metadataUrl = 'https://mcp.example.com/.well-known/oauth-protected-resource'
+
+  it('omits the error code when no token was presented', () => {
+    expect(buildBearerChallenge(metadataUrl, new McpBearerAuthError('Missing bearer token'))).toBe(
+      `Bearer resource_metadata="${metadataUrl}"`,
+    )
+  })
+
+  it('adds error and error_description for a rejected token', () => {
+    expect(
+      buildBearerChallenge(
+        metadataUrl,
+        new McpBearerAuthError('Token "x" expired', 'invalid_token'),
+      ),
+    ).toBe(
+      `Bearer resource_metadata="${metadataUrl}", error="invalid_token", ` +
+        `error_description="Token 'x' expired"`,
+    )
+  })
+})
@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { createSolvaPay, PaywallError } from '@solvapay/server'
-import type { SolvaPayClient } from '@solvapay/server'
+import type { SolvaPayClient, UsageReservation } from '@solvapay/server'
 import { buildPayableHandler } from '../src/payable-handler'
 import type {
   ContentBlock,
@@ -191,10 +191,29 @@ describe('buildPayableHandler — ctx.respond V1', () => {
 
       expect(result._meta).toBeUndefined()
     })
+
+    it('falls back to spending-limit copy for a budget-warning nudge without a message', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+      const nudge: NudgeSpec = { kind: 'budget-warning', message: '' }
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => ctx.respond({ ok: true }, { nudge }),
+      )
+
+      const result = (await handler({}, mcpExtra())) as SolvaPayCallToolResult
+
+      expect(result.content[0]).toEqual({
+        type: 'text',
+        text: `${JSON.stringify({ ok: true })}\n\nHeads up — you're approaching your monthly spending limit. Call the \`manage_account\` tool to raise it.`,
+      })
+    })
   })
 
-  describe('options.units — reserved surface (V1 ignores)', () => {
-    it('accepts `units` but trackUsage is still called with units: 1 (V1.1 will flip this test)', async () => {
+  describe('options.units', () => {
+    it('bills the units passed to ctx.respond', async () => {
       const client = makeMockClient()
       const solvaPay = makeSolvaPay(client)
 
@@ -209,9 +228,124 @@ describe('buildPayableHandler — ctx.respond V1', () => {
 
       expect(result.structuredContent).toEqual({ results: [1, 2, 3, 4] })
       expect(client.__trackUsageCalls).toHaveLength(1)
-      // V1: trackUsage is called without a caller-supplied `units` so
-      // the default stays at the hard-coded 1-credit-per-call billing.
-      expect(client.__trackUsageCalls[0].units ?? 1).toBe(1)
+      expect(client.__trackUsageCalls[0]).toMatchObject({ outcome: 'success', units: 4 })
+    })
+
+    it('fails the call when units is not a non-negative integer', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => ctx.respond({ ok: true }, { units: -1 }),
+      )
+
+      const result = (await handler({}, mcpExtra())) as SolvaPayCallToolResult
+      expect(result.isError).toBe(true)
+      expect(client.__trackUsageCalls[0]).toMatchObject({ outcome: 'fail' })
+    })
+
+    it('gates before the handler runs when estimatedUnits exceeds remaining', async () => {
+      const client = makeMockClient({ limits: { remaining: 42 } })
+      const solvaPay = makeSolvaPay(client)
+      const merchant = vi.fn(async (_args: Record<string, unknown>, ctx: ResponseContext) =>
+        ctx.respond({ ok: true }),
+      )
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test', estimatedUnits: args => Number(args.maxTokens) },
+        merchant,
+      )
+
+      const result = (await handler({ maxTokens: 100 }, mcpExtra())) as SolvaPayCallToolResult
+      expect(merchant).not.toHaveBeenCalled()
+      expect(result.structuredContent).toMatchObject({ kind: 'payment_required' })
+    })
+
+    it('bills a count per meter for multi-meter tools', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test', meters: ['requests', 'tokens'] },
+        async (_args, ctx: ResponseContext) =>
+          ctx.respond({ text: 'done' }, { units: { tokens: 30 } }),
+      )
+
+      await handler({}, mcpExtra('meters_user'))
+      expect(client.__trackUsageCalls).toEqual([
+        expect.objectContaining({
+          units: 1,
+          metadata: expect.objectContaining({ action: 'requests' }),
+        }),
+        expect.objectContaining({
+          units: 30,
+          metadata: expect.objectContaining({ action: 'tokens' }),
+        }),
+      ])
+    })
+
+    it('names the meter that tripped the gate', async () => {
+      const client = makeMockClient({ limits: { remaining: 42 } })
+      const solvaPay = makeSolvaPay(client)
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test', meters: ['requests', { name: 'images', estimatedUnits: 50 }] },
+        async (_args, ctx: ResponseContext) => ctx.respond({ ok: true }),
+      )
+
+      const result = (await handler({}, mcpExtra('meters_gate_user'))) as SolvaPayCallToolResult
+      expect(result.structuredContent).toMatchObject({ kind: 'payment_required', meter: 'images' })
+    })
+  })
+
+  describe('ctx.reserve', () => {
+    it('bills committed holds and releases the ones left open', async () => {
+      const client = makeMockClient({ limits: { remaining: 42 } })
+      const solvaPay = makeSolvaPay(client)
+      const holds: UsageReservation[] = []
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => {
+          const committed = await ctx.reserve(10)
+          holds.push(committed, await ctx.reserve(20))
+          await committed.commit(7)
+          return ctx.respond({ ok: true })
+        },
+      )
+
+      await handler({}, mcpExtra('reserve_user'))
+      expect(holds.map(hold => hold.state)).toEqual(['committed', 'released'])
+      expect(client.__trackUsageCalls).toEqual([
+        expect.objectContaining({
+          units: 7,
+          metadata: expect.objectContaining({ requestId: holds[0]!.id }),
+        }),
+        expect.objectContaining({ outcome: 'success', units: 1 }),
+      ])
+    })
+
+    it('returns the paywall when the hold does not fit', async () => {
+      const client = makeMockClient({ limits: { remaining: 42 } })
+      const solvaPay = makeSolvaPay(client)
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => {
+          await ctx.reserve(100)
+          return ctx.respond({ ok: true })
+        },
+      )
+
+      const result = (await handler({}, mcpExtra('reserve_gate_user'))) as SolvaPayCallToolResult
+      expect(result.structuredContent).toMatchObject({ kind: 'payment_required' })
     })
   })
 
@@ -357,7 +491,7 @@ describe('buildPayableHandler — ctx.respond V1', () => {
     })
   })
 
-  describe('ctx.emit (reserved surface, V1 queue-and-flush)', () => {
+  describe('ctx.emit', () => {
     it('flushes queued blocks into content[] before the text block', async () => {
       const client = makeMockClient()
       const solvaPay = makeSolvaPay(client)
@@ -380,10 +514,39 @@ describe('buildPayableHandler — ctx.respond V1', () => {
       expect(result.content[1]).toEqual({ type: 'text', text: 'intermediate 2' })
       expect(result.content[2]).toMatchObject({ type: 'text' })
     })
+
+    it('sends each block as a content notification while the handler runs', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+      const sendNotification = vi.fn(async () => undefined)
+      const block: ContentBlock = { type: 'text', text: 'draft 1' }
+      let sentBeforeRespond = 0
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => {
+          await ctx.emit(block)
+          sentBeforeRespond = sendNotification.mock.calls.length
+          return ctx.respond({ final: true })
+        },
+      )
+
+      const result = (await handler(
+        {},
+        { ...mcpExtra(), sendNotification, _meta: { progressToken: 'tok_1' } },
+      )) as SolvaPayCallToolResult
+      expect(sentBeforeRespond).toBe(1)
+      expect(sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/solvapay/content',
+        params: { progressToken: 'tok_1', block },
+      })
+      expect(result.content[0]).toEqual(block)
+    })
   })
 
-  describe('ctx.progress / ctx.progressRaw (reserved surface, V1 no-op)', () => {
-    it('resolves without error', async () => {
+  describe('ctx.progress / ctx.progressRaw', () => {
+    it('resolves without error when the request has no progressToken', async () => {
       const client = makeMockClient()
       const solvaPay = makeSolvaPay(client)
 
@@ -400,9 +563,67 @@ describe('buildPayableHandler — ctx.respond V1', () => {
       const result = (await handler({}, mcpExtra())) as SolvaPayCallToolResult
       expect(result.structuredContent).toEqual({ ok: true })
     })
+
+    it('sends increasing notifications/progress for the request progressToken', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+      const sendNotification = vi.fn(async () => undefined)
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => {
+          await ctx.progress({ percent: 40, message: 'rendering' })
+          // Not above the last value sent, so dropped.
+          await ctx.progress({ percent: 40 })
+          await ctx.progress({ percent: 140 })
+          await ctx.progressRaw({ progress: 200, total: 300 })
+          return ctx.respond({ ok: true })
+        },
+      )
+
+      await handler({}, { ...mcpExtra(), sendNotification, _meta: { progressToken: 7 } })
+      expect(sendNotification.mock.calls.map(([notification]) => notification)).toEqual([
+        {
+          method: 'notifications/progress',
+          params: { progressToken: 7, progress: 40, total: 100, message: 'rendering' },
+        },
+        {
+          method: 'notifications/progress',
+          params: { progressToken: 7, progress: 100, total: 100 },
+        },
+        {
+          method: 'notifications/progress',
+          params: { progressToken: 7, progress: 200, total: 300 },
+        },
+      ])
+    })
+
+    it('does not fail the call when the notification cannot be sent', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+      const sendNotification = vi.fn(async () => {
+        throw new Error('Not connected')
+      })
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => {
+          await ctx.progress({ percent: 10 })
+          return ctx.respond({ ok: true })
+        },
+      )
+
+      const result = (await handler(
+        {},
+        { ...mcpExtra(), sendNotification, _meta: { progressToken: 'tok' } },
+      )) as SolvaPayCallToolResult
+      expect(result.structuredContent).toEqual({ ok: true })
+    })
   })
 
-  describe('ctx.signal (reserved surface, V1 unaborted)', () => {
+  describe('ctx.signal', () => {
     it('is an unaborted AbortSignal', async () => {
       const client = makeMockClient()
       const solvaPay = makeSolvaPay(client)
@@ -420,6 +641,51 @@ describe('buildPayableHandler — ctx.respond V1', () => {
       await handler({}, mcpExtra())
       expect(aborted).toBe(false)
     })
+
+    it('aborts on client cancellation and records a cancelled failure', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+      const request = new AbortController()
+      let reason: unknown
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => {
+          // What the MCP SDK does on `notifications/cancelled`.
+          request.abort('User stopped the generation')
+          reason = ctx.signal.reason
+          ctx.signal.throwIfAborted()
+          return ctx.respond({ ok: true })
+        },
+      )
+
+      await handler({}, { ...mcpExtra(), signal: request.signal })
+      expect(reason).toMatchObject({ name: 'AbortError' })
+      expect(client.__trackUsageCalls).toHaveLength(1)
+      expect(client.__trackUsageCalls[0]).toMatchObject({
+        outcome: 'fail',
+        metadata: expect.objectContaining({ reason: 'cancelled' }),
+      })
+    })
+
+    it('does not bill a handler that returns after the client cancelled', async () => {
+      const client = makeMockClient()
+      const solvaPay = makeSolvaPay(client)
+      const request = new AbortController()
+
+      const handler = buildPayableHandler(
+        solvaPay,
+        { product: 'prd_test' },
+        async (_args, ctx: ResponseContext) => {
+          request.abort()
+          return ctx.respond({ ok: true }, { units: 5 })
+        },
+      )
+
+      await handler({}, { ...mcpExtra(), signal: request.signal })
+      expect(client.__trackUsageCalls.map(call => call.outcome)).toEqual(['fail'])
+    })
   })
 
   describe('error path', () => {
@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { DurableObjectStorageLike, RedisCommand } from '@solvapay/server'
+import {
+  createDurableObjectMcpSessionStore,
+  createMemoryMcpSessionStore,
+  createRedisMcpSessionStore,
+  getMcpSessionId,
+  MCP_SESSION_FORWARDED_HEADER,
+  McpSessionStoreDurableObject,
+  pickMcpSessionReplica,
+  resolveMcpSessionReplica,
+  type McpSessionStore,
+} from '../src'
+
+/**
+ * Tiny in-process stand-in for the Redis commands the store issues.
+ * `EVAL` is interpreted as the store's append-event script.
+ */
+function createFakeRedis(): { command: RedisCommand; data: Map<string, string | string[]> } {
+  const data = new Map<string, string | string[]>()
+  const command: RedisCommand = async args => {
+    const [name, ...rest] = args.map(String)
+    switch (name) {
+      case 'GET':
+        return data.get(rest[0]!) ?? null
+      case 'SET':
+        data.set(rest[0]!, rest[1]!)
+        return 'OK'
+      case 'DEL':
+        return rest.filter(key => data.delete(key)).length
+      case 'PEXPIRE':
+        return data.has(rest[0]!) ? 1 : 0
+      case 'LRANGE':
+        return data.get(rest[0]!) ?? []
+      case 'EVAL': {
+        const [, , seqKey, listKey, streamId, message, max] = rest
+        const seq = Number(data.get(seqKey!) ?? 0) + 1
+        data.set(seqKey!, String(seq))
+        const list = [
+          ...((data.get(listKey!) as string[]) ?? []),
+          `${seq}\n${streamId}\n${message}`,
+        ]
+        data.set(listKey!, list.slice(-Number(max)))
+        return seq
+      }
+      default:
+        throw new Error(`Unsupported command ${name}`)
+    }
+  }
+  return { command, data }
+}
+
+function createFakeDurableObjectStorage(): DurableObjectStorageLike {
+  const data = new Map<string, unknown>()
+  let alarm: number | null = null
+  return {
+    async get<T>(key: string) {
+      return data.get(key) as T | undefined
+    },
+    async put(key, value) {
+      data.set(key, value)
+    },
+    async delete(key) {
+      return data.delete(key)
+    },
+    async list<T>() {
+      return new Map(data) as Map<string, T>
+    },
+    async getAlarm() {
+      return alarm
+    },
+    async setAlarm(time) {
+      alarm = time
+    },
+  }
+}
+
+function createDurableObjectStore(): McpSessionStore {
+  const object = new McpSessionStoreDurableObject({ storage: createFakeDurableObjectStorage() })
+  return createDurableObjectMcpSessionStore({
+    namespace: {
+      idFromName: (name: string) => name,
+      get: () => ({ fetch: (input, init) => object.fetch(new Request(input, init)) }),
+    },
+  })
+}
+
+const backends: Array<[string, () => McpSessionStore]> = [
+  ['createMemoryMcpSessionStore', () => createMemoryMcpSessionStore()],
+  ['createRedisMcpSessionStore', () => createRedisMcpSessionStore(createFakeRedis())],
+  ['createDurableObjectMcpSessionStore', createDurableObjectStore],
+]
+
+describe.each(backends)('%s', (_name, createStore) => {
+  it('round-trips sessions and deletes them with their events', async () => {
+    const store = createStore()
+    const record = { sessionId: 'sess_1', customerRef: 'cus_1', createdAt: 1 }
+    await store.setSession(record, { ttlMs: 60_000 })
+    expect(await store.getSession('sess_1')).toEqual(record)
+
+    const eventId = await store.appendEvent('sess_1', 'stream_a', { n: 1 }, { ttlMs: 60_000 })
+    await store.deleteSession('sess_1')
+    expect(await store.getSession('sess_1')).toBeUndefined()
+    expect(await store.readEventsAfter('sess_1', eventId)).toEqual({
+      streamId: 'stream_a',
+      events: [],
+    })
+  })
+
+  it('replays only the named stream, after the given event', async () => {
+    const store = createStore()
+    const first = await store.appendEvent('sess_1', 'stream_a', { n: 1 })
+    await store.appendEvent('sess_1', '_GET_stream', { n: 2 })
+    const third = await store.appendEvent('sess_1', 'stream_a', { n: 3 })
+    await store.appendEvent('sess_1', 'stream_a', { n: 4 })
+
+    const replay = await store.readEventsAfter('sess_1', first)
+    expect(replay?.streamId).toBe('stream_a')
+    expect(replay?.events.map(event => event.message)).toEqual([{ n: 3 }, { n: 4 }])
+    expect(replay?.events[0]?.eventId).toBe(third)
+    expect(await store.readEventsAfter('sess_1', 'not-an-event-id')).toBeUndefined()
+  })
+})
+
+describe('createMemoryMcpSessionStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('expires idle sessions after ttlMs and caps each event log', async () => {
+    const store = createMemoryMcpSessionStore({ maxEventsPerSession: 2 })
+    await store.setSession({ sessionId: 'sess_1', createdAt: 1 }, { ttlMs: 1000 })
+    const first = await store.appendEvent('sess_1', 's', 1, { ttlMs: 1000 })
+    await store.appendEvent('sess_1', 's', 2, { ttlMs: 1000 })
+    await store.appendEvent('sess_1', 's', 3, { ttlMs: 1000 })
+    await store.appendEvent('sess_1', 's', 4, { ttlMs: 1000 })
+    // Event 2 was dropped to make room.
+    expect((await store.readEventsAfter('sess_1', first))?.events).toHaveLength(2)
+
+    vi.advanceTimersByTime(1001)
+    expect(await store.getSession('sess_1')).toBeUndefined()
+  })
+})
+
+describe('createRedisMcpSessionStore', () => {
+  it('keeps the record and log under the key prefix with matching TTLs', async () => {
+    const { command } = createFakeRedis()
+    const spy = vi.fn(command)
+    const store = createRedisMcpSessionStore({ command: spy, keyPrefix: 'test:' })
+
+    await store.setSession({ sessionId: 'sess_1', createdAt: 1 }, { ttlMs: 5000 })
+    await store.appendEvent('sess_1', 'stream_a', { n: 1 }, { ttlMs: 5000 })
+
+    expect(spy).toHaveBeenCalledWith(['PEXPIRE', 'test:sess_1:events', 5000])
+    expect(spy).toHaveBeenCalledWith([
+      'SET',
+      'test:sess_1',
+      JSON.stringify({ sessionId: 'sess_1', createdAt: 1 }),
+      'PX',
+      5000,
+    ])
+    expect(spy).toHaveBeenCalledWith([
+      'EVAL',
+      expect.any(String),
+      2,
+      'test:sess_1:seq',
+      'test:sess_1:events',
+      'stream_a',
+      '{"n":1}',
+      1000,
+      5000,
+    ])
+  })
+})
+
+describe('session routing', () => {
+  const replicas = ['http://mcp-0:3000', 'http://mcp-1:3000', 'http://mcp-2:3000']
+
+  it('reads mcp-session-id from fetch and Node headers', () => {
+    expect(getMcpSessionId(new Headers({ 'mcp-session-id': 'sess_1' }))).toBe('sess_1')
+    expect(getMcpSessionId({ 'mcp-session-id': ['sess_2'] })).toBe('sess_2')
+    expect(getMcpSessionId({})).toBeNull()
+  })
+
+  it('sends every session to one replica and moves few when a replica leaves', () => {
+    const sessions = Array.from({ length: 300 }, (_, i) => `sess_${i}`)
+    const owners = sessions.map(id => pickMcpSessionReplica(id, replicas))
+    expect(new Set(owners).size).toBe(3)
+    expect(sessions.map(id => pickMcpSessionReplica(id, [...replicas].reverse()))).toEqual(owners)
+
+    // Only sessions owned by the removed replica move.
+    const remaining = replicas.slice(0, 2)
+    sessions.forEach((id, i) => {
+      if (owners[i] !== replicas[2]) expect(pickMcpSessionReplica(id, remaining)).toBe(owners[i])
+    })
+  })
+
+  it('serves requests without a session, owned sessions and forwarded requests locally', () => {
+    const owner = pickMcpSessionReplica('sess_1', replicas)
+    const other = replicas.find(replica => replica !== owner)!
+    const headers = new Headers({ 'mcp-session-id': 'sess_1' })
+
+    expect(resolveMcpSessionReplica(new Headers(), { replicas, self: other })).toBeNull()
+    expect(resolveMcpSessionReplica(headers, { replicas, self: owner })).toBeNull()
+    expect(resolveMcpSessionReplica(headers, { replicas, self: other })).toBe(owner)
+    headers.set(MCP_SESSION_FORWARDED_HEADER, owner)
+    expect(resolveMcpSessionReplica(headers, { replicas, self: other })).toBeNull()
+  })
+})
@@ -1,6 +1,7 @@
 /**
  * Build an MCP `authInfo` envelope from an `Authorization: Bearer <jwt>`
- * header. Populates `authInfo.extra.customer_ref` so downstream
+ * header. The token is verified first (see `./bearer-verification`),
+ * then `authInfo.extra.customer_ref` is populated so downstream
  * `getCustomerRef` extractors (adapter + descriptor handlers) can read
  * the caller identity without re-parsing the token.
  */
@@ -11,6 +12,7 @@ import {
   getCustomerRefFromJwtPayload,
   type McpBearerCustomerRefOptions,
 } from './bearer'
+import { verifyBearerToken, type McpBearerVerificationOptions } from './bearer-verification'
 import type { McpToolExtra } from './types'
 
 type JwtPayload = Record<string, unknown>
@@ -19,6 +21,16 @@ export interface BuildAuthInfoFromBearerOptions extends McpBearerCustomerRefOpti
   clientId?: string
   defaultScopes?: string[]
   includePayload?: boolean
+  /**
+   * How the token is verified before its claims are trusted. JWKS
+   * options check signature, `exp`, `iss` and `aud`; `authorizationServer`
+   * reads the issuer and JWKS URL from its RFC 8414 metadata;
+   * `introspectionUrl` asks the authorization server instead. When omitted, JWKS settings
+   * come from the environment and unconfigured verification rejects
+   * every token. `false` skips verification — only for tokens already
+   * validated upstream.
+   */
+  verify?: McpBearerVerificationOptions | false
 }
 
 function getClientId(payload: JwtPayload, explicitClientId?: string): string {
@@ -57,14 +69,26 @@ function getExpiresAt(payload: JwtPayload): number | undefined {
   return typeof payload.exp === 'number' ? payload.exp : undefined
 }
 
-export function buildAuthInfoFromBearer(
+/**
+ * Verify the bearer token in `authorization` and map its claims onto an
+ * MCP `authInfo` envelope. Resolves `null` when there is no bearer token.
+ *
+ * @throws {McpBearerAuthError} When the token fails verification (code
+ *   `invalid_token`) or carries no customer reference
+ * @throws {JwtVerificationError} With reason `not_configured` when the
+ *   `jose` peer dependency is not installed
+ */
+export async function buildAuthInfoFromBearer(
   authorization?: string | null,
   options: BuildAuthInfoFromBearerOptions = {},
-): McpToolExtra['authInfo'] | null {
+): Promise<McpToolExtra['authInfo'] | null> {
   const token = extractBearerToken(authorization)
   if (!token) return null
 
-  const payload = decodeJwtPayload(token)
+  const payload =
+    options.verify === false
+      ? decodeJwtPayload(token)
+      : await verifyBearerToken(token, options.verify)
   const customerRef = getCustomerRefFromJwtPayload(payload, options)
   const clientId = getClientId(payload, options.clientId)
   const scopes = getScopes(payload, options.defaultScopes || [])
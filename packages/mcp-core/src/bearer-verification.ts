@@ -0,0 +1,258 @@
+/**
+ * Bearer-token verification for the MCP endpoint. `buildAuthInfoFromBearer`
+ * runs every token through here before it trusts a single claim, so a
+ * forged `customerRef` / `sub` can never reach a payable tool.
+ *
+ * Three strategies:
+ *
+ * - **JWKS** — signature, `exp`, `iss` and `aud` checked locally by
+ *   `verifyJwt` from `@solvapay/server`. Keys are cached per isolate and
+ *   refetched when a token names an unknown `kid`.
+ * - **Discovery** (RFC 8414) — the same JWKS check, with `iss` and the
+ *   JWKS URL read from the authorization server's metadata instead of
+ *   being configured by hand.
+ * - **Introspection** (RFC 7662) — the authorization server answers
+ *   `active` / `exp` / `iss` / `aud` for opaque or JWT tokens. Active
+ *   results are cached briefly so a busy session does not introspect on
+ *   every tool call.
+ */
+
+import { JwtVerificationError, verifyJwt } from '@solvapay/server'
+import type { JwtVerificationOptions } from '@solvapay/server'
+import { McpBearerAuthError } from './bearer'
+
+/** Verify tokens against the authorization server's JWKS. */
+export type McpBearerJwksVerification = Omit<JwtVerificationOptions, 'claims'>
+
+/** Verify tokens against an RFC 7662 introspection endpoint. */
+export interface McpBearerIntrospectionVerification {
+  introspectionUrl: string
+  /** Client credentials sent as HTTP Basic auth, when the endpoint requires them. */
+  clientId?: string
+  clientSecret?: string
+  /** Expected `iss`; any one match passes. */
+  issuer?: string | string[]
+  /** Expected `aud` — the MCP resource URL; any one match passes. */
+  audience?: string | string[]
+  /** How long an active result is reused, capped at the token's `exp` (default: 60 seconds). */
+  cacheTtlMs?: number
+  /** Custom fetch (default: `globalThis.fetch`). */
+  fetch?: typeof fetch
+}
+
+/**
+ * Verify tokens against the JWKS the authorization server publishes. Its
+ * `issuer` and `jwks_uri` come from the RFC 8414 metadata document.
+ */
+export interface McpBearerDiscoveryVerification {
+  /** Authorization server issuer URL; metadata is read from its `/.well-known/oauth-authorization-server`. */
+  authorizationServer: string
+  /** Expected `aud` — the MCP resource URL; any one match passes. */
+  audience?: string | string[]
+  /** Custom fetch for the metadata document (default: `globalThis.fetch`). */
+  fetch?: typeof fetch
+}
+
+export type McpBearerVerificationOptions =
+  | McpBearerJwksVerification
+  | McpBearerIntrospectionVerification
+  | McpBearerDiscoveryVerification
+
+type TokenPayload = Record<string, unknown>
+
+const DEFAULT_INTROSPECTION_CACHE_TTL_MS = 60_000
+const MAX_INTROSPECTION_CACHE_ENTRIES = 1_000
+
+/**
+ * Active introspection results by endpoint and token. Module-level for
+ * the same reason as the JWKS cache: one lookup per isolate, not per
+ * request.
+ */
+const introspectionCache = new Map<string, { payload: TokenPayload; expiresAt: number }>()
+
+/** Authorization server metadata by URL, fetched once per isolate. */
+const metadataCache = new Map<string, Promise<{ issuer: string; jwksUrl: string }>>()
+
+function isIntrospection(
+  options: McpBearerVerificationOptions,
+): options is McpBearerIntrospectionVerification {
+  return typeof (options as McpBearerIntrospectionVerification).introspectionUrl === 'string'
+}
+
+function isDiscovery(
+  options: McpBearerVerificationOptions,
+): options is McpBearerDiscoveryVerification {
+  return typeof (options as McpBearerDiscoveryVerification).authorizationServer === 'string'
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function invalidToken(message: string): McpBearerAuthError {
+  return new McpBearerAuthError(message, 'invalid_token')
+}
+
+function checkIntrospectedClaims(
+  payload: TokenPayload,
+  options: McpBearerIntrospectionVerification,
+): void {
+  if (payload.active !== true) throw invalidToken('Token is not active')
+
+  if (typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now()) {
+    throw invalidToken('Token has expired')
+  }
+
+  const issuers = toList(options.issuer)
+  if (issuers.length && !issuers.includes(payload.iss as string)) {
+    throw invalidToken('Token issuer is not accepted')
+  }
+
+  const audiences = toList(options.audience)
+  const tokenAudiences = toList(payload.aud as string | string[] | undefined)
+  if (audiences.length && !tokenAudiences.some(aud => audiences.includes(aud))) {
+    throw invalidToken('Token audience is not accepted')
+  }
+}
+
+async function introspect(
+  token: string,
+  options: McpBearerIntrospectionVerification,
+): Promise<TokenPayload> {
+  const cacheKey = `${options.introspectionUrl}\n${token}`
+  const cached = introspectionCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) return cached.payload
+  introspectionCache.delete(cacheKey)
+
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded',
+    accept: 'application/json',
+  }
+  if (options.clientId) {
+    headers.authorization = `Basic ${btoa(`${options.clientId}:${options.clientSecret ?? ''}`)}`
+  }
+
+  let payload: TokenPayload
+  try {
+    const response = await (options.fetch ?? fetch)(options.introspectionUrl, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: 'access_token' }).toString(),
+    })
+    if (!response.ok) {
+      throw new Error(`introspection endpoint returned ${response.status}`)
+    }
+    payload = (await response.json()) as TokenPayload
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw invalidToken(`Could not introspect token: ${message}`)
+  }
+
+  checkIntrospectedClaims(payload, options)
+
+  let expiresAt = Date.now() + (options.cacheTtlMs ?? DEFAULT_INTROSPECTION_CACHE_TTL_MS)
+  if (typeof payload.exp === 'number') expiresAt = Math.min(expiresAt, payload.exp * 1000)
+  if (introspectionCache.size >= MAX_INTROSPECTION_CACHE_ENTRIES) {
+    // Maps iterate in insertion order, so this drops the oldest entry.
+    introspectionCache.delete(introspectionCache.keys().next().value as string)
+  }
+  introspectionCache.set(cacheKey, { payload, expiresAt })
+  return payload
+}
+
+/** RFC 8414 §3: the well-known segment goes between the host and any issuer path. */
+function metadataUrlFor(authorizationServer: string): string {
+  const url = new URL(authorizationServer)
+  const path = url.pathname.replace(/\/+$/, '')
+  return `${url.origin}/.well-known/oauth-authorization-server${path}`
+}
+
+/**
+ * Read `issuer` and `jwks_uri` from the authorization server's metadata.
+ * A missing or unusable document is a server-side problem, not a bad
+ * token, so it surfaces as a `JwtVerificationError` rather than
+ * `invalid_token`, and is refetched on the next request.
+ */
+async function discoverJwks(
+  options: McpBearerDiscoveryVerification,
+): Promise<{ issuer: string; jwksUrl: string }> {
+  const url = metadataUrlFor(options.authorizationServer)
+  let metadata = metadataCache.get(url)
+  if (!metadata) {
+    metadata = (async () => {
+      let document: { issuer?: unknown; jwks_uri?: unknown }
+      try {
+        const response = await (options.fetch ?? fetch)(url, {
+          headers: { accept: 'application/json' },
+        })
+        if (!response.ok) throw new Error(`metadata endpoint returned ${response.status}`)
+        document = (await response.json()) as typeof document
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new JwtVerificationError(
+          'jwks_unavailable',
+          `Could not load authorization server metadata: ${message}`,
+        )
+      }
+      if (typeof document.issuer !== 'string' || typeof document.jwks_uri !== 'string') {
+        throw new JwtVerificationError(
+          'not_configured',
+          `Authorization server metadata at ${url} has no issuer or jwks_uri`,
+        )
+      }
+      return { issuer: document.issuer, jwksUrl: document.jwks_uri }
+    })()
+    metadataCache.set(url, metadata)
+    metadata.catch(() => metadataCache.delete(url))
+  }
+  return metadata
+}
+
+/**
+ * `verifyJwt` loads `jose` lazily, and a failed load would otherwise
+ * reject every token as `invalid_token`. Checking up front reports the
+ * missing peer dependency as what it is: a server misconfiguration.
+ */
+async function requireJose(): Promise<void> {
+  try {
+    await import('jose')
+  } catch {
+    throw new JwtVerificationError('not_configured', 'Install jose to verify JWTs')
+  }
+}
+
+/**
+ * Verify `token` and return its claims.
+ *
+ * With no options, JWKS verification reads its configuration from the
+ * environment (`SOLVAPAY_JWT_ISSUER`, `SOLVAPAY_JWKS_URL`,
+ * `SOLVAPAY_JWT_AUDIENCE`); a token that cannot be verified is rejected,
+ * including when nothing is configured.
+ *
+ * @throws {McpBearerAuthError} With code `invalid_token` when the token is rejected
+ * @throws {JwtVerificationError} With reason `not_configured` when the
+ *   `jose` peer dependency is not installed or the authorization server
+ *   metadata lacks `issuer` / `jwks_uri`, or `jwks_unavailable` when that
+ *   metadata cannot be fetched
+ */
+export async function verifyBearerToken(
+  token: string,
+  options: McpBearerVerificationOptions = {},
+): Promise<TokenPayload> {
+  if (isIntrospection(options)) return introspect(token, options)
+
+  await requireJose()
+  const jwks: McpBearerJwksVerification = isDiscovery(options)
+    ? {
+        ...(await discoverJwks(options)),
+        ...(options.audience !== undefined ? { audience: options.audience } : {}),
+      }
+    : options
+  try {
+    return await verifyJwt(token, jwks)
+  } catch (error) {
+    if (error instanceof JwtVerificationError) throw invalidToken(error.message)
+    throw error
+  }
+}
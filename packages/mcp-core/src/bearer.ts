@@ -2,15 +2,40 @@
  * MCP OAuth bearer-token helper utilities.
  *
  * These helpers are intentionally lightweight and do not verify JWT
- * signatures. Use them after token validation (for example via
- * `/v1/customer/auth/userinfo`).
+ * signatures. Use them after token validation — `buildAuthInfoFromBearer`
+ * verifies before it reads any claim.
  */
 
+/**
+ * RFC 6750 error code for a rejected bearer token. Left unset when the
+ * request carried no token at all, which per the RFC gets a bare
+ * challenge.
+ */
+export type McpBearerErrorCode = 'invalid_request' | 'invalid_token' | 'insufficient_scope'
+
 export class McpBearerAuthError extends Error {
-  constructor(message: string) {
+  readonly code?: McpBearerErrorCode
+
+  constructor(message: string, code?: McpBearerErrorCode) {
     super(message)
     this.name = 'McpBearerAuthError'
+    this.code = code
+  }
+}
+
+/**
+ * Build the `WWW-Authenticate` value for a 401 on the MCP endpoint:
+ * `resource_metadata` points clients at protected-resource discovery,
+ * and a rejected token adds `error` / `error_description` (RFC 6750 §3).
+ */
+export function buildBearerChallenge(resourceMetadataUrl: string, error?: unknown): string {
+  const params = [`resource_metadata="${resourceMetadataUrl}"`]
+  if (error instanceof McpBearerAuthError && error.code) {
+    params.push(`error="${error.code}"`)
+    // Quoted-string values cannot carry `"` or `\`.
+    params.push(`error_description="${error.message.replace(/["\\]/g, "'")}"`)
   }
+  return `Bearer ${params.join(', ')}`
 }
 
 export type McpBearerCustomerRefOptions = {
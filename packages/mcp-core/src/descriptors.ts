@@ -1,7 +1,7 @@
 /**
  * `buildSolvaPayDescriptors(options)` — framework-neutral tool surface
- * builder that every SolvaPay MCP adapter (`@solvapay/mcp`, future
- * `@solvapay/mcp-fastmcp`, raw JSON-RPC adapters) maps onto its own
+ * builder that every SolvaPay MCP adapter (`@solvapay/mcp`,
+ * `@solvapay/mcp-fastmcp`, `@solvapay/mcp-jsonrpc`) maps onto its own
  * registration API.
  *
  * Body is lifted from the original
@@ -46,6 +46,7 @@ import {
   reactivatePurchaseCore,
   type SolvaPay,
 } from '@solvapay/server'
+import { createJsonLogger, withRedaction, type Logger } from '@solvapay/core'
 import { z } from 'zod'
 import {
   buildSolvaPayRequest,
@@ -200,6 +201,12 @@ export interface BuildSolvaPayDescriptorsOptions {
    * `iconUrl` / `logoUrl` / `displayName`) and passing the result in.
    */
   branding?: SolvaPayMerchantBranding
+  /**
+   * Structured logger for tool calls (`debug`) and tool failures
+   * (`error`). Defaults to JSON lines, with debug output when
+   * `SOLVAPAY_DEBUG=true`. Secrets and emails are redacted.
+   */
+  logger?: Logger
 }
 
 export interface SolvaPayDescriptorBundle {
@@ -257,6 +264,7 @@ export function buildSolvaPayDescriptors(
     branding,
   } = options
   const toolIcons = deriveIcons(branding)
+  const logger = withRedaction(options.logger ?? createJsonLogger())
 
   if (!/^https?:\/\//i.test(publicBaseUrl)) {
     throw new Error(
@@ -325,7 +333,9 @@ export function buildSolvaPayDescriptors(
     onToolCall?.(name, args, extra)
     try {
       const result = await handler()
-      if (onToolResult) onToolResult(name, result, { durationMs: Date.now() - started })
+      const durationMs = Date.now() - started
+      logger.debug('MCP tool call', { tool: name, durationMs, isError: result.isError === true })
+      if (onToolResult) onToolResult(name, result, { durationMs })
       return result
     } catch (err) {
       // Errors thrown from `buildBootstrapPayload` and downstream
@@ -353,6 +363,7 @@ export function buildSolvaPayDescriptors(
         status,
         details,
       })
+      logger.error('MCP tool failed', { tool: name, status, error: err })
       if (onToolResult) onToolResult(name, errorResult, { durationMs: Date.now() - started })
       return errorResult
     }
@@ -60,6 +60,8 @@
  * the same filter without each re-implementing the reach-in.
  */
 
+import { createJsonLogger, withRedaction, type Logger } from '@solvapay/core'
+
 /**
  * Structural shape of the subset of `McpServer` we need. Typed
  * structurally so `@solvapay/mcp-core` stays free of any
@@ -126,6 +128,8 @@ export interface ApplyHideToolsByAudienceOptions {
    * false` to apply the filter unconditionally.
    */
   bypassWhen?: HideToolsByAudienceBypass
+  /** Receives the bypass warning (default: JSON lines). */
+  logger?: Logger
 }
 
 /**
@@ -170,6 +174,7 @@ export function applyHideToolsByAudience(
   if (!audiences || audiences.length === 0) return
   const hidden = new Set(audiences)
   const bypassWhen = options.bypassWhen ?? defaultIsChatGptRequest
+  const logger = withRedaction(options.logger ?? createJsonLogger())
 
   const inner = (server as McpServerLike).server
   if (!inner || typeof inner !== 'object' || !(inner._requestHandlers instanceof Map)) {
@@ -203,9 +208,9 @@ export function applyHideToolsByAudience(
       const context = ua ? `ua=${ua}` : 'no user-agent'
       if (!warned.has(context)) {
         warned.add(context)
-        console.warn(
-          `[solvapay/mcp] hideToolsByAudience filter bypassed (${context}); returning full tools/list catalog.`,
-        )
+        logger.warn('hideToolsByAudience filter bypassed; returning full tools/list catalog', {
+          userAgent: ua ?? null,
+        })
       }
       return res
     }
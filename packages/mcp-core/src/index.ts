@@ -3,8 +3,8 @@
  * SDK. Provides tool names, result shape, paywall meta envelope, CSP
  * defaults, bootstrap payload, pure OAuth discovery JSON builders, bearer
  * / JWT helpers, and the descriptor + payable handler builders that every
- * SolvaPay MCP adapter (`@solvapay/mcp`, future `fastmcp` / raw JSON-RPC
- * adapters) maps onto its own registration API.
+ * SolvaPay MCP adapter (`@solvapay/mcp`, `@solvapay/mcp-fastmcp`,
+ * `@solvapay/mcp-jsonrpc`) maps onto its own registration API.
  *
  * This package is the single source of truth for shapes that cross the
  * server↔client boundary (bootstrap payload, tool names, view map). It
@@ -90,6 +90,10 @@ export {
   minorUnitsPerMajor,
 } from '@solvapay/core'
 
+// ---- Structured logging (re-exported from @solvapay/core for MCP integrators) ----
+export { createJsonLogger, createPinoLogger } from '@solvapay/core'
+export type { Logger, LogFields, LogLevel } from '@solvapay/core'
+
 // ---- Narrators (per-tool text-mode renderers) ----
 export {
   NARRATORS,
@@ -153,7 +157,15 @@ export type {
 } from './bootstrap-payload'
 
 export { buildPayableHandler } from './payable-handler'
+export { CONTENT_NOTIFICATION_METHOD } from './response-context'
 export type { BuildPayableHandlerContext } from './payable-handler'
+export { buildPayableToolDescriptor } from './payable-tool-descriptor'
+export type {
+  BuildPayableToolDescriptorOptions,
+  InferToolArgs,
+  SolvaPayToolInputShape,
+} from './payable-tool-descriptor'
+export { LEGACY_RESOURCE_URI_META_KEY, toolDescriptorMeta } from './tool-meta'
 
 // ---- OAuth discovery (pure JSON, framework-neutral) ----
 export {
@@ -171,12 +183,44 @@ export type {
 // ---- Auth info + bearer helpers ----
 export { buildAuthInfoFromBearer } from './auth-bridge'
 export type { BuildAuthInfoFromBearerOptions } from './auth-bridge'
+export { verifyBearerToken } from './bearer-verification'
+export type {
+  McpBearerDiscoveryVerification,
+  McpBearerIntrospectionVerification,
+  McpBearerJwksVerification,
+  McpBearerVerificationOptions,
+} from './bearer-verification'
 
 export {
   McpBearerAuthError,
+  buildBearerChallenge,
   decodeJwtPayload,
   extractBearerToken,
   getCustomerRefFromBearerAuthHeader,
   getCustomerRefFromJwtPayload,
 } from './bearer'
-export type { McpBearerCustomerRefOptions } from './bearer'
+export type { McpBearerCustomerRefOptions, McpBearerErrorCode } from './bearer'
+
+// ---- Stateful sessions (shared store + sticky routing) ----
+export {
+  createDurableObjectMcpSessionStore,
+  createMemoryMcpSessionStore,
+  createRedisMcpSessionStore,
+  McpSessionStoreDurableObject,
+} from './session-store'
+export type {
+  DurableObjectMcpSessionStoreOptions,
+  McpSessionEvent,
+  McpSessionRecord,
+  McpSessionStore,
+  McpSessionStoreSetOptions,
+  MemoryMcpSessionStoreOptions,
+  RedisMcpSessionStoreOptions,
+} from './session-store'
+export {
+  MCP_SESSION_FORWARDED_HEADER,
+  getMcpSessionId,
+  pickMcpSessionReplica,
+  resolveMcpSessionReplica,
+} from './session-routing'
+export type { McpSessionAffinityOptions } from './session-routing'
@@ -23,17 +23,20 @@
  * (`upgrade`, `manage_account`, `topup`) where the user deliberately
  * asked for a checkout UI.
  *
- * Every SolvaPay MCP adapter (`@solvapay/mcp`, future `fastmcp`
- * adapters) wraps this in its framework-specific `registerTool` /
- * `registerAppTool` call.
+ * Every SolvaPay MCP adapter (`@solvapay/mcp`, `@solvapay/mcp-fastmcp`,
+ * `@solvapay/mcp-jsonrpc`) wraps this in its framework-specific
+ * `registerTool` / `registerAppTool` call.
  */
 
 import type {
   LimitResponseWithPlan,
+  PaywallMeter,
   ProtectHandlerContext,
+  RateLimitOptions,
   SolvaPay,
+  UsageMeterType,
 } from '@solvapay/server'
-import { buildNudgeMessage, isPaywallStructuredContent } from '@solvapay/server'
+import { buildNudgeMessage, isPaywallStructuredContent, withUnits } from '@solvapay/server'
 import type { BuildBootstrapPayloadFn } from './bootstrap-payload'
 import { buildResponseContext } from './response-context'
 import { assertResponseResult } from './response-envelope'
@@ -69,6 +72,26 @@ export interface BuildPayableHandlerContext {
     args: Record<string, unknown>,
     extra?: McpToolExtra,
   ) => string | Promise<string>
+  /**
+   * Units a call is expected to consume, checked before the handler
+   * runs. A call whose estimate exceeds the customer's remaining
+   * allowance receives the paywall response instead of running.
+   * Report the actual amount with `ctx.respond(data, { units })`.
+   */
+  estimatedUnits?: number | ((args: Record<string, unknown>) => number | Promise<number>)
+  /**
+   * Meters checked and charged on every call, e.g.
+   * `['requests', { name: 'tokens', estimatedUnits: 500 }]`. The first
+   * meter out of allowance trips the paywall and is named in
+   * `structuredContent.meter`. Defaults to the product's request meter.
+   */
+  meters?: Array<UsageMeterType | PaywallMeter>
+  /**
+   * Per-customer rate limit, e.g. `{ perCustomer: '60/min', burst: 10 }`.
+   * A call over the limit receives a `kind: 'rate_limited'` narration
+   * naming the wait instead of running, and is not billed.
+   */
+  rateLimit?: RateLimitOptions
 }
 
 /**
@@ -98,15 +121,20 @@ type MerchantHandler<TArgs, TResult> = (
  *     terminal `SolvaPayCallToolResult`: applies `options.text` /
  *     `options.nudge` (as a text suffix) and flushes `ctx.emit(...)`
  *     blocks into `content[]`.
- *  5. Silently ignores `options.units` (V1 billing stays at one usage
- *     unit per call; credit debit = units × plan.creditsPerUnit).
+ *  5. Bills `options.units` (default 1) for the call; the paywall
+ *     threads it into `trackUsage` and settles the limits cache by the
+ *     same amount. Credit debit = units × plan.creditsPerUnit.
+ *  6. Records a call the client cancelled (`ctx.signal` fired) as a
+ *     failure with `reason: 'cancelled'` instead of billing it.
  */
 export function buildPayableHandler<TArgs extends Record<string, unknown>, TResult>(
   solvaPay: SolvaPay,
   ctx: BuildPayableHandlerContext,
   handler: MerchantHandler<TArgs, TResult>,
 ): (args: Record<string, unknown>, extra?: McpToolExtra) => Promise<SolvaPayCallToolResult> {
-  const { product, getCustomerRef } = ctx
+  const { product, getCustomerRef, estimatedUnits, meters, rateLimit } = ctx
+  const firstMeter = meters?.[0]
+  const defaultMeter = typeof firstMeter === 'object' ? firstMeter.name : firstMeter
 
   // The business logic passed to `.mcp(...)` is called by
   // `paywall.protect` with `(args, handlerContext)`. We close over
@@ -119,19 +147,38 @@ export function buildPayableHandler<TArgs extends Record<string, unknown>, TResu
     const limits: LimitResponseWithPlan | null = handlerContext?.limits ?? null
     const customerRef = handlerContext?.customerRef ?? ''
 
-    const { ctx: responseCtx } = buildResponseContext({
+    const { ctx: responseCtx, reservations } = buildResponseContext({
       customerRef,
       limits,
       product,
+      meter: defaultMeter,
       solvaPay,
+      extra: handlerContext?.extra,
     })
 
-    return handler(args as TArgs, responseCtx)
+    let envelope: ResponseResult<TResult>
+    try {
+      envelope = await handler(args as TArgs, responseCtx)
+    } catch (error) {
+      // Upstream calls aborted through `ctx.signal` reject with their
+      // own errors; report them all as the cancellation.
+      throw responseCtx.signal.aborted ? responseCtx.signal.reason : error
+    } finally {
+      // `release()` is a no-op for holds the handler committed.
+      await Promise.all(reservations.map(hold => hold.release())).catch(() => undefined)
+    }
+    // A handler that finished after the client cancelled is not billed:
+    // the paywall records the `AbortError` as a cancelled failure.
+    if (responseCtx.signal.aborted) throw responseCtx.signal.reason
+    // `withUnits` tells the paywall how many units to bill; it unwraps
+    // the marker before the adapter sees the envelope again.
+    const units = envelope?.options?.units
+    return (units === undefined ? envelope : withUnits(envelope, units)) as ResponseResult<TResult>
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const protectedHandler = solvaPay
-    .payable({ product, getCustomerRef })
+    .payable({ product, getCustomerRef, estimatedUnits, meters, rateLimit })
     .mcp(wrappedBusinessLogic as any)
 
   return async (
@@ -230,10 +277,13 @@ async function unwrapResponseEnvelope(
             // copy; for merchant-supplied nudges we don't have a
             // `LimitResponseWithPlan` in hand here, so we defer to
             // the nudge's own kind → state mapping. `low-balance` →
-            // topup, everything else → upgrade.
+            // topup, `budget-warning` → the spending limit, everything
+            // else → upgrade.
             nudge.kind === 'low-balance'
               ? { kind: 'topup_required' }
-              : { kind: 'upgrade_required' },
+              : nudge.kind === 'budget-warning'
+                ? { kind: 'budget_exceeded' }
+                : { kind: 'upgrade_required' },
             null,
           )
     primaryText = baseText.length > 0 ? `${baseText}\n\n${nudgeText}` : nudgeText
@@ -244,9 +294,6 @@ async function unwrapResponseEnvelope(
     { type: 'text', text: primaryText },
   ]
 
-  // `options.units` is intentionally ignored — V1 billing stays at one
-  // usage unit per call; credit debit = units × plan.creditsPerUnit.
-
   const existingMeta =
     typeof adapterResult._meta === 'object' && adapterResult._meta !== null
       ? (adapterResult._meta as Record<string, unknown>)
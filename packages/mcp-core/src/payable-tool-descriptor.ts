@@ -0,0 +1,113 @@
+/**
+ * `buildPayableToolDescriptor(name, options)` — a paywall-protected
+ * merchant tool as a `SolvaPayToolDescriptor`, for adapters that
+ * register descriptors rather than wrapping a framework's own
+ * `registerTool` (`@solvapay/mcp-fastmcp`, `@solvapay/mcp-jsonrpc`).
+ *
+ * The handler is `buildPayableHandler`, so the result is the same one
+ * `registerPayableTool` from `@solvapay/mcp` returns for the same call.
+ * Like that helper, the descriptor does not advertise
+ * `_meta.ui.resourceUri` unless the merchant opts in through `meta`.
+ */
+
+import type { PaywallMeter, RateLimitOptions, SolvaPay, UsageMeterType } from '@solvapay/server'
+import type { z, ZodTypeAny } from 'zod'
+import type { BuildBootstrapPayloadFn } from './bootstrap-payload'
+import { buildPayableHandler } from './payable-handler'
+import type {
+  McpToolExtra,
+  PayableHandler,
+  SolvaPayToolAnnotations,
+  SolvaPayToolDescriptor,
+  SolvaPayToolIcon,
+} from './types'
+
+/** Zod raw shape — a plain object of `z.*` fields, as on `SolvaPayToolDescriptor.inputSchema`. */
+export type SolvaPayToolInputShape = Record<string, ZodTypeAny>
+
+/** The parsed `args` a handler receives for `Shape`. */
+export type InferToolArgs<Shape extends SolvaPayToolInputShape> = z.infer<z.ZodObject<Shape>>
+
+export interface BuildPayableToolDescriptorOptions<
+  Shape extends SolvaPayToolInputShape = SolvaPayToolInputShape,
+  TData = unknown,
+> {
+  /** The initialised SolvaPay instance. */
+  solvaPay: SolvaPay
+  /** SolvaPay product ref to protect this tool against. */
+  product: string
+  /** Tool description surfaced to the model. */
+  description: string
+  /** Optional human-readable tool title for MCP listings. */
+  title?: string
+  /** Zod raw shape for the tool arguments. Defaults to no arguments. */
+  schema?: Shape
+  /**
+   * Business logic that runs once the caller is within limits. Returns
+   * the envelope produced by `ctx.respond(data, options?)`.
+   */
+  handler: PayableHandler<InferToolArgs<Shape>, TData>
+  /** Accepted for parity with `registerPayableTool`; not called by the payable branch. */
+  buildBootstrap?: BuildBootstrapPayloadFn
+  /**
+   * Override customer-ref extraction. Defaults to reading
+   * `extra.authInfo.extra.customer_ref`.
+   */
+  getCustomerRef?: (args: Record<string, unknown>, extra?: McpToolExtra) => string | Promise<string>
+  /** Units a call is expected to consume, checked before the handler runs. Defaults to 1. */
+  estimatedUnits?: number | ((args: Record<string, unknown>) => number | Promise<number>)
+  /** Meters checked and charged on every call. Defaults to the product's request meter. */
+  meters?: Array<UsageMeterType | PaywallMeter>
+  /** Per-customer rate limit, e.g. `{ perCustomer: '60/min', burst: 10 }`. */
+  rateLimit?: RateLimitOptions
+  /** Additional descriptor `_meta`. Opt into a widget with `{ ui: { resourceUri } }`. */
+  meta?: Record<string, unknown>
+  /** MCP tool annotations. Defaults to `{ readOnlyHint: true, openWorldHint: true }`. */
+  annotations?: SolvaPayToolAnnotations
+  /** Brand icons surfaced on `tools/list`. */
+  icons?: SolvaPayToolIcon[]
+}
+
+/**
+ * Build a paywall-protected tool descriptor. Register it with the
+ * adapter's descriptor registration, the same way as the descriptors
+ * from `buildSolvaPayDescriptors`.
+ */
+export function buildPayableToolDescriptor<
+  Shape extends SolvaPayToolInputShape = SolvaPayToolInputShape,
+  TData = unknown,
+>(name: string, options: BuildPayableToolDescriptorOptions<Shape, TData>): SolvaPayToolDescriptor {
+  const {
+    solvaPay,
+    product,
+    description,
+    title,
+    schema,
+    handler,
+    buildBootstrap,
+    getCustomerRef,
+    estimatedUnits,
+    meters,
+    rateLimit,
+    meta,
+    annotations,
+    icons,
+  } = options
+
+  return {
+    name,
+    ...(title !== undefined ? { title } : {}),
+    description,
+    inputSchema: schema ?? {},
+    ...(meta !== undefined ? { meta } : {}),
+    // Same default as `registerPayableTool`: paywalled tools most often
+    // read from the merchant's backend.
+    annotations: { readOnlyHint: true, openWorldHint: true, ...annotations },
+    ...(icons !== undefined && icons.length > 0 ? { icons } : {}),
+    handler: buildPayableHandler(
+      solvaPay,
+      { product, buildBootstrap, getCustomerRef, estimatedUnits, meters, rateLimit },
+      handler as unknown as Parameters<typeof buildPayableHandler>[2],
+    ),
+  }
+}
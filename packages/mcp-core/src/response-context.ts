@@ -1,18 +1,22 @@
 /**
  * `buildResponseContext(...)` — constructs the `ResponseContext` object
  * merchant handlers receive as their second argument when they opt
- * into the V1 `ctx.respond()` API.
+ * into the `ctx.respond()` API.
  *
- * The V1 surface (`customer`, `product`, `respond`, `gate`) is fully
- * functional. The reserved surface (`emit`, `progress`, `progressRaw`,
- * `signal`) ships as no-op / queue-only stubs so merchants can write
- * forward-compatible handlers today; real implementations land in V1.1.
+ * Beyond `customer`, `product`, `respond` and `gate`, the context
+ * streams over the MCP request that invoked the tool: `progress` /
+ * `progressRaw` send `notifications/progress` when the client supplied
+ * a `progressToken`, `emit` pushes content blocks as they are produced,
+ * and `signal` aborts when the client sends `notifications/cancelled`.
+ * Without a request to stream over (direct calls, tests) they degrade
+ * to no-ops and `emit` only queues.
  */
 
 import type {
   LimitResponseWithPlan,
   PaywallStructuredContent,
   SolvaPay,
+  UsageReservation,
 } from '@solvapay/server'
 import { PaywallError } from '@solvapay/server'
 import { makeResponseResult } from './response-envelope'
@@ -36,6 +40,8 @@ export interface BuildResponseContextParams {
   limits: LimitResponseWithPlan | null
   /** SolvaPay product ref the tool is protected against. */
   product: string
+  /** Meter `ctx.reserve(...)` holds units on by default (default: `'requests'`). */
+  meter?: string
   /**
    * Product projection from the bootstrap payload, if available. The
    * bootstrap is not fetched for successful handler calls (that would
@@ -51,8 +57,34 @@ export interface BuildResponseContextParams {
   bootstrapPlan?: BootstrapPlan | null
   /** SolvaPay instance used for `ctx.customer.fresh()` round-trips. */
   solvaPay: SolvaPay
+  /**
+   * The MCP SDK's request-handler `extra` for this call. Supplies the
+   * cancellation `signal`, `sendNotification` and the client's
+   * `_meta.progressToken`.
+   */
+  extra?: unknown
 }
 
+/**
+ * Fields of the MCP SDK's `RequestHandlerExtra` the streaming surface
+ * reads. Typed structurally so this package stays SDK-free.
+ */
+interface StreamingExtra {
+  signal?: AbortSignal
+  _meta?: { progressToken?: string | number }
+  sendNotification?: (notification: {
+    method: string
+    params?: Record<string, unknown>
+  }) => Promise<void>
+}
+
+/**
+ * Notification carrying a `ctx.emit(block)` content block. Sent on the
+ * tool call's own SSE stream, so clients can render blocks before the
+ * result arrives; the result still lists every block in `content[]`.
+ */
+export const CONTENT_NOTIFICATION_METHOD = 'notifications/solvapay/content'
+
 /**
  * Synthesize a minimal `BootstrapPlan` from `LimitResponseWithPlan.plan`
  * (a plan-ref string). Fall-back path when the caller hasn't threaded
@@ -95,6 +127,11 @@ export interface BuildResponseContextResult {
    * envelope is unwrapped.
    */
   emittedBlocks: ContentBlock[]
+  /**
+   * Holds placed through `ctx.reserve(...)`. `buildPayableHandler`
+   * releases any still open once the handler settles.
+   */
+  reservations: UsageReservation[]
 }
 
 /**
@@ -116,7 +153,38 @@ export function buildResponseContext(
     params.bootstrapPlan ?? synthesizePlanStub(limits)
 
   const emittedBlocks: ContentBlock[] = []
+  const reservations: UsageReservation[] = []
+  const extra = (params.extra ?? {}) as StreamingExtra
+  const progressToken = extra._meta?.progressToken
+
+  // The SDK aborts `extra.signal` with the client's free-text reason;
+  // re-abort with an `AbortError` so a handler that rethrows it is
+  // recorded as a cancellation rather than a generic failure.
   const abortController = new AbortController()
+  const cancel = () =>
+    abortController.abort(new DOMException('Tool call cancelled by the client', 'AbortError'))
+  if (extra.signal?.aborted) cancel()
+  else extra.signal?.addEventListener('abort', cancel, { once: true })
+
+  // Notifications are best-effort: a client that went away must not
+  // fail the tool call.
+  const notify = async (method: string, notificationParams: Record<string, unknown>) => {
+    if (!extra.sendNotification || abortController.signal.aborted) return
+    await extra.sendNotification({ method, params: notificationParams }).catch(() => undefined)
+  }
+
+  // The spec requires progress to increase with every notification.
+  let lastProgress = -Infinity
+  const sendProgress = async (progress: number, total?: number, message?: string) => {
+    if (progressToken === undefined || !(progress > lastProgress)) return
+    lastProgress = progress
+    await notify('notifications/progress', {
+      progressToken,
+      progress,
+      ...(total !== undefined ? { total } : {}),
+      ...(message !== undefined ? { message } : {}),
+    })
+  }
 
   // Recursive: `fresh()` calls `checkLimits` and returns a new snapshot
   // whose `.fresh()` is bound to the same function, so merchants can
@@ -194,25 +262,36 @@ export function buildResponseContext(
     respond,
     gate,
 
-    // ——————————————————————————————————————————————————————————————
-    // Reserved surface — V1 stubs, V1.1 real.
-    // ——————————————————————————————————————————————————————————————
+    reserve: async (units, options) => {
+      const hold = await solvaPay.reserve({
+        customerRef,
+        product,
+        units,
+        meter: options?.meter ?? params.meter ?? 'requests',
+        ...(options?.ttlMs !== undefined ? { ttlMs: options.ttlMs } : {}),
+      })
+      reservations.push(hold)
+      return hold
+    },
 
     emit: async (block: ContentBlock) => {
       emittedBlocks.push(block)
+      await notify(CONTENT_NOTIFICATION_METHOD, {
+        ...(progressToken !== undefined ? { progressToken } : {}),
+        block,
+      })
     },
 
-    progress: async () => {
-      // V1.1: thread progressToken from request `_meta` and emit
-      // `notifications/progress`.
+    progress: async ({ percent, message }) => {
+      await sendProgress(Math.min(100, Math.max(0, percent)), 100, message)
     },
 
-    progressRaw: async () => {
-      // V1.1: thread progressToken and emit raw progress/total.
+    progressRaw: async ({ progress, total, message }) => {
+      await sendProgress(progress, total, message)
     },
 
     signal: abortController.signal,
   }
 
-  return { ctx, emittedBlocks }
+  return { ctx, emittedBlocks, reservations }
 }
@@ -0,0 +1,98 @@
+/**
+ * Sticky routing for stateful MCP sessions.
+ *
+ * With a shared `McpSessionStore` any replica can serve any session,
+ * but some state never leaves the process: the SSE stream a tool call
+ * is writing, and the in-flight call a `notifications/cancelled`
+ * must reach. Routing every request that carries an `mcp-session-id`
+ * to the same replica keeps those on one machine.
+ *
+ * Replicas are chosen by rendezvous hashing, so adding or removing a
+ * replica only moves the sessions that hashed to it. `initialize`
+ * requests carry no session yet and are served wherever they land —
+ * the store is what lets the session's owner pick it up from there.
+ */
+
+/**
+ * Header a replica sets on requests it forwards, so the receiving
+ * replica serves them itself even if its view of `replicas` differs.
+ */
+export const MCP_SESSION_FORWARDED_HEADER = 'x-solvapay-mcp-forwarded'
+
+/**
+ * Options shared by the fetch and Express session-affinity helpers.
+ */
+export interface McpSessionAffinityOptions {
+  /**
+   * Base URL of every replica (e.g. `http://mcp-0.internal:3000`),
+   * identical and in any order on each of them.
+   */
+  replicas: readonly string[]
+  /** This replica's entry in `replicas`. */
+  self: string
+}
+
+/** FNV-1a — stable, dependency-free hashing for replica and shard selection. */
+export function hashMcpSessionKey(key: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Read `mcp-session-id` from fetch `Headers` or Node's
+ * `IncomingHttpHeaders`.
+ */
+export function getMcpSessionId(
+  headers: Headers | Record<string, string | string[] | undefined>,
+): string | null {
+  const value =
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get('mcp-session-id')
+      : (headers as Record<string, string | string[] | undefined>)['mcp-session-id']
+  const sessionId = Array.isArray(value) ? value[0] : value
+  return sessionId || null
+}
+
+/**
+ * The replica that owns `sessionId`. Every caller with the same
+ * `replicas` agrees on the answer.
+ */
+export function pickMcpSessionReplica(sessionId: string, replicas: readonly string[]): string {
+  if (replicas.length === 0) {
+    throw new Error('pickMcpSessionReplica: `replicas` must not be empty.')
+  }
+  let owner = replicas[0]!
+  let best = -1
+  for (const replica of replicas) {
+    const score = hashMcpSessionKey(`${replica}\n${sessionId}`)
+    if (score > best || (score === best && replica < owner)) {
+      owner = replica
+      best = score
+    }
+  }
+  return owner
+}
+
+/**
+ * The replica a request should be forwarded to, or `null` when this
+ * replica should serve it: there is no session yet, the request was
+ * already forwarded once, or this replica owns the session.
+ */
+export function resolveMcpSessionReplica(
+  headers: Headers | Record<string, string | string[] | undefined>,
+  options: McpSessionAffinityOptions,
+): string | null {
+  const sessionId = getMcpSessionId(headers)
+  if (!sessionId) return null
+  const forwarded =
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(MCP_SESSION_FORWARDED_HEADER)
+      : (headers as Record<string, string | string[] | undefined>)[MCP_SESSION_FORWARDED_HEADER]
+  if (forwarded) return null
+  const owner = pickMcpSessionReplica(sessionId, options.replicas)
+  return owner === options.self ? null : owner
+}
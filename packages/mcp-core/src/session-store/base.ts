@@ -0,0 +1,131 @@
+/**
+ * MCP Session Store Interface
+ *
+ * Defines the contract for the backends a stateful (`mcp-session-id`)
+ * MCP endpoint uses to share its sessions and SSE event log across
+ * processes, so any replica can serve a session's follow-up requests
+ * and replay a dropped stream from `Last-Event-ID`.
+ */
+
+/**
+ * A session created by an `initialize` request.
+ */
+export interface McpSessionRecord {
+  sessionId: string
+  /**
+   * `customer_ref` of the bearer that initialized the session. Later
+   * requests must present the same customer, so a leaked session id is
+   * useless to anyone else.
+   */
+  customerRef?: string
+  /** Epoch milliseconds. */
+  createdAt: number
+}
+
+/**
+ * A JSON-RPC message written to an SSE stream, as stored for replay.
+ */
+export interface McpSessionEvent {
+  eventId: string
+  message: unknown
+}
+
+/**
+ * Options accepted by the store's write operations.
+ */
+export interface McpSessionStoreSetOptions {
+  /**
+   * Time-to-live in milliseconds, refreshed on every write. Omit for
+   * entries that should live until explicitly deleted.
+   */
+  ttlMs?: number
+}
+
+/**
+ * Pluggable backend for MCP session state.
+ *
+ * Event ids are minted by the store and are only meaningful within
+ * their session. Each id names the SSE stream it was written to, so
+ * `readEventsAfter` can resume that stream alone — a session may have
+ * several tool calls streaming at once.
+ */
+export interface McpSessionStore {
+  /**
+   * Read a session. Resolves `undefined` for unknown or expired ids.
+   */
+  getSession(sessionId: string): Promise<McpSessionRecord | undefined>
+
+  /**
+   * Create or refresh a session.
+   */
+  setSession(record: McpSessionRecord, options?: McpSessionStoreSetOptions): Promise<void>
+
+  /**
+   * Remove a session and its event log. Resolves even when the session
+   * does not exist.
+   */
+  deleteSession(sessionId: string): Promise<void>
+
+  /**
+   * Append `message` to the log of `streamId` and resolve its event id.
+   */
+  appendEvent(
+    sessionId: string,
+    streamId: string,
+    message: unknown,
+    options?: McpSessionStoreSetOptions,
+  ): Promise<string>
+
+  /**
+   * Events written to the same stream as `eventId`, after it, oldest
+   * first. Resolves `undefined` when `eventId` is not one this store
+   * minted.
+   */
+  readEventsAfter(
+    sessionId: string,
+    eventId: string,
+  ): Promise<{ streamId: string; events: McpSessionEvent[] } | undefined>
+}
+
+/** A logged event together with its position in the session. */
+export interface SequencedEvent {
+  seq: number
+  streamId: string
+  message: unknown
+}
+
+/**
+ * Event id layout shared by the backends: `<streamId>_<seq>`, where
+ * `seq` counts up across the whole session. Stream ids minted by the
+ * MCP SDK may contain `_` themselves, so the sequence is split off the
+ * end.
+ */
+export const McpSessionEventIds = {
+  format: (streamId: string, seq: number) => `${streamId}_${seq}`,
+  parse(eventId: string): { streamId: string; seq: number } | undefined {
+    const split = eventId.lastIndexOf('_')
+    if (split <= 0) return undefined
+    const seq = Number(eventId.slice(split + 1))
+    if (!Number.isSafeInteger(seq) || seq < 1) return undefined
+    return { streamId: eventId.slice(0, split), seq }
+  },
+}
+
+/**
+ * The part of a session's log that resumes `eventId`'s stream.
+ */
+export function selectEventsAfter(
+  log: SequencedEvent[],
+  eventId: string,
+): { streamId: string; events: McpSessionEvent[] } | undefined {
+  const position = McpSessionEventIds.parse(eventId)
+  if (!position) return undefined
+  const events = log
+    .filter(event => event.streamId === position.streamId && event.seq > position.seq)
+    .sort((a, b) => a.seq - b.seq)
+    .map(event => ({
+      eventId: McpSessionEventIds.format(event.streamId, event.seq),
+      message: event.message,
+    }))
+  return { streamId: position.streamId, events }
+}
@@ -0,0 +1,253 @@
+/**
+ * Cloudflare Durable Object MCP Session Store
+ *
+ * {@link createDurableObjectMcpSessionStore} forwards every operation to
+ * a {@link McpSessionStoreDurableObject}, which serialises the writes
+ * for its sessions — event numbering stays gap-free even when several
+ * isolates stream into the same session. Workers KV is not offered: its
+ * eventual consistency would let a replay miss events written moments
+ * earlier in another location.
+ *
+ * Typed structurally against the Workers runtime (with the same shapes
+ * as the paywall store in `@solvapay/server`) so the SDK does not
+ * depend on `@cloudflare/workers-types`.
+ */
+
+import type { DurableObjectNamespaceLike, DurableObjectStorageLike } from '@solvapay/server'
+import { hashMcpSessionKey } from '../session-routing'
+import {
+  McpSessionEventIds,
+  selectEventsAfter,
+  type McpSessionRecord,
+  type McpSessionStore,
+  type McpSessionStoreSetOptions,
+  type SequencedEvent,
+} from './base'
+
+/**
+ * Options for {@link createDurableObjectMcpSessionStore}.
+ */
+export interface DurableObjectMcpSessionStoreOptions {
+  /** Binding for a namespace whose class is {@link McpSessionStoreDurableObject}. */
+  namespace: DurableObjectNamespaceLike
+  /** Object name (default: `'solvapay-mcp-sessions'`). */
+  name?: string
+  /**
+   * Spread sessions over this many objects (default: 1). Each object
+   * serialises its own sessions, so sharding raises throughput while
+   * keeping every session's log consistent.
+   */
+  shards?: number
+  /** Events kept per session; older ones can no longer be replayed (default: 1 000). */
+  maxEventsPerSession?: number
+}
+
+type DurableObjectSessionRequest =
+  | { op: 'getSession'; sessionId: string }
+  | { op: 'setSession'; sessionId: string; record: McpSessionRecord; ttlMs?: number }
+  | { op: 'deleteSession'; sessionId: string }
+  | {
+      op: 'appendEvent'
+      sessionId: string
+      streamId: string
+      message: unknown
+      maxEvents: number
+      ttlMs?: number
+    }
+  | { op: 'readEventsAfter'; sessionId: string; eventId: string }
+
+/**
+ * Create an {@link McpSessionStore} that forwards every operation to a
+ * {@link McpSessionStoreDurableObject}.
+ *
+ * @example
+ * ```typescript
+ * // worker.ts
+ * export { McpSessionStoreDurableObject } from '@solvapay/mcp-core'
+ *
+ * export default {
+ *   async fetch(req: Request, env: Env) {
+ *     const sessionStore = createDurableObjectMcpSessionStore({
+ *       namespace: env.SOLVAPAY_MCP_SESSIONS,
+ *     })
+ *     // …
+ *   },
+ * }
+ * ```
+ */
+export function createDurableObjectMcpSessionStore(
+  options: DurableObjectMcpSessionStoreOptions,
+): McpSessionStore {
+  const { namespace } = options
+  const name = options.name ?? 'solvapay-mcp-sessions'
+  const shards = Math.max(1, Math.floor(options.shards ?? 1))
+  const maxEvents = options.maxEventsPerSession ?? 1_000
+
+  const call = async <T>(request: DurableObjectSessionRequest): Promise<T | undefined> => {
+    const objectName =
+      shards === 1 ? name : `${name}:${hashMcpSessionKey(request.sessionId) % shards}`
+    const stub = namespace.get(namespace.idFromName(objectName))
+    const res = await stub.fetch('https://mcp-session-store.solvapay.internal/', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!res.ok) {
+      throw new Error(`MCP session store ${request.op} failed (${res.status}): ${await res.text()}`)
+    }
+    const body = (await res.json()) as { value?: T }
+    return body.value ?? undefined
+  }
+
+  return {
+    getSession: sessionId => call<McpSessionRecord>({ op: 'getSession', sessionId }),
+    async setSession(record: McpSessionRecord, setOptions?: McpSessionStoreSetOptions) {
+      await call({
+        op: 'setSession',
+        sessionId: record.sessionId,
+        record,
+        ttlMs: setOptions?.ttlMs,
+      })
+    },
+    async deleteSession(sessionId: string) {
+      await call({ op: 'deleteSession', sessionId })
+    },
+    async appendEvent(sessionId, streamId, message, setOptions?: McpSessionStoreSetOptions) {
+      const eventId = await call<string>({
+        op: 'appendEvent',
+        sessionId,
+        streamId,
+        message,
+        maxEvents,
+        ttlMs: setOptions?.ttlMs,
+      })
+      if (eventId === undefined) throw new Error('MCP session store appendEvent returned no id')
+      return eventId
+    },
+    readEventsAfter: (sessionId, eventId) =>
+      call<{ streamId: string; events: Array<{ eventId: string; message: unknown }> }>({
+        op: 'readEventsAfter',
+        sessionId,
+        eventId,
+      }),
+  }
+}
+
+interface StoredEntry<T> {
+  value: T
+  expiresAt?: number
+}
+
+interface StoredLog {
+  seq: number
+  events: SequencedEvent[]
+}
+
+/**
+ * Durable Object class backing {@link createDurableObjectMcpSessionStore}.
+ *
+ * Re-export it from your Worker entry and bind it in `wrangler.toml`:
+ *
+ * ```toml
+ * [[durable_objects.bindings]]
+ * name = "SOLVAPAY_MCP_SESSIONS"
+ * class_name = "McpSessionStoreDurableObject"
+ * ```
+ *
+ * Expired sessions are dropped lazily on read and swept by an alarm
+ * scheduled for the earliest pending expiry.
+ */
+export class McpSessionStoreDurableObject {
+  private storage: DurableObjectStorageLike
+
+  constructor(state: { storage: DurableObjectStorageLike }) {
+    this.storage = state.storage
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    let op: DurableObjectSessionRequest
+    try {
+      op = (await request.json()) as DurableObjectSessionRequest
+    } catch {
+      return new Response('Invalid MCP session store request', { status: 400 })
+    }
+
+    const recordKey = `session:${op.sessionId}`
+    const logKey = `events:${op.sessionId}`
+    switch (op.op) {
+      case 'getSession': {
+        const entry = await this.read<McpSessionRecord>(recordKey)
+        return Response.json({ value: entry?.value })
+      }
+      case 'setSession': {
+        const expiresAt = op.ttlMs !== undefined ? Date.now() + op.ttlMs : undefined
+        await this.write(recordKey, op.record, expiresAt)
+        // Keep the event log alive for as long as the session.
+        const log = await this.read<StoredLog>(logKey)
+        if (log) await this.write(logKey, log.value, expiresAt)
+        return Response.json({})
+      }
+      case 'deleteSession': {
+        await this.storage.delete(recordKey)
+        await this.storage.delete(logKey)
+        return Response.json({})
+      }
+      case 'appendEvent': {
+        // The object's input gate holds other events until this handler
+        // yields to non-storage I/O, so numbering cannot interleave.
+        const log = (await this.read<StoredLog>(logKey))?.value ?? { seq: 0, events: [] }
+        log.seq += 1
+        log.events.push({ seq: log.seq, streamId: op.streamId, message: op.message })
+        if (log.events.length > op.maxEvents) {
+          log.events.splice(0, log.events.length - op.maxEvents)
+        }
+        const expiresAt = op.ttlMs !== undefined ? Date.now() + op.ttlMs : undefined
+        await this.write(logKey, log, expiresAt)
+        return Response.json({ value: McpSessionEventIds.format(op.streamId, log.seq) })
+      }
+      case 'readEventsAfter': {
+        const log = await this.read<StoredLog>(logKey)
+        return Response.json({ value: selectEventsAfter(log?.value.events ?? [], op.eventId) })
+      }
+      default:
+        return new Response('Unknown MCP session store operation', { status: 400 })
+    }
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now()
+    let nextExpiry: number | undefined
+    const entries = await this.storage.list<StoredEntry<unknown>>()
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt === undefined) continue
+      if (entry.expiresAt <= now) {
+        await this.storage.delete(key)
+      } else if (nextExpiry === undefined || entry.expiresAt < nextExpiry) {
+        nextExpiry = entry.expiresAt
+      }
+    }
+    if (nextExpiry !== undefined) await this.storage.setAlarm(nextExpiry)
+  }
+
+  private async read<T>(key: string): Promise<StoredEntry<T> | undefined> {
+    const entry = await this.storage.get<StoredEntry<T>>(key)
+    if (!entry) return undefined
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.storage.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private async write<T>(key: string, value: T, expiresAt: number | undefined): Promise<void> {
+    await this.storage.put<StoredEntry<T>>(key, {
+      value,
+      ...(expiresAt !== undefined ? { expiresAt } : {}),
+    })
+    if (expiresAt === undefined) return
+    const current = await this.storage.getAlarm()
+    if (current === null || expiresAt < current) {
+      await this.storage.setAlarm(expiresAt)
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * MCP Session Stores Export
+ *
+ * Exports the store contract and every built-in backend
+ */
+
+export type {
+  McpSessionEvent,
+  McpSessionRecord,
+  McpSessionStore,
+  McpSessionStoreSetOptions,
+} from './base'
+export { createMemoryMcpSessionStore } from './memory'
+export type { MemoryMcpSessionStoreOptions } from './memory'
+export { createRedisMcpSessionStore } from './redis'
+export type { RedisMcpSessionStoreOptions } from './redis'
+export { createDurableObjectMcpSessionStore, McpSessionStoreDurableObject } from './cloudflare'
+export type { DurableObjectMcpSessionStoreOptions } from './cloudflare'
@@ -0,0 +1,113 @@
+/**
+ * In-memory MCP Session Store
+ *
+ * Per-process `Map`s with lazy TTL expiry. Sessions live only in the
+ * process that created them, so this suits single-instance servers and
+ * tests — or several replicas behind sticky routing that accept losing
+ * sessions when a replica restarts.
+ */
+
+import {
+  McpSessionEventIds,
+  selectEventsAfter,
+  type McpSessionRecord,
+  type McpSessionStore,
+  type McpSessionStoreSetOptions,
+  type SequencedEvent,
+} from './base'
+
+/**
+ * Options for {@link createMemoryMcpSessionStore}.
+ */
+export interface MemoryMcpSessionStoreOptions {
+  /** Live sessions kept before the oldest are evicted (default: 10 000). */
+  maxSessions?: number
+  /** Events kept per session; older ones can no longer be replayed (default: 1 000). */
+  maxEventsPerSession?: number
+}
+
+interface MemorySession {
+  record?: McpSessionRecord
+  seq: number
+  events: SequencedEvent[]
+  expiresAt?: number
+}
+
+/**
+ * Create an in-memory {@link McpSessionStore}.
+ *
+ * No background timers are started, so constructing the store at
+ * module scope is safe on runtimes that forbid timers in the global
+ * scope (Cloudflare Workers).
+ *
+ * @example
+ * ```typescript
+ * import { createMemoryMcpSessionStore } from '@solvapay/mcp-core'
+ *
+ * const sessionStore = createMemoryMcpSessionStore({ maxSessions: 1_000 })
+ * ```
+ */
+export function createMemoryMcpSessionStore(
+  options: MemoryMcpSessionStoreOptions = {},
+): McpSessionStore {
+  const maxSessions = options.maxSessions ?? 10_000
+  const maxEvents = options.maxEventsPerSession ?? 1_000
+  const sessions = new Map<string, MemorySession>()
+
+  const read = (sessionId: string): MemorySession | undefined => {
+    const session = sessions.get(sessionId)
+    if (!session) return undefined
+    if (session.expiresAt !== undefined && session.expiresAt <= Date.now()) {
+      sessions.delete(sessionId)
+      return undefined
+    }
+    return session
+  }
+
+  const touch = (sessionId: string, ttlMs: number | undefined): MemorySession => {
+    const session = read(sessionId) ?? { seq: 0, events: [] }
+    session.expiresAt = ttlMs !== undefined ? Date.now() + ttlMs : undefined
+    // Re-insert so `Map` iteration order tracks recency of use.
+    sessions.delete(sessionId)
+    sessions.set(sessionId, session)
+    while (sessions.size > maxSessions) {
+      const oldest = sessions.keys().next().value
+      if (oldest === undefined) break
+      sessions.delete(oldest)
+    }
+    return session
+  }
+
+  return {
+    async getSession(sessionId: string) {
+      return read(sessionId)?.record
+    },
+
+    async setSession(record: McpSessionRecord, setOptions?: McpSessionStoreSetOptions) {
+      touch(record.sessionId, setOptions?.ttlMs).record = record
+    },
+
+    async deleteSession(sessionId: string) {
+      sessions.delete(sessionId)
+    },
+
+    async appendEvent(
+      sessionId: string,
+      streamId: string,
+      message: unknown,
+      setOptions?: McpSessionStoreSetOptions,
+    ) {
+      const session = touch(sessionId, setOptions?.ttlMs)
+      session.seq += 1
+      session.events.push({ seq: session.seq, streamId, message })
+      if (session.events.length > maxEvents) {
+        session.events.splice(0, session.events.length - maxEvents)
+      }
+      return McpSessionEventIds.format(streamId, session.seq)
+    },
+
+    async readEventsAfter(sessionId: string, eventId: string) {
+      return selectEventsAfter(read(sessionId)?.events ?? [], eventId)
+    },
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Redis-protocol MCP Session Store
+ *
+ * Talks to any server that speaks the Redis command protocol (Redis,
+ * Valkey, KeyDB, Dragonfly, Upstash) through the same caller-supplied
+ * command function as `createRedisPaywallStore`, so one client can back
+ * both stores.
+ */
+
+import type { RedisCommand } from '@solvapay/server'
+import {
+  McpSessionEventIds,
+  selectEventsAfter,
+  type McpSessionRecord,
+  type McpSessionStore,
+  type McpSessionStoreSetOptions,
+  type SequencedEvent,
+} from './base'
+
+/**
+ * Options for {@link createRedisMcpSessionStore}.
+ */
+export interface RedisMcpSessionStoreOptions {
+  /** Command executor bound to your Redis client. */
+  command: RedisCommand
+  /**
+   * Prefix prepended to every key (default: `'solvapay:mcp-session:'`).
+   * Use a distinct prefix per environment when several share one server.
+   */
+  keyPrefix?: string
+  /** Events kept per session; older ones can no longer be replayed (default: 1 000). */
+  maxEventsPerSession?: number
+}
+
+/**
+ * Number the event and append it to the session's log in one step, so
+ * concurrent writers from several replicas never reuse a sequence. Log
+ * entries are `<seq>\n<streamId>\n<message JSON>`.
+ */
+const APPEND_EVENT_SCRIPT =
+  "local seq = redis.call('INCR', KEYS[1]) " +
+  "redis.call('RPUSH', KEYS[2], seq .. '\\n' .. ARGV[1] .. '\\n' .. ARGV[2]) " +
+  "redis.call('LTRIM', KEYS[2], -tonumber(ARGV[3]), -1) " +
+  'if tonumber(ARGV[4]) > 0 then ' +
+  "redis.call('PEXPIRE', KEYS[1], ARGV[4]) redis.call('PEXPIRE', KEYS[2], ARGV[4]) end " +
+  'return seq'
+
+function parseLogEntry(raw: unknown): SequencedEvent | undefined {
+  const text = typeof raw === 'string' ? raw : String(raw)
+  const first = text.indexOf('\n')
+  const second = text.indexOf('\n', first + 1)
+  if (first < 0 || second < 0) return undefined
+  try {
+    return {
+      seq: Number(text.slice(0, first)),
+      streamId: text.slice(first + 1, second),
+      message: JSON.parse(text.slice(second + 1)),
+    }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Create an {@link McpSessionStore} backed by a Redis-protocol server.
+ *
+ * Each session uses three keys: the record (JSON), a sequence counter
+ * and a capped list holding its event log. All three expire together
+ * once the session goes idle for `ttlMs`.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis'
+ * import { createRedisMcpSessionStore } from '@solvapay/mcp-core'
+ *
+ * const redis = new Redis(process.env.REDIS_URL!)
+ * const sessionStore = createRedisMcpSessionStore({
+ *   command: args => redis.call(...(args as [string, ...string[]])),
+ * })
+ * ```
+ */
+export function createRedisMcpSessionStore(options: RedisMcpSessionStoreOptions): McpSessionStore {
+  const { command } = options
+  const prefix = options.keyPrefix ?? 'solvapay:mcp-session:'
+  const maxEvents = options.maxEventsPerSession ?? 1_000
+  const keys = (sessionId: string) => ({
+    record: `${prefix}${sessionId}`,
+    seq: `${prefix}${sessionId}:seq`,
+    events: `${prefix}${sessionId}:events`,
+  })
+  const px = (ttlMs: number) => Math.max(1, Math.ceil(ttlMs))
+
+  return {
+    async getSession(sessionId: string) {
+      const raw = await command(['GET', keys(sessionId).record])
+      if (raw === null || raw === undefined) return undefined
+      try {
+        return JSON.parse(typeof raw === 'string' ? raw : String(raw)) as McpSessionRecord
+      } catch {
+        return undefined
+      }
+    },
+
+    async setSession(record: McpSessionRecord, setOptions?: McpSessionStoreSetOptions) {
+      const k = keys(record.sessionId)
+      const args: Array<string | number> = ['SET', k.record, JSON.stringify(record)]
+      if (setOptions?.ttlMs !== undefined) {
+        args.push('PX', px(setOptions.ttlMs))
+        // Keep the event log alive for as long as the session.
+        await command(['PEXPIRE', k.seq, px(setOptions.ttlMs)])
+        await command(['PEXPIRE', k.events, px(setOptions.ttlMs)])
+      }
+      await command(args)
+    },
+
+    async deleteSession(sessionId: string) {
+      const k = keys(sessionId)
+      await command(['DEL', k.record, k.seq, k.events])
+    },
+
+    async appendEvent(
+      sessionId: string,
+      streamId: string,
+      message: unknown,
+      setOptions?: McpSessionStoreSetOptions,
+    ) {
+      const k = keys(sessionId)
+      const reply = await command([
+        'EVAL',
+        APPEND_EVENT_SCRIPT,
+        2,
+        k.seq,
+        k.events,
+        streamId,
+        JSON.stringify(message),
+        maxEvents,
+        setOptions?.ttlMs !== undefined ? px(setOptions.ttlMs) : 0,
+      ])
+      return McpSessionEventIds.format(streamId, Number(reply))
+    },
+
+    async readEventsAfter(sessionId: string, eventId: string) {
+      const reply = await command(['LRANGE', keys(sessionId).events, 0, -1])
+      const log = (Array.isArray(reply) ? reply : [])
+        .map(parseLogEntry)
+        .filter((event): event is SequencedEvent => event !== undefined)
+      return selectEventsAfter(log, eventId)
+    },
+  }
+}
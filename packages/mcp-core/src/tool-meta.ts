@@ -0,0 +1,36 @@
+/**
+ * `toolDescriptorMeta(tool)` — the `_meta` a tool advertises on
+ * `tools/list`, shared by adapters that do not route through
+ * `registerAppTool` from `@modelcontextprotocol/ext-apps`.
+ *
+ * Mirrors what `@solvapay/mcp` produces: brand icons are merged under
+ * `_meta.ui.icons`, and `_meta.ui.resourceUri` is copied to the legacy
+ * `_meta["ui/resourceUri"]` key that pre-2026-01-26 MCP Apps hosts read.
+ */
+
+import type { SolvaPayToolDescriptor } from './types'
+
+/** Legacy flat key for `_meta.ui.resourceUri` (ext-apps `RESOURCE_URI_META_KEY`). */
+export const LEGACY_RESOURCE_URI_META_KEY = 'ui/resourceUri'
+
+/**
+ * Build the descriptor-level `_meta` for `tool`. Returns `undefined`
+ * when the tool carries neither meta nor icons, so adapters can omit
+ * the field.
+ */
+export function toolDescriptorMeta(
+  tool: Pick<SolvaPayToolDescriptor, 'meta' | 'icons'>,
+): Record<string, unknown> | undefined {
+  const baseMeta = tool.meta ?? {}
+  const baseUi = (baseMeta.ui as Record<string, unknown> | undefined) ?? {}
+  const ui = tool.icons && tool.icons.length > 0 ? { ...baseUi, icons: tool.icons } : baseUi
+  const meta: Record<string, unknown> =
+    Object.keys(ui).length > 0 ? { ...baseMeta, ui } : { ...baseMeta }
+
+  const resourceUri = (ui as { resourceUri?: unknown }).resourceUri
+  if (typeof resourceUri === 'string' && meta[LEGACY_RESOURCE_URI_META_KEY] === undefined) {
+    meta[LEGACY_RESOURCE_URI_META_KEY] = resourceUri
+  }
+
+  return Object.keys(meta).length > 0 ? meta : undefined
+}
@@ -17,6 +17,9 @@ import type {
   PurchaseCheckResult,
   SdkMerchantResponse,
   SdkProductResponse,
+  UsageMeterType,
+  UsageReservation,
+  UsageUnits,
   components,
 } from '@solvapay/server'
 import type { MCP_TOOL_NAMES } from './tool-names'
@@ -412,11 +415,13 @@ export const VIEW_FOR_OPEN_TOOL = VIEW_FOR_TOOL
  * Inline upsell strip attached to a successful tool response. Rendered
  * below the tool result by the host; dismissible, non-blocking.
  *
- * V1 ships three default kinds, each with a default CTA that opens the
- * `upgrade` intent tool. `kind: 'custom'` is reserved for V1.1.
+ * V1 ships four default kinds. `budget-warning` flags spend nearing the
+ * customer's own monthly spending limit and points at `manage_account`;
+ * the others open the `upgrade` (or, for `low-balance`, `topup`) intent
+ * tool. `kind: 'custom'` is reserved for V1.1.
  */
 export interface NudgeSpec {
-  kind: 'low-balance' | 'cycle-ending' | 'approaching-limit'
+  kind: 'low-balance' | 'cycle-ending' | 'approaching-limit' | 'budget-warning'
   message: string
 }
 
@@ -435,9 +440,8 @@ export type ContentBlock =
  *
  * `text` overrides the SDK's default narrator output for this response.
  * `nudge` attaches an inline upsell strip.
- * `units` is reserved for V1.1 variable-unit billing; V1 silently
- * ignores the field (billing stays at one usage unit per tool call;
- * credit debit = units × plan.creditsPerUnit).
+ * `units` bills a variable quantity for this call — tokens, images —
+ * instead of one usage unit.
  */
 export interface ResponseOptions {
   /** Override `content[0].text` with merchant-supplied text. */
@@ -445,14 +449,16 @@ export interface ResponseOptions {
   /** Inline upsell strip rendered below the tool result. */
   nudge?: NudgeSpec
   /**
-   * [V1.1] Units to bill for this call. Defaults to 1. Must be >= 0.
+   * Units to bill for this call. Defaults to 1. Must be a non-negative
+   * integer; anything else fails the call with a `SolvaPayError`.
+   * Tools metered on several meters pass a count per meter name
+   * (`{ tokens: 1200 }`); meters left out bill one unit.
    *
-   * V1 behaviour: field is accepted for forward compatibility but
-   * silently ignored. Billing stays fixed at one usage unit per tool
-   * call; credit debit = units × plan.creditsPerUnit. V1.1 behaviour:
-   * threaded into `trackUsage` and applied by the backend.
+   * Threaded into `trackUsage` and deducted from the cached allowance,
+   * so the next call's pre-check sees the actual consumption. Credit
+   * debit = units × plan.creditsPerUnit.
    */
-  units?: number
+  units?: UsageUnits
 }
 
 /**
@@ -471,9 +477,10 @@ export interface ResponseResult<TData = unknown> {
   readonly data: TData
   readonly options?: ResponseOptions
   /**
-   * Content blocks queued via `ctx.emit(block)` before the terminal
-   * `respond()` call. V1 flushes these into `content[]` at respond
-   * time; V1.1 emits them over SSE.
+   * Content blocks emitted via `ctx.emit(block)` before the terminal
+   * `respond()` call. Already streamed to the client as they were
+   * emitted; also flushed into `content[]` so the result is complete
+   * on its own.
    */
   readonly emittedBlocks?: ContentBlock[]
 }
@@ -512,11 +519,11 @@ export interface CustomerSnapshot {
 
 /**
  * Handler context passed as the second positional argument to merchant
- * `registerPayable` handlers opting into the V1 `ctx` API.
+ * `registerPayable` handlers opting into the `ctx` API.
  *
- * V1 surface: `customer`, `product`, `respond`, `gate`.
- * Reserved (V1.1): `emit`, `progress`, `progressRaw`, `signal` — types
- * ship in V1 so merchants can write forward-compatible code.
+ * Response surface: `customer`, `product`, `respond`, `gate`, `reserve`.
+ * Streaming surface: `emit`, `progress`, `progressRaw`, `signal` — bound
+ * to the MCP request that invoked the tool.
  */
 export interface ResponseContext {
   /**
@@ -548,47 +555,58 @@ export interface ResponseContext {
    */
   gate(reason?: string): never
 
+  /**
+   * Hold `units` against the customer's allowance for a long-running
+   * step — a streamed completion, an agent loop — then bill what it
+   * used with `hold.commit(actualUnits)`. Holds still open when the
+   * handler returns are released. `meter` defaults to the tool's
+   * first meter.
+   *
+   * Throws `PaywallError` when the allowance cannot cover the hold;
+   * the adapter turns it into the paywall response.
+   */
+  reserve(
+    units: number,
+    options?: { meter?: UsageMeterType; ttlMs?: number },
+  ): Promise<UsageReservation>
+
   // ——————————————————————————————————————————————————————————————
-  // Reserved API surface — types ship in V1, implementations in V1.1.
+  // Streaming surface — bound to the MCP request being served.
   // ——————————————————————————————————————————————————————————————
 
   /**
-   * [V1.1] Emit an intermediate content block.
+   * Emit an intermediate content block.
    *
-   * V1 behaviour: queued and flushed at the terminal `respond()`. No SSE.
-   * V1.1 behaviour: emits immediately over Streamable HTTP + SSE.
-   *
-   * Reserved so merchants can write forward-compatible streaming code
-   * today.
+   * Sent at once as a `notifications/solvapay/content` notification on
+   * the tool call's SSE stream, and flushed into `content[]` at the
+   * terminal `respond()` so clients that ignore the notification (or a
+   * JSON-response transport, which cannot stream) still receive it.
    */
   emit(block: ContentBlock): Promise<void>
 
   /**
-   * [V1.1] Emit a progress notification with a percent.
+   * Report progress as a percent (0–100).
    *
-   * V1 behaviour: no-op.
-   * V1.1 behaviour: sends `notifications/progress` if the client
-   * supplied a `progressToken`; no-op otherwise.
+   * Sends `notifications/progress` with `total: 100` when the client
+   * supplied a `progressToken`; no-op otherwise. Values that do not
+   * increase on the last one sent are dropped, as the spec requires.
    */
   progress(options: { percent: number; message?: string }): Promise<void>
 
   /**
-   * [V1.1] Emit a progress notification with non-percent units.
-   *
-   * V1 behaviour: no-op.
-   * V1.1 behaviour: sends `notifications/progress` with raw
-   * progress/total.
+   * Report progress in the tool's own units, e.g. `{ progress: 3,
+   * total: 8 }` images. Same delivery rules as `progress`.
    */
   progressRaw(options: { progress: number; total?: number; message?: string }): Promise<void>
 
   /**
-   * [V1.1] AbortSignal that fires when the client cancels the tool call.
-   *
-   * V1 behaviour: always an unaborted signal.
-   * V1.1 behaviour: wired to the underlying transport cancellation.
+   * AbortSignal that fires when the client cancels the tool call with
+   * `notifications/cancelled` (or the transport drops the request).
    *
-   * Merchants pass this to their upstream fetch/LLM/image-gen calls to
-   * cancel expensive operations when the client goes away.
+   * Pass it to upstream fetch / LLM / image-gen calls to stop paying for
+   * work nobody will read. A call whose signal fired is recorded as a
+   * failure with `reason: 'cancelled'` and is not billed, even if the
+   * handler returns a result.
    */
   signal: AbortSignal
 }
@@ -597,7 +615,7 @@ export interface ResponseContext {
  * Merchant handler signature for `registerPayable`. Receives the
  * parsed input `args` (typed from the tool's `schema` when provided)
  * and a `ResponseContext` with `ctx.respond(...)`, `ctx.customer`,
- * `ctx.gate(...)`, and the reserved streaming surface (`ctx.emit`,
+ * `ctx.gate(...)`, and the streaming surface (`ctx.emit`,
  * `ctx.progress`, `ctx.signal`).
  *
  * Must return the branded envelope produced by `ctx.respond(data, options?)`.
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { FastMCP } from 'fastmcp'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { MCP_TOOL_NAMES, type McpToolExtra } from '@solvapay/mcp-core'
+import { createSolvaPay } from '@solvapay/server'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils'
+import { addSolvaPayTool, registerSolvaPayFastMcp } from '../src'
+
+const PRODUCT_REF = 'prd_fastmcp'
+
+let customerCounter = 0
+// Customer lookups are cached process-wide, so every session needs its own ref.
+const nextAuthInfo = () => ({ extra: { customer_ref: `user_fastmcp_${++customerCounter}` } })
+
+type SessionAuth = NonNullable<McpToolExtra['authInfo']>
+
+const clients: Client[] = []
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map(client => client.close()))
+})
+
+function buildServer() {
+  const apiClient = createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: PRODUCT_REF,
+        name: 'FastMCP',
+        plans: [{ reference: 'pln_free', name: 'Free', freeUnits: 10, default: true }],
+      },
+    ],
+  })
+  const server = new FastMCP<SessionAuth>({ name: 'fastmcp-test', version: '0.0.0' })
+  const registration = registerSolvaPayFastMcp(server, {
+    solvaPay: createSolvaPay({ apiClient }),
+    productRef: PRODUCT_REF,
+    resourceUri: 'ui://test/view.html',
+    readHtml: async () => '<html></html>',
+    publicBaseUrl: 'https://example.com',
+  })
+  return { server, ...registration }
+}
+
+/** Connect an SDK client in-process, as `authenticate` would have returned `auth`. */
+async function connect(server: FastMCP<SessionAuth>, auth: SessionAuth = nextAuthInfo()) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const client = new Client({ name: 'fastmcp-test-client', version: '0.0.0' })
+  await Promise.all([server.connect(serverTransport, auth), client.connect(clientTransport)])
+  clients.push(client)
+  return client
+}
+
+describe('registerSolvaPayFastMcp', () => {
+  it('registers the descriptor tools, resources and prompts', async () => {
+    const { server, descriptors } = buildServer()
+    const client = await connect(server)
+
+    const { tools } = await client.listTools()
+    expect(tools.map(tool => tool.name).sort()).toEqual(
+      descriptors.tools.map(tool => tool.name).sort(),
+    )
+    const checkout = tools.find(tool => tool.name === MCP_TOOL_NAMES.createCheckoutSession)!
+    expect(checkout._meta).toMatchObject({ ui: { resourceUri: 'ui://test/view.html' } })
+
+    const { resources } = await client.listResources()
+    expect(resources.map(resource => resource.uri)).toEqual(
+      expect.arrayContaining([descriptors.bootstrapResource.uri, 'ui://test/view.html']),
+    )
+    const ui = await client.readResource({ uri: 'ui://test/view.html' })
+    expect(ui.contents[0]).toMatchObject({
+      mimeType: 'text/html;profile=mcp-app',
+      text: '<html></html>',
+      _meta: { ui: { prefersBorder: false } },
+    })
+
+    const { prompts } = await client.listPrompts()
+    expect(prompts.map(prompt => prompt.name).sort()).toEqual(
+      descriptors.prompts.map(prompt => prompt.name).sort(),
+    )
+  })
+
+  it('runs payable tools as the session caller', async () => {
+    const { server, registerPayable } = buildServer()
+    registerPayable('echo', {
+      description: 'Echo the input.',
+      schema: { text: z.string() },
+      handler: async ({ text }, ctx) => ctx.respond({ echoed: text }),
+    })
+    const client = await connect(server)
+
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'hi' } })
+    expect(result.isError).toBeUndefined()
+    expect(result.structuredContent).toEqual({ echoed: 'hi' })
+  })
+})
+
+describe('addSolvaPayTool', () => {
+  it('returns thrown errors in the SDK tool-error shape', async () => {
+    const { server } = buildServer()
+    addSolvaPayTool(server, {
+      name: 'boom',
+      description: 'Always fails.',
+      inputSchema: {},
+      handler: async () => {
+        throw new Error('exploded')
+      },
+    })
+    const client = await connect(server)
+
+    expect(await client.callTool({ name: 'boom', arguments: {} })).toEqual({
+      content: [{ type: 'text', text: 'exploded' }],
+      isError: true,
+    })
+  })
+
+  it('drops content-block annotations FastMCP rejects and reports progress', async () => {
+    const { server } = buildServer()
+    addSolvaPayTool(server, {
+      name: 'narrate',
+      description: 'Narrates for the assistant.',
+      inputSchema: {},
+      handler: async (_args, extra) => {
+        await extra.sendNotification?.({
+          method: 'notifications/progress',
+          params: { progressToken: extra._meta?.progressToken, progress: 1, total: 2 },
+        })
+        return {
+          content: [
+            { type: 'text', text: 'for the model', annotations: { audience: ['assistant'] } },
+          ],
+        }
+      },
+    })
+    const client = await connect(server)
+
+    const progress: unknown[] = []
+    const result = await client.callTool({ name: 'narrate', arguments: {} }, undefined, {
+      onprogress: update => progress.push(update),
+    })
+    expect(result).toEqual({ content: [{ type: 'text', text: 'for the model' }] })
+    expect(progress).toEqual([{ progress: 1, total: 2 }])
+  })
+})
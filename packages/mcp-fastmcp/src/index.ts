@@ -0,0 +1,45 @@
+/**
+ * `@solvapay/mcp-fastmcp` — FastMCP adapter for the SolvaPay MCP
+ * toolbox. Registers the framework-neutral `buildSolvaPayDescriptors`
+ * bundle from `@solvapay/mcp-core` (tools, prompts, docs / bootstrap /
+ * UI resources) on a `FastMCP` server, and paywall-protected merchant
+ * tools built with `buildPayableHandler`.
+ *
+ * Only FastMCP's types are imported: pass in the `FastMCP` instance
+ * your app already creates.
+ *
+ * @example
+ * ```ts
+ * import { FastMCP } from 'fastmcp'
+ * import { registerSolvaPayFastMcp } from '@solvapay/mcp-fastmcp'
+ *
+ * const server = new FastMCP({ name: 'my-app', version: '1.0.0' })
+ * const { registerPayable } = registerSolvaPayFastMcp(server, {
+ *   solvaPay,
+ *   productRef: 'prd_video',
+ *   resourceUri: 'ui://my-app/mcp-app.html',
+ *   htmlPath: '/dist/mcp-app.html',
+ *   publicBaseUrl: 'https://my-app.example.com',
+ * })
+ * ```
+ */
+
+export { addSolvaPayTool, registerSolvaPayFastMcp } from './register'
+export type {
+  AddSolvaPayToolOptions,
+  FastMcpAuthInfoResolver,
+  FastMcpPayableToolOptions,
+  RegisterSolvaPayFastMcpOptions,
+  SolvaPayFastMcpRegistration,
+} from './register'
+
+// ---- Merchant-facing types re-exported from @solvapay/mcp-core ----
+export type {
+  ContentBlock,
+  CustomerSnapshot,
+  NudgeSpec,
+  PayableHandler,
+  ResponseContext,
+  ResponseOptions,
+  ResponseResult,
+} from '@solvapay/mcp-core'
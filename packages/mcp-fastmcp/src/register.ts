@@ -0,0 +1,300 @@
+/**
+ * Map the framework-neutral `buildSolvaPayDescriptors` bundle onto a
+ * FastMCP server: `addTool` / `addResource` / `addPrompt` for every
+ * descriptor, plus a bound `registerPayable` for merchant tools.
+ *
+ * Two FastMCP specifics shape the mapping:
+ *
+ *  - Caller identity. FastMCP hands `execute` the value `authenticate`
+ *    returned (`context.session`) instead of an MCP `authInfo`. Return
+ *    `buildAuthInfoFromBearer(...)` from `authenticate` and the session
+ *    is used as `extra.authInfo` as-is; override with `getAuthInfo`.
+ *  - Result validation. FastMCP 4 validates tool results against a
+ *    strict content schema that has no `annotations` field, and turns
+ *    a result carrying them into an error. Per-block `annotations`
+ *    (the `audience: ['assistant']` routing hint on intent-tool
+ *    narrations) are therefore dropped; hosts show those blocks to the
+ *    user as well. Everything else is passed through unchanged.
+ */
+
+import type { Content, ContentResult, Context, FastMCP, FastMCPSessionAuth } from 'fastmcp'
+import {
+  buildPayableToolDescriptor,
+  buildSolvaPayDescriptors,
+  CONTENT_NOTIFICATION_METHOD,
+  toolDescriptorMeta,
+  type BuildPayableToolDescriptorOptions,
+  type BuildSolvaPayDescriptorsOptions,
+  type McpToolExtra,
+  type SolvaPayCallToolResult,
+  type SolvaPayDescriptorBundle,
+  type SolvaPayPromptDescriptor,
+  type SolvaPayToolDescriptor,
+  type SolvaPayToolInputShape,
+} from '@solvapay/mcp-core'
+import { z } from 'zod'
+
+/** `text/html;profile=mcp-app` — the MCP Apps UI resource MIME type. */
+const RESOURCE_MIME_TYPE = 'text/html;profile=mcp-app'
+
+/**
+ * FastMCP resolves the client's `progressToken` inside
+ * `context.reportProgress`, so any token makes `ctx.progress(...)`
+ * report; FastMCP skips the notification when the client sent none.
+ */
+const FASTMCP_PROGRESS_TOKEN = 'fastmcp'
+
+/** Maps FastMCP's `context.session` onto the MCP `authInfo` SolvaPay tools read. */
+export type FastMcpAuthInfoResolver<T extends FastMCPSessionAuth> = (
+  session: T | undefined,
+) => McpToolExtra['authInfo'] | undefined
+
+export interface AddSolvaPayToolOptions<T extends FastMCPSessionAuth> {
+  /** Defaults to using the session returned by `authenticate` as `authInfo`. */
+  getAuthInfo?: FastMcpAuthInfoResolver<T>
+}
+
+export interface RegisterSolvaPayFastMcpOptions<T extends FastMCPSessionAuth>
+  extends BuildSolvaPayDescriptorsOptions, AddSolvaPayToolOptions<T> {
+  /** Register the slash-command prompts. Defaults to `true`. */
+  registerPrompts?: boolean
+  /** Register the narrated `docs://solvapay/overview.md` resource. Defaults to `true`. */
+  registerDocsResources?: boolean
+}
+
+/** `registerPayable` options: `solvaPay` is bound and `product` defaults to the server's `productRef`. */
+export type FastMcpPayableToolOptions<
+  Shape extends SolvaPayToolInputShape = SolvaPayToolInputShape,
+  TData = unknown,
+> = Omit<BuildPayableToolDescriptorOptions<Shape, TData>, 'solvaPay' | 'product'> & {
+  product?: string
+}
+
+export interface SolvaPayFastMcpRegistration {
+  /** The descriptor bundle registered on the server. */
+  descriptors: SolvaPayDescriptorBundle
+  /** Register a paywall-protected merchant tool on the same server. */
+  registerPayable<Shape extends SolvaPayToolInputShape = SolvaPayToolInputShape, TData = unknown>(
+    name: string,
+    options: FastMcpPayableToolOptions<Shape, TData>,
+  ): void
+}
+
+const defaultGetAuthInfo = <T extends FastMCPSessionAuth>(session: T | undefined) =>
+  session as McpToolExtra['authInfo'] | undefined
+
+/**
+ * The `extra` a descriptor handler expects, built from FastMCP's tool
+ * context: identity, cancellation, and progress / streamed blocks
+ * routed through `reportProgress` / `streamContent`.
+ */
+function toolExtra<T extends FastMCPSessionAuth>(
+  context: Context<T>,
+  getAuthInfo: FastMcpAuthInfoResolver<T>,
+): McpToolExtra {
+  const authInfo = getAuthInfo(context.session)
+  return {
+    ...(authInfo ? { authInfo } : {}),
+    signal: context.signal,
+    ...(context.requestId !== undefined ? { requestId: context.requestId } : {}),
+    _meta: { progressToken: FASTMCP_PROGRESS_TOKEN },
+    sendNotification: async (notification: {
+      method: string
+      params?: Record<string, unknown>
+    }) => {
+      const params = notification.params ?? {}
+      if (notification.method === 'notifications/progress') {
+        await context.reportProgress({
+          progress: params.progress as number,
+          ...(params.total !== undefined ? { total: params.total as number } : {}),
+          ...(params.message !== undefined ? { message: params.message as string } : {}),
+        })
+      } else if (notification.method === CONTENT_NOTIFICATION_METHOD) {
+        await context.streamContent(params.block as Content)
+      }
+    },
+  }
+}
+
+/** Strip the per-block `annotations` FastMCP's result schema rejects. */
+function toFastMcpResult(result: SolvaPayCallToolResult): ContentResult {
+  return {
+    ...result,
+    content: result.content.map(block => {
+      const { annotations: _annotations, ...rest } = block
+      return rest
+    }),
+  } as ContentResult
+}
+
+/**
+ * Register one SolvaPay tool descriptor — from
+ * `buildSolvaPayDescriptors` or `buildPayableToolDescriptor` — on a
+ * FastMCP server.
+ */
+export function addSolvaPayTool<T extends FastMCPSessionAuth>(
+  server: FastMCP<T>,
+  tool: SolvaPayToolDescriptor,
+  options: AddSolvaPayToolOptions<T> = {},
+): void {
+  const { getAuthInfo = defaultGetAuthInfo } = options
+  const meta = toolDescriptorMeta(tool)
+
+  server.addTool({
+    name: tool.name,
+    description: tool.description,
+    parameters: z.object(tool.inputSchema),
+    // FastMCP has no top-level `title`; MCP also reads it from annotations.
+    annotations: {
+      ...(tool.title !== undefined ? { title: tool.title } : {}),
+      ...tool.annotations,
+    },
+    ...(meta !== undefined ? { _meta: meta } : {}),
+    execute: async (args, context) => {
+      try {
+        return toFastMcpResult(
+          await tool.handler(args as Record<string, unknown>, toolExtra(context, getAuthInfo)),
+        )
+      } catch (error) {
+        // Same shape as the official SDK's tool error, rather than
+        // FastMCP's "Tool '<name>' execution failed: …" wrapper.
+        return {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+          isError: true,
+        }
+      }
+    },
+  })
+}
+
+function addSolvaPayPrompt<T extends FastMCPSessionAuth>(
+  server: FastMCP<T>,
+  prompt: SolvaPayPromptDescriptor,
+): void {
+  const argsSchema = prompt.argsSchema ?? {}
+  server.addPrompt({
+    name: prompt.name,
+    description: prompt.description,
+    arguments: Object.entries(argsSchema).map(([name, schema]) => ({
+      name,
+      ...(schema.description !== undefined ? { description: schema.description } : {}),
+      required: !schema.isOptional(),
+    })),
+    load: async args =>
+      prompt.handler(z.object(argsSchema).parse(args ?? {}) as Record<string, unknown>),
+  })
+}
+
+/**
+ * Build the SolvaPay descriptor bundle and register every tool,
+ * prompt and resource on `server`.
+ *
+ * @example
+ * ```ts
+ * const server = new FastMCP({
+ *   name: 'my-app',
+ *   version: '1.0.0',
+ *   authenticate: request =>
+ *     buildAuthInfoFromBearer(request.headers.authorization as string | undefined),
+ * })
+ * const { registerPayable } = registerSolvaPayFastMcp(server, {
+ *   solvaPay,
+ *   productRef: 'prd_video',
+ *   resourceUri: 'ui://my-app/mcp-app.html',
+ *   htmlPath: '/dist/mcp-app.html',
+ *   publicBaseUrl: 'https://my-app.example.com',
+ * })
+ * registerPayable('create_video', {
+ *   description: 'Generate a short video from a prompt.',
+ *   schema: { prompt: z.string() },
+ *   handler: async ({ prompt }, ctx) => ctx.respond({ videoUrl: await generateVideo(prompt) }),
+ * })
+ * await server.start({ transportType: 'httpStream', httpStream: { port: 8080 } })
+ * ```
+ */
+export function registerSolvaPayFastMcp<T extends FastMCPSessionAuth>(
+  server: FastMCP<T>,
+  options: RegisterSolvaPayFastMcpOptions<T>,
+): SolvaPayFastMcpRegistration {
+  const {
+    registerPrompts = true,
+    registerDocsResources = true,
+    getAuthInfo = defaultGetAuthInfo,
+    ...descriptorOptions
+  } = options
+  const { solvaPay, productRef } = descriptorOptions
+  const descriptors = buildSolvaPayDescriptors(descriptorOptions)
+
+  for (const tool of descriptors.tools) {
+    addSolvaPayTool(server, tool, { getAuthInfo })
+  }
+
+  if (registerPrompts) {
+    for (const prompt of descriptors.prompts) {
+      addSolvaPayPrompt(server, prompt)
+    }
+  }
+
+  if (registerDocsResources) {
+    for (const docs of descriptors.docsResources) {
+      server.addResource({
+        uri: docs.uri,
+        name: docs.name,
+        description: docs.description,
+        mimeType: docs.mimeType,
+        load: async () => ({ uri: docs.uri, mimeType: docs.mimeType, text: await docs.readBody() }),
+      })
+    }
+  }
+
+  const bootstrap = descriptors.bootstrapResource
+  server.addResource({
+    uri: bootstrap.uri,
+    name: bootstrap.name,
+    description: bootstrap.description,
+    mimeType: bootstrap.mimeType,
+    load: async session => {
+      const authInfo = getAuthInfo(session)
+      return {
+        uri: bootstrap.uri,
+        mimeType: bootstrap.mimeType,
+        text: JSON.stringify(await bootstrap.readPayload(authInfo ? { authInfo } : {})),
+      }
+    },
+  })
+
+  const ui = descriptors.resource
+  // `prefersBorder: false` — the widget paints its own card; see
+  // `@solvapay/mcp`'s UI resource registration.
+  const uiMeta = { ui: { csp: ui.csp, prefersBorder: false } }
+  server.addResource({
+    uri: ui.uri,
+    name: ui.uri,
+    mimeType: RESOURCE_MIME_TYPE,
+    // FastMCP spreads the loaded result into `contents[0]`, so the CSP
+    // `_meta` reaches the host even though its type does not list it.
+    load: async () =>
+      ({
+        uri: ui.uri,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: await ui.readHtml(),
+        _meta: uiMeta,
+      }) as { uri: string; mimeType: string; text: string },
+  })
+
+  return {
+    descriptors,
+    registerPayable(name, payableOptions) {
+      addSolvaPayTool(
+        server,
+        buildPayableToolDescriptor(name, {
+          solvaPay,
+          ...payableOptions,
+          product: payableOptions.product ?? productRef,
+          buildBootstrap: payableOptions.buildBootstrap ?? descriptors.buildBootstrapPayload,
+        }),
+        { getAuthInfo },
+      )
+    },
+  }
+}
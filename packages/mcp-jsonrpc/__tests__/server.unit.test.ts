@@ -0,0 +1,334 @@
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { MCP_TOOL_NAMES } from '@solvapay/mcp-core'
+import { createSolvaPay } from '@solvapay/server'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils'
+import {
+  createSolvaPayJsonRpcFetchHandler,
+  createSolvaPayJsonRpcServer,
+  JSON_RPC_ERROR_CODES,
+  serveSolvaPayJsonRpcStdio,
+  type JsonRpcResponse,
+} from '../src'
+
+const PRODUCT_REF = 'prd_jsonrpc'
+let customerCounter = 0
+// Customer lookups are cached process-wide, so every call site needs its own ref.
+const nextAuthInfo = () => ({ extra: { customer_ref: `user_jsonrpc_${++customerCounter}` } })
+
+function buildServer() {
+  const apiClient = createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: PRODUCT_REF,
+        name: 'JSON-RPC',
+        plans: [{ reference: 'pln_free', name: 'Free', freeUnits: 10, default: true }],
+      },
+    ],
+  })
+  const server = createSolvaPayJsonRpcServer({
+    solvaPay: createSolvaPay({ apiClient }),
+    productRef: PRODUCT_REF,
+    resourceUri: 'ui://test/view.html',
+    readHtml: async () => '<html></html>',
+    publicBaseUrl: 'https://example.com',
+  })
+  server.registerPayable('echo', {
+    description: 'Echo the input.',
+    schema: { text: z.string() },
+    handler: async ({ text }, ctx) => ctx.respond({ echoed: text }),
+  })
+  return server
+}
+
+const request = (id: number, method: string, params?: Record<string, unknown>) => ({
+  jsonrpc: '2.0' as const,
+  id,
+  method,
+  ...(params ? { params } : {}),
+})
+
+describe('createSolvaPayJsonRpcServer', () => {
+  it('negotiates the protocol version on initialize', async () => {
+    const server = buildServer()
+    const response = (await server.handle(
+      request(1, 'initialize', { protocolVersion: '2025-06-18', capabilities: {} }),
+    )) as JsonRpcResponse
+    expect(response.result).toMatchObject({
+      protocolVersion: '2025-06-18',
+      capabilities: { tools: {}, resources: {}, prompts: {} },
+      serverInfo: { name: 'solvapay-mcp-server' },
+    })
+
+    const unknown = (await server.handle(
+      request(2, 'initialize', { protocolVersion: '1999-01-01' }),
+    )) as JsonRpcResponse
+    expect((unknown.result as { protocolVersion: string }).protocolVersion).toBe('2025-11-25')
+  })
+
+  it('lists descriptor tools and payable tools with JSON Schema inputs', async () => {
+    const server = buildServer()
+    const response = (await server.handle(request(1, 'tools/list'))) as JsonRpcResponse
+    const tools = (response.result as { tools: Array<Record<string, unknown>> }).tools
+    const names = tools.map(tool => tool.name)
+    expect(names).toContain(MCP_TOOL_NAMES.createCheckoutSession)
+    expect(names).toContain('echo')
+
+    const echo = tools.find(tool => tool.name === 'echo')!
+    expect(echo.inputSchema).toMatchObject({
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text'],
+    })
+    expect(echo.annotations).toMatchObject({ readOnlyHint: true, openWorldHint: true })
+  })
+
+  it('calls a payable tool as the caller in authInfo', async () => {
+    const server = buildServer()
+    const response = (await server.handle(
+      request(1, 'tools/call', { name: 'echo', arguments: { text: 'hi' } }),
+      { authInfo: nextAuthInfo() },
+    )) as JsonRpcResponse
+    const result = response.result as { structuredContent?: unknown; isError?: boolean }
+    expect(result.isError).toBeUndefined()
+    expect(result.structuredContent).toEqual({ echoed: 'hi' })
+  })
+
+  it('returns invalid arguments as a tool error result', async () => {
+    const server = buildServer()
+    const response = (await server.handle(
+      request(1, 'tools/call', { name: 'echo', arguments: { text: 42 } }),
+      { authInfo: nextAuthInfo() },
+    )) as JsonRpcResponse
+    expect(response.result).toMatchObject({ isError: true })
+    const text = (response.result as { content: Array<{ text: string }> }).content[0].text
+    expect(text).toMatch(/Invalid arguments for tool echo/)
+  })
+
+  it('maps protocol failures onto JSON-RPC errors', async () => {
+    const server = buildServer()
+
+    const unknownTool = (await server.handle(
+      request(1, 'tools/call', { name: 'nope' }),
+    )) as JsonRpcResponse
+    expect(unknownTool.error).toEqual({
+      code: JSON_RPC_ERROR_CODES.invalidParams,
+      message: 'Tool nope not found',
+    })
+
+    const unknownMethod = (await server.handle(request(2, 'sampling/nope'))) as JsonRpcResponse
+    expect(unknownMethod.error?.code).toBe(JSON_RPC_ERROR_CODES.methodNotFound)
+
+    const invalid = (await server.handle({
+      jsonrpc: '1.0',
+      id: 3,
+      method: 'ping',
+    })) as JsonRpcResponse
+    expect(invalid).toMatchObject({ id: 3, error: { code: JSON_RPC_ERROR_CODES.invalidRequest } })
+
+    const emptyBatch = (await server.handle([])) as JsonRpcResponse
+    expect(emptyBatch.error?.code).toBe(JSON_RPC_ERROR_CODES.invalidRequest)
+  })
+
+  it('answers batches and stays silent on notifications', async () => {
+    const server = buildServer()
+    expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull()
+
+    const responses = (await server.handle([
+      request(1, 'ping'),
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      request(2, 'prompts/list'),
+    ])) as JsonRpcResponse[]
+    expect(responses.map(response => response.id)).toEqual([1, 2])
+    expect(responses[0].result).toEqual({})
+  })
+
+  it('reads the bootstrap and UI resources', async () => {
+    const server = buildServer()
+    const ui = (await server.handle(
+      request(1, 'resources/read', { uri: 'ui://test/view.html' }),
+    )) as JsonRpcResponse
+    expect(ui.result).toMatchObject({
+      contents: [
+        {
+          uri: 'ui://test/view.html',
+          mimeType: 'text/html;profile=mcp-app',
+          text: '<html></html>',
+          _meta: { ui: { prefersBorder: false } },
+        },
+      ],
+    })
+
+    const { uri, mimeType } = server.descriptors.bootstrapResource
+    const bootstrap = (await server.handle(request(2, 'resources/read', { uri }), {
+      authInfo: nextAuthInfo(),
+    })) as JsonRpcResponse
+    const [contents] = (bootstrap.result as { contents: Array<Record<string, string>> }).contents
+    expect(contents).toMatchObject({ uri, mimeType })
+    expect(JSON.parse(contents.text)).toMatchObject({ productRef: PRODUCT_REF })
+
+    const missing = (await server.handle(
+      request(3, 'resources/read', { uri: 'ui://nope' }),
+    )) as JsonRpcResponse
+    expect(missing.error?.code).toBe(JSON_RPC_ERROR_CODES.invalidParams)
+  })
+
+  it('aborts a running tool call on notifications/cancelled', async () => {
+    const server = buildServer()
+    let started!: () => void
+    const running = new Promise<void>(resolve => (started = resolve))
+    server.registerTool({
+      name: 'slow',
+      description: 'Waits until cancelled.',
+      inputSchema: {},
+      handler: async (_args, extra) => {
+        started()
+        await new Promise((_resolve, reject) => {
+          extra.signal?.addEventListener('abort', () => reject(new Error('cancelled')))
+        })
+        return { content: [] }
+      },
+    })
+
+    const call = server.handle(request(7, 'tools/call', { name: 'slow' }))
+    await running
+    await server.handle({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId: 7 },
+    })
+    expect(((await call) as JsonRpcResponse).result).toEqual({
+      content: [{ type: 'text', text: 'cancelled' }],
+      isError: true,
+    })
+  })
+
+  it('only cancels calls that belong to the same customer', async () => {
+    const server = buildServer()
+    let release!: () => void
+    const released = new Promise<void>(resolve => (release = resolve))
+    let started = 0
+    const aborted: unknown[] = []
+    server.registerTool({
+      name: 'slow',
+      description: 'Waits until released or cancelled.',
+      inputSchema: {},
+      handler: async (_args, extra) => {
+        started++
+        await new Promise<void>((resolve, reject) => {
+          void released.then(resolve)
+          extra.signal?.addEventListener('abort', () => {
+            aborted.push(extra.authInfo?.extra?.customer_ref)
+            reject(new Error('cancelled'))
+          })
+        })
+        return { content: [{ type: 'text', text: 'done' }] }
+      },
+    })
+    const cancel = (authInfo: ReturnType<typeof nextAuthInfo>) =>
+      server.handle(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7 } },
+        { authInfo },
+      )
+
+    const alice = nextAuthInfo()
+    const bob = nextAuthInfo()
+    // Both clients happen to pick the same request id.
+    const aliceCall = server.handle(request(7, 'tools/call', { name: 'slow' }), {
+      authInfo: alice,
+    })
+    const bobCall = server.handle(request(7, 'tools/call', { name: 'slow' }), { authInfo: bob })
+    await vi.waitFor(() => expect(started).toBe(2))
+
+    await cancel(nextAuthInfo())
+    expect(aborted).toEqual([])
+
+    await cancel(bob)
+    expect(aborted).toEqual([bob.extra.customer_ref])
+    expect(((await bobCall) as JsonRpcResponse).result).toMatchObject({ isError: true })
+
+    release()
+    expect(((await aliceCall) as JsonRpcResponse).result).toEqual({
+      content: [{ type: 'text', text: 'done' }],
+    })
+  })
+})
+
+describe('serveSolvaPayJsonRpcStdio', () => {
+  it('answers newline-delimited messages and reports parse errors', async () => {
+    const server = buildServer()
+    const lines: string[] = []
+    async function* input() {
+      yield `${JSON.stringify(request(1, 'ping'))}\n{not json`
+      yield `\n${JSON.stringify(request(2, 'tools/call', { name: 'echo', arguments: { text: 'a' } }))}`
+    }
+
+    await serveSolvaPayJsonRpcStdio(server, {
+      input: input(),
+      output: { write: chunk => lines.push(chunk) },
+      authInfo: nextAuthInfo(),
+    })
+
+    const messages = lines.map(line => JSON.parse(line) as JsonRpcResponse)
+    expect(lines.every(line => line.endsWith('\n'))).toBe(true)
+    expect(messages).toContainEqual({ jsonrpc: '2.0', id: 1, result: {} })
+    expect(messages).toContainEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JSON_RPC_ERROR_CODES.parseError, message: 'Parse error' },
+    })
+    const call = messages.find(message => message.id === 2)!
+    expect(call.result).toMatchObject({ structuredContent: { echoed: 'a' } })
+  })
+})
+
+describe('createSolvaPayJsonRpcFetchHandler', () => {
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    new Request('https://example.com/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    })
+
+  it('only accepts POST', async () => {
+    const handler = createSolvaPayJsonRpcFetchHandler(buildServer(), {
+      publicBaseUrl: 'https://example.com',
+      requireAuth: false,
+    })
+    const res = await handler(new Request('https://example.com/rpc'))
+    expect(res.status).toBe(405)
+    expect(res.headers.get('allow')).toBe('POST')
+  })
+
+  it('challenges unauthenticated requests', async () => {
+    const handler = createSolvaPayJsonRpcFetchHandler(buildServer(), {
+      publicBaseUrl: 'https://example.com/',
+    })
+    const res = await handler(post(request(1, 'ping')))
+    expect(res.status).toBe(401)
+    expect(res.headers.get('www-authenticate')).toContain(
+      'resource_metadata="https://example.com/.well-known/oauth-protected-resource"',
+    )
+    expect(await res.json()).toMatchObject({ id: null, error: { code: -32001 } })
+  })
+
+  it('returns 200 for requests, 202 for notifications and 400 for bad JSON', async () => {
+    const handler = createSolvaPayJsonRpcFetchHandler(buildServer(), {
+      publicBaseUrl: 'https://example.com',
+      requireAuth: false,
+    })
+
+    const ping = await handler(post(request(1, 'ping')))
+    expect(ping.status).toBe(200)
+    expect(await ping.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} })
+
+    const notification = await handler(
+      post({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+    )
+    expect(notification.status).toBe(202)
+
+    const bad = await handler(post('{not json'))
+    expect(bad.status).toBe(400)
+    expect(await bad.json()).toMatchObject({ error: { code: JSON_RPC_ERROR_CODES.parseError } })
+  })
+})
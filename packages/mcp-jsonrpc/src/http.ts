@@ -0,0 +1,107 @@
+/**
+ * JSON-RPC over HTTP as a Web-standards `(Request) => Response`
+ * handler — Deno, Bun, Cloudflare Workers, Node 18+ behind any
+ * fetch-compatible server. One `POST` carries one message or batch and
+ * the response body carries the answer as `application/json`.
+ *
+ * There is no SSE back-channel, so progress notifications and streamed
+ * `ctx.emit` blocks are dropped; emitted blocks still arrive in the
+ * final result's `content[]`.
+ */
+
+import {
+  buildAuthInfoFromBearer,
+  buildBearerChallenge,
+  McpBearerAuthError,
+  withoutTrailingSlash,
+  type BuildAuthInfoFromBearerOptions,
+} from '@solvapay/mcp-core'
+import { JSON_RPC_ERROR_CODES } from './protocol'
+import type { SolvaPayJsonRpcServer } from './server'
+
+export interface CreateSolvaPayJsonRpcFetchHandlerOptions {
+  /** Public origin of this server, used in the `401` challenge's `resource_metadata` URL. */
+  publicBaseUrl: string
+  /** Reject requests without a valid bearer token (default: `true`). */
+  requireAuth?: boolean
+  /**
+   * Bearer-token handling, passed to `buildAuthInfoFromBearer`. Without
+   * `verify`, JWKS settings come from the environment.
+   */
+  authInfo?: BuildAuthInfoFromBearerOptions
+  /** Path of the protected-resource metadata (default: `/.well-known/oauth-protected-resource`). */
+  protectedResourcePath?: string
+}
+
+function jsonResponse(body: unknown, status: number, headers?: HeadersInit): Response {
+  const responseHeaders = new Headers(headers)
+  responseHeaders.set('Content-Type', 'application/json')
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders })
+}
+
+/**
+ * Serve `server` over HTTP. The caller's bearer token is verified and
+ * mapped onto `authInfo` before any tool sees the request.
+ *
+ * @example
+ * ```ts
+ * Deno.serve(
+ *   createSolvaPayJsonRpcFetchHandler(server, { publicBaseUrl: 'https://mcp.example.com' }),
+ * )
+ * ```
+ */
+export function createSolvaPayJsonRpcFetchHandler(
+  server: SolvaPayJsonRpcServer,
+  options: CreateSolvaPayJsonRpcFetchHandlerOptions,
+): (req: Request) => Promise<Response> {
+  const {
+    publicBaseUrl,
+    requireAuth = true,
+    authInfo: bearerAuth,
+    protectedResourcePath = '/.well-known/oauth-protected-resource',
+  } = options
+  const resourceMetadataUrl = `${withoutTrailingSlash(publicBaseUrl)}${protectedResourcePath}`
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method !== 'POST') {
+      return new Response(null, { status: 405, headers: { Allow: 'POST' } })
+    }
+
+    const authHeader = req.headers.get('authorization')
+    let authInfo: Awaited<ReturnType<typeof buildAuthInfoFromBearer>> = null
+    if (authHeader || requireAuth) {
+      try {
+        authInfo = await buildAuthInfoFromBearer(authHeader, bearerAuth)
+        if (!authInfo) throw new McpBearerAuthError('Missing bearer token')
+      } catch (error) {
+        return jsonResponse(
+          { jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Unauthorized' } },
+          401,
+          { 'WWW-Authenticate': buildBearerChallenge(resourceMetadataUrl, error) },
+        )
+      }
+    }
+
+    let message: unknown
+    try {
+      message = JSON.parse(await req.text())
+    } catch {
+      return jsonResponse(
+        {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: JSON_RPC_ERROR_CODES.parseError, message: 'Parse error' },
+        },
+        400,
+      )
+    }
+
+    const sessionId = req.headers.get('mcp-session-id')
+    const response = await server.handle(message, {
+      ...(authInfo ? { authInfo } : {}),
+      ...(sessionId ? { sessionId } : {}),
+      signal: req.signal,
+    })
+    return response ? jsonResponse(response, 200) : new Response(null, { status: 202 })
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * `@solvapay/mcp-jsonrpc` — a dependency-free JSON-RPC 2.0 adapter for
+ * the SolvaPay MCP toolbox, for services that speak plain JSON-RPC
+ * rather than running `@modelcontextprotocol/sdk` or FastMCP.
+ *
+ * `createSolvaPayJsonRpcServer` registers the
+ * `buildSolvaPayDescriptors` bundle from `@solvapay/mcp-core` and
+ * dispatches parsed messages; two transports host it:
+ *
+ * - `serveSolvaPayJsonRpcStdio` — newline-delimited JSON on stdin /
+ *   stdout.
+ * - `createSolvaPayJsonRpcFetchHandler` — `(Request) => Response` over
+ *   HTTP.
+ *
+ * @example
+ * ```ts
+ * import { createSolvaPayJsonRpcServer, serveSolvaPayJsonRpcStdio } from '@solvapay/mcp-jsonrpc'
+ *
+ * const server = createSolvaPayJsonRpcServer({
+ *   solvaPay,
+ *   productRef: 'prd_video',
+ *   resourceUri: 'ui://my-app/mcp-app.html',
+ *   htmlPath: '/dist/mcp-app.html',
+ *   publicBaseUrl: 'https://my-app.example.com',
+ * })
+ * await serveSolvaPayJsonRpcStdio(server, {
+ *   authInfo: { extra: { customer_ref: process.env.SOLVAPAY_CUSTOMER_REF } },
+ * })
+ * ```
+ */
+
+export { createSolvaPayJsonRpcServer, SUPPORTED_PROTOCOL_VERSIONS } from './server'
+export type {
+  CreateSolvaPayJsonRpcServerOptions,
+  JsonRpcPayableToolOptions,
+  JsonRpcRequestContext,
+  SolvaPayJsonRpcServer,
+} from './server'
+
+export { serveSolvaPayJsonRpcStdio } from './stdio'
+export type { JsonRpcLineWriter, ServeSolvaPayJsonRpcStdioOptions } from './stdio'
+
+export { createSolvaPayJsonRpcFetchHandler } from './http'
+export type { CreateSolvaPayJsonRpcFetchHandlerOptions } from './http'
+
+export { JSON_RPC_ERROR_CODES, JsonRpcError } from './protocol'
+export type {
+  JsonRpcErrorObject,
+  JsonRpcId,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from './protocol'
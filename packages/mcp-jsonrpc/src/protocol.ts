@@ -0,0 +1,94 @@
+/**
+ * JSON-RPC 2.0 message shapes and error codes, kept local so the
+ * dispatcher needs nothing beyond `@solvapay/mcp-core`.
+ */
+
+export type JsonRpcId = string | number
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0'
+  id: JsonRpcId
+  method: string
+  params?: Record<string, unknown>
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0'
+  method: string
+  params?: Record<string, unknown>
+}
+
+export interface JsonRpcErrorObject {
+  code: number
+  message: string
+  data?: unknown
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId | null; error: JsonRpcErrorObject }
+
+/** Standard JSON-RPC 2.0 error codes. */
+export const JSON_RPC_ERROR_CODES = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+} as const
+
+/**
+ * Thrown by method handlers to answer with a JSON-RPC error instead of
+ * a result. Any other error becomes an `internalError`.
+ */
+export class JsonRpcError extends Error {
+  readonly code: number
+  readonly data?: unknown
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message)
+    this.name = 'JsonRpcError'
+    this.code = code
+    this.data = data
+  }
+
+  toJSON(): JsonRpcErrorObject {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.data !== undefined ? { data: this.data } : {}),
+    }
+  }
+}
+
+/** `true` for a message carrying an `id`, i.e. one that expects a response. */
+export function isJsonRpcRequest(
+  message: JsonRpcRequest | JsonRpcNotification,
+): message is JsonRpcRequest {
+  return 'id' in message
+}
+
+/**
+ * Check that `value` is a JSON-RPC 2.0 request or notification.
+ *
+ * @throws {JsonRpcError} `invalidRequest` when it is not
+ */
+export function assertJsonRpcMessage(
+  value: unknown,
+): asserts value is JsonRpcRequest | JsonRpcNotification {
+  const message = value as Partial<JsonRpcRequest> | null
+  const validId =
+    message !== null &&
+    typeof message === 'object' &&
+    (!('id' in message) || typeof message.id === 'string' || typeof message.id === 'number')
+  const validParams =
+    message?.params === undefined || (typeof message.params === 'object' && message.params !== null)
+  if (
+    !validId ||
+    message?.jsonrpc !== '2.0' ||
+    typeof message.method !== 'string' ||
+    !validParams
+  ) {
+    throw new JsonRpcError(JSON_RPC_ERROR_CODES.invalidRequest, 'Invalid Request')
+  }
+}
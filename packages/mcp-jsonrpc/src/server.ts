@@ -0,0 +1,480 @@
+/**
+ * `createSolvaPayJsonRpcServer(options)` — a dependency-free MCP
+ * server speaking plain JSON-RPC 2.0. It registers the
+ * `buildSolvaPayDescriptors` bundle (tools, prompts, docs / bootstrap /
+ * UI resources) and dispatches one parsed message at a time, so any
+ * transport that can move JSON — stdio, HTTP, a queue — can host it.
+ *
+ * Tool results are the descriptor handlers' results, unchanged: the
+ * same bytes `@solvapay/mcp` sends for the same call.
+ */
+
+import {
+  buildPayableToolDescriptor,
+  buildSolvaPayDescriptors,
+  deriveIcons,
+  toolDescriptorMeta,
+  type BuildPayableToolDescriptorOptions,
+  type BuildSolvaPayDescriptorsOptions,
+  type McpToolExtra,
+  type SolvaPayCallToolResult,
+  type SolvaPayDescriptorBundle,
+  type SolvaPayPromptDescriptor,
+  type SolvaPayToolDescriptor,
+  type SolvaPayToolInputShape,
+} from '@solvapay/mcp-core'
+import { z } from 'zod'
+import {
+  assertJsonRpcMessage,
+  isJsonRpcRequest,
+  JSON_RPC_ERROR_CODES,
+  JsonRpcError,
+  type JsonRpcId,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './protocol'
+
+/** MCP protocol revisions this server can speak, newest first. */
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  '2025-11-25',
+  '2025-06-18',
+  '2025-03-26',
+  '2024-11-05',
+] as const
+
+/** `text/html;profile=mcp-app` — the MCP Apps UI resource MIME type. */
+const RESOURCE_MIME_TYPE = 'text/html;profile=mcp-app'
+
+/** Per-message context supplied by the transport. */
+export interface JsonRpcRequestContext {
+  /** Caller identity, e.g. from `buildAuthInfoFromBearer`. Read by `getCustomerRef`. */
+  authInfo?: McpToolExtra['authInfo']
+  /** Aborts in-flight tool calls, e.g. when the HTTP client disconnects. */
+  signal?: AbortSignal
+  /**
+   * Connection or session the message arrived on. `notifications/cancelled`
+   * only reaches calls from the same session and customer.
+   */
+  sessionId?: string
+  /**
+   * Deliver a server → client notification (`notifications/progress`,
+   * streamed `ctx.emit` blocks). Transports without a back-channel omit
+   * it and the notifications are dropped.
+   */
+  sendNotification?: (notification: JsonRpcNotification) => Promise<void>
+}
+
+export interface CreateSolvaPayJsonRpcServerOptions extends BuildSolvaPayDescriptorsOptions {
+  /** Register the slash-command prompts. Defaults to `true`. */
+  registerPrompts?: boolean
+  /** Register the narrated `docs://solvapay/overview.md` resource. Defaults to `true`. */
+  registerDocsResources?: boolean
+  /** `serverInfo.name` returned from `initialize`. Defaults to the brand name, then `'solvapay-mcp-server'`. */
+  serverName?: string
+  /** `serverInfo.version` returned from `initialize`. Defaults to `'1.0.0'`. */
+  serverVersion?: string
+}
+
+/** `registerPayable` options: `solvaPay` is bound and `product` defaults to the server's `productRef`. */
+export type JsonRpcPayableToolOptions<
+  Shape extends SolvaPayToolInputShape = SolvaPayToolInputShape,
+  TData = unknown,
+> = Omit<BuildPayableToolDescriptorOptions<Shape, TData>, 'solvaPay' | 'product'> & {
+  product?: string
+}
+
+export interface SolvaPayJsonRpcServer {
+  /** The descriptor bundle the server was built from. */
+  readonly descriptors: SolvaPayDescriptorBundle
+  /** Register an additional tool descriptor. A later tool with the same name replaces it. */
+  registerTool(tool: SolvaPayToolDescriptor): void
+  /** Register a paywall-protected merchant tool built with `buildPayableToolDescriptor`. */
+  registerPayable<Shape extends SolvaPayToolInputShape = SolvaPayToolInputShape, TData = unknown>(
+    name: string,
+    options: JsonRpcPayableToolOptions<Shape, TData>,
+  ): void
+  /**
+   * Dispatch one parsed JSON-RPC message or batch. Resolves the
+   * response(s) to send back, or `null` when there is nothing to send
+   * (notifications only).
+   */
+  handle(
+    message: unknown,
+    context?: JsonRpcRequestContext,
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | null>
+}
+
+type MethodHandler = (
+  params: Record<string, unknown>,
+  context: JsonRpcRequestContext & { id: JsonRpcId },
+) => Promise<unknown>
+
+/** A `tools/call` that is still running, and who may cancel it. */
+interface InFlightCall {
+  id: JsonRpcId
+  customerRef: unknown
+  sessionId: string | undefined
+  controller: AbortController
+}
+
+interface ReadableResource {
+  listing: Record<string, unknown>
+  read: (extra: McpToolExtra) => Promise<Record<string, unknown>>
+}
+
+function toolListing(tool: SolvaPayToolDescriptor): Record<string, unknown> {
+  const meta = toolDescriptorMeta(tool)
+  return {
+    name: tool.name,
+    ...(tool.title !== undefined ? { title: tool.title } : {}),
+    description: tool.description,
+    inputSchema: z.toJSONSchema(z.object(tool.inputSchema), { target: 'draft-7', io: 'input' }),
+    ...(tool.annotations !== undefined ? { annotations: tool.annotations } : {}),
+    ...(tool.icons !== undefined ? { icons: tool.icons } : {}),
+    ...(meta !== undefined ? { _meta: meta } : {}),
+  }
+}
+
+function promptListing(prompt: SolvaPayPromptDescriptor): Record<string, unknown> {
+  const args = Object.entries(prompt.argsSchema ?? {}).map(([name, schema]) => ({
+    name,
+    ...(schema.description !== undefined ? { description: schema.description } : {}),
+    required: !schema.isOptional(),
+  }))
+  return {
+    name: prompt.name,
+    ...(prompt.title !== undefined ? { title: prompt.title } : {}),
+    description: prompt.description,
+    ...(args.length > 0 ? { arguments: args } : {}),
+  }
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+    )
+    .join('; ')
+}
+
+/** The result the official SDK returns for a tool handler that throws. */
+function toolErrorResult(error: unknown): SolvaPayCallToolResult {
+  return {
+    content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+    isError: true,
+  }
+}
+
+function errorResponse(id: JsonRpcId | null, error: unknown): JsonRpcResponse {
+  const rpcError =
+    error instanceof JsonRpcError
+      ? error
+      : new JsonRpcError(
+          JSON_RPC_ERROR_CODES.internalError,
+          error instanceof Error ? error.message : 'Internal error',
+        )
+  return { jsonrpc: '2.0', id, error: rpcError.toJSON() }
+}
+
+/**
+ * Build the SolvaPay descriptor bundle and a JSON-RPC dispatcher
+ * serving it. Pair with `serveSolvaPayJsonRpcStdio` or
+ * `createSolvaPayJsonRpcFetchHandler`, or call `handle` from your own
+ * transport.
+ *
+ * @example
+ * ```ts
+ * const server = createSolvaPayJsonRpcServer({
+ *   solvaPay,
+ *   productRef: 'prd_video',
+ *   resourceUri: 'ui://my-app/mcp-app.html',
+ *   htmlPath: '/dist/mcp-app.html',
+ *   publicBaseUrl: 'https://my-app.example.com',
+ * })
+ * server.registerPayable('create_video', {
+ *   description: 'Generate a short video from a prompt.',
+ *   schema: { prompt: z.string() },
+ *   handler: async ({ prompt }, ctx) => ctx.respond({ videoUrl: await generateVideo(prompt) }),
+ * })
+ * await serveSolvaPayJsonRpcStdio(server)
+ * ```
+ */
+export function createSolvaPayJsonRpcServer(
+  options: CreateSolvaPayJsonRpcServerOptions,
+): SolvaPayJsonRpcServer {
+  const {
+    registerPrompts = true,
+    registerDocsResources = true,
+    serverName,
+    serverVersion = '1.0.0',
+    ...descriptorOptions
+  } = options
+  const { solvaPay, productRef, branding } = descriptorOptions
+
+  const descriptors = buildSolvaPayDescriptors(descriptorOptions)
+  const serverIcons = deriveIcons(branding)
+  const serverInfo = {
+    name: serverName ?? branding?.brandName ?? 'solvapay-mcp-server',
+    version: serverVersion,
+    ...(serverIcons ? { icons: serverIcons } : {}),
+  }
+
+  const tools = new Map<string, SolvaPayToolDescriptor>()
+  for (const tool of descriptors.tools) tools.set(tool.name, tool)
+
+  const prompts = new Map<string, SolvaPayPromptDescriptor>()
+  if (registerPrompts) {
+    for (const prompt of descriptors.prompts) prompts.set(prompt.name, prompt)
+  }
+
+  const resources = new Map<string, ReadableResource>()
+  if (registerDocsResources) {
+    for (const docs of descriptors.docsResources) {
+      resources.set(docs.uri, {
+        listing: {
+          uri: docs.uri,
+          name: docs.name,
+          ...(docs.title !== undefined ? { title: docs.title } : {}),
+          description: docs.description,
+          mimeType: docs.mimeType,
+        },
+        read: async () => ({ uri: docs.uri, mimeType: docs.mimeType, text: await docs.readBody() }),
+      })
+    }
+  }
+  const bootstrap = descriptors.bootstrapResource
+  resources.set(bootstrap.uri, {
+    listing: {
+      uri: bootstrap.uri,
+      name: bootstrap.name,
+      ...(bootstrap.title !== undefined ? { title: bootstrap.title } : {}),
+      description: bootstrap.description,
+      mimeType: bootstrap.mimeType,
+    },
+    read: async extra => ({
+      uri: bootstrap.uri,
+      mimeType: bootstrap.mimeType,
+      text: JSON.stringify(await bootstrap.readPayload(extra)),
+    }),
+  })
+  const ui = descriptors.resource
+  // `prefersBorder: false` — the widget paints its own card; see
+  // `@solvapay/mcp`'s UI resource registration.
+  const uiMeta = { ui: { csp: ui.csp, prefersBorder: false } }
+  resources.set(ui.uri, {
+    listing: { uri: ui.uri, name: ui.uri, mimeType: RESOURCE_MIME_TYPE, _meta: uiMeta },
+    read: async () => ({
+      uri: ui.uri,
+      mimeType: RESOURCE_MIME_TYPE,
+      text: await ui.readHtml(),
+      _meta: uiMeta,
+    }),
+  })
+
+  // In-flight `tools/call` requests, so `notifications/cancelled` can
+  // abort them. Ids are chosen by each client, so a call is matched on
+  // its caller too and two callers reusing an id never collide.
+  const inFlight = new Set<InFlightCall>()
+
+  const methods: Record<string, MethodHandler> = {
+    initialize: async params => {
+      const requested = params.protocolVersion
+      const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(
+        requested as (typeof SUPPORTED_PROTOCOL_VERSIONS)[number],
+      )
+        ? requested
+        : SUPPORTED_PROTOCOL_VERSIONS[0]
+      return {
+        protocolVersion,
+        capabilities: {
+          tools: { listChanged: false },
+          resources: { listChanged: false },
+          ...(prompts.size > 0 ? { prompts: { listChanged: false } } : {}),
+        },
+        serverInfo,
+      }
+    },
+
+    ping: async () => ({}),
+
+    'tools/list': async () => ({ tools: [...tools.values()].map(toolListing) }),
+
+    'tools/call': async (params, context) => {
+      const name = params.name
+      const tool = typeof name === 'string' ? tools.get(name) : undefined
+      if (!tool) {
+        throw new JsonRpcError(JSON_RPC_ERROR_CODES.invalidParams, `Tool ${String(name)} not found`)
+      }
+      const parsed = z.object(tool.inputSchema).safeParse(params.arguments ?? {})
+      if (!parsed.success) {
+        return toolErrorResult(
+          new Error(`Invalid arguments for tool ${tool.name}: ${formatIssues(parsed.error)}`),
+        )
+      }
+
+      const controller = new AbortController()
+      const abort = () => controller.abort(context.signal?.reason)
+      if (context.signal?.aborted) abort()
+      else context.signal?.addEventListener('abort', abort, { once: true })
+      const call: InFlightCall = {
+        id: context.id,
+        customerRef: context.authInfo?.extra?.customer_ref,
+        sessionId: context.sessionId,
+        controller,
+      }
+      inFlight.add(call)
+
+      const extra: McpToolExtra = {
+        ...(context.authInfo ? { authInfo: context.authInfo } : {}),
+        signal: controller.signal,
+        requestId: context.id,
+        ...(params._meta !== undefined ? { _meta: params._meta } : {}),
+        sendNotification: async (notification: { method: string; params?: unknown }) => {
+          await context.sendNotification?.({
+            jsonrpc: '2.0',
+            method: notification.method,
+            ...(notification.params !== undefined
+              ? { params: notification.params as Record<string, unknown> }
+              : {}),
+          })
+        },
+      }
+      try {
+        return await tool.handler(parsed.data as Record<string, unknown>, extra)
+      } catch (error) {
+        return toolErrorResult(error)
+      } finally {
+        inFlight.delete(call)
+        context.signal?.removeEventListener('abort', abort)
+      }
+    },
+
+    'resources/list': async () => ({
+      resources: [...resources.values()].map(resource => resource.listing),
+    }),
+
+    'resources/read': async (params, context) => {
+      const resource = typeof params.uri === 'string' ? resources.get(params.uri) : undefined
+      if (!resource) {
+        throw new JsonRpcError(
+          JSON_RPC_ERROR_CODES.invalidParams,
+          `Resource ${String(params.uri)} not found`,
+        )
+      }
+      const extra: McpToolExtra = context.authInfo ? { authInfo: context.authInfo } : {}
+      return { contents: [await resource.read(extra)] }
+    },
+
+    'prompts/list': async () => ({ prompts: [...prompts.values()].map(promptListing) }),
+
+    'prompts/get': async params => {
+      const prompt = typeof params.name === 'string' ? prompts.get(params.name) : undefined
+      if (!prompt) {
+        throw new JsonRpcError(
+          JSON_RPC_ERROR_CODES.invalidParams,
+          `Prompt ${String(params.name)} not found`,
+        )
+      }
+      const parsed = z.object(prompt.argsSchema ?? {}).safeParse(params.arguments ?? {})
+      if (!parsed.success) {
+        throw new JsonRpcError(
+          JSON_RPC_ERROR_CODES.invalidParams,
+          `Invalid arguments for prompt ${prompt.name}: ${formatIssues(parsed.error)}`,
+        )
+      }
+      return prompt.handler(parsed.data as Record<string, unknown>)
+    },
+  }
+
+  const notifications: Record<
+    string,
+    (params: Record<string, unknown>, context: JsonRpcRequestContext) => void
+  > = {
+    // The call must belong to the same session and customer, so a client
+    // cannot cancel someone else's call by guessing its id.
+    'notifications/cancelled': (params, context) => {
+      const requestId = params.requestId as JsonRpcId | undefined
+      if (requestId === undefined) return
+      const customerRef = context.authInfo?.extra?.customer_ref
+      for (const call of inFlight) {
+        if (
+          call.id === requestId &&
+          call.customerRef === customerRef &&
+          call.sessionId === context.sessionId
+        ) {
+          call.controller.abort(params.reason)
+        }
+      }
+    },
+  }
+
+  const handleOne = async (
+    message: unknown,
+    context: JsonRpcRequestContext,
+  ): Promise<JsonRpcResponse | null> => {
+    try {
+      assertJsonRpcMessage(message)
+    } catch (error) {
+      const id = (message as { id?: unknown } | null)?.id
+      return errorResponse(typeof id === 'string' || typeof id === 'number' ? id : null, error)
+    }
+
+    const params = message.params ?? {}
+    if (!isJsonRpcRequest(message)) {
+      // Notifications never get a response, not even an error.
+      notifications[message.method]?.(params, context)
+      return null
+    }
+
+    const request: JsonRpcRequest = message
+    const method = Object.prototype.hasOwnProperty.call(methods, request.method)
+      ? methods[request.method]
+      : undefined
+    if (!method) {
+      return errorResponse(
+        request.id,
+        new JsonRpcError(JSON_RPC_ERROR_CODES.methodNotFound, 'Method not found'),
+      )
+    }
+    try {
+      const result = await method(params, { ...context, id: request.id })
+      return { jsonrpc: '2.0', id: request.id, result }
+    } catch (error) {
+      return errorResponse(request.id, error)
+    }
+  }
+
+  return {
+    descriptors,
+
+    registerTool(tool) {
+      tools.set(tool.name, tool)
+    },
+
+    registerPayable(name, payableOptions) {
+      tools.set(
+        name,
+        buildPayableToolDescriptor(name, {
+          solvaPay,
+          ...payableOptions,
+          product: payableOptions.product ?? productRef,
+          buildBootstrap: payableOptions.buildBootstrap ?? descriptors.buildBootstrapPayload,
+        }),
+      )
+    },
+
+    async handle(message, context = {}) {
+      if (!Array.isArray(message)) return handleOne(message, context)
+      if (message.length === 0) {
+        return errorResponse(
+          null,
+          new JsonRpcError(JSON_RPC_ERROR_CODES.invalidRequest, 'Invalid Request'),
+        )
+      }
+      const responses = await Promise.all(message.map(item => handleOne(item, context)))
+      const sent = responses.filter((response): response is JsonRpcResponse => response !== null)
+      return sent.length > 0 ? sent : null
+    },
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Newline-delimited JSON-RPC over stdio — the MCP stdio transport.
+ * Each line on `input` is one message (or batch); responses and
+ * notifications are written to `output` one per line. Requests are
+ * dispatched concurrently so `notifications/cancelled` can reach a
+ * call that is still running.
+ */
+
+import type { McpToolExtra } from '@solvapay/mcp-core'
+import { JSON_RPC_ERROR_CODES, type JsonRpcNotification, type JsonRpcResponse } from './protocol'
+import type { SolvaPayJsonRpcServer } from './server'
+
+/** Writable side of the transport — `process.stdout` fits. */
+export interface JsonRpcLineWriter {
+  write(chunk: string): unknown
+}
+
+export interface ServeSolvaPayJsonRpcStdioOptions {
+  /** Incoming bytes or text. Defaults to `process.stdin`. */
+  input?: AsyncIterable<string | Uint8Array>
+  /** Where responses are written. Defaults to `process.stdout`. */
+  output?: JsonRpcLineWriter
+  /**
+   * Caller identity for every message. A stdio server runs on behalf
+   * of one local user, so this is usually built once at startup, e.g.
+   * `{ extra: { customer_ref: process.env.SOLVAPAY_CUSTOMER_REF } }`.
+   */
+  authInfo?: McpToolExtra['authInfo']
+}
+
+type ProcessLike = {
+  stdin: AsyncIterable<string | Uint8Array>
+  stdout: JsonRpcLineWriter
+}
+
+function defaultProcess(): ProcessLike {
+  const proc = (globalThis as { process?: ProcessLike }).process
+  if (!proc) {
+    throw new Error('serveSolvaPayJsonRpcStdio: pass `input` and `output` outside Node.js')
+  }
+  return proc
+}
+
+// Tags each stdio connection so `notifications/cancelled` stays within it.
+let nextConnectionId = 0
+
+/**
+ * Serve `server` over stdio until `input` ends. Resolves once every
+ * in-flight request has been answered.
+ *
+ * @example
+ * ```ts
+ * await serveSolvaPayJsonRpcStdio(server, {
+ *   authInfo: { extra: { customer_ref: process.env.SOLVAPAY_CUSTOMER_REF } },
+ * })
+ * ```
+ */
+export async function serveSolvaPayJsonRpcStdio(
+  server: SolvaPayJsonRpcServer,
+  options: ServeSolvaPayJsonRpcStdioOptions = {},
+): Promise<void> {
+  const input = options.input ?? defaultProcess().stdin
+  const output = options.output ?? defaultProcess().stdout
+  const { authInfo } = options
+  const sessionId = `stdio-${++nextConnectionId}`
+
+  const writeLine = (message: JsonRpcResponse | JsonRpcResponse[] | JsonRpcNotification) => {
+    output.write(`${JSON.stringify(message)}\n`)
+  }
+  const sendNotification = async (notification: JsonRpcNotification) => writeLine(notification)
+
+  const pending = new Set<Promise<void>>()
+  const dispatch = (line: string) => {
+    if (line.trim() === '') return
+    let message: unknown
+    try {
+      message = JSON.parse(line)
+    } catch {
+      writeLine({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSON_RPC_ERROR_CODES.parseError, message: 'Parse error' },
+      })
+      return
+    }
+    const task = server
+      .handle(message, { ...(authInfo ? { authInfo } : {}), sessionId, sendNotification })
+      .then(response => {
+        if (response) writeLine(response)
+      })
+      .finally(() => pending.delete(task))
+    pending.add(task)
+  }
+
+  const decoder = new TextDecoder()
+  let buffered = ''
+  for await (const chunk of input) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+    let newline = buffered.indexOf('\n')
+    while (newline !== -1) {
+      dispatch(buffered.slice(0, newline))
+      buffered = buffered.slice(newline + 1)
+      newline = buffered.indexOf('\n')
+    }
+  }
+  dispatch(buffered + decoder.decode())
+
+  await Promise.all(pending)
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from 'tsup'
+
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['esm', 'cjs'],
+  dts: true,
+  tsconfig: 'tsconfig.build.json',
+  clean: true,
+  external: ['@solvapay/mcp-core', '@solvapay/server', '@solvapay/core', 'zod'],
+})
@@ -0,0 +1,170 @@
+/**
+ * Runs the shared MCP adapter conformance suite: the official-SDK
+ * server from `createSolvaPayMcpServer` is the reference, and the
+ * FastMCP and raw JSON-RPC adapters must return byte-identical tool
+ * results for the same calls.
+ */
+import { FastMCP } from 'fastmcp'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { LATEST_PROTOCOL_VERSION, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type { McpToolExtra, PayableHandler } from '@solvapay/mcp-core'
+import { registerSolvaPayFastMcp } from '@solvapay/mcp-fastmcp'
+import { createSolvaPayJsonRpcServer } from '@solvapay/mcp-jsonrpc'
+import { createSolvaPay } from '@solvapay/server'
+import {
+  describeMcpAdapterConformance,
+  type McpAdapterDriver,
+  type McpAdapterMount,
+  type McpConformanceResponse,
+} from '@solvapay/test-utils'
+import { createSolvaPayMcpServer } from '../src'
+
+type AuthInfo = NonNullable<McpToolExtra['authInfo']>
+
+const authInfoFor = (customerRef: string): AuthInfo => ({
+  token: 'conformance',
+  clientId: 'conformance',
+  scopes: [],
+  extra: { customer_ref: customerRef },
+})
+
+const descriptorOptions = (setup: McpAdapterMount) => ({
+  solvaPay: createSolvaPay({ apiClient: setup.apiClient }),
+  productRef: setup.productRef,
+  resourceUri: setup.resourceUri,
+  readHtml: setup.readHtml,
+  publicBaseUrl: setup.publicBaseUrl,
+})
+
+const payableHandler = (handler: McpAdapterMount['payableTools'][number]['handler']) =>
+  handler as unknown as PayableHandler
+
+interface Wire {
+  request(method: string, params: Record<string, unknown>): Promise<McpConformanceResponse>
+  close(): Promise<void>
+}
+
+/**
+ * Drive a server over `InMemoryTransport` with raw JSON-RPC, so
+ * results are compared as sent rather than as a client SDK parses
+ * them. `authInfo` rides along on every message.
+ */
+async function openWire(
+  connectServer: (transport: InMemoryTransport) => Promise<unknown>,
+  authInfo: AuthInfo,
+): Promise<Wire> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const pending = new Map<number, (response: McpConformanceResponse) => void>()
+  clientTransport.onmessage = (message: JSONRPCMessage) => {
+    if (!('id' in message) || 'method' in message) return
+    const resolve = pending.get(message.id as number)
+    pending.delete(message.id as number)
+    resolve?.('error' in message ? { error: message.error } : { result: message.result })
+  }
+  await clientTransport.start()
+
+  let nextId = 0
+  const request = (method: string, params: Record<string, unknown>) =>
+    new Promise<McpConformanceResponse>(resolve => {
+      const id = ++nextId
+      pending.set(id, resolve)
+      void clientTransport.send({ jsonrpc: '2.0', id, method, params }, { authInfo })
+    })
+
+  // FastMCP's `connect` waits for the client's capabilities, so
+  // `initialize` must be in flight before it resolves.
+  const connecting = connectServer(serverTransport)
+  const initialized = request('initialize', {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'conformance', version: '0.0.0' },
+  })
+  await Promise.all([connecting, initialized])
+  await clientTransport.send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+
+  return { request, close: () => clientTransport.close() }
+}
+
+/** One wire per caller, opened on first use. */
+function wireDriver(open: (authInfo: AuthInfo) => Promise<Wire>): McpAdapterDriver {
+  const wires = new Map<string, Promise<Wire>>()
+  return {
+    async request(method, params, { customerRef }) {
+      let wire = wires.get(customerRef)
+      if (!wire) {
+        wire = open(authInfoFor(customerRef))
+        wires.set(customerRef, wire)
+      }
+      return (await wire).request(method, params)
+    },
+    async close() {
+      await Promise.all([...wires.values()].map(async wire => (await wire).close()))
+    },
+  }
+}
+
+describeMcpAdapterConformance({
+  adapters: [
+    {
+      name: 'sdk',
+      mount: setup =>
+        wireDriver(authInfo =>
+          openWire(transport => {
+            const server = createSolvaPayMcpServer({
+              ...descriptorOptions(setup),
+              additionalTools: ({ registerPayable }) => {
+                for (const tool of setup.payableTools) {
+                  registerPayable(tool.name, {
+                    description: tool.description,
+                    handler: payableHandler(tool.handler),
+                  })
+                }
+              },
+            })
+            return server.connect(transport)
+          }, authInfo),
+        ),
+    },
+    {
+      name: 'fastmcp',
+      // FastMCP's strict result schema has no per-block `annotations`.
+      contentAnnotations: false,
+      mount: setup => {
+        const server = new FastMCP<AuthInfo>({ name: 'conformance', version: '1.0.0' })
+        const { registerPayable } = registerSolvaPayFastMcp(server, descriptorOptions(setup))
+        for (const tool of setup.payableTools) {
+          registerPayable(tool.name, {
+            description: tool.description,
+            handler: payableHandler(tool.handler),
+          })
+        }
+        return wireDriver(authInfo =>
+          openWire(transport => server.connect(transport, authInfo), authInfo),
+        )
+      },
+    },
+    {
+      name: 'jsonrpc',
+      mount: setup => {
+        const server = createSolvaPayJsonRpcServer(descriptorOptions(setup))
+        for (const tool of setup.payableTools) {
+          server.registerPayable(tool.name, {
+            description: tool.description,
+            handler: payableHandler(tool.handler),
+          })
+        }
+        let nextId = 0
+        return {
+          async request(method, params, { customerRef }) {
+            const response = await server.handle(
+              { jsonrpc: '2.0', id: ++nextId, method, params },
+              { authInfo: authInfoFor(customerRef) },
+            )
+            const { result, error } = response as McpConformanceResponse
+            return error ? { error } : { result }
+          },
+        }
+      },
+    },
+  ],
+})
@@ -1,4 +1,5 @@
-import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createJwksFixture, type JwksFixture } from '@solvapay/test-utils/jwks'
 import {
   getOAuthAuthorizationServerResponse,
   getOAuthProtectedResourceResponse,
@@ -787,6 +788,55 @@ describe('createMcpOAuthBridge integration', () => {
   })
 })
 
+describe('createMcpOAuthBridge bearer verification', () => {
+  let jwks: JwksFixture
+
+  beforeAll(async () => {
+    jwks = await createJwksFixture({ audience: publicBaseUrl })
+  })
+
+  afterAll(async () => {
+    await jwks.close()
+  })
+
+  function mcpCall(authorization: string) {
+    return mockReq({
+      method: 'POST',
+      path: '/mcp',
+      headers: { authorization, 'content-type': 'application/json' },
+      body: { jsonrpc: '2.0', id: 4, method: 'tools/list' },
+    })
+  }
+
+  it('attaches the verified customer to req.auth', async () => {
+    // The SolvaPay API is the issuer; the fixture stands in for it.
+    const middlewares = createMcpOAuthBridge({ publicBaseUrl, apiBaseUrl: jwks.issuer, productRef })
+    const token = await jwks.sign({ sub: 'cust_verified' })
+    const req = mcpCall(`Bearer ${token}`)
+    const { res, state } = mockRes()
+    let reachedServer = false
+
+    await runPipeline([...middlewares, () => void (reachedServer = true)], req, res, state)
+
+    expect(reachedServer).toBe(true)
+    expect((req as { auth?: { extra?: Record<string, unknown> } }).auth?.extra?.customer_ref).toBe(
+      'cust_verified',
+    )
+  })
+
+  it('rejects a token from another issuer with error="invalid_token"', async () => {
+    const middlewares = createMcpOAuthBridge({ publicBaseUrl, apiBaseUrl: jwks.issuer, productRef })
+    const token = await jwks.sign({ sub: 'cust_victim' }, { issuer: 'https://evil.example' })
+    const { res, state } = mockRes()
+
+    await runPipeline(middlewares, mcpCall(`Bearer ${token}`), res, state)
+
+    expect(state.statusCode).toBe(401)
+    expect(state.headers['www-authenticate']).toContain('error="invalid_token"')
+    expect(state.body).toMatchObject({ id: 4, error: { code: -32001 } })
+  })
+})
+
 type AnyMiddleware = (
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   req: any,
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest'
+import { MCP_SESSION_FORWARDED_HEADER, pickMcpSessionReplica } from '@solvapay/mcp-core'
+import { createMcpSessionAffinity } from '../../src/express/session-affinity'
+
+const replicas = ['http://mcp-0.internal:3000', 'http://mcp-1.internal:3000']
+const sessionId = 'sess_affinity'
+const owner = pickMcpSessionReplica(sessionId, replicas)
+const self = replicas.find(replica => replica !== owner)!
+
+function mockRes() {
+  const state = { statusCode: 200, headers: {} as Record<string, string>, body: '', ended: false }
+  const res = {
+    get statusCode() {
+      return state.statusCode
+    },
+    set statusCode(code: number) {
+      state.statusCode = code
+    },
+    setHeader(name: string, value: string) {
+      state.headers[name] = value
+    },
+    write(chunk: Uint8Array) {
+      state.body += new TextDecoder().decode(chunk)
+      return true
+    },
+    end() {
+      state.ended = true
+    },
+  }
+  return { res, state }
+}
+
+describe('createMcpSessionAffinity', () => {
+  it('forwards a session owned by another replica and pipes the response back', async () => {
+    const fetchImpl = vi.fn(
+      async () =>
+        new Response('event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n', {
+          status: 200,
+          headers: { 'content-type': 'text/event-stream', 'mcp-session-id': sessionId },
+        }),
+    )
+    const middleware = createMcpSessionAffinity({ replicas, self, fetch: fetchImpl })
+    const { res, state } = mockRes()
+    const next = vi.fn()
+
+    await middleware(
+      {
+        method: 'POST',
+        originalUrl: '/mcp?x=1',
+        headers: { 'mcp-session-id': sessionId, host: 'public.example.com' },
+        body: { jsonrpc: '2.0', id: 1, method: 'ping' },
+      },
+      res,
+      next,
+    )
+
+    expect(next).not.toHaveBeenCalled()
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [URL, RequestInit]
+    expect(String(url)).toBe(`${owner}/mcp?x=1`)
+    expect(init.body).toBe('{"jsonrpc":"2.0","id":1,"method":"ping"}')
+    const headers = init.headers as Headers
+    expect(headers.get(MCP_SESSION_FORWARDED_HEADER)).toBe(self)
+    expect(headers.has('host')).toBe(false)
+    expect(state.headers['content-type']).toBe('text/event-stream')
+    expect(state.body).toContain('"id":1')
+    expect(state.ended).toBe(true)
+  })
+
+  it('leaves new sessions, owned sessions and forwarded requests to the next handler', async () => {
+    const fetchImpl = vi.fn()
+    const next = vi.fn()
+    const { res } = mockRes()
+
+    await createMcpSessionAffinity({ replicas, self, fetch: fetchImpl })(
+      { method: 'POST', headers: {} },
+      res,
+      next,
+    )
+    await createMcpSessionAffinity({ replicas, self: owner, fetch: fetchImpl })(
+      { method: 'POST', headers: { 'mcp-session-id': sessionId } },
+      res,
+      next,
+    )
+    await createMcpSessionAffinity({ replicas, self, fetch: fetchImpl })(
+      {
+        method: 'POST',
+        headers: { 'mcp-session-id': sessionId, [MCP_SESSION_FORWARDED_HEADER]: owner },
+      },
+      res,
+      next,
+    )
+
+    expect(next).toHaveBeenCalledTimes(3)
+    expect(fetchImpl).not.toHaveBeenCalled()
+  })
+})
@@ -321,6 +321,52 @@ describe('createSolvaPayMcpFetch', () => {
     expect(typeof ctx.solvaPay).toBe('object')
   })
 
+  it("concurrency: 'per-request' serves tools/list while a slow tool call is running", async () => {
+    let finishSlowCall!: () => void
+    const slowCallDone = new Promise<void>(resolve => {
+      finishSlowCall = resolve
+    })
+    const additional = vi.fn(({ server }) => {
+      server.registerTool('slow_render', { description: 'Slow render' }, async () => {
+        await slowCallDone
+        return { content: [{ type: 'text' as const, text: 'rendered' }] }
+      })
+    })
+    const handler = buildHandler({
+      concurrency: 'per-request',
+      additionalTools: additional,
+      hideToolsByAudience: ['ui'],
+    })
+
+    const slowCall = callRpc<ToolCallResult>(handler, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'slow_render', arguments: {} },
+    })
+    // Resolves while `slow_render` is still waiting — it would queue
+    // behind it on a single shared server.
+    const list = await callRpc<ToolsListResult>(handler, {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/list',
+    })
+
+    const names = list.json.result?.tools?.map(t => t.name) ?? []
+    expect(names).toContain('slow_render')
+    for (const uiTool of UI_TOOLS) {
+      expect(names).not.toContain(uiTool)
+    }
+    expect(additional).toHaveBeenCalledTimes(2)
+
+    finishSlowCall()
+    expect((await slowCall).json.result?.content[0]?.text).toBe('rendered')
+
+    // Both servers are back in the pool; the next request reuses one.
+    await callRpc(handler, { jsonrpc: '2.0', id: 3, method: 'tools/list' })
+    expect(additional).toHaveBeenCalledTimes(2)
+  })
+
   it('registerPrompts: false skips slash-command prompt registration', async () => {
     const handler = buildHandler({ registerPrompts: false })
     await initialize(handler)
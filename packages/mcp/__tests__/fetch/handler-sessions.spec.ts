@@ -0,0 +1,216 @@
+/**
+ * End-to-end coverage for `createSolvaPayMcpFetchHandler({ sessionStore })`
+ * in `'sse-stateful'` mode: two handlers sharing one store stand in for
+ * two replicas. A session initialized on one is served by the other, a
+ * stream the client drops is replayed from `Last-Event-ID`, and
+ * `sessionAffinity` forwards a session's requests to its owner.
+ */
+import { describe, expect, it, vi } from 'vitest'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { createMemoryMcpSessionStore, pickMcpSessionReplica } from '@solvapay/mcp-core'
+import type { McpSessionStore } from '@solvapay/mcp-core'
+import { createSolvaPayMcpFetchHandler } from '../../src/fetch/handler'
+
+const publicBaseUrl = 'https://mcp.example.com'
+const protocolVersion = '2025-06-18'
+
+/**
+ * `started` resolves once `render` has sent its progress notification;
+ * `finish()` lets it return its result.
+ */
+function createGate() {
+  let start!: () => void
+  let finish!: () => void
+  const started = new Promise<void>(resolve => {
+    start = resolve
+  })
+  const wait = new Promise<void>(resolve => {
+    finish = resolve
+  })
+  return { started, finish, wait, start }
+}
+
+function buildReplica(
+  sessionStore: McpSessionStore,
+  gate = createGate(),
+  extra: Partial<Parameters<typeof createSolvaPayMcpFetchHandler>[0]> = {},
+) {
+  const handler = createSolvaPayMcpFetchHandler({
+    createServer: () => {
+      const server = new McpServer({ name: 'test-sessions', version: '0.0.0' })
+      server.registerTool('ping_tool', { description: 'Quick' }, async () => ({
+        content: [{ type: 'text' as const, text: 'pong' }],
+      }))
+      server.registerTool('render', { description: 'Slow render' }, async extra => {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken: extra._meta!.progressToken!, progress: 50, total: 100 },
+        })
+        gate.start()
+        await gate.wait
+        return { content: [{ type: 'text' as const, text: 'rendered' }] }
+      })
+      return server
+    },
+    publicBaseUrl,
+    apiBaseUrl: 'https://api.solvapay.com',
+    productRef: 'prd_test_sessions',
+    requireAuth: false,
+    sessionStore,
+    ...extra,
+  })
+  return { handler, gate }
+}
+
+function mcpRequest(init: { method?: string; body?: unknown; headers?: Record<string, string> }) {
+  return new Request(`${publicBaseUrl}/mcp`, {
+    method: init.method ?? 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      'mcp-protocol-version': protocolVersion,
+      ...init.headers,
+    },
+    ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+  })
+}
+
+function parseSse(text: string): Array<{ id?: string; data: Record<string, unknown> }> {
+  return text
+    .split('\n\n')
+    .filter(block => block.includes('data: '))
+    .map(block => {
+      const lines = block.split('\n')
+      const id = lines.find(line => line.startsWith('id: '))?.slice('id: '.length)
+      const data = lines.find(line => line.startsWith('data: '))!.slice('data: '.length)
+      return { ...(id ? { id } : {}), data: JSON.parse(data) as Record<string, unknown> }
+    })
+}
+
+async function initialize(handler: (req: Request) => Promise<Response>): Promise<string> {
+  const res = await handler(
+    mcpRequest({
+      body: {
+        jsonrpc: '2.0',
+        id: 0,
+        method: 'initialize',
+        params: { protocolVersion, capabilities: {}, clientInfo: { name: 'test', version: '0' } },
+      },
+    }),
+  )
+  expect(res.status).toBe(200)
+  await res.text()
+  return res.headers.get('mcp-session-id')!
+}
+
+function callTool(sessionId: string, id: number, name: string) {
+  return mcpRequest({
+    headers: { 'mcp-session-id': sessionId },
+    body: {
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name, arguments: {}, _meta: { progressToken: `tok_${id}` } },
+    },
+  })
+}
+
+describe('createSolvaPayMcpFetchHandler — shared session store', () => {
+  it('serves a session initialized on one replica from another', async () => {
+    const sessionStore = createMemoryMcpSessionStore()
+    const a = buildReplica(sessionStore)
+    const b = buildReplica(sessionStore)
+
+    const sessionId = await initialize(a.handler)
+    expect(sessionId).toMatch(/^[0-9a-f-]{36}$/)
+
+    const res = await b.handler(callTool(sessionId, 1, 'ping_tool'))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('mcp-session-id')).toBe(sessionId)
+    expect(parseSse(await res.text())).toMatchObject([
+      { data: { id: 1, result: { content: [{ type: 'text', text: 'pong' }] } } },
+    ])
+  })
+
+  it('rejects requests without a session or with an unknown one', async () => {
+    const { handler } = buildReplica(createMemoryMcpSessionStore())
+
+    const missing = await handler(mcpRequest({ body: { jsonrpc: '2.0', id: 1, method: 'ping' } }))
+    expect(missing.status).toBe(400)
+
+    const unknown = await handler(callTool('sess_unknown', 2, 'ping_tool'))
+    expect(unknown.status).toBe(404)
+    expect(await unknown.json()).toMatchObject({ error: { code: -32001 } })
+  })
+
+  it('ends a session on DELETE', async () => {
+    const sessionStore = createMemoryMcpSessionStore()
+    const { handler } = buildReplica(sessionStore)
+    const sessionId = await initialize(handler)
+
+    const res = await handler(
+      mcpRequest({ method: 'DELETE', headers: { 'mcp-session-id': sessionId } }),
+    )
+
+    expect(res.status).toBe(200)
+    expect(await sessionStore.getSession(sessionId)).toBeUndefined()
+    expect((await handler(callTool(sessionId, 3, 'ping_tool'))).status).toBe(404)
+  })
+
+  it('keeps a dropped stream running and replays it from Last-Event-ID on another replica', async () => {
+    const sessionStore = createMemoryMcpSessionStore()
+    const a = buildReplica(sessionStore)
+    const b = buildReplica(sessionStore)
+    const sessionId = await initialize(a.handler)
+
+    const call = await a.handler(callTool(sessionId, 4, 'render'))
+    await a.gate.started
+    // Read the progress event, then drop the connection mid-call.
+    const reader = call.body!.getReader()
+    const [progress] = parseSse(new TextDecoder().decode((await reader.read()).value))
+    expect(progress).toMatchObject({ data: { method: 'notifications/progress' } })
+    await reader.cancel()
+
+    a.gate.finish()
+    const resume = () =>
+      b.handler(
+        mcpRequest({
+          method: 'GET',
+          headers: { 'mcp-session-id': sessionId, 'last-event-id': progress!.id! },
+        }),
+      )
+    await vi.waitFor(async () => {
+      const replay = await resume()
+      expect(replay.headers.get('content-type')).toBe('text/event-stream')
+      const text = await replay.text()
+      expect(text).toMatch(/^retry: 1000\n\n/)
+      expect(parseSse(text)).toMatchObject([
+        { data: { id: 4, result: { content: [{ type: 'text', text: 'rendered' }] } } },
+      ])
+    })
+  })
+
+  it('forwards a session to its owner with sessionAffinity', async () => {
+    const sessionStore = createMemoryMcpSessionStore()
+    const replicas = ['http://replica-a', 'http://replica-b']
+    const owner = buildReplica(sessionStore)
+    const sessionId = await initialize(owner.handler)
+    const ownerUrl = pickMcpSessionReplica(sessionId, replicas)
+    const forward = vi.fn((input: RequestInfo | URL, init?: RequestInit) =>
+      owner.handler(new Request(input, init)),
+    )
+    const other = buildReplica(sessionStore, undefined, {
+      sessionAffinity: {
+        replicas,
+        self: replicas.find(replica => replica !== ownerUrl)!,
+        fetch: forward as typeof fetch,
+      },
+    })
+
+    const res = await other.handler(callTool(sessionId, 5, 'ping_tool'))
+
+    expect(forward).toHaveBeenCalledTimes(1)
+    expect(String(forward.mock.calls[0]![0])).toBe(`${ownerUrl}/mcp`)
+    expect(parseSse(await res.text())).toMatchObject([{ data: { id: 5 } }])
+  })
+})
@@ -8,9 +8,10 @@
  * → tools/list → tools/call, plus a concurrency check to guard against
  * "Already connected to a transport" re-entry bugs).
  */
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import { z } from 'zod'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'
 import { createSolvaPayMcpFetchHandler } from '../../src/fetch/handler'
 
 const publicBaseUrl = 'https://mcp.example.com'
@@ -249,4 +250,45 @@ describe('createSolvaPayMcpFetchHandler — mode: json-stateless', () => {
       expect(r.json.result?.tools?.map(t => t.name)).toContain('echo')
     }
   })
+
+  it('with createServer, drops a pooled server whose transport failed to close', async () => {
+    const createServer = vi.fn(buildEchoServer)
+    let failClose = false
+    const handler = createSolvaPayMcpFetchHandler({
+      createServer,
+      buildTransport: () => {
+        const transport = new WebStandardStreamableHTTPServerTransport({
+          sessionIdGenerator: undefined,
+          enableJsonResponse: true,
+        })
+        const close = transport.close.bind(transport)
+        transport.close = async () => {
+          await close()
+          if (failClose) throw new Error('teardown failed')
+        }
+        return transport
+      },
+      publicBaseUrl,
+      apiBaseUrl,
+      productRef,
+      mode: 'json-stateless',
+      requireAuth: false,
+    })
+    const listTools = (id: number) =>
+      callRpc<ToolsListResult>(handler, { jsonrpc: '2.0', id, method: 'tools/list' })
+
+    // A clean close returns the server to the pool for the next request.
+    await listTools(1)
+    await listTools(2)
+    expect(createServer).toHaveBeenCalledTimes(1)
+
+    failClose = true
+    const failed = await listTools(3)
+    expect(failed.json.result?.tools?.map(t => t.name)).toContain('echo')
+    failClose = false
+
+    const next = await listTools(4)
+    expect(next.json.error).toBeUndefined()
+    expect(createServer).toHaveBeenCalledTimes(2)
+  })
 })
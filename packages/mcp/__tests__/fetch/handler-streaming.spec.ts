@@ -0,0 +1,178 @@
+/**
+ * End-to-end coverage for tool calls that stream over SSE through
+ * `createSolvaPayMcpFetchHandler({ mode: 'sse-stateless' })`: progress
+ * notifications reach the client before the result, and a
+ * `notifications/cancelled` sent mid-call aborts the running tool
+ * instead of queueing behind it.
+ */
+import { describe, expect, it } from 'vitest'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import { createSolvaPayMcpFetchHandler } from '../../src/fetch/handler'
+
+const publicBaseUrl = 'https://mcp.example.com'
+
+function buildHandler(server: McpServer | (() => McpServer)): (req: Request) => Promise<Response> {
+  return createSolvaPayMcpFetchHandler({
+    ...(typeof server === 'function' ? { createServer: server } : { server }),
+    publicBaseUrl,
+    apiBaseUrl: 'https://api.solvapay.com',
+    productRef: 'prd_test_streaming',
+    mode: 'sse-stateless',
+    requireAuth: false,
+  })
+}
+
+function rpcRequest(body: unknown): Request {
+  return new Request(`${publicBaseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      'mcp-protocol-version': '2025-06-18',
+    },
+    body: JSON.stringify(body),
+  })
+}
+
+/** JSON-RPC messages carried by an SSE body, in order. */
+async function readSseMessages(res: Response): Promise<Array<Record<string, unknown>>> {
+  const text = await res.text()
+  return text
+    .split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => JSON.parse(line.slice('data: '.length)) as Record<string, unknown>)
+}
+
+function callTool(id: number, name: string, progressToken?: string) {
+  return {
+    jsonrpc: '2.0',
+    id,
+    method: 'tools/call',
+    params: { name, arguments: {}, ...(progressToken ? { _meta: { progressToken } } : {}) },
+  }
+}
+
+describe('createSolvaPayMcpFetchHandler — streaming tool calls', () => {
+  it('keeps the SSE stream open until the result, after progress notifications', async () => {
+    const server = new McpServer({ name: 'test-streaming', version: '0.0.0' })
+    // Tools without an input schema receive `extra` as their only argument.
+    server.registerTool('render', { description: 'Slow render' }, async extra => {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken: extra._meta!.progressToken!, progress: 50, total: 100 },
+      })
+      await new Promise(resolve => setTimeout(resolve, 20))
+      return { content: [{ type: 'text' as const, text: 'done' }] }
+    })
+    const handler = buildHandler(server)
+
+    const res = await handler(rpcRequest(callTool(1, 'render', 'tok_render')))
+
+    expect(res.headers.get('content-type')).toContain('text/event-stream')
+    const messages = await readSseMessages(res)
+    expect(messages.map(message => message.method ?? 'result')).toEqual([
+      'notifications/progress',
+      'result',
+    ])
+    expect(messages[1]).toMatchObject({
+      id: 1,
+      result: { content: [{ type: 'text', text: 'done' }] },
+    })
+  })
+
+  it('aborts the running tool on notifications/cancelled and frees the server', async () => {
+    const server = new McpServer({ name: 'test-streaming', version: '0.0.0' })
+    let aborted = false
+    let started!: () => void
+    const running = new Promise<void>(resolve => {
+      started = resolve
+    })
+    server.registerTool('generate', { description: 'Long generation' }, async extra => {
+      started()
+      await new Promise<void>(resolve =>
+        extra.signal.addEventListener('abort', () => {
+          aborted = true
+          resolve()
+        }),
+      )
+      return { content: [{ type: 'text' as const, text: 'too late' }] }
+    })
+    server.registerTool('ping_tool', { description: 'Quick' }, async () => ({
+      content: [{ type: 'text' as const, text: 'pong' }],
+    }))
+    const handler = buildHandler(server)
+
+    const call = await handler(rpcRequest(callTool(7, 'generate')))
+    await running
+    const cancel = await handler(
+      rpcRequest({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: 7, reason: 'User stopped' },
+      }),
+    )
+
+    expect(cancel.status).toBe(202)
+    expect(aborted).toBe(true)
+    // No response is sent for a cancelled request; the stream just ends.
+    await expect(readSseMessages(call)).resolves.toEqual([])
+
+    const next = await handler(rpcRequest(callTool(8, 'ping_tool')))
+    await expect(readSseMessages(next)).resolves.toMatchObject([
+      { id: 8, result: { content: [{ type: 'text', text: 'pong' }] } },
+    ])
+  })
+
+  it('with createServer, cancels only the named call while others keep streaming', async () => {
+    const aborted: string[] = []
+    const started: Record<string, () => void> = {}
+    const finished: Record<string, () => void> = {}
+    const signal = (hooks: Record<string, () => void>, label: string) =>
+      new Promise<void>(resolve => {
+        hooks[label] = resolve
+      })
+    const running = [signal(started, 'first'), signal(started, 'second')]
+    const done = [signal(finished, 'first'), signal(finished, 'second')]
+    const buildServer = () => {
+      const server = new McpServer({ name: 'test-streaming', version: '0.0.0' })
+      server.registerTool(
+        'generate',
+        { description: 'Long generation', inputSchema: { label: z.string() } },
+        async ({ label }, extra) => {
+          started[label]!()
+          await new Promise(resolve => setTimeout(resolve, 50))
+          if (extra.signal.aborted) aborted.push(label)
+          finished[label]!()
+          return { content: [{ type: 'text' as const, text: `done ${label}` }] }
+        },
+      )
+      return server
+    }
+    const handler = buildHandler(buildServer)
+    const call = (id: number, label: string) =>
+      handler(
+        rpcRequest({
+          jsonrpc: '2.0',
+          id,
+          method: 'tools/call',
+          params: { name: 'generate', arguments: { label } },
+        }),
+      )
+
+    // Both run at once on servers of their own.
+    const [first, second] = await Promise.all([call(1, 'first'), call(2, 'second')])
+    await Promise.all(running)
+    const cancel = await handler(
+      rpcRequest({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 2 } }),
+    )
+
+    expect(cancel.status).toBe(202)
+    await expect(readSseMessages(second)).resolves.toEqual([])
+    await expect(readSseMessages(first)).resolves.toMatchObject([
+      { id: 1, result: { content: [{ type: 'text', text: 'done first' }] } },
+    ])
+    await Promise.all(done)
+    expect(aborted).toEqual(['second'])
+  })
+})
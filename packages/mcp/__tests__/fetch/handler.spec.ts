@@ -1,4 +1,5 @@
-import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createJwksFixture, type JwksFixture } from '@solvapay/test-utils/jwks'
 import { createSolvaPayMcpFetchHandler } from '../../src/fetch/handler'
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 
@@ -35,7 +36,18 @@ function mockServer(): McpServer {
   } as unknown as McpServer
 }
 
+// Captured before the per-test stub so JWKS lookups can reach the fixture.
+const realFetch = globalThis.fetch
+
 describe('createSolvaPayMcpFetchHandler', () => {
+  let jwks: JwksFixture
+
+  beforeAll(async () => {
+    jwks = await createJwksFixture({ audience: publicBaseUrl })
+  })
+  afterAll(async () => {
+    await jwks.close()
+  })
   beforeEach(() => {
     vi.stubGlobal('fetch', vi.fn())
   })
@@ -96,17 +108,16 @@ describe('createSolvaPayMcpFetchHandler', () => {
   })
 
   it('forwards authenticated requests to the transport', async () => {
+    vi.stubGlobal('fetch', realFetch)
     const server = mockServer()
+    // The SolvaPay API is the issuer; the fixture stands in for it.
     const handler = createSolvaPayMcpFetchHandler({
       server,
       publicBaseUrl,
-      apiBaseUrl,
+      apiBaseUrl: jwks.issuer,
       productRef,
     })
-    const jwt =
-      'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.' +
-      Buffer.from(JSON.stringify({ sub: 'cust_1', exp: 9_999_999_999 })).toString('base64url') +
-      '.sig'
+    const jwt = await jwks.sign({ sub: 'cust_1' })
 
     const res = await handler(
       new Request(`${publicBaseUrl}/mcp`, {
@@ -126,6 +137,38 @@ describe('createSolvaPayMcpFetchHandler', () => {
     expect(typeof body.result.sid).toBe('string')
   })
 
+  it('rejects a token that fails verification with error="invalid_token"', async () => {
+    vi.stubGlobal('fetch', realFetch)
+    const server = mockServer()
+    const handler = createSolvaPayMcpFetchHandler({
+      server,
+      publicBaseUrl,
+      apiBaseUrl: jwks.issuer,
+      productRef,
+    })
+    // Well-formed but not signed by the issuer, claiming another customer.
+    const forged =
+      'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.' +
+      Buffer.from(JSON.stringify({ sub: 'cust_victim', exp: 9_999_999_999 })).toString(
+        'base64url',
+      ) +
+      '.sig'
+
+    const res = await handler(
+      new Request(`${publicBaseUrl}/mcp`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', authorization: `Bearer ${forged}` },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'ping' }),
+      }),
+    )
+
+    expect(res.status).toBe(401)
+    expect(res.headers.get('www-authenticate')).toMatch(
+      /^Bearer resource_metadata="[^"]+", error="invalid_token", error_description="/,
+    )
+    expect(server.connect).not.toHaveBeenCalled()
+  })
+
   it('skips auth when requireAuth=false and no Authorization header is present', async () => {
     const handler = createSolvaPayMcpFetchHandler({
       server: mockServer(),
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest'
+import { MCP_SESSION_FORWARDED_HEADER, pickMcpSessionReplica } from '@solvapay/mcp-core'
+import { withMcpSessionAffinity } from '../../src/fetch/session-affinity'
+
+const replicas = ['http://mcp-0.internal:3000', 'http://mcp-1.internal:3000']
+const sessionId = 'sess_affinity'
+const owner = pickMcpSessionReplica(sessionId, replicas)
+const self = replicas.find(replica => replica !== owner)!
+
+describe('withMcpSessionAffinity', () => {
+  it('forwards a session owned by another replica without its framing headers', async () => {
+    const fetchImpl = vi.fn(
+      async () =>
+        new Response('{"jsonrpc":"2.0","id":1,"result":{}}', {
+          status: 200,
+          headers: {
+            'content-type': 'application/json',
+            // `fetch` has already decoded the body, so these no longer hold.
+            'content-encoding': 'gzip',
+            'content-length': '12',
+            'mcp-session-id': sessionId,
+          },
+        }),
+    )
+    const handler = vi.fn()
+    const body = '{"jsonrpc":"2.0","id":1,"method":"ping"}'
+
+    const res = await withMcpSessionAffinity(handler, { replicas, self, fetch: fetchImpl })(
+      new Request('https://public.example.com/mcp?x=1', {
+        method: 'POST',
+        headers: {
+          'mcp-session-id': sessionId,
+          'content-type': 'application/json',
+          'content-length': String(body.length),
+        },
+        body,
+      }),
+    )
+
+    expect(handler).not.toHaveBeenCalled()
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [URL, RequestInit]
+    expect(String(url)).toBe(`${owner}/mcp?x=1`)
+    expect(new TextDecoder().decode(init.body as ArrayBuffer)).toBe(body)
+    const headers = init.headers as Headers
+    expect(headers.get(MCP_SESSION_FORWARDED_HEADER)).toBe(self)
+    expect(headers.has('host')).toBe(false)
+    expect(headers.has('content-length')).toBe(false)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('application/json')
+    expect(res.headers.get('mcp-session-id')).toBe(sessionId)
+    expect(res.headers.has('content-encoding')).toBe(false)
+    expect(res.headers.has('content-length')).toBe(false)
+    expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} })
+  })
+
+  it('serves new sessions, owned sessions and forwarded requests locally', async () => {
+    const fetchImpl = vi.fn()
+    const handler = vi.fn(async () => new Response(null, { status: 202 }))
+    const request = (headers: Record<string, string>) =>
+      new Request('https://public.example.com/mcp', { method: 'POST', headers })
+
+    await withMcpSessionAffinity(handler, { replicas, self, fetch: fetchImpl })(request({}))
+    await withMcpSessionAffinity(handler, { replicas, self: owner, fetch: fetchImpl })(
+      request({ 'mcp-session-id': sessionId }),
+    )
+    await withMcpSessionAffinity(handler, { replicas, self, fetch: fetchImpl })(
+      request({ 'mcp-session-id': sessionId, [MCP_SESSION_FORWARDED_HEADER]: owner }),
+    )
+
+    expect(handler).toHaveBeenCalledTimes(3)
+    expect(fetchImpl).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Throughput of `createSolvaPayMcpFetchHandler` under concurrent load:
+ * one shared server (requests take turns behind the mutex) against
+ * `createServer` (each request on a pooled server of its own).
+ *
+ * Every iteration fires a burst of `tools/call` requests to a tool that
+ * waits on a simulated 20 ms upstream call, interleaved with
+ * `tools/list` requests from other users. Run with `pnpm bench`.
+ */
+import { bench, describe } from 'vitest'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { createSolvaPayMcpFetchHandler } from '../src/fetch/handler'
+
+const publicBaseUrl = 'https://mcp.example.com'
+const BURST = 20
+const UPSTREAM_LATENCY_MS = 20
+
+function buildServer(): McpServer {
+  const server = new McpServer({ name: 'bench', version: '0.0.0' })
+  server.registerTool('generate', { description: 'Paid generation' }, async () => {
+    await new Promise(resolve => setTimeout(resolve, UPSTREAM_LATENCY_MS))
+    return { content: [{ type: 'text' as const, text: 'done' }] }
+  })
+  return server
+}
+
+function buildHandler(concurrent: boolean): (req: Request) => Promise<Response> {
+  return createSolvaPayMcpFetchHandler({
+    ...(concurrent ? { createServer: buildServer } : { server: buildServer() }),
+    publicBaseUrl,
+    apiBaseUrl: 'https://api.solvapay.com',
+    productRef: 'prd_bench',
+    mode: 'json-stateless',
+    requireAuth: false,
+  })
+}
+
+function rpc(id: number, method: string, params?: unknown): Request {
+  return new Request(`${publicBaseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id, method, ...(params ? { params } : {}) }),
+  })
+}
+
+async function burst(handler: (req: Request) => Promise<Response>): Promise<void> {
+  const requests = Array.from({ length: BURST }, (_, i) =>
+    i % 2 === 0 ? rpc(i, 'tools/call', { name: 'generate', arguments: {} }) : rpc(i, 'tools/list'),
+  )
+  const responses = await Promise.all(requests.map(handler))
+  await Promise.all(responses.map(res => res.text()))
+}
+
+describe(`${BURST} concurrent requests, half of them ${UPSTREAM_LATENCY_MS} ms tool calls`, () => {
+  const serial = buildHandler(false)
+  const pooled = buildHandler(true)
+
+  bench('shared server (serialised)', () => burst(serial), { time: 2000 })
+  bench('createServer (per-request, pooled)', () => burst(pooled), { time: 2000 })
+})
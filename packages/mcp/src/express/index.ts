@@ -42,6 +42,8 @@ export {
   createOAuthRevokeHandler,
   createOAuthTokenHandler,
 } from './oauth-bridge'
+export { createMcpSessionAffinity } from './session-affinity'
+export type { McpSessionAffinityMiddlewareOptions } from './session-affinity'
 export type {
   McpOAuthBridgeOptions,
   OAuthAuthorizeHandlerOptions,
@@ -56,15 +58,21 @@ export {
   getOAuthAuthorizationServerResponse,
   getOAuthProtectedResourceResponse,
   buildAuthInfoFromBearer,
+  verifyBearerToken,
   McpBearerAuthError,
   decodeJwtPayload,
   extractBearerToken,
   getCustomerRefFromBearerAuthHeader,
   getCustomerRefFromJwtPayload,
+  createMemoryMcpSessionStore,
+  createRedisMcpSessionStore,
 } from '@solvapay/mcp-core'
 export type {
   BuildAuthInfoFromBearerOptions,
   McpBearerCustomerRefOptions,
+  McpBearerVerificationOptions,
+  McpSessionAffinityOptions,
+  McpSessionStore,
   OAuthAuthorizationServerOptions,
   OAuthBridgePaths,
 } from '@solvapay/mcp-core'
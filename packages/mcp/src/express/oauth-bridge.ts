@@ -12,12 +12,14 @@ import {
   buildAuthInfoFromBearer,
   getOAuthAuthorizationServerResponse,
   getOAuthProtectedResourceResponse,
+  buildBearerChallenge,
   McpBearerAuthError,
   resolveOAuthPaths,
   withoutTrailingSlash,
   type BuildAuthInfoFromBearerOptions,
   type OAuthBridgePaths,
 } from '@solvapay/mcp-core'
+import { resolveBearerAuthOptions } from '../internal/bearer-auth'
 import { toOAuthErrorBody } from '../internal/oauth-error-normalize'
 
 type JsonRpcId = string | number | null
@@ -69,6 +71,12 @@ export interface McpOAuthBridgeOptions {
   productRef: string
   mcpPath?: string
   requireAuth?: boolean
+  /**
+   * Bearer-token handling. Tokens are verified against the JWKS and
+   * issuer named in `apiBaseUrl`'s authorization server metadata, with
+   * `aud` = `publicBaseUrl` or the MCP endpoint, unless `authInfo.verify`
+   * overrides it.
+   */
   authInfo?: BuildAuthInfoFromBearerOptions
   protectedResourcePath?: string
   authorizationServerPath?: string
@@ -117,10 +125,11 @@ function setMcpChallengeHeader(
   res: ResponseLike,
   publicBaseUrl: string,
   protectedResourcePath: string,
+  error?: unknown,
 ) {
   res.setHeader(
     'WWW-Authenticate',
-    `Bearer resource_metadata="${withoutTrailingSlash(publicBaseUrl)}${protectedResourcePath}"`,
+    buildBearerChallenge(`${withoutTrailingSlash(publicBaseUrl)}${protectedResourcePath}`, error),
   )
 }
 
@@ -467,7 +476,9 @@ export function createMcpOAuthBridge(options: McpOAuthBridgeOptions): Middleware
   const tokenMiddleware = createOAuthTokenHandler({ apiBaseUrl, path: paths.token })
   const revokeMiddleware = createOAuthRevokeHandler({ apiBaseUrl, path: paths.revoke })
 
-  const mcpAuthMiddleware: Middleware = (req, res, next) => {
+  const bearerAuth = resolveBearerAuthOptions({ authInfo, publicBaseUrl, apiBaseUrl, mcpPath })
+
+  const mcpAuthMiddleware: Middleware = async (req, res, next) => {
     if (req.path !== mcpPath) {
       next()
       return
@@ -497,17 +508,16 @@ export function createMcpOAuthBridge(options: McpOAuthBridgeOptions): Middleware
     }
 
     try {
-      const auth = buildAuthInfoFromBearer(authHeader, authInfo)
+      const auth = await buildAuthInfoFromBearer(authHeader, bearerAuth)
       if (!auth) {
         throw new McpBearerAuthError('Missing bearer token')
       }
 
       req.auth = auth
-      next()
-    } catch {
+    } catch (error) {
       applyCorsHeaders(req, res)
       res.setHeader('Access-Control-Expose-Headers', 'WWW-Authenticate')
-      setMcpChallengeHeader(res, publicBaseUrl, protectedResourcePath)
+      setMcpChallengeHeader(res, publicBaseUrl, protectedResourcePath, error)
 
       if (req.method === 'POST') {
         res.status(401).json(makeUnauthorizedJsonRpc(id))
@@ -515,7 +525,11 @@ export function createMcpOAuthBridge(options: McpOAuthBridgeOptions): Middleware
       }
 
       res.status(401).json({ error: 'Unauthorized' })
+      return
     }
+
+    // Outside the try so errors thrown downstream are not answered as a 401.
+    next()
   }
 
   return [
@@ -0,0 +1,127 @@
+/**
+ * Node `(req, res, next)` sticky routing for stateful MCP sessions —
+ * the Express counterpart of `withMcpSessionAffinity` from
+ * `@solvapay/mcp/fetch`. Requests for a session owned by another
+ * replica are forwarded there and the response (SSE streams included)
+ * is piped back; everything else falls through to `next()`.
+ */
+
+import {
+  MCP_SESSION_FORWARDED_HEADER,
+  resolveMcpSessionReplica,
+  type McpSessionAffinityOptions,
+} from '@solvapay/mcp-core'
+
+type RequestLike = {
+  method?: string
+  originalUrl?: string
+  url?: string
+  headers?: Record<string, string | string[] | undefined>
+  body?: unknown
+  [Symbol.asyncIterator]?: () => AsyncIterator<unknown>
+}
+
+type ResponseLike = {
+  statusCode: number
+  setHeader: (name: string, value: string) => void
+  flushHeaders?: () => void
+  write: (chunk: Uint8Array) => boolean
+  end: () => void
+  on?: (event: 'close', listener: () => void) => void
+}
+
+type NextLike = (error?: unknown) => void
+
+export interface McpSessionAffinityMiddlewareOptions extends McpSessionAffinityOptions {
+  /** Custom fetch used to forward requests (default: `globalThis.fetch`). */
+  fetch?: typeof fetch
+}
+
+/** Hop-by-hop and length headers the forwarding fetch sets itself. */
+const SKIPPED_HEADERS = new Set(['host', 'connection', 'content-length', 'transfer-encoding'])
+
+/**
+ * The request body to forward: whatever `express.json()` /
+ * `express.text()` / `express.raw()` already parsed, else the raw
+ * stream. MCP bodies are JSON, so text is all that is ever forwarded.
+ */
+async function readBody(req: RequestLike): Promise<string | undefined> {
+  if (req.method === 'GET' || req.method === 'HEAD') return undefined
+  if (typeof req.body === 'string') return req.body
+  if (req.body instanceof Uint8Array) return new TextDecoder().decode(req.body)
+  if (req.body !== undefined) return JSON.stringify(req.body)
+  if (!req[Symbol.asyncIterator]) return undefined
+  const decoder = new TextDecoder()
+  let text = ''
+  for await (const chunk of req as AsyncIterable<Uint8Array | string>) {
+    text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+/**
+ * Express middleware keeping each `mcp-session-id` on one replica.
+ * Mount it before the MCP route (and before `express.json()` or after
+ * it — both work). Pair with a shared `sessionStore` so the owning
+ * replica can serve sessions initialized elsewhere.
+ *
+ * @example
+ * ```ts
+ * app.use(
+ *   createMcpSessionAffinity({
+ *     replicas: ['http://mcp-0.internal:3000', 'http://mcp-1.internal:3000'],
+ *     self: process.env.SELF_URL!,
+ *   }),
+ * )
+ * ```
+ */
+export function createMcpSessionAffinity(options: McpSessionAffinityMiddlewareOptions) {
+  return async (req: RequestLike, res: ResponseLike, next: NextLike): Promise<void> => {
+    const replica = resolveMcpSessionReplica(req.headers ?? {}, options)
+    if (!replica) {
+      next()
+      return
+    }
+
+    let upstream: Response
+    try {
+      const headers = new Headers()
+      for (const [name, value] of Object.entries(req.headers ?? {})) {
+        if (value === undefined || SKIPPED_HEADERS.has(name)) continue
+        for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item)
+      }
+      headers.set(MCP_SESSION_FORWARDED_HEADER, options.self)
+      upstream = await (options.fetch ?? fetch)(
+        new URL(req.originalUrl ?? req.url ?? '/', replica),
+        { method: req.method, headers, body: await readBody(req) },
+      )
+    } catch (error) {
+      next(error)
+      return
+    }
+
+    res.statusCode = upstream.status
+    upstream.headers.forEach((value, name) => {
+      if (!SKIPPED_HEADERS.has(name) && name !== 'content-encoding') res.setHeader(name, value)
+    })
+    if (!upstream.body) {
+      res.end()
+      return
+    }
+    res.flushHeaders?.()
+    const reader = upstream.body.getReader()
+    res.on?.('close', () => {
+      reader.cancel().catch(() => {})
+    })
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        res.write(value)
+      }
+    } catch {
+      // The client or the owning replica went away mid-stream.
+    }
+    res.end()
+  }
+}
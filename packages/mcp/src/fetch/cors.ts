@@ -9,7 +9,7 @@
  * safer than a bare `*`.
  */
 
-import { withoutTrailingSlash } from '@solvapay/mcp-core'
+import { buildBearerChallenge, withoutTrailingSlash } from '@solvapay/mcp-core'
 
 const NATIVE_CLIENT_ORIGIN_REGEX = /^(cursor|vscode|vscode-webview|claude):\/\/.+$/
 
@@ -49,7 +49,8 @@ export function corsPreflight(req: Request): Response {
  * Produce a 401 JSON-RPC response + `WWW-Authenticate: Bearer
  * resource_metadata="…"` pointing at the protected-resource discovery
  * endpoint so MCP clients know where to discover the authorization
- * server.
+ * server. Pass the `McpBearerAuthError` that rejected the token as
+ * `error` to add its RFC 6750 `error` / `error_description`.
  */
 export function authChallenge(
   req: Request,
@@ -57,12 +58,14 @@ export function authChallenge(
     publicBaseUrl: string
     protectedResourcePath?: string
     jsonRpcId?: string | number | null
+    error?: unknown
   },
 ): Response {
   const {
     publicBaseUrl,
     protectedResourcePath = '/.well-known/oauth-protected-resource',
     jsonRpcId = null,
+    error,
   } = options
 
   const headers = new Headers()
@@ -70,7 +73,7 @@ export function authChallenge(
   headers.set('Access-Control-Expose-Headers', 'WWW-Authenticate')
   headers.set(
     'WWW-Authenticate',
-    `Bearer resource_metadata="${withoutTrailingSlash(publicBaseUrl)}${protectedResourcePath}"`,
+    buildBearerChallenge(`${withoutTrailingSlash(publicBaseUrl)}${protectedResourcePath}`, error),
   )
   headers.set('Content-Type', 'application/json')
 
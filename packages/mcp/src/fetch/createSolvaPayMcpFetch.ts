@@ -15,10 +15,11 @@
  * `registerPayable` helper.
  */
 
-import type { BuildSolvaPayDescriptorsOptions } from '@solvapay/mcp-core'
+import { buildSolvaPayDescriptors, type BuildSolvaPayDescriptorsOptions } from '@solvapay/mcp-core'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import {
   applyHideToolsByAudience,
-  buildSolvaPayMcpServer,
+  buildSolvaPayMcpServerFromDescriptors,
   normaliseHideToolsByAudience,
   type HideToolsByAudienceConfig,
 } from '../internal/buildMcpServer'
@@ -31,12 +32,27 @@ export type { AdditionalToolsContext } from '../server'
 export interface CreateSolvaPayMcpFetchOptions
   extends
     Omit<BuildSolvaPayDescriptorsOptions, 'apiBaseUrl'>,
-    Omit<CreateSolvaPayMcpFetchHandlerOptions, 'server'> {
+    Omit<CreateSolvaPayMcpFetchHandlerOptions, 'server' | 'createServer'> {
+  /**
+   * How overlapping requests are served.
+   *
+   * - `'serial'` — default. One server; requests take turns on it.
+   *   Right for edge functions, where an isolate serves one request
+   *   at a time anyway.
+   * - `'per-request'` — each request gets a server of its own (pooled
+   *   and reused, see `maxIdleServers`), so a slow paid tool call does
+   *   not hold up other users' `tools/list` / `tools/call`. Use on
+   *   long-lived Node / Bun / Deno servers. Descriptors are built once
+   *   and shared; `additionalTools` and `hideToolsByAudience` apply to
+   *   every server.
+   */
+  concurrency?: 'serial' | 'per-request'
   /**
    * Register non-SolvaPay tools on the freshly-built server. Receives
    * `{ server, solvaPay, resourceUri, productRef, registerPayable }`
    * — same shape as `createSolvaPayMcpServer`'s hook so merchant tool
-   * callbacks are portable between the two factories.
+   * callbacks are portable between the two factories. With
+   * `concurrency: 'per-request'` it runs once per server built.
    */
   additionalTools?: (ctx: AdditionalToolsContext) => void
   /**
@@ -84,7 +100,9 @@ export function createSolvaPayMcpFetch(
     onToolCall,
     onToolResult,
     branding,
+    logger,
     // Server / registration options.
+    concurrency = 'serial',
     additionalTools,
     hideToolsByAudience,
     registerPrompts = true,
@@ -103,7 +121,7 @@ export function createSolvaPayMcpFetch(
   // call below still needs its copy to build the OAuth router.
   const apiBaseUrl = handlerRest.apiBaseUrl
 
-  const { server, descriptors } = buildSolvaPayMcpServer({
+  const descriptors = buildSolvaPayDescriptors({
     solvaPay,
     productRef,
     resourceUri,
@@ -117,35 +135,46 @@ export function createSolvaPayMcpFetch(
     ...(onToolCall !== undefined ? { onToolCall } : {}),
     ...(onToolResult !== undefined ? { onToolResult } : {}),
     ...(branding !== undefined ? { branding } : {}),
-    registerPrompts,
-    registerDocsResources,
-    ...(serverName !== undefined ? { serverName } : {}),
-    serverVersion,
+    ...(logger !== undefined ? { logger } : {}),
   })
+  const { audiences, options: filterOptions } = normaliseHideToolsByAudience(hideToolsByAudience)
+
+  const buildServer = (): McpServer => {
+    const server = buildSolvaPayMcpServerFromDescriptors(descriptors, {
+      registerPrompts,
+      registerDocsResources,
+      ...(serverName !== undefined ? { serverName } : {}),
+      serverVersion,
+      ...(branding !== undefined ? { branding } : {}),
+    })
 
-  if (additionalTools) {
-    // Mirror the root entry's `registerPayable` binding so merchant
-    // callbacks are portable between `createSolvaPayMcpServer` and
-    // this factory without code changes.
-    const registerPayable: AdditionalToolsContext['registerPayable'] = (name, opts) => {
-      registerPayableTool(server, name, {
-        solvaPay,
-        ...opts,
-        product: opts.product ?? productRef,
-        buildBootstrap: opts.buildBootstrap ?? descriptors.buildBootstrapPayload,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } as unknown as RegisterPayableToolOptions<any, any>)
+    if (additionalTools) {
+      // Mirror the root entry's `registerPayable` binding so merchant
+      // callbacks are portable between `createSolvaPayMcpServer` and
+      // this factory without code changes.
+      const registerPayable: AdditionalToolsContext['registerPayable'] = (name, opts) => {
+        registerPayableTool(server, name, {
+          solvaPay,
+          ...opts,
+          product: opts.product ?? productRef,
+          buildBootstrap: opts.buildBootstrap ?? descriptors.buildBootstrapPayload,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as unknown as RegisterPayableToolOptions<any, any>)
+      }
+      additionalTools({ server, solvaPay, resourceUri, productRef, registerPayable })
     }
-    additionalTools({ server, solvaPay, resourceUri, productRef, registerPayable })
-  }
 
-  // Filter UI-audience tools from `tools/list` last so we see every
-  // tool the descriptor loop + `additionalTools` registered.
-  const { audiences, options: filterOptions } = normaliseHideToolsByAudience(hideToolsByAudience)
-  applyHideToolsByAudience(server, audiences, filterOptions)
+    // Filter UI-audience tools from `tools/list` last so we see every
+    // tool the descriptor loop + `additionalTools` registered.
+    applyHideToolsByAudience(server, audiences, {
+      ...filterOptions,
+      ...(logger !== undefined ? { logger } : {}),
+    })
+    return server
+  }
 
   return createSolvaPayMcpFetchHandler({
-    server,
+    ...(concurrency === 'per-request' ? { createServer: buildServer } : { server: buildServer() }),
     publicBaseUrl,
     productRef,
     ...handlerRest,
@@ -10,25 +10,32 @@ import {
   buildAuthInfoFromBearer,
   McpBearerAuthError,
   type BuildAuthInfoFromBearerOptions,
+  type McpSessionStore,
   type OAuthBridgePaths,
 } from '@solvapay/mcp-core'
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'
+import { resolveBearerAuthOptions } from '../internal/bearer-auth'
+import { createSessionEventStore } from '../internal/session-event-store'
 import { applyNativeCors, authChallenge, corsPreflight } from './cors'
 import { createOAuthFetchRouter } from './oauth-bridge'
+import { withMcpSessionAffinity, type WithMcpSessionAffinityOptions } from './session-affinity'
 
 /**
  * Transport wiring preset.
  *
  * - `'sse-stateful'` — default. SSE streaming + UUID `mcp-session-id`
  *   on initialize. Matches the original helper behaviour and is what
- *   Node / Express / Bun deployments expect.
+ *   Node / Express / Bun deployments expect. Pass `sessionStore` to
+ *   keep sessions across requests and replicas.
  * - `'json-stateless'` — `{ sessionIdGenerator: undefined,
  *   enableJsonResponse: true }`. Required on stateless fetch runtimes
  *   (Supabase Edge, Cloudflare Workers, Vercel Edge, Deno Deploy) that
  *   can't keep per-session state across invocations and need a
  *   single-JSON-response wire shape so the response body is assembled
- *   before the per-request transport is closed.
+ *   before the per-request transport is closed. A JSON body cannot
+ *   stream, so `ctx.progress(...)` notifications are dropped and
+ *   `ctx.emit(...)` blocks arrive with the result.
  * - `'sse-stateless'` — SSE streaming without session IDs. Advanced /
  *   hypothetical; provided for symmetry. Most stateless runtimes want
  *   `'json-stateless'` instead (a cut SSE stream drops the response
@@ -37,12 +44,32 @@ import { createOAuthFetchRouter } from './oauth-bridge'
 export type McpHandlerMode = 'sse-stateful' | 'json-stateless' | 'sse-stateless'
 
 export interface CreateSolvaPayMcpFetchHandlerOptions {
-  server: McpServer
+  /**
+   * The server every request is handled by. Requests take turns on it,
+   * so one slow tool call holds up the rest — pass `createServer` to
+   * run them in parallel. One of the two is required.
+   */
+  server?: McpServer
+  /**
+   * Build servers on demand instead of sharing `server`. Each request
+   * gets a server of its own, so overlapping requests run in parallel.
+   * Servers go back to an idle pool once their response completes and
+   * are reused; the factory only runs when every pooled server is busy.
+   */
+  createServer?: () => McpServer
+  /** Idle servers kept for reuse when `createServer` is set (default: 16). */
+  maxIdleServers?: number
   publicBaseUrl: string
   apiBaseUrl: string
   productRef: string
   mcpPath?: string
   requireAuth?: boolean
+  /**
+   * Bearer-token handling. Tokens are verified against the JWKS and
+   * issuer named in `apiBaseUrl`'s authorization server metadata, with
+   * `aud` = `publicBaseUrl` or the MCP endpoint, unless `authInfo.verify`
+   * overrides it.
+   */
   authInfo?: BuildAuthInfoFromBearerOptions
   protectedResourcePath?: string
   authorizationServerPath?: string
@@ -61,7 +88,8 @@ export interface CreateSolvaPayMcpFetchHandlerOptions {
    * `mode` and `sessionIdGenerator` are ignored — the caller owns the
    * transport's configuration. The handler still manages
    * `server.connect(transport)` + `transport.close()` per request and
-   * serialises concurrent requests through the shared-server mutex.
+   * serialises concurrent requests on a shared `server` through the
+   * mutex.
    */
   buildTransport?: () => WebStandardStreamableHTTPServerTransport
   /**
@@ -74,6 +102,31 @@ export interface CreateSolvaPayMcpFetchHandlerOptions {
    * Defaults to `crypto.randomUUID`.
    */
   sessionIdGenerator?: () => string
+  /**
+   * Shared session state for `'sse-stateful'` mode. Sessions created
+   * by `initialize` are recorded here and every SSE message is logged,
+   * so any replica sharing the store can serve a session's follow-up
+   * requests, `DELETE` it, and replay a dropped stream to a client
+   * reconnecting with `GET` + `Last-Event-ID`. A stream the client
+   * drops keeps running to its result, so nothing is lost before the
+   * client resumes. Ignored in stateless modes and when
+   * `buildTransport` is provided.
+   */
+  sessionStore?: McpSessionStore
+  /** Idle time before a session and its event log expire (default: 1 hour). */
+  sessionTtlMs?: number
+  /**
+   * Delay clients wait before reconnecting to a resumable stream, sent
+   * as the SSE `retry` field (default: 1000 ms).
+   */
+  sessionRetryMs?: number
+  /**
+   * Sticky routing across replicas: requests for a session owned by
+   * another replica are forwarded there, so the stream a tool call is
+   * writing and the `notifications/cancelled` aimed at it meet in one
+   * process. See {@link withMcpSessionAffinity}.
+   */
+  sessionAffinity?: WithMcpSessionAffinityOptions
 }
 
 function defaultSessionIdGenerator(): string {
@@ -88,6 +141,17 @@ function defaultSessionIdGenerator(): string {
   })
 }
 
+/** A tool call whose SSE response is still being written. */
+interface StreamingCall {
+  transport: WebStandardStreamableHTTPServerTransport
+  requestIds: Array<string | number>
+  customerRef: unknown
+  sessionId: string | undefined
+}
+
+const DEFAULT_SESSION_TTL_MS = 60 * 60 * 1000
+const DEFAULT_SESSION_RETRY_MS = 1000
+
 function getJsonRpcId(body: unknown): string | number | null {
   if (body && typeof body === 'object' && 'id' in body) {
     const id = (body as { id?: string | number | null }).id
@@ -96,6 +160,133 @@ function getJsonRpcId(body: unknown): string | number | null {
   return null
 }
 
+/**
+ * The request body when it is a single `notifications/cancelled`
+ * JSON-RPC notification, else `null`.
+ */
+async function readCancellation(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = (await req.clone().json()) as { method?: unknown; id?: unknown } | null
+    return body && body.method === 'notifications/cancelled' && !('id' in body)
+      ? (body as Record<string, unknown>)
+      : null
+  } catch {
+    return null
+  }
+}
+
+/** Whether `req`'s body is an `initialize` request. */
+async function isInitializeRequest(req: Request): Promise<boolean> {
+  try {
+    const body: unknown = await req.clone().json()
+    return (Array.isArray(body) ? body : [body]).some(
+      message => (message as { method?: unknown } | null)?.method === 'initialize',
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Pass `body` through unchanged and call `onEnd` once it finishes,
+ * errors or is cancelled by the client. With `drainOnCancel`, a client
+ * disconnect does not cut the source: it is read to the end in the
+ * background — every message still reaching the session's event log —
+ * and `onEnd` runs once it finishes.
+ */
+function onStreamEnd(
+  body: ReadableStream<Uint8Array>,
+  onEnd: () => Promise<void>,
+  drainOnCancel = false,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+  const drain = async () => {
+    try {
+      while (!(await reader.read()).done) {
+        // Discard: nobody is listening, but the transport keeps logging.
+      }
+    } catch {
+      // The source failed after the client left; nothing to report to.
+    }
+    await onEnd()
+  }
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (!done) {
+          controller.enqueue(value)
+          return
+        }
+        controller.close()
+      } catch (error) {
+        controller.error(error)
+      }
+      await onEnd()
+    },
+    async cancel(reason) {
+      if (drainOnCancel) {
+        void drain()
+        return
+      }
+      await reader.cancel(reason).catch(() => {})
+      await onEnd()
+    },
+  })
+}
+
+/** Ids of the JSON-RPC requests in `req`'s body, single or batched. */
+async function readJsonRpcIds(req: Request): Promise<Array<string | number>> {
+  try {
+    const body: unknown = await req.json()
+    return (Array.isArray(body) ? body : [body])
+      .map(getJsonRpcId)
+      .filter((id): id is string | number => id !== null)
+  } catch {
+    return []
+  }
+}
+
+/** JSON-RPC error for a request that names no usable session. */
+function sessionError(req: Request, status: number, code: number, message: string): Response {
+  const headers = new Headers({ 'content-type': 'application/json' })
+  applyNativeCors(req.headers, headers)
+  return new Response(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }), {
+    status,
+    headers,
+  })
+}
+
+/**
+ * Answer `GET` + `Last-Event-ID` with the events logged on that stream
+ * since, then end the response. The call may still be running — on this
+ * replica or another — so a client without its result yet reconnects
+ * after `retry` with the newest id and picks up where it left off.
+ */
+async function replaySessionStream(
+  req: Request,
+  store: McpSessionStore,
+  sessionId: string,
+  retryMs: number,
+): Promise<Response> {
+  const replay = await store.readEventsAfter(sessionId, req.headers.get('last-event-id')!)
+  if (!replay) return sessionError(req, 400, -32000, 'Invalid event ID format')
+
+  let body = `retry: ${retryMs}\n\n`
+  for (const event of replay.events) {
+    // Priming events carry no message; they only hand the client an id.
+    if (!(event.message as { jsonrpc?: unknown } | null)?.jsonrpc) continue
+    body += `event: message\nid: ${event.eventId}\ndata: ${JSON.stringify(event.message)}\n\n`
+  }
+  const headers = new Headers({
+    'content-type': 'text/event-stream',
+    'cache-control': 'no-cache, no-transform',
+    'mcp-session-id': sessionId,
+  })
+  applyNativeCors(req.headers, headers)
+  return new Response(body, { status: 200, headers })
+}
+
 async function readJsonRpcId(req: Request): Promise<string | number | null> {
   try {
     const clone = req.clone()
@@ -114,24 +305,36 @@ async function readJsonRpcId(req: Request): Promise<string | number | null> {
  *    {@link createOAuthFetchRouter}.
  * 3. Enforces bearer-token auth on the MCP path (default `/mcp`) and
  *    returns `401 + WWW-Authenticate: Bearer resource_metadata="…"`
- *    when auth is missing.
+ *    when auth is missing, adding `error="invalid_token"` when the
+ *    token fails verification.
  * 4. Forwards the request to a fresh
- *    `WebStandardStreamableHTTPServerTransport` wired to the provided
- *    `McpServer`. The transport's `close()` runs in a `finally` block
- *    so the server's `_transport` slot is released for the next
- *    request; concurrent requests serialise through a shared mutex so
- *    two overlapping calls never double-connect the same `McpServer`.
+ *    `WebStandardStreamableHTTPServerTransport` wired to an
+ *    `McpServer`. The transport is closed once the response is
+ *    complete — after the JSON body, or when an SSE stream ends — so
+ *    the server's `_transport` slot is released for the next request.
+ *    With a shared `server`, concurrent requests serialise through a
+ *    mutex so two overlapping calls never double-connect it; with
+ *    `createServer`, each request takes its own server from a pool and
+ *    they run in parallel.
+ * 5. Delivers a client's `notifications/cancelled` straight to the
+ *    call it names while that call is still streaming its SSE response,
+ *    so `ctx.signal` aborts while the tool is running.
  *
  * A fresh transport is created per request — that's the recommended
  * pattern for stateless fetch runtimes (Workers, Deno, Supabase Edge).
- * For long-lived session reuse, consume the low-level
- * {@link createOAuthFetchRouter} + instantiate the transport yourself.
+ * With `sessionStore`, `'sse-stateful'` sessions live in the store
+ * instead of a transport: the handler validates `mcp-session-id`
+ * against it, serves `DELETE` and `GET` + `Last-Event-ID` replay from
+ * it, and logs every SSE message into it, so sessions survive across
+ * requests and replicas.
  */
 export function createSolvaPayMcpFetchHandler(
   options: CreateSolvaPayMcpFetchHandlerOptions,
 ): (req: Request) => Promise<Response> {
   const {
     server,
+    createServer,
+    maxIdleServers = 16,
     publicBaseUrl,
     apiBaseUrl,
     productRef,
@@ -144,8 +347,18 @@ export function createSolvaPayMcpFetchHandler(
     mode = 'sse-stateful',
     buildTransport,
     sessionIdGenerator,
+    sessionTtlMs = DEFAULT_SESSION_TTL_MS,
+    sessionRetryMs = DEFAULT_SESSION_RETRY_MS,
+    sessionAffinity,
   } = options
+  // Sessions only apply to the handler's own stateful transport.
+  const sessionStore = mode === 'sse-stateful' && !buildTransport ? options.sessionStore : undefined
 
+  if (!server && !createServer) {
+    throw new Error('createSolvaPayMcpFetchHandler: either `server` or `createServer` is required.')
+  }
+
+  const bearerAuth = resolveBearerAuthOptions({ authInfo, publicBaseUrl, apiBaseUrl, mcpPath })
   const oauthRouter = createOAuthFetchRouter({
     publicBaseUrl,
     apiBaseUrl,
@@ -163,8 +376,19 @@ export function createSolvaPayMcpFetchHandler(
   // what makes the `transport.close()` in the finally block safe for
   // stateless fetch runtimes (an SSE stream would otherwise be cut off
   // before the final tool-result frame is written).
-  const makeTransport = (): WebStandardStreamableHTTPServerTransport => {
+  //
+  // With a session store, the session was validated against the store
+  // before the transport is built, so the transport itself runs
+  // without session tracking and only logs its events for replay.
+  const makeTransport = (sessionId: string | null): WebStandardStreamableHTTPServerTransport => {
     if (buildTransport) return buildTransport()
+    if (sessionStore && sessionId) {
+      return new WebStandardStreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+        eventStore: createSessionEventStore(sessionStore, sessionId, sessionTtlMs),
+        retryInterval: sessionRetryMs,
+      })
+    }
     if (mode === 'json-stateless') {
       return new WebStandardStreamableHTTPServerTransport({
         sessionIdGenerator: undefined,
@@ -181,17 +405,23 @@ export function createSolvaPayMcpFetchHandler(
     })
   }
 
-  // Serialise server connect/close cycles. `McpServer._transport` is a
-  // single slot — the protocol's `connect()` throws "Already connected
-  // to a transport" if it's set, and only `transport.close()` (which
-  // fires the protocol's `_onclose` handler) nulls it. Two overlapping
-  // requests would therefore race on this slot; we queue each request
-  // behind the previous one's close to sidestep the race entirely.
-  // Fine for the low-throughput edge-function case; high-throughput
-  // deployments should fan out to multiple `McpServer` instances.
+  // Serialise connect/close cycles on a shared server.
+  // `McpServer._transport` is a single slot — the protocol's
+  // `connect()` throws "Already connected to a transport" if it's set,
+  // and only `transport.close()` (which fires the protocol's `_onclose`
+  // handler) nulls it. Two overlapping requests would therefore race on
+  // this slot; we queue each request behind the previous one's close to
+  // sidestep the race entirely. Fine for the low-throughput
+  // edge-function case; high-throughput deployments pass
+  // `createServer` so each request connects a server of its own.
   let serverMutex: Promise<void> = Promise.resolve()
+  // Servers from `createServer` not serving a request right now.
+  const idleServers: McpServer[] = []
+  // Calls whose SSE response is still being written. Each keeps its
+  // server (and, when shared, the mutex) until the stream ends.
+  const streamingCalls = new Set<StreamingCall>()
 
-  return async (req: Request): Promise<Response> => {
+  const handle = async (req: Request): Promise<Response> => {
     const url = new URL(req.url)
     const pathname = url.pathname
 
@@ -211,44 +441,161 @@ export function createSolvaPayMcpFetchHandler(
 
     // 4) GET /mcp — Cursor-style SSE back-channel probe. Stateless
     //    servers can't serve it; respond 405 so the client doesn't
-    //    transition to failed on a 400.
-    if (req.method && req.method !== 'POST' && req.method !== 'OPTIONS') {
-      const headers = new Headers({ Allow: 'POST, OPTIONS' })
+    //    transition to failed on a 400. With a session store, `DELETE`
+    //    ends a session and `GET` + `Last-Event-ID` resumes a stream.
+    const sessionRequest =
+      sessionStore !== undefined &&
+      (req.method === 'DELETE' || (req.method === 'GET' && req.headers.has('last-event-id')))
+    if (req.method && req.method !== 'POST' && req.method !== 'OPTIONS' && !sessionRequest) {
+      const headers = new Headers({
+        Allow: sessionStore ? 'GET, POST, DELETE, OPTIONS' : 'POST, OPTIONS',
+      })
       applyNativeCors(req.headers, headers)
       return new Response(null, { status: 405, headers })
     }
 
     // 5) Bearer auth guard.
     const authHeader = req.headers.get('authorization')
-    let resolvedAuthInfo: ReturnType<typeof buildAuthInfoFromBearer> = null
+    let resolvedAuthInfo: Awaited<ReturnType<typeof buildAuthInfoFromBearer>> = null
     if (authHeader || requireAuth) {
       try {
-        resolvedAuthInfo = buildAuthInfoFromBearer(authHeader, authInfo)
+        resolvedAuthInfo = await buildAuthInfoFromBearer(authHeader, bearerAuth)
         if (!resolvedAuthInfo) {
           throw new McpBearerAuthError('Missing bearer token')
         }
-      } catch {
+      } catch (error) {
         const jsonRpcId = await readJsonRpcId(req)
         return authChallenge(req, {
           publicBaseUrl,
           protectedResourcePath,
           jsonRpcId,
+          error,
         })
       }
     }
 
-    // 6) Serialise behind the previous in-flight request's close cycle.
-    const previous = serverMutex
-    let releaseMutex: () => void = () => {}
-    serverMutex = new Promise<void>(resolve => {
-      releaseMutex = resolve
-    })
-    await previous
+    // 6) Stateful session from the store: `initialize` opens one, every
+    //    other request must name a live session of the same customer.
+    let sessionId: string | null = null
+    if (sessionStore) {
+      const customerRef = resolvedAuthInfo?.extra?.customer_ref as string | undefined
+      if (req.method === 'POST' && (await isInitializeRequest(req))) {
+        sessionId = (sessionIdGenerator ?? defaultSessionIdGenerator)()
+        await sessionStore.setSession(
+          {
+            sessionId,
+            ...(customerRef !== undefined ? { customerRef } : {}),
+            createdAt: Date.now(),
+          },
+          { ttlMs: sessionTtlMs },
+        )
+      } else {
+        sessionId = req.headers.get('mcp-session-id')
+        if (!sessionId) {
+          return sessionError(req, 400, -32000, 'Bad Request: Mcp-Session-Id header is required')
+        }
+        const session = await sessionStore.getSession(sessionId)
+        // A session opened by another customer is reported as missing,
+        // so its existence is not disclosed either.
+        if (!session || session.customerRef !== customerRef) {
+          return sessionError(req, 404, -32001, 'Session not found')
+        }
+        if (req.method === 'DELETE') {
+          await sessionStore.deleteSession(sessionId)
+          const headers = new Headers()
+          applyNativeCors(req.headers, headers)
+          return new Response(null, { status: 200, headers })
+        }
+        if (req.method === 'GET') {
+          return replaySessionStream(req, sessionStore, sessionId, sessionRetryMs)
+        }
+        // Refresh the idle timeout.
+        await sessionStore.setSession(session, { ttlMs: sessionTtlMs })
+      }
+    }
+
+    // 7) Cancellation of a streaming call. Waiting for a server would
+    //    deliver it only after the call it cancels has finished. The
+    //    call must belong to the same session and customer, so a client
+    //    cannot cancel someone else's call by guessing its id.
+    //    JSON-response modes hold no stream to end, so cancellations
+    //    there take the normal path and find nothing to cancel.
+    const cancellation = streamingCalls.size > 0 ? await readCancellation(req) : null
+    const requestId = (cancellation?.params as { requestId?: string | number } | undefined)
+      ?.requestId
+    if (cancellation && requestId !== undefined) {
+      const requestSessionId = req.headers.get('mcp-session-id')
+      const customerRef = resolvedAuthInfo?.extra?.customer_ref
+      const target = [...streamingCalls].find(
+        call =>
+          call.requestIds.includes(requestId) &&
+          call.customerRef === customerRef &&
+          (call.sessionId === undefined || call.sessionId === requestSessionId),
+      )
+      if (target) {
+        target.transport.onmessage?.(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          cancellation as any,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          resolvedAuthInfo ? { authInfo: resolvedAuthInfo as any } : undefined,
+        )
+        // The SDK sends no response to a cancelled request, so end its
+        // stream here; that closes the transport and frees its server.
+        target.transport.closeSSEStream(requestId)
+        const headers = new Headers()
+        applyNativeCors(req.headers, headers)
+        return new Response(null, { status: 202, headers })
+      }
+    }
 
-    // 7) Spin up a fresh transport per request and connect the server.
-    const transport = makeTransport()
+    // 8) Take a server: a pooled one of our own when `createServer` is
+    //    set, else the shared one once the previous request has closed.
+    let activeServer: McpServer
+    let releaseServer: (reusable: boolean) => void
+    if (createServer) {
+      const pooled = idleServers.pop() ?? createServer()
+      activeServer = pooled
+      // A server whose transport failed to close may still hold it, so
+      // drop it and let a later request build a fresh one.
+      releaseServer = reusable => {
+        if (reusable && idleServers.length < maxIdleServers) idleServers.push(pooled)
+      }
+    } else {
+      const previous = serverMutex
+      let releaseMutex: () => void = () => {}
+      serverMutex = new Promise<void>(resolve => {
+        releaseMutex = resolve
+      })
+      await previous
+      activeServer = server!
+      releaseServer = releaseMutex
+    }
+
+    // 9) Spin up a fresh transport per request and connect the server.
+    const transport = makeTransport(sessionId)
+    // Unread copy of the body for the request ids, should the
+    // response stream.
+    const idSource = req.clone()
+    let streamingCall: StreamingCall | null = null
+    let closed = false
+    // `close()` is idempotent on every mode (see
+    // `webStandardStreamableHttp.js` — `close()` walks the stream map
+    // and calls `_onclose`, which triggers the protocol's `_onclose` to
+    // null the server's `_transport` slot). Swallow errors so a failed
+    // close never masks the real response / error, but keep the server
+    // out of the pool.
+    const release = async () => {
+      if (closed) return
+      closed = true
+      if (streamingCall) streamingCalls.delete(streamingCall)
+      const reusable = await transport.close().then(
+        () => true,
+        () => false,
+      )
+      releaseServer(reusable)
+    }
     try {
-      await server.connect(transport)
+      await activeServer.connect(transport)
       const response = await transport.handleRequest(
         req,
         resolvedAuthInfo
@@ -263,6 +610,25 @@ export function createSolvaPayMcpFetchHandler(
 
       const merged = new Headers(response.headers)
       applyNativeCors(req.headers, merged)
+      if (sessionId) merged.set('mcp-session-id', sessionId)
+      // An SSE body is still being written: tool calls stream progress
+      // and emitted blocks before their result. Closing the transport
+      // now would cut the stream and abort the call, so close it once
+      // the stream ends.
+      if (response.body && merged.get('content-type')?.startsWith('text/event-stream')) {
+        streamingCall = {
+          transport,
+          requestIds: await readJsonRpcIds(idSource),
+          customerRef: resolvedAuthInfo?.extra?.customer_ref,
+          sessionId: transport.sessionId ?? sessionId ?? undefined,
+        }
+        streamingCalls.add(streamingCall)
+        // A logged stream outlives its client, so it can be resumed.
+        return new Response(onStreamEnd(response.body, release, sessionStore !== undefined), {
+          status: response.status,
+          headers: merged,
+        })
+      }
       return new Response(response.body, { status: response.status, headers: merged })
     } catch (error) {
       const headers = new Headers({ 'content-type': 'application/json' })
@@ -280,14 +646,9 @@ export function createSolvaPayMcpFetchHandler(
         { status: 500, headers },
       )
     } finally {
-      // `close()` is idempotent on every mode (see
-      // `webStandardStreamableHttp.js` — `close()` walks the stream
-      // map and calls `_onclose`, which triggers the protocol's
-      // `_onclose` to null the server's `_transport` slot). Swallow
-      // errors so a failed close never masks the real response /
-      // error above.
-      await transport.close().catch(() => {})
-      releaseMutex()
+      if (!streamingCall) await release()
     }
   }
+
+  return sessionAffinity ? withMcpSessionAffinity(handle, sessionAffinity) : handle
 }
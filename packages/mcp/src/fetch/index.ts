@@ -70,6 +70,9 @@ export {
 export { createSolvaPayMcpFetchHandler } from './handler'
 export type { CreateSolvaPayMcpFetchHandlerOptions, McpHandlerMode } from './handler'
 
+export { withMcpSessionAffinity } from './session-affinity'
+export type { WithMcpSessionAffinityOptions } from './session-affinity'
+
 export { createSolvaPayMcpFetch } from './createSolvaPayMcpFetch'
 export type { CreateSolvaPayMcpFetchOptions } from './createSolvaPayMcpFetch'
 export type { AdditionalToolsContext, HideToolsByAudienceConfig } from '../server'
@@ -79,10 +82,18 @@ export {
   getOAuthAuthorizationServerResponse,
   getOAuthProtectedResourceResponse,
   buildAuthInfoFromBearer,
+  verifyBearerToken,
   McpBearerAuthError,
+  createMemoryMcpSessionStore,
+  createRedisMcpSessionStore,
+  createDurableObjectMcpSessionStore,
+  McpSessionStoreDurableObject,
 } from '@solvapay/mcp-core'
 export type {
   BuildAuthInfoFromBearerOptions,
+  McpBearerVerificationOptions,
+  McpSessionAffinityOptions,
+  McpSessionStore,
   OAuthAuthorizationServerOptions,
   OAuthBridgePaths,
 } from '@solvapay/mcp-core'
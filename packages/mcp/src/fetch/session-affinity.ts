@@ -0,0 +1,85 @@
+/**
+ * Sticky routing for stateful MCP sessions on Web-standards runtimes.
+ * Wraps a fetch handler so requests for a session owned by another
+ * replica are forwarded there, and everything else is served locally.
+ * Replica selection lives in `@solvapay/mcp-core` and is shared with
+ * the Express middleware.
+ */
+
+import {
+  MCP_SESSION_FORWARDED_HEADER,
+  resolveMcpSessionReplica,
+  type McpSessionAffinityOptions,
+} from '@solvapay/mcp-core'
+
+export interface WithMcpSessionAffinityOptions extends McpSessionAffinityOptions {
+  /** Custom fetch used to forward requests (default: `globalThis.fetch`). */
+  fetch?: typeof fetch
+}
+
+/** Hop-by-hop and framing headers that are not copied across the hop. */
+const SKIPPED_HEADERS = new Set(['host', 'connection', 'content-length', 'transfer-encoding'])
+
+/**
+ * Forward `req` to `replica`, keeping its path, query, headers and
+ * body. The response body — SSE streams included — is passed through
+ * unchanged. `fetch` has already decoded it, so `content-encoding` and
+ * `content-length` are dropped with the other framing headers.
+ */
+export async function forwardToMcpReplica(
+  req: Request,
+  replica: string,
+  options: { self: string; fetch?: typeof fetch },
+): Promise<Response> {
+  const url = new URL(req.url)
+  const headers = new Headers(req.headers)
+  for (const name of SKIPPED_HEADERS) headers.delete(name)
+  headers.set(MCP_SESSION_FORWARDED_HEADER, options.self)
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+  const upstream = await (options.fetch ?? fetch)(
+    new URL(`${url.pathname}${url.search}`, replica),
+    {
+      method: req.method,
+      headers,
+      body: hasBody ? await req.arrayBuffer() : undefined,
+      signal: req.signal,
+    },
+  )
+  const responseHeaders = new Headers()
+  upstream.headers.forEach((value, name) => {
+    if (!SKIPPED_HEADERS.has(name) && name !== 'content-encoding') {
+      responseHeaders.append(name, value)
+    }
+  })
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  })
+}
+
+/**
+ * Wrap `handler` so each `mcp-session-id` is always served by the same
+ * replica. Requests without a session (`initialize`, OAuth routes) and
+ * requests another replica already forwarded are served by `handler`.
+ *
+ * @example
+ * ```ts
+ * const replicas = ['http://mcp-0.internal:8000', 'http://mcp-1.internal:8000']
+ * Deno.serve(
+ *   withMcpSessionAffinity(createSolvaPayMcpFetch({ …options, sessionStore }), {
+ *     replicas,
+ *     self: Deno.env.get('SELF_URL')!,
+ *   }),
+ * )
+ * ```
+ */
+export function withMcpSessionAffinity(
+  handler: (req: Request) => Promise<Response>,
+  options: WithMcpSessionAffinityOptions,
+): (req: Request) => Promise<Response> {
+  return async (req: Request): Promise<Response> => {
+    const replica = resolveMcpSessionReplica(req.headers, options)
+    return replica ? forwardToMcpReplica(req, replica, options) : handler(req)
+  }
+}
@@ -7,7 +7,7 @@
  * `@modelcontextprotocol/*`. Everything else (tool names, descriptors,
  * paywall meta, OAuth discovery JSON, JWT helpers) lives in
  * `@solvapay/mcp-core` and can be reused by alternative adapters
- * (`fastmcp`, raw JSON-RPC, …). Runtime-specific OAuth middleware
+ * (`@solvapay/mcp-fastmcp`, `@solvapay/mcp-jsonrpc`, …). Runtime-specific OAuth middleware
  * lives on two subpath exports of this package:
  *
  * - `@solvapay/mcp/express` — Node `(req, res, next)` middleware
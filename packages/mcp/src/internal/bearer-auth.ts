@@ -0,0 +1,32 @@
+/**
+ * Shared bearer-verification defaults for the parallel
+ * `@solvapay/mcp/fetch` and `@solvapay/mcp/express` adapter bridges.
+ *
+ * Both bridges front the SolvaPay authorization server at `apiBaseUrl`,
+ * so unless the integrator says otherwise the token's issuer and signing
+ * keys are whatever that server's RFC 8414 metadata names (`issuer`,
+ * `jwks_uri`). `aud` must be this MCP server, as the MCP authorization
+ * spec requires: the protected-resource URL advertised in discovery, or
+ * the MCP endpoint itself.
+ */
+
+import { withoutTrailingSlash, type BuildAuthInfoFromBearerOptions } from '@solvapay/mcp-core'
+
+export function resolveBearerAuthOptions(options: {
+  authInfo?: BuildAuthInfoFromBearerOptions
+  publicBaseUrl: string
+  apiBaseUrl: string
+  mcpPath: string
+}): BuildAuthInfoFromBearerOptions {
+  const { authInfo = {}, publicBaseUrl, apiBaseUrl, mcpPath } = options
+  if (authInfo.verify !== undefined) return authInfo
+
+  const resource = withoutTrailingSlash(publicBaseUrl)
+  return {
+    ...authInfo,
+    verify: {
+      authorizationServer: withoutTrailingSlash(apiBaseUrl),
+      audience: [resource, `${resource}${mcpPath}`],
+    },
+  }
+}
@@ -191,14 +191,45 @@ export function buildSolvaPayMcpServer(
   options: BuildSolvaPayMcpServerOptions,
 ): BuiltSolvaPayMcpServer {
   const {
-    registerPrompts = true,
-    registerDocsResources = true,
+    registerPrompts,
+    registerDocsResources,
     serverName,
-    serverVersion = '1.0.0',
+    serverVersion,
     ...descriptorOptions
   } = options
 
   const descriptors = buildSolvaPayDescriptors(descriptorOptions)
+  const server = buildSolvaPayMcpServerFromDescriptors(descriptors, {
+    registerPrompts,
+    registerDocsResources,
+    serverName,
+    serverVersion,
+    branding: descriptorOptions.branding,
+  })
+  return { server, descriptors }
+}
+
+export type BuildSolvaPayMcpServerFromDescriptorsOptions = Pick<
+  BuildSolvaPayMcpServerOptions,
+  'registerPrompts' | 'registerDocsResources' | 'serverName' | 'serverVersion' | 'branding'
+>
+
+/**
+ * Register an already-built descriptor bundle on a new `McpServer`.
+ * Lets a factory that needs many servers (one per concurrent request)
+ * build the descriptors once and share them.
+ */
+export function buildSolvaPayMcpServerFromDescriptors(
+  descriptors: SolvaPayDescriptorBundle,
+  options: BuildSolvaPayMcpServerFromDescriptorsOptions = {},
+): McpServer {
+  const {
+    registerPrompts = true,
+    registerDocsResources = true,
+    serverName,
+    serverVersion = '1.0.0',
+    branding,
+  } = options
 
   // Prefer the merchant's brand name + icon for the MCP
   // `Implementation` payload returned at `initialize` — hosts render
@@ -210,9 +241,8 @@ export function buildSolvaPayMcpServer(
   // brand. `deriveIcons` returns `undefined` when branding has neither
   // `iconUrl` nor `logoUrl`; we omit the field in that case so the
   // serialised handshake matches the zero-branding baseline.
-  const effectiveServerName =
-    serverName ?? descriptorOptions.branding?.brandName ?? 'solvapay-mcp-server'
-  const serverIcons = deriveIcons(descriptorOptions.branding)
+  const effectiveServerName = serverName ?? branding?.brandName ?? 'solvapay-mcp-server'
+  const serverIcons = deriveIcons(branding)
 
   const server = new McpServer({
     name: effectiveServerName,
@@ -277,7 +307,7 @@ export function buildSolvaPayMcpServer(
     }),
   )
 
-  return { server, descriptors }
+  return server
 }
 
 export { applyHideToolsByAudience }
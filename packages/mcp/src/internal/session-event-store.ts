@@ -0,0 +1,33 @@
+/**
+ * Adapts an `McpSessionStore` from `@solvapay/mcp-core` to the MCP
+ * SDK's `EventStore`, scoped to one session. The transport built for
+ * each request of that session writes every SSE message through it, so
+ * the stream can be replayed from `Last-Event-ID` on any replica.
+ */
+
+import type { McpSessionStore } from '@solvapay/mcp-core'
+import type { EventStore } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js'
+
+export function createSessionEventStore(
+  store: McpSessionStore,
+  sessionId: string,
+  ttlMs: number,
+): EventStore {
+  return {
+    storeEvent: (streamId, message) => store.appendEvent(sessionId, streamId, message, { ttlMs }),
+
+    async replayEventsAfter(lastEventId, { send }) {
+      const replay = await store.readEventsAfter(sessionId, lastEventId)
+      if (!replay) throw new Error(`Unknown event id: ${lastEventId}`)
+      for (const event of replay.events) {
+        // The store holds plain JSON, possibly written by another
+        // replica, so check it is still a JSON-RPC message.
+        const message = JSONRPCMessageSchema.safeParse(event.message)
+        if (!message.success) throw new Error(`Malformed event: ${event.eventId}`)
+        await send(event.eventId, message.data)
+      }
+      return replay.streamId
+    },
+  }
+}
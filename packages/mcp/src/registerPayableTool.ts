@@ -38,7 +38,7 @@ import {
   type SolvaPayToolAnnotations,
   type SolvaPayToolIcon,
 } from '@solvapay/mcp-core'
-import type { SolvaPay } from '@solvapay/server'
+import type { PaywallMeter, RateLimitOptions, SolvaPay, UsageMeterType } from '@solvapay/server'
 
 /**
  * Projects the tool's `schema` (raw shape or already-constructed
@@ -80,15 +80,16 @@ export interface RegisterPayableToolOptions<
    *  - `ctx.product` — bootstrap product projection.
    *  - `ctx.respond(data, options?)` — return an envelope. `options`
    *    carries `text` (override `content[0].text`), `nudge` (inline
-   *    text-suffix upsell copy), and the reserved `units` (V1.1
-   *    variable billing — V1 silently ignores).
+   *    text-suffix upsell copy), and `units` (bill a variable
+   *    quantity — tokens, images — instead of one unit per call).
    *  - `ctx.gate(reason?)` — stops handler execution and emits a
    *    paywall response through the adapter's `formatGate` channel.
    *    Rare — the SDK normally fires the paywall automatically via
    *    `payable().mcp()` pre-check.
-   *  - `ctx.emit(block)` / `ctx.progress(...)` / `ctx.signal` — reserved
-   *    streaming surface. V1 queues (emit) or no-ops (progress / signal);
-   *    V1.1 wires them to SSE and transport cancellation.
+   *  - `ctx.emit(block)` / `ctx.progress(...)` / `ctx.signal` — stream
+   *    blocks and `notifications/progress` over the call's SSE stream,
+   *    and abort on `notifications/cancelled`. A cancelled call is
+   *    recorded as a `cancelled` failure, not billed.
    *
    * Throwing anything other than `PaywallError` surfaces as a tool-level
    * error via `formatError`.
@@ -109,6 +110,24 @@ export interface RegisterPayableToolOptions<
     args: Record<string, unknown>,
     extra?: McpToolExtra,
   ) => string | Promise<string>
+  /**
+   * Units a call is expected to consume, e.g. derived from a
+   * `max_tokens` argument. A call whose estimate exceeds the customer's
+   * remaining allowance gets the paywall response without running the
+   * handler. Defaults to 1.
+   */
+  estimatedUnits?: number | ((args: Record<string, unknown>) => number | Promise<number>)
+  /**
+   * Meters checked and charged on every call — e.g. one request plus
+   * the tokens reported via `ctx.respond(data, { units: { tokens } })`.
+   * Defaults to the product's request meter.
+   */
+  meters?: Array<UsageMeterType | PaywallMeter>
+  /**
+   * Per-customer rate limit, e.g. `{ perCustomer: '60/min', burst: 10 }`.
+   * Calls over the limit get a narrated "try again in N seconds" result.
+   */
+  rateLimit?: RateLimitOptions
   /**
    * Additional `_meta` merged onto the tool **descriptor** (the tool
    * advertisement returned by `tools/list`).
@@ -158,6 +177,9 @@ export function registerPayableTool<
     handler,
     buildBootstrap,
     getCustomerRef,
+    estimatedUnits,
+    meters,
+    rateLimit,
     meta,
     annotations,
     icons,
@@ -165,7 +187,7 @@ export function registerPayableTool<
 
   const protectedHandler = buildPayableHandler(
     solvaPay,
-    { product, buildBootstrap, getCustomerRef },
+    { product, buildBootstrap, getCustomerRef, estimatedUnits, meters, rateLimit },
     handler as unknown as Parameters<typeof buildPayableHandler>[2],
   )
 
@@ -219,10 +241,16 @@ export function registerPayableTool<
     ...(icons !== undefined && icons.length > 0 ? { icons } : {}),
   }
 
+  // Without an `inputSchema` the SDK invokes the callback with `extra`
+  // as its only argument — shift it back so `getCustomerRef` sees the
+  // caller's `authInfo`.
   const toolCallback = async (
     args: Record<string, unknown>,
     extra?: McpToolExtra,
-  ): Promise<CallToolResult> => (await protectedHandler(args, extra)) as CallToolResult
+  ): Promise<CallToolResult> =>
+    (await (schema === undefined
+      ? protectedHandler({}, args as McpToolExtra)
+      : protectedHandler(args, extra))) as CallToolResult
 
   if (hasUiResource) {
     return registerAppTool(
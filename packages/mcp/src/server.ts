@@ -162,7 +162,10 @@ export function createSolvaPayMcpServer(options: CreateSolvaPayMcpServerOptions)
   // Apply the tools/list audience filter last so it sees every tool
   // registered by the descriptor loop + `additionalTools` hook.
   const { audiences, options: filterOptions } = normaliseHideToolsByAudience(hideToolsByAudience)
-  applyHideToolsByAudience(server, audiences, filterOptions)
+  applyHideToolsByAudience(server, audiences, {
+    ...filterOptions,
+    ...(descriptorOptions.logger !== undefined ? { logger: descriptorOptions.logger } : {}),
+  })
 
   return server
 }
@@ -5,6 +5,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@solvapay/mcp-core': resolve(__dirname, '../mcp-core/src'),
+      '@solvapay/mcp-fastmcp': resolve(__dirname, '../mcp-fastmcp/src'),
+      '@solvapay/mcp-jsonrpc': resolve(__dirname, '../mcp-jsonrpc/src'),
       '@solvapay/server': resolve(__dirname, '../server/src'),
       '@solvapay/core': resolve(__dirname, '../core/src'),
     },
@@ -66,6 +66,25 @@ describe('toNextRouteResponse', () => {
     expect(body).toEqual({ error: 'Not found', details: { resource: 'customer' } })
     expect(body.secret).toBeUndefined()
   })
+
+  it('forwards typed error metadata and Retry-After', async () => {
+    const response = toNextRouteResponse({
+      error: 'Check limits failed (429): slow down',
+      status: 429,
+      code: 'rate_limited',
+      requestId: 'req_1',
+      retryAfter: 30,
+    })
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('30')
+    expect(await response.json()).toEqual({
+      error: 'Check limits failed (429): slow down',
+      code: 'rate_limited',
+      requestId: 'req_1',
+      retryAfter: 30,
+    })
+  })
 })
 
 describe('getMerchant (route-wrapper smoke test)', () => {
@@ -5,7 +5,8 @@ import type { ErrorResult } from '@solvapay/server'
 /**
  * Wraps a `*Core` helper result into a `NextResponse`.
  *
- * - `ErrorResult` → `NextResponse.json({ error, details }, { status })`.
+ * - `ErrorResult` → `NextResponse.json({ error, details, code, … }, { status })`,
+ *   with a `Retry-After` header when the upstream call was rate limited.
  * - Anything else → `NextResponse.json(result)`.
  *
  * Lets each route-wrapper helper in `@solvapay/next/helpers` collapse to a
@@ -18,9 +19,13 @@ import type { ErrorResult } from '@solvapay/server'
  */
 export function toNextRouteResponse<T>(result: T | ErrorResult): NextResponse {
   if (isErrorResult(result)) {
+    const { error, details, code, requestId, fieldErrors, retryAfter } = result
     return NextResponse.json(
-      { error: result.error, details: result.details },
-      { status: result.status },
+      { error, details, code, requestId, fieldErrors, retryAfter },
+      {
+        status: result.status,
+        headers: retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : undefined,
+      },
     )
   }
   return NextResponse.json(result)
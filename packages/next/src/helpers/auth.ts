@@ -8,6 +8,7 @@ import { NextResponse } from 'next/server'
 import {
   getAuthenticatedUserCore,
   type AuthenticatedUser,
+  type GetAuthenticatedUserOptions,
   isErrorResult,
 } from '@solvapay/server'
 
@@ -22,6 +23,8 @@ import {
  * @param options - Configuration options
  * @param options.includeEmail - Whether to extract email from JWT token (default: true)
  * @param options.includeName - Whether to extract name from JWT token (default: true)
+ * @param options.jwt - JWKS / issuer / audience / claim-mapping overrides (default: env)
+ * @param options.trustGateway - Accept unverified tokens the gateway verified (default: env)
  * @returns Authenticated user info or NextResponse error
  *
  * @example
@@ -46,10 +49,7 @@ import {
  */
 export async function getAuthenticatedUser(
   request: globalThis.Request,
-  options: {
-    includeEmail?: boolean
-    includeName?: boolean
-  } = {},
+  options: GetAuthenticatedUserOptions = {},
 ): Promise<AuthenticatedUser | NextResponse> {
   const result = await getAuthenticatedUserCore(request, options)
 
@@ -32,6 +32,9 @@ export { getPaymentMethod } from './payment-method'
 // Export auto-recharge helpers
 export { disableAutoRecharge, getAutoRecharge, saveAutoRecharge } from './auto-recharge'
 
+// Export spending-limit helpers
+export { disableSpendingLimits, getSpendingLimits, saveSpendingLimits } from './spending-limits'
+
 // Export purchase cancellation & reactivation helpers
 export { cancelRenewal, reactivateRenewal } from './renewal'
 
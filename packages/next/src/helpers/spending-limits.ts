@@ -0,0 +1,42 @@
+import type { NextResponse } from 'next/server'
+import type { SpendingLimitsInput, SolvaPay } from '@solvapay/server'
+import {
+  disableSpendingLimitsCore,
+  getSpendingLimitsCore,
+  saveSpendingLimitsCore,
+} from '@solvapay/server'
+import { toNextRouteResponse } from './_response'
+
+type SpendingLimitsOptions = {
+  solvaPay?: SolvaPay
+  includeEmail?: boolean
+  includeName?: boolean
+}
+
+export async function getSpendingLimits(
+  request: globalThis.Request,
+  options: SpendingLimitsOptions = {},
+): Promise<NextResponse> {
+  const result = await getSpendingLimitsCore(request, options)
+  return toNextRouteResponse(result)
+}
+
+export async function saveSpendingLimits(
+  request: globalThis.Request,
+  inputOrOptions: SpendingLimitsInput | SpendingLimitsOptions = {},
+  maybeOptions: SpendingLimitsOptions = {},
+): Promise<NextResponse> {
+  const hasInput = 'currency' in inputOrOptions
+  const input = hasInput ? inputOrOptions : ((await request.json()) as SpendingLimitsInput)
+  const options = hasInput ? maybeOptions : inputOrOptions
+  const result = await saveSpendingLimitsCore(request, input, options)
+  return toNextRouteResponse(result)
+}
+
+export async function disableSpendingLimits(
+  request: globalThis.Request,
+  options: SpendingLimitsOptions = {},
+): Promise<NextResponse> {
+  const result = await disableSpendingLimitsCore(request, options)
+  return toNextRouteResponse(result)
+}
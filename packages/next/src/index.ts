@@ -138,6 +138,9 @@ export {
   getAutoRecharge,
   saveAutoRecharge,
   disableAutoRecharge,
+  getSpendingLimits,
+  saveSpendingLimits,
+  disableSpendingLimits,
   trackUsage,
   createAuth0AuthMiddleware,
   createAuthMiddleware,
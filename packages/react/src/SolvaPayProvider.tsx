@@ -40,6 +40,7 @@ import {
   setCachedCustomerRef,
   clearCachedCustomerRef,
 } from './utils/headers'
+import { createConsoleLogger, withRedaction, type Logger } from '@solvapay/core'
 import { createHttpTransport } from './transport/http'
 import type { CreditDisplayBlock, SolvaPayTransport } from './transport/types'
 import { CopyProvider } from './i18n/context'
@@ -50,6 +51,10 @@ function resolveTransport(config: SolvaPayConfig | undefined): SolvaPayTransport
   return config?.transport ?? createHttpTransport(config)
 }
 
+function resolveLogger(config: SolvaPayConfig | undefined): Logger {
+  return withRedaction(config?.logger ?? createConsoleLogger())
+}
+
 /**
  * SolvaPay Provider - Headless Context Provider for React.
  *
@@ -154,6 +159,7 @@ export const SolvaPayProvider: React.FC<SolvaPayProviderProps> = ({ config, chil
 
   const configRef = useRef(config)
   const transportRef = useRef<SolvaPayTransport>(resolveTransport(config))
+  const loggerRef = useRef<Logger>(resolveLogger(config))
   const [hasProcessTopupPayment, setHasProcessTopupPayment] = useState<boolean>(
     () => !!transportRef.current.processTopupPayment,
   )
@@ -161,6 +167,7 @@ export const SolvaPayProvider: React.FC<SolvaPayProviderProps> = ({ config, chil
   useEffect(() => {
     configRef.current = config
     transportRef.current = resolveTransport(config)
+    loggerRef.current = resolveLogger(config)
     setHasProcessTopupPayment(!!transportRef.current.processTopupPayment)
     setHasAttachBusinessDetails(!!transportRef.current.attachBusinessDetails)
   }, [config])
@@ -203,7 +210,7 @@ export const SolvaPayProvider: React.FC<SolvaPayProviderProps> = ({ config, chil
       setDisplayBlockValue(data.display ?? null)
       balanceLoadedRef.current = true
     } catch (error) {
-      console.error('[SolvaPayProvider] Failed to fetch balance:', error)
+      loggerRef.current.error('[SolvaPayProvider] Failed to fetch balance', { error })
     } finally {
       setBalanceLoading(false)
       balanceInFlightRef.current = false
@@ -294,7 +301,10 @@ export const SolvaPayProvider: React.FC<SolvaPayProviderProps> = ({ config, chil
             continue
           }
         } catch (error) {
-          console.error('[SolvaPayProvider] Failed to reconcile balance after auto-recharge:', error)
+          loggerRef.current.error(
+            '[SolvaPayProvider] Failed to reconcile balance after auto-recharge',
+            { error },
+          )
         }
 
         finishReconcilePoll()
@@ -515,7 +525,7 @@ export const SolvaPayProvider: React.FC<SolvaPayProviderProps> = ({ config, chil
           setPurchaseError(null)
         }
       } catch (err) {
-        console.error('[SolvaPayProvider] Failed to fetch purchase:', err)
+        loggerRef.current.error('[SolvaPayProvider] Failed to fetch purchase', { error: err })
         if (inFlightRef.current === cacheKey) {
           setPurchaseError(err instanceof Error ? err : new Error(String(err)))
         }
@@ -566,7 +576,7 @@ export const SolvaPayProvider: React.FC<SolvaPayProviderProps> = ({ config, chil
         const next = await refresh()
         if (next) applyInitialRef.current?.(next)
       } catch (err) {
-        console.error('[SolvaPayProvider] refetchPurchase (MCP) failed:', err)
+        loggerRef.current.error('[SolvaPayProvider] refetchPurchase (MCP) failed', { error: err })
       } finally {
         setIsRefetching(false)
       }
@@ -622,7 +632,7 @@ export const SolvaPayProvider: React.FC<SolvaPayProviderProps> = ({ config, chil
         const next = await refresh()
         if (next) applyInitial(next)
       } catch (err) {
-        console.error('[SolvaPayProvider] refreshBootstrap failed:', err)
+        loggerRef.current.error('[SolvaPayProvider] refreshBootstrap failed', { error: err })
       }
       return
     }
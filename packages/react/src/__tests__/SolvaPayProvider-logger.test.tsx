@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import React from 'react'
+import type { Logger } from '@solvapay/core'
+import { SolvaPayProvider } from '../SolvaPayProvider'
+import { useSolvaPay } from '../hooks/useSolvaPay'
+import { useLogger } from '../hooks/useLogger'
+
+const mockAdapter = {
+  getToken: vi.fn().mockResolvedValue('test-token'),
+  getUserId: vi.fn().mockResolvedValue('user-123'),
+}
+
+function createLogger() {
+  return {
+    debug: vi.fn<Logger['debug']>(),
+    info: vi.fn<Logger['info']>(),
+    warn: vi.fn<Logger['warn']>(),
+    error: vi.fn<Logger['error']>(),
+  }
+}
+
+describe('SolvaPayProvider - logger', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockRejectedValue(new Error('Lookup failed for jane@example.com')),
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('sends provider failures to config.logger with the error redacted', async () => {
+    const logger = createLogger()
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <SolvaPayProvider config={{ auth: { adapter: mockAdapter }, logger }}>
+        {children}
+      </SolvaPayProvider>
+    )
+
+    renderHook(() => useSolvaPay(), { wrapper })
+
+    await waitFor(() => {
+      expect(logger.error).toHaveBeenCalledWith('[SolvaPayProvider] Failed to fetch purchase', {
+        error: expect.objectContaining({
+          message: expect.stringContaining('[REDACTED_EMAIL]'),
+        }),
+      })
+    })
+    expect(JSON.stringify(logger.error.mock.calls)).not.toContain('jane@example.com')
+  })
+
+  it('useLogger falls back to a redacting console logger outside the provider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const { result } = renderHook(() => useLogger())
+
+    result.current.error('Payment failed', { secret: 'pi_123_secret_456' })
+
+    expect(consoleError).toHaveBeenCalledWith('Payment failed', { secret: '[REDACTED]' })
+  })
+})
@@ -0,0 +1,74 @@
+import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import React from 'react'
+import { Entitled } from './Entitled'
+import { SolvaPayContext } from '../SolvaPayProvider'
+import type { PurchaseInfo, SolvaPayContextValue } from '../types'
+import { mockBalanceStatus } from '../test-helpers/mockBalanceStatus'
+
+const proPurchase: PurchaseInfo = {
+  reference: 'pur_pro',
+  productName: 'App',
+  productRef: 'prd_app',
+  status: 'active',
+  startDate: '2025-01-01T00:00:00Z',
+  planSnapshot: { reference: 'pln_pro', name: 'Pro', features: { sso: true } },
+}
+
+function ctxWith(purchases: PurchaseInfo[], loading = false): SolvaPayContextValue {
+  return {
+    purchase: {
+      loading,
+      isRefetching: false,
+      error: null,
+      purchases,
+      hasProduct: () => false,
+      activePurchase: null,
+      hasPaidPurchase: false,
+      activePaidPurchase: null,
+      balanceTransactions: [],
+    },
+    refetchPurchase: vi.fn(),
+    upsertPurchase: vi.fn(),
+    createPayment: vi.fn(),
+    createTopupPayment: vi.fn(),
+    cancelRenewal: vi.fn(),
+    reactivateRenewal: vi.fn(),
+    activatePlan: vi.fn(),
+    balance: mockBalanceStatus(),
+  }
+}
+
+function renderGate(ctx: SolvaPayContextValue, feature = 'sso') {
+  return render(
+    <SolvaPayContext.Provider value={ctx}>
+      <Entitled
+        feature={feature}
+        fallback={<div data-testid="upsell">upgrade</div>}
+        loading={<div data-testid="loading">loading</div>}
+      >
+        <div data-testid="feature">sso settings</div>
+      </Entitled>
+    </SolvaPayContext.Provider>,
+  )
+}
+
+describe('Entitled', () => {
+  it('renders children when the plan enables the feature', () => {
+    renderGate(ctxWith([proPurchase]))
+    expect(screen.getByTestId('feature')).toBeTruthy()
+    expect(screen.queryByTestId('upsell')).toBeNull()
+  })
+
+  it('renders the fallback when the plan does not', () => {
+    renderGate(ctxWith([proPurchase]), 'exports')
+    expect(screen.getByTestId('upsell')).toBeTruthy()
+    expect(screen.queryByTestId('feature')).toBeNull()
+  })
+
+  it('renders the loading slot until purchases load', () => {
+    renderGate(ctxWith([proPurchase], true))
+    expect(screen.getByTestId('loading')).toBeTruthy()
+    expect(screen.queryByTestId('feature')).toBeNull()
+  })
+})
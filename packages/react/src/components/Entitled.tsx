@@ -0,0 +1,46 @@
+'use client'
+
+/**
+ * Renders `children` only when the customer's plan enables a feature.
+ *
+ * A presentation gate over `useEntitlement` — hide or swap UI the plan
+ * doesn't include. Enforce access on the server with
+ * `solvaPay.requireEntitlement()`.
+ */
+
+import React from 'react'
+import { useEntitlement } from '../hooks/useEntitlement'
+
+export interface EntitledProps {
+  /** Feature key (or plan limit, e.g. `'seats'`) the plan must enable. */
+  feature: string
+  /** Only count purchases of this product. */
+  productRef?: string
+  /** Rendered when the plan does not include the feature. */
+  fallback?: React.ReactNode
+  /** Rendered while purchases load (default: nothing). */
+  loading?: React.ReactNode
+  children?: React.ReactNode
+}
+
+/**
+ * @example
+ * ```tsx
+ * <Entitled feature="sso" fallback={<UpgradeCard plan="Pro" />}>
+ *   <SsoSettings />
+ * </Entitled>
+ * ```
+ *
+ * @since 1.7.0
+ */
+export const Entitled: React.FC<EntitledProps> = ({
+  feature,
+  productRef,
+  fallback = null,
+  loading = null,
+  children,
+}) => {
+  const entitlement = useEntitlement(feature, { productRef })
+  if (entitlement.loading) return <>{loading}</>
+  return <>{entitlement.entitled ? children : fallback}</>
+}
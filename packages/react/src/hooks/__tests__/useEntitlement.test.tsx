@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useEntitlement } from '../useEntitlement'
+import * as useSolvaPayModule from '../useSolvaPay'
+import type { PurchaseInfo, PurchaseStatus, SolvaPayContextValue } from '../../types'
+import { mockBalanceStatus } from '../../test-helpers/mockBalanceStatus'
+
+const createPurchase = (overrides: Partial<PurchaseInfo> = {}): PurchaseInfo => ({
+  reference: 'pur_pro',
+  productName: 'App',
+  productRef: 'prd_app',
+  status: 'active',
+  startDate: '2025-01-01T00:00:00Z',
+  amount: 2900,
+  planRef: 'pln_pro',
+  planSnapshot: {
+    reference: 'pln_pro',
+    name: 'Pro',
+    features: { sso: true, exports: false, projects: 5 },
+    limits: { seats: 10 },
+  },
+  ...overrides,
+})
+
+const createContextValue = (purchase: Partial<PurchaseStatus>): SolvaPayContextValue => ({
+  purchase: {
+    loading: false,
+    isRefetching: false,
+    error: null,
+    purchases: [],
+    hasProduct: vi.fn(() => false),
+    activePurchase: null,
+    hasPaidPurchase: false,
+    activePaidPurchase: null,
+    balanceTransactions: [],
+    ...purchase,
+  },
+  refetchPurchase: vi.fn(() => Promise.resolve()),
+  upsertPurchase: vi.fn(),
+  createPayment: vi.fn(),
+  createTopupPayment: vi.fn(),
+  cancelRenewal: vi.fn(),
+  reactivateRenewal: vi.fn(),
+  activatePlan: vi.fn(),
+  customerRef: 'cus_test',
+  balance: mockBalanceStatus(),
+})
+
+vi.mock('../useSolvaPay', () => ({
+  useSolvaPay: vi.fn(),
+}))
+
+const withPurchases = (purchases: PurchaseInfo[], overrides: Partial<PurchaseStatus> = {}) =>
+  vi
+    .mocked(useSolvaPayModule.useSolvaPay)
+    .mockReturnValue(createContextValue({ purchases, ...overrides }))
+
+describe('useEntitlement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('reports features enabled by the active plan', () => {
+    withPurchases([createPurchase()])
+
+    const { result } = renderHook(() => useEntitlement('sso'))
+
+    expect(result.current).toMatchObject({
+      entitled: true,
+      value: true,
+      plan: { reference: 'pln_pro', name: 'Pro' },
+      loading: false,
+    })
+  })
+
+  it('reports disabled and unknown features as not entitled', () => {
+    withPurchases([createPurchase()])
+
+    expect(renderHook(() => useEntitlement('exports')).result.current).toMatchObject({
+      entitled: false,
+      value: false,
+      plan: null,
+    })
+    expect(renderHook(() => useEntitlement('audit_log')).result.current.value).toBeUndefined()
+  })
+
+  it('falls back to plan limits and merges plans across products', () => {
+    withPurchases([
+      createPurchase(),
+      createPurchase({
+        reference: 'pur_addon',
+        productRef: 'prd_addon',
+        startDate: '2025-02-01T00:00:00Z',
+        planSnapshot: { reference: 'pln_addon', features: { exports: true, projects: 20 } },
+      }),
+    ])
+
+    expect(renderHook(() => useEntitlement('seats')).result.current.value).toBe(10)
+    expect(renderHook(() => useEntitlement('projects')).result.current).toMatchObject({
+      value: 20,
+      plan: { reference: 'pln_addon' },
+    })
+    expect(
+      renderHook(() => useEntitlement('exports', { productRef: 'prd_app' })).result.current
+        .entitled,
+    ).toBe(false)
+  })
+
+  it('ignores inactive purchases and credit top-ups', () => {
+    withPurchases([
+      createPurchase({ status: 'cancelled' }),
+      createPurchase({ reference: 'pur_topup', metadata: { purpose: 'credit_topup' } }),
+    ])
+
+    expect(renderHook(() => useEntitlement('sso')).result.current.entitled).toBe(false)
+  })
+
+  it('is not entitled while purchases load', () => {
+    withPurchases([createPurchase()], { loading: true })
+
+    expect(renderHook(() => useEntitlement('sso')).result.current).toMatchObject({
+      entitled: false,
+      loading: true,
+    })
+  })
+})
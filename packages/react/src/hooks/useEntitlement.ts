@@ -0,0 +1,79 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useSolvaPay } from './useSolvaPay'
+import { isEntitlementEnabled, resolveEntitlement } from '../utils/entitlements'
+
+export interface UseEntitlementOptions {
+  /** Only count purchases of this product. */
+  productRef?: string
+}
+
+export interface UseEntitlementReturn {
+  /** Whether an active plan enables the feature. `false` while loading. */
+  entitled: boolean
+  /**
+   * Raw value — a feature flag, or the plan limit when no plan sets a
+   * feature of that name (e.g. `10` for `'seats'`). `undefined` when no
+   * active plan mentions the key.
+   */
+  value: unknown
+  /** The plan that grants the feature, or `null`. */
+  plan: { reference?: string; name?: string | null } | null
+  loading: boolean
+  error: Error | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to check a plan feature or limit.
+ *
+ * Reads the plan snapshots on the customer's active purchases, which
+ * the provider already loads — no extra request, and nothing is
+ * metered. Mirrors `solvaPay.entitlements()` on the server, which
+ * remains the place to enforce access.
+ *
+ * @param key - Feature key, or a plan limit such as `'seats'`
+ * @param options - `productRef` to scope the check to one product
+ *
+ * @example
+ * ```tsx
+ * import { useEntitlement } from '@solvapay/react';
+ *
+ * function ExportButton() {
+ *   const { entitled, loading } = useEntitlement('exports');
+ *   if (loading) return null;
+ *   return <button disabled={!entitled}>Export CSV</button>;
+ * }
+ * ```
+ *
+ * @see {@link Entitled} for a declarative gate
+ * @since 1.7.0
+ */
+export function useEntitlement(
+  key: string,
+  options: UseEntitlementOptions = {},
+): UseEntitlementReturn {
+  const { purchase, refetchPurchase } = useSolvaPay()
+  const { productRef } = options
+
+  const resolved = useMemo(
+    () => resolveEntitlement(purchase.purchases, key, productRef),
+    [purchase.purchases, key, productRef],
+  )
+
+  const snapshot = resolved.purchase?.planSnapshot
+  return {
+    entitled: !purchase.loading && isEntitlementEnabled(resolved.value),
+    value: resolved.value,
+    plan: resolved.purchase
+      ? {
+          reference: snapshot?.reference ?? resolved.purchase.planRef,
+          name: snapshot?.name ?? null,
+        }
+      : null,
+    loading: purchase.loading,
+    error: purchase.error,
+    refetch: refetchPurchase,
+  }
+}
@@ -0,0 +1,18 @@
+import { useContext, useMemo } from 'react'
+import { createConsoleLogger, withRedaction, type Logger } from '@solvapay/core'
+import { SolvaPayContext } from '../SolvaPayProvider'
+
+/**
+ * Returns the provider's logger: `config.logger` when set, otherwise a
+ * console logger. Either way messages and fields are redacted before they
+ * are written.
+ *
+ * Works outside a `SolvaPayProvider` (falls back to the console logger),
+ * so primitives can log without requiring one.
+ *
+ * @since 1.7.0
+ */
+export function useLogger(): Logger {
+  const logger = useContext(SolvaPayContext)?._config?.logger
+  return useMemo(() => withRedaction(logger ?? createConsoleLogger()), [logger])
+}
@@ -83,6 +83,9 @@ export function usePaywallResolver(
       return balanceCoversNextUnit(content.balance, credits)
     }
 
+    // rate_limited — clears with time, not with a purchase or topup.
+    if (content.kind === 'rate_limited') return false
+
     // activation_required — resolves once the customer has an active
     // purchase on the product, OR their credit balance covers the next
     // remaining unit.
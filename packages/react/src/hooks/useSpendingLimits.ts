@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type {
+  SaveSpendingLimitsResponse,
+  SpendingLimitsConfig,
+  SpendingLimitsInput,
+} from '@solvapay/server'
+import { useSolvaPay } from './useSolvaPay'
+import { createHttpTransport } from '../transport/http'
+import { createTransportCacheKey } from '../transport/cache-key'
+import type { SolvaPayConfig } from '../types'
+
+export type UseSpendingLimitsReturn = {
+  /** Saved limits, or `null` when the customer has none. */
+  config: SpendingLimitsConfig | null
+  loading: boolean
+  saving: boolean
+  disabling: boolean
+  error: Error | null
+  refresh: () => Promise<void>
+  save: (input: SpendingLimitsInput) => Promise<SaveSpendingLimitsResponse>
+  /** Remove the cap and alerts. */
+  disable: () => Promise<{ success: true }>
+}
+
+type CacheEntry = {
+  config: SpendingLimitsConfig | null
+  promise: Promise<SpendingLimitsConfig | null> | null
+  timestamp: number
+}
+
+const spendingLimitsCache = new Map<string, CacheEntry>()
+const CACHE_DURATION = 5 * 60 * 1000
+
+/** @internal Exported only for tests — do not use in application code */
+export { spendingLimitsCache, CACHE_DURATION }
+
+function cacheKeyFor(config: SolvaPayConfig | undefined): string {
+  return createTransportCacheKey(config, config?.api?.spendingLimits || '/api/spending-limits')
+}
+
+async function fetchSpendingLimits(
+  config: SolvaPayConfig | undefined,
+): Promise<SpendingLimitsConfig | null> {
+  const transport = config?.transport ?? createHttpTransport(config)
+  if (!transport.getSpendingLimits) return null
+  const response = await transport.getSpendingLimits()
+  return response.config
+}
+
+function toError(caught: unknown): Error {
+  return caught instanceof Error ? caught : new Error(String(caught))
+}
+
+/**
+ * Hook for the customer's spending limits: a hard monthly cap on
+ * metered spend and the percentages of it that send a budget alert.
+ * Once spend reaches the cap, paywalled calls are gated until the next
+ * month or until the customer raises the cap.
+ *
+ * Caches per transport like `usePaymentMethod`, so several consumers
+ * share one request.
+ *
+ * @example
+ * ```tsx
+ * const { config, save } = useSpendingLimits()
+ *
+ * await save({ monthlyCapMajor: 100, alertThresholds: [50, 80], currency: 'USD' })
+ * ```
+ *
+ * @see {@link SpendingLimits} for the compound primitive
+ * @since 1.7.0
+ */
+export function useSpendingLimits(): UseSpendingLimitsReturn {
+  const { _config } = useSolvaPay()
+  const key = cacheKeyFor(_config)
+
+  const [config, setConfig] = useState<SpendingLimitsConfig | null>(
+    () => spendingLimitsCache.get(key)?.config ?? null,
+  )
+  const [loading, setLoading] = useState(() => !spendingLimitsCache.has(key))
+  const [saving, setSaving] = useState(false)
+  const [disabling, setDisabling] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  // Bumped by writes so a load that resolves after a save cannot
+  // overwrite the saved config with the stale one.
+  const requestSeq = useRef(0)
+
+  const load = useCallback(
+    async (force = false) => {
+      const seq = requestSeq.current
+      const cached = spendingLimitsCache.get(key)
+      const now = Date.now()
+
+      if (!force && cached && !cached.promise && now - cached.timestamp < CACHE_DURATION) {
+        setConfig(cached.config)
+        setLoading(false)
+        return
+      }
+
+      setLoading(true)
+      setError(null)
+      const promise = !force && cached?.promise ? cached.promise : fetchSpendingLimits(_config)
+      spendingLimitsCache.set(key, { config: cached?.config ?? null, promise, timestamp: now })
+
+      try {
+        const value = await promise
+        if (seq !== requestSeq.current) return
+        spendingLimitsCache.set(key, { config: value, promise: null, timestamp: Date.now() })
+        setConfig(value)
+      } catch (caught) {
+        spendingLimitsCache.delete(key)
+        if (seq !== requestSeq.current) return
+        setError(toError(caught))
+      } finally {
+        if (seq === requestSeq.current) setLoading(false)
+      }
+    },
+    [_config, key],
+  )
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const refresh = useCallback(() => load(true), [load])
+
+  const save = useCallback(
+    async (input: SpendingLimitsInput) => {
+      const transport = _config?.transport ?? createHttpTransport(_config)
+      if (!transport.saveSpendingLimits) {
+        throw new Error('saveSpendingLimits is not available on this transport')
+      }
+      setSaving(true)
+      setError(null)
+      const seq = ++requestSeq.current
+      try {
+        const result = await transport.saveSpendingLimits(input)
+        if (seq === requestSeq.current) {
+          spendingLimitsCache.set(key, {
+            config: result.config,
+            promise: null,
+            timestamp: Date.now(),
+          })
+          setConfig(result.config)
+          setLoading(false)
+        }
+        return result
+      } catch (caught) {
+        const err = toError(caught)
+        setError(err)
+        throw err
+      } finally {
+        setSaving(false)
+      }
+    },
+    [_config, key],
+  )
+
+  const disable = useCallback(async () => {
+    const transport = _config?.transport ?? createHttpTransport(_config)
+    if (!transport.disableSpendingLimits) {
+      throw new Error('disableSpendingLimits is not available on this transport')
+    }
+    setDisabling(true)
+    setError(null)
+    const seq = ++requestSeq.current
+    try {
+      const result = await transport.disableSpendingLimits()
+      if (seq === requestSeq.current) {
+        spendingLimitsCache.set(key, { config: null, promise: null, timestamp: Date.now() })
+        setConfig(null)
+        setLoading(false)
+      }
+      return result
+    } catch (caught) {
+      const err = toError(caught)
+      setError(err)
+      throw err
+    } finally {
+      setDisabling(false)
+    }
+  }, [_config, key])
+
+  return { config, loading, saving, disabling, error, refresh, save, disable }
+}
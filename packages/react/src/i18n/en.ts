@@ -168,6 +168,25 @@ export const enCopy: SolvaPayCopy = {
     taxDisclosure: 'Plus applicable tax.',
     statusFailed: 'Payment failed — update your card to resume',
   },
+  spendingLimits: {
+    heading: 'Spending limits',
+    description:
+      'Cap what you can spend each month. Calls stop once you reach the cap, until it resets next month.',
+    capLabel: 'Monthly spending cap',
+    capAriaLabel: 'Monthly spending cap',
+    capPlaceholder: 'No limit',
+    alertsLabel: 'Email me when I reach',
+    alertOptionLabel: '{percent}%',
+    monthlySpendLine: '{spent} / {cap} this month',
+    capReached: 'Monthly spending cap reached. Raise it to keep going.',
+    warning: "You've used {percent}% of your monthly spending cap.",
+    saveButton: 'Save limits',
+    removeButton: 'Remove limit',
+    savedMessage: 'Spending limits saved.',
+    removedMessage: 'Spending limit removed.',
+    invalidCap: 'Monthly spending cap must be a positive amount.',
+    loadingLabel: 'Loading spending limits…',
+  },
   activationFlow: {
     heading: 'Confirm your plan',
     activateButton: 'Activate',
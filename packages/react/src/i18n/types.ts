@@ -147,6 +147,24 @@ export interface SolvaPayCopy {
     taxDisclosure: string
     statusFailed: string
   }
+  spendingLimits: {
+    heading: string
+    description: string
+    capLabel: string
+    capAriaLabel: string
+    capPlaceholder: string
+    alertsLabel: string
+    alertOptionLabel: string
+    monthlySpendLine: string
+    capReached: string
+    warning: string
+    saveButton: string
+    removeButton: string
+    savedMessage: string
+    removedMessage: string
+    invalidCap: string
+    loadingLabel: string
+  }
   activationFlow: {
     heading: string
     activateButton: string
@@ -28,6 +28,7 @@ export { ActivationFlow } from './components/ActivationFlow'
 export { CancelPlanButton } from './components/CancelPlanButton'
 export { CancelledPlanNotice } from './components/CancelledPlanNotice'
 export { CreditGate } from './components/CreditGate'
+export { Entitled } from './components/Entitled'
 
 // Account-management (phase 2 — MCP slice)
 export { CurrentPlanCard } from './components/CurrentPlanCard'
@@ -59,12 +60,17 @@ export { useBalance } from './hooks/useBalance'
 export { useTopupAmountSelector } from './hooks/useTopupAmountSelector'
 export { usePaymentMethod } from './hooks/usePaymentMethod'
 export { useAutoRecharge } from './hooks/useAutoRecharge'
+export { useSpendingLimits } from './hooks/useSpendingLimits'
 export { configToAutoRechargeInput } from './helpers/auto-recharge-form'
 export { useTransport } from './hooks/useTransport'
+export { useLogger } from './hooks/useLogger'
 export { useUsage } from './hooks/useUsage'
 export type { UsageSnapshot, UseUsageReturn } from './hooks/useUsage'
+export type { UseSpendingLimitsReturn } from './hooks/useSpendingLimits'
 export { useLimits } from './hooks/useLimits'
 export type { UseLimitsOptions, UseLimitsReturn } from './hooks/useLimits'
+export { useEntitlement } from './hooks/useEntitlement'
+export type { UseEntitlementOptions, UseEntitlementReturn } from './hooks/useEntitlement'
 export { useAutoActivateFreePlan } from './hooks/useAutoActivateFreePlan'
 export type {
   UseAutoActivateFreePlanOptions,
@@ -155,6 +161,7 @@ export type { AmountPickerProps } from './components/AmountPicker'
 export type { ActivationFlowProps, ActivationFlowStep } from './components/ActivationFlow'
 export type { CancelledPlanNoticeProps } from './components/CancelledPlanNotice'
 export type { CreditGateProps } from './components/CreditGate'
+export type { EntitledProps } from './components/Entitled'
 export type { CheckoutVariant } from './utils/checkoutVariant'
 export type { CurrentPlanCardProps, CurrentPlanCardClassNames } from './components/CurrentPlanCard'
 export type { AutoRechargeProps } from './components/AutoRecharge'
@@ -19,6 +19,7 @@
  */
 
 import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { createConsoleLogger, withRedaction, type Logger } from '@solvapay/core'
 import { SolvaPayProvider } from '../SolvaPayProvider'
 import type { SolvaPayMcpViewKind } from '@solvapay/mcp-core'
 import { VIEW_FOR_TOOL } from '@solvapay/mcp-core'
@@ -151,6 +152,13 @@ export interface McpAppProps {
    * silently no-op regardless.
    */
   messageOnSuccess?: McpMessageOnSuccess
+  /**
+   * Logger for the app and the `SolvaPayProvider` it mounts (forwarded
+   * as `config.logger`). Defaults to the console, redacted.
+   *
+   * @since 1.7.0
+   */
+  logger?: Logger
 }
 
 /**
@@ -197,6 +205,7 @@ export function McpApp({
   applyContext,
   onClose,
   messageOnSuccess,
+  logger,
 }: McpAppProps) {
   const cx = resolveMcpClassNames(classNames)
   const [bootstrap, setBootstrap] = useState<McpBootstrap | null>(null)
@@ -221,6 +230,10 @@ export function McpApp({
   // host theme/font update.
   const applyContextRef = useRef(applyContext)
   const onInitErrorRef = useRef(onInitError)
+  const loggerRef = useRef(withRedaction(logger ?? createConsoleLogger()))
+  useEffect(() => {
+    loggerRef.current = withRedaction(logger ?? createConsoleLogger())
+  }, [logger])
   useEffect(() => {
     applyContextRef.current = applyContext
   }, [applyContext])
@@ -332,9 +345,9 @@ export function McpApp({
         }
         // Post-mount non-bootstrap or errored payload — ignore silently.
         // The mounted view survives.
-        if (typeof console !== 'undefined') {
-          console.debug('[solvapay] non-bootstrap tool-result notification:', err)
-        }
+        loggerRef.current.debug('[solvapay] non-bootstrap tool-result notification', {
+          error: err,
+        })
       }
     }
 
@@ -480,6 +493,7 @@ export function McpApp({
         },
         transport,
         initial,
+        ...(logger ? { logger } : {}),
         refreshInitial: async (): Promise<SolvaPayProviderInitial | null> => {
           // Re-fetch the bootstrap payload by replaying the host-invoked
           // intent tool (`fetchMcpBootstrap` infers it from host context —
@@ -493,7 +507,7 @@ export function McpApp({
       }
       return resolved
     },
-    [transport, initial, app],
+    [transport, initial, app, logger],
   )
 
   // Seed the module-level hook caches synchronously during render,
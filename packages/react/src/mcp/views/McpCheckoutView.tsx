@@ -20,6 +20,7 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTransport } from '../../hooks/useTransport'
+import { useLogger } from '../../hooks/useLogger'
 import { usePurchase } from '../../hooks/usePurchase'
 import { usePurchaseStatus } from '../../hooks/usePurchaseStatus'
 import { useStripeProbe } from '../useStripeProbe'
@@ -368,6 +369,7 @@ function HostedCheckout({
   const { cancelledPurchase, shouldShowCancelledNotice, formatDate, getDaysUntilExpiration } =
     usePurchaseStatus()
   const transport = useTransport()
+  const logger = useLogger()
 
   const [awaiting, setAwaiting] = useState<AwaitingState | null>(null)
   const [awaitingTimedOut, setAwaitingTimedOut] = useState(false)
@@ -392,9 +394,9 @@ function HostedCheckout({
 
   const safeRefetch = useCallback(() => {
     refetch().catch(err => {
-      console.warn('[solvapay-mcp] refetch failed', err)
+      logger.warn('[solvapay-mcp] refetch failed', { error: err })
     })
-  }, [refetch])
+  }, [refetch, logger])
 
   useEffect(() => {
     const onFocus = () => safeRefetch()
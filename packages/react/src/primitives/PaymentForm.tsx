@@ -40,6 +40,7 @@ import { MissingProviderError } from '../utils/errors'
 import { useCheckout } from '../hooks/useCheckout'
 import { usePurchase } from '../hooks/usePurchase'
 import { useSolvaPay } from '../hooks/useSolvaPay'
+import { useLogger } from '../hooks/useLogger'
 import { useCustomer } from '../hooks/useCustomer'
 import { useCopy, useLocale } from '../hooks/useCopy'
 import { usePlan } from '../hooks/usePlan'
@@ -132,6 +133,7 @@ const Root = forwardRef<HTMLElement, PaymentFormRootProps>(
 
     const copy = useCopy()
     const locale = useLocale()
+    const logger = useLogger()
     const planSelection = usePlanSelection()
     const effectivePlanRef = planRef ?? planSelection?.selectedPlanRef ?? undefined
     const effectiveProductRef = productRef ?? planSelection?.productRef
@@ -170,14 +172,22 @@ const Root = forwardRef<HTMLElement, PaymentFormRootProps>(
       ) {
         hasInitializedRef.current = true
         startCheckout().catch(error => {
-          console.error('[PaymentForm] startCheckout failed', error)
+          logger.error('[PaymentForm] startCheckout failed', { error })
           hasInitializedRef.current = false
         })
       }
       if (hasPlanOrProduct && clientSecret) {
         hasInitializedRef.current = true
       }
-    }, [hasPlanOrProduct, checkoutLoading, checkoutError, clientSecret, startCheckout, isFreePlan])
+    }, [
+      hasPlanOrProduct,
+      checkoutLoading,
+      checkoutError,
+      clientSecret,
+      startCheckout,
+      isFreePlan,
+      logger,
+    ])
 
     const finalReturnUrl = returnUrl || (typeof window !== 'undefined' ? window.location.href : '/')
 
@@ -349,6 +359,7 @@ const PaidInner: React.FC<{
   const stripe = useStripe()
   const elements = useElements()
   const copy = useCopy()
+  const logger = useLogger()
   const customer = useCustomer()
   const { processPayment, upsertPurchase } = useSolvaPay()
   const { refetch } = usePurchase()
@@ -453,7 +464,10 @@ const PaidInner: React.FC<{
           try {
             await refetch()
           } catch (error) {
-            console.error('[PaymentForm] secondary purchase refetch failed after return-path success', error)
+            logger.error(
+              '[PaymentForm] secondary purchase refetch failed after return-path success',
+              { error },
+            )
           }
         }
         onSuccess?.(paymentIntent)
@@ -486,6 +500,7 @@ const PaidInner: React.FC<{
     onSuccess,
     onResult,
     onError,
+    logger,
   ])
 
   const isReady = !!(stripe && elements)
@@ -592,7 +607,9 @@ const PaidInner: React.FC<{
           try {
             await refetch()
           } catch (error) {
-            console.error('[PaymentForm] secondary purchase refetch failed after submit success', error)
+            logger.error('[PaymentForm] secondary purchase refetch failed after submit success', {
+              error,
+            })
           }
         }
 
@@ -630,6 +647,7 @@ const PaidInner: React.FC<{
     onSuccess,
     onResult,
     onError,
+    logger,
     requiresBusinessAttach,
     businessDetailsAttached,
     runAttach,
@@ -740,6 +758,7 @@ const FreeInner: React.FC<{
   children,
 }) => {
   const copy = useCopy()
+  const logger = useLogger()
   const { refetch } = usePurchase()
   const { activate, state, error: activationError, result: activationResult } = useActivation()
   const [termsAccepted, setTermsAccepted] = useState(false)
@@ -752,10 +771,10 @@ const FreeInner: React.FC<{
       const res: ActivationResult = { kind: 'activated', result: activationResult }
       onResult?.(res)
       refetch().catch(error => {
-        console.error('[PaymentForm] purchase refetch failed after activation', error)
+        logger.error('[PaymentForm] purchase refetch failed after activation', { error })
       })
     }
-  }, [state, activationResult, onResult, refetch])
+  }, [state, activationResult, onResult, refetch, logger])
 
   const isProcessing = state === 'activating'
   const canSubmit = !isProcessing && (!requireTermsAcceptance || termsAccepted) && !!productRef
@@ -331,8 +331,8 @@ const Balance = forwardRef<HTMLDivElement, LeafProps>(function PaywallNoticeBala
 ) {
   const ctx = usePaywallNoticeCtx('Balance')
   const copy = useCopy()
-  const balance = ctx.content.balance
-  if (ctx.content.kind !== 'activation_required' || !balance) return null
+  const balance = ctx.content.kind === 'activation_required' ? ctx.content.balance : undefined
+  if (!balance) return null
   const label = interpolate(copy.paywall.balanceLine, {
     available: String(balance.remainingUnits ?? 0),
     required: String(balance.creditsPerUnit ?? 1),
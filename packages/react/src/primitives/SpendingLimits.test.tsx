@@ -0,0 +1,136 @@
+/// <reference types="@testing-library/jest-dom" />
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import React from 'react'
+import type { SpendingLimitsConfig } from '@solvapay/server'
+import { SpendingLimits } from './SpendingLimits'
+import { SolvaPayProvider } from '../SolvaPayProvider'
+import { spendingLimitsCache } from '../hooks/useSpendingLimits'
+import { enCopy } from '../i18n/en'
+
+const limits: SpendingLimitsConfig = {
+  monthlyCapMinor: 5000,
+  alertThresholds: [50, 90],
+  currency: 'USD',
+  monthlySpendMinor: 4600,
+}
+
+function makeTransport(config: SpendingLimitsConfig | null) {
+  return {
+    checkPurchase: vi.fn(),
+    createPayment: vi.fn(),
+    processPayment: vi.fn(),
+    createTopupPayment: vi.fn(),
+    getBalance: vi.fn(),
+    cancelRenewal: vi.fn(),
+    reactivateRenewal: vi.fn(),
+    activatePlan: vi.fn(),
+    createCheckoutSession: vi.fn(),
+    createCustomerSession: vi.fn(),
+    getMerchant: vi.fn(),
+    getProduct: vi.fn(),
+    listPlans: vi.fn(),
+    getSpendingLimits: vi.fn().mockResolvedValue({ config }),
+    saveSpendingLimits: vi.fn(async (input: { monthlyCapMajor?: number }) => ({
+      config: {
+        ...limits,
+        monthlyCapMinor: (input.monthlyCapMajor ?? 0) * 100,
+        monthlySpendMinor: 0,
+      },
+    })),
+    disableSpendingLimits: vi.fn().mockResolvedValue({ success: true }),
+  }
+}
+
+function renderLimits(transport: ReturnType<typeof makeTransport>) {
+  return render(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    <SolvaPayProvider config={{ transport: transport as any }}>
+      <SpendingLimits.Root data-testid="root">
+        <SpendingLimits.Loading />
+        <SpendingLimits.MonthlySpend />
+        <SpendingLimits.Status />
+        <SpendingLimits.CapField />
+        <SpendingLimits.AlertThresholds />
+        <SpendingLimits.Error />
+        <SpendingLimits.StatusMessage />
+        <SpendingLimits.SaveButton />
+        <SpendingLimits.RemoveButton />
+      </SpendingLimits.Root>
+    </SolvaPayProvider>,
+  )
+}
+
+beforeEach(() => {
+  spendingLimitsCache.clear()
+})
+
+describe('SpendingLimits primitive', () => {
+  it('shows spend against the cap and warns past the first alert threshold', async () => {
+    renderLimits(makeTransport(limits))
+
+    expect(await screen.findByText('$46 / $50 this month')).toBeInTheDocument()
+    expect(screen.getByTestId('root')).toHaveAttribute('data-state', 'warning')
+    expect(screen.getByRole('status')).toHaveTextContent(
+      "You've used 92% of your monthly spending cap.",
+    )
+    expect(screen.getByLabelText(enCopy.spendingLimits.capAriaLabel)).toHaveValue('50')
+    expect(screen.getByRole('checkbox', { name: '90%' })).toBeChecked()
+    expect(screen.getByRole('checkbox', { name: '75%' })).not.toBeChecked()
+  })
+
+  it('flags a reached cap', async () => {
+    renderLimits(makeTransport({ ...limits, monthlySpendMinor: 5000 }))
+
+    await waitFor(() =>
+      expect(screen.getByTestId('root')).toHaveAttribute('data-state', 'cap-reached'),
+    )
+    expect(screen.getByText(enCopy.spendingLimits.capReached)).toBeInTheDocument()
+  })
+
+  it('saves the edited cap and alert thresholds', async () => {
+    const transport = makeTransport(null)
+    renderLimits(transport)
+
+    await waitFor(() => expect(screen.getByTestId('root')).toHaveAttribute('data-state', 'ok'))
+    fireEvent.change(screen.getByLabelText(enCopy.spendingLimits.capAriaLabel), {
+      target: { value: '$120' },
+    })
+    fireEvent.click(screen.getByRole('checkbox', { name: '75%' }))
+    fireEvent.click(screen.getByRole('checkbox', { name: '50%' }))
+    fireEvent.click(screen.getByRole('button', { name: enCopy.spendingLimits.saveButton }))
+
+    expect(await screen.findByText(enCopy.spendingLimits.savedMessage)).toBeInTheDocument()
+    expect(transport.saveSpendingLimits).toHaveBeenCalledWith({
+      monthlyCapMajor: 120,
+      alertThresholds: [50, 75],
+      currency: 'USD',
+    })
+    expect(screen.getByText('$0 / $120 this month')).toBeInTheDocument()
+  })
+
+  it('blocks saving an invalid cap', async () => {
+    const transport = makeTransport(null)
+    renderLimits(transport)
+
+    await waitFor(() => expect(screen.getByTestId('root')).toHaveAttribute('data-state', 'ok'))
+    fireEvent.change(screen.getByLabelText(enCopy.spendingLimits.capAriaLabel), {
+      target: { value: '0' },
+    })
+
+    expect(screen.getByRole('alert')).toHaveTextContent(enCopy.spendingLimits.invalidCap)
+    expect(screen.getByRole('button', { name: enCopy.spendingLimits.saveButton })).toBeDisabled()
+  })
+
+  it('removes saved limits', async () => {
+    const transport = makeTransport(limits)
+    renderLimits(transport)
+
+    fireEvent.click(await screen.findByRole('button', { name: enCopy.spendingLimits.removeButton }))
+
+    expect(await screen.findByText(enCopy.spendingLimits.removedMessage)).toBeInTheDocument()
+    expect(transport.disableSpendingLimits).toHaveBeenCalled()
+    expect(screen.queryByRole('button', { name: enCopy.spendingLimits.removeButton })).toBeNull()
+    expect(screen.getByLabelText(enCopy.spendingLimits.capAriaLabel)).toHaveValue('')
+  })
+})
@@ -0,0 +1,505 @@
+'use client'
+
+/**
+ * `<SpendingLimits>` compound primitive — lets the customer set a hard
+ * monthly spending cap and the percentages of it that send a budget
+ * alert.
+ *
+ * State comes from `useSpendingLimits` plus local form state held by
+ * `Root`. Once spend reaches the cap, paywalled calls are gated until
+ * the next month or until the cap is raised here.
+ *
+ * State:
+ *  - root / status `data-state="ok" | "warning" | "cap-reached" | "loading"`
+ *  - root `data-solvapay-spending-limits`
+ *  - alert options `data-state="checked" | "unchecked"`
+ */
+
+import React, {
+  createContext,
+  forwardRef,
+  useCallback,
+  useContext,
+  useId,
+  useMemo,
+  useState,
+} from 'react'
+import type { SpendingLimitsConfig } from '@solvapay/server'
+import { Slot } from './slot'
+import { composeEventHandlers } from './composeEventHandlers'
+import { useCopy } from '../hooks/useCopy'
+import { useSpendingLimits } from '../hooks/useSpendingLimits'
+import { interpolate } from '../i18n/interpolate'
+import { formatPrice, getMinorUnitsPerMajor } from '../utils/format'
+
+type SpendingLimitsState = 'ok' | 'warning' | 'cap-reached' | 'loading'
+
+export type SpendingLimitsFormState = {
+  /** Cap in major units as typed; empty for no cap. */
+  capMajor: string
+  alertThresholds: number[]
+}
+
+interface SpendingLimitsContextValue {
+  config: SpendingLimitsConfig | null
+  currency: string
+  loading: boolean
+  saving: boolean
+  disabling: boolean
+  error: Error | null
+  form: SpendingLimitsFormState
+  updateForm: (patch: Partial<SpendingLimitsFormState>) => void
+  toggleThreshold: (percent: number) => void
+  validationError: string | null
+  statusMessage: string | null
+  /** Share of the cap spent this month, or `null` without a cap. */
+  percentUsed: number | null
+  state: SpendingLimitsState
+  save: () => Promise<void>
+  disable: () => Promise<void>
+}
+
+const SpendingLimitsContext = createContext<SpendingLimitsContextValue | null>(null)
+
+function useSpendingLimitsCtx(part: string): SpendingLimitsContextValue {
+  const ctx = useContext(SpendingLimitsContext)
+  if (!ctx) {
+    throw new Error(`SpendingLimits.${part} must be rendered inside <SpendingLimits.Root>.`)
+  }
+  return ctx
+}
+
+const DEFAULT_ALERT_OPTIONS = [50, 75, 90, 100]
+
+function formFromConfig(config: SpendingLimitsConfig | null): SpendingLimitsFormState {
+  if (!config) return { capMajor: '', alertThresholds: [] }
+  return {
+    capMajor:
+      config.monthlyCapMinor !== undefined
+        ? String(config.monthlyCapMinor / getMinorUnitsPerMajor(config.currency))
+        : '',
+    alertThresholds: config.alertThresholds,
+  }
+}
+
+export interface SpendingLimitsRootProps extends React.HTMLAttributes<HTMLElement> {
+  /** Currency for a customer without saved limits. Default `'USD'`. */
+  currency?: string
+  asChild?: boolean
+}
+
+const Root = forwardRef<HTMLElement, SpendingLimitsRootProps>(function SpendingLimitsRoot(
+  { currency: currencyProp = 'USD', asChild, children, className, ...rest },
+  forwardedRef,
+) {
+  const hook = useSpendingLimits()
+  const copy = useCopy()
+  const currency = hook.config?.currency ?? currencyProp
+
+  // `null` until the customer edits, so the form follows the saved config.
+  const [draft, setDraft] = useState<SpendingLimitsFormState | null>(null)
+  const [statusMessage, setStatusMessage] = useState<string | null>(null)
+  const form = draft ?? formFromConfig(hook.config)
+
+  const updateForm = useCallback(
+    (patch: Partial<SpendingLimitsFormState>) => {
+      setStatusMessage(null)
+      setDraft(previous => ({ ...(previous ?? formFromConfig(hook.config)), ...patch }))
+    },
+    [hook.config],
+  )
+
+  const toggleThreshold = useCallback(
+    (percent: number) => {
+      const current = form.alertThresholds
+      updateForm({
+        alertThresholds: current.includes(percent)
+          ? current.filter(value => value !== percent)
+          : [...current, percent].sort((a, b) => a - b),
+      })
+    },
+    [form.alertThresholds, updateForm],
+  )
+
+  const capMajor = form.capMajor.trim() === '' ? undefined : Number(form.capMajor)
+  const validationError =
+    capMajor !== undefined && !(capMajor > 0) ? copy.spendingLimits.invalidCap : null
+
+  const cap = hook.config?.monthlyCapMinor
+  const percentUsed = cap ? (hook.config!.monthlySpendMinor / cap) * 100 : null
+  const warningAt = hook.config?.alertThresholds[0] ?? 80
+  const state: SpendingLimitsState =
+    hook.loading && !hook.config
+      ? 'loading'
+      : percentUsed === null
+        ? 'ok'
+        : percentUsed >= 100
+          ? 'cap-reached'
+          : percentUsed >= warningAt
+            ? 'warning'
+            : 'ok'
+
+  const { save: saveLimits, disable: disableLimits } = hook
+
+  const save = useCallback(async () => {
+    if (validationError) return
+    try {
+      await saveLimits({
+        monthlyCapMajor: capMajor,
+        alertThresholds: form.alertThresholds,
+        currency,
+      })
+      setDraft(null)
+      setStatusMessage(copy.spendingLimits.savedMessage)
+    } catch {
+      // Surfaced through `error`.
+    }
+  }, [validationError, saveLimits, capMajor, form.alertThresholds, currency, copy])
+
+  const disable = useCallback(async () => {
+    try {
+      await disableLimits()
+      setDraft(null)
+      setStatusMessage(copy.spendingLimits.removedMessage)
+    } catch {
+      // Surfaced through `error`.
+    }
+  }, [disableLimits, copy])
+
+  const ctx = useMemo<SpendingLimitsContextValue>(
+    () => ({
+      config: hook.config,
+      currency,
+      loading: hook.loading,
+      saving: hook.saving,
+      disabling: hook.disabling,
+      error: hook.error,
+      form,
+      updateForm,
+      toggleThreshold,
+      validationError,
+      statusMessage,
+      percentUsed,
+      state,
+      save,
+      disable,
+    }),
+    [
+      hook.config,
+      currency,
+      hook.loading,
+      hook.saving,
+      hook.disabling,
+      hook.error,
+      form,
+      updateForm,
+      toggleThreshold,
+      validationError,
+      statusMessage,
+      percentUsed,
+      state,
+      save,
+      disable,
+    ],
+  )
+
+  const Comp = asChild ? Slot : 'section'
+  return (
+    <SpendingLimitsContext.Provider value={ctx}>
+      <Comp
+        ref={forwardedRef as React.Ref<HTMLElement>}
+        data-solvapay-spending-limits=""
+        data-state={state}
+        className={className}
+        {...rest}
+      >
+        {children}
+      </Comp>
+    </SpendingLimitsContext.Provider>
+  )
+})
+
+const Loading = forwardRef<HTMLDivElement, React.HTMLAttributes<HTMLDivElement>>(
+  function SpendingLimitsLoading({ className, children, ...rest }, forwardedRef) {
+    const ctx = useSpendingLimitsCtx('Loading')
+    const copy = useCopy()
+    if (ctx.state !== 'loading') return null
+    return (
+      <div
+        ref={forwardedRef}
+        role="status"
+        className={className}
+        data-solvapay-spending-limits-loading=""
+        {...rest}
+      >
+        {children ?? copy.spendingLimits.loadingLabel}
+      </div>
+    )
+  },
+)
+
+const MonthlySpend = forwardRef<HTMLParagraphElement, React.HTMLAttributes<HTMLParagraphElement>>(
+  function SpendingLimitsMonthlySpend({ className, children, ...rest }, forwardedRef) {
+    const ctx = useSpendingLimitsCtx('MonthlySpend')
+    const copy = useCopy()
+    if (!ctx.config?.monthlyCapMinor) return null
+    return (
+      <p
+        ref={forwardedRef}
+        className={className}
+        data-solvapay-spending-limits-monthly-spend=""
+        {...rest}
+      >
+        {children ??
+          interpolate(copy.spendingLimits.monthlySpendLine, {
+            spent: formatPrice(ctx.config.monthlySpendMinor, ctx.currency, { free: '' }),
+            cap: formatPrice(ctx.config.monthlyCapMinor, ctx.currency, { free: '' }),
+          })}
+      </p>
+    )
+  },
+)
+
+const CapField = forwardRef<
+  HTMLInputElement,
+  Omit<React.InputHTMLAttributes<HTMLInputElement>, 'children'>
+>(function SpendingLimitsCapField({ onChange, className, ...rest }, forwardedRef) {
+  const ctx = useSpendingLimitsCtx('CapField')
+  const copy = useCopy()
+  const inputId = useId()
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    ctx.updateForm({ capMajor: event.target.value.replace(/[^0-9.]/g, '') })
+  }
+
+  return (
+    <section data-solvapay-spending-limits-field="" data-field="cap">
+      <label htmlFor={inputId}>{copy.spendingLimits.capLabel}</label>
+      <input
+        ref={forwardedRef}
+        id={inputId}
+        data-solvapay-spending-limits-cap=""
+        type="text"
+        inputMode="decimal"
+        placeholder={copy.spendingLimits.capPlaceholder}
+        value={ctx.form.capMajor}
+        aria-label={copy.spendingLimits.capAriaLabel}
+        aria-invalid={ctx.validationError ? true : undefined}
+        onChange={composeEventHandlers(onChange, handleChange)}
+        className={className}
+        {...rest}
+      />
+    </section>
+  )
+})
+
+export interface SpendingLimitsAlertThresholdsProps extends React.HTMLAttributes<HTMLFieldSetElement> {
+  /** Percentages offered as alert options. Default `[50, 75, 90, 100]`. */
+  options?: number[]
+}
+
+const AlertThresholds = forwardRef<HTMLFieldSetElement, SpendingLimitsAlertThresholdsProps>(
+  function SpendingLimitsAlertThresholds(
+    { options = DEFAULT_ALERT_OPTIONS, className, ...rest },
+    forwardedRef,
+  ) {
+    const ctx = useSpendingLimitsCtx('AlertThresholds')
+    const copy = useCopy()
+    return (
+      <fieldset
+        ref={forwardedRef}
+        className={className}
+        data-solvapay-spending-limits-alerts=""
+        {...rest}
+      >
+        <legend>{copy.spendingLimits.alertsLabel}</legend>
+        {options.map(percent => {
+          const checked = ctx.form.alertThresholds.includes(percent)
+          return (
+            <label
+              key={percent}
+              data-solvapay-spending-limits-alert-option=""
+              data-state={checked ? 'checked' : 'unchecked'}
+            >
+              <input
+                type="checkbox"
+                value={percent}
+                checked={checked}
+                onChange={() => ctx.toggleThreshold(percent)}
+              />
+              {interpolate(copy.spendingLimits.alertOptionLabel, { percent: String(percent) })}
+            </label>
+          )
+        })}
+      </fieldset>
+    )
+  },
+)
+
+const Status = forwardRef<HTMLParagraphElement, React.HTMLAttributes<HTMLParagraphElement>>(
+  function SpendingLimitsStatus({ className, children, ...rest }, forwardedRef) {
+    const ctx = useSpendingLimitsCtx('Status')
+    const copy = useCopy()
+    if (ctx.state !== 'warning' && ctx.state !== 'cap-reached') return null
+    return (
+      <p
+        ref={forwardedRef}
+        role="status"
+        className={className}
+        data-solvapay-spending-limits-status=""
+        data-state={ctx.state}
+        {...rest}
+      >
+        {children ??
+          (ctx.state === 'cap-reached'
+            ? copy.spendingLimits.capReached
+            : interpolate(copy.spendingLimits.warning, {
+                percent: String(Math.floor(ctx.percentUsed ?? 0)),
+              }))}
+      </p>
+    )
+  },
+)
+
+type ButtonProps = React.ButtonHTMLAttributes<HTMLButtonElement> & { asChild?: boolean }
+
+const SaveButton = forwardRef<HTMLButtonElement, ButtonProps>(function SpendingLimitsSaveButton(
+  { asChild, onClick, children, className, ...rest },
+  forwardedRef,
+) {
+  const ctx = useSpendingLimitsCtx('SaveButton')
+  const copy = useCopy()
+  const commonProps = {
+    'data-solvapay-spending-limits-save': '',
+    'data-state': ctx.saving ? 'processing' : ctx.validationError ? 'disabled' : 'idle',
+    type: 'button' as const,
+    disabled: ctx.saving || ctx.disabling || !!ctx.validationError,
+    'aria-busy': ctx.saving,
+    onClick: composeEventHandlers(onClick, (event: React.MouseEvent<HTMLButtonElement>) => {
+      event.preventDefault()
+      void ctx.save()
+    }),
+    className,
+    ...rest,
+  }
+
+  if (asChild) {
+    return (
+      <Slot
+        ref={forwardedRef as React.Ref<HTMLElement>}
+        {...(commonProps as Record<string, unknown>)}
+      >
+        {children ?? copy.spendingLimits.saveButton}
+      </Slot>
+    )
+  }
+  return (
+    <button ref={forwardedRef} {...commonProps}>
+      {children ?? copy.spendingLimits.saveButton}
+    </button>
+  )
+})
+
+const RemoveButton = forwardRef<HTMLButtonElement, ButtonProps>(function SpendingLimitsRemoveButton(
+  { asChild, onClick, children, className, ...rest },
+  forwardedRef,
+) {
+  const ctx = useSpendingLimitsCtx('RemoveButton')
+  const copy = useCopy()
+  if (!ctx.config) return null
+
+  const commonProps = {
+    'data-solvapay-spending-limits-remove': '',
+    type: 'button' as const,
+    disabled: ctx.saving || ctx.disabling,
+    'aria-busy': ctx.disabling,
+    onClick: composeEventHandlers(onClick, (event: React.MouseEvent<HTMLButtonElement>) => {
+      event.preventDefault()
+      void ctx.disable()
+    }),
+    className,
+    ...rest,
+  }
+
+  if (asChild) {
+    return (
+      <Slot
+        ref={forwardedRef as React.Ref<HTMLElement>}
+        {...(commonProps as Record<string, unknown>)}
+      >
+        {children ?? copy.spendingLimits.removeButton}
+      </Slot>
+    )
+  }
+  return (
+    <button ref={forwardedRef} {...commonProps}>
+      {children ?? copy.spendingLimits.removeButton}
+    </button>
+  )
+})
+
+const ErrorSlot = forwardRef<HTMLParagraphElement, React.HTMLAttributes<HTMLParagraphElement>>(
+  function SpendingLimitsError({ className, children, ...rest }, forwardedRef) {
+    const ctx = useSpendingLimitsCtx('Error')
+    const message = ctx.validationError ?? ctx.error?.message
+    if (!message) return null
+    return (
+      <p
+        ref={forwardedRef}
+        role="alert"
+        aria-live="polite"
+        className={className}
+        data-solvapay-spending-limits-error=""
+        {...rest}
+      >
+        {children ?? message}
+      </p>
+    )
+  },
+)
+
+const StatusMessage = forwardRef<HTMLParagraphElement, React.HTMLAttributes<HTMLParagraphElement>>(
+  function SpendingLimitsStatusMessage({ className, children, ...rest }, forwardedRef) {
+    const ctx = useSpendingLimitsCtx('StatusMessage')
+    if (!ctx.statusMessage) return null
+    return (
+      <p
+        ref={forwardedRef}
+        aria-live="polite"
+        className={className}
+        data-solvapay-spending-limits-status-message=""
+        {...rest}
+      >
+        {children ?? ctx.statusMessage}
+      </p>
+    )
+  },
+)
+
+export const SpendingLimits = Object.assign(Root, {
+  Root,
+  Loading,
+  MonthlySpend,
+  CapField,
+  AlertThresholds,
+  Status,
+  SaveButton,
+  RemoveButton,
+  Error: ErrorSlot,
+  StatusMessage,
+})
+
+export { Root as SpendingLimitsRoot }
+export { Loading as SpendingLimitsLoading }
+export { MonthlySpend as SpendingLimitsMonthlySpend }
+export { CapField as SpendingLimitsCapField }
+export { AlertThresholds as SpendingLimitsAlertThresholds }
+export { Status as SpendingLimitsStatus }
+export { SaveButton as SpendingLimitsSaveButton }
+export { RemoveButton as SpendingLimitsRemoveButton }
+export { ErrorSlot as SpendingLimitsError }
+export { StatusMessage as SpendingLimitsStatusMessage }
+
+export function useSpendingLimitsForm(): SpendingLimitsContextValue {
+  return useSpendingLimitsCtx('useSpendingLimitsForm')
+}
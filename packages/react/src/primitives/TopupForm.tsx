@@ -39,6 +39,7 @@ import { LegalFooter } from './LegalFooter'
 import { withPaymentElementDefaults } from './paymentElementDefaults'
 import { useTopup } from '../hooks/useTopup'
 import { useCopy, useLocale } from '../hooks/useCopy'
+import { useLogger } from '../hooks/useLogger'
 import { Spinner } from '../components/Spinner'
 import { SolvaPayContext } from '../SolvaPayProvider'
 import { MissingProviderError } from '../utils/errors'
@@ -132,6 +133,7 @@ const Root = forwardRef<HTMLElement, RootProps>(function TopupFormRoot(props, fo
 
   const copy = useCopy()
   const locale = useLocale()
+  const logger = useLogger()
   const {
     loading,
     error: topupError,
@@ -152,12 +154,12 @@ const Root = forwardRef<HTMLElement, RootProps>(function TopupFormRoot(props, fo
     if (!hasInitializedRef.current && hasAmount && !loading && !topupError && !clientSecret) {
       hasInitializedRef.current = true
       startTopup().catch(error => {
-        console.error('[TopupForm] startTopup failed', error)
+        logger.error('[TopupForm] startTopup failed', { error })
         hasInitializedRef.current = false
       })
     }
     if (hasAmount && clientSecret) hasInitializedRef.current = true
-  }, [hasAmount, loading, topupError, clientSecret, startTopup])
+  }, [hasAmount, loading, topupError, clientSecret, startTopup, logger])
 
   const finalReturnUrl = returnUrl || (typeof window !== 'undefined' ? window.location.href : '/')
 
@@ -177,6 +177,26 @@ export {
 } from './AutoRecharge'
 export type { AutoRechargeFormState, AutoRechargeInputPayload } from './AutoRecharge'
 
+export {
+  SpendingLimits,
+  SpendingLimitsRoot,
+  SpendingLimitsLoading,
+  SpendingLimitsMonthlySpend,
+  SpendingLimitsCapField,
+  SpendingLimitsAlertThresholds,
+  SpendingLimitsStatus,
+  SpendingLimitsSaveButton,
+  SpendingLimitsRemoveButton,
+  SpendingLimitsError,
+  SpendingLimitsStatusMessage,
+  useSpendingLimitsForm,
+} from './SpendingLimits'
+export type {
+  SpendingLimitsAlertThresholdsProps,
+  SpendingLimitsFormState,
+  SpendingLimitsRootProps,
+} from './SpendingLimits'
+
 export { LegalFooter } from './LegalFooter'
 export type { LegalFooterProps } from './LegalFooter'
 
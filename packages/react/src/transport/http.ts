@@ -64,6 +64,7 @@ export const DEFAULT_ROUTES = {
   listPlans: '/api/list-plans',
   getPaymentMethod: '/api/payment-method',
   autoRecharge: '/api/auto-recharge',
+  spendingLimits: '/api/spending-limits',
   getUsage: '/api/usage',
   getLimits: '/api/limits',
 } as const
@@ -252,6 +253,28 @@ export function createHttpTransport(config: SolvaPayConfig | undefined): SolvaPa
         errorPrefix: 'Failed to disable auto-recharge',
       }),
 
+    getSpendingLimits: () =>
+      request(config, routeFor(config, 'spendingLimits'), {
+        method: 'GET',
+        onErrorContext: 'getSpendingLimits',
+        errorPrefix: 'Failed to load spending limits',
+      }),
+
+    saveSpendingLimits: input =>
+      request(config, routeFor(config, 'spendingLimits'), {
+        method: 'PUT',
+        body: input,
+        onErrorContext: 'saveSpendingLimits',
+        errorPrefix: 'Failed to save spending limits',
+      }),
+
+    disableSpendingLimits: () =>
+      request(config, routeFor(config, 'spendingLimits'), {
+        method: 'DELETE',
+        onErrorContext: 'disableSpendingLimits',
+        errorPrefix: 'Failed to remove spending limits',
+      }),
+
     getUsage: () =>
       request(config, routeFor(config, 'getUsage'), {
         method: 'GET',
@@ -30,6 +30,9 @@ import type {
   SaveAutoRechargeInput,
   AutoRechargeResponse,
   SaveAutoRechargeResponse,
+  SpendingLimitsInput,
+  SpendingLimitsResponse,
+  SaveSpendingLimitsResponse,
 } from '@solvapay/server'
 import type { TaxBreakdown, TaxIdType } from '@solvapay/core'
 
@@ -130,6 +133,14 @@ export interface SolvaPayTransport {
   getAutoRecharge?: () => Promise<AutoRechargeResponse>
   saveAutoRecharge?: (input: SaveAutoRechargeInput) => Promise<SaveAutoRechargeResponse>
   disableAutoRecharge?: () => Promise<{ success: true }>
+  /**
+   * Customer spending limits (monthly cap + budget alerts). HTTP
+   * transports implement via `/api/spending-limits`; `<SpendingLimits>`
+   * renders nothing useful on transports that omit them.
+   */
+  getSpendingLimits?: () => Promise<SpendingLimitsResponse>
+  saveSpendingLimits?: (input: SpendingLimitsInput) => Promise<SaveSpendingLimitsResponse>
+  disableSpendingLimits?: () => Promise<{ success: true }>
   /**
    * Optional: fetch the authenticated customer's usage snapshot for the
    * active usage-based plan. When omitted, `useUsage()` falls back to
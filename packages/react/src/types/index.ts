@@ -13,7 +13,7 @@ import type {
   PurchaseCheckResult,
 } from '@solvapay/server'
 import type { AuthAdapter } from '../adapters/auth'
-import type { TaxBehavior } from '@solvapay/core'
+import type { Logger, TaxBehavior } from '@solvapay/core'
 import type { PartialSolvaPayCopy } from '../i18n/types'
 import type { SolvaPayTransport, CreditDisplayBlock } from '../transport/types'
 
@@ -51,6 +51,8 @@ export interface PurchaseInfo {
     planType?: string
     billingCycle?: string | null
     features?: Record<string, unknown> | null
+    /** Numeric plan limits, e.g. `{ seats: 10 }`. */
+    limits?: Record<string, unknown> | null
   }
   usage?: {
     used: number
@@ -338,6 +340,7 @@ export interface SolvaPayConfig {
     createCustomerSession?: string // Default: '/api/create-customer-session'
     getPaymentMethod?: string // Default: '/api/payment-method'
     autoRecharge?: string // Default: '/api/auto-recharge'
+    spendingLimits?: string // Default: '/api/spending-limits'
     getUsage?: string // Default: '/api/usage'
     getLimits?: string // Default: '/api/limits'
   }
@@ -409,6 +412,15 @@ export interface SolvaPayConfig {
    */
   onError?: (error: Error, context: string) => void
 
+  /**
+   * Receives the provider's and components' failure logs, with secrets,
+   * client secrets and emails redacted.
+   * Default: `console` (debug lines only when `SOLVAPAY_DEBUG=true`)
+   *
+   * @since 1.7.0
+   */
+  logger?: Logger
+
   /**
    * Pre-fetched seed for MCP App hosts. When provided, the provider
    * mounts with the snapshot already applied — no `checkPurchase`,
@@ -0,0 +1,70 @@
+/**
+ * Entitlement utility functions
+ *
+ * Reads feature flags and plan limits from the plan snapshots on a
+ * customer's active purchases — the same rules `solvaPay.entitlements()`
+ * applies on the server.
+ */
+
+import type { PurchaseInfo } from '../types'
+import { getActivePurchases, isPlanPurchase } from './purchases'
+
+export interface ResolvedEntitlement {
+  /** Feature value (or plan limit when no plan sets the feature). */
+  value: unknown
+  /** The most recent active purchase whose plan grants the value. */
+  purchase: PurchaseInfo | null
+}
+
+function merge(current: unknown, next: unknown): unknown {
+  if (current === undefined) return next
+  if (typeof current === 'boolean' && typeof next === 'boolean') return current || next
+  if (typeof current === 'number' && typeof next === 'number') return Math.max(current, next)
+  return current
+}
+
+function readFeature(purchase: PurchaseInfo, key: string): unknown {
+  const features = purchase.planSnapshot?.features as Record<string, unknown> | string[] | null
+  // Plans that list their features by name enable each of them.
+  if (Array.isArray(features)) return features.includes(key) ? true : undefined
+  if (features && key in features) return features[key]
+  const limit = purchase.planSnapshot?.limits?.[key]
+  return typeof limit === 'number' ? limit : undefined
+}
+
+/**
+ * Whether an entitlement value enables its feature: `true`, a positive
+ * number, a non-empty string, or any object value.
+ */
+export function isEntitlementEnabled(value: unknown): boolean {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value > 0
+  if (typeof value === 'string') return value.length > 0
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Resolve `key` across the active plan purchases, optionally scoped to
+ * one product. Booleans merge with OR and numbers take the maximum.
+ */
+export function resolveEntitlement(
+  purchases: PurchaseInfo[],
+  key: string,
+  productRef?: string,
+): ResolvedEntitlement {
+  const plans = getActivePurchases(purchases)
+    .filter(isPlanPurchase)
+    .filter(purchase => !productRef || purchase.productRef === productRef)
+    .sort((a, b) => (b.startDate ?? '').localeCompare(a.startDate ?? ''))
+
+  let value: unknown
+  let granting: PurchaseInfo | null = null
+  for (const purchase of plans) {
+    const next = readFeature(purchase, key)
+    if (next === undefined) continue
+    const merged = merge(value, next)
+    if (merged !== value && isEntitlementEnabled(merged)) granting = purchase
+    value = merged
+  }
+  return { value, purchase: isEntitlementEnabled(value) ? granting : null }
+}
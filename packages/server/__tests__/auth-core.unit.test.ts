@@ -1,13 +1,13 @@
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { SignJWT } from 'jose'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { decodeProtectedHeader, SignJWT } from 'jose'
+import { createJwksFixture, type JwksFixture } from '@solvapay/test-utils/jwks'
 import { getAuthenticatedUserCore } from '../src/helpers/auth'
 import { isErrorResult } from '../src/helpers/error'
+import { JwtVerificationError, verifyJwt } from '../src/helpers/jwt'
 
 function base64UrlEncode(input: string): string {
   const base64 =
-    typeof btoa === 'function'
-      ? btoa(input)
-      : Buffer.from(input, 'utf-8').toString('base64')
+    typeof btoa === 'function' ? btoa(input) : Buffer.from(input, 'utf-8').toString('base64')
   return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
 }
 
@@ -18,38 +18,39 @@ function forgeJwt(payload: Record<string, unknown>): string {
   return `${header}.${body}.not-a-signature`
 }
 
-async function signedHs256(
-  payload: Record<string, unknown>,
-  secret: string,
-): Promise<string> {
+async function signedHs256(payload: Record<string, unknown>, secret: string): Promise<string> {
   const key = new TextEncoder().encode(secret)
   return await new SignJWT(payload).setProtectedHeader({ alg: 'HS256' }).sign(key)
 }
 
-const ORIGINAL_ENV = {
-  SOLVAPAY_AUTH_STRICT: process.env.SOLVAPAY_AUTH_STRICT,
-  SOLVAPAY_JWT_SECRET: process.env.SOLVAPAY_JWT_SECRET,
-  SUPABASE_JWT_SECRET: process.env.SUPABASE_JWT_SECRET,
-}
+const ENV_KEYS = [
+  'SOLVAPAY_AUTH_STRICT',
+  'SOLVAPAY_AUTH_TRUST_GATEWAY',
+  'SOLVAPAY_JWT_SECRET',
+  'SUPABASE_JWT_SECRET',
+  'SOLVAPAY_JWT_ISSUER',
+  'SOLVAPAY_JWKS_URL',
+  'SOLVAPAY_JWT_AUDIENCE',
+  'SOLVAPAY_JWT_EMAIL_CLAIM',
+] as const
+
+const ORIGINAL_ENV = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]))
 
 beforeEach(() => {
-  delete process.env.SOLVAPAY_AUTH_STRICT
-  delete process.env.SOLVAPAY_JWT_SECRET
-  delete process.env.SUPABASE_JWT_SECRET
+  for (const key of ENV_KEYS) delete process.env[key]
 })
 
 afterEach(() => {
-  process.env.SOLVAPAY_AUTH_STRICT = ORIGINAL_ENV.SOLVAPAY_AUTH_STRICT
-  process.env.SOLVAPAY_JWT_SECRET = ORIGINAL_ENV.SOLVAPAY_JWT_SECRET
-  process.env.SUPABASE_JWT_SECRET = ORIGINAL_ENV.SUPABASE_JWT_SECRET
-  if (ORIGINAL_ENV.SOLVAPAY_AUTH_STRICT === undefined) delete process.env.SOLVAPAY_AUTH_STRICT
-  if (ORIGINAL_ENV.SOLVAPAY_JWT_SECRET === undefined) delete process.env.SOLVAPAY_JWT_SECRET
-  if (ORIGINAL_ENV.SUPABASE_JWT_SECRET === undefined) delete process.env.SUPABASE_JWT_SECRET
+  for (const key of ENV_KEYS) {
+    if (ORIGINAL_ENV[key] === undefined) delete process.env[key]
+    else process.env[key] = ORIGINAL_ENV[key]
+  }
 })
 
 describe('getAuthenticatedUserCore', () => {
   describe('x-user-id header', () => {
     it('wins over Bearer token when both are present', async () => {
+      process.env.SOLVAPAY_AUTH_TRUST_GATEWAY = 'true'
       const bearer = forgeJwt({ sub: 'bearer-user', email: 'bearer@example.com' })
       const req = new Request('https://example.com', {
         headers: {
@@ -67,6 +68,21 @@ describe('getAuthenticatedUserCore', () => {
       expect(result.email).toBe('bearer@example.com')
     })
 
+    it('drops profile fields from a Bearer token it cannot verify', async () => {
+      const req = new Request('https://example.com', {
+        headers: {
+          'x-user-id': 'middleware-user',
+          authorization: `Bearer ${forgeJwt({ sub: 'u', email: 'forged@example.com' })}`,
+        },
+      })
+
+      const result = await getAuthenticatedUserCore(req)
+      expect(isErrorResult(result)).toBe(false)
+      if (isErrorResult(result)) return
+      expect(result.userId).toBe('middleware-user')
+      expect(result.email).toBeNull()
+    })
+
     it('extracts userId without a Bearer token', async () => {
       const req = new Request('https://example.com', {
         headers: { 'x-user-id': 'middleware-user' },
@@ -82,7 +98,26 @@ describe('getAuthenticatedUserCore', () => {
     })
   })
 
-  describe('Bearer JWT fallback (no secret configured)', () => {
+  describe('Bearer JWT without verification configured', () => {
+    it('rejects unverified tokens by default', async () => {
+      const token = forgeJwt({ sub: 'attacker' })
+      const req = new Request('https://example.com', {
+        headers: { authorization: `Bearer ${token}` },
+      })
+
+      const result = await getAuthenticatedUserCore(req)
+      expect(isErrorResult(result)).toBe(true)
+      if (!isErrorResult(result)) return
+      expect(result.status).toBe(401)
+      expect(result.details).toMatch(/SOLVAPAY_AUTH_TRUST_GATEWAY/)
+    })
+  })
+
+  describe('Bearer JWT with trusted gateway (SOLVAPAY_AUTH_TRUST_GATEWAY=true)', () => {
+    beforeEach(() => {
+      process.env.SOLVAPAY_AUTH_TRUST_GATEWAY = 'true'
+    })
+
     it('decodes sub/email/name from an unverified JWT (platform-gateway trust)', async () => {
       const token = forgeJwt({
         sub: 'supabase-user-123',
@@ -167,10 +202,7 @@ describe('getAuthenticatedUserCore', () => {
     it('accepts a correctly signed token', async () => {
       const secret = 'test-secret-at-least-32-chars-long-for-hs256'
       process.env.SUPABASE_JWT_SECRET = secret
-      const token = await signedHs256(
-        { sub: 'signed-user', email: 'signed@example.com' },
-        secret,
-      )
+      const token = await signedHs256({ sub: 'signed-user', email: 'signed@example.com' }, secret)
       const req = new Request('https://example.com', {
         headers: { authorization: `Bearer ${token}` },
       })
@@ -185,10 +217,7 @@ describe('getAuthenticatedUserCore', () => {
 
     it('rejects a token signed with a different secret', async () => {
       process.env.SUPABASE_JWT_SECRET = 'server-secret-value-32-chars-min'
-      const token = await signedHs256(
-        { sub: 'signed-user' },
-        'attacker-secret-value-32-chars-min',
-      )
+      const token = await signedHs256({ sub: 'signed-user' }, 'attacker-secret-value-32-chars-min')
       const req = new Request('https://example.com', {
         headers: { authorization: `Bearer ${token}` },
       })
@@ -215,8 +244,9 @@ describe('getAuthenticatedUserCore', () => {
   })
 
   describe('strict mode (SOLVAPAY_AUTH_STRICT=true)', () => {
-    it('rejects unverified Bearer tokens when no secret is configured', async () => {
+    it('rejects unverified Bearer tokens even when the gateway is trusted', async () => {
       process.env.SOLVAPAY_AUTH_STRICT = 'true'
+      process.env.SOLVAPAY_AUTH_TRUST_GATEWAY = 'true'
       const token = forgeJwt({ sub: 'attacker' })
       const req = new Request('https://example.com', {
         headers: { authorization: `Bearer ${token}` },
@@ -245,6 +275,10 @@ describe('getAuthenticatedUserCore', () => {
   })
 
   describe('includeEmail / includeName options', () => {
+    beforeEach(() => {
+      process.env.SOLVAPAY_AUTH_TRUST_GATEWAY = 'true'
+    })
+
     it('skips email extraction when includeEmail is false', async () => {
       const token = forgeJwt({ sub: 'u', email: 'e@example.com', name: 'N' })
       const req = new Request('https://example.com', {
@@ -271,4 +305,153 @@ describe('getAuthenticatedUserCore', () => {
       expect(result.name).toBeNull()
     })
   })
+  describe('Bearer JWT verified against a JWKS', () => {
+    let jwks: JwksFixture
+
+    beforeAll(async () => {
+      jwks = await createJwksFixture()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    afterAll(async () => {
+      await jwks.close()
+    })
+
+    const bearer = (token: string) =>
+      new Request('https://example.com', { headers: { authorization: `Bearer ${token}` } })
+
+    it.each(['RS256', 'ES256'] as const)(
+      'accepts %s tokens from the configured issuer',
+      async alg => {
+        process.env.SOLVAPAY_JWT_ISSUER = jwks.issuer
+        process.env.SOLVAPAY_JWT_AUDIENCE = jwks.audience
+        const token = await jwks.sign({ sub: `jwks-${alg}`, email: 'jwks@example.com' }, { alg })
+
+        const result = await getAuthenticatedUserCore(bearer(token))
+        expect(isErrorResult(result)).toBe(false)
+        if (isErrorResult(result)) return
+        expect(result.userId).toBe(`jwks-${alg}`)
+        expect(result.email).toBe('jwks@example.com')
+      },
+    )
+
+    it('rejects a token for another audience', async () => {
+      const token = await jwks.sign({ sub: 'u' }, { audience: 'someone-else' })
+      const result = await getAuthenticatedUserCore(bearer(token), {
+        jwt: { issuer: jwks.issuer, audience: jwks.audience },
+      })
+      expect(isErrorResult(result)).toBe(true)
+      if (!isErrorResult(result)) return
+      expect(result.status).toBe(401)
+    })
+
+    it('rejects a token from another issuer', async () => {
+      const token = await jwks.sign({ sub: 'u' }, { issuer: 'https://evil.example.com' })
+      await expect(
+        verifyJwt(token, { issuer: jwks.issuer, jwksUrl: jwks.jwksUrl }),
+      ).rejects.toMatchObject({ reason: 'claim_invalid' })
+    })
+
+    it('tolerates clock skew within the configured window', async () => {
+      const token = await jwks.sign({ sub: 'skewed' }, { expiresInSec: -10 })
+
+      await expect(verifyJwt(token, { issuer: jwks.issuer })).resolves.toMatchObject({
+        sub: 'skewed',
+      })
+      const error = await verifyJwt(token, { issuer: jwks.issuer, clockToleranceSec: 0 }).catch(
+        err => err,
+      )
+      expect(error).toBeInstanceOf(JwtVerificationError)
+      expect(error).toMatchObject({ reason: 'expired', status: 401 })
+    })
+
+    it('rejects a token signed with a key the issuer never published', async () => {
+      const other = await createJwksFixture({ algorithms: ['RS256'] })
+      try {
+        // Reuse a published `kid` so the lookup succeeds and only the signature fails.
+        const { kid } = decodeProtectedHeader(await jwks.sign({ sub: 'u' }, { alg: 'RS256' }))
+        const token = await other.sign({ sub: 'u' }, { issuer: jwks.issuer, kid })
+        await expect(verifyJwt(token, { issuer: jwks.issuer })).rejects.toMatchObject({
+          reason: 'signature_invalid',
+        })
+      } finally {
+        await other.close()
+      }
+    })
+
+    it('refetches the JWKS when the issuer rotates its keys', async () => {
+      const options = { issuer: jwks.issuer, audience: jwks.audience }
+      await verifyJwt(await jwks.sign({ sub: 'before' }), options)
+      const fetches = jwks.requests
+
+      await jwks.rotate()
+      // `jose` refetches on an unknown `kid` at most once per 30s cooldown.
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(Date.now() + 31_000)
+      await expect(verifyJwt(await jwks.sign({ sub: 'after' }), options)).resolves.toMatchObject({
+        sub: 'after',
+      })
+      expect(jwks.requests).toBe(fetches + 1)
+    })
+
+    it('reads user fields through a custom claim mapping', async () => {
+      const token = await jwks.sign({
+        sub: 'auth0|123',
+        'https://example.com/email': 'mapped@example.com',
+        profile: { display_name: 'Mapped User' },
+      })
+
+      const result = await getAuthenticatedUserCore(bearer(token), {
+        jwt: {
+          issuer: jwks.issuer,
+          claims: {
+            userId: payload => String(payload.sub).replace('auth0|', ''),
+            email: 'https://example.com/email',
+            name: 'profile.display_name',
+          },
+        },
+      })
+      expect(isErrorResult(result)).toBe(false)
+      if (isErrorResult(result)) return
+      expect(result).toMatchObject({
+        userId: '123',
+        email: 'mapped@example.com',
+        name: 'Mapped User',
+      })
+    })
+
+    it('never falls back to decoding when verification is configured', async () => {
+      process.env.SOLVAPAY_AUTH_TRUST_GATEWAY = 'true'
+      process.env.SOLVAPAY_JWT_ISSUER = jwks.issuer
+      const result = await getAuthenticatedUserCore(bearer(forgeJwt({ sub: 'attacker' })))
+      expect(isErrorResult(result)).toBe(true)
+    })
+  })
+})
+
+describe('verifyJwt without jose installed', () => {
+  afterEach(() => {
+    vi.doUnmock('jose')
+    vi.resetModules()
+  })
+
+  it('throws a not_configured JwtVerificationError', async () => {
+    vi.resetModules()
+    vi.doMock('jose', () => {
+      throw new Error("Cannot find package 'jose'")
+    })
+    const jwt = await import('../src/helpers/jwt')
+
+    const error = await jwt
+      .verifyJwt(forgeJwt({ sub: 'user_1' }), { secret: 'test-secret' })
+      .catch((caught: unknown) => caught)
+    expect(error).toBeInstanceOf(jwt.JwtVerificationError)
+    expect(error).toMatchObject({
+      reason: 'not_configured',
+      message: 'Install jose to verify JWTs',
+    })
+  })
 })
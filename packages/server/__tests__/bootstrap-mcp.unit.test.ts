@@ -1,4 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SolvaPayError } from '@solvapay/core'
 import { createSolvaPay, createSolvaPayClient } from '../src'
 import type {
   ConfigureMcpPlansRequest,
@@ -107,7 +108,8 @@ describe('MCP bootstrap SDK wrapper', () => {
       })
       throw new Error('Expected bootstrapMcpProduct to throw')
     } catch (error) {
-      expect((error as Error).name).toBe('SolvaPayError')
+      expect(error).toBeInstanceOf(SolvaPayError)
+      expect((error as Error).name).toBe('SolvaPayValidationError')
       expect((error as Error).message).toContain('Bootstrap MCP product failed (400)')
       expect((error as Error).message).toContain('UNKNOWN_PLAN_KEY')
     }
@@ -190,7 +192,8 @@ describe('MCP bootstrap SDK wrapper', () => {
       })
       throw new Error('Expected configureMcpPlans to throw')
     } catch (error) {
-      expect((error as Error).name).toBe('SolvaPayError')
+      expect(error).toBeInstanceOf(SolvaPayError)
+      expect((error as Error).name).toBe('SolvaPayValidationError')
       expect((error as Error).message).toContain('Configure MCP plans failed (400)')
       expect((error as Error).message).toContain('UNKNOWN_PLAN_KEY')
     }
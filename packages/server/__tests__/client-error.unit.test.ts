@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { createSolvaPayClient } from '../src/client'
-import { SolvaPayError } from '@solvapay/core'
+import {
+  SolvaPayAuthenticationError,
+  SolvaPayConflictError,
+  SolvaPayError,
+  SolvaPayNotFoundError,
+  SolvaPayRateLimitError,
+  SolvaPayServerError,
+  SolvaPayValidationError,
+} from '@solvapay/core'
 
 describe('createSolvaPayClient — SolvaPayError carries upstream HTTP status', () => {
   const apiKey = 'sk_test_123'
@@ -18,7 +26,7 @@ describe('createSolvaPayClient — SolvaPayError carries upstream HTTP status',
     const client = createSolvaPayClient({ apiKey, apiBaseUrl: baseUrl })
 
     await expect(client.getMerchant!()).rejects.toMatchObject({
-      name: 'SolvaPayError',
+      name: 'SolvaPayNotFoundError',
       status: 404,
     })
   })
@@ -52,9 +60,7 @@ describe('createSolvaPayClient — SolvaPayError carries upstream HTTP status',
   })
 
   it('preserves 404 status on getProduct', async () => {
-    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
-      new Response('not found', { status: 404 }),
-    )
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response('not found', { status: 404 }))
 
     const client = createSolvaPayClient({ apiKey, apiBaseUrl: baseUrl })
 
@@ -62,11 +68,9 @@ describe('createSolvaPayClient — SolvaPayError carries upstream HTTP status',
   })
 
   it('still throws a SolvaPayError instance (backwards compatible)', async () => {
-    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
-      new Response('boom', { status: 500 }),
-    )
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response('boom', { status: 500 }))
 
-    const client = createSolvaPayClient({ apiKey, apiBaseUrl: baseUrl })
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl: baseUrl, retry: false })
 
     await expect(client.getMerchant!()).rejects.toBeInstanceOf(SolvaPayError)
   })
@@ -80,4 +84,66 @@ describe('createSolvaPayClient — SolvaPayError carries upstream HTTP status',
       expect((e as SolvaPayError).status).toBeUndefined()
     }
   })
+
+  it.each([
+    [401, SolvaPayAuthenticationError],
+    [404, SolvaPayNotFoundError],
+    [409, SolvaPayConflictError],
+    [422, SolvaPayValidationError],
+    [500, SolvaPayServerError],
+  ])('throws the typed subclass for %i', async (status, ErrorClass) => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+      new Response('{}', { status, headers: { 'x-request-id': 'req_42' } }),
+    )
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl: baseUrl, retry: false })
+    const error = await client.getMerchant!().catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ErrorClass)
+    expect(error).toBeInstanceOf(SolvaPayError)
+    expect(error).toMatchObject({ status, requestId: 'req_42', body: '{}' })
+  })
+
+  it('parses field errors and Retry-After from the response', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            statusCode: 400,
+            message: ['email must be an email'],
+            error: 'Bad Request',
+          }),
+          { status: 400 },
+        ),
+      )
+      .mockResolvedValueOnce(
+        new Response('slow down', { status: 429, headers: { 'Retry-After': '3600' } }),
+      )
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl: baseUrl, retry: false })
+
+    const validation = await client.createCustomer!({ email: 'nope', metadata: {} }).catch(
+      (e: unknown) => e,
+    )
+    expect(validation).toBeInstanceOf(SolvaPayValidationError)
+    expect((validation as SolvaPayValidationError).fieldErrors).toEqual({
+      email: ['email must be an email'],
+    })
+
+    const limited = await client
+      .checkLimits({ customerRef: 'cus_1', productRef: 'prd_1' })
+      .catch((e: unknown) => e)
+    expect(limited).toBeInstanceOf(SolvaPayRateLimitError)
+    expect((limited as SolvaPayRateLimitError).retryAfter).toBe(3600)
+  })
+
+  it('throws SolvaPayNotFoundError when no customer matches an externalRef', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response('[]', { status: 200 }))
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl: baseUrl })
+
+    await expect(client.getCustomer({ externalRef: 'user_missing' })).rejects.toBeInstanceOf(
+      SolvaPayNotFoundError,
+    )
+  })
 })
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SolvaPayError } from '@solvapay/core'
+import { createSolvaPayClient } from '../src/client'
+
+const apiKey = 'sk_test_123'
+const apiBaseUrl = 'https://api.solvapay.com'
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { status: 200, ...init })
+
+/** A fetch that never settles until its signal aborts. */
+const hangingFetch = (_url: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(init.signal!.reason))
+  })
+
+const fetchInit = (call: number) => vi.mocked(fetch).mock.calls[call]![1]!
+const headersOf = (call: number) => fetchInit(call).headers as Record<string, string>
+
+describe('createSolvaPayClient — timeouts, retries and idempotency', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('retries 5xx responses with the same Idempotency-Key', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+      .mockResolvedValueOnce(new Response('bad gateway', { status: 502 }))
+      .mockResolvedValueOnce(json({ customerRef: 'cus_1' }))
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl, retry: { initialDelay: 1 } })
+    await expect(client.createCustomer!({ email: 'a@example.com', metadata: {} })).resolves.toEqual(
+      { customerRef: 'cus_1' },
+    )
+
+    expect(fetch).toHaveBeenCalledTimes(3)
+    const key = headersOf(0)['Idempotency-Key']
+    expect(key).toMatch(/^sdk-/)
+    expect(headersOf(1)['Idempotency-Key']).toBe(key)
+    expect(headersOf(2)['Idempotency-Key']).toBe(key)
+  })
+
+  it('keeps the usage idempotency key stable across retries so events are not double-billed', async () => {
+    vi.mocked(fetch)
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(json({ reference: 'usage_1' }))
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl, retry: { initialDelay: 1 } })
+    await client.trackUsage({ customerRef: 'cus_1', units: 1, outcome: 'success' })
+
+    const first = JSON.parse(String(fetchInit(0).body))
+    const second = JSON.parse(String(fetchInit(1).body))
+    expect(first.idempotencyKey).toMatch(/^usage-/)
+    expect(second.idempotencyKey).toBe(first.idempotencyKey)
+    expect(headersOf(1)['Idempotency-Key']).toBe(first.idempotencyKey)
+  })
+
+  it('prefers a caller-supplied idempotency key', async () => {
+    vi.mocked(fetch).mockImplementation(async () => json({ reference: 'usage_1' }))
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl })
+    await client.trackUsage({ customerRef: 'cus_1', units: 1 }, { idempotencyKey: 'usage-req_42' })
+    await client.activatePlan!(
+      { customerRef: 'cus_1', productRef: 'prd_1', planRef: 'pln_1' },
+      { idempotencyKey: 'activate-req_42' },
+    )
+
+    expect(JSON.parse(String(fetchInit(0).body)).idempotencyKey).toBe('usage-req_42')
+    expect(headersOf(1)['Idempotency-Key']).toBe('activate-req_42')
+  })
+
+  it('does not send idempotency keys on GET requests', async () => {
+    vi.mocked(fetch).mockResolvedValue(json({ displayName: 'Acme' }))
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl })
+    await client.getMerchant!()
+
+    expect(headersOf(0)['Idempotency-Key']).toBeUndefined()
+  })
+
+  it('honours Retry-After on 429', async () => {
+    vi.useFakeTimers()
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(
+        new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } }),
+      )
+      .mockResolvedValueOnce(json({ withinLimits: true, remaining: 5 }))
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl })
+    const result = client.checkLimits({ customerRef: 'cus_1', productRef: 'prd_1' })
+
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(result).resolves.toMatchObject({ withinLimits: true })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('fails immediately when Retry-After exceeds maxRetryAfter', async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      new Response('come back later', { status: 429, headers: { 'Retry-After': '3600' } }),
+    )
+
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl })
+    await expect(
+      client.checkLimits({ customerRef: 'cus_1', productRef: 'prd_1' }),
+    ).rejects.toMatchObject({ status: 429 })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns the last 5xx once retries are exhausted and never retries 4xx', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response('down', { status: 500 }))
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl, retry: { initialDelay: 1 } })
+
+    await expect(client.getMerchant!()).rejects.toThrow('Get merchant failed (500): down')
+    expect(fetch).toHaveBeenCalledTimes(3)
+
+    vi.mocked(fetch).mockClear()
+    vi.mocked(fetch).mockImplementation(async () => new Response('nope', { status: 400 }))
+    await expect(client.getMerchant!()).rejects.toMatchObject({ status: 400 })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('lets a call override the client retry policy', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response('down', { status: 503 }))
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl, retry: { initialDelay: 1 } })
+
+    await expect(client.getMerchant!({ retry: false })).rejects.toMatchObject({ status: 503 })
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    vi.mocked(fetch).mockClear()
+    await expect(
+      client.getMerchant!({ retry: { maxRetries: 4, initialDelay: 1 } }),
+    ).rejects.toMatchObject({ status: 503 })
+    expect(fetch).toHaveBeenCalledTimes(5)
+
+    vi.mocked(fetch).mockClear()
+    const noRetryClient = createSolvaPayClient({ apiKey, apiBaseUrl, retry: false })
+    await expect(
+      noRetryClient.getMerchant!({ retry: { maxRetries: 1, initialDelay: 1 } }),
+    ).rejects.toMatchObject({ status: 503 })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('aborts attempts that exceed the timeout and reports a timeout error', async () => {
+    vi.mocked(fetch).mockImplementation(hangingFetch)
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl, timeout: 10_000 })
+
+    const error = await client.getMerchant!({
+      timeout: 20,
+      retry: { maxRetries: 1, initialDelay: 1 },
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(SolvaPayError)
+    expect(error).toMatchObject({
+      code: 'timeout',
+      message: 'Get merchant timed out after 20ms',
+    })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('wraps exhausted network errors in a SolvaPayError', async () => {
+    vi.mocked(fetch).mockRejectedValue(new TypeError('fetch failed'))
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl, retry: false })
+
+    await expect(client.getMerchant!()).rejects.toMatchObject({
+      name: 'SolvaPayError',
+      code: 'network_error',
+      message: 'Get merchant failed: fetch failed',
+    })
+  })
+
+  it('never retries a call the caller aborted', async () => {
+    vi.mocked(fetch).mockImplementation(hangingFetch)
+    const client = createSolvaPayClient({ apiKey, apiBaseUrl })
+    const controller = new AbortController()
+
+    const pending = client.getMerchant!({ signal: controller.signal }).catch((e: unknown) => e)
+    controller.abort(new Error('user navigated away'))
+
+    await expect(pending).resolves.toMatchObject({ message: 'user navigated away' })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -129,12 +129,24 @@ describe('credits and usage client methods', () => {
     const [url, init] = getFetchCall()
     expect(url).toBe(`${apiBaseUrl}/v1/sdk/usages/bulk`)
     expect(init.method).toBe('POST')
-    expect(JSON.parse(String(init.body))).toEqual({
+    const body = JSON.parse(String(init.body))
+    expect(body).toEqual({
       events: [
-        { customerRef: 'cus_123', productRef: 'prd_123', units: 1 },
-        { customerRef: 'cus_123', productRef: 'prd_123', units: 1 },
+        {
+          customerRef: 'cus_123',
+          productRef: 'prd_123',
+          units: 1,
+          idempotencyKey: expect.stringMatching(/^usage-/),
+        },
+        {
+          customerRef: 'cus_123',
+          productRef: 'prd_123',
+          units: 1,
+          idempotencyKey: expect.stringMatching(/^usage-/),
+        },
       ],
     })
+    expect(body.events[0].idempotencyKey).not.toBe(body.events[1].idempotencyKey)
     expect(result.results).toHaveLength(2)
     expect(result.results[1]?.creditDebit).toEqual({ debited: false, reason: 'duplicate' })
   })
@@ -0,0 +1,193 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createSolvaPayDevServer } from '@solvapay/test-utils/dev-server'
+import type { SolvaPayDevServerHandle } from '@solvapay/test-utils/dev-server'
+import { createSolvaPay, createSolvaPayClient, PaywallError } from '../src/index'
+
+// Drives the dev server through the real HTTP client, so a route or
+// response shape that drifts from what `createSolvaPayClient` parses
+// fails here rather than in someone's local example app.
+const API_KEY = 'sk_test_dev_server'
+
+const fixture = {
+  products: [
+    {
+      reference: 'prd_chat',
+      name: 'Chat',
+      plans: [
+        { reference: 'pln_free', name: 'Free', freeUnits: 2, default: true },
+        { reference: 'pln_pro', name: 'Pro', price: 2000 },
+      ],
+    },
+  ],
+  customers: [{ reference: 'cus_seeded', email: 'seeded@example.com', externalRef: 'user_seeded' }],
+}
+
+let handles: SolvaPayDevServerHandle[] = []
+
+async function startServer(options: Parameters<typeof createSolvaPayDevServer>[0] = {}) {
+  const server = createSolvaPayDevServer({ apiKey: API_KEY, fixture, ...options })
+  const handle = await server.listen({ port: 0 })
+  handles.push(handle)
+  return { server, url: handle.url }
+}
+
+afterEach(async () => {
+  await Promise.all(handles.map(handle => handle.close()))
+  handles = []
+})
+
+describe('createSolvaPayDevServer', () => {
+  it('serves the paywall and hosted checkout flow end to end', async () => {
+    const { url } = await startServer()
+    const solvaPay = createSolvaPay({ apiKey: API_KEY, apiBaseUrl: url })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_chat' })
+      .function(async () => ({ ok: true }))
+    const call = { auth: { customer_ref: 'user_1' } }
+
+    await expect(handler(call)).resolves.toEqual({ ok: true })
+    await expect(handler(call)).resolves.toEqual({ ok: true })
+
+    const gated = await handler(call).catch((error: unknown) => error)
+    expect(gated).toBeInstanceOf(PaywallError)
+    const { checkoutUrl } = (gated as PaywallError).structuredContent
+    expect(checkoutUrl).toMatch(new RegExp(`^${url}/checkout/cs_fake_\\d+$`))
+
+    const page = await fetch(checkoutUrl!)
+    expect(page.headers.get('content-type')).toContain('text/html')
+    const completed = await fetch(`${checkoutUrl}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'planRef=pln_pro',
+    })
+    expect(completed.status).toBe(200)
+
+    await expect(handler(call)).resolves.toEqual({ ok: true })
+  })
+
+  it('round-trips client calls and surfaces API errors like the live backend', async () => {
+    const { url } = await startServer()
+    const client = createSolvaPayClient({ apiKey: API_KEY, apiBaseUrl: url })
+
+    await expect(client.getCustomer({ externalRef: 'user_seeded' })).resolves.toMatchObject({
+      customerRef: 'cus_seeded',
+      email: 'seeded@example.com',
+    })
+    await expect(client.listPlans!('prd_chat')).resolves.toHaveLength(2)
+
+    const session = await client.createCheckoutSession({
+      customerRef: 'cus_seeded',
+      productRef: 'prd_chat',
+      planRef: 'pln_pro',
+      returnUrl: 'https://app.example.com/done',
+    })
+    const redirect = await fetch(`${url}/checkout/${session.sessionId}/complete`, {
+      method: 'POST',
+      redirect: 'manual',
+    })
+    expect(redirect.status).toBe(303)
+    expect(redirect.headers.get('location')).toBe('https://app.example.com/done')
+
+    await expect(client.getCustomer({ externalRef: 'user_missing' })).rejects.toMatchObject({
+      status: 404,
+    })
+    await expect(
+      client.createCustomer!({ email: 'seeded@example.com', metadata: {} }),
+    ).rejects.toThrow(/failed \(409\):.*Customer with identifier email already exists/)
+  })
+
+  it('rejects requests without the configured API key', async () => {
+    const { url } = await startServer()
+
+    const missing = await fetch(`${url}/v1/sdk/merchant`)
+    expect(missing.status).toBe(401)
+    await expect(missing.json()).resolves.toMatchObject({ statusCode: 401 })
+
+    const client = createSolvaPayClient({ apiKey: 'sk_wrong', apiBaseUrl: url })
+    await expect(client.getMerchant!()).rejects.toMatchObject({ status: 401 })
+  })
+
+  it('validates required body fields', async () => {
+    const { server } = await startServer()
+
+    const res = await server.fetch(
+      new Request('http://dev.test/v1/sdk/limits', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${API_KEY}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productRef: 'prd_chat' }),
+      }),
+    )
+    expect(res.status).toBe(400)
+    await expect(res.json()).resolves.toEqual({
+      statusCode: 400,
+      message: 'customerRef is required',
+      error: 'Bad Request',
+    })
+  })
+
+  it('builds checkout and portal URLs from the origin of each request', async () => {
+    const server = createSolvaPayDevServer({ apiKey: API_KEY, fixture, latencyMs: 20 })
+    const post = (origin: string, path: string, body: unknown) =>
+      server
+        .fetch(
+          new Request(`${origin}${path}`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${API_KEY}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          }),
+        )
+        .then(res => res.json() as Promise<Record<string, string>>)
+
+    // In flight together, so each URL is built while the other request
+    // is pending.
+    const [checkout, portal] = await Promise.all([
+      post('http://a.dev.test', '/v1/sdk/checkout-sessions', {
+        customerRef: 'cus_seeded',
+        productRef: 'prd_chat',
+      }),
+      post('http://b.dev.test', '/v1/sdk/customers/customer-sessions', {
+        customerRef: 'cus_seeded',
+      }),
+    ])
+
+    expect(checkout.checkoutUrl).toMatch(/^http:\/\/a\.dev\.test\/checkout\//)
+    expect(portal.customerUrl).toMatch(/^http:\/\/b\.dev\.test\/customer\//)
+  })
+
+  it('seeds state from a JSON fixture file and exposes dev controls', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'solvapay-dev-server-'))
+    try {
+      const path = join(dir, 'fixture.json')
+      writeFileSync(path, JSON.stringify(fixture))
+      const { url } = await startServer({ fixture: path })
+      const client = createSolvaPayClient({ apiKey: API_KEY, apiBaseUrl: url })
+
+      const intent = await client.createPaymentIntent!({
+        customerRef: 'cus_seeded',
+        productRef: 'prd_chat',
+        planRef: 'pln_pro',
+      })
+      await fetch(`${url}/_dev/payment-outcome`, {
+        method: 'POST',
+        body: JSON.stringify({ outcome: 'succeeded_bare' }),
+      })
+      await expect(
+        client.processPaymentIntent!({
+          paymentIntentId: intent.processorPaymentId,
+          customerRef: 'cus_seeded',
+        }),
+      ).resolves.toEqual({ status: 'succeeded' })
+
+      const settled = await fetch(`${url}/_dev/settle-payments`, { method: 'POST' })
+      await expect(settled.json()).resolves.toEqual({ settled: 1 })
+      await expect(client.getCustomer({ customerRef: 'cus_seeded' })).resolves.toMatchObject({
+        purchases: [expect.objectContaining({ planRef: 'pln_pro' })],
+      })
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
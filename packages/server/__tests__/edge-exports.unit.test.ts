@@ -26,6 +26,13 @@ describe('edge entry point parity', () => {
     expect(edgeEntry).toHaveProperty('isErrorResult')
     expect(edgeEntry).toHaveProperty('handleRouteError')
   })
+
+  // `@solvapay/mcp-core` verifies MCP bearer tokens with these, and the
+  // fetch MCP adapter runs on edge runtimes.
+  it('re-exports verifyJwt and JwtVerificationError', () => {
+    expect(typeof edgeEntry.verifyJwt).toBe('function')
+    expect(typeof edgeEntry.JwtVerificationError).toBe('function')
+  })
 })
 
 // Second surface: the `./fetch` subpath export (folded in from
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import type { FakeCustomerSeed } from '@solvapay/test-utils/fake-backend'
+import { createSolvaPay, EntitlementError } from '../src/index'
+
+const backend = (customers: FakeCustomerSeed[] = []) =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_app',
+        name: 'App',
+        plans: [
+          { reference: 'pln_free', name: 'Free', freeUnits: 10, default: true },
+          {
+            reference: 'pln_pro',
+            name: 'Pro',
+            price: 2900,
+            features: { sso: true, exports: false, projects: 5 },
+            limits: { seats: 10 },
+          },
+        ],
+      },
+      {
+        reference: 'prd_addon',
+        name: 'Add-on',
+        plans: [
+          {
+            reference: 'pln_addon',
+            name: 'Exports Add-on',
+            price: 900,
+            features: { exports: true, projects: 20 },
+            limits: { seats: 3 },
+          },
+        ],
+      },
+    ],
+    customers,
+  })
+
+const proCustomer = (externalRef: string, extra: FakeCustomerSeed['purchases'] = []) => ({
+  externalRef,
+  purchases: [{ productRef: 'prd_app', planRef: 'pln_pro' }, ...extra],
+})
+
+describe('solvaPay.entitlements', () => {
+  it("reads features, limits and plans from the active purchase's plan snapshot", async () => {
+    const solvaPay = createSolvaPay({ apiClient: backend([proCustomer('ent_user_1')]) })
+
+    const entitlements = await solvaPay.entitlements('ent_user_1')
+
+    expect(entitlements.customerRef).toMatch(/^cus_/)
+    expect(entitlements.plans).toEqual([
+      expect.objectContaining({ reference: 'pln_pro', name: 'Pro', productRef: 'prd_app' }),
+    ])
+    expect(entitlements.has('sso')).toBe(true)
+    expect(entitlements.has('exports')).toBe(false)
+    expect(entitlements.has('missing')).toBe(false)
+    expect(entitlements.get('projects')).toBe(5)
+    expect(entitlements.limit('seats')).toBe(10)
+    expect(entitlements.onPlan('pro')).toBe(true)
+    expect(entitlements.onPlan('pln_pro')).toBe(true)
+    expect(entitlements.check({ plan: ['Team', 'Pro'], limits: { seats: 10 } })).toBe(true)
+    expect(entitlements.check({ feature: ['sso', 'exports'] })).toBe(false)
+  })
+
+  it('merges plans across products unless scoped to one', async () => {
+    const solvaPay = createSolvaPay({
+      apiClient: backend([
+        proCustomer('ent_user_2', [{ productRef: 'prd_addon', planRef: 'pln_addon' }]),
+      ]),
+    })
+
+    const all = await solvaPay.entitlements('ent_user_2')
+    expect(all.has('exports')).toBe(true)
+    expect(all.get('projects')).toBe(20)
+    expect(all.limit('seats')).toBe(10)
+
+    const app = await solvaPay.entitlements('ent_user_2', { product: 'prd_app' })
+    expect(app.has('exports')).toBe(false)
+    expect(app.plans.map(plan => plan.reference)).toEqual(['pln_pro'])
+  })
+
+  it('caches lookups and shares concurrent ones until asked for fresh data', async () => {
+    const apiClient = backend([proCustomer('ent_user_3')])
+    const solvaPay = createSolvaPay({ apiClient })
+    const lookups = () => apiClient.calls.filter(call => call.method === 'getCustomer').length
+
+    await Promise.all([solvaPay.entitlements('ent_user_3'), solvaPay.entitlements('ent_user_3')])
+    const afterFirst = lookups()
+    await solvaPay.entitlements('ent_user_3')
+    expect(lookups()).toBe(afterFirst)
+
+    await solvaPay.entitlements('ent_user_3', { fresh: true })
+    expect(lookups()).toBe(afterFirst + 1)
+  })
+
+  it('returns empty entitlements for anonymous callers without creating a customer', async () => {
+    const apiClient = backend()
+    const entitlements = await createSolvaPay({ apiClient }).entitlements('anonymous')
+
+    expect(entitlements.plans).toEqual([])
+    expect(entitlements.has('sso')).toBe(false)
+    expect(apiClient.calls).toEqual([])
+  })
+})
+
+describe('solvaPay.requireEntitlement', () => {
+  it('runs Next handlers for entitled customers without recording usage', async () => {
+    const apiClient = backend([proCustomer('ent_next_1')])
+    const route = createSolvaPay({ apiClient })
+      .requireEntitlement({ plan: 'Pro' })
+      .next(async (args, { entitlements }) => ({ id: args.id, seats: entitlements.limit('seats') }))
+
+    const response = await route(
+      new Request('https://app.test/teams/7?id=7', { headers: { 'x-customer-ref': 'ent_next_1' } }),
+    )
+
+    expect(response.status).toBe(200)
+    await expect(response.json()).resolves.toEqual({ id: '7', seats: 10 })
+    expect(apiClient.usageEvents).toEqual([])
+    expect(apiClient.calls.map(call => call.method)).not.toContain('checkLimits')
+  })
+
+  it('answers 403 with the entitlement payload when the check fails', async () => {
+    const apiClient = backend()
+    let ran = false
+    const route = createSolvaPay({ apiClient })
+      .requireEntitlement('sso')
+      .next(async () => {
+        ran = true
+        return { ok: true }
+      })
+
+    const response = await route(
+      new Request('https://app.test/sso', { headers: { 'x-customer-ref': 'ent_next_2' } }),
+    )
+
+    expect(response.status).toBe(403)
+    await expect(response.json()).resolves.toEqual({
+      success: false,
+      error: 'Entitlement required',
+      kind: 'entitlement_required',
+      message: 'Your plan does not include feature "sso".',
+      feature: ['sso'],
+    })
+    expect(ran).toBe(false)
+    expect(apiClient.usageEvents).toEqual([])
+  })
+
+  it('sets the status on Express-style replies', async () => {
+    const route = createSolvaPay({ apiClient: backend() })
+      .requireEntitlement({ limits: { seats: 5 } }, { product: 'prd_app' })
+      .http(async () => ({ ok: true }))
+
+    const sent: { status?: number; body?: unknown } = {}
+    const reply = {
+      status(code: number) {
+        sent.status = code
+        return reply
+      },
+      json(body: unknown) {
+        sent.body = body
+      },
+    }
+    await route({ headers: { 'x-customer-ref': 'ent_http_1' }, body: {} }, reply)
+
+    expect(sent).toMatchObject({ status: 403, body: { kind: 'entitlement_required' } })
+  })
+
+  it('narrates a missing entitlement on MCP without flagging a tool error', async () => {
+    const apiClient = backend([proCustomer('ent_mcp_1')])
+    const guard = createSolvaPay({ apiClient }).requireEntitlement({ feature: 'exports' })
+    const tool = guard.mcp(async () => ({ url: 'https://files.test/report.csv' }))
+
+    const result = (await tool({ auth: { customer_ref: 'ent_mcp_1' } })) as {
+      content: Array<{ text: string }>
+      isError: boolean
+      structuredContent: Record<string, unknown>
+    }
+
+    expect(result.isError).toBe(false)
+    expect(result.content[0]!.text).toBe('Your plan does not include feature "exports".')
+    expect(result.structuredContent).toMatchObject({
+      kind: 'entitlement_required',
+      feature: ['exports'],
+    })
+    await expect(guard.check('ent_mcp_1')).resolves.toBe(false)
+    expect(apiClient.usageEvents).toEqual([])
+  })
+
+  it('accepts predicates and exposes the error for direct use', async () => {
+    const solvaPay = createSolvaPay({ apiClient: backend([proCustomer('ent_pred_1')]) })
+    const entitlements = await solvaPay.entitlements('ent_pred_1')
+
+    expect(() => entitlements.require(e => (e.get<number>('projects') ?? 0) > 10)).toThrow(
+      EntitlementError,
+    )
+    expect(() => entitlements.require('sso')).not.toThrow()
+    await expect(solvaPay.requireEntitlement(e => e.has('sso')).check('ent_pred_1')).resolves.toBe(
+      true,
+    )
+  })
+})
@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest'
+import { SolvaPayError } from '@solvapay/core'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import { createSolvaPay, PaywallError } from '../src/index'
+
+// The fake lives in `@solvapay/test-utils` (no tests of its own); this
+// suite drives it through the real paywall so drift between the fake's
+// semantics and what `createSolvaPay` expects from the API fails here.
+function seededBackend() {
+  return createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_chat',
+        name: 'Chat',
+        plans: [
+          { reference: 'pln_free', name: 'Free', freeUnits: 2, default: true },
+          { reference: 'pln_pro', name: 'Pro', price: 2000 },
+          {
+            reference: 'pln_credits',
+            name: 'Pay as you go',
+            type: 'usage-based',
+            creditsPerUnit: 10,
+          },
+        ],
+      },
+    ],
+  })
+}
+
+const call = (customerRef: string) => ({ prompt: 'hi', auth: { customer_ref: customerRef } })
+
+describe('createFakeSolvaPayBackend', () => {
+  it('allows free units, gates with a checkout URL, then allows again after checkout', async () => {
+    const backend = seededBackend()
+    const solvaPay = createSolvaPay({ apiClient: backend })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_chat' })
+      .function(async () => ({ ok: true }))
+
+    await expect(handler(call('user_1'))).resolves.toEqual({ ok: true })
+    await expect(handler(call('user_1'))).resolves.toEqual({ ok: true })
+
+    const gated = await handler(call('user_1')).catch((error: unknown) => error)
+    expect(gated).toBeInstanceOf(PaywallError)
+    const { checkoutUrl } = (gated as PaywallError).structuredContent
+    expect(checkoutUrl).toMatch(/^https:\/\/solvapay\.test\/checkout\/cs_fake_\d+$/)
+
+    backend.completeCheckout(checkoutUrl!.split('/').pop()!, { planRef: 'pln_pro' })
+    await expect(handler(call('user_1'))).resolves.toEqual({ ok: true })
+
+    const { customerRef } = await backend.getCustomer({ externalRef: 'user_1' })
+    expect(backend.calls.filter(c => c.method === 'createCustomer')).toHaveLength(1)
+    expect(backend.getPurchases(customerRef)).toMatchObject([{ planRef: 'pln_pro' }])
+    expect(backend.getUsage({ customerRef, productRef: 'prd_chat' })).toBe(3)
+    expect(backend.usageEvents.map(e => e.outcome)).toEqual([
+      'success',
+      'success',
+      'paywall',
+      'success',
+    ])
+  })
+
+  it('debits credits on usage-based plans and reports the balance on checkLimits', async () => {
+    const backend = createFakeSolvaPayBackend({
+      products: [
+        {
+          reference: 'prd_api',
+          plans: [{ reference: 'pln_payg', type: 'usage-based', creditsPerUnit: 10 }],
+        },
+      ],
+      customers: [
+        {
+          reference: 'cus_alice',
+          credits: 25,
+          purchases: [{ productRef: 'prd_api', planRef: 'pln_payg' }],
+        },
+      ],
+    })
+
+    const before = await backend.checkLimits({ customerRef: 'cus_alice', productRef: 'prd_api' })
+    expect(before).toMatchObject({
+      withinLimits: true,
+      remaining: 2,
+      plan: 'pln_payg',
+      balance: { creditBalance: 25, creditsPerUnit: 10 },
+    })
+
+    const tracked = await backend.trackUsage({
+      customerRef: 'cus_alice',
+      productRef: 'prd_api',
+      units: 2,
+      outcome: 'success',
+      idempotencyKey: 'evt_1',
+    })
+    expect(tracked.creditDebit).toEqual({ debited: true, amount: 20, unitsRemaining: 0 })
+
+    const replay = await backend.trackUsage({
+      customerRef: 'cus_alice',
+      productRef: 'prd_api',
+      units: 2,
+      outcome: 'success',
+      idempotencyKey: 'evt_1',
+    })
+    expect(replay.creditDebit).toEqual({ debited: false, reason: 'duplicate' })
+    expect(backend.getCreditBalance('cus_alice')).toBe(5)
+
+    const after = await backend.checkLimits({
+      customerRef: 'cus_alice',
+      productRef: 'prd_api',
+      includeCheckoutSession: true,
+    })
+    expect(after).toMatchObject({ withinLimits: false, remaining: 0, creditBalance: 5 })
+    expect(after.checkoutUrl).toBeDefined()
+  })
+
+  it('throws SolvaPayErrors shaped like the live client', async () => {
+    const backend = createFakeSolvaPayBackend({ autoCreateProducts: false })
+    await backend.createCustomer({ email: 'a@example.com', externalRef: 'user_a', metadata: {} })
+
+    await expect(
+      backend.createCustomer({ email: 'a@example.com', metadata: {} }),
+    ).rejects.toMatchObject({ status: 409, message: expect.stringContaining('already exists') })
+    await expect(backend.getCustomer({ externalRef: 'user_missing' })).rejects.toThrow(
+      'Get customer failed (404)',
+    )
+    await expect(
+      backend.checkLimits({ customerRef: 'cus_fake_1', productRef: 'prd_missing' }),
+    ).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('simulates the bare succeeded webhook race', async () => {
+    const backend = seededBackend()
+    const { customerRef } = await backend.createCustomer({
+      email: 'race@example.com',
+      metadata: {},
+    })
+    const intent = await backend.createPaymentIntent({
+      customerRef,
+      productRef: 'prd_chat',
+      planRef: 'pln_pro',
+    })
+
+    backend.setPaymentOutcome('succeeded_bare')
+    const processed = await backend.processPaymentIntent({
+      paymentIntentId: intent.processorPaymentId,
+      customerRef,
+    })
+    expect(processed).toEqual({ status: 'succeeded' })
+    expect(backend.getPurchases(customerRef)).toEqual([])
+
+    expect(backend.settlePendingPayments()).toBe(1)
+    expect(backend.getPurchases(customerRef)).toMatchObject([
+      { planRef: 'pln_pro', status: 'active' },
+    ])
+    await expect(
+      backend.processPaymentIntent({ paymentIntentId: intent.processorPaymentId, customerRef }),
+    ).resolves.toMatchObject({ status: 'succeeded', type: 'recurring' })
+  })
+
+  it('books topup credits when the payment settles', async () => {
+    const backend = createFakeSolvaPayBackend({ creditsPerMinorUnit: 10 })
+    const { customerRef } = await backend.createCustomer({
+      email: 'topup@example.com',
+      metadata: {},
+    })
+    const intent = await backend.createTopupPaymentIntent({
+      customerRef,
+      amount: 500,
+      currency: 'USD',
+    })
+
+    await expect(
+      backend.processPaymentIntent({ paymentIntentId: intent.processorPaymentId, customerRef }),
+    ).resolves.toEqual({ status: 'succeeded' })
+    await expect(backend.getCustomerBalance({ customerRef })).resolves.toMatchObject({
+      credits: 5000,
+    })
+    await expect(backend.getPaymentMethod({ customerRef })).resolves.toMatchObject({
+      kind: 'card',
+    })
+  })
+
+  it('injects failures and timeouts for the next call only', async () => {
+    const backend = seededBackend()
+    const solvaPay = createSolvaPay({ apiClient: backend })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_chat' })
+      .function(async () => ({ ok: true }))
+
+    backend.failNext('checkLimits')
+    const failed = await handler(call('user_2')).catch((error: unknown) => error)
+    expect(failed).toBeInstanceOf(SolvaPayError)
+    expect((failed as SolvaPayError).status).toBe(500)
+    await expect(handler(call('user_2'))).resolves.toEqual({ ok: true })
+
+    backend.timeoutNext('getMerchant', { afterMs: 5 })
+    await expect(backend.getMerchant()).rejects.toMatchObject({ status: 504 })
+    await expect(backend.getMerchant()).resolves.toMatchObject({ displayName: 'Fake Merchant' })
+  })
+
+  it('activates free plans and asks for payment on paid ones', async () => {
+    const backend = seededBackend()
+    const { customerRef } = await backend.createCustomer({ email: 'b@example.com', metadata: {} })
+
+    await expect(
+      backend.activatePlan({ customerRef, productRef: 'prd_chat', planRef: 'pln_pro' }),
+    ).resolves.toMatchObject({ status: 'payment_required', checkoutUrl: expect.any(String) })
+    await expect(
+      backend.activatePlan({ customerRef, productRef: 'prd_chat', planRef: 'pln_credits' }),
+    ).resolves.toMatchObject({ status: 'topup_required', creditBalance: 0 })
+
+    await backend.assignCredits({ customerRef, credits: 100 })
+    const activated = await backend.activatePlan({
+      customerRef,
+      productRef: 'prd_chat',
+      planRef: 'pln_credits',
+    })
+    expect(activated.status).toBe('activated')
+    await expect(
+      backend.activatePlan({ customerRef, productRef: 'prd_chat', planRef: 'pln_credits' }),
+    ).resolves.toMatchObject({ status: 'already_active', purchaseRef: activated.purchaseRef })
+  })
+})
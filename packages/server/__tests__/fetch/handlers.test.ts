@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 // The fetch handlers import `*Core` helpers + `isErrorResult` from
-// `../helpers` and `verifyWebhook` from `../edge`. We mock those two
+// `../helpers` and `verifyWebhookSignature` from `../edge`. We mock those two
 // relative specifiers (vitest resolves them against `handlers.ts`,
 // the consumer). Previously this test mocked `@solvapay/server`; now
 // that the fetch code lives inside `@solvapay/server` the self-mock
@@ -30,7 +30,7 @@ vi.mock('../../src/helpers', () => ({
 }))
 
 vi.mock('../../src/edge', () => ({
-  verifyWebhook: vi.fn(),
+  verifyWebhookSignature: vi.fn(),
 }))
 
 import {
@@ -50,7 +50,8 @@ import {
   getMerchantCore,
   getProductCore,
 } from '../../src/helpers'
-import { verifyWebhook } from '../../src/edge'
+import { verifyWebhookSignature } from '../../src/edge'
+import { WebhookVerificationError } from '../../src/webhooks'
 import {
   checkPurchase,
   trackUsage,
@@ -86,7 +87,7 @@ const mockCreateCheckoutSessionCore = vi.mocked(createCheckoutSessionCore)
 const mockCreateCustomerSessionCore = vi.mocked(createCustomerSessionCore)
 const mockGetMerchantCore = vi.mocked(getMerchantCore)
 const mockGetProductCore = vi.mocked(getProductCore)
-const mockVerifyWebhook = vi.mocked(verifyWebhook)
+const mockVerifyWebhookSignature = vi.mocked(verifyWebhookSignature)
 
 function fakeGet(url = 'http://localhost/api/test') {
   return new Request(url, { method: 'GET' })
@@ -172,9 +173,7 @@ describe('createPaymentIntent', () => {
       customerRef: 'cus_1',
     })
 
-    const res = await createPaymentIntent(
-      fakePost({ planRef: 'pln_1', productRef: 'prd_1' }),
-    )
+    const res = await createPaymentIntent(fakePost({ planRef: 'pln_1', productRef: 'prd_1' }))
     expect(res.status).toBe(200)
     expect(await res.json()).toMatchObject({ clientSecret: 'cs_1' })
   })
@@ -192,9 +191,7 @@ describe('processPayment', () => {
       type: 'recurring',
     })
 
-    const res = await processPayment(
-      fakePost({ paymentIntentId: 'pi_1', productRef: 'prd_1' }),
-    )
+    const res = await processPayment(fakePost({ paymentIntentId: 'pi_1', productRef: 'prd_1' }))
     expect(res.status).toBe(200)
     expect(await res.json()).toMatchObject({ status: 'succeeded' })
   })
@@ -209,9 +206,7 @@ describe('createTopupPaymentIntent', () => {
       customerRef: 'cus_1',
     })
 
-    const res = await createTopupPaymentIntent(
-      fakePost({ amount: 1000, currency: 'USD' }),
-    )
+    const res = await createTopupPaymentIntent(fakePost({ amount: 1000, currency: 'USD' }))
     expect(res.status).toBe(200)
     expect(await res.json()).toMatchObject({ clientSecret: 'cs_1' })
   })
@@ -265,9 +260,7 @@ describe('activatePlan', () => {
       purchase: { reference: 'pur_1' },
     } as never)
 
-    const res = await activatePlan(
-      fakePost({ productRef: 'prd_1', planRef: 'pln_1' }),
-    )
+    const res = await activatePlan(fakePost({ productRef: 'prd_1', planRef: 'pln_1' }))
     expect(res.status).toBe(200)
   })
 })
@@ -368,7 +361,9 @@ describe('createCheckoutSession', () => {
 
     const res = await createCheckoutSession(fakePost({}))
     expect(res.status).toBe(400)
-    expect(await res.json()).toMatchObject({ error: 'Missing required parameter: productRef is required' })
+    expect(await res.json()).toMatchObject({
+      error: 'Missing required parameter: productRef is required',
+    })
   })
 })
 
@@ -406,6 +401,7 @@ describe('createCustomerSession', () => {
 
 describe('solvapayWebhook', () => {
   const validEvent = { type: 'purchase.created', data: { id: 'pur_1' } }
+  const verified = { event: validEvent, secretIndex: 0, timestamp: 123 }
 
   function fakeWebhookPost(body: string, signature = 't=123,v1=abc') {
     return new Request('http://localhost/webhooks/solvapay', {
@@ -419,9 +415,9 @@ describe('solvapayWebhook', () => {
   }
 
   it('returns 200 and calls onEvent when signature is valid', async () => {
-    // `verifyWebhook` on the edge entry is async (Web Crypto). The
+    // `verifyWebhookSignature` on the edge entry is async (Web Crypto). The
     // consumer awaits it; the mock must resolve.
-    mockVerifyWebhook.mockResolvedValue(validEvent as never)
+    mockVerifyWebhookSignature.mockResolvedValue(verified as never)
     const onEvent = vi.fn()
 
     const handler = solvapayWebhook({ secret: 'whsec_test', onEvent })
@@ -429,11 +425,11 @@ describe('solvapayWebhook', () => {
 
     expect(res.status).toBe(200)
     expect(await res.json()).toEqual({ received: true })
-    expect(onEvent).toHaveBeenCalledWith(validEvent)
+    expect(onEvent).toHaveBeenCalledWith(validEvent, { secretIndex: 0, timestamp: 123 })
   })
 
   it('returns 401 when signature verification fails', async () => {
-    mockVerifyWebhook.mockRejectedValue(new Error('Invalid webhook signature'))
+    mockVerifyWebhookSignature.mockRejectedValue(new Error('Invalid webhook signature'))
     const onEvent = vi.fn()
 
     const handler = solvapayWebhook({ secret: 'whsec_test', onEvent })
@@ -444,8 +440,48 @@ describe('solvapayWebhook', () => {
     expect(onEvent).not.toHaveBeenCalled()
   })
 
+  it('forwards rotated secrets and tolerance, and reports the failure reason', async () => {
+    mockVerifyWebhookSignature.mockRejectedValue(
+      new WebhookVerificationError('expired', 'Webhook signature timestamp too old'),
+    )
+    const onEvent = vi.fn()
+
+    const handler = solvapayWebhook({
+      secret: ['whsec_new', 'whsec_old'],
+      toleranceSec: 60,
+      onEvent,
+    })
+    const res = await handler(fakeWebhookPost('{}'))
+
+    expect(mockVerifyWebhookSignature).toHaveBeenCalledWith({
+      body: '{}',
+      signature: 't=123,v1=abc',
+      secret: ['whsec_new', 'whsec_old'],
+      toleranceSec: 60,
+    })
+    expect(res.status).toBe(401)
+    expect(await res.json()).toEqual({ error: 'Invalid webhook signature', reason: 'expired' })
+  })
+
+  it('returns 400 for a body that is not JSON', async () => {
+    mockVerifyWebhookSignature.mockRejectedValue(
+      new WebhookVerificationError(
+        'invalid_json',
+        'Invalid webhook payload: body is not valid JSON',
+      ),
+    )
+    const onEvent = vi.fn()
+
+    const handler = solvapayWebhook({ secret: 'whsec_test', onEvent })
+    const res = await handler(fakeWebhookPost('not json'))
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'Invalid webhook payload', reason: 'invalid_json' })
+    expect(onEvent).not.toHaveBeenCalled()
+  })
+
   it('returns 500 when onEvent throws', async () => {
-    mockVerifyWebhook.mockResolvedValue(validEvent as never)
+    mockVerifyWebhookSignature.mockResolvedValue(verified as never)
     const onEvent = vi.fn().mockRejectedValue(new Error('handler boom'))
 
     const handler = solvapayWebhook({ secret: 'whsec_test', onEvent })
@@ -456,7 +492,7 @@ describe('solvapayWebhook', () => {
   })
 
   it('does not include CORS headers on responses', async () => {
-    mockVerifyWebhook.mockResolvedValue(validEvent as never)
+    mockVerifyWebhookSignature.mockResolvedValue(verified as never)
     const onEvent = vi.fn()
 
     const handler = solvapayWebhook({ secret: 'whsec_test', onEvent })
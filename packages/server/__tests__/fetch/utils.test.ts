@@ -40,4 +40,22 @@ describe('errorResponse', () => {
     expect(body.error).toBe('Bad request')
     expect(body.details).toBe('Missing field')
   })
+
+  it('forwards error metadata and sets Retry-After', async () => {
+    const res = errorResponse({
+      error: 'Rate limited',
+      status: 429,
+      code: 'rate_limited',
+      requestId: 'req_1',
+      retryAfter: 30,
+    })
+
+    expect(res.headers.get('Retry-After')).toBe('30')
+    expect(await res.json()).toEqual({
+      error: 'Rate limited',
+      code: 'rate_limited',
+      requestId: 'req_1',
+      retryAfter: 30,
+    })
+  })
 })
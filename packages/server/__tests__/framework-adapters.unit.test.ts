@@ -0,0 +1,279 @@
+import Fastify from 'fastify'
+import { describe, expect, it } from 'vitest'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import {
+  describePayableAdapterContract,
+  type PayableContractRequest,
+} from '@solvapay/test-utils/describePayableAdapterContract'
+import { createSolvaPay } from '../src/index'
+import type { SolvaPayFastifyInstance, SolvaPayFastifyRequest } from '../src/index'
+
+declare module 'fastify' {
+  interface FastifyInstance extends SolvaPayFastifyInstance {}
+  interface FastifyRequest extends SolvaPayFastifyRequest {}
+}
+
+const ROUTE = /^\/items\/([^/?]+)/
+
+function toRequest({ method, path, headers, body }: PayableContractRequest): Request {
+  const init: RequestInit = { method, headers: { ...headers } }
+  if (body !== undefined) {
+    const isText = typeof body === 'string'
+    init.body = isText ? body : JSON.stringify(body)
+    ;(init.headers as Record<string, string>)['content-type'] = isText
+      ? 'text/plain'
+      : 'application/json'
+  }
+  return new Request(`http://adapter.test${path}`, init)
+}
+
+/**
+ * The slice of Hono's `Context` the adapter uses. Like Hono, body
+ * readers cache their result so the body can be read twice.
+ */
+function honoContext(request: Request, params: Record<string, string>) {
+  let json: Promise<unknown> | undefined
+  return {
+    req: {
+      raw: request,
+      method: request.method,
+      header: (name: string) => request.headers.get(name) ?? undefined,
+      json: () => (json ??= request.json()),
+      parseBody: async () => Object.fromEntries((await request.formData()).entries()),
+      query: () => Object.fromEntries(new URL(request.url).searchParams),
+      param: () => params,
+    },
+    json: (body: unknown, status = 200) => Response.json(body, { status }),
+  }
+}
+
+/**
+ * The slice of Koa's `Context` the adapter uses, after a body parser
+ * that keeps text bodies as strings. Assigning `body` sets the status
+ * unless one was set explicitly, as in Koa.
+ */
+class KoaContext {
+  request: { body?: unknown }
+  query: Record<string, string>
+  params: Record<string, string>
+  private explicitStatus = false
+  private currentStatus = 404
+  private currentBody: unknown
+
+  constructor(
+    private headers: Record<string, string>,
+    url: URL,
+    params: Record<string, string>,
+    body: unknown,
+  ) {
+    this.request = { body }
+    this.query = Object.fromEntries(url.searchParams)
+    this.params = params
+  }
+
+  get(name: string): string {
+    return this.headers[name.toLowerCase()] ?? ''
+  }
+
+  get status(): number {
+    return this.currentStatus
+  }
+
+  set status(code: number) {
+    this.explicitStatus = true
+    this.currentStatus = code
+  }
+
+  get body(): unknown {
+    return this.currentBody
+  }
+
+  set body(value: unknown) {
+    this.currentBody = value
+    if (!this.explicitStatus) this.currentStatus = value == null ? 204 : 200
+  }
+}
+
+describePayableAdapterContract({
+  name: 'Hono',
+  mount({ apiClient, productRef, handler, routeOptions }) {
+    const route = createSolvaPay({ apiClient }).payable({ productRef }).hono(handler, routeOptions)
+    return {
+      async request(input) {
+        const request = toRequest(input)
+        const id = ROUTE.exec(input.path)![1]!
+        const response = await route(honoContext(request, { id }))
+        return { status: response.status, body: await response.json() }
+      },
+    }
+  },
+})
+
+describePayableAdapterContract({
+  name: 'Fastify',
+  async mount({ apiClient, productRef, handler, routeOptions }) {
+    const app = Fastify()
+    await app.register(createSolvaPay({ apiClient }).payable({ productRef }).fastify())
+    app.route({
+      method: ['GET', 'POST'],
+      url: '/items/:id',
+      handler: app.payable(handler, routeOptions),
+    })
+    return {
+      async request({ method, path, headers, body }) {
+        const response = await app.inject({
+          method,
+          url: path,
+          headers: {
+            ...headers,
+            ...(body !== undefined
+              ? { 'content-type': typeof body === 'string' ? 'text/plain' : 'application/json' }
+              : {}),
+          },
+          ...(body !== undefined
+            ? { payload: typeof body === 'string' ? body : JSON.stringify(body) }
+            : {}),
+        })
+        return { status: response.statusCode, body: response.json() }
+      },
+      close: () => app.close(),
+    }
+  },
+})
+
+describePayableAdapterContract({
+  name: 'Koa',
+  mount({ apiClient, productRef, handler, routeOptions }) {
+    const middleware = createSolvaPay({ apiClient })
+      .payable({ productRef })
+      .koa(handler, routeOptions)
+    return {
+      async request(input) {
+        const url = new URL(`http://adapter.test${input.path}`)
+        const ctx = new KoaContext(
+          input.headers,
+          url,
+          { id: ROUTE.exec(input.path)![1]! },
+          input.body,
+        )
+        await middleware(ctx)
+        return { status: ctx.status, body: ctx.body }
+      },
+    }
+  },
+})
+
+const backend = () =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_frameworks',
+        name: 'Frameworks',
+        plans: [{ reference: 'pln_free', name: 'Free', freeUnits: 10, default: true }],
+      },
+    ],
+  })
+
+describe('payable.hono()', () => {
+  it('passes Response results through and hands the handler the context', async () => {
+    const route = createSolvaPay({ apiClient: backend() })
+      .payable({ productRef: 'prd_frameworks' })
+      .hono(async (_args, context) => {
+        const c = context?.extra as ReturnType<typeof honoContext>
+        return new Response(`streamed for ${c.req.header('x-customer-ref')}`, {
+          headers: { 'content-type': 'text/plain' },
+        })
+      })
+
+    const request = new Request('http://adapter.test/stream', {
+      headers: { 'x-customer-ref': 'hono_stream_1' },
+    })
+    const response = await route(honoContext(request, {}))
+    await expect(response.text()).resolves.toBe('streamed for hono_stream_1')
+  })
+})
+
+describe('payable.fastify()', () => {
+  it('decorates requests with the paywall context and keeps per-route overrides', async () => {
+    const apiClient = backend()
+    const app = Fastify()
+    await app.register(
+      createSolvaPay({ apiClient })
+        .payable({ productRef: 'prd_frameworks' })
+        .fastify({ getCustomerRef: request => request.headers['x-user'] }),
+    )
+    let decorated: unknown
+    app.addHook('onResponse', async request => {
+      decorated = request.solvapay
+    })
+    app.get(
+      '/images',
+      app.payable(async () => ({ ok: true }), { usageType: 'images' }),
+    )
+
+    const response = await app.inject({ url: '/images', headers: { 'x-user': 'fastify_user_1' } })
+
+    expect(response.json()).toEqual({ ok: true })
+    expect(decorated).toMatchObject({ customerRef: expect.stringMatching(/^cus_/) })
+    expect(apiClient.usageEvents).toEqual([
+      expect.objectContaining({ metadata: expect.objectContaining({ action: 'images' }) }),
+    ])
+    await app.close()
+  })
+
+  it('registers under a custom decorator name', async () => {
+    const app = Fastify()
+    await app.register(
+      createSolvaPay({ apiClient: backend() })
+        .payable({ productRef: 'prd_frameworks' })
+        .fastify({ decorator: 'paid' }),
+    )
+    expect(app.hasDecorator('paid')).toBe(true)
+    expect(app.hasDecorator('payable')).toBe(false)
+    await app.close()
+  })
+
+  it('leaves replies the handler already sent alone', async () => {
+    const app = Fastify()
+    await app.register(
+      createSolvaPay({ apiClient: backend() }).payable({ productRef: 'prd_frameworks' }).fastify(),
+    )
+    app.get(
+      '/raw',
+      app.payable(async (_args, context) => {
+        const { reply } = context?.extra as {
+          reply: { code(n: number): { send(b: string): void } }
+        }
+        reply.code(201).send('created')
+      }),
+    )
+
+    const response = await app.inject({
+      url: '/raw',
+      headers: { 'x-customer-ref': 'fastify_raw_1' },
+    })
+    expect(response.statusCode).toBe(201)
+    expect(response.body).toBe('created')
+    await app.close()
+  })
+})
+
+describe('payable.koa()', () => {
+  it('keeps a body the handler set itself', async () => {
+    const middleware = createSolvaPay({ apiClient: backend() })
+      .payable({ productRef: 'prd_frameworks' })
+      .koa(async (_args, context) => {
+        ;(context?.extra as KoaContext).body = 'from handler'
+      })
+    const ctx = new KoaContext(
+      { 'x-customer-ref': 'koa_body_1' },
+      new URL('http://adapter.test/'),
+      {},
+      undefined,
+    )
+
+    await middleware(ctx)
+    expect(ctx.status).toBe(200)
+    expect(ctx.body).toBe('from handler')
+  })
+})
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import type { LogFields, Logger } from '@solvapay/core'
+import { createSolvaPay, createSolvaPayClient } from '../src/index'
+
+/** Logger double keeping every line it is handed. */
+function createRecordingLogger() {
+  const lines: Array<{ level: keyof Logger; message: string; fields?: LogFields }> = []
+  const record =
+    (level: keyof Logger) =>
+    (message: string, fields?: LogFields): void => {
+      lines.push({ level, message, fields })
+    }
+  const logger: Logger = {
+    debug: record('debug'),
+    info: record('info'),
+    warn: record('warn'),
+    error: record('error'),
+  }
+  return { logger, lines }
+}
+
+const backend = () =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_agent',
+        name: 'Agent',
+        plans: [{ reference: 'pln_free', name: 'Free', freeUnits: 10, default: true }],
+      },
+    ],
+  })
+
+describe('createSolvaPay({ logger })', () => {
+  it('logs failed usage tracking as a structured error', async () => {
+    const { logger, lines } = createRecordingLogger()
+    const apiClient = backend()
+    const solvaPay = createSolvaPay({ apiClient, logger })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_agent' })
+      .function(async () => ({ ok: true }))
+
+    apiClient.failNext('trackUsage', new Error('backend down'))
+    await expect(handler({ auth: { customer_ref: 'log_user_1' } })).resolves.toEqual({ ok: true })
+
+    expect(lines.filter(line => line.level === 'error')).toEqual([
+      {
+        level: 'error',
+        message: 'Usage tracking failed',
+        fields: {
+          customerRef: expect.stringMatching(/^cus_/),
+          productRef: 'prd_agent',
+          error: expect.objectContaining({ name: 'Error', message: 'backend down' }),
+        },
+      },
+    ])
+  })
+
+  it('redacts secrets and emails before they reach the logger', async () => {
+    const { logger, lines } = createRecordingLogger()
+    const apiClient = backend()
+    const solvaPay = createSolvaPay({ apiClient, logger })
+
+    apiClient.failNext(
+      'trackUsage',
+      new Error('Rejected Bearer abc.def for jane@example.com with sk_live_123'),
+    )
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_agent' })
+      .function(async () => ({ ok: true }))
+    await handler({ auth: { customer_ref: 'log_user_2' } })
+
+    const [line] = lines.filter(entry => entry.level === 'error')
+    expect(line?.fields?.error).toMatchObject({
+      message: 'Rejected Bearer [REDACTED] for [REDACTED_EMAIL] with [REDACTED]',
+    })
+  })
+})
+
+describe('createSolvaPayClient({ logger })', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('logs API errors at debug level with the operation and status', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('{"message":"no such customer"}', { status: 404 })),
+    )
+    const { logger, lines } = createRecordingLogger()
+    const client = createSolvaPayClient({ apiKey: 'sk_test_123', retry: false, logger })
+
+    await expect(client.getCustomer({ customerRef: 'cus_missing' })).rejects.toThrow()
+
+    expect(lines).toContainEqual({
+      level: 'debug',
+      message: 'SolvaPay API error',
+      fields: { operation: expect.any(String), status: 404, body: expect.any(String) },
+    })
+  })
+})
@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest'
+import { SolvaPayError } from '@solvapay/core'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import { createSolvaPay, isMeteredResult, PaywallError, withUnits } from '../src/index'
+
+const backend = (freeUnits: number) =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_llm',
+        name: 'LLM',
+        plans: [{ reference: 'pln_free', name: 'Free', freeUnits, default: true }],
+      },
+    ],
+  })
+
+const auth = (customerRef: string) => ({ auth: { customer_ref: customerRef } })
+
+describe('withUnits', () => {
+  it('wraps data with a unit count', () => {
+    const result = withUnits({ text: 'hi' }, 42)
+    expect(isMeteredResult(result)).toBe(true)
+    expect(result).toMatchObject({ data: { text: 'hi' }, units: 42 })
+    expect(isMeteredResult({ text: 'hi' })).toBe(false)
+  })
+
+  it.each([-1, 1.5, Number.NaN])('rejects %s units', units => {
+    expect(() => withUnits(null, units)).toThrow(SolvaPayError)
+  })
+})
+
+describe('variable-unit metering', () => {
+  it('bills the units a handler reports and unwraps its data', async () => {
+    const apiClient = backend(100)
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm', usageType: 'tokens' })
+      .function(async () => withUnits({ text: 'done' }, 37))
+
+    await expect(handler(auth('units_user_1'))).resolves.toEqual({ text: 'done' })
+    expect(apiClient.usageEvents).toEqual([
+      expect.objectContaining({ outcome: 'success', units: 37 }),
+    ])
+  })
+
+  it('decrements the cached allowance by the actual units', async () => {
+    const apiClient = backend(100)
+    let calls = 0
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm', estimatedUnits: 50 })
+      .function(async () => {
+        calls++
+        return withUnits({ ok: true }, 60)
+      })
+
+    await handler(auth('units_user_2'))
+    // 100 - 60 = 40 left in the cache, short of the next 50-unit estimate.
+    const second = handler(auth('units_user_2'))
+    await expect(second).rejects.toThrow('Payment required')
+    expect(calls).toBe(1)
+    expect(apiClient.calls.filter(call => call.method === 'checkLimits')).toHaveLength(1)
+  })
+
+  it('gates a fresh pre-check whose estimate exceeds the remaining allowance', async () => {
+    const apiClient = backend(10)
+    let ran = false
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm', estimatedUnits: args => Number(args.images) })
+      .function(async () => {
+        ran = true
+        return { ok: true }
+      })
+
+    await expect(handler({ ...auth('units_user_3'), images: 20 })).rejects.toThrow(
+      'Payment required',
+    )
+    expect(ran).toBe(false)
+    expect(apiClient.usageEvents).toEqual([expect.objectContaining({ outcome: 'paywall' })])
+
+    await expect(handler({ ...auth('units_user_3'), images: 10 })).resolves.toEqual({ ok: true })
+  })
+
+  it('returns the held estimate to the cache when the handler fails', async () => {
+    const apiClient = backend(100)
+    let fail = true
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm', estimatedUnits: 60 })
+      .function(async () => {
+        if (fail) throw new Error('model overloaded')
+        return { ok: true }
+      })
+
+    await expect(handler(auth('units_user_4'))).rejects.toThrow('model overloaded')
+    fail = false
+    // Served from the cache: still 100 units, so the 60-unit estimate fits.
+    await expect(handler(auth('units_user_4'))).resolves.toEqual({ ok: true })
+    expect(apiClient.calls.filter(call => call.method === 'checkLimits')).toHaveLength(1)
+  })
+
+  it('unwraps withUnits results in the Next.js adapter', async () => {
+    const apiClient = backend(100)
+    const route = createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm' })
+      .next(async () => withUnits({ images: ['a.png', 'b.png'] }, 2), {
+        getCustomerRef: () => 'units_user_5',
+      })
+
+    const response = await route(new Request('https://app.test/api/images', { method: 'POST' }))
+    await expect(response.json()).resolves.toEqual({ images: ['a.png', 'b.png'] })
+    expect(apiClient.usageEvents).toEqual([expect.objectContaining({ units: 2 })])
+  })
+})
+
+describe('payable.gate() units', () => {
+  const gateRequest = (customerRef: string) =>
+    new Request('https://api.test/chat', { headers: { 'x-customer-ref': customerRef } })
+
+  it('bills trackSuccess({ units }) and settles the cached allowance', async () => {
+    const apiClient = backend(100)
+    const payable = createSolvaPay({ apiClient }).payable({ productRef: 'prd_llm' })
+
+    const first = await payable.gate(gateRequest('units_gate_1'), { estimatedUnits: 10 })
+    if (first.kind !== 'allow') throw new Error('expected allow')
+    first.trackSuccess({ units: 95 })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(apiClient.usageEvents).toEqual([expect.objectContaining({ units: 95 })])
+
+    const second = await payable.gate(gateRequest('units_gate_1'), { estimatedUnits: 10 })
+    expect(second.kind).toBe('paywall')
+  })
+
+  it('rejects invalid unit counts', async () => {
+    const apiClient = backend(100)
+    const result = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm' })
+      .gate(gateRequest('units_gate_2'))
+    if (result.kind !== 'allow') throw new Error('expected allow')
+
+    expect(() => result.trackSuccess({ units: -5 })).toThrow(SolvaPayError)
+  })
+})
+
+describe('named meters', () => {
+  const events = (apiClient: ReturnType<typeof backend>) =>
+    apiClient.usageEvents.map(event => ({
+      outcome: event.outcome,
+      units: event.units,
+      meter: event.metadata?.action,
+    }))
+
+  it('checks and charges every meter in one call', async () => {
+    const apiClient = backend(1_000)
+    const handler = await createSolvaPay({ apiClient })
+      .payable({
+        productRef: 'prd_llm',
+        meters: ['requests', { name: 'tokens', estimatedUnits: 500 }],
+      })
+      .function(async () => withUnits({ text: 'done' }, { tokens: 420 }))
+
+    await expect(handler(auth('meters_user_1'))).resolves.toEqual({ text: 'done' })
+    expect(
+      apiClient.calls
+        .filter(call => call.method === 'checkLimits')
+        .map(call => (call.params[0] as { meterName: string }).meterName),
+    ).toEqual(['requests', 'tokens'])
+    expect(events(apiClient)).toEqual([
+      { outcome: 'success', units: 1, meter: 'requests' },
+      { outcome: 'success', units: 420, meter: 'tokens' },
+    ])
+  })
+
+  it('names the meter that tripped the gate', async () => {
+    const apiClient = backend(100)
+    let ran = false
+    const handler = await createSolvaPay({ apiClient })
+      .payable({
+        productRef: 'prd_llm',
+        meters: ['requests', { name: 'gpu_seconds', estimatedUnits: 300 }],
+      })
+      .function(async () => {
+        ran = true
+        return { ok: true }
+      })
+
+    const error = await handler(auth('meters_user_2')).catch(err => err)
+    expect(error).toBeInstanceOf(PaywallError)
+    expect((error as PaywallError).structuredContent).toMatchObject({
+      kind: 'payment_required',
+      meter: 'gpu_seconds',
+    })
+    expect(ran).toBe(false)
+    expect(events(apiClient)).toEqual([{ outcome: 'paywall', units: 1, meter: 'gpu_seconds' }])
+  })
+
+  it('reports the meter on single-meter gates', async () => {
+    const apiClient = backend(0)
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm', usageType: 'images' })
+      .function(async () => ({ ok: true }))
+
+    const error = await handler(auth('meters_user_3')).catch(err => err)
+    expect((error as PaywallError).structuredContent).toMatchObject({ meter: 'images' })
+  })
+
+  it('rejects units for a meter the call is not metered on', async () => {
+    const apiClient = backend(100)
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm', meters: ['requests', 'tokens'] })
+      .function(async () => withUnits({ ok: true }, { tokns: 10 }))
+
+    await expect(handler(auth('meters_user_4'))).rejects.toThrow(/meter "tokns"/)
+    expect(events(apiClient)).toEqual([{ outcome: 'fail', units: 1, meter: 'requests' }])
+  })
+
+  it('tracks one event per meter from payable.gate()', async () => {
+    const apiClient = backend(1_000)
+    const result = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm', meters: ['requests', 'tokens'] })
+      .gate(
+        new Request('https://api.test/chat', { headers: { 'x-customer-ref': 'meters_gate_1' } }),
+        { estimatedUnits: { tokens: 800 } },
+      )
+    if (result.kind !== 'allow') throw new Error('expected allow')
+    expect(result.decision.meters).toEqual([
+      expect.objectContaining({ name: 'requests', estimatedUnits: 1 }),
+      expect.objectContaining({ name: 'tokens', estimatedUnits: 800 }),
+    ])
+
+    result.trackSuccess({ units: { tokens: 640 } })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(events(apiClient)).toEqual([
+      { outcome: 'success', units: 1, meter: 'requests' },
+      { outcome: 'success', units: 640, meter: 'tokens' },
+    ])
+  })
+})
@@ -230,4 +230,24 @@ describe('buildPaywallGate', () => {
     const gate = buildPaywallGate('prd_x', limits)
     expect(gate.kind).toBe('activation_required')
   })
+
+  it('leaves the checkout link off a gate tripped by the spending cap', () => {
+    const gate = buildPaywallGate('prd_x', {
+      ...baseLimits,
+      spendingLimit: { monthlyCapMinor: 5_000, monthlySpendMinor: 5_000, currency: 'USD' },
+    })
+    expect(gate).toMatchObject({
+      kind: 'payment_required',
+      product: 'prd_x',
+      checkoutUrl: '',
+      reason: 'budget_exceeded',
+    })
+    expect(gate.message).toMatch(/manage_account/)
+    expect(gate.message).not.toContain('https://pay.example.com/checkout')
+  })
+
+  it('omits the budget marker on ordinary payment gates', () => {
+    const gate = buildPaywallGate('prd_x', baseLimits)
+    expect(gate).not.toHaveProperty('reason')
+  })
 })
@@ -149,6 +149,23 @@ describe('classifyPaywallState', () => {
     )
     expect(state).toEqual({ kind: 'topup_required' })
   })
+
+  it('returns budget_exceeded once spend reaches the spending cap, even with credits left', () => {
+    const spendingLimit = { monthlyCapMinor: 5_000, monthlySpendMinor: 5_000, currency: 'USD' }
+    expect(
+      classifyPaywallState(
+        limits({
+          balance: { creditBalance: 900, creditsPerUnit: 1, currency: 'USD' },
+          spendingLimit,
+        }),
+      ),
+    ).toEqual({ kind: 'budget_exceeded' })
+    expect(
+      classifyPaywallState(
+        limits({ spendingLimit: { ...spendingLimit, monthlySpendMinor: 4_999 } }),
+      ),
+    ).toEqual({ kind: 'upgrade_required' })
+  })
 })
 
 describe('buildGateMessage', () => {
@@ -192,6 +209,16 @@ describe('buildGateMessage', () => {
     expect(msg).toMatch(/upgrade/)
   })
 
+  it('budget_exceeded names manage_account without selling more usage', () => {
+    const msg = buildGateMessage(
+      { kind: 'budget_exceeded' } satisfies PaywallState,
+      gate({ checkoutUrl }),
+    )
+    expect(msg).toMatch(/monthly spending limit/)
+    expect(msg).toMatch(/manage_account/)
+    expect(msg).not.toContain(checkoutUrl)
+  })
+
   it('omits "open {url}" clause when checkoutUrl is empty for non-reactivation states', () => {
     const msg = buildGateMessage(
       { kind: 'upgrade_required' } satisfies PaywallState,
@@ -225,4 +252,17 @@ describe('buildNudgeMessage', () => {
     expect(msg).toMatch(/upgrade/)
     expect(msg).toContain(checkoutUrl)
   })
+
+  it('names the share of the spending cap used for budget warnings', () => {
+    const msg = buildNudgeMessage(
+      { kind: 'budget_exceeded' } satisfies PaywallState,
+      limits({
+        withinLimits: true,
+        spendingLimit: { monthlyCapMinor: 10_000, monthlySpendMinor: 8_250, currency: 'USD' },
+      }),
+    )
+    expect(msg).toBe(
+      "Heads up — you've used 82% of your monthly spending limit. Call the `manage_account` tool to raise it.",
+    )
+  })
 })
@@ -0,0 +1,335 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { SolvaPayPaywall } from '../src/paywall'
+import {
+  createMemoryPaywallStore,
+  createRedisPaywallStore,
+  createKvPaywallStore,
+  createDurableObjectPaywallStore,
+  PaywallStoreDurableObject,
+  PaywallStoreKeys,
+} from '../src/store'
+import type { DurableObjectStorageLike, KvNamespaceLike, RedisCommand } from '../src/store'
+import type { SolvaPayClient } from '../src/types'
+
+/**
+ * Tiny in-process stand-in for the Redis commands the store issues.
+ * `EVAL` is interpreted as the store's decrement-if-present or
+ * decrement-or-create script.
+ */
+function createFakeRedis(): { command: RedisCommand; data: Map<string, string> } {
+  const data = new Map<string, string>()
+  const command: RedisCommand = async args => {
+    const [name, ...rest] = args
+    switch (name) {
+      case 'GET':
+        return data.get(String(rest[0])) ?? null
+      case 'SET':
+        if (rest.includes('NX') && data.has(String(rest[0]))) return null
+        data.set(String(rest[0]), String(rest[1]))
+        return 'OK'
+      case 'DEL':
+        return data.delete(String(rest[0])) ? 1 : 0
+      case 'EVAL': {
+        const key = String(rest[2])
+        if (String(rest[0]).includes("'NX'")) {
+          if (!data.has(key)) data.set(key, String(rest[4]))
+        } else if (!data.has(key)) {
+          return null
+        }
+        const next = Number(data.get(key)) - Number(rest[3])
+        data.set(key, String(next))
+        return next
+      }
+      default:
+        throw new Error(`Unsupported command ${String(name)}`)
+    }
+  }
+  return { command, data }
+}
+
+function createFakeDurableObjectStorage(): DurableObjectStorageLike {
+  const data = new Map<string, unknown>()
+  let alarm: number | null = null
+  return {
+    async get<T>(key: string) {
+      return data.get(key) as T | undefined
+    },
+    async put(key, value) {
+      data.set(key, value)
+    },
+    async delete(key) {
+      return data.delete(key)
+    },
+    async list<T>() {
+      return new Map(data) as Map<string, T>
+    },
+    async getAlarm() {
+      return alarm
+    },
+    async setAlarm(time) {
+      alarm = time
+    },
+  }
+}
+
+function createLimitsClient(remaining: number) {
+  const client = {
+    checkLimits: vi.fn(async () => ({
+      withinLimits: remaining > 0,
+      remaining,
+      plan: 'free',
+      checkoutUrl: 'https://example.com/checkout',
+      meterName: 'requests',
+    })),
+    trackUsage: vi.fn(async () => undefined),
+    createCustomer: vi.fn(async () => ({ customerRef: 'cus_shared' })),
+    getCustomer: vi.fn(async () => {
+      throw new Error('404 - Customer not found')
+    }),
+    createCheckoutSession: vi.fn(),
+    createCustomerSession: vi.fn(),
+  }
+  return client as typeof client & SolvaPayClient
+}
+
+describe('createMemoryPaywallStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('round-trips values and expires them after ttlMs', async () => {
+    const store = createMemoryPaywallStore()
+    await store.set('a', { hello: 'world' }, { ttlMs: 1000 })
+    expect(await store.get('a')).toEqual({ hello: 'world' })
+
+    vi.advanceTimersByTime(1001)
+    expect(await store.get('a')).toBeUndefined()
+  })
+
+  it('decrements existing counters and reports misses as undefined', async () => {
+    const store = createMemoryPaywallStore()
+    expect(await store.decrement('counter', 1)).toBeUndefined()
+    expect(await store.get('counter')).toBeUndefined()
+
+    await store.set('counter', 2)
+    expect(await store.decrement('counter', 1)).toBe(1)
+    expect(await store.decrement('counter', 2)).toBe(-1)
+  })
+
+  it('creates counters on first decrementOrCreate and expires them after ttlMs', async () => {
+    const store = createMemoryPaywallStore()
+    expect(await store.decrementOrCreate('slot', 1, 3, { ttlMs: 1000 })).toBe(2)
+    expect(await store.decrementOrCreate('slot', 1, 3, { ttlMs: 1000 })).toBe(1)
+
+    vi.advanceTimersByTime(1001)
+    expect(await store.decrementOrCreate('slot', 1, 3, { ttlMs: 1000 })).toBe(2)
+  })
+
+  it('writes setIfAbsent only for missing or expired keys', async () => {
+    const store = createMemoryPaywallStore()
+    expect(await store.setIfAbsent('claim', 'a', { ttlMs: 1000 })).toBe(true)
+    expect(await store.setIfAbsent('claim', 'b', { ttlMs: 1000 })).toBe(false)
+    expect(await store.get('claim')).toBe('a')
+
+    vi.advanceTimersByTime(1001)
+    expect(await store.setIfAbsent('claim', 'c')).toBe(true)
+  })
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const store = createMemoryPaywallStore({ maxEntries: 2 })
+    await store.set('a', 1)
+    await store.set('b', 2)
+    await store.set('c', 3)
+    expect(await store.get('a')).toBeUndefined()
+    expect(await store.get('c')).toBe(3)
+  })
+})
+
+describe('createRedisPaywallStore', () => {
+  it('prefixes keys, serialises JSON and forwards TTLs as PX', async () => {
+    const { command, data } = createFakeRedis()
+    const spy = vi.fn(command)
+    const store = createRedisPaywallStore({ command: spy, keyPrefix: 'test:' })
+
+    await store.set('entry', { a: 1 }, { ttlMs: 1500 })
+    expect(spy).toHaveBeenCalledWith(['SET', 'test:entry', '{"a":1}', 'PX', 1500])
+    expect(data.get('test:entry')).toBe('{"a":1}')
+    expect(await store.get('entry')).toEqual({ a: 1 })
+
+    await store.delete('entry')
+    expect(await store.get('entry')).toBeUndefined()
+  })
+
+  it('decrements atomically only when the counter exists', async () => {
+    const { command } = createFakeRedis()
+    const store = createRedisPaywallStore({ command })
+
+    expect(await store.decrement('counter', 1)).toBeUndefined()
+    await store.set('counter', 3)
+    expect(await store.decrement('counter', 1)).toBe(2)
+    expect(await store.get('counter')).toBe(2)
+  })
+
+  it('claims keys with SET NX PX', async () => {
+    const { command } = createFakeRedis()
+    const spy = vi.fn(command)
+    const store = createRedisPaywallStore({ command: spy })
+
+    expect(await store.setIfAbsent('claim', true, { ttlMs: 5000 })).toBe(true)
+    expect(await store.setIfAbsent('claim', true, { ttlMs: 5000 })).toBe(false)
+    expect(spy).toHaveBeenCalledWith(['SET', 'solvapay:paywall:claim', 'true', 'NX', 'PX', 5000])
+  })
+
+  it('starts and decrements counters in one script with SET NX PX', async () => {
+    const { command } = createFakeRedis()
+    const spy = vi.fn(command)
+    const store = createRedisPaywallStore({ command: spy })
+
+    expect(await store.decrementOrCreate('slot', 1, 5, { ttlMs: 60_000 })).toBe(4)
+    expect(await store.decrementOrCreate('slot', 1, 5, { ttlMs: 60_000 })).toBe(3)
+    expect(spy).toHaveBeenCalledWith([
+      'EVAL',
+      expect.stringContaining("'NX', 'PX'"),
+      1,
+      'solvapay:paywall:slot',
+      1,
+      5,
+      60_000,
+    ])
+  })
+})
+
+describe('createKvPaywallStore', () => {
+  it('clamps TTLs to the KV minimum', async () => {
+    const put = vi.fn(async () => undefined)
+    const namespace: KvNamespaceLike = {
+      get: async () => null,
+      put,
+      delete: async () => undefined,
+    }
+    const store = createKvPaywallStore({ namespace })
+    await store.set('entry', 1, { ttlMs: 10_000 })
+    expect(put).toHaveBeenCalledWith('solvapay:paywall:entry', '1', { expirationTtl: 60 })
+  })
+})
+
+describe('createDurableObjectPaywallStore', () => {
+  it('routes operations to PaywallStoreDurableObject', async () => {
+    const object = new PaywallStoreDurableObject({ storage: createFakeDurableObjectStorage() })
+    const idFromName = vi.fn((name: string) => name)
+    const store = createDurableObjectPaywallStore({
+      namespace: {
+        idFromName,
+        get: () => ({
+          fetch: (input, init) => object.fetch(new Request(input, init)),
+        }),
+      },
+    })
+
+    await store.set('counter', 2, { ttlMs: 60_000 })
+    expect(await store.decrement('counter', 1)).toBe(1)
+    expect(await store.get('counter')).toBe(1)
+    expect(await store.decrement('missing', 1)).toBeUndefined()
+    expect(await store.decrementOrCreate('slot', 1, 5, { ttlMs: 60_000 })).toBe(4)
+    expect(await store.decrementOrCreate('slot', 2, 5, { ttlMs: 60_000 })).toBe(2)
+    expect(await store.setIfAbsent('claim', true)).toBe(true)
+    expect(await store.setIfAbsent('claim', true)).toBe(false)
+    await store.delete('counter')
+    expect(await store.get('counter')).toBeUndefined()
+    expect(idFromName).toHaveBeenCalledWith('solvapay-paywall')
+  })
+})
+
+describe('SolvaPayPaywall with a shared store', () => {
+  it('shares the limits cache and remaining counter across instances', async () => {
+    const store = createMemoryPaywallStore()
+    const client = createLimitsClient(3)
+    const first = new SolvaPayPaywall(client, { store })
+    const second = new SolvaPayPaywall(client, { store })
+    const args = { auth: { customer_ref: 'cus_shared' } }
+
+    // Fresh check: 3 remaining → consume one, cache 2.
+    expect((await first.decide(args, { product: 'prd_1' })).outcome).toBe('allow')
+    // Both cache hits come from the shared counter — no extra checkLimits.
+    expect((await second.decide(args, { product: 'prd_1' })).outcome).toBe('allow')
+    expect((await first.decide(args, { product: 'prd_1' })).outcome).toBe('allow')
+    expect(client.checkLimits).toHaveBeenCalledTimes(1)
+
+    // Counter reached zero and was cleared → next call re-checks.
+    await second.decide(args, { product: 'prd_1' })
+    expect(client.checkLimits).toHaveBeenCalledTimes(2)
+  })
+
+  it('gates a follow-up request once another instance consumed the final unit', async () => {
+    const store = createMemoryPaywallStore()
+    const client = createLimitsClient(1)
+    const first = new SolvaPayPaywall(client, { store })
+    const second = new SolvaPayPaywall(client, { store })
+    const args = { auth: { customer_ref: 'cus_shared' } }
+
+    expect((await first.decide(args, { product: 'prd_1' })).outcome).toBe('allow')
+    expect(
+      await store.get(PaywallStoreKeys.limitsRemaining('cus_shared', 'prd_1', 'requests')),
+    ).toBe(0)
+
+    const decision = await second.decide(args, { product: 'prd_1' })
+    expect(decision.outcome).toBe('gate')
+    expect(client.checkLimits).toHaveBeenCalledTimes(1)
+  })
+
+  it('persists ensureCustomer mappings in the store', async () => {
+    const store = createMemoryPaywallStore()
+    const client = createLimitsClient(5)
+    const paywall = new SolvaPayPaywall(client, { store })
+
+    const ref = await paywall.ensureCustomer('user_store_mapping', 'user_store_mapping')
+    expect(ref).toBe('cus_shared')
+    expect(await store.get(PaywallStoreKeys.customerRef('user_store_mapping'))).toBe('cus_shared')
+
+    const other = new SolvaPayPaywall(client, { store })
+    expect(await other.ensureCustomer('user_store_mapping', 'user_store_mapping')).toBe(
+      'cus_shared',
+    )
+    expect(client.createCustomer).toHaveBeenCalledTimes(1)
+  })
+
+  it('expires the customer mapping and creation-attempt marker', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      const store = createMemoryPaywallStore()
+      const paywall = new SolvaPayPaywall(createLimitsClient(5), { store })
+
+      await paywall.ensureCustomer('user_store_ttl', 'user_store_ttl')
+      expect(await store.get(PaywallStoreKeys.customerAttempt('user_store_ttl'))).toBe(true)
+
+      vi.advanceTimersByTime(5 * 60_000 + 1)
+      expect(await store.get(PaywallStoreKeys.customerAttempt('user_store_ttl'))).toBeUndefined()
+      expect(await store.get(PaywallStoreKeys.customerRef('user_store_ttl'))).toBe('cus_shared')
+
+      vi.advanceTimersByTime(24 * 60 * 60_000)
+      expect(await store.get(PaywallStoreKeys.customerRef('user_store_ttl'))).toBeUndefined()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('clears the creation-attempt marker when createCustomer fails', async () => {
+    const store = createMemoryPaywallStore()
+    const client = createLimitsClient(5)
+    client.createCustomer.mockRejectedValueOnce(new Error('500 - backend unavailable'))
+
+    await expect(
+      new SolvaPayPaywall(client, { store }).ensureCustomer('user_store_retry', 'user_store_retry'),
+    ).rejects.toThrow('backend unavailable')
+    expect(await store.get(PaywallStoreKeys.customerAttempt('user_store_retry'))).toBeUndefined()
+
+    // Another replica provisions the customer instead of returning the raw app id.
+    const other = new SolvaPayPaywall(client, { store })
+    expect(await other.ensureCustomer('user_store_retry', 'user_store_retry')).toBe('cus_shared')
+    expect(client.createCustomer).toHaveBeenCalledTimes(2)
+  })
+})
@@ -233,6 +233,24 @@ describe('Paywall Unit Tests - Mocked Backend', () => {
       expect(mockApiClient.trackUsageCalls[0].outcome).toBe('fail')
     })
 
+    it('tags a cancelled call as a "fail" with reason "cancelled"', async () => {
+      const handler = vi
+        .fn()
+        .mockRejectedValue(new DOMException('Tool call cancelled by the client', 'AbortError'))
+      const payable = solvaPay.payable({ product: 'test' })
+      const protectedHandler = await payable.function(handler)
+
+      await expect(protectedHandler({ auth: { customer_ref: 'test_user' } })).rejects.toThrow(
+        'cancelled',
+      )
+
+      expect(mockApiClient.trackUsageCalls).toHaveLength(1)
+      expect(mockApiClient.trackUsageCalls[0]).toMatchObject({
+        outcome: 'fail',
+        metadata: { reason: 'cancelled' },
+      })
+    })
+
     // Regression: on request-scoped runtimes (Cloudflare Workers,
     // Vercel Edge, Supabase Edge) a floated `trackUsage` fetch is
     // killed when the Response returns. Without an `await`, the usage
@@ -961,7 +979,9 @@ describe('Paywall Unit Tests - Mocked Backend', () => {
 
       // trackUsage is fire-and-forget; flush the microtask queue for the error log
       await vi.waitFor(() => {
-        expect(consoleErrorSpy).toHaveBeenCalledWith('Usage tracking failed:', expect.any(Error))
+        expect(consoleErrorSpy).toHaveBeenCalledWith(
+          expect.stringContaining('"msg":"Usage tracking failed"'),
+        )
       })
 
       consoleErrorSpy.mockRestore()
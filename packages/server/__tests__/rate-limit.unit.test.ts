@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import type { FakeCustomerSeed } from '@solvapay/test-utils/fake-backend'
+import { SolvaPayError } from '@solvapay/core'
+import { createSolvaPay, parseRateLimitRate, PaywallError } from '../src/index'
+import { createRateLimiter } from '../src/rate-limit'
+import { createMemoryPaywallStore } from '../src/store'
+
+const backend = (customers: FakeCustomerSeed[] = []) =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_agent',
+        name: 'Agent',
+        plans: [
+          { reference: 'pln_free', name: 'Free', freeUnits: 1_000, default: true },
+          {
+            reference: 'pln_pro',
+            name: 'Pro',
+            price: 2900,
+            limits: { rateLimitPerMinute: 120, rateLimitBurst: 1 },
+          },
+        ],
+      },
+    ],
+    customers,
+  })
+
+const auth = (customerRef: string) => ({ auth: { customer_ref: customerRef } })
+
+// Slot-aligned for every rate used below, so `retryAfter` is exact.
+const START = 1_800_000_000_000
+
+describe('parseRateLimitRate', () => {
+  it('parses calls per unit, counted windows and explicit rates', () => {
+    expect(parseRateLimitRate('60/min')).toEqual({ limit: 60, windowMs: 60_000 })
+    expect(parseRateLimitRate('10/s')).toEqual({ limit: 10, windowMs: 1_000 })
+    expect(parseRateLimitRate('100 / 10 minutes')).toEqual({ limit: 100, windowMs: 600_000 })
+    expect(parseRateLimitRate({ limit: 5, windowMs: 250 })).toEqual({ limit: 5, windowMs: 250 })
+  })
+
+  it('rejects malformed rates', () => {
+    expect(() => parseRateLimitRate('fast')).toThrow(SolvaPayError)
+    expect(() => parseRateLimitRate('10/fortnight')).toThrow(SolvaPayError)
+    expect(() => parseRateLimitRate('0/min')).toThrow(SolvaPayError)
+    expect(() => parseRateLimitRate({ limit: 1.5, windowMs: 1_000 })).toThrow(SolvaPayError)
+  })
+})
+
+describe('payable({ rateLimit })', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('gates calls past the burst and lets them through once the slot ends', async () => {
+    const apiClient = backend()
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_agent', rateLimit: { perCustomer: '60/min', burst: 2 } })
+      .function(async () => ({ ok: true }))
+
+    await expect(handler(auth('rl_user_1'))).resolves.toEqual({ ok: true })
+    await expect(handler(auth('rl_user_1'))).resolves.toEqual({ ok: true })
+    const gated = await handler(auth('rl_user_1')).catch((error: unknown) => error)
+
+    expect(gated).toBeInstanceOf(PaywallError)
+    expect((gated as PaywallError).structuredContent).toEqual({
+      kind: 'rate_limited',
+      product: 'prd_agent',
+      message: 'Rate limit reached: this tool allows 60 calls per minute. Try again in 2 seconds.',
+      retryAfter: 2,
+      limit: 60,
+      windowMs: 60_000,
+    })
+    // Other customers have their own allowance.
+    await expect(handler(auth('rl_user_2'))).resolves.toEqual({ ok: true })
+
+    vi.setSystemTime(START + 2_000)
+    await expect(handler(auth('rl_user_1'))).resolves.toEqual({ ok: true })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(apiClient.usageEvents.filter(event => event.outcome === 'success')).toHaveLength(4)
+  })
+
+  it('shares the limit across instances backed by the same store', async () => {
+    const apiClient = backend()
+    const store = createMemoryPaywallStore()
+    const options = { productRef: 'prd_agent', rateLimit: { perCustomer: '1/s' } }
+    const first = await createSolvaPay({ apiClient, store })
+      .payable(options)
+      .function(async () => 'a')
+    const second = await createSolvaPay({ apiClient, store })
+      .payable(options)
+      .function(async () => 'b')
+
+    await expect(first(auth('rl_shared'))).resolves.toBe('a')
+    await expect(second(auth('rl_shared'))).rejects.toBeInstanceOf(PaywallError)
+  })
+
+  it('allows exactly the capacity when the first calls of a slot arrive concurrently', async () => {
+    const limiter = createRateLimiter({ store: createMemoryPaywallStore() })
+
+    const gates = await Promise.all(
+      Array.from({ length: 50 }, () =>
+        limiter.consume('rl_concurrent', 'prd_agent', { perCustomer: '5/min' }),
+      ),
+    )
+
+    expect(gates.filter(gate => gate === null)).toHaveLength(5)
+    expect(gates.filter(gate => gate?.kind === 'rate_limited')).toHaveLength(45)
+  })
+
+  it('answers HTTP routes with 429 and Retry-After', async () => {
+    const route = createSolvaPay({ apiClient: backend() })
+      .payable({ productRef: 'prd_agent', rateLimit: { perCustomer: '1/min' } })
+      .next(async () => ({ ok: true }), { getCustomerRef: () => 'rl_next_1' })
+    const request = () => new Request('https://app.test/api/agent', { method: 'POST' })
+
+    expect((await route(request())).status).toBe(200)
+    const response = await route(request())
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('60')
+    await expect(response.json()).resolves.toMatchObject({
+      success: false,
+      error: 'Rate limit exceeded',
+      kind: 'rate_limited',
+      retryAfter: 60,
+    })
+  })
+
+  it('returns a 429 Response from payable.gate()', async () => {
+    const payable = createSolvaPay({ apiClient: backend() }).payable({
+      productRef: 'prd_agent',
+      rateLimit: { perCustomer: '1/min' },
+    })
+    const request = () =>
+      new Request('https://api.test/chat', { headers: { 'x-customer-ref': 'rl_gate_1' } })
+
+    expect((await payable.gate(request())).kind).toBe('allow')
+    const result = await payable.gate(request())
+
+    if (result.kind !== 'paywall') throw new Error('expected paywall')
+    expect(result.response.status).toBe(429)
+    expect(result.response.headers.get('Retry-After')).toBe('60')
+    expect(result.content.kind).toBe('rate_limited')
+  })
+
+  it('narrates the wait on MCP without flagging a tool error or billing', async () => {
+    const apiClient = backend()
+    const tool = createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_agent', rateLimit: { perCustomer: '1/min' } })
+      .mcp(async () => ({ ok: true }))
+
+    await tool(auth('rl_mcp_1'))
+    const result = (await tool(auth('rl_mcp_1'))) as {
+      content: Array<{ text: string }>
+      isError: boolean
+      structuredContent: Record<string, unknown>
+    }
+
+    expect(result.isError).toBe(false)
+    expect(result.content[0]!.text).toBe(
+      'Rate limit reached: this tool allows 1 calls per minute. Try again in 60 seconds.',
+    )
+    expect(result.structuredContent).toMatchObject({ kind: 'rate_limited', retryAfter: 60 })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(apiClient.usageEvents).toHaveLength(1)
+  })
+
+  it('reads the rate from the plan limits, falling back to perCustomer', async () => {
+    const apiClient = backend([
+      { externalRef: 'rl_pro', purchases: [{ productRef: 'prd_agent', planRef: 'pln_pro' }] },
+    ])
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_agent', rateLimit: { fromPlan: true, perCustomer: '3/min' } })
+      .function(async () => 'ok')
+
+    // Pro: 120/min with a burst of 1.
+    await expect(handler(auth('rl_pro'))).resolves.toBe('ok')
+    const gated = await handler(auth('rl_pro')).catch((error: unknown) => error)
+    expect((gated as PaywallError).structuredContent).toMatchObject({
+      kind: 'rate_limited',
+      limit: 120,
+      retryAfter: 1,
+    })
+
+    // Free sets no rate, so the payable's default applies.
+    for (let call = 0; call < 3; call++) {
+      await expect(handler(auth('rl_free'))).resolves.toBe('ok')
+    }
+    await expect(handler(auth('rl_free'))).rejects.toBeInstanceOf(PaywallError)
+  })
+})
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { SolvaPayError } from '@solvapay/core'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import { createSolvaPay, PaywallError } from '../src/index'
+
+const backend = (freeUnits: number) =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_agent',
+        name: 'Agent',
+        plans: [{ reference: 'pln_free', name: 'Free', freeUnits, default: true }],
+      },
+    ],
+  })
+
+describe('solvaPay.reserve', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('lets only as many concurrent holds through as the allowance covers', async () => {
+    const solvaPay = createSolvaPay({ apiClient: backend(100) })
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () =>
+        solvaPay.reserve({ customerRef: 'hold_user_1', product: 'prd_agent', units: 60 }),
+      ),
+    )
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1)
+    for (const result of results) {
+      if (result.status === 'rejected') expect(result.reason).toBeInstanceOf(PaywallError)
+    }
+  })
+
+  it('bills the committed units and returns the rest of the hold', async () => {
+    const apiClient = backend(100)
+    const solvaPay = createSolvaPay({ apiClient })
+
+    const hold = await solvaPay.reserve({
+      customerRef: 'hold_user_2',
+      product: 'prd_agent',
+      units: 60,
+    })
+    expect(hold).toMatchObject({ meter: 'requests', units: 60, state: 'held' })
+    await hold.commit(20)
+
+    expect(hold.state).toBe('committed')
+    expect(apiClient.usageEvents).toEqual([
+      expect.objectContaining({
+        outcome: 'success',
+        units: 20,
+        metadata: expect.objectContaining({ requestId: hold.id }),
+      }),
+    ])
+    // 100 - 20 left: an 80-unit hold fits again.
+    await expect(
+      solvaPay.reserve({ customerRef: 'hold_user_2', product: 'prd_agent', units: 80 }),
+    ).resolves.toMatchObject({ state: 'held' })
+  })
+
+  it('keeps counting open holds after the limits cache expires', async () => {
+    const solvaPay = createSolvaPay({ apiClient: backend(100), limitsCacheTTL: 0 })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_agent', estimatedUnits: 30 })
+      .function(async () => ({ ok: true }))
+
+    const hold = await solvaPay.reserve({
+      customerRef: 'hold_user_3',
+      product: 'prd_agent',
+      units: 80,
+    })
+    const args = { auth: { customer_ref: 'hold_user_3' } }
+    await expect(handler(args)).rejects.toThrow('Payment required')
+
+    await hold.release()
+    await expect(handler(args)).resolves.toEqual({ ok: true })
+  })
+
+  it('settles each hold once', async () => {
+    const apiClient = backend(100)
+    const solvaPay = createSolvaPay({ apiClient })
+    const hold = await solvaPay.reserve({
+      customerRef: 'hold_user_4',
+      product: 'prd_agent',
+      units: 10,
+    })
+
+    await hold.release()
+    await hold.release()
+    await expect(hold.commit()).rejects.toThrow(SolvaPayError)
+    expect(hold.state).toBe('released')
+    expect(apiClient.usageEvents).toEqual([])
+  })
+
+  it('releases holds that outlive their TTL', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+    const solvaPay = createSolvaPay({ apiClient: backend(100) })
+    const hold = await solvaPay.reserve({
+      customerRef: 'hold_user_5',
+      product: 'prd_agent',
+      units: 100,
+      ttlMs: 1_000,
+    })
+    expect(hold.expiresAt).toBe(Date.now() + 1_000)
+
+    await vi.advanceTimersByTimeAsync(1_000)
+    expect(hold.state).toBe('expired')
+    await expect(hold.commit()).rejects.toThrow(/already expired/)
+    await expect(
+      solvaPay.reserve({ customerRef: 'hold_user_5', product: 'prd_agent', units: 100 }),
+    ).resolves.toMatchObject({ state: 'held' })
+  })
+
+  it('reserves from an allowed payable.gate() result', async () => {
+    const apiClient = backend(100)
+    const result = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_agent', usageType: 'tokens' })
+      .gate(new Request('https://api.test/chat', { headers: { 'x-customer-ref': 'hold_gate_1' } }))
+    if (result.kind !== 'allow') throw new Error('expected allow')
+
+    const hold = await result.reserve(50)
+    expect(hold).toMatchObject({
+      customerRef: result.customerRef,
+      product: 'prd_agent',
+      meter: 'tokens',
+      units: 50,
+    })
+    await expect(result.reserve(60)).rejects.toBeInstanceOf(PaywallError)
+  })
+})
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import { createSolvaPay, createSolvaPayClient, PaywallError } from '../src/index'
+import {
+  disableSpendingLimitsCore,
+  getSpendingLimitsCore,
+  saveSpendingLimitsCore,
+} from '../src/helpers'
+
+vi.mock('../src/helpers/customer', () => ({
+  syncCustomerCore: vi.fn(async () => 'cus_budget'),
+}))
+
+const backend = () =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_llm',
+        name: 'LLM',
+        plans: [
+          {
+            reference: 'pln_payg',
+            name: 'Pay as you go',
+            type: 'usage-based',
+            creditsPerUnit: 100,
+            currency: 'USD',
+          },
+        ],
+      },
+    ],
+    customers: [
+      {
+        reference: 'cus_budget',
+        credits: 10_000,
+        purchases: [{ productRef: 'prd_llm', planRef: 'pln_payg' }],
+      },
+    ],
+  })
+
+const request = () => new Request('https://app.test/api/spending-limits')
+
+describe('spending limits client methods', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({ config: null }), { status: 200 })),
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('saves spending limits with a PUT to /v1/sdk/spending-limits', async () => {
+    const client = createSolvaPayClient({ apiKey: 'sk_test_123', apiBaseUrl: 'https://api.test' })
+
+    await client.saveSpendingLimits!({
+      customerRef: 'cus_123',
+      monthlyCapMajor: 50,
+      alertThresholds: [50, 80],
+      currency: 'USD',
+    })
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0]!
+    expect(url).toBe('https://api.test/v1/sdk/spending-limits')
+    expect(init?.method).toBe('PUT')
+    expect(JSON.parse(init?.body as string)).toEqual({
+      customerRef: 'cus_123',
+      monthlyCapMajor: 50,
+      alertThresholds: [50, 80],
+      currency: 'USD',
+    })
+  })
+
+  it('reads and removes spending limits by customerRef', async () => {
+    const client = createSolvaPayClient({ apiKey: 'sk_test_123', apiBaseUrl: 'https://api.test' })
+
+    await client.getSpendingLimits!({ customerRef: 'cus_123' })
+    await client.disableSpendingLimits!({ customerRef: 'cus_123' })
+
+    const calls = vi.mocked(fetch).mock.calls.map(([url, init]) => [init?.method, String(url)])
+    expect(calls).toEqual([
+      ['GET', 'https://api.test/v1/sdk/spending-limits?customerRef=cus_123'],
+      ['DELETE', 'https://api.test/v1/sdk/spending-limits?customerRef=cus_123'],
+    ])
+  })
+})
+
+describe('spending limits route helpers', () => {
+  it("saves, reads and disables the synced customer's limits", async () => {
+    const solvaPay = createSolvaPay({ apiClient: backend() })
+
+    await expect(getSpendingLimitsCore(request(), { solvaPay })).resolves.toEqual({ config: null })
+    const saved = await saveSpendingLimitsCore(
+      request(),
+      { monthlyCapMajor: 25, alertThresholds: [80, 50], currency: 'USD' },
+      { solvaPay },
+    )
+
+    expect(saved).toEqual({
+      config: expect.objectContaining({
+        monthlyCapMinor: 2_500,
+        alertThresholds: [50, 80],
+        monthlySpendMinor: 0,
+      }),
+    })
+    await expect(disableSpendingLimitsCore(request(), { solvaPay })).resolves.toEqual({
+      success: true,
+    })
+    await expect(getSpendingLimitsCore(request(), { solvaPay })).resolves.toEqual({ config: null })
+  })
+
+  it('returns a 500 error result when the API client lacks the method', async () => {
+    const apiClient = { ...backend(), saveSpendingLimits: undefined }
+    const solvaPay = createSolvaPay({ apiClient })
+
+    await expect(
+      saveSpendingLimitsCore(request(), { currency: 'USD' }, { solvaPay }),
+    ).resolves.toEqual({
+      error: 'saveSpendingLimits is not implemented on this API client',
+      status: 500,
+    })
+  })
+})
+
+describe('payable with a spending cap', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('gates with budget copy once the monthly cap is spent', async () => {
+    const apiClient = backend()
+    await apiClient.saveSpendingLimits({
+      customerRef: 'cus_budget',
+      monthlyCapMajor: 0.01,
+      currency: 'USD',
+    })
+    const handler = await createSolvaPay({ apiClient })
+      .payable({ productRef: 'prd_llm' })
+      .function(async () => ({ ok: true }))
+
+    await expect(handler({ auth: { customer_ref: 'cus_budget' } })).resolves.toEqual({ ok: true })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    // Let the cached allowance expire so the next call re-checks limits.
+    vi.setSystemTime(Date.now() + 60_000)
+
+    const gated = await handler({ auth: { customer_ref: 'cus_budget' } }).catch(
+      (error: unknown) => error,
+    )
+    expect(gated).toBeInstanceOf(PaywallError)
+    expect((gated as PaywallError).structuredContent).toMatchObject({
+      kind: 'payment_required',
+      message:
+        "You've reached the monthly spending limit set on your account. Call the `manage_account` tool to raise it, or wait for it to reset next month.",
+    })
+    expect(apiClient.getCreditBalance('cus_budget')).toBe(9_900)
+  })
+})
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import { createSolvaPay, createSolvaPayClient, PaywallError } from '../src/index'
+import { SolvaPayPaywall } from '../src/paywall'
+import type {
+  TelemetryAttributes,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+} from '../src/index'
+
+interface RecordedSpan {
+  name: string
+  attributes: TelemetryAttributes
+  status?: { code: number; message?: string }
+  exceptions: unknown[]
+  ended: boolean
+}
+
+/** Tracer and meter doubles that record what the SDK emits. */
+function createRecorder() {
+  const spans: RecordedSpan[] = []
+  const samples: Array<{ name: string; value: number; attributes?: TelemetryAttributes }> = []
+
+  const tracer: TelemetryTracer = {
+    startActiveSpan(name, options, fn) {
+      const recorded: RecordedSpan = {
+        name,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      }
+      spans.push(recorded)
+      const span: TelemetrySpan = {
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setStatus: status => (recorded.status = status),
+        recordException: exception => recorded.exceptions.push(exception),
+        end: () => (recorded.ended = true),
+      }
+      return fn(span)
+    },
+  }
+
+  const meter: TelemetryMeter = {
+    createCounter: name => ({
+      add: (value, attributes) => samples.push({ name, value, attributes }),
+    }),
+    createHistogram: name => ({
+      record: (value, attributes) => samples.push({ name, value, attributes }),
+    }),
+  }
+
+  return {
+    tracer,
+    meter,
+    spans,
+    spansNamed: (name: string) => spans.filter(span => span.name === name),
+    samplesNamed: (name: string) => samples.filter(sample => sample.name === name),
+  }
+}
+
+const backend = () =>
+  createFakeSolvaPayBackend({
+    products: [
+      {
+        reference: 'prd_agent',
+        name: 'Agent',
+        plans: [{ reference: 'pln_free', name: 'Free', freeUnits: 2, default: true }],
+      },
+    ],
+  })
+
+describe('createSolvaPay({ telemetry })', () => {
+  it('traces decide, check_limits and ensure_customer and counts cache hits', async () => {
+    const recorder = createRecorder()
+    const solvaPay = createSolvaPay({
+      apiClient: backend(),
+      telemetry: { tracer: recorder.tracer, meter: recorder.meter },
+    })
+
+    const args = { auth: { customer_ref: 'otel_user_1' } }
+    await solvaPay.paywall.decide(args, { product: 'prd_agent' })
+    await solvaPay.paywall.decide(args, { product: 'prd_agent' })
+
+    const [decide] = recorder.spansNamed('solvapay.paywall.decide')
+    expect(decide).toMatchObject({
+      attributes: {
+        'solvapay.product': 'prd_agent',
+        'solvapay.paywall.outcome': 'allow',
+        'solvapay.meter': 'requests',
+      },
+      ended: true,
+    })
+    expect(recorder.spansNamed('solvapay.paywall.ensure_customer')).toHaveLength(2)
+    expect(recorder.spansNamed('solvapay.paywall.check_limits')).toEqual([
+      expect.objectContaining({
+        attributes: expect.objectContaining({
+          'solvapay.meter': 'requests',
+          'solvapay.limits.within_limits': true,
+        }),
+      }),
+    ])
+    expect(recorder.samplesNamed('solvapay.limits_cache.misses')).toHaveLength(1)
+    expect(recorder.samplesNamed('solvapay.limits_cache.hits')).toEqual([
+      { name: 'solvapay.limits_cache.hits', value: 1, attributes: expect.any(Object) },
+    ])
+    expect(recorder.samplesNamed('solvapay.paywall.decisions')).toHaveLength(2)
+  })
+
+  it('labels gated decisions with the paywall state and traces the paywall usage event', async () => {
+    const recorder = createRecorder()
+    const solvaPay = createSolvaPay({
+      apiClient: backend(),
+      telemetry: { tracer: recorder.tracer, meter: recorder.meter },
+    })
+
+    const handler = await solvaPay.payable({ productRef: 'prd_agent' }).function(async () => 'ok')
+    const args = { auth: { customer_ref: 'otel_user_2' } }
+    await handler(args)
+    await handler(args)
+    await expect(handler(args)).rejects.toBeInstanceOf(PaywallError)
+
+    const gates = recorder
+      .samplesNamed('solvapay.paywall.decisions')
+      .filter(sample => sample.attributes?.['solvapay.paywall.outcome'] === 'gate')
+    expect(gates).toEqual([
+      {
+        name: 'solvapay.paywall.decisions',
+        value: 1,
+        attributes: {
+          'solvapay.paywall.outcome': 'gate',
+          'solvapay.paywall.state': 'upgrade_required',
+          'solvapay.product': 'prd_agent',
+          'solvapay.meter': 'requests',
+        },
+      },
+    ])
+    expect(recorder.spansNamed('solvapay.paywall.track_usage').at(-1)).toMatchObject({
+      attributes: { 'solvapay.usage.outcome': 'paywall', 'solvapay.product': 'prd_agent' },
+      ended: true,
+    })
+  })
+
+  it('records a failed usage event on its span without failing the call', async () => {
+    const recorder = createRecorder()
+    const apiClient = backend()
+    const paywall = new SolvaPayPaywall(apiClient, { telemetry: { tracer: recorder.tracer } })
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    apiClient.failNext('trackUsage', new Error('backend down'))
+    await paywall.trackUsage('cus_1', 'prd_agent', 'requests', 'success', 'req_1', 1)
+
+    expect(recorder.spansNamed('solvapay.paywall.track_usage')).toEqual([
+      expect.objectContaining({
+        status: { code: 2, message: 'Usage tracking failed' },
+        exceptions: [expect.objectContaining({ message: 'backend down' })],
+        ended: true,
+      }),
+    ])
+    vi.mocked(console.error).mockRestore()
+  })
+})
+
+describe('createSolvaPayClient({ telemetry })', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('wraps each API call in a span and records its latency', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ withinLimits: true, remaining: 3 })))
+    const recorder = createRecorder()
+    const client = createSolvaPayClient({
+      apiKey: 'sk_test_123',
+      retry: { initialDelay: 1 },
+      telemetry: { tracer: recorder.tracer, meter: recorder.meter },
+    })
+
+    await client.checkLimits({ customerRef: 'cus_1', productRef: 'prd_agent' })
+
+    expect(recorder.spans).toEqual([
+      expect.objectContaining({
+        name: 'solvapay.api.request',
+        attributes: {
+          'solvapay.api.operation': 'Check limits',
+          'http.request.method': 'POST',
+          'url.path': '/v1/sdk/limits',
+          'solvapay.api.retries': 1,
+          'http.response.status_code': 200,
+        },
+        ended: true,
+      }),
+    ])
+    expect(recorder.samplesNamed('solvapay.api.latency')).toEqual([
+      {
+        name: 'solvapay.api.latency',
+        value: expect.any(Number),
+        attributes: {
+          'solvapay.api.operation': 'Check limits',
+          'http.request.method': 'POST',
+          'http.response.status_code': 200,
+        },
+      },
+    ])
+  })
+
+  it('marks the span as failed when the call throws', async () => {
+    vi.mocked(fetch).mockRejectedValue(new TypeError('fetch failed'))
+    const recorder = createRecorder()
+    const client = createSolvaPayClient({
+      apiKey: 'sk_test_123',
+      retry: false,
+      telemetry: { tracer: recorder.tracer, meter: recorder.meter },
+    })
+
+    await expect(client.getCustomer({ customerRef: 'cus_1' })).rejects.toThrow('fetch failed')
+
+    expect(recorder.spans[0]).toMatchObject({
+      status: { code: 2 },
+      exceptions: [expect.objectContaining({ code: 'network_error' })],
+      ended: true,
+    })
+    expect(recorder.samplesNamed('solvapay.api.latency')[0]?.attributes).toMatchObject({
+      'error.type': 'network_error',
+    })
+  })
+})
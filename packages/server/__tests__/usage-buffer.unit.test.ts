@@ -0,0 +1,222 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import { createSolvaPay, createUsageBuffer } from '../src/index'
+import type { SolvaPayClient, TrackUsageRequest } from '../src/index'
+
+const event = (customerRef: string, extra: Partial<TrackUsageRequest> = {}): TrackUsageRequest => ({
+  customerRef,
+  actionType: 'api_call',
+  units: 1,
+  outcome: 'success',
+  ...extra,
+})
+
+function bulkClient() {
+  return {
+    trackUsage: vi.fn(async () => ({ success: true })),
+    trackUsageBulk: vi.fn(async ({ events }: { events: TrackUsageRequest[] }) => ({
+      success: true,
+      inserted: events.length,
+      results: [],
+    })),
+  } as unknown as SolvaPayClient & {
+    trackUsage: ReturnType<typeof vi.fn>
+    trackUsageBulk: ReturnType<typeof vi.fn>
+  }
+}
+
+const sentEvents = (client: ReturnType<typeof bulkClient>, call: number): TrackUsageRequest[] =>
+  client.trackUsageBulk.mock.calls[call]![0].events
+
+describe('createUsageBuffer', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('flushes as soon as a batch fills up', async () => {
+    const client = bulkClient()
+    const buffer = createUsageBuffer(client, { maxBatchSize: 2, flushOnExit: false })
+
+    buffer.enqueue(event('cus_1'))
+    expect(client.trackUsageBulk).not.toHaveBeenCalled()
+    buffer.enqueue(event('cus_2'))
+    await buffer.drained()
+
+    expect(client.trackUsageBulk).toHaveBeenCalledTimes(1)
+    expect(sentEvents(client, 0).map(e => e.customerRef)).toEqual(['cus_1', 'cus_2'])
+    expect(buffer.size).toBe(0)
+  })
+
+  it('flushes a partial batch after the interval', async () => {
+    vi.useFakeTimers()
+    const client = bulkClient()
+    const buffer = createUsageBuffer(client, { flushIntervalMs: 500, flushOnExit: false })
+
+    buffer.enqueue(event('cus_1'))
+    await vi.advanceTimersByTimeAsync(499)
+    expect(client.trackUsageBulk).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(1)
+    expect(client.trackUsageBulk).toHaveBeenCalledTimes(1)
+  })
+
+  it('assigns idempotency keys when events are queued', async () => {
+    const client = bulkClient()
+    const buffer = createUsageBuffer(client, { flushOnExit: false })
+
+    buffer.enqueue(event('cus_1'))
+    buffer.enqueue(event('cus_2', { idempotencyKey: 'usage-mine' }))
+    await buffer.flush()
+
+    const [first, second] = sentEvents(client, 0)
+    expect(first!.idempotencyKey).toMatch(/^usage-/)
+    expect(second!.idempotencyKey).toBe('usage-mine')
+  })
+
+  it('hands failed batches to onDeadLetter with their keys intact', async () => {
+    const client = bulkClient()
+    const failure = new Error('backend down')
+    client.trackUsageBulk.mockRejectedValueOnce(failure)
+    const onDeadLetter = vi.fn()
+    const buffer = createUsageBuffer(client, { onDeadLetter, flushOnExit: false })
+
+    buffer.enqueue(event('cus_1'))
+    await buffer.flush()
+
+    expect(onDeadLetter).toHaveBeenCalledWith(
+      [expect.objectContaining({ customerRef: 'cus_1', idempotencyKey: expect.any(String) })],
+      failure,
+    )
+  })
+
+  it('bounds memory by dead-lettering the oldest events on overflow', async () => {
+    const client = bulkClient()
+    const onDeadLetter = vi.fn()
+    const buffer = createUsageBuffer(client, {
+      maxBatchSize: 10,
+      maxQueueSize: 10,
+      flushIntervalMs: 60_000,
+      onDeadLetter,
+      flushOnExit: false,
+    })
+    // Hold the first batch in flight so the queue keeps growing.
+    let release!: () => void
+    client.trackUsageBulk.mockImplementationOnce(
+      () => new Promise(resolve => (release = () => resolve({ success: true, inserted: 10 }))),
+    )
+
+    for (let i = 0; i < 10; i++) buffer.enqueue(event(`cus_${i}`))
+    await Promise.resolve()
+    for (let i = 10; i < 21; i++) buffer.enqueue(event(`cus_${i}`))
+
+    expect(buffer.size).toBe(10)
+    expect(onDeadLetter).toHaveBeenCalledWith(
+      [expect.objectContaining({ customerRef: 'cus_10' })],
+      expect.objectContaining({ code: 'usage_buffer_overflow' }),
+    )
+
+    release()
+    await buffer.flush()
+    expect(buffer.size).toBe(0)
+  })
+
+  it('falls back to one trackUsage call per event without trackUsageBulk', async () => {
+    const trackUsage = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true })
+      .mockRejectedValueOnce(new Error('nope'))
+    const onDeadLetter = vi.fn()
+    const buffer = createUsageBuffer({ trackUsage } as unknown as SolvaPayClient, {
+      onDeadLetter,
+      flushOnExit: false,
+    })
+
+    buffer.enqueue(event('cus_1'))
+    buffer.enqueue(event('cus_2'))
+    await buffer.flush()
+
+    expect(trackUsage).toHaveBeenCalledTimes(2)
+    expect(onDeadLetter).toHaveBeenCalledWith(
+      [expect.objectContaining({ customerRef: 'cus_2' })],
+      expect.objectContaining({ message: 'nope' }),
+    )
+  })
+
+  it('hands the pending batch to waitUntil once per batch', async () => {
+    const client = bulkClient()
+    const waitUntil = vi.fn()
+    const buffer = createUsageBuffer(client, { waitUntil, flushIntervalMs: 5, flushOnExit: false })
+
+    buffer.enqueue(event('cus_1'))
+    buffer.enqueue(event('cus_2'))
+    expect(waitUntil).toHaveBeenCalledTimes(1)
+
+    await waitUntil.mock.calls[0]![0]
+    expect(client.trackUsageBulk).toHaveBeenCalledTimes(1)
+    expect(sentEvents(client, 0)).toHaveLength(2)
+  })
+
+  it('flushes on beforeExit and removes the hook on close', async () => {
+    const client = bulkClient()
+    const before = process.listenerCount('beforeExit')
+    const buffer = createUsageBuffer(client, { flushIntervalMs: 60_000 })
+
+    buffer.enqueue(event('cus_1'))
+    expect(process.listenerCount('beforeExit')).toBe(before + 1)
+    process.emit('beforeExit', 0)
+    await buffer.drained()
+    expect(client.trackUsageBulk).toHaveBeenCalledTimes(1)
+
+    await buffer.close()
+    expect(process.listenerCount('beforeExit')).toBe(before)
+  })
+})
+
+describe('createSolvaPay({ usageBuffer })', () => {
+  const backend = () =>
+    createFakeSolvaPayBackend({
+      products: [
+        {
+          reference: 'prd_api',
+          name: 'API',
+          plans: [{ reference: 'pln_free', name: 'Free', freeUnits: 100, default: true }],
+        },
+      ],
+    })
+
+  it('queues paywall usage and sends it in one bulk call', async () => {
+    const apiClient = backend()
+    const solvaPay = createSolvaPay({ apiClient, usageBuffer: { flushIntervalMs: 60_000 } })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_api' })
+      .function(async () => ({ ok: true }))
+
+    for (let i = 0; i < 3; i++) {
+      await handler({ auth: { customer_ref: 'user_1' } })
+    }
+    const methods = () => apiClient.calls.map(call => call.method)
+    expect(methods()).not.toContain('trackUsage')
+    expect(methods()).not.toContain('trackUsageBulk')
+
+    await solvaPay.flushUsage()
+    expect(methods().filter(method => method === 'trackUsageBulk')).toHaveLength(1)
+    expect(apiClient.usageEvents).toHaveLength(3)
+  })
+
+  it('routes the pending batch through payable.gate ctx.waitUntil', async () => {
+    const apiClient = backend()
+    const solvaPay = createSolvaPay({ apiClient, usageBuffer: { flushIntervalMs: 5 } })
+    const waitUntil = vi.fn()
+
+    const result = await solvaPay
+      .payable({ productRef: 'prd_api' })
+      .gate(new Request('https://api.test', { headers: { 'x-customer-ref': 'user_2' } }), {
+        ctx: { waitUntil },
+      })
+    if (result.kind !== 'allow') throw new Error('expected allow')
+    result.trackSuccess()
+
+    expect(waitUntil).toHaveBeenCalledTimes(1)
+    await waitUntil.mock.calls[0]![0]
+    expect(apiClient.usageEvents).toEqual([expect.objectContaining({ outcome: 'success' })])
+  })
+})
@@ -0,0 +1,261 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createSolvaPayApiError } from '@solvapay/core'
+import { createFakeSolvaPayBackend } from '@solvapay/test-utils/fake-backend'
+import {
+  createFileUsageOutboxStorage,
+  createKvUsageOutboxStorage,
+  createSolvaPay,
+  createUsageOutbox,
+} from '../src/index'
+import type {
+  KvUsageOutboxNamespaceLike,
+  SolvaPayClient,
+  TrackUsageRequest,
+  UsageOutboxEntry,
+} from '../src/index'
+
+const event = (customerRef: string, extra: Partial<TrackUsageRequest> = {}): TrackUsageRequest => ({
+  customerRef,
+  actionType: 'api_call',
+  units: 1,
+  outcome: 'success',
+  ...extra,
+})
+
+const serverError = () => createSolvaPayApiError('Track usage failed (503)', { status: 503 })
+
+function bulkClient() {
+  const trackUsageBulk = vi.fn(async ({ events }: { events: TrackUsageRequest[] }) => ({
+    success: true,
+    inserted: events.length,
+    results: [],
+  }))
+  return { client: { trackUsageBulk } as unknown as SolvaPayClient, trackUsageBulk }
+}
+
+function fakeKv(): KvUsageOutboxNamespaceLike & { data: Map<string, string> } {
+  const data = new Map<string, string>()
+  return {
+    data,
+    async get(key) {
+      return data.get(key) ?? null
+    },
+    async put(key, value) {
+      data.set(key, value)
+    },
+    async delete(key) {
+      data.delete(key)
+    },
+    async list({ prefix }) {
+      return {
+        keys: [...data.keys()].filter(key => key.startsWith(prefix)).map(name => ({ name })),
+        list_complete: true,
+      }
+    },
+  }
+}
+
+describe('createUsageOutbox', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('stores failed events with an idempotency key and reports metrics', async () => {
+    vi.useFakeTimers({ now: 1_000_000 })
+    const outbox = createUsageOutbox()
+
+    await outbox.add(event('cus_1'), serverError())
+    await outbox.add(
+      event('cus_2', { idempotencyKey: 'usage-mine' }),
+      new TypeError('fetch failed'),
+    )
+    vi.setSystemTime(1_005_000)
+
+    await expect(outbox.metrics()).resolves.toEqual({
+      pending: 2,
+      oldestAgeMs: 5_000,
+      failures: 2,
+      delivered: 0,
+      dropped: 0,
+    })
+  })
+
+  it('replays due events in one bulk call and forgets them once delivered', async () => {
+    vi.useFakeTimers({ now: 0 })
+    const { client, trackUsageBulk } = bulkClient()
+    const outbox = createUsageOutbox({ initialDelayMs: 1_000 })
+    await outbox.add(event('cus_1', { idempotencyKey: 'usage-1' }), serverError())
+
+    await expect(outbox.replay(client)).resolves.toEqual({ delivered: 0, failed: 0, dropped: 0 })
+    expect(trackUsageBulk).not.toHaveBeenCalled()
+
+    vi.setSystemTime(1_000)
+    await expect(outbox.replay(client)).resolves.toEqual({ delivered: 1, failed: 0, dropped: 0 })
+    expect(trackUsageBulk).toHaveBeenCalledWith({
+      events: [expect.objectContaining({ customerRef: 'cus_1', idempotencyKey: 'usage-1' })],
+    })
+    await expect(outbox.metrics()).resolves.toMatchObject({ pending: 0, delivered: 1 })
+  })
+
+  it('backs off exponentially and drops events after maxAttempts', async () => {
+    vi.useFakeTimers({ now: 0 })
+    const { client, trackUsageBulk } = bulkClient()
+    trackUsageBulk.mockRejectedValue(serverError())
+    const onDrop = vi.fn()
+    const outbox = createUsageOutbox({ initialDelayMs: 100, maxAttempts: 3, onDrop })
+    await outbox.add(event('cus_1'), serverError())
+
+    vi.setSystemTime(100)
+    await expect(outbox.replay(client)).resolves.toEqual({ delivered: 0, failed: 1, dropped: 0 })
+
+    // Second retry waits 2× the initial delay.
+    vi.setSystemTime(299)
+    await outbox.replay(client)
+    expect(trackUsageBulk).toHaveBeenCalledTimes(1)
+
+    vi.setSystemTime(300)
+    await expect(outbox.replay(client)).resolves.toEqual({ delivered: 0, failed: 0, dropped: 1 })
+    expect(onDrop).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 3,
+        event: expect.objectContaining({ customerRef: 'cus_1' }),
+      }),
+      expect.objectContaining({ status: 503 }),
+    )
+    await expect(outbox.metrics()).resolves.toMatchObject({ pending: 0, failures: 3, dropped: 1 })
+  })
+
+  it('drops permanent client errors instead of replaying them', async () => {
+    const onDrop = vi.fn()
+    const outbox = createUsageOutbox({ onDrop })
+
+    await outbox.add(
+      event('cus_1'),
+      createSolvaPayApiError('Track usage failed (400)', { status: 400 }),
+    )
+
+    expect(onDrop).toHaveBeenCalledTimes(1)
+    await expect(outbox.metrics()).resolves.toMatchObject({ pending: 0, dropped: 1 })
+  })
+})
+
+describe('usage outbox storage', () => {
+  const entry = (key: string): UsageOutboxEntry => ({
+    event: { ...event('cus_1'), idempotencyKey: key },
+    attempts: 1,
+    enqueuedAt: 1,
+    nextAttemptAt: 2,
+  })
+
+  it('persists entries to a JSON file across instances', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'solvapay-outbox-'))
+    try {
+      const path = join(dir, 'nested', 'outbox.json')
+      const first = createFileUsageOutboxStorage({ path })
+      await first.put(entry('usage-1'))
+      await first.put(entry('usage-2'))
+      await first.delete('usage-1')
+
+      const reopened = createFileUsageOutboxStorage({ path })
+      await expect(reopened.list()).resolves.toEqual([entry('usage-2')])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('stores one KV key per event', async () => {
+    const namespace = fakeKv()
+    const storage = createKvUsageOutboxStorage({ namespace })
+
+    await storage.put(entry('usage-1'))
+    await storage.put(entry('usage-2'))
+    await storage.delete('usage-2')
+
+    expect([...namespace.data.keys()]).toEqual(['solvapay:usage-outbox:usage-1'])
+    await expect(storage.list()).resolves.toEqual([entry('usage-1')])
+  })
+})
+
+describe('createSolvaPay({ usageOutbox })', () => {
+  const backend = () =>
+    createFakeSolvaPayBackend({
+      products: [
+        {
+          reference: 'prd_api',
+          name: 'API',
+          plans: [{ reference: 'pln_free', name: 'Free', freeUnits: 100, default: true }],
+        },
+      ],
+    })
+
+  it('stores paywall usage the backend rejected and replays it with the same key', async () => {
+    const apiClient = backend()
+    const usageOutbox = createUsageOutbox({ initialDelayMs: 0 })
+    const solvaPay = createSolvaPay({ apiClient, usageOutbox })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_api' })
+      .function(async () => ({ ok: true }))
+
+    apiClient.failNext('trackUsage', serverError())
+    await expect(handler({ auth: { customer_ref: 'outbox_user' } })).resolves.toEqual({ ok: true })
+    usageOutbox.stop()
+
+    const failedCall = apiClient.calls.find(call => call.method === 'trackUsage')!
+    const failedKey = (failedCall.params[0] as TrackUsageRequest).idempotencyKey
+    expect(failedKey).toMatch(/^usage-/)
+    await expect(usageOutbox.metrics()).resolves.toMatchObject({ pending: 1 })
+
+    await expect(solvaPay.replayUsage()).resolves.toEqual({ delivered: 1, failed: 0, dropped: 0 })
+    expect(apiClient.usageEvents).toEqual([expect.objectContaining({ idempotencyKey: failedKey })])
+  })
+
+  it('stores gate() usage the backend rejected', async () => {
+    const apiClient = backend()
+    const usageOutbox = createUsageOutbox({ initialDelayMs: 0 })
+    const solvaPay = createSolvaPay({ apiClient, usageOutbox })
+    const tracked: Promise<unknown>[] = []
+    const result = await solvaPay
+      .payable({ productRef: 'prd_api' })
+      .gate(
+        new Request('http://localhost/api', { headers: { 'x-customer-ref': 'outbox_gate_user' } }),
+        { ctx: { waitUntil: promise => tracked.push(promise) } },
+      )
+    if (result.kind !== 'allow') throw new Error('expected allow')
+
+    apiClient.failNext('trackUsage', serverError())
+    result.trackSuccess({ duration: 10 })
+    await Promise.all(tracked)
+    usageOutbox.stop()
+
+    const failedCall = apiClient.calls.find(call => call.method === 'trackUsage')!
+    const failedKey = (failedCall.params[0] as TrackUsageRequest).idempotencyKey
+    expect(failedKey).toMatch(/^usage-/)
+    await expect(usageOutbox.metrics()).resolves.toMatchObject({ pending: 1 })
+
+    await expect(solvaPay.replayUsage()).resolves.toEqual({ delivered: 1, failed: 0, dropped: 0 })
+    expect(apiClient.usageEvents).toEqual([expect.objectContaining({ idempotencyKey: failedKey })])
+  })
+
+  it('catches batches dead-lettered by the usage buffer', async () => {
+    const apiClient = backend()
+    const usageOutbox = createUsageOutbox()
+    const solvaPay = createSolvaPay({
+      apiClient,
+      usageOutbox,
+      usageBuffer: { flushIntervalMs: 60_000, flushOnExit: false },
+    })
+    const handler = await solvaPay
+      .payable({ productRef: 'prd_api' })
+      .function(async () => ({ ok: true }))
+
+    await handler({ auth: { customer_ref: 'outbox_buffer_user' } })
+    apiClient.failNext('trackUsageBulk', serverError())
+    await solvaPay.flushUsage()
+    usageOutbox.stop()
+
+    await expect(usageOutbox.metrics()).resolves.toMatchObject({ pending: 1 })
+  })
+})
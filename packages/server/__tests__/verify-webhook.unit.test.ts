@@ -1,8 +1,15 @@
 import crypto from 'node:crypto'
 import { describe, expect, it } from 'vitest'
 import { SolvaPayError } from '@solvapay/core'
-import { verifyWebhook as verifyWebhookNode } from '../src/index'
-import { verifyWebhook as verifyWebhookEdge } from '../src/edge'
+import {
+  verifyWebhook as verifyWebhookNode,
+  verifyWebhookSignature as verifyWebhookSignatureNode,
+  WebhookVerificationError,
+} from '../src/index'
+import {
+  verifyWebhook as verifyWebhookEdge,
+  verifyWebhookSignature as verifyWebhookSignatureEdge,
+} from '../src/edge'
 import type { CustomerWebhookObject, WebhookEvent, WebhookEventForType } from '../src/types'
 
 const secret = 'whsec_test_secret'
@@ -148,6 +155,91 @@ describe('verifyWebhook', () => {
   })
 })
 
+const createSignatureAt = (payloadBody: string, payloadSecret: string, timestamp: number) => {
+  const hmac = crypto
+    .createHmac('sha256', payloadSecret)
+    .update(`${timestamp}.${payloadBody}`)
+    .digest('hex')
+  return `t=${timestamp},v1=${hmac}`
+}
+
+const nowSec = () => Math.floor(Date.now() / 1000)
+
+describe('verifyWebhook secret rotation and failure reasons', () => {
+  const previousSecret = 'whsec_previous_secret'
+
+  it.each([
+    ['node', verifyWebhookSignatureNode],
+    ['edge', verifyWebhookSignatureEdge],
+  ] as const)('reports which secret matched in %s runtime', async (_runtime, verify) => {
+    const signature = createSignature(purchaseCreatedBody, previousSecret)
+
+    const result = await verify({
+      body: purchaseCreatedBody,
+      signature,
+      secret: [secret, previousSecret],
+    })
+
+    expect(result.secretIndex).toBe(1)
+    expect(result.event.type).toBe('purchase.created')
+  })
+
+  it('accepts a header carrying one v1 signature per secret', () => {
+    const timestamp = nowSec()
+    const oldSig = createSignatureAt(purchaseCreatedBody, previousSecret, timestamp)
+    const newSig = createSignatureAt(purchaseCreatedBody, secret, timestamp)
+    const signature = `${oldSig},${newSig.split(',')[1]}`
+
+    expect(
+      verifyWebhookSignatureNode({ body: purchaseCreatedBody, signature, secret }).secretIndex,
+    ).toBe(0)
+  })
+
+  it.each([
+    ['node', verifyWebhookNode],
+    ['edge', verifyWebhookEdge],
+  ] as const)('honours a custom tolerance in %s runtime', async (_runtime, verify) => {
+    const signature = createSignatureAt(purchaseCreatedBody, secret, nowSec() - 120)
+
+    await expect(
+      Promise.resolve().then(() =>
+        verify({ body: purchaseCreatedBody, signature, secret, toleranceSec: 60 }),
+      ),
+    ).rejects.toMatchObject({ reason: 'expired' })
+    await expect(
+      Promise.resolve().then(() =>
+        verify({ body: purchaseCreatedBody, signature, secret, toleranceSec: 600 }),
+      ),
+    ).resolves.toMatchObject({ type: 'purchase.created' })
+  })
+
+  it.each([
+    ['missing', purchaseCreatedBody, () => ''],
+    ['malformed', purchaseCreatedBody, () => 't=abc'],
+    [
+      'expired',
+      purchaseCreatedBody,
+      () => createSignatureAt(purchaseCreatedBody, secret, nowSec() - 3600),
+    ],
+    ['mismatch', purchaseCreatedBody, () => createSignature(purchaseCreatedBody, 'whsec_wrong')],
+    ['invalid_json', 'not json', () => createSignature('not json', secret)],
+  ] as const)('throws WebhookVerificationError with reason %s', async (reason, body, sig) => {
+    let nodeError: unknown
+    try {
+      verifyWebhookNode({ body, signature: sig(), secret })
+    } catch (error) {
+      nodeError = error
+    }
+    expect(nodeError).toBeInstanceOf(WebhookVerificationError)
+    expect(nodeError).toBeInstanceOf(SolvaPayError)
+    expect(nodeError).toMatchObject({ reason, code: `webhook_${reason}` })
+
+    await expect(verifyWebhookEdge({ body, signature: sig(), secret })).rejects.toMatchObject({
+      reason,
+    })
+  })
+})
+
 // Type-level checks for webhook typing and usage examples.
 type IsEqual<T, U> =
   (<G>() => G extends T ? 1 : 2) extends <G>() => G extends U ? 1 : 2 ? true : false
@@ -0,0 +1,209 @@
+import crypto from 'node:crypto'
+import { describe, expect, it, vi } from 'vitest'
+import { SolvaPayError } from '@solvapay/core'
+import { createWebhookRouter as createNodeRouter } from '../src/index'
+import { createWebhookRouter as createEdgeRouter } from '../src/edge'
+import { createMemoryPaywallStore, PaywallStoreKeys } from '../src/store'
+import type { WebhookEvent } from '../src/types'
+
+const secret = 'whsec_router_secret'
+
+function buildEvent(type: string, id = `evt_${type}`): string {
+  return JSON.stringify({
+    type,
+    id,
+    created: Math.floor(Date.now() / 1000),
+    api_version: '2025-10-01',
+    data: {
+      object: { id: 'obj_1', created: 1, product: null, email: 'user@example.com' },
+      previous_attributes: null,
+    },
+    livemode: false,
+    request: { id: null, idempotency_key: null },
+  })
+}
+
+function sign(body: string, signingSecret = secret): string {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const hmac = crypto
+    .createHmac('sha256', signingSecret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+  return `t=${timestamp},v1=${hmac}`
+}
+
+function webhookRequest(body: string, signature = sign(body)): Request {
+  return new Request('http://localhost/webhooks/solvapay', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'sv-signature': signature },
+    body,
+  })
+}
+
+describe('createWebhookRouter', () => {
+  it('dispatches to typed handlers with the narrowed payload', async () => {
+    const onCustomer = vi.fn()
+    const onPurchase = vi.fn()
+    const router = createNodeRouter({ secret })
+      .on('customer.updated', event => {
+        // Narrowed to CustomerWebhookObject — `email` is typed.
+        onCustomer(event.data.object.email)
+      })
+      .on('purchase.created', onPurchase)
+
+    const body = buildEvent('customer.updated')
+    const result = await router.handle({ body, signature: sign(body) })
+
+    expect(result.status).toBe('handled')
+    expect(onCustomer).toHaveBeenCalledWith('user@example.com')
+    expect(onPurchase).not.toHaveBeenCalled()
+  })
+
+  it('runs wildcard handlers after typed handlers and the fallback only when nothing matched', async () => {
+    const calls: string[] = []
+    const router = createNodeRouter({ secret })
+      .on('purchase.created', () => {
+        calls.push('typed')
+      })
+      .on('*', event => {
+        calls.push(`wildcard:${event.type}`)
+      })
+      .fallback(() => {
+        calls.push('fallback')
+      })
+
+    await router.dispatch(JSON.parse(buildEvent('purchase.created')) as WebhookEvent)
+    expect(calls).toEqual(['typed', 'wildcard:purchase.created'])
+
+    const unmatched = createNodeRouter({ secret }).fallback(event => {
+      calls.push(`fallback:${event.type}`)
+    })
+    const result = await unmatched.dispatch(
+      JSON.parse(buildEvent('purchase.cancelled')) as WebhookEvent,
+    )
+    expect(result.status).toBe('unhandled')
+    expect(calls).toContain('fallback:purchase.cancelled')
+  })
+
+  it('skips events whose id was already processed', async () => {
+    const handler = vi.fn()
+    const seenEventStore = createMemoryPaywallStore()
+    const router = createNodeRouter({ secret, seenEventStore }).on('purchase.created', handler)
+
+    const body = buildEvent('purchase.created', 'evt_once')
+    expect((await router.handle({ body, signature: sign(body) })).status).toBe('handled')
+    // Replay of the same delivery (fresh signature, same event id).
+    expect((await router.handle({ body, signature: sign(body) })).status).toBe('duplicate')
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(await seenEventStore.get(PaywallStoreKeys.webhookEvent('evt_once'))).toBe(true)
+  })
+
+  it('runs handlers once when the same event is delivered concurrently', async () => {
+    const handler = vi.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5))
+    })
+    const router = createNodeRouter({ secret }).on('purchase.created', handler)
+    const body = buildEvent('purchase.created', 'evt_concurrent')
+
+    const results = await Promise.all([
+      router.handle({ body, signature: sign(body) }),
+      router.handle({ body, signature: sign(body) }),
+    ])
+
+    expect(results.map(result => result.status).sort()).toEqual(['duplicate', 'handled'])
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares the seen-event store across router instances', async () => {
+    const seenEventStore = createMemoryPaywallStore()
+    const first = vi.fn()
+    const second = vi.fn()
+    const a = createNodeRouter({ secret, seenEventStore }).on('purchase.created', first)
+    const b = createNodeRouter({ secret, seenEventStore }).on('purchase.created', second)
+
+    const event = JSON.parse(buildEvent('purchase.created', 'evt_shared')) as WebhookEvent
+    await a.dispatch(event)
+    expect((await b.dispatch(event)).status).toBe('duplicate')
+    expect(second).not.toHaveBeenCalled()
+  })
+
+  it('releases the event id when a handler throws so retries run again', async () => {
+    const handler = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined)
+    const router = createNodeRouter({ secret }).on('purchase.created', handler)
+    const body = buildEvent('purchase.created', 'evt_retry')
+
+    const failed = await router.fetch(webhookRequest(body))
+    expect(failed.status).toBe(500)
+
+    const retried = await router.fetch(webhookRequest(body))
+    expect(retried.status).toBe(200)
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects invalid signatures', async () => {
+    const handler = vi.fn()
+    const router = createNodeRouter({ secret }).on('purchase.created', handler)
+    const body = buildEvent('purchase.created')
+
+    await expect(router.handle({ body, signature: sign(body, 'whsec_other') })).rejects.toThrow(
+      SolvaPayError,
+    )
+    const res = await router.fetch(webhookRequest(body, sign(body, 'whsec_other')))
+    expect(res.status).toBe(401)
+    expect(await res.json()).toEqual({ error: 'Invalid webhook signature', reason: 'mismatch' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('answers a correctly signed body that is not JSON with 400', async () => {
+    const router = createNodeRouter({ secret }).on('purchase.created', vi.fn())
+
+    const res = await router.fetch(webhookRequest('not json', sign('not json')))
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'Invalid webhook payload', reason: 'invalid_json' })
+  })
+
+  it('accepts any configured secret and exposes the matching index to handlers', async () => {
+    const handler = vi.fn()
+    const router = createEdgeRouter({ secret: [secret, 'whsec_previous'] }).on(
+      'purchase.created',
+      (_event, context) => handler(context.secretIndex),
+    )
+    const body = buildEvent('purchase.created', 'evt_rotated')
+
+    const res = await router.fetch(webhookRequest(body, sign(body, 'whsec_previous')))
+    expect(res.status).toBe(200)
+    expect(handler).toHaveBeenCalledWith(1)
+  })
+
+  it('reports duplicates in the fetch / next response body', async () => {
+    const router = createEdgeRouter({ secret }).on('purchase.created', vi.fn())
+    const body = buildEvent('purchase.created', 'evt_edge')
+    const POST = router.next()
+
+    const first = await POST(webhookRequest(body))
+    expect(first.status).toBe(200)
+    expect(await first.json()).toEqual({ received: true })
+
+    const second = await POST(webhookRequest(body))
+    expect(await second.json()).toEqual({ received: true, duplicate: true })
+  })
+
+  it('handles raw Express bodies and rejects pre-parsed JSON', async () => {
+    const handler = vi.fn()
+    const router = createNodeRouter({ secret }).on('purchase.created', handler)
+    const body = buildEvent('purchase.created', 'evt_express')
+
+    const json = vi.fn()
+    const res = { status: vi.fn(() => ({ json })) }
+    await router.express()(
+      { body: Buffer.from(body), headers: { 'sv-signature': sign(body) } },
+      res,
+    )
+    expect(res.status).toHaveBeenCalledWith(200)
+    expect(json).toHaveBeenCalledWith({ received: true })
+    expect(handler).toHaveBeenCalledTimes(1)
+
+    await router.express()({ body: JSON.parse(body), headers: { 'sv-signature': sign(body) } }, res)
+    expect(res.status).toHaveBeenLastCalledWith(400)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createWebhookEvent,
+  deliverWebhook,
+  signWebhookPayload,
+  TEST_WEBHOOK_SECRET,
+  WEBHOOK_EVENT_TYPES,
+} from '@solvapay/test-utils/webhooks'
+import { verifyWebhook as verifyWebhookNode } from '../src/index'
+import { verifyWebhook as verifyWebhookEdge } from '../src/edge'
+import { solvapayWebhook } from '../src/fetch'
+
+// The helpers live in `@solvapay/test-utils` (no tests of its own);
+// this suite pins them to the real verifiers so a drift in the signing
+// scheme fails here rather than in every consumer's handler tests.
+describe('@solvapay/test-utils webhook helpers', () => {
+  it.each(WEBHOOK_EVENT_TYPES)('builds a %s fixture that verifies in both runtimes', async type => {
+    const event = createWebhookEvent(type)
+    const body = JSON.stringify(event)
+    const signature = signWebhookPayload({ event: body, secret: TEST_WEBHOOK_SECRET })
+
+    expect(verifyWebhookNode({ body, signature, secret: TEST_WEBHOOK_SECRET })).toEqual(event)
+    await expect(
+      verifyWebhookEdge({ body, signature, secret: TEST_WEBHOOK_SECRET }),
+    ).resolves.toEqual(event)
+  })
+
+  it('merges object overrides into the typed payload', () => {
+    const event = createWebhookEvent('customer.updated', {
+      id: 'evt_pinned',
+      object: { email: 'new@example.com' },
+    })
+
+    expect(event.id).toBe('evt_pinned')
+    expect(event.data.object.email).toBe('new@example.com')
+    expect(event.data.object.reference).toBe('cus_test')
+  })
+
+  it('signs with the requested timestamp', () => {
+    const signature = signWebhookPayload({ event: '{}', secret: 'whsec_x', timestamp: 1700000000 })
+    expect(signature).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/)
+  })
+
+  it('delivers events to solvapayWebhook in-process', async () => {
+    const onEvent = vi.fn()
+    const handler = solvapayWebhook({ secret: TEST_WEBHOOK_SECRET, onEvent })
+    const event = createWebhookEvent('purchase.created')
+
+    const res = await deliverWebhook(handler, event)
+
+    expect(res.status).toBe(200)
+    expect(onEvent).toHaveBeenCalledWith(event, expect.objectContaining({ secretIndex: 0 }))
+  })
+
+  it('lets tests simulate stale and forged deliveries', async () => {
+    const handler = solvapayWebhook({ secret: TEST_WEBHOOK_SECRET, onEvent: vi.fn() })
+    const event = createWebhookEvent('payment.failed')
+
+    const stale = await deliverWebhook(handler, event, {
+      timestamp: Math.floor(Date.now() / 1000) - 3600,
+    })
+    expect(await stale.json()).toMatchObject({ reason: 'expired' })
+
+    const forged = await deliverWebhook(handler, event, { secret: 'whsec_attacker' })
+    expect(await forged.json()).toMatchObject({ reason: 'mismatch' })
+  })
+})
@@ -47,13 +47,17 @@ const REQUIRED_FUNCTIONS: ReadonlyArray<keyof typeof edgeEntry> = [
   'buildPaywallGate',
   // Runtime type guards.
   'isPaywallStructuredContent',
+  // Variable-unit metering, used by `@solvapay/mcp-core`'s `ctx.respond`.
+  'withUnits',
   // Factory + client creation.
   'createSolvaPay',
   'createSolvaPayClient',
   // Error helpers.
   'paywallErrorToClientPayload',
-  // Webhook verification.
+  // Webhook verification + typed router.
   'verifyWebhook',
+  'verifyWebhookSignature',
+  'createWebhookRouter',
   // Retry utility.
   'withRetry',
   // Route helpers — the surface the original `edge-exports.unit.test`
@@ -88,7 +92,10 @@ const REQUIRED_FUNCTIONS: ReadonlyArray<keyof typeof edgeEntry> = [
 // above. `PaywallError` specifically — the edge bundle MUST expose it
 // so consumers can do `err instanceof PaywallError` without importing
 // a second path.
-const REQUIRED_CLASSES: ReadonlyArray<keyof typeof edgeEntry> = ['PaywallError']
+const REQUIRED_CLASSES: ReadonlyArray<keyof typeof edgeEntry> = [
+  'PaywallError',
+  'WebhookVerificationError',
+]
 
 describe('@solvapay/server edge entrypoint surface', () => {
   it.each(REQUIRED_FUNCTIONS)('exports %s as a function', name => {
@@ -5,8 +5,14 @@
  * Each adapter handles extraction, transformation, and formatting for its specific context.
  */
 
-import { PaywallError } from '../paywall'
-import type { SolvaPayPaywall } from '../paywall'
+import { EntitlementError } from '../entitlements'
+import type {
+  Entitlements,
+  EntitlementHandlerContext,
+  EntitlementRequirement,
+} from '../entitlements'
+import { PaywallError, paywallErrorToClientPayload } from '../paywall'
+import type { ProtectHandlerContext, SolvaPayPaywall } from '../paywall'
 import type { PaywallArgs, PaywallMetadata, PaywallStructuredContent } from '../types'
 
 /**
@@ -67,9 +73,10 @@ export interface Adapter<TContext = any, TResult = any> {
  * reimplement the interface directly.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export abstract class AbstractAdapter<TContext = any, TResult = any>
-  implements Adapter<TContext, TResult>
-{
+export abstract class AbstractAdapter<TContext = any, TResult = any> implements Adapter<
+  TContext,
+  TResult
+> {
   abstract extractArgs(
     context: TContext,
   ): Promise<Record<string, unknown>> | Record<string, unknown>
@@ -107,6 +114,81 @@ export class AdapterUtils {
     return customerRef
   }
 
+  /**
+   * Status, headers and JSON body for a gate: `429` with `Retry-After`
+   * for a rate-limited call, `402` for every other gate.
+   */
+  static gateResponse(gate: PaywallStructuredContent): {
+    status: number
+    headers: Record<string, string>
+    body: Record<string, unknown>
+  } {
+    const body = paywallErrorToClientPayload(new PaywallError(gate.message, gate))
+    if (gate.kind === 'rate_limited') {
+      return { status: 429, headers: { 'Retry-After': String(gate.retryAfter) }, body }
+    }
+    return { status: 402, headers: {}, body }
+  }
+
+  /**
+   * Status and JSON body for an error response: `403` with the
+   * entitlement payload for an {@link EntitlementError}, `500` with the
+   * message for anything else.
+   */
+  static errorResponse(error: Error): { status: number; body: Record<string, unknown> } {
+    if (error instanceof EntitlementError) {
+      return { status: 403, body: error.toClientPayload() }
+    }
+    return {
+      status: 500,
+      body: {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+    }
+  }
+
+  /**
+   * Merge argument sources (body, query, route params) left to right.
+   * Raw bodies — strings, `Buffer`s, arrays and streams — are skipped;
+   * spreading them would turn their contents into index keys.
+   */
+  static mergeArgs(...sources: unknown[]): Record<string, unknown> {
+    const args: Record<string, unknown> = {}
+    for (const source of sources) {
+      if (typeof source !== 'object' || source === null) continue
+      if (Array.isArray(source) || ArrayBuffer.isView(source)) continue
+      const stream = source as { pipe?: unknown; getReader?: unknown }
+      if (typeof stream.pipe === 'function' || typeof stream.getReader === 'function') continue
+      Object.assign(args, source)
+    }
+    return args
+  }
+
+  /**
+   * Default customer resolution for adapters without `getCustomerRef`:
+   * the `x-customer-ref` header, then the `sub` of a verified Bearer
+   * JWT, then `'anonymous'`.
+   */
+  static async customerRefFromHeaders(
+    header: (name: string) => string | null | undefined,
+  ): Promise<string> {
+    const headerRef = header('x-customer-ref')
+    if (headerRef) {
+      return AdapterUtils.ensureCustomerRef(headerRef)
+    }
+
+    const authHeader = header('authorization')
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      const jwtSub = await AdapterUtils.extractFromJWT(authHeader.substring(7))
+      if (jwtSub) {
+        return AdapterUtils.ensureCustomerRef(jwtSub)
+      }
+    }
+
+    return 'anonymous'
+  }
+
   /**
    * Extract customer ref from JWT token
    */
@@ -156,7 +238,7 @@ export async function createAdapterHandler<TContext, TResult>(
   paywall: SolvaPayPaywall,
   metadata: PaywallMetadata,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  businessLogic: (args: any, handlerContext?: unknown) => Promise<any>,
+  businessLogic: (args: any, handlerContext?: ProtectHandlerContext) => Promise<any>,
 ): Promise<(context: TContext, extra?: unknown) => Promise<TResult>> {
   const backendRefCache = new Map<string, string>()
 
@@ -218,3 +300,39 @@ export async function createAdapterHandler<TContext, TResult>(
     }
   }
 }
+
+/**
+ * Create a handler that runs `businessLogic` only when the customer's
+ * entitlements satisfy `requirement`.
+ *
+ * Shares the adapter's argument extraction, customer resolution and
+ * response formatting with `createAdapterHandler`, but never consults
+ * the limits or records usage. A failed check surfaces as an
+ * `EntitlementError` through `adapter.formatError`.
+ */
+export function createEntitlementHandler<TContext, TResult>(
+  adapter: Adapter<TContext, TResult>,
+  resolveEntitlements: (customerRef: string) => Promise<Entitlements>,
+  requirement: EntitlementRequirement,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  businessLogic: (args: any, handlerContext: EntitlementHandlerContext) => Promise<any>,
+): (context: TContext, extra?: unknown) => Promise<TResult> {
+  return async (context: TContext, extra?: unknown): Promise<TResult> => {
+    try {
+      const args = await adapter.extractArgs(context)
+      const customerRef = await adapter.getCustomerRef(context, extra)
+      const entitlements = await resolveEntitlements(customerRef)
+      entitlements.require(requirement)
+
+      args.auth = { customer_ref: entitlements.customerRef }
+      const result = await businessLogic(args, {
+        customerRef: entitlements.customerRef,
+        entitlements,
+        ...(extra !== undefined ? { extra } : {}),
+      })
+      return adapter.formatResponse(result, context)
+    } catch (error) {
+      return adapter.formatError(error as Error, context)
+    }
+  }
+}
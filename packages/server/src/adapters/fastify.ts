@@ -0,0 +1,77 @@
+/**
+ * Fastify Adapter
+ *
+ * Handles Fastify 4+ route handlers. Reads the body Fastify's content
+ * type parsers produced, so raw-body routes (`addContentTypeParser`
+ * with `parseAs: 'buffer'`) reach the handler untouched, and answers
+ * through `reply` so streams and `reply.hijack()` keep working.
+ */
+
+import type { Adapter } from './base'
+import { AdapterUtils } from './base'
+import type { FastifyAdapterOptions, PaywallStructuredContent } from '../types'
+
+/**
+ * Fastify context (`FastifyRequest`, `FastifyReply`), typed structurally
+ * so the SDK does not depend on Fastify.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type FastifyContext = [request: any, reply: any]
+
+/**
+ * Fastify Adapter implementation
+ */
+export class FastifyAdapter implements Adapter<FastifyContext, unknown> {
+  constructor(private options: FastifyAdapterOptions = {}) {}
+
+  async extractArgs([request]: FastifyContext): Promise<Record<string, unknown>> {
+    if (this.options.extractArgs) {
+      return await this.options.extractArgs(request)
+    }
+
+    return AdapterUtils.mergeArgs(request.body, request.query, request.params)
+  }
+
+  async getCustomerRef([request]: FastifyContext): Promise<string> {
+    if (this.options.getCustomerRef) {
+      const ref = await this.options.getCustomerRef(request)
+      return AdapterUtils.ensureCustomerRef(ref)
+    }
+
+    return AdapterUtils.customerRefFromHeaders(name => {
+      const value = request.headers?.[name]
+      return Array.isArray(value) ? value[0] : value
+    })
+  }
+
+  /**
+   * Send the result with `reply.send()`, which streams `Readable`s and
+   * `Buffer`s and serialises objects. Replies the handler already sent
+   * or hijacked are left alone.
+   */
+  formatResponse(result: unknown, [_request, reply]: FastifyContext): unknown {
+    if (reply.sent) {
+      return reply
+    }
+
+    const transformed = this.options.transformResponse
+      ? this.options.transformResponse(result, reply)
+      : result
+    return reply.send(transformed)
+  }
+
+  /**
+   * Emit a 402 Payment Required JSON reply with the same body shape as
+   * the HTTP and Next.js adapters (`429` with `Retry-After` when rate
+   * limited).
+   */
+  formatGate(gate: PaywallStructuredContent, [_request, reply]: FastifyContext): unknown {
+    const { status, headers, body } = AdapterUtils.gateResponse(gate)
+    return reply.code(status).headers(headers).send(body)
+  }
+
+  formatError(error: Error, [_request, reply]: FastifyContext): unknown {
+    const { status, body } = AdapterUtils.errorResponse(error)
+    return reply.code(status).send(body)
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Hono Adapter
+ *
+ * Handles Hono on any runtime (Workers, Bun, Deno, Node). Reads the
+ * request through `c.req`, whose body readers cache the parsed body, so
+ * middleware and handlers that read it again still see it.
+ */
+
+import type { Adapter } from './base'
+import { AdapterUtils } from './base'
+import type { HonoAdapterOptions, PaywallStructuredContent } from '../types'
+
+/**
+ * Hono `Context`, typed structurally so the SDK does not depend on Hono.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type HonoContext = any
+
+const FORM_CONTENT_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded']
+
+/**
+ * Hono Adapter implementation
+ */
+export class HonoAdapter implements Adapter<HonoContext, Response> {
+  constructor(private options: HonoAdapterOptions = {}) {}
+
+  async extractArgs(c: HonoContext): Promise<Record<string, unknown>> {
+    if (this.options.extractArgs) {
+      return await this.options.extractArgs(c)
+    }
+
+    let body: unknown = {}
+    const contentType = c.req.header('content-type') ?? ''
+    if (c.req.method !== 'GET' && c.req.method !== 'HEAD') {
+      try {
+        if (contentType.includes('application/json')) {
+          body = await c.req.json()
+        } else if (FORM_CONTENT_TYPES.some(type => contentType.includes(type))) {
+          body = await c.req.parseBody()
+        }
+      } catch {
+        // If parsing fails, continue with empty body
+      }
+    }
+
+    return AdapterUtils.mergeArgs(body, c.req.query(), c.req.param())
+  }
+
+  async getCustomerRef(c: HonoContext): Promise<string> {
+    if (this.options.getCustomerRef) {
+      const ref = await this.options.getCustomerRef(c)
+      return AdapterUtils.ensureCustomerRef(ref)
+    }
+
+    return AdapterUtils.customerRefFromHeaders(name => c.req.header(name))
+  }
+
+  /**
+   * Send the result with `c.json()`. A `Response` returned by the
+   * handler (e.g. `c.body(stream)` or `streamSSE(c, …)`) is passed
+   * through untouched so streaming routes keep working.
+   */
+  formatResponse(result: unknown, c: HonoContext): Response {
+    if (result instanceof Response) {
+      return result
+    }
+
+    const transformed = this.options.transformResponse
+      ? this.options.transformResponse(result, c)
+      : result
+    return c.json(transformed ?? null)
+  }
+
+  /**
+   * Emit a 402 Payment Required JSON response with the same body
+   * shape as the HTTP and Next.js adapters (`429` with `Retry-After`
+   * when rate limited).
+   */
+  formatGate(gate: PaywallStructuredContent, c: HonoContext): Response {
+    const { status, headers, body } = AdapterUtils.gateResponse(gate)
+    return c.json(body, status, headers)
+  }
+
+  formatError(error: Error, c: HonoContext): Response {
+    const { status, body } = AdapterUtils.errorResponse(error)
+    return c.json(body, status)
+  }
+}
@@ -8,7 +8,6 @@
 import type { Adapter } from './base'
 import { AdapterUtils } from './base'
 import type { HttpAdapterOptions, PaywallStructuredContent } from '../types'
-import { PaywallError, paywallErrorToClientPayload } from '../paywall'
 
 /**
  * HTTP context (Express or Fastify)
@@ -81,40 +80,40 @@ export class HttpAdapter implements Adapter<HttpContext, unknown> {
    * REST consumers have always received (`{success:false, error, product,
    * checkoutUrl, message, ...}`). The shape is reused via
    * `paywallErrorToClientPayload` so HTTP / Next / hosted-proxy clients
-   * don't have to branch on an SDK version.
+   * don't have to branch on an SDK version. Rate-limited calls get
+   * `429` with `Retry-After` instead.
    */
   formatGate(gate: PaywallStructuredContent, [_req, reply]: HttpContext): unknown {
-    const errorResponse = paywallErrorToClientPayload(new PaywallError(gate.message, gate))
+    const { status, headers, body } = AdapterUtils.gateResponse(gate)
 
     // Express: has reply.status method
     if (reply && reply.status && typeof reply.json === 'function') {
-      reply.status(402).json(errorResponse)
+      if (typeof reply.set === 'function') reply.set(headers)
+      reply.status(status).json(body)
       return
     }
 
     // Fastify: use reply.code
     if (reply && reply.code) {
-      reply.code(402)
+      if (typeof reply.headers === 'function') reply.headers(headers)
+      reply.code(status)
     }
-    return errorResponse
+    return body
   }
 
   formatError(error: Error, [_req, reply]: HttpContext): unknown {
-    const errorResponse = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Internal server error',
-    }
+    const { status, body } = AdapterUtils.errorResponse(error)
 
     // Express: has reply.status method
     if (reply && reply.status && typeof reply.json === 'function') {
-      reply.status(500).json(errorResponse)
+      reply.status(status).json(body)
       return
     }
 
     // Fastify: use reply.code
     if (reply && reply.code) {
-      reply.code(500)
+      reply.code(status)
     }
-    return errorResponse
+    return body
   }
 }
@@ -5,7 +5,15 @@
  */
 
 export type { Adapter } from './base'
-export { AbstractAdapter, AdapterUtils, createAdapterHandler } from './base'
+export {
+  AbstractAdapter,
+  AdapterUtils,
+  createAdapterHandler,
+  createEntitlementHandler,
+} from './base'
 export { HttpAdapter } from './http'
 export { NextAdapter } from './next'
+export { HonoAdapter } from './hono'
+export { FastifyAdapter } from './fastify'
+export { KoaAdapter } from './koa'
 export { McpAdapter } from './mcp'
@@ -0,0 +1,75 @@
+/**
+ * Koa Adapter
+ *
+ * Handles Koa 2+ middleware. Reads the body a body parser
+ * (`koa-bodyparser`, `@koa/bodyparser`, `koa-body`) left on
+ * `ctx.request.body` and route params from `@koa/router`'s `ctx.params`,
+ * and answers by setting `ctx.status` / `ctx.body`.
+ */
+
+import type { Adapter } from './base'
+import { AdapterUtils } from './base'
+import type { KoaAdapterOptions, PaywallStructuredContent } from '../types'
+
+/**
+ * Koa `Context`, typed structurally so the SDK does not depend on Koa.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type KoaContext = any
+
+/**
+ * Koa Adapter implementation
+ */
+export class KoaAdapter implements Adapter<KoaContext, void> {
+  constructor(private options: KoaAdapterOptions = {}) {}
+
+  async extractArgs(ctx: KoaContext): Promise<Record<string, unknown>> {
+    if (this.options.extractArgs) {
+      return await this.options.extractArgs(ctx)
+    }
+
+    // Raw-body parsers leave a string or Buffer here; only parsed
+    // objects become arguments.
+    return AdapterUtils.mergeArgs(ctx.request?.body, ctx.query, ctx.params)
+  }
+
+  async getCustomerRef(ctx: KoaContext): Promise<string> {
+    if (this.options.getCustomerRef) {
+      const ref = await this.options.getCustomerRef(ctx)
+      return AdapterUtils.ensureCustomerRef(ref)
+    }
+
+    return AdapterUtils.customerRefFromHeaders(name => ctx.get(name) || undefined)
+  }
+
+  /**
+   * Assign the result to `ctx.body`. Koa sends strings, `Buffer`s and
+   * streams as-is and serialises everything else as JSON. A handler
+   * that set `ctx.body` itself and returned nothing keeps its body.
+   */
+  formatResponse(result: unknown, ctx: KoaContext): void {
+    const transformed = this.options.transformResponse
+      ? this.options.transformResponse(result, ctx)
+      : result
+    if (transformed === undefined && ctx.body !== undefined) return
+    ctx.body = transformed
+  }
+
+  /**
+   * Emit a 402 Payment Required JSON body with the same shape as the
+   * HTTP and Next.js adapters (`429` with `Retry-After` when rate
+   * limited).
+   */
+  formatGate(gate: PaywallStructuredContent, ctx: KoaContext): void {
+    const { status, headers, body } = AdapterUtils.gateResponse(gate)
+    ctx.status = status
+    for (const [name, value] of Object.entries(headers)) ctx.set(name, value)
+    ctx.body = body
+  }
+
+  formatError(error: Error, ctx: KoaContext): void {
+    const { status, body } = AdapterUtils.errorResponse(error)
+    ctx.status = status
+    ctx.body = body
+  }
+}
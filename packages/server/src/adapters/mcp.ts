@@ -6,6 +6,7 @@
 
 import type { Adapter } from './base'
 import { AdapterUtils } from './base'
+import { EntitlementError } from '../entitlements'
 import type {
   McpAdapterOptions,
   McpToolExtra,
@@ -98,7 +99,20 @@ export class McpAdapter implements Adapter<McpContext, PaywallToolResult> {
     }
   }
 
+  /**
+   * Genuine errors come back as `isError: true` JSON. A missing
+   * entitlement is narrated like a paywall gate instead — the message
+   * in `content[0].text`, the payload in `structuredContent`, and
+   * `isError: false`, since the model cannot fix it by retrying.
+   */
   formatError(error: Error, _context: McpContext): PaywallToolResult {
+    if (error instanceof EntitlementError) {
+      return {
+        content: [{ type: 'text', text: error.message }],
+        isError: false,
+        structuredContent: error.toClientPayload(),
+      }
+    }
     return {
       content: [
         {
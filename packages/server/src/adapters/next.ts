@@ -7,7 +7,6 @@
 import type { Adapter } from './base'
 import { AdapterUtils } from './base'
 import type { NextAdapterOptions, PaywallStructuredContent } from '../types'
-import { PaywallError, paywallErrorToClientPayload } from '../paywall'
 
 /**
  * Next.js context (Web Request + optional route context)
@@ -111,25 +110,18 @@ export class NextAdapter implements Adapter<NextContext, Response> {
    * clients don't have to branch on an SDK version.
    */
   formatGate(gate: PaywallStructuredContent, _context: NextContext): Response {
-    return new Response(
-      JSON.stringify(paywallErrorToClientPayload(new PaywallError(gate.message, gate))),
-      {
-        status: 402,
-        headers: { 'Content-Type': 'application/json' },
-      },
-    )
+    const { status, headers, body } = AdapterUtils.gateResponse(gate)
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    })
   }
 
   formatError(error: Error, _context: NextContext): Response {
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : 'Internal server error',
-      }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      },
-    )
+    const { status, body } = AdapterUtils.errorResponse(error)
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
   }
 }
@@ -6,8 +6,18 @@
  * protection, usage tracking, and resource management.
  */
 
-import { SolvaPayError } from '@solvapay/core'
-import type { SolvaPayClient } from './types'
+import {
+  createJsonLogger,
+  createSolvaPayApiError,
+  SolvaPayError,
+  SolvaPayNotFoundError,
+  withRedaction,
+} from '@solvapay/core'
+import type { Logger, SolvaPayApiError } from '@solvapay/core'
+import type { ClientRetryOptions, SolvaPayClient, SolvaPayRequestOptions } from './types'
+import { generateIdempotencyKey, withRetry } from './utils'
+import { createTelemetry } from './telemetry'
+import type { SolvaPayTelemetryOptions } from './telemetry'
 
 /**
  * Configuration options for creating a SolvaPay API client
@@ -23,6 +33,66 @@ export type ServerClientOptions = {
    * Defaults to https://api.solvapay.com
    */
   apiBaseUrl?: string
+
+  /**
+   * Milliseconds to wait for response headers before aborting an attempt
+   * (default: 30000). `0` disables the timeout. Timed-out attempts are
+   * retried like network errors.
+   */
+  timeout?: number
+
+  /**
+   * Retry policy for network errors, timeouts, `429` and `5xx` responses
+   * (default: 2 retries, exponential backoff from 500ms, honouring
+   * `Retry-After`). `false` disables retries.
+   *
+   * Every non-GET request carries an `Idempotency-Key` that stays the
+   * same across its retries, so a retried `trackUsage` or payment call
+   * is never applied twice.
+   */
+  retry?: ClientRetryOptions | false
+
+  /**
+   * OpenTelemetry tracer and meter. Each API call runs in a
+   * `solvapay.api.request` span and records `solvapay.api.latency`.
+   *
+   * @since 2.1.0
+   */
+  telemetry?: SolvaPayTelemetryOptions
+
+  /**
+   * Where failed calls and retries are logged, at `debug` level
+   * (default: JSON lines, shown when `SOLVAPAY_DEBUG=true`). Secrets and
+   * emails are redacted.
+   *
+   * @since 2.1.0
+   */
+  logger?: Logger
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const DEFAULT_MAX_RETRY_AFTER_MS = 30_000
+
+/** Thrown inside the retry loop for retryable HTTP statuses; unwrapped before returning. */
+class RetryableResponseError extends Error {
+  constructor(readonly response: Response) {
+    super(`HTTP ${response.status}`)
+  }
+}
+
+/** Thrown inside the retry loop when an attempt exceeds its timeout. */
+class RequestTimeoutError extends Error {}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500
+
+/** Parse `Retry-After` (delta-seconds or HTTP-date) into milliseconds. */
+function parseRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get('retry-after')
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
 }
 
 /**
@@ -43,6 +113,12 @@ export type ServerClientOptions = {
  * @returns A fully configured SolvaPayClient instance
  * @throws {SolvaPayError} If API key is missing
  *
+ * Failed API calls reject with a `SolvaPayApiError` subclass from
+ * `@solvapay/core` — `SolvaPayAuthenticationError`, `SolvaPayNotFoundError`,
+ * `SolvaPayValidationError`, `SolvaPayRateLimitError`,
+ * `SolvaPayConflictError` or `SolvaPayServerError` — carrying `status`,
+ * `code`, `requestId` and the raw `body`.
+ *
  * @example
  * ```typescript
  * // Create API client directly
@@ -68,97 +144,250 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     Authorization: `Bearer ${opts.apiKey}`,
   }
 
-  // Enable debug logging via environment variable (same pattern as paywall)
-  const debug = process.env.SOLVAPAY_DEBUG === 'true'
-  const log = (...args: unknown[]) => {
-    if (debug) {
-      // eslint-disable-next-line no-console
-      console.log(...args)
+  const telemetry = createTelemetry(opts.telemetry)
+
+  const logger = withRedaction(opts.logger ?? createJsonLogger())
+
+  /**
+   * Read a failed response into the matching `SolvaPayApiError`
+   * subclass. The message keeps the `"{Label} failed ({status}): {body}"`
+   * shape unless `messages` overrides it for a status.
+   */
+  const apiError = async (
+    label: string,
+    res: Response,
+    messages: Partial<Record<number, (body: string) => string>> = {},
+  ): Promise<SolvaPayApiError> => {
+    const body = await res.text()
+    logger.debug('SolvaPay API error', { operation: label, status: res.status, body })
+    const retryAfterMs = parseRetryAfter(res)
+    return createSolvaPayApiError(
+      messages[res.status]?.(body) ?? `${label} failed (${res.status}): ${body}`,
+      {
+        status: res.status,
+        body,
+        requestId: res.headers.get('x-request-id') ?? undefined,
+        retryAfter: retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000),
+      },
+    )
+  }
+
+  /**
+   * `fetch` with the client's timeout, retry and idempotency policy.
+   * Resolves with the final `Response` (retryable statuses included
+   * once retries are exhausted) so each method keeps its own error
+   * mapping; throws a `SolvaPayError` for timeouts and network errors.
+   */
+  const send = (
+    label: string,
+    url: string,
+    init: RequestInit & { headers: Record<string, string> },
+    options: SolvaPayRequestOptions = {},
+  ): Promise<Response> => {
+    const method = init.method ?? 'GET'
+    const attributes = {
+      'solvapay.api.operation': label,
+      'http.request.method': method,
+      // Query strings can carry customer emails; keep them out of spans.
+      'url.path': url.slice(base.length).split('?')[0],
+    }
+    return telemetry.span('solvapay.api.request', attributes, async span => {
+      const startTime = Date.now()
+      const latencyAttributes = { 'solvapay.api.operation': label, 'http.request.method': method }
+      try {
+        const res = await sendWithRetry(label, url, init, options, attempt =>
+          span.setAttribute('solvapay.api.retries', attempt + 1),
+        )
+        span.setAttribute('http.response.status_code', res.status)
+        telemetry.record('solvapay.api.latency', Date.now() - startTime, {
+          ...latencyAttributes,
+          'http.response.status_code': res.status,
+        })
+        return res
+      } catch (error) {
+        const errorType = error instanceof SolvaPayError ? error.code : undefined
+        telemetry.record('solvapay.api.latency', Date.now() - startTime, {
+          ...latencyAttributes,
+          'error.type': errorType ?? 'error',
+        })
+        throw error
+      }
+    })
+  }
+
+  /** The retry loop behind `send`; `onRetry` reports each retry to its span. */
+  const sendWithRetry = async (
+    label: string,
+    url: string,
+    init: RequestInit & { headers: Record<string, string> },
+    options: SolvaPayRequestOptions,
+    onRetry: (attemptIndex: number) => void,
+  ): Promise<Response> => {
+    const timeout = options.timeout ?? opts.timeout ?? DEFAULT_TIMEOUT_MS
+    const retry: ClientRetryOptions =
+      options.retry === false || (options.retry === undefined && opts.retry === false)
+        ? { maxRetries: 0 }
+        : { ...(opts.retry || {}), ...options.retry }
+    const maxRetryAfter = retry.maxRetryAfter ?? DEFAULT_MAX_RETRY_AFTER_MS
+
+    // One key per logical call, shared by all of its attempts.
+    const requestHeaders = { ...init.headers }
+    if (init.method && init.method !== 'GET' && !requestHeaders['Idempotency-Key']) {
+      requestHeaders['Idempotency-Key'] = options.idempotencyKey ?? generateIdempotencyKey('sdk')
+    }
+
+    const attempt = async () => {
+      const controller = new AbortController()
+      const abortFromCaller = () => controller.abort(options.signal?.reason)
+      if (options.signal?.aborted) abortFromCaller()
+      options.signal?.addEventListener('abort', abortFromCaller)
+      let timedOut = false
+      const timer =
+        timeout > 0
+          ? setTimeout(() => {
+              timedOut = true
+              controller.abort()
+            }, timeout)
+          : undefined
+
+      try {
+        const res = await fetch(url, {
+          ...init,
+          headers: requestHeaders,
+          signal: controller.signal,
+        })
+        if (isRetryableStatus(res.status)) throw new RetryableResponseError(res)
+        return res
+      } catch (error) {
+        if (timedOut) throw new RequestTimeoutError(`timed out after ${timeout}ms`)
+        throw error
+      } finally {
+        clearTimeout(timer)
+        options.signal?.removeEventListener('abort', abortFromCaller)
+      }
+    }
+
+    try {
+      return await withRetry(attempt, {
+        maxRetries: retry.maxRetries ?? 2,
+        initialDelay: retry.initialDelay ?? 500,
+        backoffStrategy: retry.backoffStrategy ?? 'exponential',
+        shouldRetry: error => {
+          if (options.signal?.aborted) return false
+          if (!(error instanceof RetryableResponseError)) return true
+          const retryAfter = parseRetryAfter(error.response)
+          return retryAfter === undefined || retryAfter <= maxRetryAfter
+        },
+        getDelay: error =>
+          error instanceof RetryableResponseError ? parseRetryAfter(error.response) : undefined,
+        onRetry: (error, attemptIndex) => {
+          if (error instanceof RetryableResponseError) void error.response.body?.cancel()
+          logger.debug('Retrying SolvaPay API call', {
+            operation: label,
+            attempt: attemptIndex + 1,
+            error: error.message,
+          })
+          onRetry(attemptIndex)
+          retry.onRetry?.(error, attemptIndex)
+        },
+      })
+    } catch (error) {
+      if (error instanceof RetryableResponseError) return error.response
+      if (error instanceof RequestTimeoutError) {
+        throw new SolvaPayError(`${label} ${error.message}`, { code: 'timeout' })
+      }
+      if (options.signal?.aborted) throw error
+      const message = error instanceof Error ? error.message : String(error)
+      throw new SolvaPayError(`${label} failed: ${message}`, { code: 'network_error' })
     }
   }
 
   return {
     // POST: /v1/sdk/limits
-    async checkLimits(params) {
+    async checkLimits(params, options) {
       const url = `${base}/v1/sdk/limits`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Check limits',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Check limits failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Check limits', res)
 
       const result = await res.json()
       return result
     },
 
     // POST: /v1/sdk/usages
-    async trackUsage(params) {
+    async trackUsage(params, options) {
       const url = `${base}/v1/sdk/usages`
+      // The usage endpoint dedupes on the body key, so a retried event is
+      // never billed twice; the header carries the same value.
+      const idempotencyKey =
+        params.idempotencyKey ?? options?.idempotencyKey ?? generateIdempotencyKey('usage')
+
+      const res = await send(
+        'Track usage',
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': idempotencyKey },
+          body: JSON.stringify({ ...params, idempotencyKey }),
+        },
+        options,
+      )
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
-
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Track usage failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Track usage', res)
 
       return await res.json()
     },
 
     // POST: /v1/sdk/usages/bulk
-    async trackUsageBulk(params) {
+    async trackUsageBulk(params, options) {
       const url = `${base}/v1/sdk/usages/bulk`
+      const events = params.events.map(event => ({
+        ...event,
+        idempotencyKey: event.idempotencyKey ?? generateIdempotencyKey('usage'),
+      }))
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Track usage bulk',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ ...params, events }),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Track usage bulk failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Track usage bulk', res)
 
       return await res.json()
     },
 
     // POST: /v1/sdk/customers
-    async createCustomer(params) {
+    async createCustomer(params, options) {
       const url = `${base}/v1/sdk/customers`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Create customer',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Create customer failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Create customer', res)
 
       const result = await res.json()
       return {
@@ -167,22 +396,21 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     },
 
     // PATCH: /v1/sdk/customers/{customerRef}
-    async updateCustomer(customerRef, params) {
+    async updateCustomer(customerRef, params, options) {
       const url = `${base}/v1/sdk/customers/${encodeURIComponent(customerRef)}`
 
-      const res = await fetch(url, {
-        method: 'PATCH',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Update customer',
+        url,
+        {
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Update customer failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Update customer', res)
 
       const result = await res.json()
       return {
@@ -191,7 +419,7 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     },
 
     // GET: /v1/sdk/customers/{reference} or /v1/sdk/customers?externalRef={externalRef}|email={email}
-    async getCustomer(params) {
+    async getCustomer(params, options) {
       let url
       let isByExternalRef = false
       let isByEmail = false
@@ -208,18 +436,17 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
         throw new SolvaPayError('One of customerRef, externalRef, or email must be provided')
       }
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers,
-      })
+      const res = await send(
+        'Get customer',
+        url,
+        {
+          method: 'GET',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get customer failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get customer', res)
 
       const result = await res.json()
 
@@ -248,7 +475,8 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
         customer = directCustomer || wrappedCustomer || customers[0]
 
         if (!customer) {
-          throw new SolvaPayError(`No customer found with externalRef: ${params.externalRef}`)
+          const message = `No customer found with externalRef: ${params.externalRef}`
+          throw new SolvaPayNotFoundError(message, { status: 404, body: JSON.stringify(result) })
         }
       }
 
@@ -265,86 +493,82 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     },
 
     // POST: /v1/sdk/customers/{reference}/credits
-    async assignCredits(params) {
+    async assignCredits(params, options) {
       const { customerRef, idempotencyKey, ...body } = params
       const url = `${base}/v1/sdk/customers/${encodeURIComponent(customerRef)}/credits`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-          ...headers,
-          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      const res = await send(
+        'Assign credits',
+        url,
+        {
+          method: 'POST',
+          headers: {
+            ...headers,
+            ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+          },
+          body: JSON.stringify(body),
         },
-        body: JSON.stringify(body),
-      })
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Assign credits failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Assign credits', res)
 
       return await res.json()
     },
 
     // GET: /v1/sdk/merchant
-    async getMerchant() {
+    async getMerchant(options) {
       const url = `${base}/v1/sdk/merchant`
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers,
-      })
+      const res = await send(
+        'Get merchant',
+        url,
+        {
+          method: 'GET',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get merchant failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get merchant', res)
 
       return res.json()
     },
 
     // GET: /v1/sdk/platform-config
-    async getPlatformConfig() {
+    async getPlatformConfig(options) {
       const url = `${base}/v1/sdk/platform-config`
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers,
-      })
+      const res = await send(
+        'Get platform config',
+        url,
+        {
+          method: 'GET',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get platform config failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get platform config', res)
 
       return res.json()
     },
 
     // GET: /v1/sdk/products/{productRef}
-    async getProduct(productRef) {
+    async getProduct(productRef, options) {
       const url = `${base}/v1/sdk/products/${encodeURIComponent(productRef)}`
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers,
-      })
+      const res = await send(
+        'Get product',
+        url,
+        {
+          method: 'GET',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get product failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get product', res)
 
       const result = await res.json()
       const data = (result.data as Record<string, unknown>) || {}
@@ -354,21 +578,20 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     // Product management methods (primarily for integration tests)
 
     // GET: /v1/sdk/products
-    async listProducts() {
+    async listProducts(options) {
       const url = `${base}/v1/sdk/products`
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers,
-      })
+      const res = await send(
+        'List products',
+        url,
+        {
+          method: 'GET',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`List products failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('List products', res)
 
       const result = await res.json()
       // Handle both direct array and wrapped object formats
@@ -382,124 +605,118 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     },
 
     // POST: /v1/sdk/products
-    async createProduct(params) {
+    async createProduct(params, options) {
       const url = `${base}/v1/sdk/products`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Create product',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Create product failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Create product', res)
 
       const result = await res.json()
       return result
     },
 
     // POST: /v1/sdk/products/mcp/bootstrap
-    async bootstrapMcpProduct(params) {
+    async bootstrapMcpProduct(params, options) {
       const url = `${base}/v1/sdk/products/mcp/bootstrap`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Bootstrap MCP product',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Bootstrap MCP product failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Bootstrap MCP product', res)
 
       return await res.json()
     },
 
     // PUT: /v1/sdk/products/{productRef}/mcp/plans
-    async configureMcpPlans(productRef, params) {
+    async configureMcpPlans(productRef, params, options) {
       const url = `${base}/v1/sdk/products/${productRef}/mcp/plans`
 
-      const res = await fetch(url, {
-        method: 'PUT',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Configure MCP plans',
+        url,
+        {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Configure MCP plans failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Configure MCP plans', res)
 
       return await res.json()
     },
 
     // DELETE: /v1/sdk/products/{productRef}
-    async deleteProduct(productRef) {
+    async deleteProduct(productRef, options) {
       const url = `${base}/v1/sdk/products/${productRef}`
 
-      const res = await fetch(url, {
-        method: 'DELETE',
-        headers,
-      })
+      const res = await send(
+        'Delete product',
+        url,
+        {
+          method: 'DELETE',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok && res.status !== 404) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Delete product failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok && res.status !== 404) throw await apiError('Delete product', res)
     },
 
     // POST: /v1/sdk/products/{productRef}/clone
-    async cloneProduct(productRef, overrides) {
+    async cloneProduct(productRef, overrides, options) {
       const url = `${base}/v1/sdk/products/${productRef}/clone`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(overrides || {}),
-      })
+      const res = await send(
+        'Clone product',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(overrides || {}),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Clone product failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Clone product', res)
 
       return await res.json()
     },
 
     // GET: /v1/sdk/products/{productRef}/plans
-    async listPlans(productRef) {
+    async listPlans(productRef, options) {
       const url = `${base}/v1/sdk/products/${productRef}/plans`
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers,
-      })
+      const res = await send(
+        'List plans',
+        url,
+        {
+          method: 'GET',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`List plans failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('List plans', res)
 
       const result = await res.json()
 
@@ -524,197 +741,192 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     },
 
     // POST: /v1/sdk/products/{productRef}/plans
-    async createPlan(params) {
+    async createPlan(params, options) {
       const url = `${base}/v1/sdk/products/${params.productRef}/plans`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Create plan',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Create plan failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Create plan', res)
 
       const result = await res.json()
       return result
     },
 
     // PUT: /v1/sdk/products/{productRef}/plans/{planRef}
-    async updatePlan(productRef, planRef, params) {
+    async updatePlan(productRef, planRef, params, options) {
       const url = `${base}/v1/sdk/products/${productRef}/plans/${planRef}`
 
-      const res = await fetch(url, {
-        method: 'PUT',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Update plan',
+        url,
+        {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Update plan failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Update plan', res)
 
       return await res.json()
     },
 
     // DELETE: /v1/sdk/products/{productRef}/plans/{planRef}
-    async deletePlan(productRef, planRef) {
+    async deletePlan(productRef, planRef, options) {
       const url = `${base}/v1/sdk/products/${productRef}/plans/${planRef}`
 
-      const res = await fetch(url, {
-        method: 'DELETE',
-        headers,
-      })
+      const res = await send(
+        'Delete plan',
+        url,
+        {
+          method: 'DELETE',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok && res.status !== 404) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Delete plan failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok && res.status !== 404) throw await apiError('Delete plan', res)
     },
 
     // POST: /payment-intents
-    async createPaymentIntent(params) {
+    async createPaymentIntent(params, options) {
       const idempotencyKey =
         params.idempotencyKey ||
+        options?.idempotencyKey ||
         `payment-${params.planRef}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
       const url = `${base}/v1/sdk/payment-intents`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-          ...headers,
-          'Idempotency-Key': idempotencyKey,
+      const res = await send(
+        'Create payment intent',
+        url,
+        {
+          method: 'POST',
+          headers: {
+            ...headers,
+            'Idempotency-Key': idempotencyKey,
+          },
+          body: JSON.stringify({
+            productRef: params.productRef,
+            planRef: params.planRef,
+            customerRef: params.customerRef,
+            ...(params.currency && { currency: params.currency }),
+          }),
         },
-        body: JSON.stringify({
-          productRef: params.productRef,
-          planRef: params.planRef,
-          customerRef: params.customerRef,
-          ...(params.currency && { currency: params.currency }),
-        }),
-      })
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Create payment intent failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Create payment intent', res)
 
       return await res.json()
     },
 
     // POST: /v1/sdk/payment-intents (purpose: credit_topup)
-    async createTopupPaymentIntent(params) {
+    async createTopupPaymentIntent(params, options) {
       const idempotencyKey =
-        params.idempotencyKey || `topup-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+        params.idempotencyKey ||
+        options?.idempotencyKey ||
+        `topup-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
       const url = `${base}/v1/sdk/payment-intents`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-          ...headers,
-          'Idempotency-Key': idempotencyKey,
+      const res = await send(
+        'Create topup payment intent',
+        url,
+        {
+          method: 'POST',
+          headers: {
+            ...headers,
+            'Idempotency-Key': idempotencyKey,
+          },
+          body: JSON.stringify({
+            customerRef: params.customerRef,
+            purpose: 'credit_topup',
+            amount: params.amount,
+            currency: params.currency,
+            description: params.description,
+            ...(params.autoRecharge ? { autoRecharge: params.autoRecharge } : {}),
+          }),
         },
-        body: JSON.stringify({
-          customerRef: params.customerRef,
-          purpose: 'credit_topup',
-          amount: params.amount,
-          currency: params.currency,
-          description: params.description,
-          ...(params.autoRecharge ? { autoRecharge: params.autoRecharge } : {}),
-        }),
-      })
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Create topup payment intent failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Create topup payment intent', res)
 
       return await res.json()
     },
 
     // POST: /v1/sdk/payment-intents/{paymentIntentId}/process
-    async processPaymentIntent(params) {
+    async processPaymentIntent(params, options) {
       const url = `${base}/v1/sdk/payment-intents/${params.paymentIntentId}/process`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-          ...headers,
-          'Content-Type': 'application/json',
+      const res = await send(
+        'Process payment',
+        url,
+        {
+          method: 'POST',
+          headers: {
+            ...headers,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            productRef: params.productRef,
+            customerRef: params.customerRef,
+            planRef: params.planRef,
+          }),
         },
-        body: JSON.stringify({
-          productRef: params.productRef,
-          customerRef: params.customerRef,
-          planRef: params.planRef,
-        }),
-      })
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Process payment failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Process payment', res)
 
       const result = await res.json()
       return result
     },
 
     // POST: /v1/sdk/payment-intents/{paymentIntentId}/business-details
-    async attachBusinessDetails(params) {
+    async attachBusinessDetails(params, options) {
       const url = `${base}/v1/sdk/payment-intents/${params.paymentIntentId}/business-details`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          isBusiness: params.isBusiness,
-          ...(params.businessName !== undefined && { businessName: params.businessName }),
-          ...(params.country !== undefined && { country: params.country }),
-          ...(params.taxId !== undefined && { taxId: params.taxId }),
-          ...(params.taxIdType !== undefined && { taxIdType: params.taxIdType }),
-          ...(params.customerRef !== undefined && { customerRef: params.customerRef }),
-        }),
-      })
+      const res = await send(
+        'Attach business details',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            isBusiness: params.isBusiness,
+            ...(params.businessName !== undefined && { businessName: params.businessName }),
+            ...(params.country !== undefined && { country: params.country }),
+            ...(params.taxId !== undefined && { taxId: params.taxId }),
+            ...(params.taxIdType !== undefined && { taxIdType: params.taxIdType }),
+            ...(params.customerRef !== undefined && { customerRef: params.customerRef }),
+          }),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(
-          `Attach business details failed (${res.status}): ${error}`,
-          { status: res.status },
-        )
-      }
+      if (!res.ok) throw await apiError('Attach business details', res)
 
       return await res.json()
     },
 
     // POST: /v1/sdk/purchases/{purchaseRef}/cancel
-    async cancelPurchase(params) {
+    async cancelPurchase(params, options) {
       const url = `${base}/v1/sdk/purchases/${params.purchaseRef}/cancel`
 
       // Prepare request options
-      const requestOptions: RequestInit = {
+      const requestOptions: RequestInit & { headers: Record<string, string> } = {
         method: 'POST',
         headers,
       }
@@ -724,25 +936,12 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
         requestOptions.body = JSON.stringify({ reason: params.reason })
       }
 
-      const res = await fetch(url, requestOptions)
+      const res = await send('Cancel purchase', url, requestOptions, options)
 
       if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-
-        if (res.status === 404) {
-          throw new SolvaPayError(`Purchase not found: ${error}`, { status: 404 })
-        }
-
-        if (res.status === 400) {
-          throw new SolvaPayError(
-            `Purchase cannot be cancelled or does not belong to provider: ${error}`,
-            { status: 400 },
-          )
-        }
-
-        throw new SolvaPayError(`Cancel purchase failed (${res.status}): ${error}`, {
-          status: res.status,
+        throw await apiError('Cancel purchase', res, {
+          404: body => `Purchase not found: ${body}`,
+          400: body => `Purchase cannot be cancelled or does not belong to provider: ${body}`,
         })
       }
 
@@ -753,7 +952,7 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
       try {
         responseData = JSON.parse(responseText)
       } catch (parseError) {
-        log(`❌ Failed to parse response as JSON: ${parseError}`)
+        logger.debug('SolvaPay API response is not JSON', { error: parseError })
         throw new SolvaPayError(
           `Invalid JSON response from cancel purchase endpoint: ${responseText.substring(0, 200)}`,
         )
@@ -761,7 +960,7 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
 
       // Validate response structure
       if (!responseData || typeof responseData !== 'object') {
-        log(`❌ Invalid response structure: ${JSON.stringify(responseData)}`)
+        logger.debug('Unexpected SolvaPay API response', { response: responseData })
         throw new SolvaPayError(`Invalid response structure from cancel purchase endpoint`)
       }
 
@@ -779,7 +978,7 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
 
       // Check if response has expected fields
       if (!result || typeof result !== 'object') {
-        log(`❌ Invalid purchase data in response. Full response:`, responseData)
+        logger.debug('SolvaPay API response has no purchase', { response: responseData })
         throw new SolvaPayError(`Invalid purchase data in cancel purchase response`)
       }
 
@@ -787,28 +986,23 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     },
 
     // POST: /v1/sdk/purchases/{purchaseRef}/reactivate
-    async reactivatePurchase(params) {
+    async reactivatePurchase(params, options) {
       const url = `${base}/v1/sdk/purchases/${params.purchaseRef}/reactivate`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-      })
+      const res = await send(
+        'Reactivate purchase',
+        url,
+        {
+          method: 'POST',
+          headers,
+        },
+        options,
+      )
 
       if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-
-        if (res.status === 404) {
-          throw new SolvaPayError(`Purchase not found: ${error}`, { status: 404 })
-        }
-
-        if (res.status === 400) {
-          throw new SolvaPayError(`Purchase cannot be reactivated: ${error}`, { status: 400 })
-        }
-
-        throw new SolvaPayError(`Reactivate purchase failed (${res.status}): ${error}`, {
-          status: res.status,
+        throw await apiError('Reactivate purchase', res, {
+          404: body => `Purchase not found: ${body}`,
+          400: body => `Purchase cannot be reactivated: ${body}`,
         })
       }
 
@@ -818,14 +1012,14 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
       try {
         responseData = JSON.parse(responseText)
       } catch (parseError) {
-        log(`❌ Failed to parse response as JSON: ${parseError}`)
+        logger.debug('SolvaPay API response is not JSON', { error: parseError })
         throw new SolvaPayError(
           `Invalid JSON response from reactivate purchase endpoint: ${responseText.substring(0, 200)}`,
         )
       }
 
       if (!responseData || typeof responseData !== 'object') {
-        log(`❌ Invalid response structure: ${JSON.stringify(responseData)}`)
+        logger.debug('Unexpected SolvaPay API response', { response: responseData })
         throw new SolvaPayError(`Invalid response structure from reactivate purchase endpoint`)
       }
 
@@ -839,7 +1033,7 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
       }
 
       if (!result || typeof result !== 'object') {
-        log(`❌ Invalid purchase data in response. Full response:`, responseData)
+        logger.debug('SolvaPay API response has no purchase', { response: responseData })
         throw new SolvaPayError(`Invalid purchase data in reactivate purchase response`)
       }
 
@@ -847,176 +1041,216 @@ export function createSolvaPayClient(opts: ServerClientOptions): SolvaPayClient
     },
 
     // POST: /v1/sdk/user-info
-    async getUserInfo(params) {
+    async getUserInfo(params, options) {
       const url = `${base}/v1/sdk/user-info`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Get user info',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get user info failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get user info', res)
 
       return await res.json()
     },
 
     // GET: /v1/sdk/customers/:customerRef/balance
-    async getCustomerBalance(params) {
+    async getCustomerBalance(params, options) {
       const url = `${base}/v1/sdk/customers/${params.customerRef}/balance`
 
-      const res = await fetch(url, {
-        method: 'GET',
-        headers,
-      })
+      const res = await send(
+        'Get customer balance',
+        url,
+        {
+          method: 'GET',
+          headers,
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get customer balance failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get customer balance', res)
 
       return await res.json()
     },
 
     // POST: /v1/sdk/checkout-sessions
-    async createCheckoutSession(params) {
+    async createCheckoutSession(params, options) {
       const url = `${base}/v1/sdk/checkout-sessions`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Create checkout session',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Create checkout session failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Create checkout session', res)
 
       const result = await res.json()
       return result
     },
 
     // POST: /v1/sdk/customers/customer-sessions
-    async createCustomerSession(params) {
+    async createCustomerSession(params, options) {
       const url = `${base}/v1/sdk/customers/customer-sessions`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Create customer session',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Create customer session failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Create customer session', res)
 
       const result = await res.json()
       return result
     },
 
     // POST: /v1/sdk/activate
-    async activatePlan(params) {
+    async activatePlan(params, options) {
       const url = `${base}/v1/sdk/activate`
 
-      const res = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(params),
-      })
+      const res = await send(
+        'Activate plan',
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Activate plan failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Activate plan', res)
 
       return await res.json()
     },
 
-    async getPaymentMethod(params) {
+    async getPaymentMethod(params, options) {
       const url = new URL(`${base}/v1/sdk/payment-method`)
       url.searchParams.set('customerRef', params.customerRef)
 
-      const res = await fetch(url.toString(), { method: 'GET', headers })
+      const res = await send(
+        'Get payment method',
+        url.toString(),
+        { method: 'GET', headers },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get payment method failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get payment method', res)
 
       return await res.json()
     },
 
-    async getAutoRecharge(params) {
+    async getAutoRecharge(params, options) {
       const url = new URL(`${base}/v1/sdk/auto-recharge`)
       url.searchParams.set('customerRef', params.customerRef)
 
-      const res = await fetch(url.toString(), { method: 'GET', headers })
+      const res = await send(
+        'Get auto-recharge',
+        url.toString(),
+        { method: 'GET', headers },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Get auto-recharge failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Get auto-recharge', res)
 
       return await res.json()
     },
 
-    async saveAutoRecharge(params) {
-      const res = await fetch(`${base}/v1/sdk/auto-recharge`, {
-        method: 'PUT',
-        headers,
-        body: JSON.stringify(params),
-      })
+    async saveAutoRecharge(params, options) {
+      const res = await send(
+        'Save auto-recharge',
+        `${base}/v1/sdk/auto-recharge`,
+        {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Save auto-recharge failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Save auto-recharge', res)
 
       return await res.json()
     },
 
-    async disableAutoRecharge(params) {
+    async disableAutoRecharge(params, options) {
       const url = new URL(`${base}/v1/sdk/auto-recharge`)
       url.searchParams.set('customerRef', params.customerRef)
 
-      const res = await fetch(url.toString(), { method: 'DELETE', headers })
+      const res = await send(
+        'Disable auto-recharge',
+        url.toString(),
+        { method: 'DELETE', headers },
+        options,
+      )
 
-      if (!res.ok) {
-        const error = await res.text()
-        log(`❌ API Error: ${res.status} - ${error}`)
-        throw new SolvaPayError(`Disable auto-recharge failed (${res.status}): ${error}`, {
-          status: res.status,
-        })
-      }
+      if (!res.ok) throw await apiError('Disable auto-recharge', res)
+
+      return await res.json()
+    },
+
+    async getSpendingLimits(params, options) {
+      const url = new URL(`${base}/v1/sdk/spending-limits`)
+      url.searchParams.set('customerRef', params.customerRef)
+
+      const res = await send(
+        'Get spending limits',
+        url.toString(),
+        { method: 'GET', headers },
+        options,
+      )
+
+      if (!res.ok) throw await apiError('Get spending limits', res)
+
+      return await res.json()
+    },
+
+    async saveSpendingLimits(params, options) {
+      const res = await send(
+        'Save spending limits',
+        `${base}/v1/sdk/spending-limits`,
+        {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify(params),
+        },
+        options,
+      )
+
+      if (!res.ok) throw await apiError('Save spending limits', res)
+
+      return await res.json()
+    },
+
+    async disableSpendingLimits(params, options) {
+      const url = new URL(`${base}/v1/sdk/spending-limits`)
+      url.searchParams.set('customerRef', params.customerRef)
+
+      const res = await send(
+        'Disable spending limits',
+        url.toString(),
+        { method: 'DELETE', headers },
+        options,
+      )
+
+      if (!res.ok) throw await apiError('Disable spending limits', res)
 
       return await res.json()
     },
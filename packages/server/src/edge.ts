@@ -5,8 +5,20 @@
  * Automatically selected when running in edge runtimes (Vercel Edge, Cloudflare Workers, Deno, etc.)
  */
 
-import { SolvaPayError } from '@solvapay/core'
 import type { WebhookEvent } from './types/webhook'
+import {
+  createWebhookRouterImpl,
+  parseWebhookBody,
+  parseWebhookSignature,
+  resolveWebhookSecrets,
+  WebhookVerificationError,
+} from './webhooks'
+import type {
+  VerifyWebhookParams,
+  WebhookRouter,
+  WebhookRouterOptions,
+  WebhookVerificationResult,
+} from './webhooks'
 
 // Re-export the main client which is already edge-compatible (uses fetch)
 export { createSolvaPayClient } from './client'
@@ -22,6 +34,11 @@ export type {
   PayableGateResult,
   PayablePaywallResult,
   PayableAllowResult,
+  FastifyPayableRoute,
+  FastifyPayablePlugin,
+  SolvaPayFastifyInstance,
+  SolvaPayFastifyRequest,
+  EntitlementGuard,
 } from './factory'
 
 // Export PaywallError for error handling
@@ -38,21 +55,117 @@ export { buildPaywallGate } from './paywall-gate'
 export type { PaywallState } from './paywall-state'
 export type { PaywallDecision } from './types/paywall'
 
+// Variable-unit metering — handlers return `withUnits(data, units)` to
+// bill more (or less) than one unit per call.
+export { withUnits, isMeteredResult } from './units'
+export type { MeteredResult, UsageUnits } from './units'
+
+// Plan entitlements — feature flags and limits that gate access without
+// recording usage.
+export { EntitlementError } from './entitlements'
+export type {
+  Entitlements,
+  EntitlementsSnapshot,
+  EntitlementsOptions,
+  EntitlementPlan,
+  EntitlementRequirement,
+  EntitlementHandlerContext,
+  RequireEntitlementOptions,
+} from './entitlements'
+
+// Per-customer rate limits (`payable({ rateLimit })`).
+export { PLAN_RATE_LIMIT_KEYS, parseRateLimitRate } from './rate-limit'
+export type { RateLimitOptions, RateLimitRate } from './rate-limit'
+
+// Optional OpenTelemetry instrumentation (`createSolvaPay({ telemetry })`).
+export type {
+  SolvaPayTelemetryOptions,
+  TelemetryAttributes,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+} from './telemetry'
+
+// Pluggable paywall state backends (limits cache + customer-ref mapping).
+export {
+  createMemoryPaywallStore,
+  createRedisPaywallStore,
+  createKvPaywallStore,
+  createDurableObjectPaywallStore,
+  PaywallStoreDurableObject,
+} from './store'
+export type {
+  PaywallStore,
+  PaywallStoreSetOptions,
+  MemoryPaywallStoreOptions,
+  RedisCommand,
+  RedisPaywallStoreOptions,
+  KvNamespaceLike,
+  KvPaywallStoreOptions,
+  DurableObjectNamespaceLike,
+  DurableObjectStubLike,
+  DurableObjectStorageLike,
+  DurableObjectPaywallStoreOptions,
+} from './store'
+
+// Opt-in batching (`usageBuffer`) and durable replay (`usageOutbox`) for
+// paywall usage events.
+export {
+  createUsageBuffer,
+  createUsageOutbox,
+  isRetryableUsageError,
+  createMemoryUsageOutboxStorage,
+  createFileUsageOutboxStorage,
+  createKvUsageOutboxStorage,
+} from './usage'
+export type {
+  UsageBuffer,
+  UsageBufferOptions,
+  UsageOutbox,
+  UsageOutboxEntry,
+  UsageOutboxMetrics,
+  UsageOutboxOptions,
+  UsageOutboxReplayResult,
+  UsageOutboxStorage,
+  MemoryUsageOutboxStorageOptions,
+  FileUsageOutboxStorageOptions,
+  UsageOutboxFileSystem,
+  KvUsageOutboxNamespaceLike,
+  KvUsageOutboxStorageOptions,
+} from './usage'
+
 // Export types
 export type {
   components,
+  paths,
   LimitActivationBalance,
   LimitActivationProduct,
   LimitPlanSummary,
   LimitResponseWithPlan,
   SolvaPayClient,
+  SolvaPayRequestOptions,
+  ClientRetryOptions,
   PayableOptions,
   HttpAdapterOptions,
   NextAdapterOptions,
+  PayableRouteOptions,
+  HonoAdapterOptions,
+  FastifyAdapterOptions,
+  FastifyPayablePluginOptions,
+  KoaAdapterOptions,
+  EstimatedUnits,
   PaywallArgs,
+  PaywallDecisionMeter,
+  PaywallMeter,
   PaywallMetadata,
   PaywallStructuredContent,
+  ReserveOptions,
   RetryOptions,
+  UsageMeterType,
+  UsageReservation,
+  UsageReservationState,
   WebhookEvent,
   WebhookEventType,
   WebhookEventForType,
@@ -89,6 +202,8 @@ export { withRetry } from './utils'
 // These work in edge runtimes as they use standard Web API Request
 export {
   getAuthenticatedUserCore,
+  verifyJwt,
+  JwtVerificationError,
   syncCustomerCore,
   getCustomerBalanceCore,
   createPaymentIntentCore,
@@ -112,6 +227,9 @@ export {
   getAutoRechargeCore,
   saveAutoRechargeCore,
   disableAutoRechargeCore,
+  getSpendingLimitsCore,
+  saveSpendingLimitsCore,
+  disableSpendingLimitsCore,
   isErrorResult,
   handleRouteError,
 } from './helpers'
@@ -121,23 +239,39 @@ export type {
   CustomerBalanceResult,
   PurchaseCheckResult,
   GetUsageResult,
+  QueuedTrackUsageResult,
+  GetAuthenticatedUserOptions,
+  JwtVerificationOptions,
+  JwtClaimMapping,
+  JwtClaimSelector,
+  JwtVerificationFailureReason,
 } from './helpers'
 
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let mismatch = 0
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return mismatch === 0
+}
+
 /**
  * Verify webhook signature using edge-compatible Web Crypto API.
  *
  * The backend sends an `SV-Signature` header in the format `t={timestamp},v1={hmac}`.
  * The HMAC is SHA-256 over `"{timestamp}.{rawBody}"` keyed by the full webhook secret
- * (including the `whsec_` prefix). Signatures older than 5 minutes are rejected to
- * prevent replay attacks.
+ * (including the `whsec_` prefix). Signatures older than `toleranceSec` (default 5
+ * minutes) are rejected to prevent replay attacks.
  *
  * Works in: Vercel Edge Functions, Cloudflare Workers, Deno, Supabase Edge Functions.
  *
  * @param params.body - Raw webhook request body (string)
  * @param params.signature - Value of the `SV-Signature` header
- * @param params.secret - Webhook signing secret (`whsec_…`)
+ * @param params.secret - Webhook signing secret (`whsec_…`), or a list of secrets during rotation
+ * @param params.toleranceSec - Maximum signature age in seconds (default: 300, `0` disables)
  * @returns Parsed and typed {@link WebhookEvent} object
- * @throws {SolvaPayError} If signature is missing, malformed, expired, or invalid
+ * @throws {WebhookVerificationError} If signature is missing, malformed, expired, or invalid, or the body is not JSON
  *
  * @example
  * ```typescript
@@ -149,67 +283,80 @@ export type {
  * const event = await verifyWebhook({ body, signature, secret });
  * ```
  */
-function timingSafeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false
-  let mismatch = 0
-  for (let i = 0; i < a.length; i++) {
-    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i)
-  }
-  return mismatch === 0
+export async function verifyWebhook(params: VerifyWebhookParams): Promise<WebhookEvent> {
+  return (await verifyWebhookSignature(params)).event
 }
 
-export async function verifyWebhook({
+/**
+ * Verify a webhook delivery with Web Crypto and report which secret
+ * matched. Same checks as {@link verifyWebhook}.
+ *
+ * @since 2.1.0
+ */
+export async function verifyWebhookSignature({
   body,
   signature,
   secret,
-}: {
-  body: string
-  signature: string
-  secret: string
-}): Promise<WebhookEvent> {
-  const toleranceSec = 300
-  if (!signature) throw new SolvaPayError('Missing webhook signature')
-
-  const parts = signature.split(',')
-  const tPart = parts.find(p => p.startsWith('t='))
-  const v1Part = parts.find(p => p.startsWith('v1='))
-  if (!tPart || !v1Part) {
-    throw new SolvaPayError('Malformed webhook signature')
-  }
+  toleranceSec,
+}: VerifyWebhookParams): Promise<WebhookVerificationResult> {
+  const secrets = resolveWebhookSecrets(secret)
+  const { timestamp, signatures } = parseWebhookSignature(signature, toleranceSec)
 
-  const timestamp = parseInt(tPart.slice(2), 10)
-  const receivedHmac = v1Part.slice(3)
-  if (Number.isNaN(timestamp) || !receivedHmac) {
-    throw new SolvaPayError('Malformed webhook signature')
-  }
+  const enc = new TextEncoder()
+  for (let secretIndex = 0; secretIndex < secrets.length; secretIndex++) {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      enc.encode(secrets[secretIndex]),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    )
+    const sigBuf = await crypto.subtle.sign('HMAC', key, enc.encode(`${timestamp}.${body}`))
+    const expectedHmac = Array.from(new Uint8Array(sigBuf))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('')
 
-  if (toleranceSec > 0) {
-    const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp)
-    if (age > toleranceSec) {
-      throw new SolvaPayError('Webhook signature timestamp too old')
+    if (signatures.some(receivedHmac => timingSafeEqual(expectedHmac, receivedHmac))) {
+      return { event: parseWebhookBody(body), secretIndex, timestamp }
     }
   }
 
-  const enc = new TextEncoder()
-  const key = await crypto.subtle.importKey(
-    'raw',
-    enc.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign'],
-  )
-  const sigBuf = await crypto.subtle.sign('HMAC', key, enc.encode(`${timestamp}.${body}`))
-  const expectedHmac = Array.from(new Uint8Array(sigBuf))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
-
-  if (!timingSafeEqual(expectedHmac, receivedHmac)) {
-    throw new SolvaPayError('Invalid webhook signature')
-  }
+  throw new WebhookVerificationError('mismatch', 'Invalid webhook signature')
+}
 
-  try {
-    return JSON.parse(body) as WebhookEvent
-  } catch {
-    throw new SolvaPayError('Invalid webhook payload: body is not valid JSON')
-  }
+/**
+ * Create a webhook router bound to the Web Crypto {@link verifyWebhook}.
+ * Same API as the Node entry's `createWebhookRouter`.
+ *
+ * @example
+ * ```typescript
+ * // Supabase Edge Function
+ * import { createWebhookRouter } from '@solvapay/server/edge'
+ *
+ * const webhooks = createWebhookRouter().on('purchase.created', async event => {
+ *   await grantAccess(event.data.object)
+ * })
+ *
+ * Deno.serve(webhooks.fetch)
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createWebhookRouter(options: WebhookRouterOptions = {}): WebhookRouter {
+  return createWebhookRouterImpl(options, verifyWebhookSignature)
 }
+
+export { WebhookVerificationError } from './webhooks'
+export type {
+  VerifyWebhookParams,
+  WebhookVerificationResult,
+  WebhookVerificationFailureReason,
+  WebhookRouter,
+  WebhookRouterOptions,
+  WebhookRouterResult,
+  WebhookHandler,
+  WebhookAnyHandler,
+  WebhookHandlerContext,
+  WebhookExpressRequest,
+  WebhookExpressResponse,
+} from './webhooks'
@@ -0,0 +1,384 @@
+/**
+ * Plan entitlements.
+ *
+ * Feature flags and plan limits read from the plan snapshot on a
+ * customer's active purchases. Checking them never records usage:
+ * `entitlements()` and `requireEntitlement()` answer "is this customer
+ * on Pro?" or "how many seats does their plan allow?", while `payable`
+ * remains the way to meter calls against an allowance.
+ */
+
+import { SolvaPayError } from '@solvapay/core'
+import type { CustomerResponseMapped, SolvaPayClient } from './types'
+import { PaywallStoreKeys } from './store'
+import type { PaywallStore } from './store'
+
+/**
+ * A plan the customer holds an active purchase of.
+ *
+ * @since 2.1.0
+ */
+export interface EntitlementPlan {
+  /** Plan reference, e.g. `pln_pro`. */
+  reference?: string
+  name?: string
+  productRef?: string
+  /** Reference of the purchase that grants the plan. */
+  purchaseRef: string
+  planType?: string
+  billingCycle?: string | null
+}
+
+/**
+ * What an entitlement check requires:
+ *
+ * - a feature key — shorthand for `{ feature }`;
+ * - an object whose fields must all hold: every listed `feature`, any
+ *   one of the listed `plan`s (reference or name), and each `limits`
+ *   key at least the given value;
+ * - a predicate over the customer's {@link Entitlements}.
+ *
+ * @since 2.1.0
+ */
+export type EntitlementRequirement =
+  | string
+  | {
+      feature?: string | string[]
+      plan?: string | string[]
+      limits?: Record<string, number>
+    }
+  | ((entitlements: Entitlements) => boolean)
+
+/**
+ * Plain-data view of a customer's entitlements, as cached in the
+ * paywall store.
+ *
+ * @since 2.1.0
+ */
+export interface EntitlementsSnapshot {
+  /** Backend customer reference (`cus_…`). */
+  customerRef: string
+  /** Plans the customer holds, most recent purchase first. */
+  plans: EntitlementPlan[]
+  /**
+   * Feature flags merged across every active plan: `true` wins over
+   * `false`, and the larger number wins.
+   */
+  features: Record<string, unknown>
+  /** Numeric plan limits (seats, projects, …) merged the same way. */
+  limits: Record<string, number>
+}
+
+/**
+ * A customer's entitlements with typed accessors.
+ *
+ * @example
+ * ```typescript
+ * const entitlements = await solvaPay.entitlements(customerRef)
+ * if (entitlements.has('sso')) enableSso()
+ * const seats = entitlements.limit('seats') ?? 1
+ * ```
+ *
+ * @since 2.1.0
+ */
+export interface Entitlements extends EntitlementsSnapshot {
+  /**
+   * Whether a feature is enabled: `true`, a positive number, a
+   * non-empty string, or any object value.
+   */
+  has(feature: string): boolean
+  /** Raw value of a feature flag, or of a limit when no feature has the key. */
+  get<T = unknown>(key: string): T | undefined
+  /** Numeric plan limit, if the plan sets one. */
+  limit(key: string): number | undefined
+  /** Whether any active plan matches `plan` by reference or (case-insensitive) name. */
+  onPlan(plan: string): boolean
+  /** Whether `requirement` holds. */
+  check(requirement: EntitlementRequirement): boolean
+  /**
+   * Throw an {@link EntitlementError} unless `requirement` holds.
+   * Adapters answer it with `403`.
+   */
+  require(requirement: EntitlementRequirement): void
+}
+
+/**
+ * Options for `solvaPay.entitlements()`.
+ *
+ * @since 2.1.0
+ */
+export interface EntitlementsOptions {
+  /** Only count purchases of this product. */
+  product?: string
+  /** Skip the cache and read the customer's purchases again. */
+  fresh?: boolean
+}
+
+/**
+ * Options for `solvaPay.requireEntitlement()`.
+ *
+ * @since 2.1.0
+ */
+export interface RequireEntitlementOptions {
+  /** Only count purchases of this product. */
+  product?: string
+  /** Alias for `product`. */
+  productRef?: string
+  /** Extract the customer reference from the adapter's request or arguments. */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getCustomerRef?: (context: any) => string | Promise<string>
+}
+
+/**
+ * Context passed as the second argument to `requireEntitlement`
+ * handlers.
+ *
+ * @since 2.1.0
+ */
+export interface EntitlementHandlerContext {
+  customerRef: string
+  entitlements: Entitlements
+  /** The framework's request bag, as on `ProtectHandlerContext.extra`. */
+  extra?: unknown
+}
+
+/**
+ * Thrown when a customer lacks an entitlement. Extends `SolvaPayError`
+ * with `status: 403` and `code: 'entitlement_required'`; the adapters
+ * answer it with `403` and {@link EntitlementError.toClientPayload}, or
+ * with a narrated tool result on MCP.
+ *
+ * Throw it from any handler — `payable` ones included — to deny a call
+ * the same way `requireEntitlement` does.
+ *
+ * @since 2.1.0
+ */
+export class EntitlementError extends SolvaPayError {
+  readonly customerRef?: string
+  readonly feature?: string[]
+  readonly plan?: string[]
+
+  constructor(
+    message: string,
+    details: { customerRef?: string; feature?: string[]; plan?: string[] } = {},
+  ) {
+    super(message, { status: 403, code: 'entitlement_required' })
+    this.name = 'EntitlementError'
+    this.customerRef = details.customerRef
+    this.feature = details.feature
+    this.plan = details.plan
+  }
+
+  /** JSON body for HTTP adapters and MCP `structuredContent`. */
+  toClientPayload(): Record<string, unknown> {
+    return {
+      success: false,
+      error: 'Entitlement required',
+      kind: 'entitlement_required',
+      message: this.message,
+      ...(this.feature ? { feature: this.feature } : {}),
+      ...(this.plan ? { plan: this.plan } : {}),
+    }
+  }
+}
+
+type Purchase = NonNullable<CustomerResponseMapped['purchases']>[number]
+
+interface PlanSnapshotFields {
+  reference?: string
+  name?: string | null
+  planType?: string
+  billingCycle?: string | null
+  features?: Record<string, unknown> | string[] | null
+  limits?: Record<string, unknown> | null
+}
+
+const asList = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value]
+
+function mergeFlag(current: unknown, next: unknown): unknown {
+  if (current === undefined) return next
+  if (typeof current === 'boolean' && typeof next === 'boolean') return current || next
+  if (typeof current === 'number' && typeof next === 'number') return Math.max(current, next)
+  return current
+}
+
+/**
+ * Derive entitlements from a customer record. Counts active plan
+ * purchases only — credit top-ups carry no plan.
+ *
+ * @internal
+ */
+export function buildEntitlementsSnapshot(
+  customer: CustomerResponseMapped,
+  options: { product?: string } = {},
+): EntitlementsSnapshot {
+  const purchases = (customer.purchases ?? [])
+    .filter((purchase: Purchase) => purchase.status === 'active' && purchase.planSnapshot)
+    .filter(purchase => !options.product || purchase.productRef === options.product)
+    .sort((a, b) => (b.startDate ?? '').localeCompare(a.startDate ?? ''))
+
+  const snapshot: EntitlementsSnapshot = {
+    customerRef: customer.customerRef,
+    plans: [],
+    features: {},
+    limits: {},
+  }
+
+  for (const purchase of purchases) {
+    const plan = purchase.planSnapshot as PlanSnapshotFields
+    snapshot.plans.push({
+      reference: plan.reference ?? purchase.planRef,
+      ...(plan.name ? { name: plan.name } : {}),
+      ...(purchase.productRef ? { productRef: purchase.productRef } : {}),
+      purchaseRef: purchase.reference,
+      ...(plan.planType ? { planType: plan.planType } : {}),
+      ...(plan.billingCycle !== undefined ? { billingCycle: plan.billingCycle } : {}),
+    })
+
+    // Plans that list their features by name enable each of them.
+    const features = Array.isArray(plan.features)
+      ? Object.fromEntries(plan.features.map(feature => [feature, true]))
+      : (plan.features ?? {})
+    for (const [key, value] of Object.entries(features)) {
+      snapshot.features[key] = mergeFlag(snapshot.features[key], value)
+    }
+    for (const [key, value] of Object.entries(plan.limits ?? {})) {
+      if (typeof value !== 'number') continue
+      snapshot.limits[key] = Math.max(snapshot.limits[key] ?? value, value)
+    }
+  }
+
+  return snapshot
+}
+
+function isEnabled(value: unknown): boolean {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value > 0
+  if (typeof value === 'string') return value.length > 0
+  return typeof value === 'object' && value !== null
+}
+
+function describeRequirement(requirement: EntitlementRequirement): {
+  feature?: string[]
+  plan?: string[]
+} {
+  if (typeof requirement === 'string') return { feature: [requirement] }
+  if (typeof requirement === 'function') return {}
+  const feature = asList(requirement.feature)
+  const plan = asList(requirement.plan)
+  return {
+    ...(feature.length ? { feature } : {}),
+    ...(plan.length ? { plan } : {}),
+  }
+}
+
+/**
+ * Attach the accessors to a plain snapshot.
+ *
+ * @internal
+ */
+export function toEntitlements(snapshot: EntitlementsSnapshot): Entitlements {
+  const entitlements: Entitlements = {
+    ...snapshot,
+
+    has(feature) {
+      return isEnabled(snapshot.features[feature])
+    },
+
+    get<T = unknown>(key: string) {
+      return (key in snapshot.features ? snapshot.features[key] : snapshot.limits[key]) as
+        | T
+        | undefined
+    },
+
+    limit(key) {
+      return snapshot.limits[key]
+    },
+
+    onPlan(plan) {
+      const name = plan.toLowerCase()
+      return snapshot.plans.some(
+        held => held.reference === plan || held.name?.toLowerCase() === name,
+      )
+    },
+
+    check(requirement) {
+      if (typeof requirement === 'string') return entitlements.has(requirement)
+      if (typeof requirement === 'function') return requirement(entitlements)
+      const plans = asList(requirement.plan)
+      return (
+        asList(requirement.feature).every(feature => entitlements.has(feature)) &&
+        (plans.length === 0 || plans.some(plan => entitlements.onPlan(plan))) &&
+        Object.entries(requirement.limits ?? {}).every(
+          ([key, atLeast]) => (snapshot.limits[key] ?? -Infinity) >= atLeast,
+        )
+      )
+    },
+
+    require(requirement) {
+      if (entitlements.check(requirement)) return
+      const details = describeRequirement(requirement)
+      const what = [
+        details.feature && `feature ${details.feature.map(f => `"${f}"`).join(', ')}`,
+        details.plan && `plan ${details.plan.map(p => `"${p}"`).join(' or ')}`,
+      ]
+        .filter(Boolean)
+        .join(' and ')
+      throw new EntitlementError(
+        what ? `Your plan does not include ${what}.` : 'Your plan does not include this feature.',
+        { customerRef: snapshot.customerRef, ...details },
+      )
+    },
+  }
+  return entitlements
+}
+
+/**
+ * Cached entitlement lookups for one `createSolvaPay` instance.
+ * Snapshots live in the paywall store for `ttlMs`, so replicas sharing
+ * a store share them too; concurrent lookups for the same customer
+ * share one `getCustomer` call.
+ *
+ * @internal
+ */
+export function createEntitlementResolver(deps: {
+  apiClient: SolvaPayClient
+  store: PaywallStore
+  ensureCustomer: (customerRef: string) => Promise<string>
+  ttlMs: number
+}): (customerRef: string, options?: EntitlementsOptions) => Promise<Entitlements> {
+  const inFlight = new Map<string, Promise<EntitlementsSnapshot>>()
+
+  const load = async (key: string, customerRef: string, product?: string) => {
+    const backendRef = customerRef.startsWith('cus_')
+      ? customerRef
+      : await deps.ensureCustomer(customerRef)
+    const customer = await deps.apiClient.getCustomer({ customerRef: backendRef })
+    const snapshot = buildEntitlementsSnapshot(customer, { product })
+    if (deps.ttlMs > 0) {
+      await deps.store.set(key, snapshot, { ttlMs: deps.ttlMs })
+    }
+    return snapshot
+  }
+
+  return async (customerRef, options = {}) => {
+    // Anonymous callers hold no purchases; don't create a customer for them.
+    if (!customerRef || customerRef === 'anonymous') {
+      return toEntitlements({ customerRef: 'anonymous', plans: [], features: {}, limits: {} })
+    }
+
+    const key = PaywallStoreKeys.entitlements(customerRef, options.product ?? '*')
+    if (!options.fresh) {
+      const cached = await deps.store.get<EntitlementsSnapshot>(key)
+      if (cached) return toEntitlements(cached)
+    }
+
+    let pending = inFlight.get(key)
+    if (!pending) {
+      pending = load(key, customerRef, options.product).finally(() => inFlight.delete(key))
+      inFlight.set(key, pending)
+    }
+    return toEntitlements(await pending)
+  }
+}
@@ -14,6 +14,11 @@ import type {
   NextAdapterOptions,
   McpAdapterOptions,
   McpToolExtra,
+  HonoAdapterOptions,
+  FastifyAdapterOptions,
+  FastifyPayablePluginOptions,
+  KoaAdapterOptions,
+  PayableRouteOptions,
   CustomerResponseMapped,
   McpBootstrapRequest,
   McpBootstrapResponse,
@@ -25,14 +30,50 @@ import type {
   TrackUsageBulkResponse,
   AssignCreditsRequest,
   AssignCreditsResponse,
+  ReserveOptions,
+  UsageMeterType,
+  UsageReservation,
 } from './types'
 import { createSolvaPayClient } from './client'
-import { PaywallError, SolvaPayPaywall, paywallErrorToClientPayload } from './paywall'
-import { HttpAdapter, NextAdapter, McpAdapter, createAdapterHandler } from './adapters'
-import { SolvaPayError, getSolvaPayConfig } from '@solvapay/core'
+import type { ServerClientOptions } from './client'
+import {
+  PaywallError,
+  SolvaPayPaywall,
+  paywallErrorToClientPayload,
+  paywallGateLabel,
+} from './paywall'
+import type { ProtectHandlerContext } from './paywall'
+import {
+  HttpAdapter,
+  NextAdapter,
+  McpAdapter,
+  HonoAdapter,
+  FastifyAdapter,
+  KoaAdapter,
+  createAdapterHandler,
+  createEntitlementHandler,
+} from './adapters'
+import { SolvaPayError, createJsonLogger, getSolvaPayConfig, withRedaction } from '@solvapay/core'
+import type { Logger } from '@solvapay/core'
 import { createVirtualTools } from './virtual-tools'
+import { isAbortError } from './utils'
 import type { VirtualToolsOptions, VirtualToolDefinition } from './virtual-tools'
 import type { PaywallStructuredContent } from './types'
+import { createMemoryPaywallStore } from './store'
+import type { PaywallStore } from './store'
+import { createEntitlementResolver } from './entitlements'
+import type {
+  EntitlementHandlerContext,
+  EntitlementRequirement,
+  Entitlements,
+  EntitlementsOptions,
+  RequireEntitlementOptions,
+} from './entitlements'
+import { createUsageBuffer } from './usage'
+import { resolveMeterUnits, withEstimatedUnits } from './units'
+import type { UsageUnits } from './units'
+import type { UsageBufferOptions, UsageOutbox, UsageOutboxReplayResult } from './usage'
+import type { SolvaPayTelemetryOptions } from './telemetry'
 import {
   registerVirtualToolsMcpImpl,
   type McpServerLike,
@@ -78,18 +119,109 @@ export interface CreateSolvaPayConfig {
    */
   apiBaseUrl?: string
 
+  /**
+   * Per-attempt request timeout in ms for the created client (only used
+   * with apiKey). See {@link ServerClientOptions.timeout}.
+   *
+   * @since 2.1.0
+   */
+  timeout?: ServerClientOptions['timeout']
+
+  /**
+   * Retry policy for the created client (only used with apiKey). See
+   * {@link ServerClientOptions.retry}.
+   *
+   * @since 2.1.0
+   */
+  retry?: ServerClientOptions['retry']
+
   /**
    * TTL in ms for the checkLimits cache (default 10 000).
    * Positive results are cached and optimistically decremented to avoid
    * redundant API calls during tool-call bursts.
    */
   limitsCacheTTL?: number
+
+  /**
+   * Backend for the paywall's limits cache and customer-ref mapping.
+   * Defaults to a per-instance in-memory store. Pass a shared store
+   * (`createRedisPaywallStore`, `createDurableObjectPaywallStore`, …)
+   * so every replica or isolate reuses the same `checkLimits` result,
+   * `ensureCustomer` mapping, and atomically-decremented `remaining`.
+   *
+   * @since 2.1.0
+   */
+  store?: PaywallStore
+
+  /**
+   * TTL in ms for cached entitlements (default 60 000). Entitlements
+   * change only when a purchase does, so they are cached longer than
+   * limits; pass `{ fresh: true }` to `entitlements()` after a checkout
+   * completes. `0` disables the cache.
+   *
+   * @since 2.1.0
+   */
+  entitlementsCacheTTL?: number
+
+  /**
+   * Queue paywall usage events and send them in `trackUsageBulk`
+   * batches instead of awaiting one `trackUsage` POST per request.
+   * Pass `true` for the defaults or a {@link UsageBufferOptions} object.
+   *
+   * Off by default: without it, every `payable` call awaits its usage
+   * POST so the event survives request-scoped runtimes. With it, the
+   * request returns sooner and the batch is sent by size, by interval,
+   * through `waitUntil` or on process exit. On edge runtimes, set
+   * `waitUntil` (or pass `ctx` to `payable.gate`) so the batch is not
+   * lost when the isolate is frozen. Events still queued when a process
+   * crashes are lost.
+   *
+   * @since 2.1.0
+   */
+  usageBuffer?: boolean | UsageBufferOptions
+
+  /**
+   * Persist usage events the backend did not accept and replay them
+   * with backoff, instead of logging and dropping them. Covers the
+   * paywall's own events, batches dead-lettered by `usageBuffer` (unless
+   * it has its own `onDeadLetter`) and `trackUsageCore`.
+   *
+   * Create one with `createUsageOutbox({ storage })`. Keep a reference
+   * to read `usageOutbox.metrics()`.
+   *
+   * @since 2.1.0
+   */
+  usageOutbox?: UsageOutbox
+
+  /**
+   * OpenTelemetry tracer and meter — pass `trace.getTracer('solvapay')`
+   * and `metrics.getMeter('solvapay')` from `@opentelemetry/api`. The
+   * paywall emits `decide`, `check_limits`, `ensure_customer` and
+   * `track_usage` spans plus decision and limits-cache counters; the
+   * created client (with apiKey) adds a span and a latency sample per
+   * API call. Nothing is recorded when omitted.
+   *
+   * @since 2.1.0
+   */
+  telemetry?: SolvaPayTelemetryOptions
+
+  /**
+   * Structured logger for the paywall, the created client and the usage
+   * buffer. Defaults to JSON lines on stdout / stderr, with debug output
+   * when `SOLVAPAY_DEBUG=true`; wrap pino with `createPinoLogger`.
+   * API keys, bearer tokens, client secrets and emails are redacted
+   * before a line reaches the logger.
+   *
+   * @since 2.1.0
+   */
+  logger?: Logger
 }
 
 /**
  * Result of `payable.gate(req, opts)` when the customer is gated.
  *
- * Carries a fully-built 402 `Response` plus the structured content for
+ * Carries a fully-built 402 (or, when rate limited, 429) `Response`
+ * plus the structured content for
  * callers that prefer to format their own response (alternate codecs,
  * SSE preamble, etc.).
  *
@@ -97,7 +229,10 @@ export interface CreateSolvaPayConfig {
  */
 export interface PayablePaywallResult {
   kind: 'paywall'
-  /** Pre-built 402 response with `application/json` body. */
+  /**
+   * Pre-built 402 response with `application/json` body — 429 with
+   * `Retry-After` when the customer is over a `rateLimit`.
+   */
   response: Response
   /** Same content the response carries — for callers formatting their own response. */
   content: PaywallStructuredContent
@@ -124,20 +259,47 @@ export interface PayableAllowResult {
    * metering in agent loops (AI SDK `onStepFinish`, LangChain
    * `handleLLMEnd`, OpenAI `response.completed`).
    *
+   * `units` is the quantity to bill for this event (default: 1) —
+   * e.g. `totalTokens` for an LLM step — or a count per meter name
+   * when `payable({ meters })` lists several. It is settled against
+   * the units the pre-check held, so the limits cache follows actual
+   * consumption. Counts must be non-negative integers.
+   *
    * `metadata` is forwarded verbatim. Standardise on
    * `inputTokens`, `outputTokens`, `totalTokens`, `finishReason`,
    * `stepType` so cross-provider dashboards aggregate cleanly.
    */
-  trackSuccess: (opts?: { duration?: number; metadata?: Record<string, unknown> }) => void
+  trackSuccess: (opts?: {
+    duration?: number
+    units?: UsageUnits
+    metadata?: Record<string, unknown>
+  }) => void
   /**
    * Record a failed usage event for this allowed request. The error
    * is recorded on `metadata.error` (string-coerced) so dashboards can
-   * filter failure modes without losing the message.
+   * filter failure modes without losing the message; an `AbortError`
+   * also sets `metadata.reason: 'cancelled'`. Failed events do
+   * not consume allowance; any units still held by the pre-check are
+   * returned to the limits cache.
    */
   trackFail: (
     err: unknown,
     opts?: { duration?: number; metadata?: Record<string, unknown> },
   ) => void
+  /**
+   * Hold `units` for this customer and product until the returned
+   * reservation is committed or released — for streaming responses
+   * and agent loops whose cost is only known at the end. `meter`
+   * defaults to the gate's first meter. Committed units are billed on
+   * their own, apart from `trackSuccess`.
+   *
+   * @throws {PaywallError} If the allowance cannot cover the hold
+   * @since 2.1.0
+   */
+  reserve: (
+    units: number,
+    opts?: { meter?: UsageMeterType; ttlMs?: number },
+  ) => Promise<UsageReservation>
 }
 
 /**
@@ -165,8 +327,9 @@ export interface PayableGateOptions {
    * method). When provided, `trackSuccess` / `trackFail` route their
    * underlying `trackUsage` promise through `ctx.waitUntil` so the
    * Workers runtime keeps the request alive past the response close.
-   * On Node, omit this — the event loop keeps the floated promise
-   * alive without it.
+   * With `usageBuffer` enabled, the buffer's pending batch is routed
+   * through `ctx.waitUntil` instead. On Node, omit this — the event
+   * loop keeps the floated promise alive without it.
    */
   ctx?: { waitUntil(p: Promise<unknown>): void }
   /**
@@ -175,13 +338,78 @@ export interface PayableGateOptions {
    * omitted.
    */
   metadata?: import('./types').PaywallMetadata
+  /**
+   * Units this request is expected to consume, e.g. `max_tokens` from
+   * the request body. A request whose estimate exceeds the remaining
+   * allowance is gated before any work starts. Overrides
+   * `estimatedUnits` from `payable({ … })` — a number for the first
+   * meter, or a count per meter name.
+   *
+   * @since 2.1.0
+   */
+  estimatedUnits?: UsageUnits
+}
+
+/**
+ * Route handler factory that the `payable.fastify()` plugin adds to the
+ * Fastify instance (as `fastify.payable` unless renamed with
+ * `decorator`). Handlers receive `{ request, reply }` as `context.extra`.
+ *
+ * @since 2.1.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type FastifyPayableRoute = <T = any>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  businessLogic: (args: any, context?: ProtectHandlerContext) => Promise<T>,
+  options?: FastifyAdapterOptions,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+) => (request: any, reply: any) => Promise<unknown>
+
+/**
+ * Fastify plugin returned by `payable.fastify()`. Registered without
+ * encapsulation, so its decorators are visible in the registering scope.
+ *
+ * @since 2.1.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type FastifyPayablePlugin = (instance: any) => Promise<void>
+
+/**
+ * Instance decorator added by `payable.fastify()`. Merge it into
+ * Fastify's types to get a typed `fastify.payable`:
+ *
+ * ```typescript
+ * declare module 'fastify' {
+ *   interface FastifyInstance extends SolvaPayFastifyInstance {}
+ *   interface FastifyRequest extends SolvaPayFastifyRequest {}
+ * }
+ * ```
+ *
+ * @since 2.1.0
+ */
+export interface SolvaPayFastifyInstance {
+  payable: FastifyPayableRoute
+}
+
+/**
+ * Request decorator added by `payable.fastify()`: the paywall context of
+ * an allowed call, set before the handler runs (`null` otherwise), so
+ * hooks such as `onResponse` can read the resolved customer.
+ *
+ * @since 2.1.0
+ */
+export interface SolvaPayFastifyRequest {
+  solvapay: Omit<ProtectHandlerContext, 'extra'> | null
 }
 
 /**
  * Payable function that provides explicit adapters for different frameworks.
  *
  * Use the appropriate adapter method for your framework:
- * - `http()` - Express.js, Fastify, and other HTTP frameworks
+ * - `http()` - Express.js and other Node HTTP frameworks
+ * - `hono()` - Hono on Workers, Bun, Deno and Node
+ * - `fastify()` - Fastify plugin with a `payable` route decorator
+ * - `koa()` - Koa middleware
  * - `next()` - Next.js App Router API routes
  * - `mcp()` - Model Context Protocol servers
  * - `function()` - Pure functions, background jobs, or testing
@@ -211,7 +439,8 @@ export interface PayableGateOptions {
  */
 export interface PayableFunction {
   /**
-   * HTTP adapter for Express.js, Fastify, and other HTTP frameworks.
+   * HTTP adapter for Express.js and other Node HTTP frameworks. Prefer
+   * `fastify()`, `hono()` or `koa()` for those frameworks.
    *
    * @param businessLogic - Your business logic function
    * @param options - Optional adapter configuration
@@ -233,6 +462,81 @@ export interface PayableFunction {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   ): (req: any, reply: any) => Promise<unknown>
 
+  /**
+   * Hono adapter. Reads JSON or form bodies through `c.req` (which
+   * caches them), query and route params, and answers with `c.json()`.
+   * A `Response` returned by the handler — e.g. a stream — is sent as-is.
+   * The Hono `Context` is passed to the handler as `context.extra`.
+   *
+   * @param businessLogic - Your business logic function
+   * @param options - Optional adapter configuration and per-route
+   *   overrides of the `payable({ … })` options
+   * @returns Hono route handler
+   *
+   * @example
+   * ```typescript
+   * app.post('/images', payable.hono(generateImage, { usageType: 'images' }))
+   * ```
+   *
+   * @since 2.1.0
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  hono<T = any>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    businessLogic: (args: any, context?: ProtectHandlerContext) => Promise<T>,
+    options?: HonoAdapterOptions,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): (c: any) => Promise<Response>
+
+  /**
+   * Fastify plugin. Registering it decorates the instance with
+   * `payable(handler, routeOptions?)`, which creates gated route
+   * handlers, and each request with `solvapay` (see
+   * {@link SolvaPayFastifyRequest}). Handlers get the parsed body,
+   * params and query as arguments; their result goes through
+   * `reply.send()`, so streams and `Buffer`s work.
+   *
+   * @param options - Defaults for every route, plus the decorator name
+   * @returns Fastify plugin
+   *
+   * @example
+   * ```typescript
+   * await app.register(payable.fastify())
+   *
+   * app.post('/tasks', app.payable(createTask))
+   * app.post('/images', app.payable(generateImage, { usageType: 'images' }))
+   * ```
+   *
+   * @since 2.1.0
+   */
+  fastify(options?: FastifyPayablePluginOptions): FastifyPayablePlugin
+
+  /**
+   * Koa adapter. Reads `ctx.request.body` (from a body parser),
+   * `ctx.params` (from `@koa/router`) and `ctx.query`, and assigns the
+   * result to `ctx.body`. The Koa `Context` is passed to the handler as
+   * `context.extra`.
+   *
+   * @param businessLogic - Your business logic function
+   * @param options - Optional adapter configuration and per-route
+   *   overrides of the `payable({ … })` options
+   * @returns Koa middleware
+   *
+   * @example
+   * ```typescript
+   * router.post('/tasks', payable.koa(createTask))
+   * ```
+   *
+   * @since 2.1.0
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  koa<T = any>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    businessLogic: (args: any, context?: ProtectHandlerContext) => Promise<T>,
+    options?: KoaAdapterOptions,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): (ctx: any) => Promise<void>
+
   /**
    * Next.js adapter for App Router API routes.
    *
@@ -345,6 +649,71 @@ export interface PayableFunction {
   gate(req: Request, options?: PayableGateOptions): Promise<PayableGateResult>
 }
 
+/**
+ * Entitlement-gated handlers returned by `solvaPay.requireEntitlement()`.
+ *
+ * Each adapter resolves the customer the same way its `payable`
+ * counterpart does, answers `403` (or a narrated tool result on MCP)
+ * when the requirement does not hold, and otherwise runs the handler
+ * with the customer's entitlements. No limits are checked and no usage
+ * is recorded.
+ *
+ * @since 2.1.0
+ */
+export interface EntitlementGuard {
+  /**
+   * HTTP adapter for Express and other Node HTTP frameworks.
+   *
+   * @example
+   * ```typescript
+   * app.get('/reports/export', solvaPay.requireEntitlement('exports').http(exportReport))
+   * ```
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  http<T = any>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    businessLogic: (args: any, context: EntitlementHandlerContext) => Promise<T>,
+    options?: HttpAdapterOptions,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): (req: any, reply: any) => Promise<unknown>
+
+  /**
+   * Next.js App Router adapter.
+   *
+   * @example
+   * ```typescript
+   * export const POST = solvaPay
+   *   .requireEntitlement({ plan: 'Pro' })
+   *   .next(async (args, { entitlements }) => inviteMembers(args, entitlements.limit('seats')))
+   * ```
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  next<T = any>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    businessLogic: (args: any, context: EntitlementHandlerContext) => Promise<T>,
+    options?: NextAdapterOptions,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): (request: Request, context?: any) => Promise<Response>
+
+  /**
+   * MCP tool adapter.
+   *
+   * @example
+   * ```typescript
+   * server.tool('export_report', schema, solvaPay.requireEntitlement('exports').mcp(exportReport))
+   * ```
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  mcp<T = any>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    businessLogic: (args: any, context: EntitlementHandlerContext) => Promise<T>,
+    options?: McpAdapterOptions,
+  ): (args: Record<string, unknown>, extra?: McpToolExtra) => Promise<unknown>
+
+  /** Whether the requirement holds for `customerRef`. */
+  check(customerRef: string): Promise<boolean>
+}
+
 /**
  * SolvaPay instance with payable method and common API methods.
  *
@@ -380,6 +749,48 @@ export interface SolvaPay {
    */
   payable(options?: PayableOptions): PayableFunction
 
+  /**
+   * Read a customer's entitlements — feature flags and plan limits from
+   * the plan snapshots on their active purchases. Cached for
+   * `entitlementsCacheTTL`; never records usage.
+   *
+   * @param customerRef - Your user ID or a backend `cus_…` reference
+   * @param options - `product` to count one product's purchases only,
+   *   `fresh` to bypass the cache
+   *
+   * @example
+   * ```typescript
+   * const entitlements = await solvaPay.entitlements(userId)
+   * if (!entitlements.onPlan('Pro')) return upsell()
+   * const seats = entitlements.limit('seats') ?? 1
+   * ```
+   *
+   * @since 2.1.0
+   */
+  entitlements(customerRef: string, options?: EntitlementsOptions): Promise<Entitlements>
+
+  /**
+   * Guard handlers on an entitlement instead of a usage allowance.
+   * Customers whose plan does not satisfy `requirement` get a `403`
+   * (a narrated tool result on MCP); nothing is metered.
+   *
+   * @param requirement - A feature key, `{ feature, plan, limits }`, or
+   *   a predicate over the customer's entitlements
+   * @param options - Product scope and customer resolution
+   *
+   * @example
+   * ```typescript
+   * const sso = solvaPay.requireEntitlement('sso', { product: 'prd_app' })
+   * app.post('/sso/config', sso.http(saveSsoConfig))
+   * ```
+   *
+   * @since 2.1.0
+   */
+  requireEntitlement(
+    requirement: EntitlementRequirement,
+    options?: RequireEntitlementOptions,
+  ): EntitlementGuard
+
   /**
    * Ensure customer exists in SolvaPay backend (idempotent).
    *
@@ -828,6 +1239,67 @@ export interface SolvaPay {
     ): Promise<PaywallDecision<TArgs>>
   }
 
+  /**
+   * Hold units against a customer's allowance for a long-running paid
+   * operation, then bill what it actually used.
+   *
+   * A hold counts against the limits cache until it is settled, so ten
+   * concurrent jobs cannot all pass against a balance that covers one:
+   * once the allowance is held, further `reserve()` calls and paywall
+   * checks for the same meter are gated. Settle each hold once with
+   * `commit(actualUnits)` or `release()`; holds left open are released
+   * after `ttlMs`.
+   *
+   * @example
+   * ```typescript
+   * const hold = await solvaPay.reserve({
+   *   customerRef,
+   *   product: 'prd_llm',
+   *   meter: 'tokens',
+   *   units: 4_000,
+   * })
+   * try {
+   *   const result = await runAgent(task)
+   *   await hold.commit(result.usage.totalTokens)
+   * } catch (error) {
+   *   await hold.release()
+   *   throw error
+   * }
+   * ```
+   *
+   * @throws {PaywallError} If the allowance cannot cover the hold
+   * @since 2.1.0
+   */
+  reserve(options: ReserveOptions): Promise<UsageReservation>
+
+  /**
+   * Send every usage event queued by `usageBuffer` now. Resolves once
+   * they are sent or dead-lettered; a no-op when the buffer is off.
+   *
+   * Call it before a graceful shutdown on runtimes without a Node
+   * `beforeExit` event, or in tests.
+   *
+   * @since 2.1.0
+   */
+  flushUsage(): Promise<void>
+
+  /**
+   * Replay due events from `usageOutbox` once. Call it at startup to
+   * deliver events persisted by a previous process, or from a cron
+   * trigger on runtimes without background timers. Resolves with zero
+   * counts when no outbox is configured.
+   *
+   * @since 2.1.0
+   */
+  replayUsage(): Promise<UsageOutboxReplayResult>
+
+  /**
+   * The outbox passed as `createSolvaPay({ usageOutbox })`, if any.
+   *
+   * @since 2.1.0
+   */
+  usageOutbox?: UsageOutbox
+
   /**
    * Direct access to the API client for advanced operations.
    *
@@ -897,24 +1369,76 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
     resolvedConfig = config
   }
 
+  const logger = withRedaction(resolvedConfig.logger ?? createJsonLogger())
+
   // Create or use provided API client
   const apiClient =
     resolvedConfig.apiClient ||
     createSolvaPayClient({
       apiKey: resolvedConfig.apiKey!,
       apiBaseUrl: resolvedConfig.apiBaseUrl,
+      timeout: resolvedConfig.timeout,
+      retry: resolvedConfig.retry,
+      telemetry: resolvedConfig.telemetry,
+      logger,
     })
 
-  // Create paywall instance with debug flag controlled by environment variable
+  const usageOutbox = resolvedConfig.usageOutbox
+  const usageBufferOptions =
+    resolvedConfig.usageBuffer === true ? {} : resolvedConfig.usageBuffer || undefined
+  const usageBuffer = usageBufferOptions
+    ? createUsageBuffer(apiClient, {
+        logger,
+        ...usageBufferOptions,
+        onDeadLetter:
+          usageBufferOptions.onDeadLetter ??
+          (usageOutbox
+            ? async (events, error) => {
+                await Promise.all(events.map(event => usageOutbox.add(event, error)))
+                usageOutbox.start(apiClient)
+              }
+            : undefined),
+      })
+    : undefined
+
+  // Shared by the paywall and the entitlement cache.
+  const store = resolvedConfig.store ?? createMemoryPaywallStore()
+
   const paywall = new SolvaPayPaywall(apiClient, {
-    debug: process.env.SOLVAPAY_DEBUG !== 'false',
+    logger,
     limitsCacheTTL: resolvedConfig.limitsCacheTTL,
+    store,
+    usageBuffer,
+    usageOutbox,
+    telemetry: resolvedConfig.telemetry,
+    // `rateLimit: { fromPlan: true }` reads the rate from the plan limits.
+    planLimits: (customerRef, product) =>
+      resolveEntitlements(customerRef, { product }).then(entitlements => entitlements.limits),
+  })
+
+  const resolveEntitlements = createEntitlementResolver({
+    apiClient,
+    store,
+    ensureCustomer: customerRef => paywall.ensureCustomer(customerRef, customerRef),
+    ttlMs: resolvedConfig.entitlementsCacheTTL ?? 60_000,
   })
 
   return {
     // Direct access to API client for advanced operations
     apiClient,
 
+    usageOutbox,
+
+    flushUsage() {
+      return usageBuffer?.flush() ?? Promise.resolve()
+    },
+
+    replayUsage() {
+      return (
+        usageOutbox?.replay(apiClient) ?? Promise.resolve({ delivered: 0, failed: 0, dropped: 0 })
+      )
+    },
+
     // Decision-shaped paywall surface — exposes `decide()` directly so
     // streaming / SSE / multi-step handlers can consume the kernel
     // verdict without the handler-shaped adapter envelope.
@@ -928,6 +1452,66 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
       },
     },
 
+    reserve(options) {
+      return paywall.reserve(options)
+    },
+
+    entitlements(customerRef, options) {
+      return resolveEntitlements(customerRef, options)
+    },
+
+    requireEntitlement(requirement, options = {}) {
+      const product = options.productRef || options.product
+      const resolve = (customerRef: string) => resolveEntitlements(customerRef, { product })
+
+      return {
+        http(businessLogic, adapterOptions) {
+          const handler = createEntitlementHandler(
+            new HttpAdapter({
+              ...adapterOptions,
+              getCustomerRef: adapterOptions?.getCustomerRef || options.getCustomerRef,
+            }),
+            resolve,
+            requirement,
+            businessLogic,
+          )
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          return (req: any, reply: any) => handler([req, reply], { req, reply })
+        },
+
+        next(businessLogic, adapterOptions) {
+          const handler = createEntitlementHandler(
+            new NextAdapter({
+              ...adapterOptions,
+              getCustomerRef: adapterOptions?.getCustomerRef || options.getCustomerRef,
+            }),
+            resolve,
+            requirement,
+            businessLogic,
+          )
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          return (request: Request, context?: any) => handler([request, context])
+        },
+
+        mcp(businessLogic, adapterOptions) {
+          const handler = createEntitlementHandler(
+            new McpAdapter({
+              ...adapterOptions,
+              getCustomerRef: adapterOptions?.getCustomerRef || options.getCustomerRef,
+            }),
+            resolve,
+            requirement,
+            businessLogic,
+          )
+          return (args: Record<string, unknown>, extra?: McpToolExtra) => handler(args, extra)
+        },
+
+        async check(customerRef) {
+          return (await resolve(customerRef)).check(requirement)
+        },
+      }
+    },
+
     // Common API methods exposed directly for convenience
     ensureCustomer(
       customerRef: string,
@@ -1053,8 +1637,21 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
       const product =
         options.productRef || options.product || process.env.SOLVAPAY_PRODUCT || 'default-product'
 
-      const usageType = options.usageType || 'requests'
-      const metadata = { product, usageType }
+      // Per-route options from the framework adapters override the
+      // payable-level ones; a route `usageType` replaces inherited `meters`.
+      const metadataFor = (route: PayableRouteOptions = {}): PaywallMetadata => {
+        const meters = route.meters ?? (route.usageType ? undefined : options.meters)
+        const estimatedUnits = route.estimatedUnits ?? options.estimatedUnits
+        const rateLimit = route.rateLimit ?? options.rateLimit
+        return {
+          product: route.productRef || route.product || product,
+          usageType: route.usageType || options.usageType || 'requests',
+          ...(meters !== undefined ? { meters } : {}),
+          ...(estimatedUnits !== undefined ? { estimatedUnits } : {}),
+          ...(rateLimit !== undefined ? { rateLimit } : {}),
+        }
+      }
+      const metadata = metadataFor()
 
       return {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1075,6 +1672,100 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
           }
         },
 
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        hono<T = any>(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          businessLogic: (args: any, context?: ProtectHandlerContext) => Promise<T>,
+          adapterOptions: HonoAdapterOptions = {},
+        ) {
+          const adapter = new HonoAdapter({
+            ...adapterOptions,
+            getCustomerRef: adapterOptions.getCustomerRef || options.getCustomerRef,
+          })
+          const handlerPromise = createAdapterHandler(
+            adapter,
+            paywall,
+            metadataFor(adapterOptions),
+            businessLogic,
+          )
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          return async (c: any) => {
+            const handler = await handlerPromise
+            return handler(c, c)
+          }
+        },
+
+        fastify(pluginOptions: FastifyPayablePluginOptions = {}): FastifyPayablePlugin {
+          const { decorator = 'payable', ...defaults } = pluginOptions
+
+          const route: FastifyPayableRoute = (businessLogic, routeOptions = {}) => {
+            const merged: FastifyAdapterOptions = { ...defaults, ...routeOptions }
+            const adapter = new FastifyAdapter({
+              ...merged,
+              getCustomerRef: merged.getCustomerRef || options.getCustomerRef,
+            })
+            const handlerPromise = createAdapterHandler(
+              adapter,
+              paywall,
+              metadataFor(merged),
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              (args: any, handlerContext?: ProtectHandlerContext) => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { request } = (handlerContext?.extra ?? {}) as { request?: any }
+                if (request && handlerContext) {
+                  request.solvapay = {
+                    customerRef: handlerContext.customerRef,
+                    limits: handlerContext.limits,
+                  }
+                }
+                return businessLogic(args, handlerContext)
+              },
+            )
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            return async (request: any, reply: any) => {
+              const handler = await handlerPromise
+              return handler([request, reply], { request, reply })
+            }
+          }
+
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const plugin = async (instance: any) => {
+            instance.decorate(decorator, route)
+            if (!instance.hasRequestDecorator('solvapay')) {
+              instance.decorateRequest('solvapay', null)
+            }
+          }
+          // What `fastify-plugin` sets: skip encapsulation so the
+          // decorators reach the scope that registered the plugin.
+          return Object.assign(plugin, {
+            [Symbol.for('skip-override')]: true,
+            [Symbol.for('fastify.display-name')]: 'solvapay-payable',
+          })
+        },
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        koa<T = any>(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          businessLogic: (args: any, context?: ProtectHandlerContext) => Promise<T>,
+          adapterOptions: KoaAdapterOptions = {},
+        ) {
+          const adapter = new KoaAdapter({
+            ...adapterOptions,
+            getCustomerRef: adapterOptions.getCustomerRef || options.getCustomerRef,
+          })
+          const handlerPromise = createAdapterHandler(
+            adapter,
+            paywall,
+            metadataFor(adapterOptions),
+            businessLogic,
+          )
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          return async (ctx: any) => {
+            const handler = await handlerPromise
+            await handler(ctx, ctx)
+          }
+        },
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         next<T = any>(
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1132,7 +1823,10 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
           const inputCustomerRef = await resolveCustomerRefFromRequest(req, gateOptions)
           const args: PaywallArgs = { auth: { customer_ref: inputCustomerRef } }
 
-          const decideMetadata = gateOptions.metadata ?? metadata
+          const decideMetadata = withEstimatedUnits(
+            gateOptions.metadata ?? metadata,
+            gateOptions.estimatedUnits,
+          )
           const decision = await paywall.decide(
             args,
             decideMetadata,
@@ -1140,20 +1834,21 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
           )
 
           if (decision.outcome === 'gate') {
-            const errorMessage =
-              decision.gate.kind === 'activation_required'
-                ? 'Activation required'
-                : 'Payment required'
-            const body = paywallErrorToClientPayload(new PaywallError(errorMessage, decision.gate))
+            const gate = decision.gate
+            const body = paywallErrorToClientPayload(
+              new PaywallError(paywallGateLabel(gate), gate),
+            )
             const response = new Response(JSON.stringify(body), {
-              status: 402,
-              headers: { 'content-type': 'application/json' },
+              status: gate.kind === 'rate_limited' ? 429 : 402,
+              headers: {
+                'content-type': 'application/json',
+                ...(gate.kind === 'rate_limited' ? { 'Retry-After': String(gate.retryAfter) } : {}),
+              },
             })
             return { kind: 'paywall', response, content: decision.gate }
           }
 
           const productRef = decideMetadata.product || metadata.product || product
-          const meterName = decision.limits.meterName || decideMetadata.usageType || 'requests'
           const customerRef = decision.customerRef
           const ctx = gateOptions.ctx
 
@@ -1166,33 +1861,69 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
             }
           }
 
+          // Units the pre-check held against each meter's cached
+          // allowance. The first tracked event settles the holds against
+          // its actual units (a failure consumes none); later events
+          // consume theirs in full.
+          const meters = decision.meters ?? [
+            {
+              name: decideMetadata.usageType || 'requests',
+              limits: decision.limits,
+              estimatedUnits: decision.estimatedUnits ?? 1,
+            },
+          ]
+          let holding = true
+
           const trackOnce = (
             outcome: 'success' | 'fail',
-            opts?: { duration?: number; metadata?: Record<string, unknown>; error?: unknown },
+            opts?: {
+              duration?: number
+              units?: UsageUnits
+              metadata?: Record<string, unknown>
+              error?: unknown
+            },
           ) => {
+            const units = resolveMeterUnits(
+              meters.map(meter => meter.name),
+              opts?.units,
+            )
+            for (const meter of meters) {
+              const held = holding ? meter.estimatedUnits : 0
+              const consumed = outcome === 'success' ? units[meter.name]! : 0
+              if (consumed !== held) {
+                keepAlive(
+                  paywall.settleUnits(customerRef, decideMetadata, held, consumed, meter.name),
+                )
+              }
+            }
+            holding = false
             const requestId = `gate_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
             const errMeta =
               opts?.error !== undefined
                 ? {
                     error: opts.error instanceof Error ? opts.error.message : String(opts.error),
+                    ...(isAbortError(opts.error) ? { reason: 'cancelled' } : {}),
                   }
                 : {}
-            const trackPromise = apiClient.trackUsage({
-              customerRef,
-              productRef,
-              actionType: 'api_call',
-              units: 1,
-              outcome,
-              ...(opts?.duration !== undefined ? { duration: opts.duration } : {}),
-              metadata: {
-                action: meterName,
-                requestId,
-                ...errMeta,
-                ...(opts?.metadata ?? {}),
-              },
-              timestamp: new Date().toISOString(),
-            })
-            keepAlive(trackPromise)
+            // One event per meter on success; a failure is recorded once,
+            // against the first meter, as it consumes no allowance. Sent
+            // through `paywall.trackUsage` so gate events get the same
+            // retry, idempotency key and outbox spill as `payable.*`.
+            const tracked = Promise.all(
+              (outcome === 'success' ? meters : meters.slice(0, 1)).map(meter =>
+                paywall.trackUsage(
+                  customerRef,
+                  productRef,
+                  meter.limits.meterName || meter.name,
+                  outcome,
+                  requestId,
+                  opts?.duration ?? 0,
+                  outcome === 'success' ? units[meter.name]! : 1,
+                  { ...errMeta, ...(opts?.metadata ?? {}) },
+                ),
+              ),
+            )
+            keepAlive(usageBuffer ? tracked.then(() => usageBuffer.drained()) : tracked)
           }
 
           return {
@@ -1201,6 +1932,14 @@ export function createSolvaPay(config?: CreateSolvaPayConfig): SolvaPay {
             customerRef,
             trackSuccess: opts => trackOnce('success', opts),
             trackFail: (err, opts) => trackOnce('fail', { ...opts, error: err }),
+            reserve: (units, opts) =>
+              paywall.reserve({
+                customerRef,
+                product: productRef,
+                meter: opts?.meter ?? meters[0]!.name,
+                units,
+                ...(opts?.ttlMs !== undefined ? { ttlMs: opts.ttlMs } : {}),
+              }),
           }
         },
       }
@@ -17,7 +17,7 @@
  *  1. `*Core` imports are relative (`'../helpers'`), not self-imports
  *     through `'@solvapay/server'` — avoids the re-export indirection
  *     and keeps the build tree-shake-friendly.
- *  2. `verifyWebhook` imports from `'../edge'` explicitly so the
+ *  2. `verifyWebhookSignature` imports from `'../edge'` explicitly so the
  *     `./fetch` subpath is deterministically Web Crypto regardless of
  *     which export condition a consumer's bundler selects for
  *     `@solvapay/server` (the root entry's `node:crypto` variant was
@@ -34,6 +34,8 @@
  */
 
 import type { WebhookEvent } from '../types/webhook'
+import type { WebhookVerificationResult } from '../webhooks'
+import { webhookFailureReason, webhookFailureStatus } from '../webhooks'
 import {
   activatePlanCore,
   cancelPurchaseCore,
@@ -53,7 +55,7 @@ import {
   syncCustomerCore,
   trackUsageCore,
 } from '../helpers'
-import { verifyWebhook } from '../edge'
+import { verifyWebhookSignature } from '../edge'
 import { handleCors } from './cors'
 import { errorResponse, jsonResponseWithCors } from './utils'
 
@@ -281,17 +283,35 @@ export async function getProduct(req: Request): Promise<Response> {
   return jsonResponseWithCors(result, req)
 }
 
+/**
+ * Verification details passed to {@link SolvapayWebhookOptions.onEvent}.
+ */
+export interface SolvapayWebhookEventMeta {
+  /** Index of the secret that verified the delivery (`0` for a single secret). */
+  secretIndex: number
+  /** Signature timestamp (Unix seconds). */
+  timestamp: number
+}
+
 export interface SolvapayWebhookOptions {
-  secret?: string
-  onEvent: (event: WebhookEvent) => void | Promise<void>
+  /**
+   * Webhook signing secret, or several secrets while rotating. Defaults
+   * to `SOLVAPAY_WEBHOOK_SECRET`.
+   */
+  secret?: string | readonly string[]
+  /** Maximum signature age in seconds (default: 300, `0` disables). */
+  toleranceSec?: number
+  onEvent: (event: WebhookEvent, meta: SolvapayWebhookEventMeta) => void | Promise<void>
 }
 
-export function solvapayWebhook(options: SolvapayWebhookOptions): (req: Request) => Promise<Response> {
+export function solvapayWebhook(
+  options: SolvapayWebhookOptions,
+): (req: Request) => Promise<Response> {
   return async (req: Request): Promise<Response> => {
     const secret =
       options.secret ||
       (typeof process !== 'undefined' ? process.env.SOLVAPAY_WEBHOOK_SECRET : undefined)
-    if (!secret) {
+    if (!secret || (Array.isArray(secret) && secret.filter(Boolean).length === 0)) {
       return new Response(JSON.stringify({ error: 'Webhook secret not configured' }), {
         status: 500,
         headers: { 'Content-Type': 'application/json' },
@@ -301,22 +321,37 @@ export function solvapayWebhook(options: SolvapayWebhookOptions): (req: Request)
     const body = await req.text()
     const signature = req.headers.get('sv-signature') ?? ''
 
-    let event: WebhookEvent
+    let verified: WebhookVerificationResult
     try {
-      // `verifyWebhook` is the async Web Crypto variant from `../edge`
-      // (deterministic choice — see module-level comment for why the
-      // root entry's `node:crypto` variant would be wrong here even on
-      // Node's undici-backed fetch runtime).
-      event = await verifyWebhook({ body, signature, secret })
-    } catch {
-      return new Response(JSON.stringify({ error: 'Invalid webhook signature' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
+      // `verifyWebhookSignature` is the async Web Crypto variant from
+      // `../edge` (deterministic choice — see module-level comment for
+      // why the root entry's `node:crypto` variant would be wrong here
+      // even on Node's undici-backed fetch runtime).
+      verified = await verifyWebhookSignature({
+        body,
+        signature,
+        secret,
+        toleranceSec: options.toleranceSec,
       })
+    } catch (error) {
+      const status = webhookFailureStatus(error)
+      return new Response(
+        JSON.stringify({
+          error: status === 400 ? 'Invalid webhook payload' : 'Invalid webhook signature',
+          ...webhookFailureReason(error),
+        }),
+        {
+          status,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      )
     }
 
     try {
-      await options.onEvent(event)
+      await options.onEvent(verified.event, {
+        secretIndex: verified.secretIndex,
+        timestamp: verified.timestamp,
+      })
     } catch {
       return new Response(JSON.stringify({ error: 'Webhook handler failed' }), {
         status: 500,
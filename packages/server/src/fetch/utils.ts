@@ -17,12 +17,21 @@ export function jsonResponse(
 
 export function errorResponse(result: ErrorResult, req?: Request): Response {
   const corsHeaders = req ? getCorsHeaders(req) : {}
+  const { error, details, code, requestId, fieldErrors, retryAfter } = result
   return new Response(
-    JSON.stringify({ error: result.error, ...(result.details ? { details: result.details } : {}) }),
+    JSON.stringify({
+      error,
+      ...(details ? { details } : {}),
+      ...(code ? { code } : {}),
+      ...(requestId ? { requestId } : {}),
+      ...(fieldErrors ? { fieldErrors } : {}),
+      ...(retryAfter !== undefined ? { retryAfter } : {}),
+    }),
     {
       status: result.status,
       headers: {
         'Content-Type': 'application/json',
+        ...(retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : {}),
         ...corsHeaders,
       },
     },
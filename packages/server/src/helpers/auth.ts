@@ -5,15 +5,23 @@
  * Works with standard Web API Request (works everywhere).
  */
 
+import type { JWTPayload } from 'jose'
 import type { AuthenticatedUser, ErrorResult } from './types'
 import { SOLVAPAY_USER_ID_HEADER } from '@solvapay/auth'
-import { handleRouteError } from './error'
+import { handleRouteError, isErrorResult } from './error'
+import {
+  JwtVerificationError,
+  hasJwtVerification,
+  readClaim,
+  resolveJwtVerificationOptions,
+  verifyJwt,
+} from './jwt'
+import type { JwtClaimMapping, JwtClaimSelector, JwtVerificationOptions } from './jwt'
 
 /**
- * JWT payload shape we care about (Supabase/JWT conventions).
+ * JWT payload shape the default claim mapping reads (Supabase/OIDC conventions).
  */
-type JwtPayload = {
-  sub?: unknown
+type JwtPayload = JWTPayload & {
   email?: unknown
   name?: unknown
   user_metadata?: {
@@ -59,10 +67,10 @@ function base64UrlDecode(input: string): string {
 /**
  * Unverified JWT payload decode. Returns null if the token is malformed.
  *
- * This does NOT verify the signature. It's safe to use when the platform
- * gateway (e.g. Supabase Edge's verify_jwt=true) has already validated the
- * token before our handler runs. Set SOLVAPAY_AUTH_STRICT=true + provide a
- * JWT secret to require cryptographic verification inside the function.
+ * This does NOT verify the signature. Only reachable with
+ * `trustGateway` / `SOLVAPAY_AUTH_TRUST_GATEWAY=true`, for platforms
+ * whose gateway has already validated the token before our handler
+ * runs (e.g. Supabase Edge's verify_jwt=true).
  */
 function decodeJwtUnverified(token: string): JwtPayload | null {
   const parts = token.split('.')
@@ -93,26 +101,22 @@ function isStrictMode(): boolean {
   return readEnv('SOLVAPAY_AUTH_STRICT') === 'true'
 }
 
-function getConfiguredSecret(): string | undefined {
-  return readEnv('SOLVAPAY_JWT_SECRET') || readEnv('SUPABASE_JWT_SECRET')
+function trustsGateway(option: boolean | undefined): boolean {
+  if (isStrictMode()) return false
+  return option ?? readEnv('SOLVAPAY_AUTH_TRUST_GATEWAY') === 'true'
 }
 
-/**
- * Verify a Bearer JWT using HS256 against the configured secret.
- * Returns the payload on success, or null on any failure.
- */
-async function verifyHs256(token: string, secret: string): Promise<JwtPayload | null> {
-  try {
-    const { jwtVerify } = await import('jose')
-    const key = new TextEncoder().encode(secret)
-    const { payload } = await jwtVerify(token, key, { algorithms: ['HS256'] })
-    return payload as JwtPayload
-  } catch {
-    return null
-  }
+function pickString(payload: JwtPayload, selector: JwtClaimSelector): string | null {
+  const value = readClaim(payload, selector)
+  return typeof value === 'string' && value.length > 0 ? value : null
 }
 
-function pickName(payload: JwtPayload): string | null {
+function pickUserId(payload: JwtPayload, claims: JwtClaimMapping): string | null {
+  return pickString(payload, claims.userId ?? 'sub')
+}
+
+function pickName(payload: JwtPayload, claims: JwtClaimMapping): string | null {
+  if (claims.name) return pickString(payload, claims.name)
   const metadataFullName =
     typeof payload.user_metadata?.full_name === 'string' ? payload.user_metadata.full_name : null
   const metadataName =
@@ -121,14 +125,65 @@ function pickName(payload: JwtPayload): string | null {
   return metadataFullName || metadataName || claimName || null
 }
 
-function pickEmail(payload: JwtPayload): string | null {
-  return typeof payload.email === 'string' ? payload.email : null
+function pickEmail(payload: JwtPayload, claims: JwtClaimMapping): string | null {
+  return pickString(payload, claims.email ?? 'email')
 }
 
 function unauthorized(details: string): ErrorResult {
   return { error: 'Unauthorized', status: 401, details }
 }
 
+/**
+ * Resolve a Bearer token to its payload: verified when verification is
+ * configured, decoded when the gateway is trusted, rejected otherwise.
+ */
+async function resolveTokenPayload(
+  token: string,
+  jwt: JwtVerificationOptions,
+  trustGateway: boolean,
+): Promise<JwtPayload | ErrorResult> {
+  if (hasJwtVerification(jwt)) {
+    try {
+      return (await verifyJwt(token, jwt)) as JwtPayload
+    } catch (error) {
+      if (error instanceof JwtVerificationError) return unauthorized(error.message)
+      throw error
+    }
+  }
+  if (trustGateway) {
+    return decodeJwtUnverified(token) ?? unauthorized('Malformed authentication token')
+  }
+  return unauthorized(
+    'No JWT verification is configured. Set SOLVAPAY_JWT_ISSUER (JWKS) or SOLVAPAY_JWT_SECRET, ' +
+      'or SOLVAPAY_AUTH_TRUST_GATEWAY=true when the platform gateway verifies tokens.',
+  )
+}
+
+/**
+ * Options for {@link getAuthenticatedUserCore}.
+ */
+export interface GetAuthenticatedUserOptions {
+  /** Whether to extract email from the JWT (default: true). */
+  includeEmail?: boolean
+  /** Whether to extract name from the JWT (default: true). */
+  includeName?: boolean
+  /**
+   * How to verify Bearer tokens. Each field falls back to its
+   * environment variable, so most apps configure this through env.
+   *
+   * @since 2.1.0
+   */
+  jwt?: JwtVerificationOptions
+  /**
+   * Accept Bearer tokens without verifying them because the platform
+   * gateway already did. Only set this when every request reaches the
+   * handler through that gateway. Default: `SOLVAPAY_AUTH_TRUST_GATEWAY`.
+   *
+   * @since 2.1.0
+   */
+  trustGateway?: boolean
+}
+
 /**
  * Extract authenticated user information from a standard Web API Request.
  *
@@ -137,27 +192,34 @@ function unauthorized(details: string): ErrorResult {
  * the standard Web API Request (Express, Fastify, Next.js, Edge Functions, etc.).
  *
  * Resolution order:
- * 1. `SOLVAPAY_USER_ID_HEADER` header — set by Next.js-style middleware (unchanged).
- * 2. `Authorization: Bearer <jwt>` — verified via HS256 when a secret is
- *    configured (`SOLVAPAY_JWT_SECRET` or `SUPABASE_JWT_SECRET`), or
- *    unverified-decoded when no secret is configured. The unverified path
- *    covers platforms that verify JWTs at the gateway (e.g. Supabase Edge
- *    with `verify_jwt = true`, which is the default) and asymmetric signing
- *    keys (ES256/RS256) that the SDK does not have keys for.
- * 3. Set `SOLVAPAY_AUTH_STRICT=true` to require cryptographic verification
- *    inside the handler (the unverified-decode fallback is then disabled).
+ * 1. `SOLVAPAY_USER_ID_HEADER` header — set by Next.js-style middleware. Email
+ *    and name are still read from the Bearer token when it verifies.
+ * 2. `Authorization: Bearer <jwt>` — verified before any claim is trusted:
+ *    - against the issuer's JWKS (RS256 / ES256 / …) when `jwt.issuer` or
+ *      `jwt.jwksUrl` is set (`SOLVAPAY_JWT_ISSUER` / `SOLVAPAY_JWKS_URL`),
+ *      with `iss` / `aud` checks and clock-skew tolerance;
+ *    - via HS256 when a secret is configured (`SOLVAPAY_JWT_SECRET` or
+ *      `SUPABASE_JWT_SECRET`).
+ * 3. Without verification configured, Bearer tokens are rejected — unless
+ *    `trustGateway` / `SOLVAPAY_AUTH_TRUST_GATEWAY=true` declares that the
+ *    platform gateway already verified them (e.g. Supabase Edge with
+ *    `verify_jwt = true`). `SOLVAPAY_AUTH_STRICT=true` overrides that opt-in.
  *
  * @param request - Standard Web API Request object
  * @param options - Configuration options
  * @param options.includeEmail - Whether to extract email from JWT token (default: true)
  * @param options.includeName - Whether to extract name from JWT token (default: true)
+ * @param options.jwt - JWKS / issuer / audience / claim-mapping overrides (default: env)
+ * @param options.trustGateway - Accept unverified tokens the gateway verified (default: env)
  * @returns Authenticated user info or error result
  *
  * @example
  * ```typescript
  * // In an API route handler
  * export async function GET(request: Request) {
- *   const userResult = await getAuthenticatedUserCore(request);
+ *   const userResult = await getAuthenticatedUserCore(request, {
+ *     jwt: { issuer: 'https://example.us.auth0.com/', audience: 'https://api.example.com' },
+ *   });
  *
  *   if (isErrorResult(userResult)) {
  *     return Response.json(userResult, { status: userResult.status });
@@ -170,18 +232,19 @@ function unauthorized(details: string): ErrorResult {
  *
  * @see {@link AuthenticatedUser} for the return type
  * @see {@link ErrorResult} for error handling
+ * @see {@link verifyJwt} for the verification rules
  * @since 1.0.0
  */
 export async function getAuthenticatedUserCore(
   request: Request,
-  options: {
-    includeEmail?: boolean
-    includeName?: boolean
-  } = {},
+  options: GetAuthenticatedUserOptions = {},
 ): Promise<AuthenticatedUser | ErrorResult> {
   try {
     const includeEmail = options.includeEmail !== false
     const includeName = options.includeName !== false
+    const jwt = resolveJwtVerificationOptions(options.jwt)
+    const claims = jwt.claims ?? {}
+    const trustGateway = trustsGateway(options.trustGateway)
 
     const headerUserId = request.headers.get(SOLVAPAY_USER_ID_HEADER)
     if (headerUserId) {
@@ -191,15 +254,12 @@ export async function getAuthenticatedUserCore(
       if (includeEmail || includeName) {
         const token = extractBearerToken(request)
         if (token) {
-          const secret = getConfiguredSecret()
-          const payload = secret
-            ? await verifyHs256(token, secret)
-            : isStrictMode()
-              ? null
-              : decodeJwtUnverified(token)
-          if (payload) {
-            if (includeEmail) email = pickEmail(payload)
-            if (includeName) name = pickName(payload)
+          // The header already identifies the user; an unverifiable
+          // token only costs us the profile fields.
+          const payload = await resolveTokenPayload(token, jwt, trustGateway)
+          if (!isErrorResult(payload)) {
+            if (includeEmail) email = pickEmail(payload, claims)
+            if (includeName) name = pickName(payload, claims)
           }
         }
       }
@@ -212,34 +272,18 @@ export async function getAuthenticatedUserCore(
       return unauthorized('User ID not found. Ensure middleware is configured.')
     }
 
-    const secret = getConfiguredSecret()
-    let payload: JwtPayload | null = null
-
-    if (secret) {
-      payload = await verifyHs256(token, secret)
-      if (!payload) {
-        return unauthorized('Invalid or expired authentication token')
-      }
-    } else if (isStrictMode()) {
-      return unauthorized(
-        'Strict auth mode is enabled but no JWT secret is configured. Set SOLVAPAY_JWT_SECRET or SUPABASE_JWT_SECRET.',
-      )
-    } else {
-      payload = decodeJwtUnverified(token)
-      if (!payload) {
-        return unauthorized('Malformed authentication token')
-      }
-    }
+    const payload = await resolveTokenPayload(token, jwt, trustGateway)
+    if (isErrorResult(payload)) return payload
 
-    const userId = typeof payload.sub === 'string' ? payload.sub : null
+    const userId = pickUserId(payload, claims)
     if (!userId) {
       return unauthorized('Authentication token missing subject (sub) claim')
     }
 
     return {
       userId,
-      email: includeEmail ? pickEmail(payload) : null,
-      name: includeName ? pickName(payload) : null,
+      email: includeEmail ? pickEmail(payload, claims) : null,
+      name: includeName ? pickName(payload, claims) : null,
     }
   } catch (error) {
     return handleRouteError(error, 'Get authenticated user', 'Authentication failed')
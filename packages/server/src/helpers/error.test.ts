@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest'
-import { SolvaPayError } from '@solvapay/core'
+import { createSolvaPayApiError, SolvaPayError } from '@solvapay/core'
 import { handleRouteError } from './error'
 
 describe('handleRouteError', () => {
@@ -28,4 +28,37 @@ describe('handleRouteError', () => {
     const result = handleRouteError(err, 'Create client')
     expect(result.status).toBe(500)
   })
+
+  it('forwards code, requestId and field errors from typed API errors', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const err = createSolvaPayApiError('Create customer failed (400)', {
+      status: 400,
+      requestId: 'req_1',
+      body: JSON.stringify({ message: ['email must be an email'], code: 'invalid_request' }),
+    })
+    expect(handleRouteError(err, 'Create customer')).toMatchObject({
+      status: 400,
+      code: 'invalid_request',
+      requestId: 'req_1',
+      fieldErrors: { email: ['email must be an email'] },
+    })
+  })
+
+  it('passes 429 through with retryAfter', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const err = createSolvaPayApiError('Check limits failed (429)', { status: 429, retryAfter: 12 })
+    expect(handleRouteError(err, 'Check limits')).toMatchObject({ status: 429, retryAfter: 12 })
+  })
+
+  it('reports upstream failures as 502 and timeouts as 504', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const server = createSolvaPayApiError('Get merchant failed (503)', { status: 503 })
+    expect(handleRouteError(server, 'Get merchant').status).toBe(502)
+
+    const timeout = new SolvaPayError('Get merchant timed out after 30000ms', { code: 'timeout' })
+    expect(handleRouteError(timeout, 'Get merchant')).toMatchObject({
+      status: 504,
+      code: 'timeout',
+    })
+  })
 })
@@ -4,7 +4,13 @@
  * Generic error handling utilities for route helpers
  */
 
-import { SolvaPayError } from '@solvapay/core'
+import {
+  SolvaPayApiError,
+  SolvaPayError,
+  SolvaPayRateLimitError,
+  SolvaPayServerError,
+  SolvaPayValidationError,
+} from '@solvapay/core'
 import type { ErrorResult } from './types'
 
 /**
@@ -14,6 +20,21 @@ export function isErrorResult(result: unknown): result is ErrorResult {
   return typeof result === 'object' && result !== null && 'error' in result && 'status' in result
 }
 
+/**
+ * HTTP status to answer with for a `SolvaPayError`.
+ *
+ * Client errors from the API (401/403/404/409/422/429 …) pass through so
+ * the caller sees the real reason. A failure on SolvaPay's side is
+ * reported as 502, and a timed-out call as 504 — the route itself did
+ * not fail, its upstream did.
+ */
+function statusForError(error: SolvaPayError): number {
+  if (error instanceof SolvaPayServerError) return 502
+  if (error.code === 'timeout') return 504
+  if (error.code === 'network_error') return 502
+  return error.status ?? 500
+}
+
 /**
  * Handle route errors and convert to ErrorResult
  */
@@ -31,11 +52,20 @@ export function handleRouteError(
   // as before.
   if (error instanceof SolvaPayError) {
     const errorMessage = error.message
-    return {
+    const result: ErrorResult = {
       error: errorMessage,
-      status: error.status ?? 500,
+      status: statusForError(error),
       details: errorMessage,
     }
+    if (error.code) result.code = error.code
+    if (error instanceof SolvaPayApiError && error.requestId) result.requestId = error.requestId
+    if (error instanceof SolvaPayValidationError && Object.keys(error.fieldErrors).length > 0) {
+      result.fieldErrors = error.fieldErrors
+    }
+    if (error instanceof SolvaPayRateLimitError && error.retryAfter !== undefined) {
+      result.retryAfter = error.retryAfter
+    }
+    return result
   }
 
   const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -15,6 +15,14 @@ export { isErrorResult, handleRouteError } from './error'
 
 // Export auth helpers
 export { getAuthenticatedUserCore } from './auth'
+export type { GetAuthenticatedUserOptions } from './auth'
+export { verifyJwt, JwtVerificationError } from './jwt'
+export type {
+  JwtVerificationOptions,
+  JwtClaimMapping,
+  JwtClaimSelector,
+  JwtVerificationFailureReason,
+} from './jwt'
 
 // Export customer helpers
 export { syncCustomerCore, getCustomerBalanceCore } from './customer'
@@ -44,6 +52,13 @@ export { getPaymentMethodCore } from './payment-method'
 // Export auto-recharge helpers
 export { disableAutoRechargeCore, getAutoRechargeCore, saveAutoRechargeCore } from './auto-recharge'
 
+// Export spending-limit helpers
+export {
+  disableSpendingLimitsCore,
+  getSpendingLimitsCore,
+  saveSpendingLimitsCore,
+} from './spending-limits'
+
 // Export plans helpers
 export { listPlansCore } from './plans'
 
@@ -60,7 +75,7 @@ export type { PurchaseCheckResult } from './purchase'
 
 // Export usage tracking helpers
 export { trackUsageCore, getUsageCore } from './usage'
-export type { GetUsageResult } from './usage'
+export type { GetUsageResult, QueuedTrackUsageResult } from './usage'
 
 // Export balance polling helpers
 export {
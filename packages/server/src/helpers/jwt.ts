@@ -0,0 +1,339 @@
+/**
+ * JWT Verification (Core)
+ *
+ * Verifies Bearer JWTs for the route helpers. Two key sources:
+ *
+ * - **JWKS** (RS256 / ES256 / …) — for providers that sign with rotating
+ *   asymmetric keys (Auth0, Clerk, Cognito, Supabase signing keys). Keys
+ *   are fetched from the issuer's JWKS endpoint, cached, and refetched
+ *   when a token names an unknown `kid`.
+ * - **Shared secret** (HS256) — `SOLVAPAY_JWT_SECRET` / `SUPABASE_JWT_SECRET`.
+ *
+ * Every option can also come from the environment so the fetch handlers
+ * (`@solvapay/server/fetch`) and the `*Core` helpers, which only receive
+ * a `Request`, verify tokens the same way as explicit callers.
+ */
+
+import { SolvaPayError } from '@solvapay/core'
+import type { JWTPayload, JWTVerifyGetKey } from 'jose'
+
+/**
+ * Claim holding a user field — a claim name, a dotted path into nested
+ * claims (`'user_metadata.full_name'`), or a function of the payload.
+ *
+ * @since 2.1.0
+ */
+export type JwtClaimSelector = string | ((payload: JWTPayload) => unknown)
+
+/**
+ * Where `getAuthenticatedUserCore` reads `userId`, `email` and `name`
+ * from a verified token. Fields left out use the defaults: `sub`,
+ * `email`, and `user_metadata.full_name` → `user_metadata.name` → `name`.
+ *
+ * Env: `SOLVAPAY_JWT_USER_ID_CLAIM`, `SOLVAPAY_JWT_EMAIL_CLAIM`,
+ * `SOLVAPAY_JWT_NAME_CLAIM` (claim names or dotted paths).
+ *
+ * @since 2.1.0
+ */
+export interface JwtClaimMapping {
+  userId?: JwtClaimSelector
+  email?: JwtClaimSelector
+  name?: JwtClaimSelector
+}
+
+/**
+ * How to verify Bearer JWTs. Each field falls back to its environment
+ * variable.
+ *
+ * @since 2.1.0
+ */
+export interface JwtVerificationOptions {
+  /**
+   * Expected `iss` claim. When `jwksUrl` is not set, keys are fetched
+   * from `{issuer}/.well-known/jwks.json`. Env: `SOLVAPAY_JWT_ISSUER`.
+   */
+  issuer?: string | string[]
+  /** JWKS endpoint URL. Env: `SOLVAPAY_JWKS_URL`. */
+  jwksUrl?: string
+  /**
+   * Expected `aud` claim; any one match passes. Env:
+   * `SOLVAPAY_JWT_AUDIENCE` (comma-separated).
+   */
+  audience?: string | string[]
+  /**
+   * HS256 shared secret. Env: `SOLVAPAY_JWT_SECRET`, then
+   * `SUPABASE_JWT_SECRET`.
+   */
+  secret?: string
+  /**
+   * Signature algorithms accepted from the JWKS (default: `RS256`,
+   * `RS384`, `RS512`, `PS256`, `ES256`, `ES384`, `EdDSA`).
+   */
+  algorithms?: string[]
+  /**
+   * Seconds of clock skew tolerated on `exp` / `nbf` / `iat`
+   * (default: 30). Env: `SOLVAPAY_JWT_CLOCK_TOLERANCE`.
+   */
+  clockToleranceSec?: number
+  /** How long fetched keys are reused before a refetch (default: 10 minutes). */
+  jwksCacheMaxAgeMs?: number
+  /** Where to read the user's id, email and name from. */
+  claims?: JwtClaimMapping
+}
+
+/**
+ * Machine-readable cause of a {@link JwtVerificationError}.
+ *
+ * - `not_configured` — no JWKS, issuer or secret is configured.
+ * - `malformed` — the token is not a compact JWS.
+ * - `expired` — `exp` is in the past (beyond the clock tolerance).
+ * - `claim_invalid` — `iss`, `aud` or `nbf` does not match.
+ * - `signature_invalid` — no configured key verifies the signature.
+ * - `jwks_unavailable` — the JWKS endpoint could not be fetched.
+ *
+ * @since 2.1.0
+ */
+export type JwtVerificationFailureReason =
+  | 'not_configured'
+  | 'malformed'
+  | 'expired'
+  | 'claim_invalid'
+  | 'signature_invalid'
+  | 'jwks_unavailable'
+
+/**
+ * Thrown by {@link verifyJwt} when a token cannot be verified. Extends
+ * `SolvaPayError` with `status: 401`; branch on
+ * {@link JwtVerificationError.reason} for specific handling.
+ *
+ * @since 2.1.0
+ */
+export class JwtVerificationError extends SolvaPayError {
+  readonly reason: JwtVerificationFailureReason
+
+  constructor(reason: JwtVerificationFailureReason, message: string) {
+    super(message, { status: 401, code: `jwt_${reason}` })
+    this.name = 'JwtVerificationError'
+    this.reason = reason
+  }
+}
+
+const DEFAULT_ASYMMETRIC_ALGORITHMS = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'ES256',
+  'ES384',
+  'EdDSA',
+]
+const DEFAULT_CLOCK_TOLERANCE_SEC = 30
+const DEFAULT_JWKS_CACHE_MAX_AGE_MS = 10 * 60_000
+
+/**
+ * Remote key sets by URL. Module-level so keys are fetched once per
+ * isolate rather than once per request; `jose` refetches on an unknown
+ * `kid`, which picks up rotated keys.
+ */
+const remoteKeySets = new Map<string, JWTVerifyGetKey>()
+
+function readEnv(name: string): string | undefined {
+  const proc = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process
+  const value = proc?.env?.[name]
+  return value === '' ? undefined : value
+}
+
+function readList(name: string): string[] | undefined {
+  const value = readEnv(name)
+  return value
+    ?.split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Merge explicit options over their environment fallbacks.
+ *
+ * @internal
+ */
+export function resolveJwtVerificationOptions(
+  options: JwtVerificationOptions = {},
+): JwtVerificationOptions {
+  const tolerance = readEnv('SOLVAPAY_JWT_CLOCK_TOLERANCE')
+  return {
+    ...options,
+    issuer: options.issuer ?? readList('SOLVAPAY_JWT_ISSUER'),
+    jwksUrl: options.jwksUrl ?? readEnv('SOLVAPAY_JWKS_URL'),
+    audience: options.audience ?? readList('SOLVAPAY_JWT_AUDIENCE'),
+    secret: options.secret ?? (readEnv('SOLVAPAY_JWT_SECRET') || readEnv('SUPABASE_JWT_SECRET')),
+    clockToleranceSec:
+      options.clockToleranceSec ?? (tolerance !== undefined ? Number(tolerance) : undefined),
+    claims: {
+      userId: options.claims?.userId ?? readEnv('SOLVAPAY_JWT_USER_ID_CLAIM'),
+      email: options.claims?.email ?? readEnv('SOLVAPAY_JWT_EMAIL_CLAIM'),
+      name: options.claims?.name ?? readEnv('SOLVAPAY_JWT_NAME_CLAIM'),
+    },
+  }
+}
+
+/**
+ * Whether `options` (after env fallbacks) configure any way to verify
+ * a token.
+ *
+ * @internal
+ */
+export function hasJwtVerification(options: JwtVerificationOptions): boolean {
+  return Boolean(options.jwksUrl || options.issuer?.length || options.secret)
+}
+
+function jwksUrlFor(options: JwtVerificationOptions): string | undefined {
+  if (options.jwksUrl) return options.jwksUrl
+  const issuer = Array.isArray(options.issuer) ? options.issuer[0] : options.issuer
+  return issuer ? `${issuer.replace(/\/+$/, '')}/.well-known/jwks.json` : undefined
+}
+
+/**
+ * Load `jose`, an optional peer dependency. A missing install is a
+ * configuration problem, not a bad token, so it surfaces as
+ * `not_configured` rather than a raw module-resolution error.
+ */
+async function loadJose(): Promise<typeof import('jose')> {
+  try {
+    return await import('jose')
+  } catch {
+    throw new JwtVerificationError('not_configured', 'Install jose to verify JWTs')
+  }
+}
+
+async function remoteKeySet(url: string, cacheMaxAge: number): Promise<JWTVerifyGetKey> {
+  const key = `${url}#${cacheMaxAge}`
+  let keySet = remoteKeySets.get(key)
+  if (!keySet) {
+    const { createRemoteJWKSet } = await loadJose()
+    keySet = createRemoteJWKSet(new URL(url), { cacheMaxAge })
+    remoteKeySets.set(key, keySet)
+  }
+  return keySet
+}
+
+function toVerificationError(error: unknown): JwtVerificationError {
+  if (error instanceof JwtVerificationError) return error
+  const code = (error as { code?: string }).code
+  const message = error instanceof Error ? error.message : String(error)
+  switch (code) {
+    case 'ERR_JWT_EXPIRED':
+      return new JwtVerificationError('expired', 'Authentication token has expired')
+    case 'ERR_JWT_CLAIM_VALIDATION_FAILED':
+      return new JwtVerificationError('claim_invalid', `Authentication token rejected: ${message}`)
+    case 'ERR_JWS_INVALID':
+    case 'ERR_JWT_INVALID':
+      return new JwtVerificationError('malformed', 'Malformed authentication token')
+    // Non-200 JWKS responses surface as the generic JOSE error.
+    case 'ERR_JWKS_TIMEOUT':
+    case 'ERR_JWKS_INVALID':
+    case 'ERR_JOSE_GENERIC':
+      return new JwtVerificationError('jwks_unavailable', `Could not load signing keys: ${message}`)
+    default:
+      // `fetch` failures surface as plain errors from the key set.
+      if (!code) {
+        return new JwtVerificationError(
+          'jwks_unavailable',
+          `Could not load signing keys: ${message}`,
+        )
+      }
+      return new JwtVerificationError('signature_invalid', 'Invalid authentication token signature')
+  }
+}
+
+/**
+ * Verify a JWT's signature, expiry, issuer and audience, and return its
+ * payload.
+ *
+ * Tokens signed with an `HS*` algorithm are checked against the shared
+ * secret; all others against the JWKS. Options fall back to the
+ * environment (see {@link JwtVerificationOptions}).
+ *
+ * @example
+ * ```typescript
+ * const payload = await verifyJwt(token, {
+ *   issuer: 'https://example.us.auth0.com/',
+ *   audience: 'https://api.example.com',
+ * })
+ * ```
+ *
+ * @throws {JwtVerificationError} If the token cannot be verified
+ * @since 2.1.0
+ */
+export async function verifyJwt(
+  token: string,
+  options: JwtVerificationOptions = {},
+): Promise<JWTPayload> {
+  const resolved = resolveJwtVerificationOptions(options)
+  const jose = await loadJose()
+
+  let alg: string | undefined
+  try {
+    alg = jose.decodeProtectedHeader(token).alg
+  } catch {
+    throw new JwtVerificationError('malformed', 'Malformed authentication token')
+  }
+
+  const verifyOptions = {
+    ...(resolved.issuer?.length ? { issuer: resolved.issuer } : {}),
+    ...(resolved.audience?.length ? { audience: resolved.audience } : {}),
+    clockTolerance: resolved.clockToleranceSec ?? DEFAULT_CLOCK_TOLERANCE_SEC,
+  }
+
+  try {
+    if (alg?.startsWith('HS')) {
+      if (!resolved.secret) {
+        throw new JwtVerificationError(
+          'not_configured',
+          'Token is HMAC-signed but no JWT secret is configured. Set SOLVAPAY_JWT_SECRET.',
+        )
+      }
+      const { payload } = await jose.jwtVerify(token, new TextEncoder().encode(resolved.secret), {
+        ...verifyOptions,
+        algorithms: ['HS256'],
+      })
+      return payload
+    }
+
+    const url = jwksUrlFor(resolved)
+    if (!url) {
+      throw new JwtVerificationError(
+        'not_configured',
+        'No JWKS configured for asymmetrically signed tokens. Set SOLVAPAY_JWT_ISSUER or SOLVAPAY_JWKS_URL.',
+      )
+    }
+    const keySet = await remoteKeySet(
+      url,
+      resolved.jwksCacheMaxAgeMs ?? DEFAULT_JWKS_CACHE_MAX_AGE_MS,
+    )
+    const { payload } = await jose.jwtVerify(token, keySet, {
+      ...verifyOptions,
+      algorithms: resolved.algorithms ?? DEFAULT_ASYMMETRIC_ALGORITHMS,
+    })
+    return payload
+  } catch (error) {
+    throw toVerificationError(error)
+  }
+}
+
+/**
+ * Read one user field from a token payload.
+ *
+ * @internal
+ */
+export function readClaim(payload: JWTPayload, selector: JwtClaimSelector): unknown {
+  if (typeof selector === 'function') return selector(payload)
+  // Namespaced claims (`https://example.com/email`) are looked up whole
+  // before the dotted-path walk.
+  if (selector in payload) return payload[selector]
+  let value: unknown = payload
+  for (const segment of selector.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
@@ -0,0 +1,85 @@
+import type {
+  SpendingLimitsInput,
+  SpendingLimitsResponse,
+  SaveSpendingLimitsResponse,
+} from '../types/client'
+import type { SolvaPay } from '../factory'
+import type { ErrorResult } from './types'
+import { createSolvaPay } from '../factory'
+import { handleRouteError, isErrorResult } from './error'
+import { syncCustomerCore } from './customer'
+
+type HelperOptions = {
+  solvaPay?: SolvaPay
+  includeEmail?: boolean
+  includeName?: boolean
+}
+
+async function resolveCustomerRef(
+  request: Request,
+  options: HelperOptions,
+): Promise<string | ErrorResult> {
+  return syncCustomerCore(request, {
+    solvaPay: options.solvaPay,
+    includeEmail: options.includeEmail,
+    includeName: options.includeName,
+  })
+}
+
+export async function getSpendingLimitsCore(
+  request: Request,
+  options: HelperOptions = {},
+): Promise<SpendingLimitsResponse | ErrorResult> {
+  try {
+    const customerRef = await resolveCustomerRef(request, options)
+    if (isErrorResult(customerRef)) return customerRef
+
+    const solvaPay = options.solvaPay ?? createSolvaPay()
+    if (!solvaPay.apiClient.getSpendingLimits) {
+      return { error: 'getSpendingLimits is not implemented on this API client', status: 500 }
+    }
+
+    return solvaPay.apiClient.getSpendingLimits({ customerRef })
+  } catch (error) {
+    return handleRouteError(error, 'Get spending limits', 'Failed to load spending limits')
+  }
+}
+
+export async function saveSpendingLimitsCore(
+  request: Request,
+  input: SpendingLimitsInput,
+  options: HelperOptions = {},
+): Promise<SaveSpendingLimitsResponse | ErrorResult> {
+  try {
+    const customerRef = await resolveCustomerRef(request, options)
+    if (isErrorResult(customerRef)) return customerRef
+
+    const solvaPay = options.solvaPay ?? createSolvaPay()
+    if (!solvaPay.apiClient.saveSpendingLimits) {
+      return { error: 'saveSpendingLimits is not implemented on this API client', status: 500 }
+    }
+
+    return solvaPay.apiClient.saveSpendingLimits({ customerRef, ...input })
+  } catch (error) {
+    return handleRouteError(error, 'Save spending limits', 'Failed to save spending limits')
+  }
+}
+
+export async function disableSpendingLimitsCore(
+  request: Request,
+  options: HelperOptions = {},
+): Promise<{ success: true } | ErrorResult> {
+  try {
+    const customerRef = await resolveCustomerRef(request, options)
+    if (isErrorResult(customerRef)) return customerRef
+
+    const solvaPay = options.solvaPay ?? createSolvaPay()
+    if (!solvaPay.apiClient.disableSpendingLimits) {
+      return { error: 'disableSpendingLimits is not implemented on this API client', status: 500 }
+    }
+
+    return solvaPay.apiClient.disableSpendingLimits({ customerRef })
+  } catch (error) {
+    return handleRouteError(error, 'Disable spending limits', 'Failed to disable spending limits')
+  }
+}
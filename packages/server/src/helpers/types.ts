@@ -11,6 +11,14 @@ export interface ErrorResult {
   error: string
   status: number
   details?: string
+  /** Machine-readable error code from the API (or `'timeout'` / `'network_error'`). */
+  code?: string
+  /** Backend request id, for correlating with SolvaPay support. */
+  requestId?: string
+  /** Per-field validation messages for 400/422 responses. */
+  fieldErrors?: Record<string, string[]>
+  /** Seconds to wait before retrying a rate-limited request. */
+  retryAfter?: number
 }
 
 /**
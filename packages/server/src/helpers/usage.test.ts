@@ -169,4 +169,34 @@ describe('trackUsageCore', () => {
 
     expect(mockCreateSolvaPay).not.toHaveBeenCalled()
   })
+
+  it('queues transient failures in the instance usage outbox', async () => {
+    mockGetAuth.mockResolvedValue({
+      userId: 'user_123',
+      email: null,
+      name: null,
+    })
+    mockTrackUsage.mockRejectedValue(new TypeError('fetch failed'))
+    const usageOutbox = { add: vi.fn(async () => {}), start: vi.fn() }
+    const apiClient = {}
+
+    const result = await trackUsageCore(
+      fakeRequest(),
+      { units: 1 },
+      {
+        solvaPay: {
+          ensureCustomer: mockEnsureCustomer,
+          trackUsage: mockTrackUsage,
+          usageOutbox,
+          apiClient,
+        } as never,
+      },
+    )
+
+    const sent = mockTrackUsage.mock.calls[0]![0]
+    expect(sent.idempotencyKey).toMatch(/^usage-/)
+    expect(usageOutbox.add).toHaveBeenCalledWith(sent, expect.any(TypeError))
+    expect(usageOutbox.start).toHaveBeenCalledWith(apiClient)
+    expect(result).toEqual({ success: false, queued: true, idempotencyKey: sent.idempotencyKey })
+  })
 })
@@ -5,6 +5,8 @@ import { createSolvaPay } from '../factory'
 import { handleRouteError, isErrorResult } from './error'
 import { getAuthenticatedUserCore } from './auth'
 import { checkPurchaseCore } from './purchase'
+import { isRetryableUsageError } from '../usage'
+import { generateIdempotencyKey } from '../utils'
 
 /**
  * Usage snapshot derived from the authenticated customer's active purchase.
@@ -77,6 +79,27 @@ export async function getUsageCore(
   }
 }
 
+/**
+ * Returned by {@link trackUsageCore} when the backend could not be
+ * reached and the event was stored in the instance's `usageOutbox`
+ * for replay.
+ *
+ * @since 2.1.0
+ */
+export interface QueuedTrackUsageResult {
+  success: false
+  queued: true
+  /** Key the event will be replayed with. */
+  idempotencyKey: string
+}
+
+/**
+ * Record a usage event for the authenticated customer.
+ *
+ * When the SolvaPay instance has a `usageOutbox`, a transient failure
+ * (rate limit, 5xx, network) stores the event for replay and resolves
+ * a {@link QueuedTrackUsageResult} instead of an error.
+ */
 export async function trackUsageCore(
   request: Request,
   body: {
@@ -90,7 +113,7 @@ export async function trackUsageCore(
   options: {
     solvaPay?: SolvaPay
   } = {},
-): Promise<TrackUsageResponse | ErrorResult> {
+): Promise<TrackUsageResponse | QueuedTrackUsageResult | ErrorResult> {
   try {
     const userResult = await getAuthenticatedUserCore(request)
 
@@ -106,17 +129,25 @@ export async function trackUsageCore(
       name: name || undefined,
     })
 
-    const result = await solvaPay.trackUsage({
+    const outbox = solvaPay.usageOutbox
+    const event = {
       customerRef,
       actionType: body.actionType,
       units: body.units,
       productRef: body.productRef,
       description: body.description,
       metadata: body.metadata,
-      idempotencyKey: body.idempotencyKey,
-    })
+      idempotencyKey: body.idempotencyKey ?? (outbox ? generateIdempotencyKey('usage') : undefined),
+    }
 
-    return result
+    try {
+      return await solvaPay.trackUsage(event)
+    } catch (error) {
+      if (!outbox || !isRetryableUsageError(error)) throw error
+      await outbox.add(event, error)
+      outbox.start(solvaPay.apiClient)
+      return { success: false, queued: true, idempotencyKey: event.idempotencyKey! }
+    }
   } catch (error) {
     return handleRouteError(error, 'Track usage', 'Track usage failed')
   }
@@ -6,8 +6,20 @@
  */
 
 import crypto from 'node:crypto'
-import { SolvaPayError } from '@solvapay/core'
 import type { WebhookEvent } from './types/webhook'
+import {
+  createWebhookRouterImpl,
+  parseWebhookBody,
+  parseWebhookSignature,
+  resolveWebhookSecrets,
+  WebhookVerificationError,
+} from './webhooks'
+import type {
+  VerifyWebhookParams,
+  WebhookRouter,
+  WebhookRouterOptions,
+  WebhookVerificationResult,
+} from './webhooks'
 
 // Main factory for unified API
 export { createSolvaPay } from './factory'
@@ -19,6 +31,11 @@ export type {
   PayableGateResult,
   PayablePaywallResult,
   PayableAllowResult,
+  FastifyPayableRoute,
+  FastifyPayablePlugin,
+  SolvaPayFastifyInstance,
+  SolvaPayFastifyRequest,
+  EntitlementGuard,
 } from './factory'
 
 // Re-export client creation (for advanced use cases)
@@ -30,15 +47,19 @@ export type { ServerClientOptions } from './client'
  *
  * The backend sends an `SV-Signature` header in the format `t={timestamp},v1={hmac}`.
  * The HMAC is SHA-256 over `"{timestamp}.{rawBody}"` keyed by the full webhook secret
- * (including the `whsec_` prefix). Signatures older than 5 minutes are rejected to
- * prevent replay attacks.
+ * (including the `whsec_` prefix). Signatures older than `toleranceSec` (default 5
+ * minutes) are rejected to prevent replay attacks.
+ *
+ * Pass several secrets while rotating the signing secret in the dashboard — each is
+ * tried in order. Use {@link verifyWebhookSignature} to learn which one matched.
  *
  * @param params - Webhook verification parameters
  * @param params.body - Raw request body as string (must be exactly as received)
  * @param params.signature - Value of the `SV-Signature` header
- * @param params.secret - Webhook signing secret from SolvaPay dashboard (`whsec_…`)
+ * @param params.secret - Webhook signing secret from SolvaPay dashboard (`whsec_…`), or a list of secrets
+ * @param params.toleranceSec - Maximum signature age in seconds (default: 300, `0` disables)
  * @returns Parsed and typed {@link WebhookEvent} object
- * @throws {SolvaPayError} If signature is missing, malformed, expired, or invalid
+ * @throws {WebhookVerificationError} If signature is missing, malformed, expired, or invalid, or the body is not JSON
  *
  * @example
  * ```typescript
@@ -67,56 +88,100 @@ export type { ServerClientOptions } from './client'
  * @see [Webhook Guide](../../../docs/guides/webhooks.md) for complete webhook handling examples
  * @since 1.0.0
  */
-export function verifyWebhook({
+export function verifyWebhook(params: VerifyWebhookParams): WebhookEvent {
+  return verifyWebhookSignature(params).event
+}
+
+/**
+ * Verify a webhook delivery and report which secret matched.
+ *
+ * Same checks as {@link verifyWebhook}; additionally returns the index of the
+ * matching secret and the signature timestamp, so a rotation can be retired once
+ * no delivery matches the old secret any more.
+ *
+ * @example
+ * ```typescript
+ * const { event, secretIndex } = verifyWebhookSignature({
+ *   body,
+ *   signature,
+ *   secret: [process.env.SOLVAPAY_WEBHOOK_SECRET!, process.env.SOLVAPAY_WEBHOOK_SECRET_PREVIOUS!],
+ * })
+ * if (secretIndex > 0) console.warn('Webhook signed with the previous secret')
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function verifyWebhookSignature({
   body,
   signature,
   secret,
-}: {
-  body: string
-  signature: string
-  secret: string
-}): WebhookEvent {
-  const toleranceSec = 300
-  if (!signature) throw new SolvaPayError('Missing webhook signature')
-
-  const parts = signature.split(',')
-  const tPart = parts.find(p => p.startsWith('t='))
-  const v1Part = parts.find(p => p.startsWith('v1='))
-  if (!tPart || !v1Part) {
-    throw new SolvaPayError('Malformed webhook signature')
-  }
-
-  const timestamp = parseInt(tPart.slice(2), 10)
-  const receivedHmac = v1Part.slice(3)
-  if (Number.isNaN(timestamp) || !receivedHmac) {
-    throw new SolvaPayError('Malformed webhook signature')
-  }
+  toleranceSec,
+}: VerifyWebhookParams): WebhookVerificationResult {
+  const secrets = resolveWebhookSecrets(secret)
+  const { timestamp, signatures } = parseWebhookSignature(signature, toleranceSec)
 
-  if (toleranceSec > 0) {
-    const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp)
-    if (age > toleranceSec) {
-      throw new SolvaPayError('Webhook signature timestamp too old')
-    }
+  const received = signatures.map(hmac => Buffer.from(hmac))
+  const secretIndex = secrets.findIndex(candidate => {
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', candidate).update(`${timestamp}.${body}`).digest('hex'),
+    )
+    return received.some(
+      hmac => hmac.length === expected.length && crypto.timingSafeEqual(expected, hmac),
+    )
+  })
+  if (secretIndex === -1) {
+    throw new WebhookVerificationError('mismatch', 'Invalid webhook signature')
   }
 
-  const expectedHmac = crypto
-    .createHmac('sha256', secret)
-    .update(`${timestamp}.${body}`)
-    .digest('hex')
-
-  if (receivedHmac.length !== expectedHmac.length) {
-    throw new SolvaPayError('Invalid webhook signature')
-  }
-  const ok = crypto.timingSafeEqual(Buffer.from(expectedHmac), Buffer.from(receivedHmac))
-  if (!ok) throw new SolvaPayError('Invalid webhook signature')
+  return { event: parseWebhookBody(body), secretIndex, timestamp }
+}
 
-  try {
-    return JSON.parse(body) as WebhookEvent
-  } catch {
-    throw new SolvaPayError('Invalid webhook payload: body is not valid JSON')
-  }
+/**
+ * Create a webhook router with typed per-event handlers, idempotency and
+ * framework adapters. Signatures are checked with {@link verifyWebhook}.
+ *
+ * Each `event.id` runs its handlers at most once per `seenEventTtlMs`;
+ * pass a shared `seenEventStore` (any `PaywallStore`) so retries and
+ * replays are deduplicated across replicas. A throwing handler responds
+ * `500` and releases the id, so the backend's retry runs it again.
+ *
+ * @example
+ * ```typescript
+ * import express from 'express'
+ * import { createWebhookRouter } from '@solvapay/server'
+ *
+ * const webhooks = createWebhookRouter({ secret: process.env.SOLVAPAY_WEBHOOK_SECRET })
+ *   .on('purchase.created', async event => {
+ *     await grantAccess(event.data.object)
+ *   })
+ *   .on('customer.updated', async event => {
+ *     await syncProfile(event.data.object.email)
+ *   })
+ *
+ * app.post('/webhooks/solvapay', express.raw({ type: 'application/json' }), webhooks.express())
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createWebhookRouter(options: WebhookRouterOptions = {}): WebhookRouter {
+  return createWebhookRouterImpl(options, verifyWebhookSignature)
 }
 
+export { WebhookVerificationError } from './webhooks'
+export type {
+  VerifyWebhookParams,
+  WebhookVerificationResult,
+  WebhookVerificationFailureReason,
+  WebhookRouter,
+  WebhookRouterOptions,
+  WebhookRouterResult,
+  WebhookHandler,
+  WebhookAnyHandler,
+  WebhookHandlerContext,
+  WebhookExpressRequest,
+  WebhookExpressResponse,
+} from './webhooks'
+
 // Export PaywallError for error handling
 export { PaywallError, paywallErrorToClientPayload } from './paywall'
 export type { ProtectHandlerContext } from './paywall'
@@ -133,6 +198,87 @@ export { buildPaywallGate } from './paywall-gate'
 export { buildGateMessage, buildNudgeMessage, classifyPaywallState } from './paywall-state'
 export type { PaywallState } from './paywall-state'
 
+// Variable-unit metering — handlers return `withUnits(data, units)` to
+// bill more (or less) than one unit per call.
+export { withUnits, isMeteredResult } from './units'
+export type { MeteredResult, UsageUnits } from './units'
+
+// Plan entitlements — feature flags and limits that gate access without
+// recording usage.
+export { EntitlementError } from './entitlements'
+export type {
+  Entitlements,
+  EntitlementsSnapshot,
+  EntitlementsOptions,
+  EntitlementPlan,
+  EntitlementRequirement,
+  EntitlementHandlerContext,
+  RequireEntitlementOptions,
+} from './entitlements'
+
+// Per-customer rate limits (`payable({ rateLimit })`).
+export { PLAN_RATE_LIMIT_KEYS, parseRateLimitRate } from './rate-limit'
+export type { RateLimitOptions, RateLimitRate } from './rate-limit'
+
+// Optional OpenTelemetry instrumentation (`createSolvaPay({ telemetry })`).
+export type {
+  SolvaPayTelemetryOptions,
+  TelemetryAttributes,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+} from './telemetry'
+
+// Pluggable paywall state backends (limits cache + customer-ref mapping).
+export {
+  createMemoryPaywallStore,
+  createRedisPaywallStore,
+  createKvPaywallStore,
+  createDurableObjectPaywallStore,
+  PaywallStoreDurableObject,
+} from './store'
+export type {
+  PaywallStore,
+  PaywallStoreSetOptions,
+  MemoryPaywallStoreOptions,
+  RedisCommand,
+  RedisPaywallStoreOptions,
+  KvNamespaceLike,
+  KvPaywallStoreOptions,
+  DurableObjectNamespaceLike,
+  DurableObjectStubLike,
+  DurableObjectStorageLike,
+  DurableObjectPaywallStoreOptions,
+} from './store'
+
+// Opt-in batching (`usageBuffer`) and durable replay (`usageOutbox`) for
+// paywall usage events.
+export {
+  createUsageBuffer,
+  createUsageOutbox,
+  isRetryableUsageError,
+  createMemoryUsageOutboxStorage,
+  createFileUsageOutboxStorage,
+  createKvUsageOutboxStorage,
+} from './usage'
+export type {
+  UsageBuffer,
+  UsageBufferOptions,
+  UsageOutbox,
+  UsageOutboxEntry,
+  UsageOutboxMetrics,
+  UsageOutboxOptions,
+  UsageOutboxReplayResult,
+  UsageOutboxStorage,
+  MemoryUsageOutboxStorageOptions,
+  FileUsageOutboxStorageOptions,
+  UsageOutboxFileSystem,
+  KvUsageOutboxNamespaceLike,
+  KvUsageOutboxStorageOptions,
+} from './usage'
+
 // Export virtual tools for MCP server monetization
 export { createVirtualTools, VIRTUAL_TOOL_DEFINITIONS } from './virtual-tools'
 export type { VirtualToolsOptions, VirtualToolDefinition } from './virtual-tools'
@@ -142,19 +288,34 @@ export type { McpServerLike, RegisterVirtualToolsMcpOptions } from './register-v
 // Export types
 export type {
   components,
+  paths,
   LimitActivationBalance,
   LimitActivationProduct,
   LimitPlanSummary,
   LimitResponseWithPlan,
   SolvaPayClient,
+  SolvaPayRequestOptions,
+  ClientRetryOptions,
   PayableOptions,
   HttpAdapterOptions,
   NextAdapterOptions,
+  PayableRouteOptions,
+  HonoAdapterOptions,
+  FastifyAdapterOptions,
+  FastifyPayablePluginOptions,
+  KoaAdapterOptions,
+  EstimatedUnits,
   PaywallArgs,
   PaywallDecision,
+  PaywallDecisionMeter,
+  PaywallMeter,
   PaywallMetadata,
   PaywallStructuredContent,
+  ReserveOptions,
   RetryOptions,
+  UsageMeterType,
+  UsageReservation,
+  UsageReservationState,
   WebhookEvent,
   WebhookEventType,
   WebhookEventForType,
@@ -178,6 +339,11 @@ export type {
   SaveAutoRechargeInput,
   AutoRechargeResponse,
   SaveAutoRechargeResponse,
+  SpendingLimitsConfig,
+  SpendingLimitsInput,
+  SpendingLimitsResponse,
+  SaveSpendingLimitsResponse,
+  SpendingLimitStatus,
   McpBootstrapRequest,
   McpBootstrapResponse,
   McpBootstrapPlanInput,
@@ -203,6 +369,8 @@ export { withRetry } from './utils'
 // Export route helpers (generic, framework-agnostic)
 export {
   getAuthenticatedUserCore,
+  verifyJwt,
+  JwtVerificationError,
   syncCustomerCore,
   getCustomerBalanceCore,
   createPaymentIntentCore,
@@ -219,6 +387,9 @@ export {
   getAutoRechargeCore,
   saveAutoRechargeCore,
   disableAutoRechargeCore,
+  getSpendingLimitsCore,
+  saveSpendingLimitsCore,
+  disableSpendingLimitsCore,
   checkPurchaseCore,
   trackUsageCore,
   getUsageCore,
@@ -238,4 +409,10 @@ export type {
   CustomerBalanceResult,
   PurchaseCheckResult,
   GetUsageResult,
+  QueuedTrackUsageResult,
+  GetAuthenticatedUserOptions,
+  JwtVerificationOptions,
+  JwtClaimMapping,
+  JwtClaimSelector,
+  JwtVerificationFailureReason,
 } from './helpers'
@@ -47,7 +47,7 @@ function allPaidPlansArePayg(plans: LimitPlanSummary[] | undefined): boolean {
 export function buildPaywallGate(
   productRef: string,
   limits: LimitsLike,
-): PaywallStructuredContent {
+): Exclude<PaywallStructuredContent, { kind: 'rate_limited' }> {
   const checkoutUrl = limits.checkoutUrl
 
   // `classifyPaywallState` requires the `plan` field — fall back to the
@@ -71,7 +71,11 @@ export function buildPaywallGate(
     state.kind === 'topup_required' &&
     allPaidPlansArePayg(limits.plans)
 
-  const preMessage: PaywallStructuredContent =
+  // A spending cap is lifted by raising it, not by buying more, so the
+  // gate offers no checkout link for the client to render.
+  const budgetExceeded = state.kind === 'budget_exceeded'
+
+  const preMessage: Exclude<PaywallStructuredContent, { kind: 'rate_limited' }> =
     limits.activationRequired || useActivationForTopup
       ? {
           kind: 'activation_required',
@@ -88,8 +92,9 @@ export function buildPaywallGate(
       : {
           kind: 'payment_required',
           product: productRef,
-          checkoutUrl: checkoutUrl || '',
+          checkoutUrl: budgetExceeded ? '' : checkoutUrl || '',
           message: '',
+          ...(budgetExceeded ? { reason: 'budget_exceeded' as const } : {}),
           ...(limits.balance !== undefined ? { balance: limits.balance } : {}),
           ...(limits.product !== undefined ? { productDetails: limits.product } : {}),
         }
@@ -18,12 +18,15 @@ import type { LimitResponseWithPlan, PaywallStructuredContent } from './types'
  * Discriminated union describing which recovery path the customer
  * needs. Every state maps to exactly one primary recovery tool except
  * `reactivation_required`, which surfaces two alternatives (rare).
+ * `budget_exceeded` is the customer's own spending cap, so the
+ * recovery is raising it (`manage_account`), not paying more.
  */
 export type PaywallState =
   | { kind: 'activation_required' }
   | { kind: 'topup_required' }
   | { kind: 'upgrade_required' }
   | { kind: 'reactivation_required' }
+  | { kind: 'budget_exceeded' }
 
 /**
  * Classify a `LimitResponseWithPlan` (or `null` on degraded paths) into
@@ -32,14 +35,17 @@ export type PaywallState =
  * Precedence:
  *  1. `activationRequired === true` — trumps everything else; the
  *     backend explicitly flagged that no plan is live yet.
- *  2. Usage-based plan out of credits — the customer has a plan but
+ *  2. `spendingLimit` spend at or over the cap — the customer's own
+ *     monthly cap blocks usage even with credits or plan quota left,
+ *     and neither a topup nor an upgrade lifts it.
+ *  3. Usage-based plan out of credits — the customer has a plan but
  *     ran out, so a topup is the right action. "Out of credits" is
  *     determined from (in order): the nested
  *     `balance.creditBalance === 0` block, the top-level
  *     `creditBalance === 0` field, or `remaining === 0` as a
  *     fallback for older backend responses that omit both credit
  *     fields on usage-based plans.
- *  3. Everything else → `upgrade_required`, including:
+ *  4. Everything else → `upgrade_required`, including:
  *     - `limits === null` (defensive),
  *     - no active plan on the product,
  *     - recurring plan at period cap (`remaining <= 0`).
@@ -59,6 +65,8 @@ export function classifyPaywallState(
     return { kind: 'activation_required' }
   }
 
+  if (isOverSpendingCap(limits)) return { kind: 'budget_exceeded' }
+
   const activePlan = limits.plans?.find(p => p.reference === limits.plan)
   // A resolved plan with `type === 'usage-based'` is authoritative.
   // Presence of the `balance` block is an older-backend proxy for
@@ -90,6 +98,21 @@ export function classifyPaywallState(
   return { kind: 'upgrade_required' }
 }
 
+function isOverSpendingCap(limits: LimitResponseWithPlan): boolean {
+  const cap = limits.spendingLimit
+  return cap !== undefined && cap.monthlySpendMinor >= cap.monthlyCapMinor
+}
+
+/**
+ * Share of the monthly spending cap used so far, as a whole percent, or
+ * `null` when the customer has no cap.
+ */
+function spendingCapPercent(limits: LimitResponseWithPlan | null): number | null {
+  const cap = limits?.spendingLimit
+  if (!cap || cap.monthlyCapMinor <= 0) return null
+  return Math.min(100, Math.floor((cap.monthlySpendMinor / cap.monthlyCapMinor) * 100))
+}
+
 /**
  * Produce the terminal-friendly gate message. Names exactly one
  * recovery tool (`upgrade` / `topup` / `activate_plan`), except for
@@ -120,6 +143,10 @@ export function buildGateMessage(
       // swap `manage_account` with `upgrade` copy later if the
       // backend distinguishes "reactivate previous" from "new plan".
       return `Your previous plan is no longer active. Call the \`manage_account\` tool to reactivate it, or the \`upgrade\` tool to pick a new plan.`
+    case 'budget_exceeded':
+      // The checkout URL would sell more usage the cap then blocks, so
+      // it is deliberately left out.
+      return `You've reached the monthly spending limit set on your account. Call the \`manage_account\` tool to raise it, or wait for it to reset next month.`
   }
 }
 
@@ -130,10 +157,9 @@ export function buildGateMessage(
  * like a softer version of the same text-only nudge path.
  *
  * Receives the `PaywallState` the classifier would have produced if
- * the customer had tripped the gate. `upgrade_required` and
- * `topup_required` are the only kinds that currently produce nudge
- * copy; the others are no-ops (shouldn't happen — nudges only fire
- * on successful calls).
+ * the customer had tripped the gate. `budget_exceeded` is the budget
+ * warning: it names the share of the spending cap used when `limits`
+ * carries a `spendingLimit`.
  */
 export function buildNudgeMessage(
   state: PaywallState,
@@ -151,5 +177,13 @@ export function buildNudgeMessage(
       return `Heads up — this plan still needs activation. Call the \`activate_plan\` tool${visitClause}.`
     case 'reactivation_required':
       return `Heads up — your plan is no longer active. Call the \`manage_account\` tool to reactivate it${visitClause}.`
+    case 'budget_exceeded': {
+      const percent = spendingCapPercent(limits)
+      const used =
+        percent === null
+          ? "you're approaching your monthly spending limit"
+          : `you've used ${percent}% of your monthly spending limit`
+      return `Heads up — ${used}. Call the \`manage_account\` tool to raise it.`
+    }
   }
 }
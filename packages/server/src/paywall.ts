@@ -11,13 +11,35 @@ import type {
   LimitResponseWithPlan,
   PaywallArgs,
   PaywallDecision,
+  PaywallDecisionMeter,
+  PaywallMeter,
   PaywallMetadata,
   PaywallStructuredContent,
   PaywallToolResult,
+  ReserveOptions,
   SolvaPayClient,
+  TrackUsageRequest,
+  UsageReservation,
+  UsageReservationState,
 } from './types'
+import {
+  SolvaPayError,
+  SolvaPayNotFoundError,
+  createJsonLogger,
+  withRedaction,
+} from '@solvapay/core'
+import type { Logger } from '@solvapay/core'
 import { buildPaywallGate } from './paywall-gate'
-import { withRetry, createRequestDeduplicator } from './utils'
+import { classifyPaywallState } from './paywall-state'
+import { createRateLimiter } from './rate-limit'
+import type { RateLimiter } from './rate-limit'
+import { SPAN_STATUS_ERROR, createTelemetry } from './telemetry'
+import type { SolvaPayTelemetryOptions, Telemetry, TelemetryAttributes } from './telemetry'
+import { assertValidUnits, isMeteredResult, resolveMeterUnits } from './units'
+import { withRetry, createRequestDeduplicator, generateIdempotencyKey, isAbortError } from './utils'
+import { PaywallStoreKeys, createMemoryPaywallStore } from './store'
+import type { PaywallStore } from './store'
+import type { UsageBuffer, UsageOutbox } from './usage'
 
 // Re-export types for convenience
 export type {
@@ -98,12 +120,34 @@ export class PaywallError extends Error {
   }
 }
 
+/**
+ * Short label for a gate — the `PaywallError` message and the `error`
+ * field of the JSON body.
+ */
+export function paywallGateLabel(gate: PaywallStructuredContent): string {
+  if (gate.kind === 'activation_required') return 'Activation required'
+  if (gate.kind === 'rate_limited') return 'Rate limit exceeded'
+  return 'Payment required'
+}
+
 /** JSON body shape for HTTP adapters and MCP text content (stable fields for clients). */
 export function paywallErrorToClientPayload(error: PaywallError): Record<string, unknown> {
   const sc = error.structuredContent
+  if (sc.kind === 'rate_limited') {
+    return {
+      success: false,
+      error: paywallGateLabel(sc),
+      kind: 'rate_limited',
+      product: sc.product,
+      message: sc.message,
+      retryAfter: sc.retryAfter,
+      limit: sc.limit,
+      windowMs: sc.windowMs,
+    }
+  }
   const base: Record<string, unknown> = {
     success: false,
-    error: sc.kind === 'activation_required' ? 'Activation required' : 'Payment required',
+    error: paywallGateLabel(sc),
     product: sc.product,
     checkoutUrl: sc.checkoutUrl,
     message: sc.message,
@@ -140,8 +184,12 @@ const sharedCustomerLookupDeduplicator = createRequestDeduplicator<string>({
   cacheErrors: false, // Don't cache errors - retry on next request
 })
 
+/**
+ * Cached pre-check stored under `PaywallStoreKeys.limits(...)`. The
+ * units left in the allowance live under a separate counter key so
+ * the store can decrement them atomically across instances.
+ */
 interface LimitsCacheEntry {
-  remaining: number
   checkoutUrl?: string
   meterName?: string
   timestamp: number
@@ -153,6 +201,69 @@ interface LimitsCacheEntry {
   limits: LimitResponseWithPlan
 }
 
+/** A meter from `PaywallMetadata.meters` with its estimate resolved. */
+interface ResolvedMeter {
+  name: string
+  estimatedUnits?: number
+}
+
+/** Outcome of checking one meter inside `decide()`. */
+interface MeterCheck {
+  /** Meter name as configured — also the cache key segment. */
+  name: string
+  /** Units held against the cached allowance when allowed. */
+  heldUnits: number
+  withinLimits: boolean
+  limits?: LimitResponseWithPlan
+  checkoutUrl?: string
+  /** Meter name as resolved by the backend. */
+  meterName?: string
+}
+
+/**
+ * Span and metric attributes for a decision: the product, the meter
+ * that gated (or the first meter checked) and, on gates, the
+ * `classifyPaywallState` kind.
+ */
+function decisionAttributes(
+  product: string,
+  decision: PaywallDecision<PaywallArgs>,
+): TelemetryAttributes {
+  if (decision.outcome === 'allow') {
+    return {
+      'solvapay.paywall.outcome': 'allow',
+      'solvapay.product': product,
+      'solvapay.meter': decision.meters?.[0]?.name,
+    }
+  }
+  return {
+    'solvapay.paywall.outcome': 'gate',
+    'solvapay.product': product,
+    'solvapay.meter': decision.gate.meter,
+    'solvapay.paywall.state':
+      decision.gate.kind === 'rate_limited'
+        ? 'rate_limited'
+        : classifyPaywallState(decision.limits).kind,
+  }
+}
+
+/** How long an uncommitted `reserve()` hold lives by default. */
+const DEFAULT_RESERVATION_TTL_MS = 5 * 60_000
+
+/**
+ * How long an `ensureCustomer` ref mapping is shared through the store.
+ * Expiring it re-resolves the customer once a day instead of trusting
+ * a mapping forever.
+ */
+const CUSTOMER_MAPPING_TTL_MS = 24 * 60 * 60_000
+
+/**
+ * How long a creation-attempt marker holds back other replicas. Only
+ * long enough to cover an in-flight `createCustomer`; a failed attempt
+ * clears it so the next call retries.
+ */
+const CUSTOMER_ATTEMPT_TTL_MS = 5 * 60_000
+
 /**
  * Handler-scoped context passed as the optional second positional
  * argument to handlers registered via `paywall.protect(...)`.
@@ -193,25 +304,61 @@ const EXTRA_FORWARD_KEY = '__solvapayExtra' as const
  * Universal SolvaPay Protection - One API for everything
  */
 export class SolvaPayPaywall {
-  private customerCreationAttempts = new Set<string>()
-  private customerRefMapping = new Map<string, string>()
-  private debug: boolean
-  private limitsCache = new Map<string, LimitsCacheEntry>()
+  private logger: Logger
   private limitsCacheTTL: number
+  /**
+   * Backs the limits cache, the customer-ref mapping, and the
+   * creation-attempt markers. Defaults to a per-instance in-memory
+   * store; pass a shared backend to pool state across replicas.
+   */
+  private store: PaywallStore
+  /**
+   * When set, usage events are queued and sent in batches instead of
+   * one awaited `trackUsage` POST per request.
+   */
+  private usageBuffer?: UsageBuffer
+  /**
+   * When set, usage events that fail to send are persisted and
+   * replayed instead of being dropped.
+   */
+  private usageOutbox?: UsageOutbox
+  /**
+   * Units held by open `reserve()` holds, keyed by the meter's
+   * `remaining` counter key. They are not billed yet, so a fresh
+   * `checkLimits` still reports them as available; `checkMeter`
+   * subtracts them before caching the allowance. Per process: replicas
+   * only see each other's holds through the shared counter.
+   */
+  private reservedUnits = new Map<string, number>()
+  /** Spans and metrics; a no-op unless `telemetry` is configured. */
+  private telemetry: Telemetry
+  /** Counts calls for `rateLimit` metadata in the same store. */
+  private rateLimiter: RateLimiter
 
   constructor(
     private apiClient: SolvaPayClient,
-    options: { debug?: boolean; limitsCacheTTL?: number } = {},
+    options: {
+      /** Write debug output with the default logger. Ignored when `logger` is set. */
+      debug?: boolean
+      logger?: Logger
+      limitsCacheTTL?: number
+      store?: PaywallStore
+      usageBuffer?: UsageBuffer
+      usageOutbox?: UsageOutbox
+      telemetry?: SolvaPayTelemetryOptions
+      /** Plan limits of a customer, for `rateLimit: { fromPlan: true }`. */
+      planLimits?: (customerRef: string, product: string) => Promise<Record<string, number>>
+    } = {},
   ) {
-    this.debug = options.debug ?? process.env.SOLVAPAY_DEBUG === 'true'
+    this.logger = withRedaction(
+      options.logger ?? createJsonLogger(options.debug ? { level: 'debug' } : {}),
+    )
     this.limitsCacheTTL = options.limitsCacheTTL ?? 10_000
-  }
-
-  private log(...args: unknown[]): void {
-    if (this.debug) {
-      // eslint-disable-next-line no-console
-      console.log(...args)
-    }
+    this.store = options.store ?? createMemoryPaywallStore()
+    this.usageBuffer = options.usageBuffer
+    this.usageOutbox = options.usageOutbox
+    this.telemetry = createTelemetry(options.telemetry)
+    this.rateLimiter = createRateLimiter({ store: this.store, planLimits: options.planLimits })
   }
 
   private resolveProduct(metadata: PaywallMetadata): string {
@@ -231,7 +378,8 @@ export class SolvaPayPaywall {
    *
    * Side effects kept in lockstep with the legacy `protect()` path:
    *  - creates the backend customer on first use (`ensureCustomer`),
-   *  - updates the limits cache (consume-one-unit bookkeeping), and
+   *  - updates the limits cache (holds `metadata.estimatedUnits`,
+   *    default 1, against the cached allowance), and
    *  - emits a `paywall` usage event on gate outcomes.
    *
    * `trackUsage` for the `success` / `fail` outcome is emitted by the
@@ -246,9 +394,30 @@ export class SolvaPayPaywall {
     getCustomerRef?: (args: TArgs) => string,
   ): Promise<PaywallDecision<TArgs>> {
     const product = this.resolveProduct(metadata)
-    const usageType = metadata.usageType || 'requests'
+    return this.telemetry.span(
+      'solvapay.paywall.decide',
+      { 'solvapay.product': product },
+      async span => {
+        const decision = await this.decideFor(product, args, metadata, getCustomerRef)
+        const attributes = decisionAttributes(product, decision)
+        for (const [key, value] of Object.entries(attributes)) {
+          if (value !== undefined) span.setAttribute(key, value)
+        }
+        this.telemetry.count('solvapay.paywall.decisions', attributes)
+        return decision
+      },
+    )
+  }
+
+  private async decideFor<TArgs extends PaywallArgs>(
+    product: string,
+    args: TArgs,
+    metadata: PaywallMetadata,
+    getCustomerRef?: (args: TArgs) => string,
+  ): Promise<PaywallDecision<TArgs>> {
     const requestId = this.generateRequestId()
     const startTime = Date.now()
+    const meters = await this.resolveMeters(args, metadata)
 
     const inputCustomerRef = getCustomerRef
       ? getCustomerRef(args)
@@ -261,82 +430,38 @@ export class SolvaPayPaywall {
       backendCustomerRef = await this.ensureCustomer(inputCustomerRef, inputCustomerRef)
     }
 
-    const limitsCacheKey = `${backendCustomerRef}:${product}:${usageType}`
-    const cachedLimits = this.limitsCache.get(limitsCacheKey)
-    const now = Date.now()
-
-    let withinLimits: boolean
-    let remaining: number
-    let checkoutUrl: string | undefined
-    let resolvedMeterName: string | undefined
-    let lastLimitsCheck: LimitResponseWithPlan | undefined
-
-    const hasFreshCachedLimits = cachedLimits && now - cachedLimits.timestamp < this.limitsCacheTTL
-
-    if (hasFreshCachedLimits) {
-      checkoutUrl = cachedLimits.checkoutUrl
-      resolvedMeterName = cachedLimits.meterName
-      // Surface the cached `LimitResponseWithPlan` so the downstream
-      // handler context carries balance/plan even on cache hits.
-      lastLimitsCheck = cachedLimits.limits
-
-      if (cachedLimits.remaining > 0) {
-        cachedLimits.remaining--
-        if (cachedLimits.remaining <= 0) {
-          this.limitsCache.delete(limitsCacheKey)
-        }
-        withinLimits = true
-        remaining = cachedLimits.remaining
-      } else {
-        // A zero-remaining entry indicates we already consumed the final unit.
-        // Block one immediate follow-up request from cache, then force re-check next time.
-        withinLimits = false
-        remaining = 0
-        this.limitsCache.delete(limitsCacheKey)
-      }
-    } else {
-      if (cachedLimits) {
-        this.limitsCache.delete(limitsCacheKey)
-      }
-      const limitsCheck = await this.apiClient.checkLimits({
-        customerRef: backendCustomerRef,
-        productRef: product,
-        meterName: usageType,
-        // `paywall.decide()` bakes `checkoutUrl` into the 402
-        // `PaywallStructuredContent` (consumed by
-        // `<PaywallNotice.HostedCheckoutLink>`), so we opt in. Other
-        // callers of `apiClient.checkLimits` (notably
-        // `checkLimitsCore`, which powers the React `useLimits` hook)
-        // leave this unset and the backend skips the session-creation
-        // side effect.
-        includeCheckoutSession: true,
-      })
-
-      lastLimitsCheck = limitsCheck
-      withinLimits = limitsCheck.withinLimits
-      remaining = limitsCheck.remaining
-      checkoutUrl = limitsCheck.checkoutUrl
-      resolvedMeterName = limitsCheck.meterName
-
-      const consumedAllowance = withinLimits && remaining > 0
-      if (consumedAllowance) {
-        // checkLimits reflects pre-request allowance. Consume one unit for this in-flight request
-        // so cached follow-up requests don't get an extra free call.
-        remaining = Math.max(0, remaining - 1)
+    // Rate-limited calls are turned away before any allowance is held
+    // and are not recorded as usage.
+    if (metadata.rateLimit) {
+      const gate = await this.rateLimiter.consume(backendCustomerRef, product, metadata.rateLimit)
+      if (gate) {
+        return { outcome: 'gate', gate, limits: null, customerRef: backendCustomerRef }
       }
+    }
 
-      if (consumedAllowance) {
-        this.limitsCache.set(limitsCacheKey, {
-          remaining,
-          checkoutUrl,
-          meterName: resolvedMeterName,
-          timestamp: now,
-          limits: limitsCheck,
-        })
+    // Meters are checked in order and the first one out of allowance
+    // gates the call, so a tool metering one request plus N tokens is
+    // never half-charged.
+    const allowed: MeterCheck[] = []
+    let tripped: MeterCheck | undefined
+    for (const meter of meters) {
+      const check = await this.checkMeter(backendCustomerRef, product, meter)
+      if (!check.withinLimits) {
+        tripped = check
+        break
       }
+      allowed.push(check)
     }
 
-    if (!withinLimits) {
+    if (tripped) {
+      // Hand back what the meters checked before this one held.
+      await Promise.all(
+        allowed.map(check =>
+          this.settleUnits(backendCustomerRef, metadata, check.heldUnits, 0, check.name),
+        ),
+      ).catch(() => undefined)
+
+      const meterName = tripped.meterName || tripped.name
       const latencyMs = Date.now() - startTime
       // Awaited (not floated) so the call survives runtimes that
       // terminate the request context as soon as the response returns
@@ -346,48 +471,378 @@ export class SolvaPayPaywall {
       // paywall never decrements free-quota and never gates. Errors
       // are swallowed because tracking failures must never escalate
       // into tool-call failures.
+      //
+      // Instances created with `usageBuffer` trade that round trip for
+      // a queue: `trackUsage` returns immediately and the event is
+      // sent with the next batch, kept alive by the buffer's
+      // `waitUntil` hook on request-scoped runtimes.
       await this.trackUsage(
         backendCustomerRef,
         product,
-        resolvedMeterName || usageType,
+        meterName,
         'paywall',
         requestId,
         latencyMs,
       ).catch(() => undefined)
 
-      // Delegate gate construction to `buildPaywallGate` so adapter
-      // paths and `payable.gate()` produce byte-identical wire shapes.
-      const gate = buildPaywallGate(
-        product,
-        lastLimitsCheck ?? {
-          withinLimits: false,
-          remaining: 0,
-          plan: '',
-          ...(checkoutUrl !== undefined ? { checkoutUrl } : {}),
-        },
-      )
-
       return {
         outcome: 'gate',
-        gate,
-        limits: lastLimitsCheck ?? null,
+        gate: this.gateFor(product, tripped),
+        limits: tripped.limits ?? null,
         customerRef: backendCustomerRef,
       }
     }
 
-    // `withinLimits` implies `lastLimitsCheck` was populated — the
-    // cache-hit branch always sets it from the cached entry and the
-    // cache-miss branch assigns `limitsCheck` directly. The non-null
-    // assertion keeps the `allow` payload's `limits` field strictly
+    // `withinLimits` implies `limits` was populated — the cache-hit
+    // branch always sets it from the cached entry and the cache-miss
+    // branch assigns the `checkLimits` response directly. The non-null
+    // assertions keep the `allow` payload's `limits` fields strictly
     // typed.
+    const [primary] = allowed
     return {
       outcome: 'allow',
       args,
-      limits: lastLimitsCheck!,
+      limits: primary!.limits!,
       customerRef: backendCustomerRef,
+      estimatedUnits: primary!.heldUnits,
+      meters: allowed.map(check => ({
+        name: check.name,
+        limits: check.limits!,
+        estimatedUnits: check.heldUnits,
+      })),
     }
   }
 
+  /**
+   * Gate content for a meter that is out of allowance, naming the meter.
+   * Delegates to `buildPaywallGate` so adapter paths and
+   * `payable.gate()` produce byte-identical wire shapes.
+   */
+  private gateFor(product: string, check: MeterCheck): PaywallStructuredContent {
+    return {
+      ...buildPaywallGate(
+        product,
+        check.limits ?? {
+          withinLimits: false,
+          remaining: 0,
+          plan: '',
+          ...(check.checkoutUrl !== undefined ? { checkoutUrl: check.checkoutUrl } : {}),
+        },
+      ),
+      meter: check.meterName || check.name,
+    }
+  }
+
+  /**
+   * Check one meter against the limits cache, falling back to a fresh
+   * `checkLimits` call, and hold the meter's estimated units against
+   * the cached allowance when the call is allowed.
+   *
+   * With `reserve`, an allowed hold is also recorded in
+   * `reservedUnits` before any further `await`, so concurrent fresh
+   * checks in this process see it.
+   */
+  private async checkMeter(
+    customerRef: string,
+    product: string,
+    meter: ResolvedMeter,
+    options: { reserve?: boolean } = {},
+  ): Promise<MeterCheck> {
+    const { name, estimatedUnits } = meter
+    const heldUnits = estimatedUnits ?? 1
+    const limitsKey = PaywallStoreKeys.limits(customerRef, product, name)
+    const remainingKey = PaywallStoreKeys.limitsRemaining(customerRef, product, name)
+    const clearLimitsCache = () =>
+      Promise.all([this.store.delete(limitsKey), this.store.delete(remainingKey)])
+    const cachedLimits = await this.store.get<LimitsCacheEntry>(limitsKey)
+    const now = Date.now()
+
+    const hasFreshCachedLimits = cachedLimits && now - cachedLimits.timestamp < this.limitsCacheTTL
+    // Hold the estimated units against the shared counter. The
+    // decrement is atomic in the store, so concurrent requests on other
+    // instances each see a distinct post-decrement value. `undefined`
+    // means the counter expired or was evicted — treat it as a cache miss.
+    const cachedRemaining = hasFreshCachedLimits
+      ? await this.store.decrement(remainingKey, heldUnits)
+      : undefined
+
+    const meterAttributes = { 'solvapay.product': product, 'solvapay.meter': name }
+    if (hasFreshCachedLimits && cachedRemaining !== undefined) {
+      this.telemetry.count('solvapay.limits_cache.hits', meterAttributes)
+      const check: MeterCheck = {
+        name,
+        heldUnits,
+        withinLimits: cachedRemaining >= 0,
+        checkoutUrl: cachedLimits.checkoutUrl,
+        meterName: cachedLimits.meterName,
+        // Surface the cached `LimitResponseWithPlan` so the downstream
+        // handler context carries balance/plan even on cache hits.
+        limits: cachedLimits.limits,
+      }
+      if (options.reserve && check.withinLimits) this.addReservedUnits(remainingKey, heldUnits)
+      // A counter at zero is spent; a negative one means the allowance
+      // cannot cover this request (possibly consumed by another
+      // instance), so the request is blocked from cache. Either way
+      // the next request re-checks.
+      if (cachedRemaining <= 0) {
+        await clearLimitsCache()
+      }
+      return check
+    }
+
+    this.telemetry.count('solvapay.limits_cache.misses', meterAttributes)
+    if (cachedLimits) {
+      await clearLimitsCache()
+    }
+    const limitsCheck = await this.telemetry.span(
+      'solvapay.paywall.check_limits',
+      meterAttributes,
+      async span => {
+        const response = await this.apiClient.checkLimits({
+          customerRef,
+          productRef: product,
+          meterName: name,
+          // `paywall.decide()` bakes `checkoutUrl` into the 402
+          // `PaywallStructuredContent` (consumed by
+          // `<PaywallNotice.HostedCheckoutLink>`), so we opt in. Other
+          // callers of `apiClient.checkLimits` (notably
+          // `checkLimitsCore`, which powers the React `useLimits` hook)
+          // leave this unset and the backend skips the session-creation
+          // side effect.
+          includeCheckoutSession: true,
+        })
+        span.setAttribute('solvapay.limits.within_limits', response.withinLimits)
+        span.setAttribute('solvapay.limits.remaining', response.remaining)
+        return response
+      },
+    )
+
+    let withinLimits = limitsCheck.withinLimits
+    let remaining = limitsCheck.remaining
+
+    if (withinLimits && remaining > 0) {
+      remaining -= this.reservedUnits.get(remainingKey) ?? 0
+      // Pre-flight: a call estimated to need more than the allowance
+      // left is gated before it runs. Explicit estimates only, so the
+      // default one-unit path keeps its behaviour.
+      withinLimits = estimatedUnits !== undefined ? remaining >= estimatedUnits : remaining > 0
+    }
+    if (options.reserve && withinLimits) this.addReservedUnits(remainingKey, heldUnits)
+
+    const consumedAllowance = withinLimits && remaining > 0
+    if (consumedAllowance) {
+      // checkLimits reflects pre-request allowance. Hold the estimate for this in-flight
+      // request so cached follow-up requests don't get extra free units.
+      remaining = Math.max(0, remaining - heldUnits)
+
+      // Counter first: a reader that finds the entry but not yet the
+      // counter falls back to a fresh check instead of a stale count.
+      await this.store.set(remainingKey, remaining, { ttlMs: this.limitsCacheTTL })
+      await this.store.set<LimitsCacheEntry>(
+        limitsKey,
+        {
+          checkoutUrl: limitsCheck.checkoutUrl,
+          meterName: limitsCheck.meterName,
+          timestamp: now,
+          limits: limitsCheck,
+        },
+        { ttlMs: this.limitsCacheTTL },
+      )
+    }
+
+    return {
+      name,
+      heldUnits,
+      withinLimits,
+      checkoutUrl: limitsCheck.checkoutUrl,
+      meterName: limitsCheck.meterName,
+      limits: limitsCheck,
+    }
+  }
+
+  /**
+   * Settle the units `decide()` held against the cached allowance with
+   * the units actually billed, so the cache tracks real consumption
+   * rather than the estimate. `units` may be lower than the hold (the
+   * difference is returned) or higher (the extra is consumed). A no-op
+   * once the cached counter has expired — the next request re-checks.
+   *
+   * `meter` defaults to `metadata.usageType`; pass it to settle one of
+   * several `metadata.meters`.
+   *
+   * Exposed for `payable.gate()`, whose caller reports units after the
+   * decision; `runAllow()` settles on its own.
+   *
+   * @since 2.1.0
+   */
+  async settleUnits(
+    customerRef: string,
+    metadata: PaywallMetadata,
+    heldUnits: number,
+    units: number,
+    meter: string = metadata.usageType || 'requests',
+  ): Promise<void> {
+    const delta = units - heldUnits
+    if (delta === 0) return
+    const product = this.resolveProduct(metadata)
+    const remainingKey = PaywallStoreKeys.limitsRemaining(customerRef, product, meter)
+    await this.store.decrement(remainingKey, delta)
+  }
+
+  private addReservedUnits(remainingKey: string, units: number): void {
+    const next = (this.reservedUnits.get(remainingKey) ?? 0) + units
+    if (next > 0) this.reservedUnits.set(remainingKey, next)
+    else this.reservedUnits.delete(remainingKey)
+  }
+
+  /**
+   * Hold `units` against a customer's allowance until the caller
+   * commits or releases them. See `SolvaPay.reserve`.
+   *
+   * @throws {PaywallError} If the allowance cannot cover the hold
+   * @since 2.1.0
+   */
+  async reserve(options: ReserveOptions): Promise<UsageReservation> {
+    const { units } = options
+    assertValidUnits(units)
+    const metadata: PaywallMetadata = { product: options.product }
+    const product = this.resolveProduct(metadata)
+    const meter = options.meter || 'requests'
+    const ttlMs = options.ttlMs ?? DEFAULT_RESERVATION_TTL_MS
+    const customerRef = options.customerRef.startsWith('cus_')
+      ? options.customerRef
+      : await this.ensureCustomer(options.customerRef, options.customerRef)
+
+    const check = await this.checkMeter(
+      customerRef,
+      product,
+      { name: meter, estimatedUnits: units },
+      { reserve: true },
+    )
+    if (!check.withinLimits) {
+      const gate = this.gateFor(product, check)
+      await this.trackUsage(
+        customerRef,
+        product,
+        check.meterName || meter,
+        'paywall',
+        this.generateRequestId(),
+        0,
+      ).catch(() => undefined)
+      throw new PaywallError(paywallGateLabel(gate), gate)
+    }
+
+    const id = generateIdempotencyKey('hold')
+    const createdAt = Date.now()
+    const remainingKey = PaywallStoreKeys.limitsRemaining(customerRef, product, meter)
+    let state: UsageReservationState = 'held'
+
+    // Moves the hold out of `held` exactly once; later settles see false.
+    const settle = (next: UsageReservationState): boolean => {
+      if (state !== 'held') return false
+      state = next
+      clearTimeout(timer)
+      return true
+    }
+    const returnHold = async () => {
+      this.addReservedUnits(remainingKey, -units)
+      await this.settleUnits(customerRef, metadata, units, 0, meter)
+    }
+
+    const timer = setTimeout(() => {
+      if (settle('expired')) void returnHold().catch(() => undefined)
+    }, ttlMs)
+    // Never keep a Node process alive just to expire a hold.
+    ;(timer as { unref?: () => void }).unref?.()
+
+    return {
+      id,
+      customerRef,
+      product,
+      meter,
+      units,
+      expiresAt: createdAt + ttlMs,
+      limits: check.limits ?? null,
+      get state() {
+        return state
+      },
+      commit: async (actualUnits = units) => {
+        assertValidUnits(actualUnits, 'actualUnits')
+        if (!settle('committed')) {
+          throw new SolvaPayError(`Reservation ${id} is already ${state}`)
+        }
+        try {
+          await this.settleUnits(customerRef, metadata, units, actualUnits, meter)
+          await this.trackUsage(
+            customerRef,
+            product,
+            check.meterName || meter,
+            'success',
+            id,
+            Date.now() - createdAt,
+            actualUnits,
+          )
+        } finally {
+          // Dropped only once the usage event is sent, so a fresh check
+          // in between cannot count the units as available again.
+          this.addReservedUnits(remainingKey, -units)
+        }
+      },
+      release: async () => {
+        if (settle('released')) await returnHold()
+      },
+    }
+  }
+
+  /**
+   * Normalise `metadata.meters` (or the single `usageType` /
+   * `estimatedUnits` pair) into the ordered list of meters to check.
+   * The top-level `estimatedUnits` applies to the first meter.
+   */
+  private async resolveMeters<TArgs extends PaywallArgs>(
+    args: TArgs,
+    metadata: PaywallMetadata,
+  ): Promise<ResolvedMeter[]> {
+    const specs: PaywallMeter[] = metadata.meters?.length
+      ? metadata.meters.map(meter => (typeof meter === 'string' ? { name: meter } : meter))
+      : [{ name: metadata.usageType || 'requests' }]
+
+    const seen = new Set<string>()
+    return Promise.all(
+      specs.map(async (spec, index) => {
+        if (seen.has(spec.name)) {
+          throw new SolvaPayError(`Meter "${spec.name}" is listed more than once`)
+        }
+        seen.add(spec.name)
+        const estimate = (index === 0 ? metadata.estimatedUnits : undefined) ?? spec.estimatedUnits
+        if (estimate === undefined) return { name: spec.name }
+        const units = typeof estimate === 'function' ? await estimate(args) : estimate
+        assertValidUnits(units, `estimatedUnits for meter "${spec.name}"`)
+        return { name: spec.name, estimatedUnits: units }
+      }),
+    )
+  }
+
+  /**
+   * Meters an `allow` decision holds units on. Decisions built by
+   * hand (tests, older callers) carry no `meters`; treat them as the
+   * single meter named by `metadata.usageType`.
+   */
+  private allowedMeters(
+    decision: Extract<PaywallDecision<PaywallArgs>, { outcome: 'allow' }>,
+    metadata: PaywallMetadata,
+  ): PaywallDecisionMeter[] {
+    return (
+      decision.meters ?? [
+        {
+          name: metadata.usageType || 'requests',
+          limits: decision.limits,
+          estimatedUnits: decision.estimatedUnits ?? 1,
+        },
+      ]
+    )
+  }
+
   /**
    * Execute the handler for an already-obtained `allow` decision and
    * emit the post-handler `trackUsage('success' | 'fail', ...)` event.
@@ -411,49 +866,83 @@ export class SolvaPayPaywall {
     args: TArgs,
   ): Promise<TResult> {
     const product = this.resolveProduct(metadata)
-    const usageType = metadata.usageType || 'requests'
     const requestId = this.generateRequestId()
     const startTime = Date.now()
+    const meters = this.allowedMeters(decision, metadata)
 
     const forwardedExtra = (args as unknown as Record<string, unknown>)[EXTRA_FORWARD_KEY]
+    // The handler receives the extra via `handlerContext`; keep it out
+    // of `args`, which handlers commonly log or serialise.
+    delete (args as unknown as Record<string, unknown>)[EXTRA_FORWARD_KEY]
     const handlerContext: ProtectHandlerContext = {
       customerRef: decision.customerRef,
       limits: decision.limits,
       ...(forwardedExtra !== undefined ? { extra: forwardedExtra } : {}),
     }
 
+    const settle = (units: Record<string, number>) =>
+      Promise.all(
+        meters.map(meter =>
+          this.settleUnits(
+            decision.customerRef,
+            metadata,
+            meter.estimatedUnits,
+            units[meter.name] ?? 0,
+            meter.name,
+          ),
+        ),
+      ).catch(() => undefined)
+
     try {
       const result = await handler(args, handlerContext)
       const latencyMs = Date.now() - startTime
+      // Handlers report variable usage by returning `withUnits(data, n)`;
+      // anything else bills a single unit on each meter.
+      const units = resolveMeterUnits(
+        meters.map(meter => meter.name),
+        isMeteredResult(result) ? result.units : undefined,
+      )
+      await settle(units)
       // See note on the `paywall` outcome above — awaited so the
       // usage event survives request-scoped runtimes (Workers /
       // Edge), where a floated fetch is killed when the response
       // returns and `sumForMeter` never sees the event.
-      await this.trackUsage(
-        decision.customerRef,
-        product,
-        decision.limits.meterName || usageType,
-        'success',
-        requestId,
-        latencyMs,
-      ).catch(() => undefined)
-      return result
+      await Promise.all(
+        meters.map(meter =>
+          this.trackUsage(
+            decision.customerRef,
+            product,
+            meter.limits.meterName || meter.name,
+            'success',
+            requestId,
+            latencyMs,
+            units[meter.name],
+          ).catch(() => undefined),
+        ),
+      )
+      return (isMeteredResult(result) ? result.data : result) as TResult
     } catch (error) {
-      if (error instanceof Error) {
-        const errorType = error instanceof PaywallError ? 'PaywallError' : 'API Error'
-        this.log(`❌ Error in paywall [${errorType}]: ${error.message}`)
-      } else {
-        this.log(`❌ Error in paywall:`, error)
-      }
+      this.logger.debug('Paywalled handler failed', {
+        product,
+        customerRef: decision.customerRef,
+        paywall: error instanceof PaywallError,
+        error,
+      })
+      // Failed calls do not consume allowance — return the holds.
+      await settle({})
       if (!(error instanceof PaywallError)) {
         const latencyMs = Date.now() - startTime
+        // A cancelled call is a failure the customer chose; tag it so
+        // it reads apart from handler errors.
         await this.trackUsage(
           decision.customerRef,
           product,
-          decision.limits.meterName || usageType,
+          decision.limits.meterName || meters[0]!.name,
           'fail',
           requestId,
           latencyMs,
+          1,
+          isAbortError(error) ? { reason: 'cancelled' } : undefined,
         ).catch(() => undefined)
       }
       throw error
@@ -492,9 +981,12 @@ export class SolvaPayPaywall {
       const decision = await this.decide(args, metadata, getCustomerRef)
 
       if (decision.outcome === 'gate') {
-        const message =
-          decision.gate.kind === 'activation_required' ? 'Activation required' : 'Payment required'
-        this.log(`❌ Error in paywall [PaywallError]: ${message}`)
+        const message = paywallGateLabel(decision.gate)
+        this.logger.debug('Paywall gated request', {
+          product: this.resolveProduct(metadata),
+          customerRef: decision.customerRef,
+          kind: decision.gate.kind,
+        })
         throw new PaywallError(message, decision.gate)
       }
 
@@ -519,9 +1011,20 @@ export class SolvaPayPaywall {
     externalRef?: string,
     options?: { email?: string; name?: string },
   ): Promise<string> {
-    // Return cached mapping if exists (per-instance cache)
-    if (this.customerRefMapping.has(customerRef)) {
-      return this.customerRefMapping.get(customerRef)!
+    return this.telemetry.span('solvapay.paywall.ensure_customer', {}, () =>
+      this.resolveCustomer(customerRef, externalRef, options),
+    )
+  }
+
+  private async resolveCustomer(
+    customerRef: string,
+    externalRef?: string,
+    options?: { email?: string; name?: string },
+  ): Promise<string> {
+    // Return cached mapping if exists (shared through the paywall store)
+    const mappedRef = await this.store.get<string>(PaywallStoreKeys.customerRef(customerRef))
+    if (mappedRef) {
+      return mappedRef
     }
 
     // Skip for anonymous users
@@ -540,12 +1043,6 @@ export class SolvaPayPaywall {
     // This is especially important when multiple routes call ensureCustomer concurrently
     const cacheKey = externalRef || customerRef
 
-    // Check if we have a cached result in per-instance cache first (fast path)
-    if (this.customerRefMapping.has(customerRef)) {
-      const cached = this.customerRefMapping.get(customerRef)!
-      return cached
-    }
-
     // Use shared deduplicator (handles both concurrent requests and cache)
     const backendRef = await sharedCustomerLookupDeduplicator.deduplicate(cacheKey, async () => {
       // If externalRef is provided, try to lookup existing customer first
@@ -556,13 +1053,13 @@ export class SolvaPayPaywall {
           if (existingCustomer && existingCustomer.customerRef) {
             const ref = existingCustomer.customerRef
 
-            // Store the mapping for future use (per-instance cache)
-            this.customerRefMapping.set(customerRef, ref)
+            // Store the mapping for future use (paywall store)
+            await this.setCustomerMapping(customerRef, ref)
 
             // Also track that we've attempted creation for this externalRef to prevent duplicates
-            this.customerCreationAttempts.add(customerRef)
+            await this.markCreationAttempt(customerRef)
             if (externalRef !== customerRef) {
-              this.customerCreationAttempts.add(externalRef)
+              await this.markCreationAttempt(externalRef)
             }
 
             return ref
@@ -570,9 +1067,16 @@ export class SolvaPayPaywall {
         } catch (error) {
           // 404 means customer doesn't exist yet - this is expected, continue to creation
           const errorMessage = error instanceof Error ? error.message : String(error)
-          if (!errorMessage.includes('404') && !errorMessage.includes('not found')) {
+          const notFound =
+            error instanceof SolvaPayNotFoundError ||
+            errorMessage.includes('404') ||
+            errorMessage.includes('not found')
+          if (!notFound) {
             // Unexpected error - log but continue to fallback behavior
-            this.log(`⚠️  Error looking up customer by externalRef: ${errorMessage}`)
+            this.logger.debug('Customer lookup by externalRef failed', {
+              customerRef,
+              error,
+            })
           }
         }
       }
@@ -580,23 +1084,23 @@ export class SolvaPayPaywall {
       // If already attempted but no mapping, use original ref
       // Check both customerRef and externalRef to prevent duplicates
       if (
-        this.customerCreationAttempts.has(customerRef) ||
-        (externalRef && this.customerCreationAttempts.has(externalRef))
+        (await this.hasCreationAttempt(customerRef)) ||
+        (externalRef && (await this.hasCreationAttempt(externalRef)))
       ) {
         // If we have a mapping, use it; otherwise return the original ref
-        const mappedRef = this.customerRefMapping.get(customerRef)
-        return mappedRef || customerRef
+        const attemptedRef = await this.store.get<string>(PaywallStoreKeys.customerRef(customerRef))
+        return attemptedRef || customerRef
       }
 
       // Skip if createCustomer is not available
       if (!this.apiClient.createCustomer) {
-        console.warn(
-          `⚠️  Cannot auto-create customer ${customerRef}: createCustomer method not available on API client`,
-        )
+        this.logger.warn('Cannot auto-create customer: API client has no createCustomer', {
+          customerRef,
+        })
         return customerRef
       }
 
-      this.customerCreationAttempts.add(customerRef)
+      await this.markCreationAttempt(customerRef)
 
       try {
         // Prepare customer creation params
@@ -626,8 +1130,8 @@ export class SolvaPayPaywall {
         const resultObj = result as unknown as Record<string, string>
         const ref = resultObj.customerRef || resultObj.reference || customerRef
 
-        // Store the mapping (per-instance cache)
-        this.customerRefMapping.set(customerRef, ref)
+        // Store the mapping (paywall store)
+        await this.setCustomerMapping(customerRef, ref)
 
         return ref
       } catch (error: unknown) {
@@ -638,14 +1142,14 @@ export class SolvaPayPaywall {
             try {
               const searchResult = await this.apiClient.getCustomer({ externalRef })
               if (searchResult && searchResult.customerRef) {
-                this.customerRefMapping.set(customerRef, searchResult.customerRef)
+                await this.setCustomerMapping(customerRef, searchResult.customerRef)
                 return searchResult.customerRef
               }
             } catch (lookupError: unknown) {
-              this.log(
-                `⚠️ Failed to lookup existing customer by externalRef after 409:`,
-                lookupError instanceof Error ? lookupError.message : lookupError,
-              )
+              this.logger.debug('Customer lookup by externalRef failed after conflict', {
+                customerRef,
+                error: lookupError,
+              })
             }
           }
 
@@ -659,10 +1163,11 @@ export class SolvaPayPaywall {
             try {
               const byEmail = await this.apiClient.getCustomer({ email: options.email })
               if (byEmail && byEmail.customerRef) {
-                this.customerRefMapping.set(customerRef, byEmail.customerRef)
-                this.log(
-                  `⚠️ Resolved customer ${customerRef} by email after conflict; using existing customer ${byEmail.customerRef}`,
-                )
+                await this.setCustomerMapping(customerRef, byEmail.customerRef)
+                this.logger.debug('Resolved conflicting customer by email', {
+                  customerRef,
+                  backendRef: byEmail.customerRef,
+                })
 
                 // Best-effort: backfill externalRef so the next lookup takes the
                 // fast getCustomer({externalRef}) path and we don't trip the
@@ -672,20 +1177,20 @@ export class SolvaPayPaywall {
                   try {
                     await this.apiClient.updateCustomer(byEmail.customerRef, { externalRef })
                   } catch (backfillError: unknown) {
-                    this.log(
-                      `⚠️ Failed to backfill externalRef on ${byEmail.customerRef}:`,
-                      backfillError instanceof Error ? backfillError.message : backfillError,
-                    )
+                    this.logger.debug('Customer externalRef backfill failed', {
+                      backendRef: byEmail.customerRef,
+                      error: backfillError,
+                    })
                   }
                 }
 
                 return byEmail.customerRef
               }
             } catch (emailLookupError: unknown) {
-              this.log(
-                `⚠️ Email lookup failed after customer conflict for ${customerRef}:`,
-                emailLookupError instanceof Error ? emailLookupError.message : emailLookupError,
-              )
+              this.logger.debug('Customer lookup by email failed after conflict', {
+                customerRef,
+                error: emailLookupError,
+              })
             }
 
             try {
@@ -708,16 +1213,17 @@ export class SolvaPayPaywall {
               const retryObj = retryResult as unknown as Record<string, string>
               const retryRef = retryObj.customerRef || retryObj.reference || customerRef
 
-              this.customerRefMapping.set(customerRef, retryRef)
-              this.log(
-                `⚠️ Retried customer creation for ${customerRef} with generated email after email conflict`,
-              )
+              await this.setCustomerMapping(customerRef, retryRef)
+              this.logger.debug('Created customer with a generated email after conflict', {
+                customerRef,
+                backendRef: retryRef,
+              })
               return retryRef
             } catch (retryError: unknown) {
-              this.log(
-                `⚠️ Retry create customer with generated email failed for ${customerRef}:`,
-                retryError instanceof Error ? retryError.message : retryError,
-              )
+              this.logger.debug('Customer creation with a generated email failed', {
+                customerRef,
+                error: retryError,
+              })
             }
           }
 
@@ -725,28 +1231,49 @@ export class SolvaPayPaywall {
           // Returning the original app user ID here causes downstream 404s in payment APIs.
           const unresolvedMessage =
             errorMessage || 'Customer already exists but could not be resolved'
+          await this.clearCreationAttempt(customerRef)
           throw new Error(
             `Failed to resolve existing customer for ${customerRef} after conflict: ${unresolvedMessage}. ` +
               'Ensure the existing customer is linked to this externalRef.',
           )
         }
 
-        this.log(
-          `❌ Failed to auto-create customer ${customerRef}:`,
-          error instanceof Error ? error.message : error,
-        )
+        this.logger.debug('Customer auto-creation failed', { customerRef, error })
+        // Without the mapping, a lingering marker would make every later
+        // call skip creation and return the raw app id.
+        await this.clearCreationAttempt(customerRef)
         throw error
       }
     })
 
-    // Store the mapping in per-instance cache for faster subsequent lookups
+    // Store the mapping in the paywall store for faster subsequent lookups
     if (backendRef !== customerRef) {
-      this.customerRefMapping.set(customerRef, backendRef)
+      await this.setCustomerMapping(customerRef, backendRef)
     }
 
     return backendRef
   }
 
+  private setCustomerMapping(customerRef: string, backendRef: string): Promise<void> {
+    return this.store.set(PaywallStoreKeys.customerRef(customerRef), backendRef, {
+      ttlMs: CUSTOMER_MAPPING_TTL_MS,
+    })
+  }
+
+  private markCreationAttempt(customerRef: string): Promise<void> {
+    return this.store.set(PaywallStoreKeys.customerAttempt(customerRef), true, {
+      ttlMs: CUSTOMER_ATTEMPT_TTL_MS,
+    })
+  }
+
+  private clearCreationAttempt(customerRef: string): Promise<void> {
+    return this.store.delete(PaywallStoreKeys.customerAttempt(customerRef))
+  }
+
+  private async hasCreationAttempt(customerRef: string): Promise<boolean> {
+    return (await this.store.get<boolean>(PaywallStoreKeys.customerAttempt(customerRef))) === true
+  }
+
   async trackUsage(
     customerRef: string,
     productRef: string,
@@ -754,29 +1281,66 @@ export class SolvaPayPaywall {
     outcome: 'success' | 'paywall' | 'fail',
     requestId: string,
     actionDuration: number,
+    units = 1,
+    metadata?: Record<string, unknown>,
   ): Promise<void> {
-    await withRetry(
-      () =>
-        this.apiClient.trackUsage({
-          customerRef,
-          actionType: 'api_call',
-          units: 1,
-          outcome,
-          productRef,
-          duration: actionDuration,
-          metadata: { action: action || 'api_requests', requestId },
-          timestamp: new Date().toISOString(),
-        }),
-      {
+    const event: TrackUsageRequest = {
+      customerRef,
+      actionType: 'api_call',
+      units,
+      outcome,
+      productRef,
+      duration: actionDuration,
+      metadata: { action: action || 'api_requests', requestId, ...metadata },
+      timestamp: new Date().toISOString(),
+      // Fixed up front so the retries below and any outbox replay all
+      // carry the same key and the event is billed at most once.
+      idempotencyKey: generateIdempotencyKey('usage'),
+    }
+
+    const attributes = {
+      'solvapay.product': productRef,
+      'solvapay.meter': action,
+      'solvapay.usage.outcome': outcome,
+      'solvapay.usage.units': units,
+      'solvapay.usage.buffered': this.usageBuffer !== undefined,
+    }
+    await this.telemetry.span('solvapay.paywall.track_usage', attributes, async span => {
+      if (this.usageBuffer) {
+        this.usageBuffer.enqueue(event)
+        return
+      }
+
+      await withRetry(() => this.apiClient.trackUsage(event), {
         maxRetries: 2,
         initialDelay: 500,
         shouldRetry: error => error.message.includes('Customer not found'),
         onRetry: (_error, attempt) => {
-          console.warn(`⚠️  Customer not found (attempt ${attempt + 1}/3), retrying in 500ms...`)
+          this.logger.warn('Usage tracking: customer not found, retrying', {
+            customerRef,
+            attempt: attempt + 1,
+          })
         },
-      },
-    ).catch(error => {
-      console.error('Usage tracking failed:', error)
+      }).catch(async error => {
+        // Swallowed below, so record it here or the span reads as a success.
+        span.recordException(error instanceof Error ? error : String(error))
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: 'Usage tracking failed' })
+        if (!this.usageOutbox) {
+          this.logger.error('Usage tracking failed', { customerRef, productRef, error })
+          return
+        }
+        try {
+          await this.usageOutbox.add(event, error)
+          this.usageOutbox.start(this.apiClient)
+          span.setAttribute('solvapay.usage.outboxed', true)
+        } catch (outboxError) {
+          this.logger.error('Usage tracking failed and could not be stored for replay', {
+            customerRef,
+            productRef,
+            error: outboxError,
+          })
+        }
+      })
     })
   }
 }
@@ -784,8 +1348,8 @@ export class SolvaPayPaywall {
 /**
  * Universal SolvaPay factory - One API for MCP and HTTP
  */
-export function createPaywall(config: { apiClient: SolvaPayClient }) {
-  const paywall = new SolvaPayPaywall(config.apiClient)
+export function createPaywall(config: { apiClient: SolvaPayClient; store?: PaywallStore }) {
+  const paywall = new SolvaPayPaywall(config.apiClient, { store: config.store })
 
   // Functional approach - works for both MCP and HTTP
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,239 @@
+/**
+ * Per-customer rate limiting.
+ *
+ * Plan limits cap how much a customer uses per billing period; a rate
+ * limit caps how fast. `payable({ rateLimit })` checks it before the
+ * meters, so a customer on an unlimited plan still cannot burst an
+ * expensive tool. Counters live in the paywall store, so replicas
+ * sharing a store share the limit.
+ */
+
+import { SolvaPayError } from '@solvapay/core'
+import { PaywallStoreKeys } from './store'
+import type { PaywallStore } from './store'
+import type { PaywallStructuredContent } from './types'
+
+/**
+ * A rate: `'<calls>/<unit>'` such as `'60/min'`, `'10/s'` or
+ * `'1000/hour'` (units: `s`, `sec`, `second`, `m`, `min`, `minute`,
+ * `h`, `hr`, `hour`, `d`, `day`, optionally plural and prefixed with a
+ * count, e.g. `'100/10min'`), or an explicit `{ limit, windowMs }`.
+ *
+ * @since 2.1.0
+ */
+export type RateLimitRate = string | { limit: number; windowMs: number }
+
+/**
+ * `payable({ rateLimit })` options.
+ *
+ * @example
+ * ```typescript
+ * // 60 calls a minute, at most 10 of them back to back.
+ * solvaPay.payable({ product: 'prd_agent', rateLimit: { perCustomer: '60/min', burst: 10 } })
+ *
+ * // The rate from the customer's plan, with a default for plans without one.
+ * solvaPay.payable({ product: 'prd_agent', rateLimit: { fromPlan: true, perCustomer: '10/min' } })
+ * ```
+ *
+ * @since 2.1.0
+ */
+export interface RateLimitOptions {
+  /** Sustained calls each customer may make. */
+  perCustomer?: RateLimitRate
+  /**
+   * Calls a customer may make back to back before the sustained rate
+   * applies (default: the whole `perCustomer` allowance).
+   */
+  burst?: number
+  /**
+   * Read the rate from the customer's plan limits — `rateLimitPerMinute`
+   * and, optionally, `rateLimitBurst` — falling back to `perCustomer`
+   * and `burst` when the plan sets none.
+   */
+  fromPlan?: boolean
+}
+
+/**
+ * Plan limit keys read by `rateLimit: { fromPlan: true }`.
+ *
+ * @since 2.1.0
+ */
+export const PLAN_RATE_LIMIT_KEYS = {
+  perMinute: 'rateLimitPerMinute',
+  burst: 'rateLimitBurst',
+} as const
+
+/**
+ * A resolved rate limit: `capacity` calls per `slotMs` slot.
+ *
+ * The store offers atomic counters but no compare-and-swap, so the
+ * limiter counts calls in fixed slots rather than refilling a token
+ * bucket. A slot is as long as the sustained rate takes to earn
+ * `burst` calls, which keeps both the rate and the burst; a customer
+ * can fit up to two bursts across a slot boundary.
+ */
+interface RateLimitRule {
+  /** Sustained calls per `windowMs`, as configured. */
+  limit: number
+  windowMs: number
+  capacity: number
+  slotMs: number
+}
+
+const UNIT_MS: Record<string, number> = {
+  s: 1_000,
+  sec: 1_000,
+  second: 1_000,
+  m: 60_000,
+  min: 60_000,
+  minute: 60_000,
+  h: 3_600_000,
+  hr: 3_600_000,
+  hour: 3_600_000,
+  d: 86_400_000,
+  day: 86_400_000,
+}
+
+const RATE_PATTERN = /^\s*(\d+)\s*\/\s*(\d*)\s*([a-z]+?)s?\s*$/i
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+/**
+ * Parse a {@link RateLimitRate} into calls per window.
+ *
+ * @throws {SolvaPayError} When the rate is malformed
+ */
+export function parseRateLimitRate(rate: RateLimitRate): { limit: number; windowMs: number } {
+  if (typeof rate !== 'string') {
+    if (!isPositiveInteger(rate.limit) || !(rate.windowMs > 0)) {
+      throw new SolvaPayError(
+        'Invalid rate limit: limit must be a positive integer and windowMs positive',
+      )
+    }
+    return { limit: rate.limit, windowMs: rate.windowMs }
+  }
+
+  const match = RATE_PATTERN.exec(rate)
+  const unitMs = match ? UNIT_MS[match[3]!.toLowerCase()] : undefined
+  const limit = match ? Number(match[1]) : 0
+  const count = match?.[2] ? Number(match[2]) : 1
+  if (!unitMs || limit <= 0 || count <= 0) {
+    throw new SolvaPayError(`Invalid rate limit "${rate}": expected e.g. "60/min" or "10/s"`)
+  }
+  return { limit, windowMs: count * unitMs }
+}
+
+function toRule(
+  rate: { limit: number; windowMs: number },
+  burst: number | undefined,
+): RateLimitRule {
+  if (burst !== undefined && !isPositiveInteger(burst)) {
+    throw new SolvaPayError('Invalid rate limit: burst must be a positive integer')
+  }
+  const capacity = Math.min(burst ?? rate.limit, rate.limit)
+  return { ...rate, capacity, slotMs: (rate.windowMs * capacity) / rate.limit }
+}
+
+/**
+ * Resolve the rule that applies to a customer, or `null` when none does.
+ */
+function resolveRule(
+  options: RateLimitOptions,
+  planLimits: Record<string, number> | undefined,
+): RateLimitRule | null {
+  const planRate = planLimits?.[PLAN_RATE_LIMIT_KEYS.perMinute]
+  if (options.fromPlan && isPositiveInteger(planRate)) {
+    const planBurst = planLimits?.[PLAN_RATE_LIMIT_KEYS.burst]
+    return toRule(
+      { limit: planRate, windowMs: 60_000 },
+      isPositiveInteger(planBurst) ? planBurst : options.burst,
+    )
+  }
+  if (options.perCustomer === undefined) return null
+  return toRule(parseRateLimitRate(options.perCustomer), options.burst)
+}
+
+function describeWindow(windowMs: number): string {
+  if (windowMs === 1_000) return 'second'
+  if (windowMs === 60_000) return 'minute'
+  if (windowMs === 3_600_000) return 'hour'
+  if (windowMs === 86_400_000) return 'day'
+  return windowMs % 1_000 === 0 ? `${windowMs / 1_000} seconds` : `${windowMs} ms`
+}
+
+/**
+ * Gate content for a customer over their rate limit.
+ */
+function buildRateLimitGate(
+  product: string,
+  rule: RateLimitRule,
+  retryAfter: number,
+): PaywallStructuredContent {
+  const seconds = retryAfter === 1 ? '1 second' : `${retryAfter} seconds`
+  return {
+    kind: 'rate_limited',
+    product,
+    message: `Rate limit reached: this tool allows ${rule.limit} calls per ${describeWindow(rule.windowMs)}. Try again in ${seconds}.`,
+    retryAfter,
+    limit: rule.limit,
+    windowMs: rule.windowMs,
+  }
+}
+
+/**
+ * Rate limiter shared by every `payable` of a paywall.
+ *
+ * @internal
+ */
+export interface RateLimiter {
+  /**
+   * Count one call by `customerRef` to `product`. Resolves the gate to
+   * return when the call is over the limit, otherwise `null`.
+   */
+  consume(
+    customerRef: string,
+    product: string,
+    options: RateLimitOptions,
+  ): Promise<PaywallStructuredContent | null>
+}
+
+/**
+ * Create the {@link RateLimiter} backed by `store`. `planLimits`
+ * supplies the customer's plan limits for `fromPlan` rates.
+ *
+ * @internal
+ */
+export function createRateLimiter(deps: {
+  store: PaywallStore
+  planLimits?: (customerRef: string, product: string) => Promise<Record<string, number>>
+  now?: () => number
+}): RateLimiter {
+  const now = deps.now ?? Date.now
+
+  return {
+    async consume(customerRef, product, options) {
+      const planLimits =
+        options.fromPlan && deps.planLimits
+          ? await deps.planLimits(customerRef, product)
+          : undefined
+      const rule = resolveRule(options, planLimits)
+      if (!rule) return null
+
+      const at = now()
+      const slot = Math.floor(at / rule.slotMs)
+      const key = PaywallStoreKeys.rateLimit(customerRef, product, rule.slotMs, slot)
+
+      // The first call of a slot starts the counter in the same atomic
+      // step, so concurrent calls never all see a fresh slot.
+      const left = await deps.store.decrementOrCreate(key, 1, rule.capacity, {
+        ttlMs: Math.ceil(rule.slotMs),
+      })
+      if (left >= 0) return null
+
+      const retryAfter = Math.max(1, Math.ceil(((slot + 1) * rule.slotMs - at) / 1_000))
+      return buildRateLimitGate(product, rule, retryAfter)
+    },
+  }
+}
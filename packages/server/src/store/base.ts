@@ -0,0 +1,120 @@
+/**
+ * Paywall Store Interface
+ *
+ * Defines the contract for the key/value backends `SolvaPayPaywall` uses
+ * to share its limits cache and customer-ref bookkeeping across
+ * processes, serverless instances, and edge isolates.
+ */
+
+/**
+ * Options accepted by {@link PaywallStore.set}.
+ */
+export interface PaywallStoreSetOptions {
+  /**
+   * Time-to-live in milliseconds. Omit for entries that should live
+   * until explicitly deleted (or until the backend evicts them).
+   * Backends with a coarser TTL granularity (Cloudflare KV clamps to a
+   * 60 s minimum) round up — callers must not rely on sub-granularity
+   * expiry and should keep their own freshness timestamp when it matters.
+   */
+  ttlMs?: number
+}
+
+/**
+ * Pluggable key/value store backing the paywall's shared state.
+ *
+ * Implementations store JSON-serialisable values. The paywall writes
+ * these families of keys (all prefixed by the store's own namespace):
+ *
+ * - `limits:<customer>:<product>:<meter>` — cached `checkLimits` response
+ * - `limits:<customer>:<product>:<meter>:remaining` — atomic counter of
+ *   units left in the cached allowance
+ * - `customer:<ref>` / `customer-attempt:<ref>` — `ensureCustomer`
+ *   ref mapping and creation-attempt markers
+ * - `entitlements:<customer>:<product>` — cached plan entitlements
+ * - `ratelimit:<customer>:<product>:<slotMs>:<slot>` — calls left in a
+ *   rate-limit slot
+ * - `webhook-event:<id>` — webhook deliveries already claimed by a
+ *   router
+ *
+ * `decrement`, `decrementOrCreate` and `setIfAbsent` must be atomic
+ * across instances — they are what keep the cached `remaining`, the
+ * rate-limit slots and webhook deduplication honest when many replicas
+ * serve the same customer concurrently.
+ *
+ * @since 2.1.0
+ */
+export interface PaywallStore {
+  /**
+   * Read a value. Resolves `undefined` for missing or expired keys.
+   */
+  get<T = unknown>(key: string): Promise<T | undefined>
+
+  /**
+   * Write a value, replacing any existing entry.
+   */
+  set<T = unknown>(key: string, value: T, options?: PaywallStoreSetOptions): Promise<void>
+
+  /**
+   * Write a value only when `key` does not exist or has expired.
+   * Resolves `true` when this call wrote it, `false` when an entry was
+   * already there — exactly one of several concurrent callers wins.
+   */
+  setIfAbsent<T = unknown>(
+    key: string,
+    value: T,
+    options?: PaywallStoreSetOptions,
+  ): Promise<boolean>
+
+  /**
+   * Remove a key. Resolves even when the key does not exist.
+   */
+  delete(key: string): Promise<void>
+
+  /**
+   * Atomically subtract `amount` from the numeric counter stored at
+   * `key` and resolve the new value. Resolves `undefined` — without
+   * creating the key — when the counter does not exist or has expired,
+   * so callers can treat the miss as "refetch from the backend".
+   *
+   * The result may be negative: the paywall reads a negative value as
+   * "another instance consumed the final unit first".
+   */
+  decrement(key: string, amount: number): Promise<number | undefined>
+
+  /**
+   * Atomically subtract `amount` from the numeric counter stored at
+   * `key`, first creating it at `initial` (expiring after
+   * `options.ttlMs`) when it does not exist or has expired. Resolves
+   * the new value — `initial - amount` for the call that created it.
+   *
+   * Creating and decrementing happen in one step, so concurrent first
+   * calls each observe a distinct value instead of all starting a fresh
+   * counter.
+   */
+  decrementOrCreate(
+    key: string,
+    amount: number,
+    initial: number,
+    options?: PaywallStoreSetOptions,
+  ): Promise<number>
+}
+
+/**
+ * Key builders shared by the paywall and the store backends. Kept in
+ * one place so the on-the-wire key layout is stable across releases —
+ * changing a prefix here silently invalidates every shared cache.
+ */
+export const PaywallStoreKeys = {
+  limits: (customerRef: string, productRef: string, meter: string) =>
+    `limits:${customerRef}:${productRef}:${meter}`,
+  limitsRemaining: (customerRef: string, productRef: string, meter: string) =>
+    `limits:${customerRef}:${productRef}:${meter}:remaining`,
+  customerRef: (customerRef: string) => `customer:${customerRef}`,
+  customerAttempt: (customerRef: string) => `customer-attempt:${customerRef}`,
+  webhookEvent: (eventId: string) => `webhook-event:${eventId}`,
+  entitlements: (customerRef: string, productRef: string) =>
+    `entitlements:${customerRef}:${productRef}`,
+  rateLimit: (customerRef: string, productRef: string, slotMs: number, slot: number) =>
+    `ratelimit:${customerRef}:${productRef}:${slotMs}:${slot}`,
+} as const
@@ -0,0 +1,408 @@
+/**
+ * Cloudflare Paywall Stores
+ *
+ * Two backends for Workers deployments:
+ *
+ * - {@link createKvPaywallStore} — Workers KV. Cheap and globally
+ *   replicated, but eventually consistent: `decrement`,
+ *   `decrementOrCreate` and `setIfAbsent` are read-modify-writes and
+ *   are NOT atomic across isolates.
+ * - {@link createDurableObjectPaywallStore} + {@link PaywallStoreDurableObject}
+ *   — a Durable Object serialises every operation for its keys, so
+ *   the counters are atomic. Use this when the shared `remaining` must be
+ *   exact.
+ *
+ * Both are typed structurally against the Workers runtime so the SDK
+ * does not depend on `@cloudflare/workers-types`.
+ */
+
+import type { PaywallStore, PaywallStoreSetOptions } from './base'
+
+/**
+ * Structural subset of a Workers `KVNamespace` binding.
+ */
+export interface KvNamespaceLike {
+  get(key: string, type: 'text'): Promise<string | null>
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Options for {@link createKvPaywallStore}.
+ */
+export interface KvPaywallStoreOptions {
+  /** The KV namespace binding (e.g. `env.SOLVAPAY_PAYWALL`). */
+  namespace: KvNamespaceLike
+  /** Prefix prepended to every key (default: `'solvapay:paywall:'`). */
+  keyPrefix?: string
+}
+
+/** Workers KV rejects `expirationTtl` values below 60 seconds. */
+const KV_MIN_TTL_SECONDS = 60
+
+/**
+ * Create a {@link PaywallStore} backed by Workers KV.
+ *
+ * TTLs are rounded up to KV's 60 s minimum; the paywall keeps its own
+ * freshness timestamp on cached limits, so the shorter `limitsCacheTTL`
+ * is still honoured on read. The counters and `setIfAbsent` are
+ * best-effort — two isolates racing on the same key may both observe
+ * the same value, or both claim it. Use
+ * {@link createDurableObjectPaywallStore} when that matters.
+ *
+ * @example
+ * ```typescript
+ * export default {
+ *   async fetch(req: Request, env: Env) {
+ *     const solvaPay = createSolvaPay({
+ *       store: createKvPaywallStore({ namespace: env.SOLVAPAY_PAYWALL }),
+ *     })
+ *     // …
+ *   },
+ * }
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createKvPaywallStore(options: KvPaywallStoreOptions): PaywallStore {
+  const { namespace } = options
+  const prefix = options.keyPrefix ?? 'solvapay:paywall:'
+  const k = (key: string) => `${prefix}${key}`
+
+  const put = (key: string, value: unknown, ttlMs?: number) =>
+    namespace.put(
+      k(key),
+      JSON.stringify(value),
+      ttlMs !== undefined
+        ? { expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlMs / 1000)) }
+        : undefined,
+    )
+
+  const store: PaywallStore = {
+    async get<T = unknown>(key: string): Promise<T | undefined> {
+      const raw = await namespace.get(k(key), 'text')
+      if (raw === null) return undefined
+      try {
+        return JSON.parse(raw) as T
+      } catch {
+        return undefined
+      }
+    },
+
+    async set<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      await put(key, value, setOptions?.ttlMs)
+    },
+
+    async setIfAbsent<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      if ((await namespace.get(k(key), 'text')) !== null) return false
+      await put(key, value, setOptions?.ttlMs)
+      return true
+    },
+
+    async delete(key: string) {
+      await namespace.delete(k(key))
+    },
+
+    async decrement(key: string, amount: number): Promise<number | undefined> {
+      const current = await store.get<number>(key)
+      if (typeof current !== 'number') return undefined
+      const next = current - amount
+      // KV cannot report a key's remaining TTL, so the counter is
+      // re-written with the minimum TTL. The paired limits entry keeps
+      // its own timestamp and bounds how long the counter is trusted.
+      await put(key, next, KV_MIN_TTL_SECONDS * 1000)
+      return next
+    },
+
+    async decrementOrCreate(
+      key: string,
+      amount: number,
+      initial: number,
+      setOptions?: PaywallStoreSetOptions,
+    ): Promise<number> {
+      const current = await store.get<number>(key)
+      if (typeof current === 'number') {
+        const next = current - amount
+        await put(key, next, KV_MIN_TTL_SECONDS * 1000)
+        return next
+      }
+      const next = initial - amount
+      await put(key, next, setOptions?.ttlMs)
+      return next
+    },
+  }
+
+  return store
+}
+
+/**
+ * Structural subset of a Durable Object stub.
+ */
+export interface DurableObjectStubLike {
+  fetch(input: string, init?: RequestInit): Promise<Response>
+}
+
+/**
+ * Structural subset of a `DurableObjectNamespace` binding.
+ */
+export interface DurableObjectNamespaceLike {
+  idFromName(name: string): unknown
+  get(id: unknown): DurableObjectStubLike
+}
+
+/**
+ * Options for {@link createDurableObjectPaywallStore}.
+ */
+export interface DurableObjectPaywallStoreOptions {
+  /** Binding for a namespace whose class is {@link PaywallStoreDurableObject}. */
+  namespace: DurableObjectNamespaceLike
+  /** Object name (default: `'solvapay-paywall'`). */
+  name?: string
+  /**
+   * Spread keys over this many objects (default: 1). Each object
+   * serialises its own keys, so sharding raises throughput while
+   * keeping every individual key atomic.
+   */
+  shards?: number
+}
+
+type DurableObjectStoreRequest =
+  | { op: 'get'; key: string }
+  | { op: 'set'; key: string; value: unknown; ttlMs?: number }
+  | { op: 'setIfAbsent'; key: string; value: unknown; ttlMs?: number }
+  | { op: 'delete'; key: string }
+  | { op: 'decrement'; key: string; amount: number }
+  | { op: 'decrementOrCreate'; key: string; amount: number; initial: number; ttlMs?: number }
+
+/** FNV-1a — stable, dependency-free shard selection. */
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Create a {@link PaywallStore} that forwards every operation to a
+ * {@link PaywallStoreDurableObject}. Operations on one key are
+ * serialised by the object, so `decrement`, `decrementOrCreate` and
+ * `setIfAbsent` are atomic across isolates.
+ *
+ * @example
+ * ```typescript
+ * // worker.ts
+ * export { PaywallStoreDurableObject } from '@solvapay/server'
+ *
+ * export default {
+ *   async fetch(req: Request, env: Env) {
+ *     const solvaPay = createSolvaPay({
+ *       store: createDurableObjectPaywallStore({ namespace: env.SOLVAPAY_PAYWALL_DO }),
+ *     })
+ *     // …
+ *   },
+ * }
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createDurableObjectPaywallStore(
+  options: DurableObjectPaywallStoreOptions,
+): PaywallStore {
+  const { namespace } = options
+  const name = options.name ?? 'solvapay-paywall'
+  const shards = Math.max(1, Math.floor(options.shards ?? 1))
+
+  const call = async <T>(request: DurableObjectStoreRequest): Promise<T | undefined> => {
+    const objectName = shards === 1 ? name : `${name}:${hashKey(request.key) % shards}`
+    const stub = namespace.get(namespace.idFromName(objectName))
+    const res = await stub.fetch('https://paywall-store.solvapay.internal/', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!res.ok) {
+      throw new Error(`Paywall store ${request.op} failed (${res.status}): ${await res.text()}`)
+    }
+    const body = (await res.json()) as { value?: T }
+    return body.value ?? undefined
+  }
+
+  return {
+    get: <T = unknown>(key: string) => call<T>({ op: 'get', key }),
+    async set<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      await call({ op: 'set', key, value, ttlMs: setOptions?.ttlMs })
+    },
+    async setIfAbsent<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      const written = await call<boolean>({
+        op: 'setIfAbsent',
+        key,
+        value,
+        ttlMs: setOptions?.ttlMs,
+      })
+      return written === true
+    },
+    async delete(key: string) {
+      await call({ op: 'delete', key })
+    },
+    decrement: (key: string, amount: number) => call<number>({ op: 'decrement', key, amount }),
+    async decrementOrCreate(
+      key: string,
+      amount: number,
+      initial: number,
+      setOptions?: PaywallStoreSetOptions,
+    ) {
+      const value = await call<number>({
+        op: 'decrementOrCreate',
+        key,
+        amount,
+        initial,
+        ttlMs: setOptions?.ttlMs,
+      })
+      return value as number
+    },
+  }
+}
+
+/**
+ * Structural subset of `DurableObjectStorage`.
+ */
+export interface DurableObjectStorageLike {
+  get<T = unknown>(key: string): Promise<T | undefined>
+  put<T = unknown>(key: string, value: T): Promise<void>
+  delete(key: string): Promise<boolean>
+  list<T = unknown>(): Promise<Map<string, T>>
+  getAlarm(): Promise<number | null>
+  setAlarm(scheduledTime: number): Promise<void>
+}
+
+interface StoredEntry {
+  value: unknown
+  expiresAt?: number
+}
+
+/**
+ * Durable Object class backing {@link createDurableObjectPaywallStore}.
+ *
+ * Re-export it from your Worker entry and bind it in `wrangler.toml`:
+ *
+ * ```toml
+ * [[durable_objects.bindings]]
+ * name = "SOLVAPAY_PAYWALL_DO"
+ * class_name = "PaywallStoreDurableObject"
+ * ```
+ *
+ * Expired entries are dropped lazily on read and swept by an alarm
+ * scheduled for the earliest pending expiry.
+ *
+ * @since 2.1.0
+ */
+export class PaywallStoreDurableObject {
+  private storage: DurableObjectStorageLike
+
+  constructor(state: { storage: DurableObjectStorageLike }) {
+    this.storage = state.storage
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    let op: DurableObjectStoreRequest
+    try {
+      op = (await request.json()) as DurableObjectStoreRequest
+    } catch {
+      return new Response('Invalid paywall store request', { status: 400 })
+    }
+
+    switch (op.op) {
+      case 'get': {
+        const entry = await this.read(op.key)
+        return Response.json({ value: entry?.value })
+      }
+      case 'set': {
+        const expiresAt = op.ttlMs !== undefined ? Date.now() + op.ttlMs : undefined
+        await this.storage.put<StoredEntry>(op.key, {
+          value: op.value,
+          ...(expiresAt !== undefined ? { expiresAt } : {}),
+        })
+        if (expiresAt !== undefined) await this.scheduleSweep(expiresAt)
+        return Response.json({})
+      }
+      case 'setIfAbsent': {
+        // Input-gated like `decrement`: the miss and the write are one step.
+        if (await this.read(op.key)) return Response.json({ value: false })
+        const expiresAt = op.ttlMs !== undefined ? Date.now() + op.ttlMs : undefined
+        await this.storage.put<StoredEntry>(op.key, {
+          value: op.value,
+          ...(expiresAt !== undefined ? { expiresAt } : {}),
+        })
+        if (expiresAt !== undefined) await this.scheduleSweep(expiresAt)
+        return Response.json({ value: true })
+      }
+      case 'delete': {
+        await this.storage.delete(op.key)
+        return Response.json({})
+      }
+      case 'decrement': {
+        // The object's input gate holds other events until this handler
+        // yields to non-storage I/O, so this read-modify-write is atomic.
+        const entry = await this.read(op.key)
+        if (!entry || typeof entry.value !== 'number') return Response.json({})
+        const next = entry.value - op.amount
+        await this.storage.put<StoredEntry>(op.key, { ...entry, value: next })
+        return Response.json({ value: next })
+      }
+      case 'decrementOrCreate': {
+        // Same input-gate guarantee as `decrement`: nothing else runs
+        // between the miss and the write that starts the counter.
+        const entry = await this.read(op.key)
+        if (entry && typeof entry.value === 'number') {
+          const next = entry.value - op.amount
+          await this.storage.put<StoredEntry>(op.key, { ...entry, value: next })
+          return Response.json({ value: next })
+        }
+        const next = op.initial - op.amount
+        const expiresAt = op.ttlMs !== undefined ? Date.now() + op.ttlMs : undefined
+        await this.storage.put<StoredEntry>(op.key, {
+          value: next,
+          ...(expiresAt !== undefined ? { expiresAt } : {}),
+        })
+        if (expiresAt !== undefined) await this.scheduleSweep(expiresAt)
+        return Response.json({ value: next })
+      }
+      default:
+        return new Response('Unknown paywall store operation', { status: 400 })
+    }
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now()
+    let nextExpiry: number | undefined
+    const entries = await this.storage.list<StoredEntry>()
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt === undefined) continue
+      if (entry.expiresAt <= now) {
+        await this.storage.delete(key)
+      } else if (nextExpiry === undefined || entry.expiresAt < nextExpiry) {
+        nextExpiry = entry.expiresAt
+      }
+    }
+    if (nextExpiry !== undefined) await this.storage.setAlarm(nextExpiry)
+  }
+
+  private async read(key: string): Promise<StoredEntry | undefined> {
+    const entry = await this.storage.get<StoredEntry>(key)
+    if (!entry) return undefined
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.storage.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private async scheduleSweep(expiresAt: number): Promise<void> {
+    const current = await this.storage.getAlarm()
+    if (current === null || expiresAt < current) {
+      await this.storage.setAlarm(expiresAt)
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Paywall Stores Export
+ *
+ * Exports the store contract and every built-in backend
+ */
+
+export type { PaywallStore, PaywallStoreSetOptions } from './base'
+export { PaywallStoreKeys } from './base'
+export { createMemoryPaywallStore } from './memory'
+export type { MemoryPaywallStoreOptions } from './memory'
+export { createRedisPaywallStore } from './redis'
+export type { RedisCommand, RedisPaywallStoreOptions } from './redis'
+export {
+  createKvPaywallStore,
+  createDurableObjectPaywallStore,
+  PaywallStoreDurableObject,
+} from './cloudflare'
+export type {
+  KvNamespaceLike,
+  KvPaywallStoreOptions,
+  DurableObjectNamespaceLike,
+  DurableObjectStubLike,
+  DurableObjectStorageLike,
+  DurableObjectPaywallStoreOptions,
+} from './cloudflare'
@@ -0,0 +1,129 @@
+/**
+ * In-memory Paywall Store
+ *
+ * Default backend — per-process `Map` with lazy TTL expiry. Matches the
+ * paywall's historical behaviour (state is not shared across instances)
+ * and is the right choice for single-process servers and tests.
+ */
+
+import type { PaywallStore, PaywallStoreSetOptions } from './base'
+
+/**
+ * Options for {@link createMemoryPaywallStore}.
+ */
+export interface MemoryPaywallStoreOptions {
+  /**
+   * Maximum number of live entries before the oldest are evicted
+   * (default: 10 000). Keeps long-lived processes with many distinct
+   * customers from growing without bound.
+   */
+  maxEntries?: number
+}
+
+interface MemoryEntry {
+  value: unknown
+  expiresAt?: number
+}
+
+/**
+ * Create an in-memory {@link PaywallStore}.
+ *
+ * Expiry is evaluated lazily on read — no background timers are
+ * started, so constructing the store at module scope is safe on
+ * runtimes that forbid timers in the global scope (Cloudflare Workers).
+ *
+ * Pass the same instance to several `createSolvaPay({ store })` calls to
+ * share one cache between SolvaPay instances in the same process.
+ *
+ * @example
+ * ```typescript
+ * import { createSolvaPay, createMemoryPaywallStore } from '@solvapay/server'
+ *
+ * const store = createMemoryPaywallStore({ maxEntries: 50_000 })
+ * const solvaPay = createSolvaPay({ store })
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createMemoryPaywallStore(options: MemoryPaywallStoreOptions = {}): PaywallStore {
+  const maxEntries = options.maxEntries ?? 10_000
+  const entries = new Map<string, MemoryEntry>()
+
+  const read = (key: string): MemoryEntry | undefined => {
+    const entry = entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  const write = (key: string, entry: MemoryEntry): void => {
+    // Re-insert so `Map` iteration order tracks recency of writes.
+    entries.delete(key)
+    entries.set(key, entry)
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value
+      if (oldest === undefined) break
+      entries.delete(oldest)
+    }
+  }
+
+  return {
+    async get<T = unknown>(key: string): Promise<T | undefined> {
+      return read(key)?.value as T | undefined
+    },
+
+    async set<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      write(key, {
+        value,
+        ...(setOptions?.ttlMs !== undefined ? { expiresAt: Date.now() + setOptions.ttlMs } : {}),
+      })
+    },
+
+    async setIfAbsent<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      // No `await` between the check and the write, so it cannot interleave.
+      if (read(key)) return false
+      write(key, {
+        value,
+        ...(setOptions?.ttlMs !== undefined ? { expiresAt: Date.now() + setOptions.ttlMs } : {}),
+      })
+      return true
+    },
+
+    async delete(key: string) {
+      entries.delete(key)
+    },
+
+    async decrement(key: string, amount: number): Promise<number | undefined> {
+      // Single-threaded event loop: the read-modify-write below cannot
+      // interleave with another call, so it is atomic within the process.
+      const entry = read(key)
+      if (!entry || typeof entry.value !== 'number') return undefined
+      const next = entry.value - amount
+      entry.value = next
+      return next
+    },
+
+    async decrementOrCreate(
+      key: string,
+      amount: number,
+      initial: number,
+      setOptions?: PaywallStoreSetOptions,
+    ): Promise<number> {
+      // Synchronous from read to write, like `decrement`.
+      const entry = read(key)
+      if (entry && typeof entry.value === 'number') {
+        entry.value -= amount
+        return entry.value
+      }
+      const next = initial - amount
+      write(key, {
+        value: next,
+        ...(setOptions?.ttlMs !== undefined ? { expiresAt: Date.now() + setOptions.ttlMs } : {}),
+      })
+      return next
+    },
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Redis-protocol Paywall Store
+ *
+ * Talks to any server that speaks the Redis command protocol (Redis,
+ * Valkey, KeyDB, Dragonfly, Upstash) through a caller-supplied command
+ * function, so the SDK stays free of a hard client dependency.
+ */
+
+import type { PaywallStore, PaywallStoreSetOptions } from './base'
+
+/**
+ * Minimal Redis command executor. Receives the command name followed
+ * by its arguments and resolves the raw reply.
+ *
+ * @example
+ * ```typescript
+ * // ioredis
+ * const command: RedisCommand = args => redis.call(...(args as [string, ...string[]]))
+ *
+ * // node-redis v4+
+ * const command: RedisCommand = args => client.sendCommand(args.map(String))
+ * ```
+ */
+export type RedisCommand = (args: Array<string | number>) => Promise<unknown>
+
+/**
+ * Options for {@link createRedisPaywallStore}.
+ */
+export interface RedisPaywallStoreOptions {
+  /** Command executor bound to your Redis client. */
+  command: RedisCommand
+  /**
+   * Prefix prepended to every key (default: `'solvapay:paywall:'`).
+   * Use a distinct prefix per environment when several share one server.
+   */
+  keyPrefix?: string
+}
+
+/**
+ * Decrement only when the key exists — plain `DECRBY` would create a
+ * fresh `-amount` counter on a miss, which the paywall would read as
+ * "allowance exhausted" instead of "refetch". `DECRBY` keeps the key's
+ * existing TTL.
+ */
+const DECREMENT_IF_PRESENT_SCRIPT =
+  "if redis.call('EXISTS', KEYS[1]) == 0 then return false end " +
+  "return redis.call('DECRBY', KEYS[1], ARGV[1])"
+
+/**
+ * Start the counter at `ARGV[2]` with `SET NX` (plus `PX ARGV[3]` when
+ * a TTL is given) and decrement it, in one script so no other client
+ * can observe the key between the two steps.
+ */
+const DECREMENT_OR_CREATE_SCRIPT =
+  "if tonumber(ARGV[3]) > 0 then redis.call('SET', KEYS[1], ARGV[2], 'NX', 'PX', ARGV[3]) " +
+  "else redis.call('SET', KEYS[1], ARGV[2], 'NX') end " +
+  "return redis.call('DECRBY', KEYS[1], ARGV[1])"
+
+/**
+ * Create a {@link PaywallStore} backed by a Redis-protocol server.
+ *
+ * Values are stored as JSON strings; counters are stored as plain
+ * integers so `decrement` and `decrementOrCreate` run server-side in
+ * single Lua scripts and stay atomic across every replica sharing the server.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis'
+ * import { createSolvaPay, createRedisPaywallStore } from '@solvapay/server'
+ *
+ * const redis = new Redis(process.env.REDIS_URL!)
+ * const solvaPay = createSolvaPay({
+ *   store: createRedisPaywallStore({
+ *     command: args => redis.call(...(args as [string, ...string[]])),
+ *   }),
+ * })
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createRedisPaywallStore(options: RedisPaywallStoreOptions): PaywallStore {
+  const { command } = options
+  const prefix = options.keyPrefix ?? 'solvapay:paywall:'
+  const k = (key: string) => `${prefix}${key}`
+
+  return {
+    async get<T = unknown>(key: string): Promise<T | undefined> {
+      const raw = await command(['GET', k(key)])
+      if (raw === null || raw === undefined) return undefined
+      const text = typeof raw === 'string' ? raw : String(raw)
+      try {
+        return JSON.parse(text) as T
+      } catch {
+        return undefined
+      }
+    },
+
+    async set<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      const args: Array<string | number> = ['SET', k(key), JSON.stringify(value)]
+      if (setOptions?.ttlMs !== undefined) {
+        args.push('PX', Math.max(1, Math.ceil(setOptions.ttlMs)))
+      }
+      await command(args)
+    },
+
+    async setIfAbsent<T = unknown>(key: string, value: T, setOptions?: PaywallStoreSetOptions) {
+      const args: Array<string | number> = ['SET', k(key), JSON.stringify(value), 'NX']
+      if (setOptions?.ttlMs !== undefined) {
+        args.push('PX', Math.max(1, Math.ceil(setOptions.ttlMs)))
+      }
+      // `SET … NX` replies `OK` when it wrote the key and nil otherwise.
+      return (await command(args)) !== null
+    },
+
+    async delete(key: string) {
+      await command(['DEL', k(key)])
+    },
+
+    async decrement(key: string, amount: number): Promise<number | undefined> {
+      const reply = await command(['EVAL', DECREMENT_IF_PRESENT_SCRIPT, 1, k(key), amount])
+      if (reply === null || reply === undefined || reply === false) return undefined
+      const value = typeof reply === 'number' ? reply : Number(reply)
+      return Number.isNaN(value) ? undefined : value
+    },
+
+    async decrementOrCreate(
+      key: string,
+      amount: number,
+      initial: number,
+      setOptions?: PaywallStoreSetOptions,
+    ): Promise<number> {
+      const ttlMs = setOptions?.ttlMs !== undefined ? Math.max(1, Math.ceil(setOptions.ttlMs)) : 0
+      const reply = await command([
+        'EVAL',
+        DECREMENT_OR_CREATE_SCRIPT,
+        1,
+        k(key),
+        amount,
+        initial,
+        ttlMs,
+      ])
+      return typeof reply === 'number' ? reply : Number(reply)
+    },
+  }
+}
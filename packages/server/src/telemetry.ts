@@ -0,0 +1,213 @@
+/**
+ * Optional OpenTelemetry instrumentation.
+ *
+ * The SDK does not depend on `@opentelemetry/api`. The interfaces below
+ * describe the slice of its `Tracer` and `Meter` the paywall and the API
+ * client use, so `trace.getTracer()` / `metrics.getMeter()` results can
+ * be passed straight to `createSolvaPay({ telemetry })`. Without a
+ * tracer or meter every hook is a no-op.
+ */
+
+/**
+ * Span and metric attributes. Matches `Attributes` from
+ * `@opentelemetry/api` for the value types the SDK emits.
+ *
+ * @since 2.1.0
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean | undefined>
+
+/**
+ * The parts of an OpenTelemetry `Span` the SDK calls.
+ *
+ * @since 2.1.0
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  recordException(exception: Error | string): unknown
+  end(): void
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` the SDK calls. Spans are
+ * started with `startActiveSpan`, so API calls made while the paywall
+ * decides nest under the `decide` span.
+ *
+ * @since 2.1.0
+ */
+export interface TelemetryTracer {
+  startActiveSpan(
+    name: string,
+    options: { attributes?: TelemetryAttributes },
+    fn: (span: TelemetrySpan) => Promise<unknown>,
+  ): Promise<unknown>
+}
+
+/** @since 2.1.0 */
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void
+}
+
+/** @since 2.1.0 */
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void
+}
+
+/**
+ * The parts of an OpenTelemetry `Meter` the SDK calls.
+ *
+ * @since 2.1.0
+ */
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): TelemetryCounter
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): TelemetryHistogram
+}
+
+/**
+ * `createSolvaPay({ telemetry })` options. Either half may be omitted.
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from '@opentelemetry/api'
+ *
+ * const solvaPay = createSolvaPay({
+ *   telemetry: {
+ *     tracer: trace.getTracer('solvapay'),
+ *     meter: metrics.getMeter('solvapay'),
+ *   },
+ * })
+ * ```
+ *
+ * @since 2.1.0
+ */
+export interface SolvaPayTelemetryOptions {
+  tracer?: TelemetryTracer
+  meter?: TelemetryMeter
+}
+
+/** Metric names and the instrument that records each. */
+const METRICS = {
+  'solvapay.paywall.decisions': {
+    kind: 'counter',
+    description: 'Paywall decisions by outcome',
+    unit: '{decision}',
+  },
+  'solvapay.limits_cache.hits': {
+    kind: 'counter',
+    description: 'Meter checks answered from the limits cache',
+    unit: '{check}',
+  },
+  'solvapay.limits_cache.misses': {
+    kind: 'counter',
+    description: 'Meter checks that called checkLimits',
+    unit: '{check}',
+  },
+  'solvapay.api.latency': {
+    kind: 'histogram',
+    description: 'SolvaPay API call duration, retries included',
+    unit: 'ms',
+  },
+} as const
+
+export type TelemetryCounterName = {
+  [K in keyof typeof METRICS]: (typeof METRICS)[K]['kind'] extends 'counter' ? K : never
+}[keyof typeof METRICS]
+
+export type TelemetryHistogramName = Exclude<keyof typeof METRICS, TelemetryCounterName>
+
+/** OpenTelemetry `SpanStatusCode.ERROR`. */
+export const SPAN_STATUS_ERROR = 2
+
+/**
+ * Instrumentation handle shared by the paywall and the API client.
+ * Internal — callers configure it through {@link SolvaPayTelemetryOptions}.
+ */
+export interface Telemetry {
+  /**
+   * Run `fn` inside a span. A thrown error is recorded on the span and
+   * rethrown; the span ends when `fn` settles.
+   */
+  span<T>(
+    name: string,
+    attributes: TelemetryAttributes,
+    fn: (span: TelemetrySpan) => Promise<T>,
+  ): Promise<T>
+  count(name: TelemetryCounterName, attributes?: TelemetryAttributes): void
+  record(name: TelemetryHistogramName, value: number, attributes?: TelemetryAttributes): void
+}
+
+const noopSpan: TelemetrySpan = {
+  setAttribute: () => undefined,
+  setStatus: () => undefined,
+  recordException: () => undefined,
+  end: () => undefined,
+}
+
+const noopTelemetry: Telemetry = {
+  span: (_name, _attributes, fn) => fn(noopSpan),
+  count: () => undefined,
+  record: () => undefined,
+}
+
+/**
+ * Build the instrumentation handle for `options`. Returns a shared
+ * no-op when neither a tracer nor a meter is configured.
+ */
+export function createTelemetry(options: SolvaPayTelemetryOptions = {}): Telemetry {
+  const { tracer, meter } = options
+  if (!tracer && !meter) return noopTelemetry
+
+  // Instruments are created on first use so a meter only sees the
+  // metrics this process actually emits.
+  const counters = new Map<string, TelemetryCounter>()
+  const histograms = new Map<string, TelemetryHistogram>()
+
+  return {
+    span<T>(
+      name: string,
+      attributes: TelemetryAttributes,
+      fn: (span: TelemetrySpan) => Promise<T>,
+    ): Promise<T> {
+      if (!tracer) return fn(noopSpan)
+      return tracer.startActiveSpan(name, { attributes }, async span => {
+        try {
+          return await fn(span)
+        } catch (error) {
+          span.recordException(error instanceof Error ? error : String(error))
+          span.setStatus({
+            code: SPAN_STATUS_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          })
+          throw error
+        } finally {
+          span.end()
+        }
+      }) as Promise<T>
+    },
+
+    count(name, attributes) {
+      if (!meter) return
+      let counter = counters.get(name)
+      if (!counter) {
+        const { description, unit } = METRICS[name]
+        counter = meter.createCounter(name, { description, unit })
+        counters.set(name, counter)
+      }
+      counter.add(1, attributes)
+    },
+
+    record(name, value, attributes) {
+      if (!meter) return
+      let histogram = histograms.get(name)
+      if (!histogram) {
+        const { description, unit } = METRICS[name]
+        histogram = meter.createHistogram(name, { description, unit })
+        histograms.set(name, histogram)
+      }
+      histogram.record(value, attributes)
+    },
+  }
+}
@@ -6,6 +6,7 @@
 
 import type { components, operations } from './generated'
 import type { BusinessDetailsInput, TaxBreakdown } from '@solvapay/core'
+import type { RetryOptions } from './options'
 
 export type AttachBusinessDetailsParams = {
   paymentIntentId: string
@@ -16,7 +17,12 @@ export type AttachBusinessDetailsResult = {
   taxBreakdown: TaxBreakdown
 }
 
-export type UsageMeterType = 'requests' | 'tokens'
+/**
+ * Name of a usage meter. `'requests'` and `'tokens'` are built in; any
+ * other meter configured on the product (`'images'`, `'gpu_seconds'`,
+ * `'pages'`, …) works too.
+ */
+export type UsageMeterType = 'requests' | 'tokens' | (string & {})
 export type CheckLimitsRequest = components['schemas']['CheckLimitRequest'] & {
   /**
    * When `true`, the backend mints a checkout session (or customer
@@ -41,6 +47,12 @@ export type CheckLimitsRequest = components['schemas']['CheckLimitRequest'] & {
  */
 export type LimitResponseWithPlan = components['schemas']['LimitResponse'] & {
   plan: string
+  /**
+   * The customer's spend against their monthly spending cap. Present
+   * only when the customer has set a cap; a call is gated once
+   * `monthlySpendMinor` reaches `monthlyCapMinor`.
+   */
+  spendingLimit?: SpendingLimitStatus
 }
 
 /**
@@ -219,6 +231,50 @@ export type SaveAutoRechargeResponse = {
   stripeAccountId?: string
 }
 
+/**
+ * Customer-level spending limits on metered usage: a hard monthly cap
+ * and the percentages of it that raise a budget alert. Unlike
+ * `AutoRechargeConfig.maxMonthlySpendMinor`, which only caps automatic
+ * top-ups, the cap applies to all usage billed to the customer.
+ */
+export type SpendingLimitsConfig = {
+  /** Hard monthly cap on metered spend, in minor units. Absent when alerts only. */
+  monthlyCapMinor?: number
+  /** Percentages of the cap (1–100) that send a budget alert, ascending. */
+  alertThresholds: number[]
+  currency: string
+  /** Metered spend so far this period, in minor units. */
+  monthlySpendMinor: number
+  /** Calendar month `monthlySpendMinor` covers, e.g. `2026-10`. */
+  monthlySpendPeriod?: string
+  /** Highest alert threshold already crossed this period. */
+  lastAlertThreshold?: number
+  updatedAt?: string
+}
+
+export type SpendingLimitsInput = {
+  /** Monthly cap in major units; omit for alerts without a hard cap. */
+  monthlyCapMajor?: number
+  /** Percentages of the cap that send a budget alert, e.g. `[50, 80, 100]`. */
+  alertThresholds?: number[]
+  currency: string
+}
+
+export type SpendingLimitsResponse = {
+  config: SpendingLimitsConfig | null
+}
+
+export type SaveSpendingLimitsResponse = {
+  config: SpendingLimitsConfig
+}
+
+/** Spend against the monthly cap, as reported by `checkLimits`. */
+export type SpendingLimitStatus = {
+  monthlyCapMinor: number
+  monthlySpendMinor: number
+  currency: string
+}
+
 /**
  * SDK-facing merchant identity (source: GET /v1/sdk/merchant).
  */
@@ -314,26 +370,80 @@ export interface ConfigureMcpPlansResponse {
   planMap: Record<string, { reference: string; name?: string }>
 }
 
+/**
+ * Retry policy for the HTTP client. Requests are retried on network
+ * errors, timeouts, `429` and `5xx` responses; `4xx` responses are
+ * returned to the caller immediately.
+ */
+export type ClientRetryOptions = Pick<
+  RetryOptions,
+  'maxRetries' | 'initialDelay' | 'backoffStrategy' | 'onRetry'
+> & {
+  /**
+   * Longest `Retry-After` the client will wait, in milliseconds
+   * (default: 30000). A `429` / `503` asking for a longer pause fails
+   * immediately instead of holding the request open.
+   */
+  maxRetryAfter?: number
+}
+
+/**
+ * Per-call overrides accepted as the last argument of every
+ * {@link SolvaPayClient} method. Custom client implementations may
+ * ignore them.
+ *
+ * @example
+ * ```typescript
+ * await client.trackUsage(event, { idempotencyKey: `usage-${requestId}`, timeout: 2000 })
+ * await client.getMerchant!({ retry: false })
+ * ```
+ */
+export interface SolvaPayRequestOptions {
+  /** Milliseconds to wait for response headers before aborting the attempt. `0` disables. */
+  timeout?: number
+  /** Retry policy for this call, merged over the client's. `false` disables retries. */
+  retry?: ClientRetryOptions | false
+  /**
+   * Idempotency key for mutating calls. Defaults to a fresh key per
+   * call, reused across that call's retries — pass a stable key to also
+   * dedupe retries you make yourself.
+   */
+  idempotencyKey?: string
+  /** Aborts the call (including pending retries). Aborts are never retried. */
+  signal?: AbortSignal
+}
+
 /**
  * SolvaPay API Client Interface
  *
  * This interface defines the contract for communicating with the SolvaPay backend.
  * Uses auto-generated types from the OpenAPI specification.
  * You can provide your own implementation or use the default createSolvaPayClient().
+ * Every method takes an optional trailing {@link SolvaPayRequestOptions}.
  */
 export interface SolvaPayClient {
   // POST: /v1/sdk/limits
-  checkLimits(params: CheckLimitsRequest): Promise<LimitResponseWithPlan>
+  checkLimits(
+    params: CheckLimitsRequest,
+    options?: SolvaPayRequestOptions,
+  ): Promise<LimitResponseWithPlan>
 
   // POST: /v1/sdk/usages
-  trackUsage(params: TrackUsageRequest): Promise<TrackUsageResponse>
+  trackUsage(
+    params: TrackUsageRequest,
+    options?: SolvaPayRequestOptions,
+  ): Promise<TrackUsageResponse>
 
   // POST: /v1/sdk/usages/bulk
-  trackUsageBulk?(params: TrackUsageBulkRequest): Promise<TrackUsageBulkResponse>
+  trackUsageBulk?(
+    params: TrackUsageBulkRequest,
+    options?: SolvaPayRequestOptions,
+  ): Promise<TrackUsageBulkResponse>
 
   // POST: /v1/sdk/customers
   createCustomer?(
     params: components['schemas']['CreateCustomerRequest'],
+    options?: SolvaPayRequestOptions,
   ): Promise<{ customerRef: string }>
 
   /**
@@ -351,24 +461,31 @@ export interface SolvaPayClient {
       metadata?: Record<string, unknown>
       externalRef?: string
     },
+    options?: SolvaPayRequestOptions,
   ): Promise<{ customerRef: string }>
 
   // GET: /v1/sdk/customers/{reference} or /v1/sdk/customers?externalRef={externalRef}
-  getCustomer(params: {
-    customerRef?: string
-    externalRef?: string
-    email?: string
-  }): Promise<CustomerResponseMapped>
+  getCustomer(
+    params: {
+      customerRef?: string
+      externalRef?: string
+      email?: string
+    },
+    options?: SolvaPayRequestOptions,
+  ): Promise<CustomerResponseMapped>
 
   // POST: /v1/sdk/customers/{customerRef}/credits
-  assignCredits?(params: AssignCreditsRequest): Promise<AssignCreditsResponse>
+  assignCredits?(
+    params: AssignCreditsRequest,
+    options?: SolvaPayRequestOptions,
+  ): Promise<AssignCreditsResponse>
 
   /**
    * SDK-facing merchant identity (GET /v1/sdk/merchant).
    * Returns the subset of provider fields safe for browser consumption —
    * used by `<MandateText>`, `<CheckoutSummary>`, and trust signals.
    */
-  getMerchant?(): Promise<SdkMerchantResponse>
+  getMerchant?(options?: SolvaPayRequestOptions): Promise<SdkMerchantResponse>
 
   /**
    * SDK-facing platform config (GET /v1/sdk/platform-config).
@@ -377,15 +494,15 @@ export interface SolvaPayClient {
    * MCP checkout app, which uses `stripePublishableKey` to boot Stripe.js
    * for a CSP probe before a PaymentIntent exists.
    */
-  getPlatformConfig?(): Promise<SdkPlatformConfigResponse>
+  getPlatformConfig?(options?: SolvaPayRequestOptions): Promise<SdkPlatformConfigResponse>
 
   // GET: /v1/sdk/products/{productRef}
-  getProduct?(productRef: string): Promise<SdkProductResponse>
+  getProduct?(productRef: string, options?: SolvaPayRequestOptions): Promise<SdkProductResponse>
 
   // Management methods
 
   // GET: /v1/sdk/products
-  listProducts?(): Promise<
+  listProducts?(options?: SolvaPayRequestOptions): Promise<
     Array<{
       reference: string
       name: string
@@ -394,44 +511,57 @@ export interface SolvaPayClient {
   >
 
   // POST: /v1/sdk/products
-  createProduct?(params: components['schemas']['CreateProductRequest']): Promise<{
+  createProduct?(
+    params: components['schemas']['CreateProductRequest'],
+    options?: SolvaPayRequestOptions,
+  ): Promise<{
     reference: string
     name: string
   }>
 
   // POST: /v1/sdk/products/mcp/bootstrap
-  bootstrapMcpProduct?(params: McpBootstrapRequest): Promise<McpBootstrapResponse>
+  bootstrapMcpProduct?(
+    params: McpBootstrapRequest,
+    options?: SolvaPayRequestOptions,
+  ): Promise<McpBootstrapResponse>
 
   // PUT: /v1/sdk/products/{productRef}/mcp/plans
   configureMcpPlans?(
     productRef: string,
     params: ConfigureMcpPlansRequest,
+    options?: SolvaPayRequestOptions,
   ): Promise<ConfigureMcpPlansResponse>
 
   // PUT: /v1/sdk/products/{productRef}
   updateProduct?(
     productRef: string,
     params: components['schemas']['UpdateProductRequest'],
+    options?: SolvaPayRequestOptions,
   ): Promise<components['schemas']['SdkProductResponse']>
 
   // DELETE: /v1/sdk/products/{productRef}
-  deleteProduct?(productRef: string): Promise<void>
+  deleteProduct?(productRef: string, options?: SolvaPayRequestOptions): Promise<void>
 
   // POST: /v1/sdk/products/{productRef}/clone
   cloneProduct?(
     productRef: string,
     overrides?: { name?: string },
+    options?: SolvaPayRequestOptions,
   ): Promise<{
     reference: string
     name: string
   }>
 
   // GET: /v1/sdk/products/{productRef}/plans
-  listPlans?(productRef: string): Promise<components['schemas']['Plan'][]>
+  listPlans?(
+    productRef: string,
+    options?: SolvaPayRequestOptions,
+  ): Promise<components['schemas']['Plan'][]>
 
   // POST: /v1/sdk/products/{productRef}/plans
   createPlan?(
     params: components['schemas']['CreatePlanRequest'] & { productRef: string },
+    options?: SolvaPayRequestOptions,
   ): Promise<components['schemas']['Plan']>
 
   // PUT: /v1/sdk/products/{productRef}/plans/{planRef}
@@ -439,19 +569,23 @@ export interface SolvaPayClient {
     productRef: string,
     planRef: string,
     params: components['schemas']['UpdatePlanRequest'],
+    options?: SolvaPayRequestOptions,
   ): Promise<components['schemas']['Plan']>
 
   // DELETE: /v1/sdk/products/{productRef}/plans/{planRef}
-  deletePlan?(productRef: string, planRef: string): Promise<void>
+  deletePlan?(productRef: string, planRef: string, options?: SolvaPayRequestOptions): Promise<void>
 
   // POST: /v1/sdk/payment-intents
-  createPaymentIntent?(params: {
-    productRef: string
-    planRef: string
-    customerRef: string
-    currency?: string
-    idempotencyKey?: string
-  }): Promise<{
+  createPaymentIntent?(
+    params: {
+      productRef: string
+      planRef: string
+      customerRef: string
+      currency?: string
+      idempotencyKey?: string
+    },
+    options?: SolvaPayRequestOptions,
+  ): Promise<{
     processorPaymentId: string
     clientSecret: string
     publishableKey: string
@@ -466,14 +600,17 @@ export interface SolvaPayClient {
   }>
 
   // POST: /v1/sdk/payment-intents (purpose: credit_topup)
-  createTopupPaymentIntent?(params: {
-    customerRef: string
-    amount: number
-    currency: string
-    description?: string
-    idempotencyKey?: string
-    autoRecharge?: AutoRechargeInput
-  }): Promise<{
+  createTopupPaymentIntent?(
+    params: {
+      customerRef: string
+      amount: number
+      currency: string
+      description?: string
+      idempotencyKey?: string
+      autoRecharge?: AutoRechargeInput
+    },
+    options?: SolvaPayRequestOptions,
+  ): Promise<{
     processorPaymentId: string
     clientSecret: string
     publishableKey: string
@@ -481,38 +618,56 @@ export interface SolvaPayClient {
   }>
 
   // POST: /v1/sdk/purchases/{purchaseRef}/cancel
-  cancelPurchase?(params: {
-    purchaseRef: string
-    reason?: string
-  }): Promise<components['schemas']['PurchaseInfo']>
+  cancelPurchase?(
+    params: {
+      purchaseRef: string
+      reason?: string
+    },
+    options?: SolvaPayRequestOptions,
+  ): Promise<components['schemas']['PurchaseInfo']>
 
   // POST: /v1/sdk/purchases/{purchaseRef}/reactivate
-  reactivatePurchase?(params: {
-    purchaseRef: string
-  }): Promise<components['schemas']['PurchaseInfo']>
+  reactivatePurchase?(
+    params: {
+      purchaseRef: string
+    },
+    options?: SolvaPayRequestOptions,
+  ): Promise<components['schemas']['PurchaseInfo']>
 
   // POST: /v1/sdk/payment-intents/{paymentIntentId}/process
   // `productRef` is optional because credit-topup PIs (no product) are
   // processed through the same route — the backend controller ignores
   // the body entirely and drives off the PI id + authenticated provider.
-  processPaymentIntent?(params: {
-    paymentIntentId: string
-    productRef?: string
-    customerRef: string
-    planRef?: string
-  }): Promise<ProcessPaymentResult>
+  processPaymentIntent?(
+    params: {
+      paymentIntentId: string
+      productRef?: string
+      customerRef: string
+      planRef?: string
+    },
+    options?: SolvaPayRequestOptions,
+  ): Promise<ProcessPaymentResult>
 
   // POST: /v1/sdk/payment-intents/{paymentIntentId}/business-details
-  attachBusinessDetails?(params: AttachBusinessDetailsParams): Promise<AttachBusinessDetailsResult>
+  attachBusinessDetails?(
+    params: AttachBusinessDetailsParams,
+    options?: SolvaPayRequestOptions,
+  ): Promise<AttachBusinessDetailsResult>
 
   // POST: /v1/sdk/user-info
-  getUserInfo?(params: {
-    customerRef: string
-    productRef: string
-  }): Promise<components['schemas']['UserInfoResponse']>
+  getUserInfo?(
+    params: {
+      customerRef: string
+      productRef: string
+    },
+    options?: SolvaPayRequestOptions,
+  ): Promise<components['schemas']['UserInfoResponse']>
 
   // GET: /v1/sdk/customers/:customerRef/credits
-  getCustomerBalance?(params: { customerRef: string }): Promise<{
+  getCustomerBalance?(
+    params: { customerRef: string },
+    options?: SolvaPayRequestOptions,
+  ): Promise<{
     customerRef: string
     credits: number
     displayCurrency: string
@@ -524,27 +679,60 @@ export interface SolvaPayClient {
   // POST: /v1/sdk/checkout-sessions
   createCheckoutSession(
     params: operations['CheckoutSessionSdkController_createCheckoutSession']['requestBody']['content']['application/json'],
+    options?: SolvaPayRequestOptions,
   ): Promise<components['schemas']['CreateCheckoutSessionResponse']>
 
   // POST: /v1/sdk/customers/customer-sessions
   createCustomerSession(
     params: components['schemas']['CreateCustomerSessionRequest'],
+    options?: SolvaPayRequestOptions,
   ): Promise<components['schemas']['CreateCustomerSessionResponse']>
 
   // POST: /v1/sdk/activate
-  activatePlan?(params: components['schemas']['ActivatePlanDto']): Promise<ActivatePlanResult>
+  activatePlan?(
+    params: components['schemas']['ActivatePlanDto'],
+    options?: SolvaPayRequestOptions,
+  ): Promise<ActivatePlanResult>
 
   // GET: /v1/sdk/payment-method?customerRef=...
-  getPaymentMethod?(params: { customerRef: string }): Promise<PaymentMethodInfo>
+  getPaymentMethod?(
+    params: { customerRef: string },
+    options?: SolvaPayRequestOptions,
+  ): Promise<PaymentMethodInfo>
 
   // GET: /v1/sdk/auto-recharge?customerRef=...
-  getAutoRecharge?(params: { customerRef: string }): Promise<AutoRechargeResponse>
+  getAutoRecharge?(
+    params: { customerRef: string },
+    options?: SolvaPayRequestOptions,
+  ): Promise<AutoRechargeResponse>
 
   // PUT: /v1/sdk/auto-recharge
   saveAutoRecharge?(
     params: SaveAutoRechargeInput & { customerRef: string },
+    options?: SolvaPayRequestOptions,
   ): Promise<SaveAutoRechargeResponse>
 
   // DELETE: /v1/sdk/auto-recharge?customerRef=...
-  disableAutoRecharge?(params: { customerRef: string }): Promise<{ success: true }>
+  disableAutoRecharge?(
+    params: { customerRef: string },
+    options?: SolvaPayRequestOptions,
+  ): Promise<{ success: true }>
+
+  // GET: /v1/sdk/spending-limits?customerRef=...
+  getSpendingLimits?(
+    params: { customerRef: string },
+    options?: SolvaPayRequestOptions,
+  ): Promise<SpendingLimitsResponse>
+
+  // PUT: /v1/sdk/spending-limits
+  saveSpendingLimits?(
+    params: SpendingLimitsInput & { customerRef: string },
+    options?: SolvaPayRequestOptions,
+  ): Promise<SaveSpendingLimitsResponse>
+
+  // DELETE: /v1/sdk/spending-limits?customerRef=...
+  disableSpendingLimits?(
+    params: { customerRef: string },
+    options?: SolvaPayRequestOptions,
+  ): Promise<{ success: true }>
 }
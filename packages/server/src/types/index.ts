@@ -32,18 +32,24 @@ export type {
   AssignCreditsResponse,
 } from './client'
 // Re-export SolvaPayClient interface from types/client.ts
-export type { SolvaPayClient } from './client'
+export type { SolvaPayClient, SolvaPayRequestOptions, ClientRetryOptions } from './client'
 
 // Re-export paywall types
 export type {
   LimitActivationBalance,
   LimitActivationProduct,
   LimitPlanSummary,
+  EstimatedUnits,
   PaywallArgs,
   PaywallDecision,
+  PaywallDecisionMeter,
+  PaywallMeter,
   PaywallMetadata,
   PaywallStructuredContent,
   PaywallToolResult,
+  ReserveOptions,
+  UsageReservation,
+  UsageReservationState,
 } from './paywall'
 export { isPaywallStructuredContent } from './paywall'
 
@@ -55,6 +61,11 @@ export type {
   NextAdapterOptions,
   McpAdapterOptions,
   McpToolExtra,
+  PayableRouteOptions,
+  HonoAdapterOptions,
+  FastifyAdapterOptions,
+  FastifyPayablePluginOptions,
+  KoaAdapterOptions,
 } from './options'
 
 // Re-export webhook types
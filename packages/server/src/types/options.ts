@@ -5,6 +5,10 @@
  * payable protection, and framework adapters.
  */
 
+import type { UsageMeterType } from './client'
+import type { PaywallMeter } from './paywall'
+import type { RateLimitOptions } from '../rate-limit'
+
 /**
  * Retry configuration options
  */
@@ -41,6 +45,14 @@ export interface RetryOptions {
    * @param attempt The current attempt number (0-indexed)
    */
   onRetry?: (error: Error, attempt: number) => void
+
+  /**
+   * Optional override for the delay before the next attempt, e.g. from a
+   * `Retry-After` header. Return `undefined` to use the backoff strategy.
+   * @param error The error that triggered the retry
+   * @param attempt The current attempt number (0-indexed)
+   */
+  getDelay?: (error: Error, attempt: number) => number | undefined
 }
 
 /**
@@ -89,9 +101,45 @@ export interface PayableOptions {
   productRef?: string
 
   /**
-   * Usage meter type to charge against (defaults to 'requests')
+   * Usage meter to charge against (defaults to 'requests'). Any meter
+   * configured on the product works, e.g. `'images'`. Ignored when
+   * `meters` is set.
    */
-  usageType?: 'requests' | 'tokens'
+  usageType?: UsageMeterType
+
+  /**
+   * Meters every call is checked and charged against, in order — e.g.
+   * `['requests', { name: 'tokens', estimatedUnits: 2_000 }]` for one
+   * request plus N tokens. The first meter out of allowance gates the
+   * call and is named on the gate's `meter` field. Handlers report
+   * per-meter usage with `withUnits(data, { tokens: n })`.
+   *
+   * @since 2.1.0
+   */
+  meters?: Array<UsageMeterType | PaywallMeter>
+
+  /**
+   * Units a call is expected to consume, checked before the handler
+   * runs so a call that would exceed the remaining allowance is gated
+   * up front. Defaults to 1. Report the actual amount by returning
+   * `withUnits(data, units)` from the handler (or
+   * `trackSuccess({ units })` with `gate()`). With `meters`, applies
+   * to the first meter.
+   *
+   * @since 2.1.0
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  estimatedUnits?: number | ((args: any) => number | Promise<number>)
+
+  /**
+   * Per-customer rate limit, checked before the meters. A call over the
+   * limit is gated with `kind: 'rate_limited'` (HTTP `429` with
+   * `Retry-After`) and is not recorded as usage, e.g.
+   * `{ perCustomer: '60/min', burst: 10 }`.
+   *
+   * @since 2.1.0
+   */
+  rateLimit?: RateLimitOptions
 
   /**
    * Optional function to extract customer reference from context
@@ -145,3 +193,108 @@ export interface NextAdapterOptions {
   transformResponse?: (result: any) => any
 }
 
+/**
+ * Per-route overrides of the `payable({ … })` options, accepted by the
+ * `hono()`, `fastify()` and `koa()` adapters so one payable can meter
+ * routes differently. Fields left out inherit from `payable({ … })`.
+ *
+ * @since 2.1.0
+ */
+export type PayableRouteOptions = Pick<
+  PayableOptions,
+  'product' | 'productRef' | 'usageType' | 'meters' | 'estimatedUnits' | 'rateLimit'
+>
+
+/**
+ * Hono adapter options. Callbacks receive the Hono `Context`.
+ *
+ * @since 2.1.0
+ */
+export interface HonoAdapterOptions extends PayableRouteOptions {
+  /**
+   * Extract arguments from the Hono context (default: JSON or form body,
+   * query and route params)
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  extractArgs?: (c: any) => any | Promise<any>
+
+  /**
+   * Extract customer reference from the Hono context
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getCustomerRef?: (c: any) => string | Promise<string>
+
+  /**
+   * Transform the result before it is sent with `c.json()`
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  transformResponse?: (result: any, c: any) => any
+}
+
+/**
+ * Fastify route options for handlers created with the `payable`
+ * decorator. Callbacks receive the `FastifyRequest` / `FastifyReply`.
+ *
+ * @since 2.1.0
+ */
+export interface FastifyAdapterOptions extends PayableRouteOptions {
+  /**
+   * Extract arguments from the request (default: parsed body, params
+   * and query)
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  extractArgs?: (request: any) => any | Promise<any>
+
+  /**
+   * Extract customer reference from the request
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getCustomerRef?: (request: any) => string | Promise<string>
+
+  /**
+   * Transform the result before it is sent with `reply.send()`
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  transformResponse?: (result: any, reply: any) => any
+}
+
+/**
+ * Options for the plugin returned by `payable.fastify()`. Route options
+ * set here apply to every route; per-route options win.
+ *
+ * @since 2.1.0
+ */
+export interface FastifyPayablePluginOptions extends FastifyAdapterOptions {
+  /**
+   * Name of the instance decorator that creates payable route handlers
+   * (default: `'payable'`). Set it when registering several payables in
+   * one scope.
+   */
+  decorator?: string
+}
+
+/**
+ * Koa adapter options. Callbacks receive the Koa `Context`.
+ *
+ * @since 2.1.0
+ */
+export interface KoaAdapterOptions extends PayableRouteOptions {
+  /**
+   * Extract arguments from the Koa context (default: `ctx.request.body`
+   * from a body parser, `ctx.params` from a router, and `ctx.query`)
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  extractArgs?: (ctx: any) => any | Promise<any>
+
+  /**
+   * Extract customer reference from the Koa context
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getCustomerRef?: (ctx: any) => string | Promise<string>
+
+  /**
+   * Transform the result before it is assigned to `ctx.body`
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  transformResponse?: (result: any, ctx: any) => any
+}
@@ -5,7 +5,8 @@
  */
 
 import type { components } from './generated'
-import type { LimitResponseWithPlan } from './client'
+import type { LimitResponseWithPlan, UsageMeterType } from './client'
+import type { RateLimitOptions } from '../rate-limit'
 
 export type LimitPlanSummary = components['schemas']['LimitPlanItemDto']
 export type LimitActivationBalance = components['schemas']['LimitBalanceDto']
@@ -19,12 +20,64 @@ export interface PaywallArgs {
   auth?: { customer_ref?: string }
 }
 
+/**
+ * Units a call is expected to consume on a meter — a fixed count or
+ * one derived from the call's args.
+ *
+ * @since 2.1.0
+ */
+export type EstimatedUnits = number | ((args: PaywallArgs) => number | Promise<number>)
+
+/**
+ * One meter a paywalled call is checked and charged against.
+ *
+ * @since 2.1.0
+ */
+export interface PaywallMeter {
+  /** Meter name as configured on the product, e.g. `'tokens'` or `'gpu_seconds'`. */
+  name: UsageMeterType
+  /** Units the call is expected to consume on this meter (default: 1). */
+  estimatedUnits?: EstimatedUnits
+}
+
 /**
  * Metadata for configuring paywall protection
  */
 export interface PaywallMetadata {
   product?: string
-  usageType?: 'requests' | 'tokens'
+  /**
+   * Meter the call is charged against (default: `'requests'`). Any
+   * meter configured on the product works, e.g. `'images'`. Ignored
+   * when `meters` is set.
+   */
+  usageType?: UsageMeterType
+  /**
+   * Meters the call is checked and charged against, in order. The
+   * first meter out of allowance gates the call and is named on the
+   * gate's `meter` field. Each meter is billed one unit per call
+   * unless the handler reports units per meter.
+   *
+   * @since 2.1.0
+   */
+  meters?: Array<UsageMeterType | PaywallMeter>
+  /**
+   * Units the call is expected to consume, checked before the handler
+   * runs. A call whose estimate exceeds the customer's `remaining`
+   * allowance is gated up front instead of overrunning it; the estimate
+   * is held against the limits cache until the actual units are known.
+   * Defaults to 1. Pass a function to derive it from the call's args.
+   * With `meters`, applies to the first meter.
+   *
+   * @since 2.1.0
+   */
+  estimatedUnits?: EstimatedUnits
+  /**
+   * Per-customer rate limit, checked before the meters. A call over
+   * the limit is gated with `kind: 'rate_limited'`.
+   *
+   * @since 2.1.0
+   */
+  rateLimit?: RateLimitOptions
 }
 
 /**
@@ -46,6 +99,16 @@ export type PaywallStructuredContent =
       balance?: LimitActivationBalance
       /** Rich product context from checkLimits (name, ref, provider slug/id) */
       productDetails?: LimitActivationProduct
+      /** Meter whose allowance tripped the gate, e.g. `'requests'` or `'tokens'`. */
+      meter?: string
+      /**
+       * Set when the customer's own spending cap tripped the gate. Paying
+       * more would not lift it, so `checkoutUrl` is empty; point the
+       * customer at raising the cap instead.
+       *
+       * @since 2.1.0
+       */
+      reason?: 'budget_exceeded'
     }
   | {
       kind: 'activation_required'
@@ -61,6 +124,26 @@ export type PaywallStructuredContent =
       balance?: LimitActivationBalance
       /** Rich product context from checkLimits (name, ref, provider slug/id) */
       productDetails?: LimitActivationProduct
+      /** Meter whose allowance tripped the gate, e.g. `'requests'` or `'tokens'`. */
+      meter?: string
+    }
+  | {
+      /**
+       * The customer is calling faster than `payable({ rateLimit })`
+       * allows. HTTP adapters answer `429` with `Retry-After`.
+       *
+       * @since 2.1.0
+       */
+      kind: 'rate_limited'
+      product: string
+      message: string
+      /** Seconds until the customer may call again — the `Retry-After` value. */
+      retryAfter: number
+      /** Sustained calls allowed per `windowMs`. */
+      limit: number
+      windowMs: number
+      checkoutUrl?: undefined
+      meter?: undefined
     }
 
 /**
@@ -96,7 +179,86 @@ export function isPaywallStructuredContent(value: unknown): value is PaywallStru
     return false
   }
   const kind = (value as { kind?: unknown }).kind
-  return kind === 'payment_required' || kind === 'activation_required'
+  return kind === 'payment_required' || kind === 'activation_required' || kind === 'rate_limited'
+}
+
+/**
+ * A meter an `allow` decision checked, with the units held on it.
+ *
+ * @since 2.1.0
+ */
+export interface PaywallDecisionMeter {
+  /** Meter name as configured in `PaywallMetadata`. */
+  name: string
+  /** The `LimitResponseWithPlan` consulted for this meter. */
+  limits: LimitResponseWithPlan
+  /** Units held against this meter's cached allowance. */
+  estimatedUnits: number
+}
+
+/**
+ * Options for `solvaPay.reserve(...)`.
+ *
+ * @since 2.1.0
+ */
+export interface ReserveOptions {
+  /** Customer to hold units for — a backend ref (`cus_...`) or your own external ref. */
+  customerRef: string
+  /** Units to hold. Must be a non-negative integer. */
+  units: number
+  /** Product the units are drawn from (defaults to `SOLVAPAY_PRODUCT`). */
+  product?: string
+  /** Meter to hold units on (default: `'requests'`). */
+  meter?: UsageMeterType
+  /**
+   * Milliseconds before an uncommitted hold is released on its own
+   * (default: 5 minutes). Pick a TTL longer than the operation it guards.
+   */
+  ttlMs?: number
+}
+
+/**
+ * Lifecycle of a {@link UsageReservation}: `held` until committed,
+ * released, or expired by its TTL.
+ *
+ * @since 2.1.0
+ */
+export type UsageReservationState = 'held' | 'committed' | 'released' | 'expired'
+
+/**
+ * Units held against a customer's allowance for a long-running
+ * operation, returned by `solvaPay.reserve(...)`.
+ *
+ * While held, the units count against the limits cache, so concurrent
+ * callers cannot spend the same allowance. Settle the hold exactly once:
+ * `commit(actualUnits)` bills what was used, `release()` returns it all.
+ * An unsettled hold is released when its TTL runs out.
+ *
+ * @since 2.1.0
+ */
+export interface UsageReservation {
+  /** Unique hold id, also sent as the `requestId` of the committed usage event. */
+  readonly id: string
+  /** Resolved backend customer ref (`cus_...`). */
+  readonly customerRef: string
+  readonly product: string
+  readonly meter: string
+  /** Units held. */
+  readonly units: number
+  /** Epoch milliseconds after which the hold is released. */
+  readonly expiresAt: number
+  /** The `LimitResponseWithPlan` consulted when the hold was placed. */
+  readonly limits: LimitResponseWithPlan | null
+  readonly state: UsageReservationState
+  /**
+   * Bill `actualUnits` (default: the held units) and settle the limits
+   * cache against the hold. May exceed the hold — the extra is consumed.
+   *
+   * @throws {SolvaPayError} If the hold was already committed, released or expired
+   */
+  commit(actualUnits?: number): Promise<void>
+  /** Return the held units without billing. A no-op once settled. */
+  release(): Promise<void>
 }
 
 /**
@@ -121,6 +283,20 @@ export type PaywallDecision<T> =
       args: T
       limits: LimitResponseWithPlan
       customerRef: string
+      /**
+       * Units held against the cached allowance by the pre-check.
+       * Settled against the actual units once the call is tracked.
+       *
+       * @since 2.1.0
+       */
+      estimatedUnits?: number
+      /**
+       * Every meter checked, in order; the first matches `limits` and
+       * `estimatedUnits`.
+       *
+       * @since 2.1.0
+       */
+      meters?: PaywallDecisionMeter[]
     }
   | {
       outcome: 'gate'
@@ -0,0 +1,159 @@
+/**
+ * Variable-unit metering helpers.
+ *
+ * By default every allowed call is billed as one usage unit. Handlers
+ * that consume a variable amount — tokens for an LLM endpoint, images
+ * for a generation endpoint — report the actual quantity by returning
+ * {@link withUnits}. The paywall unwraps the envelope before the
+ * adapter serialises the response, bills `units` through `trackUsage`
+ * and settles the limits cache by the same amount. Tools metered on
+ * several meters report a count per meter name.
+ */
+
+import { SolvaPayError } from '@solvapay/core'
+import type { PaywallMeter, PaywallMetadata } from './types'
+
+/**
+ * Units to bill for one call: a count for the call's first (or only)
+ * meter, or a count per meter name. Meters left out bill one unit.
+ *
+ * @since 2.1.0
+ */
+export type UsageUnits = number | Partial<Record<string, number>>
+
+/**
+ * Handler return value carrying the number of units to bill. Produced
+ * by {@link withUnits}; adapters only ever see `data`.
+ *
+ * @since 2.1.0
+ */
+export interface MeteredResult<T> {
+  readonly __solvapayUnits: true
+  readonly data: T
+  readonly units: UsageUnits
+}
+
+/**
+ * Throw unless `units` is a non-negative integer. Shared by every entry
+ * point that accepts a unit count so they fail the same way.
+ */
+export function assertValidUnits(units: unknown, label = 'units'): asserts units is number {
+  if (typeof units !== 'number' || !Number.isInteger(units) || units < 0) {
+    throw new SolvaPayError(`${label} must be a non-negative integer, got ${String(units)}`)
+  }
+}
+
+function assertValidUsageUnits(units: UsageUnits): void {
+  if (typeof units === 'object' && units !== null) {
+    for (const [meter, count] of Object.entries(units)) {
+      if (count !== undefined) assertValidUnits(count, `units for meter "${meter}"`)
+    }
+    return
+  }
+  assertValidUnits(units)
+}
+
+/**
+ * Wrap a handler result so the paywall bills `units` instead of one.
+ * Works for every `payable` adapter (`http`, `next`, `mcp`, `function`).
+ *
+ * @example
+ * ```typescript
+ * export const POST = payable.next(async ({ prompt }) => {
+ *   const completion = await llm.complete(prompt)
+ *   return withUnits({ text: completion.text }, completion.usage.totalTokens)
+ * })
+ *
+ * // Metered with `meters: ['requests', 'tokens']`
+ * return withUnits(data, { tokens: completion.usage.totalTokens })
+ * ```
+ *
+ * @param data - The value the adapter should return to the caller
+ * @param units - Units consumed by this call, or a count per meter name.
+ *   Counts must be non-negative integers.
+ * @throws {SolvaPayError} If a count is not a non-negative integer
+ * @since 2.1.0
+ */
+export function withUnits<T>(data: T, units: UsageUnits): MeteredResult<T> {
+  assertValidUsageUnits(units)
+  return { __solvapayUnits: true, data, units }
+}
+
+/**
+ * Type guard for {@link MeteredResult}.
+ *
+ * @since 2.1.0
+ */
+export function isMeteredResult(value: unknown): value is MeteredResult<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { __solvapayUnits?: unknown }).__solvapayUnits === true
+  )
+}
+
+/**
+ * Expand reported units into a count per meter. A plain number bills
+ * the first meter; meters without a count bill one unit. Naming a meter
+ * the call is not metered on throws, so a typo cannot silently bill
+ * the default instead.
+ */
+export function resolveMeterUnits(
+  meters: string[],
+  units: UsageUnits | undefined,
+): Record<string, number> {
+  const resolved: Record<string, number> = {}
+  for (const meter of meters) resolved[meter] = 1
+  if (units === undefined) return resolved
+
+  assertValidUsageUnits(units)
+  if (typeof units === 'number') {
+    resolved[meters[0]!] = units
+    return resolved
+  }
+  for (const [meter, count] of Object.entries(units)) {
+    if (!meters.includes(meter)) {
+      throw new SolvaPayError(
+        `units reported for meter "${meter}", which this call is not metered on (${meters.join(', ')})`,
+      )
+    }
+    if (count !== undefined) resolved[meter] = count
+  }
+  return resolved
+}
+
+/**
+ * Apply a per-request estimate (`payable.gate(req, { estimatedUnits })`)
+ * on top of the estimates configured on `payable({ … })`. A number
+ * replaces the first meter's estimate; a record replaces the named
+ * meters' estimates.
+ */
+export function withEstimatedUnits(
+  metadata: PaywallMetadata,
+  estimate: UsageUnits | undefined,
+): PaywallMetadata {
+  if (estimate === undefined) return metadata
+  if (typeof estimate === 'number') return { ...metadata, estimatedUnits: estimate }
+
+  const { estimatedUnits, ...rest } = metadata
+  const meters: PaywallMeter[] = (
+    metadata.meters?.length ? metadata.meters : [metadata.usageType || 'requests']
+  ).map(meter => (typeof meter === 'string' ? { name: meter } : meter))
+  if (estimatedUnits !== undefined) meters[0] = { ...meters[0]!, estimatedUnits }
+
+  const names = meters.map(meter => meter.name)
+  for (const meter of Object.keys(estimate)) {
+    if (!names.includes(meter)) {
+      throw new SolvaPayError(
+        `estimatedUnits given for meter "${meter}", which this call is not metered on (${names.join(', ')})`,
+      )
+    }
+  }
+  return {
+    ...rest,
+    meters: meters.map(meter => {
+      const override = estimate[meter.name]
+      return override === undefined ? meter : { ...meter, estimatedUnits: override }
+    }),
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Usage Buffer
+ *
+ * Opt-in queue that batches `trackUsage` events into `trackUsageBulk`
+ * calls, so high-QPS endpoints stop paying one backend round trip per
+ * request. Events are flushed when a batch fills up, when the flush
+ * interval elapses, when the runtime's `waitUntil` drains it, or when
+ * a Node process is about to exit.
+ */
+
+import { SolvaPayError, createJsonLogger, withRedaction } from '@solvapay/core'
+import type { Logger } from '@solvapay/core'
+import type { SolvaPayClient, TrackUsageRequest } from '../types'
+import { generateIdempotencyKey } from '../utils'
+
+/**
+ * Options for {@link createUsageBuffer} (and `createSolvaPay({ usageBuffer })`).
+ */
+export interface UsageBufferOptions {
+  /**
+   * Events sent per `trackUsageBulk` call. Reaching this many queued
+   * events flushes immediately (default: 100).
+   */
+  maxBatchSize?: number
+  /**
+   * Maximum time in ms an event waits in the queue before it is sent
+   * (default: 1 000).
+   */
+  flushIntervalMs?: number
+  /**
+   * Maximum number of unsent events held in memory (default: 10 000).
+   * When the backend cannot keep up, the oldest events beyond this
+   * bound are handed to `onDeadLetter` instead of growing the queue.
+   */
+  maxQueueSize?: number
+  /**
+   * Flush on the Node `beforeExit` event so short-lived scripts and
+   * gracefully-drained servers don't lose their last batch
+   * (default: `true`). Ignored on runtimes without `process`.
+   */
+  flushOnExit?: boolean
+  /**
+   * Keep-alive hook for request-scoped runtimes — e.g. `waitUntil` from
+   * `@vercel/functions`. Called with {@link UsageBuffer.drained} whenever
+   * an event opens a new batch, so the runtime stays alive until that
+   * batch has been sent. For Workers, pass the per-request
+   * `ExecutionContext` to `payable.gate(req, { ctx })` instead.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void
+  /**
+   * Receives events that could not be delivered — the bulk call failed
+   * after the client's own retries, or the queue overflowed. Use it to
+   * log, persist or re-enqueue them; every event keeps its
+   * `idempotencyKey`, so replaying is safe. Defaults to logging an
+   * error through `logger`.
+   */
+  onDeadLetter?: (events: TrackUsageRequest[], error: unknown) => void | Promise<void>
+  /**
+   * Where dropped events and failed callbacks are logged (default: JSON
+   * lines). `createSolvaPay` passes its own `logger`.
+   *
+   * @since 2.1.0
+   */
+  logger?: Logger
+}
+
+/**
+ * Batching queue returned by {@link createUsageBuffer}.
+ */
+export interface UsageBuffer {
+  /** Queue an event. Never throws and never waits on the network. */
+  enqueue(event: TrackUsageRequest): void
+  /** Send every queued event now. Resolves once they are sent or dead-lettered. */
+  flush(): Promise<void>
+  /**
+   * Resolves once every event queued so far has been sent or
+   * dead-lettered, without forcing an early flush. Hand this to
+   * `ctx.waitUntil` so a batch still fills up across concurrent
+   * requests before it is sent.
+   */
+  drained(): Promise<void>
+  /** Number of events waiting to be sent. */
+  readonly size: number
+  /**
+   * Flush, stop the timer and remove the exit hook. Events enqueued
+   * afterwards are sent one batch at a time without buffering.
+   */
+  close(): Promise<void>
+}
+
+/**
+ * Create a {@link UsageBuffer} over an API client.
+ *
+ * Uses `trackUsageBulk` when the client implements it and falls back to
+ * one `trackUsage` call per event otherwise. Each event is given an
+ * `idempotencyKey` when it is queued, so a batch retried by the client —
+ * or replayed from `onDeadLetter` — is never billed twice.
+ *
+ * No timers are started until the first event is queued, so the buffer
+ * can be created at module scope on Cloudflare Workers.
+ *
+ * @example
+ * ```typescript
+ * import { createSolvaPay } from '@solvapay/server'
+ *
+ * const solvaPay = createSolvaPay({
+ *   usageBuffer: {
+ *     maxBatchSize: 200,
+ *     flushIntervalMs: 2_000,
+ *     onDeadLetter: (events, error) => logger.error({ events, error }, 'usage dropped'),
+ *   },
+ * })
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createUsageBuffer(
+  apiClient: SolvaPayClient,
+  options: UsageBufferOptions = {},
+): UsageBuffer {
+  const maxBatchSize = Math.max(1, options.maxBatchSize ?? 100)
+  const flushIntervalMs = Math.max(0, options.flushIntervalMs ?? 1_000)
+  const maxQueueSize = Math.max(maxBatchSize, options.maxQueueSize ?? 10_000)
+  const flushOnExit = options.flushOnExit ?? true
+  const logger = withRedaction(options.logger ?? createJsonLogger())
+
+  const queue: TrackUsageRequest[] = []
+  const waiters: Array<() => void> = []
+  let inFlight: Promise<void> = Promise.resolve()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let exitHookInstalled = false
+  let closed = false
+
+  const deadLetter = async (events: TrackUsageRequest[], error: unknown): Promise<void> => {
+    if (!options.onDeadLetter) {
+      logger.error('Dropped usage events', { count: events.length, error })
+      return
+    }
+    try {
+      await options.onDeadLetter(events, error)
+    } catch (callbackError) {
+      logger.error('Usage onDeadLetter callback failed', { error: callbackError })
+    }
+  }
+
+  const send = async (events: TrackUsageRequest[]): Promise<void> => {
+    if (apiClient.trackUsageBulk) {
+      try {
+        await apiClient.trackUsageBulk({ events })
+      } catch (error) {
+        await deadLetter(events, error)
+      }
+      return
+    }
+
+    const results = await Promise.allSettled(events.map(event => apiClient.trackUsage(event)))
+    const failed = events.filter((_, index) => results[index]!.status === 'rejected')
+    if (failed.length > 0) {
+      const firstFailure = results.find(result => result.status === 'rejected')
+      await deadLetter(failed, (firstFailure as PromiseRejectedResult).reason)
+    }
+  }
+
+  const drain = async (): Promise<void> => {
+    while (queue.length > 0) {
+      await send(queue.splice(0, maxBatchSize))
+    }
+  }
+
+  const flush = (): Promise<void> => {
+    if (timer !== undefined) {
+      clearTimeout(timer)
+      timer = undefined
+    }
+    inFlight = inFlight.then(drain).finally(() => {
+      // Events queued while this flush was sending have a timer (or a
+      // full batch) of their own; their waiters settle with that flush.
+      if (queue.length === 0) for (const resolve of waiters.splice(0)) resolve()
+    })
+    return inFlight
+  }
+
+  const onBeforeExit = () => {
+    if (queue.length > 0) void flush()
+  }
+
+  const installExitHook = () => {
+    if (exitHookInstalled || !flushOnExit) return
+    if (typeof process === 'undefined' || typeof process.once !== 'function') return
+    process.on('beforeExit', onBeforeExit)
+    exitHookInstalled = true
+  }
+
+  const scheduleFlush = () => {
+    if (timer !== undefined) return
+    timer = setTimeout(() => {
+      timer = undefined
+      void flush()
+    }, flushIntervalMs)
+    // Never keep a Node process alive just for the timer — the
+    // `beforeExit` hook sends whatever is left.
+    ;(timer as { unref?: () => void }).unref?.()
+  }
+
+  const buffer: UsageBuffer = {
+    enqueue(event) {
+      const keyed: TrackUsageRequest = {
+        ...event,
+        idempotencyKey: event.idempotencyKey ?? generateIdempotencyKey('usage'),
+      }
+
+      if (closed) {
+        void send([keyed])
+        return
+      }
+
+      if (queue.length >= maxQueueSize) {
+        const dropped = queue.splice(0, queue.length - maxQueueSize + 1)
+        void deadLetter(
+          dropped,
+          new SolvaPayError(`Usage buffer is full (${maxQueueSize} events)`, {
+            code: 'usage_buffer_overflow',
+          }),
+        )
+      }
+
+      const opensBatch = queue.length === 0
+      queue.push(keyed)
+      installExitHook()
+
+      if (queue.length >= maxBatchSize) {
+        void flush()
+      } else {
+        scheduleFlush()
+      }
+
+      if (opensBatch) options.waitUntil?.(buffer.drained())
+    },
+
+    flush,
+
+    drained() {
+      if (queue.length === 0) return inFlight
+      return new Promise<void>(resolve => waiters.push(resolve))
+    },
+
+    get size() {
+      return queue.length
+    },
+
+    async close() {
+      closed = true
+      if (exitHookInstalled) {
+        process.off('beforeExit', onBeforeExit)
+        exitHookInstalled = false
+      }
+      await flush()
+    },
+  }
+
+  return buffer
+}
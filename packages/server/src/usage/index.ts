@@ -0,0 +1,30 @@
+/**
+ * Usage Delivery Export
+ *
+ * Exports the opt-in batching buffer and the durable outbox for
+ * `trackUsage` events
+ */
+
+export { createUsageBuffer } from './buffer'
+export type { UsageBuffer, UsageBufferOptions } from './buffer'
+export { createUsageOutbox, isRetryableUsageError } from './outbox'
+export type {
+  UsageOutbox,
+  UsageOutboxEntry,
+  UsageOutboxMetrics,
+  UsageOutboxOptions,
+  UsageOutboxReplayResult,
+  UsageOutboxStorage,
+} from './outbox'
+export {
+  createMemoryUsageOutboxStorage,
+  createFileUsageOutboxStorage,
+  createKvUsageOutboxStorage,
+} from './outbox-storage'
+export type {
+  MemoryUsageOutboxStorageOptions,
+  FileUsageOutboxStorageOptions,
+  UsageOutboxFileSystem,
+  KvUsageOutboxNamespaceLike,
+  KvUsageOutboxStorageOptions,
+} from './outbox-storage'
@@ -0,0 +1,220 @@
+/**
+ * Usage Outbox Storage
+ *
+ * Built-in persistence for {@link UsageOutbox}:
+ *
+ * - {@link createMemoryUsageOutboxStorage} — per-process, not durable.
+ *   The default; retries within a process survive a backend blip.
+ * - {@link createFileUsageOutboxStorage} — a JSON file on Node, so
+ *   pending usage survives restarts and deploys.
+ * - {@link createKvUsageOutboxStorage} — Workers KV, one key per event.
+ */
+
+import type { KvNamespaceLike } from '../store'
+import type { UsageOutboxEntry, UsageOutboxStorage } from './outbox'
+
+/**
+ * Options for {@link createMemoryUsageOutboxStorage}.
+ */
+export interface MemoryUsageOutboxStorageOptions {
+  /**
+   * Maximum number of pending events (default: 10 000). The oldest are
+   * evicted first.
+   */
+  maxEntries?: number
+}
+
+/**
+ * Create an in-memory {@link UsageOutboxStorage}. Pending events are
+ * lost when the process exits.
+ *
+ * @since 2.1.0
+ */
+export function createMemoryUsageOutboxStorage(
+  options: MemoryUsageOutboxStorageOptions = {},
+): UsageOutboxStorage {
+  const maxEntries = options.maxEntries ?? 10_000
+  const entries = new Map<string, UsageOutboxEntry>()
+
+  return {
+    async put(entry) {
+      const key = entry.event.idempotencyKey
+      if (!entries.has(key)) {
+        while (entries.size >= maxEntries) {
+          const oldest = entries.keys().next().value
+          if (oldest === undefined) break
+          entries.delete(oldest)
+        }
+      }
+      entries.set(key, entry)
+    },
+
+    async list() {
+      return [...entries.values()]
+    },
+
+    async delete(idempotencyKey) {
+      entries.delete(idempotencyKey)
+    },
+  }
+}
+
+/**
+ * Structural subset of `node:fs/promises` used by
+ * {@link createFileUsageOutboxStorage}.
+ */
+export interface UsageOutboxFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>
+  rename(from: string, to: string): Promise<void>
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>
+}
+
+/**
+ * Options for {@link createFileUsageOutboxStorage}.
+ */
+export interface FileUsageOutboxStorageOptions {
+  /** File holding the pending events. Parent directories are created. */
+  path: string
+  /** File system implementation (default: `node:fs/promises`). */
+  fs?: UsageOutboxFileSystem
+}
+
+/**
+ * Create a {@link UsageOutboxStorage} backed by a JSON file.
+ *
+ * The file is read once, then rewritten through a temporary file and
+ * an atomic rename after every change, so a crash mid-write never
+ * leaves a truncated outbox. Meant for one process per file — point
+ * replicas at different paths.
+ *
+ * @since 2.1.0
+ */
+export function createFileUsageOutboxStorage(
+  options: FileUsageOutboxStorageOptions,
+): UsageOutboxStorage {
+  const { path } = options
+  let entries: Map<string, UsageOutboxEntry> | undefined
+  let writes: Promise<void> = Promise.resolve()
+
+  const fileSystem = async (): Promise<UsageOutboxFileSystem> =>
+    options.fs ?? ((await import('node:fs/promises')) as unknown as UsageOutboxFileSystem)
+
+  const load = async (): Promise<Map<string, UsageOutboxEntry>> => {
+    if (entries) return entries
+    const fs = await fileSystem()
+    let stored: UsageOutboxEntry[] = []
+    try {
+      stored = JSON.parse(await fs.readFile(path, 'utf8')) as UsageOutboxEntry[]
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') throw error
+    }
+    entries ??= new Map(stored.map(entry => [entry.event.idempotencyKey, entry]))
+    return entries
+  }
+
+  const save = () => {
+    // A failed write must not wedge every later one behind it.
+    writes = writes
+      .catch(() => undefined)
+      .then(async () => {
+        const fs = await fileSystem()
+        const dir = path.replace(/[\\/][^\\/]*$/, '')
+        if (dir && dir !== path) await fs.mkdir(dir, { recursive: true })
+        const tmp = `${path}.tmp`
+        await fs.writeFile(tmp, JSON.stringify([...(entries?.values() ?? [])]), 'utf8')
+        await fs.rename(tmp, path)
+      })
+    return writes
+  }
+
+  return {
+    async put(entry) {
+      ;(await load()).set(entry.event.idempotencyKey, entry)
+      await save()
+    },
+
+    async list() {
+      return [...(await load()).values()]
+    },
+
+    async delete(idempotencyKey) {
+      if ((await load()).delete(idempotencyKey)) await save()
+    },
+  }
+}
+
+/**
+ * Structural subset of a Workers `KVNamespace` binding with `list`.
+ */
+export interface KvUsageOutboxNamespaceLike extends KvNamespaceLike {
+  list(options: { prefix: string; cursor?: string }): Promise<{
+    keys: { name: string }[]
+    list_complete: boolean
+    cursor?: string
+  }>
+}
+
+/**
+ * Options for {@link createKvUsageOutboxStorage}.
+ */
+export interface KvUsageOutboxStorageOptions {
+  /** The KV namespace binding (e.g. `env.SOLVAPAY_USAGE_OUTBOX`). */
+  namespace: KvUsageOutboxNamespaceLike
+  /** Prefix prepended to every key (default: `'solvapay:usage-outbox:'`). */
+  keyPrefix?: string
+}
+
+/**
+ * Create a {@link UsageOutboxStorage} backed by Workers KV.
+ *
+ * KV listings are eventually consistent, so an event stored by one
+ * isolate may take up to a minute to be replayed by another. Replaying
+ * twice is harmless — the backend de-duplicates on the idempotency key.
+ *
+ * @example
+ * ```typescript
+ * export default {
+ *   async fetch(req: Request, env: Env) {
+ *     // …
+ *   },
+ *   // Cron trigger: replay what the request path could not deliver
+ *   async scheduled(_event: unknown, env: Env) {
+ *     await createSolvaPay({ usageOutbox: outboxFor(env) }).replayUsage()
+ *   },
+ * }
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createKvUsageOutboxStorage(
+  options: KvUsageOutboxStorageOptions,
+): UsageOutboxStorage {
+  const { namespace } = options
+  const prefix = options.keyPrefix ?? 'solvapay:usage-outbox:'
+
+  return {
+    async put(entry) {
+      await namespace.put(`${prefix}${entry.event.idempotencyKey}`, JSON.stringify(entry))
+    },
+
+    async list() {
+      const names: string[] = []
+      let cursor: string | undefined
+      do {
+        const page = await namespace.list({ prefix, ...(cursor ? { cursor } : {}) })
+        names.push(...page.keys.map(key => key.name))
+        cursor = page.list_complete ? undefined : page.cursor
+      } while (cursor)
+
+      const values = await Promise.all(names.map(name => namespace.get(name, 'text')))
+      return values
+        .filter((value): value is string => value !== null)
+        .map(value => JSON.parse(value) as UsageOutboxEntry)
+    },
+
+    async delete(idempotencyKey) {
+      await namespace.delete(`${prefix}${idempotencyKey}`)
+    },
+  }
+}
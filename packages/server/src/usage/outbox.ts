@@ -0,0 +1,322 @@
+/**
+ * Usage Outbox
+ *
+ * Durable holding area for `trackUsage` events the backend did not
+ * accept. Without it a failed usage POST is logged and forgotten, so
+ * the request is never billed. Failed events are persisted with their
+ * idempotency key and replayed with exponential backoff; the backend
+ * de-duplicates on that key, so an event that actually landed before
+ * the failure is never billed twice.
+ */
+
+import { SolvaPayApiError, createJsonLogger, withRedaction } from '@solvapay/core'
+import type { Logger } from '@solvapay/core'
+import type { SolvaPayClient, TrackUsageRequest } from '../types'
+import { generateIdempotencyKey } from '../utils'
+import { createMemoryUsageOutboxStorage } from './outbox-storage'
+
+/**
+ * A usage event waiting to be replayed.
+ */
+export interface UsageOutboxEntry {
+  /** The event as it will be re-sent. Always carries its `idempotencyKey`. */
+  event: TrackUsageRequest & { idempotencyKey: string }
+  /** Delivery attempts so far, including the original send. */
+  attempts: number
+  /** Epoch ms when the event first failed. */
+  enqueuedAt: number
+  /** Epoch ms before which the event is not retried. */
+  nextAttemptAt: number
+  /** Message of the most recent failure. */
+  lastError?: string
+}
+
+/**
+ * Persistence contract behind a {@link UsageOutbox}. Entries are keyed
+ * by `event.idempotencyKey`. Built-in backends: memory
+ * ({@link createMemoryUsageOutboxStorage}), a JSON file on Node
+ * (`createFileUsageOutboxStorage`) and Workers KV
+ * (`createKvUsageOutboxStorage`).
+ *
+ * @since 2.1.0
+ */
+export interface UsageOutboxStorage {
+  /** Insert or replace the entry for `entry.event.idempotencyKey`. */
+  put(entry: UsageOutboxEntry): Promise<void>
+  /** Every stored entry, in any order. */
+  list(): Promise<UsageOutboxEntry[]>
+  /** Remove an entry. Resolves even when the key does not exist. */
+  delete(idempotencyKey: string): Promise<void>
+}
+
+/**
+ * Point-in-time health of a {@link UsageOutbox}. `pending` and
+ * `oldestAgeMs` are read from storage; the counters cover this process
+ * since the outbox was created.
+ */
+export interface UsageOutboxMetrics {
+  /** Events waiting to be replayed. */
+  pending: number
+  /** Age in ms of the oldest pending event, or `null` when empty. */
+  oldestAgeMs: number | null
+  /** Failed delivery attempts, including the original sends. */
+  failures: number
+  /** Events replayed successfully. */
+  delivered: number
+  /** Events given up on after `maxAttempts` or a permanent error. */
+  dropped: number
+}
+
+/**
+ * Outcome of one {@link UsageOutbox.replay} pass.
+ */
+export interface UsageOutboxReplayResult {
+  delivered: number
+  failed: number
+  dropped: number
+}
+
+/**
+ * Options for {@link createUsageOutbox}.
+ */
+export interface UsageOutboxOptions {
+  /** Where entries are persisted (default: in memory — not durable). */
+  storage?: UsageOutboxStorage
+  /** Delay before the first replay of an event, in ms (default: 1 000). */
+  initialDelayMs?: number
+  /** Upper bound for the exponential backoff, in ms (default: 5 minutes). */
+  maxDelayMs?: number
+  /** Attempts before an event is dropped (default: 20). */
+  maxAttempts?: number
+  /** Events sent per replay pass (default: 100). */
+  batchSize?: number
+  /**
+   * How often the background replay loop runs once an event has been
+   * stored, in ms (default: 30 000). The loop is started lazily and
+   * never keeps a Node process alive.
+   */
+  replayIntervalMs?: number
+  /** Called for events that are dropped instead of replayed. */
+  onDrop?: (entry: UsageOutboxEntry, error: unknown) => void
+  /** Where failed replays and callbacks are logged (default: JSON lines). */
+  logger?: Logger
+}
+
+/**
+ * Persists and replays failed usage events. Create one with
+ * {@link createUsageOutbox} and pass it to `createSolvaPay({ usageOutbox })`.
+ *
+ * @since 2.1.0
+ */
+export interface UsageOutbox {
+  /**
+   * Persist an event whose delivery failed. Events without an
+   * `idempotencyKey` are given one. Rejects only if storage fails.
+   */
+  add(event: TrackUsageRequest, error: unknown): Promise<void>
+  /**
+   * Send every due event through `apiClient` once. Concurrent calls
+   * share the same pass.
+   */
+  replay(apiClient: SolvaPayClient): Promise<UsageOutboxReplayResult>
+  /**
+   * Start the background replay loop for `apiClient`. Idempotent; the
+   * paywall calls it after storing an event.
+   */
+  start(apiClient: SolvaPayClient): void
+  /** Stop the background replay loop. */
+  stop(): void
+  /** Current pending count, oldest event age and delivery counters. */
+  metrics(): Promise<UsageOutboxMetrics>
+}
+
+/**
+ * Whether a failed usage POST is worth replaying. Client errors from
+ * the API (validation, auth, unknown customer) fail the same way every
+ * time, so only rate limits, server errors and transport failures are
+ * retried.
+ *
+ * @since 2.1.0
+ */
+export function isRetryableUsageError(error: unknown): boolean {
+  if (error instanceof SolvaPayApiError) {
+    return error.status === 429 || error.status >= 500
+  }
+  return true
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Create a {@link UsageOutbox}.
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   createSolvaPay,
+ *   createUsageOutbox,
+ *   createFileUsageOutboxStorage,
+ * } from '@solvapay/server'
+ *
+ * const usageOutbox = createUsageOutbox({
+ *   storage: createFileUsageOutboxStorage({ path: '.solvapay/usage-outbox.json' }),
+ * })
+ * const solvaPay = createSolvaPay({ usageOutbox })
+ *
+ * // Replay anything left over from the previous process
+ * await solvaPay.replayUsage()
+ *
+ * setInterval(async () => {
+ *   const { pending, oldestAgeMs } = await usageOutbox.metrics()
+ *   metrics.gauge('solvapay.usage_outbox.pending', pending)
+ *   metrics.gauge('solvapay.usage_outbox.oldest_age_ms', oldestAgeMs ?? 0)
+ * }, 60_000)
+ * ```
+ *
+ * @since 2.1.0
+ */
+export function createUsageOutbox(options: UsageOutboxOptions = {}): UsageOutbox {
+  const storage = options.storage ?? createMemoryUsageOutboxStorage()
+  const initialDelayMs = options.initialDelayMs ?? 1_000
+  const maxDelayMs = options.maxDelayMs ?? 5 * 60_000
+  const maxAttempts = options.maxAttempts ?? 20
+  const batchSize = Math.max(1, options.batchSize ?? 100)
+  const replayIntervalMs = options.replayIntervalMs ?? 30_000
+  const logger = withRedaction(options.logger ?? createJsonLogger())
+
+  const counters = { failures: 0, delivered: 0, dropped: 0 }
+  let replaying: Promise<UsageOutboxReplayResult> | undefined
+  let timer: ReturnType<typeof setInterval> | undefined
+
+  const backoff = (attempts: number) =>
+    Math.min(maxDelayMs, initialDelayMs * 2 ** Math.max(0, attempts - 1))
+
+  const drop = async (entry: UsageOutboxEntry, error: unknown) => {
+    counters.dropped++
+    await storage.delete(entry.event.idempotencyKey)
+    try {
+      options.onDrop?.(entry, error)
+    } catch (callbackError) {
+      logger.error('Usage outbox onDrop callback failed', { error: callbackError })
+    }
+  }
+
+  const recordFailure = async (entry: UsageOutboxEntry, error: unknown) => {
+    counters.failures++
+    const attempts = entry.attempts + 1
+    if (attempts >= maxAttempts || !isRetryableUsageError(error)) {
+      await drop({ ...entry, attempts, lastError: errorMessage(error) }, error)
+      return
+    }
+    await storage.put({
+      ...entry,
+      attempts,
+      nextAttemptAt: Date.now() + backoff(attempts),
+      lastError: errorMessage(error),
+    })
+  }
+
+  const send = async (
+    apiClient: SolvaPayClient,
+    entries: UsageOutboxEntry[],
+  ): Promise<UsageOutboxReplayResult> => {
+    const result = { delivered: 0, failed: 0, dropped: 0 }
+    const droppedBefore = counters.dropped
+
+    if (apiClient.trackUsageBulk) {
+      try {
+        await apiClient.trackUsageBulk({ events: entries.map(entry => entry.event) })
+        await Promise.all(entries.map(entry => storage.delete(entry.event.idempotencyKey)))
+        result.delivered = entries.length
+      } catch (error) {
+        await Promise.all(entries.map(entry => recordFailure(entry, error)))
+        result.failed = entries.length
+      }
+    } else {
+      for (const entry of entries) {
+        try {
+          await apiClient.trackUsage(entry.event)
+          await storage.delete(entry.event.idempotencyKey)
+          result.delivered++
+        } catch (error) {
+          await recordFailure(entry, error)
+          result.failed++
+        }
+      }
+    }
+
+    counters.delivered += result.delivered
+    result.dropped = counters.dropped - droppedBefore
+    result.failed -= result.dropped
+    return result
+  }
+
+  const outbox: UsageOutbox = {
+    async add(event, error) {
+      counters.failures++
+      const now = Date.now()
+      const entry: UsageOutboxEntry = {
+        event: {
+          ...event,
+          idempotencyKey: event.idempotencyKey ?? generateIdempotencyKey('usage'),
+        },
+        attempts: 1,
+        enqueuedAt: now,
+        nextAttemptAt: now + backoff(1),
+        lastError: errorMessage(error),
+      }
+      if (!isRetryableUsageError(error)) {
+        await drop(entry, error)
+        return
+      }
+      await storage.put(entry)
+    },
+
+    replay(apiClient) {
+      replaying ??= (async () => {
+        try {
+          const now = Date.now()
+          const due = (await storage.list())
+            .filter(entry => entry.nextAttemptAt <= now)
+            .sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+            .slice(0, batchSize)
+          if (due.length === 0) return { delivered: 0, failed: 0, dropped: 0 }
+          return await send(apiClient, due)
+        } finally {
+          replaying = undefined
+        }
+      })()
+      return replaying
+    },
+
+    start(apiClient) {
+      if (timer !== undefined) return
+      timer = setInterval(() => {
+        outbox.replay(apiClient).catch(error => {
+          logger.error('Usage outbox replay failed', { error })
+        })
+      }, replayIntervalMs)
+      ;(timer as { unref?: () => void }).unref?.()
+    },
+
+    stop() {
+      if (timer !== undefined) clearInterval(timer)
+      timer = undefined
+    },
+
+    async metrics() {
+      const entries = await storage.list()
+      const oldest = entries.reduce<number | null>(
+        (min, entry) => (min === null || entry.enqueuedAt < min ? entry.enqueuedAt : min),
+        null,
+      )
+      return {
+        pending: entries.length,
+        oldestAgeMs: oldest === null ? null : Date.now() - oldest,
+        ...counters,
+      }
+    },
+  }
+
+  return outbox
+}
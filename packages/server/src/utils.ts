@@ -4,6 +4,28 @@
 
 import type { RetryOptions } from './types'
 
+/** A fresh idempotency key, e.g. `usage-3b241101-e2bb-4255-8caf-4136c566a962`. */
+export function generateIdempotencyKey(prefix: string): string {
+  // `globalThis.crypto` is behind a flag on Node 18.
+  const id =
+    globalThis.crypto?.randomUUID?.() ??
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`
+  return `${prefix}-${id}`
+}
+
+/**
+ * Whether `error` is the `AbortError` raised when a caller cancels the
+ * work — an aborted `fetch`, `signal.throwIfAborted()`, or the MCP
+ * response context after `notifications/cancelled`.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { name?: unknown }).name === 'AbortError'
+  )
+}
+
 /**
  * Execute an async function with automatic retry logic.
  *
@@ -19,6 +41,7 @@ import type { RetryOptions } from './types'
  * @param options.backoffStrategy - Backoff strategy: 'fixed', 'linear', or 'exponential' (default: 'fixed')
  * @param options.shouldRetry - Optional function to determine if error should be retried
  * @param options.onRetry - Optional callback called before each retry attempt
+ * @param options.getDelay - Optional per-error delay override (e.g. `Retry-After`)
  * @returns A promise that resolves with the function result or rejects with the last error
  *
  * @example
@@ -48,6 +71,7 @@ export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions =
     backoffStrategy = 'fixed',
     shouldRetry,
     onRetry,
+    getDelay,
   } = options
 
   let lastError: Error
@@ -71,7 +95,8 @@ export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions =
       }
 
       // Calculate delay based on backoff strategy
-      const delay = calculateDelay(initialDelay, attempt, backoffStrategy)
+      const delay =
+        getDelay?.(lastError, attempt) ?? calculateDelay(initialDelay, attempt, backoffStrategy)
 
       // Call onRetry callback if provided
       if (onRetry) {
@@ -0,0 +1,34 @@
+/**
+ * Webhooks Export
+ *
+ * Exports the webhook router, the shared verification primitives and
+ * their types. The public `verifyWebhook` / `createWebhookRouter` live
+ * in `index.ts` / `edge.ts`, each bound to that entry's crypto.
+ */
+
+export { createWebhookRouterImpl } from './router'
+export type {
+  WebhookRouter,
+  WebhookRouterOptions,
+  WebhookRouterResult,
+  WebhookHandler,
+  WebhookAnyHandler,
+  WebhookHandlerContext,
+  WebhookExpressRequest,
+  WebhookExpressResponse,
+  WebhookVerifier,
+} from './router'
+export {
+  WebhookVerificationError,
+  DEFAULT_WEBHOOK_TOLERANCE_SEC,
+  parseWebhookBody,
+  parseWebhookSignature,
+  resolveWebhookSecrets,
+  webhookFailureReason,
+  webhookFailureStatus,
+} from './verify'
+export type {
+  VerifyWebhookParams,
+  WebhookVerificationResult,
+  WebhookVerificationFailureReason,
+} from './verify'
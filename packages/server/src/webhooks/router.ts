@@ -0,0 +1,328 @@
+/**
+ * Webhook Router
+ *
+ * Typed per-event dispatch on top of `verifyWebhook`. The router owns
+ * signature verification, idempotency (each `event.id` runs its
+ * handlers at most once per `seenEventTtlMs`) and framework glue for
+ * Express, Next.js route handlers and Web-standards `fetch` runtimes.
+ *
+ * The module is verifier-agnostic: `index.ts` binds it to the
+ * `node:crypto` `verifyWebhook`, `edge.ts` to the Web Crypto variant,
+ * so `createWebhookRouter` resolves to the right crypto through the
+ * same export conditions as `verifyWebhook` itself.
+ */
+
+import { SolvaPayError } from '@solvapay/core'
+import type { WebhookEvent, WebhookEventForType, WebhookEventType } from '../types/webhook'
+import type { VerifyWebhookParams, WebhookVerificationResult } from './verify'
+import type { PaywallStore } from '../store/base'
+import { PaywallStoreKeys } from '../store/base'
+import { createMemoryPaywallStore } from '../store/memory'
+import { webhookFailureReason, webhookFailureStatus } from './verify'
+
+/**
+ * Extra information passed to every webhook handler.
+ */
+export interface WebhookHandlerContext {
+  /** Raw request body the signature was verified against. */
+  rawBody: string
+  /**
+   * Index of the secret that verified the delivery, or `undefined`
+   * when the event was passed to `dispatch` directly.
+   */
+  secretIndex?: number
+}
+
+/**
+ * Handler for a single event type. `event` is narrowed to the payload
+ * shape for `TType` (see {@link WebhookEventForType}).
+ */
+export type WebhookHandler<TType extends WebhookEventType = WebhookEventType> = (
+  event: WebhookEventForType<TType>,
+  context: WebhookHandlerContext,
+) => void | Promise<void>
+
+/**
+ * Handler that receives any event — used for `'*'` and the fallback.
+ */
+export type WebhookAnyHandler = (
+  event: WebhookEvent,
+  context: WebhookHandlerContext,
+) => void | Promise<void>
+
+/**
+ * Options for {@link createWebhookRouter}.
+ */
+export interface WebhookRouterOptions {
+  /**
+   * Webhook signing secret (`whsec_…`), or several secrets during a
+   * rotation. Defaults to `process.env.SOLVAPAY_WEBHOOK_SECRET`.
+   */
+  secret?: string | readonly string[]
+  /** Maximum signature age in seconds (default: 300, `0` disables). */
+  toleranceSec?: number
+  /**
+   * Store used to remember processed event ids. Any
+   * {@link PaywallStore} works — pass the same shared store as
+   * `createSolvaPay({ store })` so every replica deduplicates
+   * retries and replays together. Defaults to a per-process
+   * in-memory store.
+   */
+  seenEventStore?: PaywallStore
+  /**
+   * How long a processed event id is remembered (default: 72 hours).
+   * Should cover the backend's retry window.
+   */
+  seenEventTtlMs?: number
+}
+
+/**
+ * Outcome of {@link WebhookRouter.handle} / {@link WebhookRouter.dispatch}.
+ *
+ * - `handled` — at least one typed or wildcard handler ran.
+ * - `unhandled` — no handler matched; the fallback ran if registered.
+ * - `duplicate` — the event id was already processed; nothing ran.
+ */
+export interface WebhookRouterResult {
+  status: 'handled' | 'unhandled' | 'duplicate'
+  event: WebhookEvent
+}
+
+/**
+ * Minimal Express request/response shapes used by
+ * {@link WebhookRouter.express}. Typed structurally so the SDK does
+ * not depend on `@types/express`.
+ */
+export interface WebhookExpressRequest {
+  body: unknown
+  headers: Record<string, string | string[] | undefined>
+}
+
+export interface WebhookExpressResponse {
+  status(code: number): { json(body: unknown): unknown }
+}
+
+export interface WebhookRouter {
+  /**
+   * Register a handler for one event type. Several handlers for the
+   * same type run in registration order. Pass `'*'` to run a handler
+   * for every event, after the typed handlers.
+   */
+  on<TType extends WebhookEventType>(type: TType, handler: WebhookHandler<TType>): WebhookRouter
+  on(type: '*', handler: WebhookAnyHandler): WebhookRouter
+  /**
+   * Register the handler that runs when no typed or wildcard handler
+   * matches the event. Replaces any previously registered fallback.
+   */
+  fallback(handler: WebhookAnyHandler): WebhookRouter
+  /**
+   * Verify `signature` against `body` and dispatch the event.
+   *
+   * @throws {SolvaPayError} If the secret is missing or verification fails
+   */
+  handle(params: { body: string; signature: string }): Promise<WebhookRouterResult>
+  /**
+   * Dispatch an already-verified event. Idempotency still applies.
+   */
+  dispatch(
+    event: WebhookEvent,
+    context?: Partial<WebhookHandlerContext>,
+  ): Promise<WebhookRouterResult>
+  /**
+   * Web-standards handler for `Deno.serve`, Cloudflare Workers, Bun
+   * and other `fetch` runtimes.
+   */
+  fetch(req: Request): Promise<Response>
+  /**
+   * Next.js App Router route handler: `export const POST = router.next()`.
+   */
+  next(): (req: Request) => Promise<Response>
+  /**
+   * Express handler. Mount it behind `express.raw({ type: 'application/json' })`
+   * so `req.body` is the unparsed payload.
+   */
+  express(): (req: WebhookExpressRequest, res: WebhookExpressResponse) => Promise<void>
+}
+
+/** Signature of the runtime-specific `verifyWebhookSignature` the router is bound to. */
+export type WebhookVerifier = (
+  params: VerifyWebhookParams,
+) => WebhookVerificationResult | Promise<WebhookVerificationResult>
+
+const DEFAULT_SEEN_EVENT_TTL_MS = 72 * 60 * 60 * 1000
+
+/**
+ * Build a router bound to a specific `verifyWebhook` implementation.
+ * Not exported publicly — consumers call `createWebhookRouter` from
+ * `@solvapay/server` (or `/edge`), which picks the verifier.
+ *
+ * @internal
+ */
+export function createWebhookRouterImpl(
+  options: WebhookRouterOptions,
+  verify: WebhookVerifier,
+): WebhookRouter {
+  const handlers = new Map<string, WebhookAnyHandler[]>()
+  let fallbackHandler: WebhookAnyHandler | undefined
+  const seenEventStore = options.seenEventStore ?? createMemoryPaywallStore()
+  const seenEventTtlMs = options.seenEventTtlMs ?? DEFAULT_SEEN_EVENT_TTL_MS
+
+  const resolveSecret = (): string | readonly string[] | undefined => {
+    const secret =
+      options.secret ||
+      (typeof process !== 'undefined' ? process.env.SOLVAPAY_WEBHOOK_SECRET : undefined)
+    if (Array.isArray(secret) && secret.filter(Boolean).length === 0) return undefined
+    return secret
+  }
+
+  const dispatch = async (
+    event: WebhookEvent,
+    context: Partial<WebhookHandlerContext> = {},
+  ): Promise<WebhookRouterResult> => {
+    const seenKey = PaywallStoreKeys.webhookEvent(event.id)
+    // Claim the id atomically before running handlers: of several
+    // concurrent deliveries of one event, only the first to claim it
+    // runs the handlers and the rest are reported as duplicates.
+    if (!(await seenEventStore.setIfAbsent(seenKey, true, { ttlMs: seenEventTtlMs }))) {
+      return { status: 'duplicate', event }
+    }
+
+    const handlerContext: WebhookHandlerContext = {
+      rawBody: context.rawBody ?? JSON.stringify(event),
+      secretIndex: context.secretIndex,
+    }
+    const matched = [...(handlers.get(event.type) ?? []), ...(handlers.get('*') ?? [])]
+
+    try {
+      if (matched.length === 0) {
+        if (fallbackHandler) await fallbackHandler(event, handlerContext)
+        return { status: 'unhandled', event }
+      }
+      for (const handler of matched) {
+        await handler(event, handlerContext)
+      }
+      return { status: 'handled', event }
+    } catch (error) {
+      // Release the claim so the backend's retry runs the handlers again.
+      await seenEventStore.delete(seenKey)
+      throw error
+    }
+  }
+
+  const handle = async ({
+    body,
+    signature,
+  }: {
+    body: string
+    signature: string
+  }): Promise<WebhookRouterResult> => {
+    const secret = resolveSecret()
+    if (!secret) {
+      throw new SolvaPayError('Webhook secret not configured', { code: 'missing_secret' })
+    }
+    const { event, secretIndex } = await verify({
+      body,
+      signature,
+      secret,
+      toleranceSec: options.toleranceSec,
+    })
+    return dispatch(event, { rawBody: body, secretIndex })
+  }
+
+  /**
+   * Shared request pipeline for every adapter: verify, dispatch, and
+   * map the outcome to a status code + JSON body.
+   */
+  const processDelivery = async (
+    body: string,
+    signature: string,
+  ): Promise<{ status: number; body: Record<string, unknown> }> => {
+    const secret = resolveSecret()
+    if (!secret) {
+      return { status: 500, body: { error: 'Webhook secret not configured' } }
+    }
+
+    let verified: WebhookVerificationResult
+    try {
+      verified = await verify({ body, signature, secret, toleranceSec: options.toleranceSec })
+    } catch (error) {
+      const status = webhookFailureStatus(error)
+      return {
+        status,
+        body: {
+          error: status === 400 ? 'Invalid webhook payload' : 'Invalid webhook signature',
+          ...webhookFailureReason(error),
+        },
+      }
+    }
+
+    try {
+      const result = await dispatch(verified.event, {
+        rawBody: body,
+        secretIndex: verified.secretIndex,
+      })
+      return {
+        status: 200,
+        body: { received: true, ...(result.status === 'duplicate' ? { duplicate: true } : {}) },
+      }
+    } catch {
+      return { status: 500, body: { error: 'Webhook handler failed' } }
+    }
+  }
+
+  const fetchHandler = async (req: Request): Promise<Response> => {
+    const result = await processDelivery(await req.text(), req.headers.get('sv-signature') ?? '')
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  const router: WebhookRouter = {
+    on(type: string, handler: WebhookAnyHandler) {
+      const list = handlers.get(type) ?? []
+      list.push(handler)
+      handlers.set(type, list)
+      return router
+    },
+
+    fallback(handler) {
+      fallbackHandler = handler
+      return router
+    },
+
+    handle,
+    dispatch,
+    fetch: fetchHandler,
+
+    next() {
+      return fetchHandler
+    },
+
+    express() {
+      return async (req, res) => {
+        const { body } = req
+        let raw: string
+        if (typeof body === 'string') {
+          raw = body
+        } else if (body instanceof Uint8Array) {
+          raw = new TextDecoder().decode(body)
+        } else {
+          // A parsed JSON body cannot be re-serialised byte-for-byte,
+          // so its signature can never match.
+          res.status(400).json({
+            error: 'Webhook body must be raw — mount express.raw({ type: "application/json" })',
+          })
+          return
+        }
+
+        const header = req.headers['sv-signature']
+        const signature = Array.isArray(header) ? (header[0] ?? '') : (header ?? '')
+        const result = await processDelivery(raw, signature)
+        res.status(result.status).json(result.body)
+      }
+    },
+  } as WebhookRouter
+
+  return router
+}
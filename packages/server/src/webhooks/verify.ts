@@ -0,0 +1,186 @@
+/**
+ * Webhook Verification Primitives
+ *
+ * Runtime-neutral pieces shared by the two `verifyWebhook`
+ * implementations (`node:crypto` in `index.ts`, Web Crypto in
+ * `edge.ts`): header parsing, secret normalisation, tolerance checks
+ * and the structured {@link WebhookVerificationError}. Only the HMAC
+ * computation differs between runtimes.
+ */
+
+import { SolvaPayError } from '@solvapay/core'
+import type { WebhookEvent } from '../types/webhook'
+
+/**
+ * Machine-readable cause of a {@link WebhookVerificationError}.
+ *
+ * - `missing` — no `SV-Signature` header.
+ * - `malformed` — header is not `t={timestamp},v1={hmac}`.
+ * - `expired` — timestamp is outside the tolerance window.
+ * - `mismatch` — no configured secret produced a matching HMAC.
+ * - `invalid_json` — signature matched but the body is not JSON.
+ */
+export type WebhookVerificationFailureReason =
+  | 'missing'
+  | 'malformed'
+  | 'expired'
+  | 'mismatch'
+  | 'invalid_json'
+
+/**
+ * Thrown by `verifyWebhook` / `verifyWebhookSignature` when a delivery
+ * cannot be verified. Extends `SolvaPayError`, so existing
+ * `instanceof SolvaPayError` checks keep working; branch on
+ * {@link WebhookVerificationError.reason} for specific handling.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   verifyWebhook({ body, signature, secret })
+ * } catch (error) {
+ *   if (error instanceof WebhookVerificationError && error.reason === 'expired') {
+ *     console.warn('Stale webhook delivery — check the server clock')
+ *   }
+ *   throw error
+ * }
+ * ```
+ *
+ * @since 2.1.0
+ */
+export class WebhookVerificationError extends SolvaPayError {
+  readonly reason: WebhookVerificationFailureReason
+
+  constructor(reason: WebhookVerificationFailureReason, message: string) {
+    super(message, {
+      status: reason === 'invalid_json' ? 400 : 401,
+      code: `webhook_${reason}`,
+    })
+    this.name = 'WebhookVerificationError'
+    this.reason = reason
+  }
+}
+
+/**
+ * Parameters accepted by both `verifyWebhook` implementations.
+ */
+export interface VerifyWebhookParams {
+  /** Raw request body as string (must be exactly as received). */
+  body: string
+  /** Value of the `SV-Signature` header. */
+  signature: string
+  /**
+   * Webhook signing secret (`whsec_…`), or several secrets during a
+   * rotation window. Each is tried in order; the first match wins.
+   */
+  secret: string | readonly string[]
+  /**
+   * Maximum age of the signature timestamp in seconds (default: 300).
+   * Pass `0` to disable the check.
+   */
+  toleranceSec?: number
+}
+
+/**
+ * Result of `verifyWebhookSignature`.
+ */
+export interface WebhookVerificationResult {
+  /** The parsed, typed event. */
+  event: WebhookEvent
+  /** Index into the `secret` list of the secret that matched (`0` for a single secret). */
+  secretIndex: number
+  /** Signature timestamp (Unix seconds) from the `t=` component. */
+  timestamp: number
+}
+
+export const DEFAULT_WEBHOOK_TOLERANCE_SEC = 300
+
+/**
+ * Normalise `secret` to a non-empty list.
+ *
+ * @internal
+ */
+export function resolveWebhookSecrets(secret: string | readonly string[]): string[] {
+  const secrets = (typeof secret === 'string' ? [secret] : [...secret]).filter(Boolean)
+  if (secrets.length === 0) {
+    throw new SolvaPayError('Webhook secret not configured', { code: 'missing_secret' })
+  }
+  return secrets
+}
+
+/**
+ * Parse `t={timestamp},v1={hmac}[,v1={hmac}…]` and enforce the
+ * tolerance window. Several `v1` entries are accepted so the backend
+ * can sign with both the old and new secret during a rotation.
+ *
+ * @internal
+ */
+export function parseWebhookSignature(
+  signature: string,
+  toleranceSec: number = DEFAULT_WEBHOOK_TOLERANCE_SEC,
+): { timestamp: number; signatures: string[] } {
+  if (!signature) throw new WebhookVerificationError('missing', 'Missing webhook signature')
+
+  const parts = signature.split(',').map(p => p.trim())
+  const tPart = parts.find(p => p.startsWith('t='))
+  const signatures = parts.filter(p => p.startsWith('v1=')).map(p => p.slice(3))
+  if (!tPart || signatures.length === 0) {
+    throw new WebhookVerificationError('malformed', 'Malformed webhook signature')
+  }
+
+  const timestamp = parseInt(tPart.slice(2), 10)
+  if (Number.isNaN(timestamp) || signatures.some(s => !s)) {
+    throw new WebhookVerificationError('malformed', 'Malformed webhook signature')
+  }
+
+  if (toleranceSec > 0) {
+    const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp)
+    if (age > toleranceSec) {
+      throw new WebhookVerificationError('expired', 'Webhook signature timestamp too old')
+    }
+  }
+
+  return { timestamp, signatures }
+}
+
+/**
+ * Parse a verified body into a {@link WebhookEvent}.
+ *
+ * @internal
+ */
+export function parseWebhookBody(body: string): WebhookEvent {
+  try {
+    return JSON.parse(body) as WebhookEvent
+  } catch {
+    throw new WebhookVerificationError(
+      'invalid_json',
+      'Invalid webhook payload: body is not valid JSON',
+    )
+  }
+}
+
+/**
+ * `{ reason }` for a {@link WebhookVerificationError}, `{}` otherwise —
+ * spread into JSON error bodies. Duck-typed rather than `instanceof`
+ * so it holds across the separately bundled `./fetch` entry.
+ *
+ * @internal
+ */
+export function webhookFailureReason(error: unknown): {
+  reason?: WebhookVerificationFailureReason
+} {
+  const reason = (error as Partial<WebhookVerificationError> | null)?.reason
+  return typeof reason === 'string' ? { reason } : {}
+}
+
+/**
+ * HTTP status for a failed delivery: the error's own `status` for a
+ * {@link WebhookVerificationError} (`400` for `invalid_json`, `401`
+ * otherwise), `401` for anything else. Duck-typed like
+ * {@link webhookFailureReason}.
+ *
+ * @internal
+ */
+export function webhookFailureStatus(error: unknown): number {
+  const { reason, status } = (error as Partial<WebhookVerificationError> | null) ?? {}
+  return typeof reason === 'string' && typeof status === 'number' ? status : 401
+}
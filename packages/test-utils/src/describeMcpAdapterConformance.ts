@@ -0,0 +1,337 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createFakeSolvaPayBackend } from './fake-backend'
+import type { FakeSolvaPayBackend } from './fake-backend'
+
+/** What came back on the wire for one JSON-RPC request. */
+export interface McpConformanceResponse {
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
+
+/**
+ * The subset of `ResponseContext` (from `@solvapay/mcp-core`) the
+ * conformance handlers use. Kept structural so test-utils does not
+ * depend on the MCP packages.
+ */
+export interface McpConformanceResponseContext {
+  respond(data: unknown, options?: Record<string, unknown>): unknown
+  emit(block: { type: 'text'; text: string }): Promise<void>
+}
+
+/** A merchant tool to register through the adapter's `registerPayable`, without an input schema. */
+export interface McpConformancePayableTool {
+  name: string
+  description: string
+  handler: (args: Record<string, unknown>, ctx: McpConformanceResponseContext) => Promise<unknown>
+}
+
+export interface McpAdapterMount {
+  apiClient: FakeSolvaPayBackend
+  productRef: string
+  resourceUri: string
+  publicBaseUrl: string
+  /** Pass as the descriptor `readHtml` option so no HTML bundle is read from disk. */
+  readHtml: () => Promise<string>
+  payableTools: McpConformancePayableTool[]
+}
+
+export interface McpAdapterDriver {
+  /**
+   * Send one JSON-RPC request (after `initialize`) as the caller whose
+   * `authInfo.extra.customer_ref` is `customerRef`.
+   */
+  request(
+    method: string,
+    params: Record<string, unknown>,
+    options: { customerRef: string },
+  ): Promise<McpConformanceResponse>
+  close?(): Promise<void>
+}
+
+export interface McpAdapterUnderTest {
+  name: string
+  /**
+   * Build the SolvaPay MCP server with the adapter under test from
+   * `createSolvaPay({ apiClient })` and the descriptor options in
+   * `setup`, register every `payableTools` entry with `registerPayable`,
+   * and return a driver for it.
+   */
+  mount(setup: McpAdapterMount): Promise<McpAdapterDriver> | McpAdapterDriver
+  /**
+   * Whether per-block `annotations` survive in tool results (default:
+   * `true`). Adapters that must drop them have to return the reference
+   * result with its annotations removed, and nothing else changed.
+   */
+  contentAnnotations?: boolean
+}
+
+export interface McpAdapterConformanceOptions {
+  /** The first adapter is the reference every other adapter is compared against. */
+  adapters: McpAdapterUnderTest[]
+}
+
+const PRODUCT_REF = 'prd_conformance'
+const RESOURCE_URI = 'ui://conformance/view.html'
+const BOOTSTRAP_URI_PATTERN = /bootstrap/
+const WIDGET_SESSION_KEY = 'openai/widgetSessionId'
+// Timestamps the fake backend and auto-created customers stamp must match across adapters.
+const FROZEN_NOW = new Date('2026-01-15T12:00:00.000Z')
+
+const PAYABLE_TOOLS: McpConformancePayableTool[] = [
+  {
+    name: 'conformance_render',
+    description: 'Render something billable.',
+    handler: async (_args, ctx) => {
+      await ctx.emit({ type: 'text', text: 'Rendering…' })
+      return ctx.respond(
+        { rendered: true },
+        { text: 'Rendered.', nudge: { kind: 'approaching-limit', message: 'Nearly out.' } },
+      )
+    },
+  },
+  {
+    name: 'conformance_fail',
+    description: 'Always fails.',
+    handler: async () => {
+      throw new Error('conformance handler failed')
+    },
+  },
+]
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    )
+  }
+  return value
+}
+
+/**
+ * Replace what legitimately differs between two runs — the per-call
+ * widget session UUID and the caller's customer ref — and optionally
+ * drop per-block `annotations` from `content[]`.
+ */
+function normalize(value: unknown, customerRef: string, stripAnnotations: boolean): unknown {
+  const walk = (node: unknown, key?: string): unknown => {
+    if (key === WIDGET_SESSION_KEY && typeof node === 'string') return '<widget-session>'
+    if (typeof node === 'string') return node.split(customerRef).join('<customer>')
+    if (Array.isArray(node)) {
+      return node.map(item => {
+        const walked = walk(item) as Record<string, unknown>
+        if (key === 'content' && stripAnnotations && walked && typeof walked === 'object') {
+          const { annotations: _annotations, ...rest } = walked
+          return rest
+        }
+        return walked
+      })
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node).map(([childKey, child]) => [childKey, walk(child, childKey)]),
+      )
+    }
+    return node
+  }
+  return walk(value)
+}
+
+/** Canonical JSON: normalized, keys sorted. Equal strings mean byte-identical results. */
+function canonical(value: unknown, customerRef: string, stripAnnotations: boolean): string {
+  return JSON.stringify(sortKeys(normalize(value, customerRef, stripAnnotations)), null, 2)
+}
+
+/**
+ * Shared conformance tests for MCP adapters built on
+ * `buildSolvaPayDescriptors`: every adapter must expose the same
+ * tools, resources and prompts, and return byte-identical tool results
+ * — canonical JSON after normalizing per-call identifiers — to the
+ * reference adapter for payable, paywalled, failing, intent and
+ * transport tool calls.
+ */
+export function describeMcpAdapterConformance(options: McpAdapterConformanceOptions): void {
+  const [reference, ...others] = options.adapters
+
+  describe('MCP adapter conformance', () => {
+    const drivers: McpAdapterDriver[] = []
+    let customerCounter = 0
+    // Customer lookups are cached process-wide, so every call needs its own ref.
+    const nextCustomer = (adapter: McpAdapterUnderTest) =>
+      `conformance_${adapter.name.toLowerCase().replace(/\W+/g, '_')}_${++customerCounter}`
+
+    const mount = async (adapter: McpAdapterUnderTest, freeUnits: number) => {
+      const driver = await adapter.mount({
+        apiClient: createFakeSolvaPayBackend({
+          products: [
+            {
+              reference: PRODUCT_REF,
+              name: 'Conformance',
+              plans: [
+                { reference: 'pln_free', name: 'Free', freeUnits, default: true },
+                { reference: 'pln_pro', name: 'Pro', price: 1000, requiresPayment: true },
+              ],
+            },
+          ],
+        }),
+        productRef: PRODUCT_REF,
+        resourceUri: RESOURCE_URI,
+        publicBaseUrl: 'https://conformance.example.com',
+        readHtml: async () => '<!doctype html><title>conformance</title>',
+        payableTools: PAYABLE_TOOLS,
+      })
+      drivers.push(driver)
+      return driver
+    }
+
+    /**
+     * Run `send` against a fresh mount of every adapter and return the
+     * reference response alongside each other adapter's, canonicalized.
+     */
+    const runAll = async (
+      freeUnits: number,
+      send: (driver: McpAdapterDriver, customerRef: string) => Promise<McpConformanceResponse>,
+    ) => {
+      const run = async (adapter: McpAdapterUnderTest) => {
+        const customerRef = nextCustomer(adapter)
+        const response = await send(await mount(adapter, freeUnits), customerRef)
+        return { adapter, customerRef, response }
+      }
+      const expected = await run(reference)
+      const actual = []
+      for (const adapter of others) actual.push(await run(adapter))
+      return { expected, actual }
+    }
+
+    const expectIdenticalResults = async (
+      freeUnits: number,
+      send: (driver: McpAdapterDriver, customerRef: string) => Promise<McpConformanceResponse>,
+    ) => {
+      const { expected, actual } = await runAll(freeUnits, send)
+      expect(expected.response.error).toBeUndefined()
+      for (const { adapter, customerRef, response } of actual) {
+        const strip = adapter.contentAnnotations === false
+        expect(response.error, adapter.name).toBeUndefined()
+        expect(canonical(response.result, customerRef, false), adapter.name).toBe(
+          canonical(expected.response.result, expected.customerRef, strip),
+        )
+      }
+      return expected.response.result as {
+        content: Array<Record<string, unknown>>
+        structuredContent?: Record<string, unknown>
+        isError?: boolean
+      }
+    }
+
+    const callTool =
+      (name: string, args: Record<string, unknown> = {}) =>
+      (driver: McpAdapterDriver, customerRef: string) =>
+        driver.request('tools/call', { name, arguments: args }, { customerRef })
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'], now: FROZEN_NOW })
+    })
+
+    afterEach(async () => {
+      vi.useRealTimers()
+      await Promise.all(drivers.splice(0).map(driver => driver.close?.()))
+    })
+
+    it('lists the same tools, resources and prompts', async () => {
+      const list = async (driver: McpAdapterDriver, customerRef: string) => {
+        const names = async (method: string, key: string, field: string) => {
+          const { result } = await driver.request(method, {}, { customerRef })
+          return ((result as Record<string, Array<Record<string, unknown>>>)[key] ?? [])
+            .map(entry => entry[field] as string)
+            .sort()
+        }
+        return {
+          result: {
+            tools: await names('tools/list', 'tools', 'name'),
+            resources: await names('resources/list', 'resources', 'uri'),
+            prompts: await names('prompts/list', 'prompts', 'name'),
+          },
+        }
+      }
+
+      const result = (await expectIdenticalResults(10, list)) as unknown as Record<string, string[]>
+      expect(result.tools).toEqual(expect.arrayContaining(PAYABLE_TOOLS.map(tool => tool.name)))
+      expect(result.resources).toContain(RESOURCE_URI)
+      expect(result.prompts.length).toBeGreaterThan(0)
+    })
+
+    it('returns identical results for a payable tool within limits', async () => {
+      const result = await expectIdenticalResults(10, callTool('conformance_render'))
+      expect(result.isError).toBeFalsy()
+      expect(result.structuredContent).toMatchObject({ rendered: true })
+      expect(JSON.stringify(result.content)).toContain('Rendering…')
+    })
+
+    it('returns identical paywall results without running the handler', async () => {
+      const result = await expectIdenticalResults(0, callTool('conformance_render'))
+      expect(JSON.stringify(result.content)).not.toContain('Rendering…')
+      expect(result.structuredContent).not.toMatchObject({ rendered: true })
+    })
+
+    it('returns identical results when the handler throws', async () => {
+      const result = await expectIdenticalResults(10, callTool('conformance_fail'))
+      expect(result.isError).toBe(true)
+      expect(JSON.stringify(result.content)).toContain('conformance handler failed')
+    })
+
+    it('returns identical results for an intent tool', async () => {
+      const result = await expectIdenticalResults(10, callTool('upgrade'))
+      expect(result.content.length).toBeGreaterThan(0)
+    })
+
+    it('returns identical results for a transport tool', async () => {
+      const result = await expectIdenticalResults(
+        10,
+        callTool('create_checkout_session', { planRef: 'pln_pro' }),
+      )
+      expect(result.content.length).toBeGreaterThan(0)
+    })
+
+    it('reads identical bootstrap and docs resources', async () => {
+      const readAll = async (driver: McpAdapterDriver, customerRef: string) => {
+        const { result } = await driver.request('resources/list', {}, { customerRef })
+        const uris = (result as { resources: Array<{ uri: string }> }).resources
+          .map(resource => resource.uri)
+          .filter(uri => uri !== RESOURCE_URI)
+          .sort()
+        const texts: Record<string, unknown> = {}
+        for (const uri of uris) {
+          const read = await driver.request('resources/read', { uri }, { customerRef })
+          const [contents] = (read.result as { contents: Array<{ text?: string }> }).contents
+          texts[uri] = contents.text
+        }
+        return { result: texts }
+      }
+
+      const texts = (await expectIdenticalResults(10, readAll)) as unknown as Record<string, string>
+      const bootstrapUri = Object.keys(texts).find(uri => BOOTSTRAP_URI_PATTERN.test(uri))
+      expect(bootstrapUri).toBeDefined()
+      expect(JSON.parse(texts[bootstrapUri as string])).toMatchObject({ productRef: PRODUCT_REF })
+    })
+
+    it('renders identical prompts', async () => {
+      const getAll = async (driver: McpAdapterDriver, customerRef: string) => {
+        const { result } = await driver.request('prompts/list', {}, { customerRef })
+        const prompts = (result as { prompts: Array<{ name: string; arguments?: unknown[] }> })
+          .prompts
+        const messages: Record<string, unknown> = {}
+        for (const prompt of prompts.filter(entry => !entry.arguments?.length)) {
+          const got = await driver.request('prompts/get', { name: prompt.name }, { customerRef })
+          messages[prompt.name] = (got.result as { messages: unknown }).messages
+        }
+        return { result: messages }
+      }
+
+      const messages = await expectIdenticalResults(10, getAll)
+      expect(Object.keys(messages).length).toBeGreaterThan(0)
+    })
+  })
+}
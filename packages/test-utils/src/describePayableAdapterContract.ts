@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { createFakeSolvaPayBackend } from './fake-backend'
+import type { FakeSolvaPayBackend } from './fake-backend'
+
+export interface PayableContractRequest {
+  method: 'GET' | 'POST'
+  /** Path including the query string, e.g. `/items/42?q=1`. */
+  path: string
+  headers: Record<string, string>
+  /** Objects are sent as JSON; strings as `text/plain`. */
+  body?: unknown
+}
+
+export interface PayableContractResponse {
+  status: number
+  /** Parsed JSON body. */
+  body: unknown
+}
+
+export interface PayableAdapterMount {
+  apiClient: FakeSolvaPayBackend
+  productRef: string
+  handler: (args: Record<string, unknown>) => Promise<unknown>
+  /** Per-route payable options to hand to the adapter. */
+  routeOptions?: { usageType?: string }
+}
+
+export interface PayableAdapterDriver {
+  request(request: PayableContractRequest): Promise<PayableContractResponse>
+  close?(): Promise<void>
+}
+
+export interface PayableAdapterContractOptions {
+  name: string
+  /**
+   * Mount `handler` on `GET` and `POST /items/:id`, gated by
+   * `createSolvaPay({ apiClient }).payable({ productRef })` through the
+   * adapter under test.
+   */
+  mount(setup: PayableAdapterMount): Promise<PayableAdapterDriver> | PayableAdapterDriver
+}
+
+const PRODUCT_REF = 'prd_contract'
+
+/**
+ * Shared contract tests for `payable` framework adapters: argument
+ * extraction, customer resolution, and the 200 / 402 / 500 response
+ * shapes every adapter must produce.
+ */
+export function describePayableAdapterContract(options: PayableAdapterContractOptions): void {
+  describe(`${options.name} payable adapter contract`, () => {
+    const drivers: PayableAdapterDriver[] = []
+    let customerCounter = 0
+    // Customer lookups are cached process-wide, so every test needs its own ref.
+    const nextCustomer = () =>
+      `contract_${options.name.toLowerCase().replace(/\W+/g, '_')}_${++customerCounter}`
+
+    const mount = async (
+      freeUnits: number,
+      handler: PayableAdapterMount['handler'],
+      routeOptions?: PayableAdapterMount['routeOptions'],
+    ) => {
+      const apiClient = createFakeSolvaPayBackend({
+        products: [
+          {
+            reference: PRODUCT_REF,
+            name: 'Contract',
+            plans: [{ reference: 'pln_free', name: 'Free', freeUnits, default: true }],
+          },
+        ],
+      })
+      const driver = await options.mount({
+        apiClient,
+        productRef: PRODUCT_REF,
+        handler,
+        routeOptions,
+      })
+      drivers.push(driver)
+      return { apiClient, driver }
+    }
+
+    afterEach(async () => {
+      await Promise.all(drivers.splice(0).map(driver => driver.close?.()))
+    })
+
+    it('merges body, query and route params into the handler arguments', async () => {
+      const { apiClient, driver } = await mount(10, async args => ({ received: args }))
+
+      const response = await driver.request({
+        method: 'POST',
+        path: '/items/42?q=search',
+        headers: { 'x-customer-ref': nextCustomer() },
+        body: { title: 'Write tests' },
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.body).toMatchObject({
+        received: { title: 'Write tests', q: 'search', id: '42' },
+      })
+      expect(apiClient.usageEvents).toEqual([expect.objectContaining({ outcome: 'success' })])
+    })
+
+    it('resolves the customer from the x-customer-ref header', async () => {
+      const customerRef = nextCustomer()
+      const { apiClient, driver } = await mount(10, async () => ({ ok: true }))
+
+      await driver.request({
+        method: 'GET',
+        path: '/items/1',
+        headers: { 'x-customer-ref': customerRef },
+      })
+
+      expect(apiClient.calls).toContainEqual(
+        expect.objectContaining({
+          method: 'createCustomer',
+          params: [expect.objectContaining({ externalRef: customerRef })],
+        }),
+      )
+    })
+
+    it('responds 402 with the paywall payload without running the handler', async () => {
+      let ran = false
+      const { apiClient, driver } = await mount(0, async () => {
+        ran = true
+        return { ok: true }
+      })
+
+      const response = await driver.request({
+        method: 'POST',
+        path: '/items/1',
+        headers: { 'x-customer-ref': nextCustomer() },
+        body: {},
+      })
+
+      expect(response.status).toBe(402)
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Payment required',
+        kind: 'payment_required',
+        product: PRODUCT_REF,
+      })
+      expect(ran).toBe(false)
+      expect(apiClient.usageEvents).toEqual([expect.objectContaining({ outcome: 'paywall' })])
+    })
+
+    it('responds 500 and tracks a failure when the handler throws', async () => {
+      const { apiClient, driver } = await mount(10, async () => {
+        throw new Error('boom')
+      })
+
+      const response = await driver.request({
+        method: 'POST',
+        path: '/items/1',
+        headers: { 'x-customer-ref': nextCustomer() },
+        body: {},
+      })
+
+      expect(response.status).toBe(500)
+      expect(response.body).toEqual({ success: false, error: 'boom' })
+      expect(apiClient.usageEvents).toEqual([expect.objectContaining({ outcome: 'fail' })])
+    })
+
+    it('does not spread raw string bodies into the arguments', async () => {
+      const { driver } = await mount(10, async args => ({ keys: Object.keys(args).sort() }))
+
+      const response = await driver.request({
+        method: 'POST',
+        path: '/items/7',
+        headers: { 'x-customer-ref': nextCustomer() },
+        body: 'plain text',
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.body).toEqual({ keys: ['auth', 'id'] })
+    })
+
+    it('meters the route on its per-route usage type', async () => {
+      const { apiClient, driver } = await mount(10, async () => ({ ok: true }), {
+        usageType: 'images',
+      })
+
+      await driver.request({
+        method: 'GET',
+        path: '/items/1',
+        headers: { 'x-customer-ref': nextCustomer() },
+      })
+
+      expect(apiClient.usageEvents).toEqual([
+        expect.objectContaining({
+          outcome: 'success',
+          metadata: expect.objectContaining({ action: 'images' }),
+        }),
+      ])
+    })
+  })
+}
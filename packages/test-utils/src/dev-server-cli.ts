@@ -0,0 +1,79 @@
+import { createSolvaPayDevServer } from './dev-server'
+
+const HELP_TEXT = `SolvaPay dev server
+
+Usage:
+  pnpm --filter @solvapay/test-utils dev-server [flags]
+
+Flags:
+  --port <n>          Port to listen on (default: 4010)
+  --host <host>       Interface to bind (default: 127.0.0.1)
+  --fixture <path>    JSON file with products / customers to seed
+  --api-key <key>     Require this secret key (default: accept any bearer token)
+  --latency <ms>      Delay every API call by this many milliseconds
+`
+
+interface DevServerArgs {
+  port: number
+  host: string
+  fixture?: string
+  apiKey?: string
+  latencyMs?: number
+  help: boolean
+}
+
+function parseDevServerArgs(argv: string[]): DevServerArgs {
+  const args: DevServerArgs = { port: 4010, host: '127.0.0.1', help: false }
+  const value = (flag: string, i: number) => {
+    const next = argv[i]
+    if (!next || next.startsWith('--')) throw new Error(`${flag} requires a value`)
+    return next
+  }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--help' || arg === '-h') {
+      args.help = true
+    } else if (arg === '--port') {
+      args.port = Number(value(arg, ++i))
+      if (!Number.isInteger(args.port)) throw new Error('--port must be an integer')
+    } else if (arg === '--host') {
+      args.host = value(arg, ++i)
+    } else if (arg === '--fixture') {
+      args.fixture = value(arg, ++i)
+    } else if (arg === '--api-key') {
+      args.apiKey = value(arg, ++i)
+    } else if (arg === '--latency') {
+      args.latencyMs = Number(value(arg, ++i))
+    }
+  }
+  return args
+}
+
+const main = async () => {
+  const args = parseDevServerArgs(process.argv.slice(2))
+  if (args.help) {
+    process.stdout.write(`${HELP_TEXT}\n`)
+    return
+  }
+
+  const server = createSolvaPayDevServer({
+    fixture: args.fixture,
+    apiKey: args.apiKey,
+    latencyMs: args.latencyMs,
+  })
+  const { url, close } = await server.listen({ port: args.port, hostname: args.host })
+  process.stdout.write(`SolvaPay dev server listening on ${url}\n`)
+  process.stdout.write(`Set SOLVAPAY_API_BASE_URL=${url} to use it.\n`)
+
+  const shutdown = () => {
+    close().finally(() => process.exit(0))
+  }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+}
+
+main().catch(error => {
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  process.stderr.write(`Error: ${message}\n`)
+  process.exitCode = 1
+})
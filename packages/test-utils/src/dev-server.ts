@@ -0,0 +1,713 @@
+/**
+ * SolvaPay Dev Server
+ *
+ * Local stand-in for the SolvaPay API. Serves the `/v1/sdk/*` routes
+ * `createSolvaPayClient` calls on top of {@link createFakeSolvaPayBackend},
+ * plus bare-bones hosted checkout and customer-portal pages, so apps
+ * and examples can run the full paywall and checkout stack offline by
+ * pointing `SOLVAPAY_API_BASE_URL` at it.
+ *
+ * Route paths and request bodies are typed against `paths` from the
+ * generated OpenAPI types, so a renamed or removed endpoint fails the
+ * type-check here. Errors use the backend's `{ statusCode, message,
+ * error }` body, which the client folds into its `SolvaPayError`
+ * message exactly as it does for live responses.
+ *
+ * Run it with `pnpm --filter @solvapay/test-utils dev-server`, or embed
+ * it in a test with `createSolvaPayDevServer().listen()`.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { SolvaPayError } from '@solvapay/core'
+import type { components, CustomerResponseMapped, paths } from '@solvapay/server'
+import { createFakeSolvaPayBackend } from './fake-backend'
+import type {
+  FakePaymentOutcome,
+  FakeSolvaPayBackend,
+  FakeSolvaPayBackendOptions,
+  FakeSolvaPayMethod,
+} from './fake-backend'
+
+/**
+ * Seed state for the dev server — the JSON-serialisable subset of
+ * {@link FakeSolvaPayBackendOptions}.
+ */
+export type SolvaPayDevServerFixture = Pick<
+  FakeSolvaPayBackendOptions,
+  | 'products'
+  | 'customers'
+  | 'merchant'
+  | 'autoCreateProducts'
+  | 'defaultFreeUnits'
+  | 'creditsPerMinorUnit'
+>
+
+export interface SolvaPayDevServerOptions {
+  /** Seed state, or a path to a JSON file containing it. */
+  fixture?: SolvaPayDevServerFixture | string
+  /**
+   * Secret key clients must send as `Authorization: Bearer …`. When
+   * unset, any non-empty bearer token is accepted.
+   */
+  apiKey?: string
+  /**
+   * Public origin used in checkout / customer-portal URLs. Defaults to
+   * the origin of the request being served.
+   */
+  baseUrl?: string
+  /** Artificial delay applied to every API call, in milliseconds. */
+  latencyMs?: number
+}
+
+export interface SolvaPayDevServerListenOptions {
+  /** Port to bind (default: 4010; `0` picks a free port). */
+  port?: number
+  /** Interface to bind (default: `127.0.0.1`). */
+  hostname?: string
+}
+
+export interface SolvaPayDevServerHandle {
+  /** Origin the server is reachable at, e.g. `http://127.0.0.1:4010`. */
+  url: string
+  close(): Promise<void>
+}
+
+export interface SolvaPayDevServer {
+  /** The backing fake — seed, inspect or inject faults directly. */
+  readonly backend: FakeSolvaPayBackend
+  /** Web-standards handler; usable without binding a port. */
+  fetch(req: Request): Promise<Response>
+  /** Bind a Node HTTP server. */
+  listen(options?: SolvaPayDevServerListenOptions): Promise<SolvaPayDevServerHandle>
+}
+
+/**
+ * Endpoints `createSolvaPayClient` calls that the published OpenAPI
+ * spec doesn't list yet. Drop entries once `generated.ts` catches up.
+ */
+type UnpublishedPath = '/v1/sdk/payment-intents/{processorPaymentId}/business-details'
+
+type RoutePath = keyof paths | UnpublishedPath
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+type RequestBody<TPath extends RoutePath, TMethod extends HttpMethod> = TPath extends keyof paths
+  ? paths[TPath][TMethod] extends { requestBody?: { content: { 'application/json': infer B } } }
+    ? B
+    : undefined
+  : Record<string, unknown>
+
+interface RouteContext<TBody> {
+  body: TBody
+  params: Record<string, string>
+  query: URLSearchParams
+  headers: Headers
+}
+
+interface Route {
+  method: HttpMethod
+  segments: string[]
+  status: number
+  handle(ctx: RouteContext<never>): unknown
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  500: 'Internal Server Error',
+  504: 'Gateway Timeout',
+}
+
+/** Returned by a handler to short-circuit with an error response. */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+const errorResponse = (status: number, message: string) =>
+  json(status, { statusCode: status, message, error: STATUS_TEXT[status] ?? 'Error' })
+
+const html = (status: number, title: string, body: string) =>
+  new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+      `<body style="font-family:system-ui;max-width:32rem;margin:4rem auto">` +
+      `<h1>${title}</h1>${body}<p><small>SolvaPay dev server</small></p></body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } },
+  )
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!,
+  )
+
+function requireFields(body: unknown, ...fields: string[]): void {
+  const record = (body ?? {}) as Record<string, unknown>
+  for (const field of fields) {
+    if (record[field] === undefined || record[field] === null || record[field] === '') {
+      throw new HttpError(400, `${field} is required`)
+    }
+  }
+}
+
+/**
+ * The fake throws `SolvaPayError("{Operation} failed ({status}): {message}")`;
+ * strip the client-side prefix so the wire body carries only the
+ * backend message, as the live API does.
+ */
+function toErrorResponse(error: unknown): Response {
+  if (error instanceof HttpError) return errorResponse(error.status, error.message)
+  if (error instanceof SolvaPayError) {
+    const message = error.message.replace(/^.*? failed \(\d+\): /, '')
+    return errorResponse(error.status ?? 500, message)
+  }
+  return errorResponse(500, error instanceof Error ? error.message : 'Internal server error')
+}
+
+/**
+ * Read a dev-server fixture from a JSON file.
+ *
+ * @example
+ * ```json
+ * {
+ *   "products": [
+ *     {
+ *       "reference": "prd_demo",
+ *       "plans": [
+ *         { "reference": "pln_free", "freeUnits": 5, "default": true },
+ *         { "reference": "pln_pro", "price": 2000 }
+ *       ]
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+export function loadDevServerFixture(path: string): SolvaPayDevServerFixture {
+  const fixture: unknown = JSON.parse(readFileSync(path, 'utf8'))
+  if (!fixture || typeof fixture !== 'object' || Array.isArray(fixture)) {
+    throw new Error(`Dev server fixture ${path} must be a JSON object`)
+  }
+  for (const key of ['products', 'customers'] as const) {
+    const value = (fixture as Record<string, unknown>)[key]
+    if (value !== undefined && !Array.isArray(value)) {
+      throw new Error(`Dev server fixture ${path}: "${key}" must be an array`)
+    }
+  }
+  return fixture as SolvaPayDevServerFixture
+}
+
+/**
+ * Create a dev server backed by a fresh in-memory fake.
+ *
+ * @example
+ * ```typescript
+ * const server = createSolvaPayDevServer({ fixture: './solvapay.fixture.json' })
+ * const { url } = await server.listen({ port: 4010 })
+ * // SOLVAPAY_API_BASE_URL=http://127.0.0.1:4010
+ * ```
+ */
+export function createSolvaPayDevServer(options: SolvaPayDevServerOptions = {}): SolvaPayDevServer {
+  const fixture =
+    typeof options.fixture === 'string'
+      ? loadDevServerFixture(options.fixture)
+      : (options.fixture ?? {})
+
+  // Checkout URLs point back at whichever origin served the request,
+  // so they work on any port / host without extra configuration. The
+  // origin is scoped to each request: the backend builds URLs after
+  // awaiting, when other requests may be in flight.
+  const requestOrigin = new AsyncLocalStorage<string>()
+  const backend = createFakeSolvaPayBackend({
+    ...fixture,
+    baseUrl: () => options.baseUrl ?? requestOrigin.getStore() ?? 'http://127.0.0.1:4010',
+    latencyMs: options.latencyMs,
+  })
+  const returnUrls = new Map<string, string>()
+
+  const customerJson = (
+    customer: CustomerResponseMapped,
+  ): components['schemas']['CustomerResponse'] => ({
+    reference: customer.customerRef,
+    name: customer.name ?? '',
+    email: customer.email ?? '',
+    ...(customer.externalRef !== undefined ? { externalRef: customer.externalRef } : {}),
+    purchases: customer.purchases ?? [],
+  })
+
+  const routes: Route[] = []
+  const route = <TPath extends RoutePath, TMethod extends HttpMethod>(
+    method: TMethod,
+    path: TPath,
+    handle: (ctx: RouteContext<RequestBody<TPath, TMethod>>) => unknown,
+    status = 200,
+  ) => {
+    routes.push({
+      method,
+      segments: path.split('/').filter(Boolean),
+      status,
+      handle: handle as Route['handle'],
+    })
+  }
+
+  // --- Limits & usage ---------------------------------------------------
+
+  route('post', '/v1/sdk/limits', ({ body }) => {
+    requireFields(body, 'customerRef', 'productRef')
+    return backend.checkLimits(body)
+  })
+  route('post', '/v1/sdk/usages', ({ body }) => {
+    requireFields(body, 'customerRef')
+    return backend.trackUsage(body)
+  })
+  route('post', '/v1/sdk/usages/bulk', ({ body }) => {
+    if (!Array.isArray(body?.events)) throw new HttpError(400, 'events must be an array')
+    return backend.trackUsageBulk(body)
+  })
+
+  // --- Customers --------------------------------------------------------
+
+  route(
+    'post',
+    '/v1/sdk/customers',
+    async ({ body }) => {
+      requireFields(body, 'email')
+      const { customerRef } = await backend.createCustomer(body)
+      return customerJson(await backend.getCustomer({ customerRef }))
+    },
+    201,
+  )
+  route('get', '/v1/sdk/customers', async ({ query }) => {
+    const externalRef = query.get('externalRef') ?? undefined
+    const email = query.get('email') ?? undefined
+    if (!externalRef && !email) throw new HttpError(400, 'externalRef or email is required')
+    return customerJson(await backend.getCustomer({ externalRef, email }))
+  })
+  route(
+    'post',
+    '/v1/sdk/customers/customer-sessions',
+    ({ body }) => {
+      requireFields(body, 'customerRef')
+      return backend.createCustomerSession(body)
+    },
+    201,
+  )
+  route('get', '/v1/sdk/customers/{reference}', async ({ params }) =>
+    customerJson(await backend.getCustomer({ customerRef: params.reference })),
+  )
+  route('patch', '/v1/sdk/customers/{reference}', async ({ params, body }) => {
+    await backend.updateCustomer(params.reference, {
+      ...body,
+      metadata: body?.metadata as Record<string, unknown> | undefined,
+    })
+    return customerJson(await backend.getCustomer({ customerRef: params.reference }))
+  })
+  route('get', '/v1/sdk/customers/{reference}/balance', async ({ params }) => {
+    const balance = await backend.getCustomerBalance({ customerRef: params.reference })
+    const amountMajor = balance.credits / balance.creditsPerMinorUnit / 100
+    const display: components['schemas']['CustomerBalanceDisplayDto'] = {
+      amountMajor,
+      currency: balance.displayCurrency,
+      formatted: `$${amountMajor.toFixed(2)}`,
+      exchangeRate: 1,
+      rateSource: 'parity',
+    }
+    return { ...balance, display }
+  })
+  route('post', '/v1/sdk/customers/{reference}/credits', ({ params, body, headers }) => {
+    requireFields(body, 'credits')
+    return backend.assignCredits({
+      ...body,
+      customerRef: params.reference,
+      idempotencyKey: headers.get('idempotency-key') ?? undefined,
+    })
+  })
+  route('post', '/v1/sdk/user-info', ({ body }) => {
+    requireFields(body, 'customerRef', 'productRef')
+    return backend.getUserInfo(body)
+  })
+
+  // --- Merchant ---------------------------------------------------------
+
+  route('get', '/v1/sdk/merchant', () => backend.getMerchant())
+  route('get', '/v1/sdk/platform-config', () => backend.getPlatformConfig())
+
+  // --- Products & plans -------------------------------------------------
+
+  route('get', '/v1/sdk/products', async () => {
+    const products = await Promise.all(
+      (await backend.listProducts()).map(product => backend.getProduct(product.reference)),
+    )
+    return { products, total: products.length, limit: products.length, offset: 0 }
+  })
+  route(
+    'post',
+    '/v1/sdk/products',
+    async ({ body }) => {
+      requireFields(body, 'name')
+      const { reference } = await backend.createProduct(body)
+      return backend.getProduct(reference)
+    },
+    201,
+  )
+  route(
+    'post',
+    '/v1/sdk/products/mcp/bootstrap',
+    ({ body }) => {
+      requireFields(body, 'originUrl')
+      return backend.bootstrapMcpProduct(body)
+    },
+    201,
+  )
+  route('get', '/v1/sdk/products/{productRef}', ({ params }) =>
+    backend.getProduct(params.productRef),
+  )
+  route('put', '/v1/sdk/products/{productRef}', ({ params, body }) =>
+    backend.updateProduct(params.productRef, body),
+  )
+  route('delete', '/v1/sdk/products/{productRef}', async ({ params }) => {
+    await backend.deleteProduct(params.productRef)
+    return { success: true, action: 'deleted' }
+  })
+  route('put', '/v1/sdk/products/{productRef}/mcp/plans', ({ params, body }) =>
+    backend.configureMcpPlans(params.productRef, body),
+  )
+  route(
+    'post',
+    '/v1/sdk/products/{productRef}/clone',
+    async ({ params, body }) => {
+      const { reference } = await backend.cloneProduct(params.productRef, body)
+      return backend.getProduct(reference)
+    },
+    201,
+  )
+  route('get', '/v1/sdk/products/{productRef}/plans', async ({ params }) => {
+    const plans = await backend.listPlans(params.productRef)
+    return { plans, total: plans.length, limit: plans.length, offset: 0 }
+  })
+  route(
+    'post',
+    '/v1/sdk/products/{productRef}/plans',
+    ({ params, body }) => {
+      requireFields(body, 'name')
+      return backend.createPlan({ ...body, productRef: params.productRef })
+    },
+    201,
+  )
+  route('put', '/v1/sdk/products/{productRef}/plans/{planRef}', ({ params, body }) =>
+    backend.updatePlan(params.productRef, params.planRef, body),
+  )
+  route('delete', '/v1/sdk/products/{productRef}/plans/{planRef}', async ({ params }) => {
+    await backend.deletePlan(params.productRef, params.planRef)
+    return { success: true }
+  })
+
+  // --- Purchases & activation -------------------------------------------
+
+  route('post', '/v1/sdk/purchases/{purchaseRef}/cancel', async ({ params, body }) => ({
+    success: true,
+    purchase: await backend.cancelPurchase({
+      purchaseRef: params.purchaseRef,
+      reason: body?.reason,
+    }),
+  }))
+  route('post', '/v1/sdk/purchases/{purchaseRef}/reactivate', async ({ params }) => ({
+    success: true,
+    purchase: await backend.reactivatePurchase({ purchaseRef: params.purchaseRef }),
+  }))
+  route('post', '/v1/sdk/activate', ({ body }) => {
+    requireFields(body, 'customerRef', 'productRef', 'planRef')
+    return backend.activatePlan(body)
+  })
+
+  // --- Payments ---------------------------------------------------------
+
+  route(
+    'post',
+    '/v1/sdk/payment-intents',
+    ({ body, headers }) => {
+      requireFields(body, 'customerRef')
+      const idempotencyKey = headers.get('idempotency-key') ?? undefined
+      if (body.purpose === 'credit_topup') {
+        requireFields(body, 'amount', 'currency')
+        return backend.createTopupPaymentIntent({
+          customerRef: body.customerRef,
+          amount: body.amount!,
+          currency: body.currency!,
+          description: body.description,
+          idempotencyKey,
+        })
+      }
+      requireFields(body, 'productRef', 'planRef')
+      return backend.createPaymentIntent({
+        customerRef: body.customerRef,
+        productRef: body.productRef!,
+        planRef: body.planRef!,
+        currency: body.currency,
+        idempotencyKey,
+      })
+    },
+    201,
+  )
+  route('post', '/v1/sdk/payment-intents/{processorPaymentId}/process', ({ params, body }) => {
+    requireFields(body, 'customerRef')
+    return backend.processPaymentIntent({ ...body, paymentIntentId: params.processorPaymentId })
+  })
+  route(
+    'post',
+    '/v1/sdk/payment-intents/{processorPaymentId}/business-details',
+    ({ params, body }) =>
+      backend.attachBusinessDetails({
+        ...(body as Omit<
+          Parameters<FakeSolvaPayBackend['attachBusinessDetails']>[0],
+          'paymentIntentId'
+        >),
+        paymentIntentId: params.processorPaymentId,
+      }),
+  )
+  route(
+    'post',
+    '/v1/sdk/checkout-sessions',
+    async ({ body }) => {
+      requireFields(body, 'customerRef')
+      const session = await backend.createCheckoutSession(body)
+      if (body.returnUrl) returnUrls.set(session.sessionId, body.returnUrl)
+      return session
+    },
+    201,
+  )
+  route('get', '/v1/sdk/payment-method', ({ query }) => {
+    const customerRef = query.get('customerRef')
+    if (!customerRef) throw new HttpError(400, 'customerRef is required')
+    return backend.getPaymentMethod({ customerRef })
+  })
+
+  // --- Auto-recharge ----------------------------------------------------
+
+  route('get', '/v1/sdk/auto-recharge', ({ query }) => {
+    const customerRef = query.get('customerRef')
+    if (!customerRef) throw new HttpError(400, 'customerRef is required')
+    return backend.getAutoRecharge({ customerRef })
+  })
+  route('put', '/v1/sdk/auto-recharge', ({ body }) => {
+    requireFields(body, 'customerRef', 'currency')
+    return backend.saveAutoRecharge(body)
+  })
+  route('delete', '/v1/sdk/auto-recharge', ({ query }) => {
+    const customerRef = query.get('customerRef')
+    if (!customerRef) throw new HttpError(400, 'customerRef is required')
+    return backend.disableAutoRecharge({ customerRef })
+  })
+
+  // --- Spending limits --------------------------------------------------
+
+  route('get', '/v1/sdk/spending-limits', ({ query }) => {
+    const customerRef = query.get('customerRef')
+    if (!customerRef) throw new HttpError(400, 'customerRef is required')
+    return backend.getSpendingLimits({ customerRef })
+  })
+  route('put', '/v1/sdk/spending-limits', ({ body }) => {
+    requireFields(body, 'customerRef', 'currency')
+    return backend.saveSpendingLimits(body)
+  })
+  route('delete', '/v1/sdk/spending-limits', ({ query }) => {
+    const customerRef = query.get('customerRef')
+    if (!customerRef) throw new HttpError(400, 'customerRef is required')
+    return backend.disableSpendingLimits({ customerRef })
+  })
+
+  const matchRoute = (method: string, pathname: string) => {
+    const segments = pathname.split('/').filter(Boolean)
+    let pathMatched = false
+    for (const candidate of routes) {
+      if (candidate.segments.length !== segments.length) continue
+      const params: Record<string, string> = {}
+      const matches = candidate.segments.every((segment, i) => {
+        if (segment.startsWith('{') && segment.endsWith('}')) {
+          params[segment.slice(1, -1)] = decodeURIComponent(segments[i]!)
+          return true
+        }
+        return segment === segments[i]
+      })
+      if (!matches) continue
+      pathMatched = true
+      if (candidate.method === method.toLowerCase()) return { route: candidate, params }
+    }
+    return { route: undefined, pathMatched }
+  }
+
+  const isAuthorized = (req: Request) => {
+    const token = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+    return options.apiKey ? token === options.apiKey : Boolean(token)
+  }
+
+  const handleApi = async (req: Request, url: URL): Promise<Response> => {
+    if (!isAuthorized(req)) return errorResponse(401, 'Invalid or missing API key')
+
+    const match = matchRoute(req.method, url.pathname)
+    if (!match.route) {
+      return match.pathMatched
+        ? errorResponse(405, `Cannot ${req.method} ${url.pathname}`)
+        : errorResponse(404, `Cannot ${req.method} ${url.pathname}`)
+    }
+
+    let body: unknown
+    const text = req.method === 'GET' || req.method === 'DELETE' ? '' : await req.text()
+    if (text) {
+      try {
+        body = JSON.parse(text)
+      } catch {
+        return errorResponse(400, 'Request body is not valid JSON')
+      }
+    }
+
+    try {
+      const result = await match.route.handle({
+        body: body as never,
+        params: match.params,
+        query: url.searchParams,
+        headers: req.headers,
+      })
+      return json(match.route.status, result)
+    } catch (error) {
+      return toErrorResponse(error)
+    }
+  }
+
+  // Hosted pages: the "customer" completes checkout with one click.
+  const handleHosted = async (req: Request, url: URL): Promise<Response | undefined> => {
+    const [section, sessionId, action] = url.pathname.split('/').filter(Boolean)
+    if (section === 'checkout' && sessionId && !action && req.method === 'GET') {
+      const id = escapeHtml(sessionId)
+      return html(
+        200,
+        'Checkout',
+        `<p>Session <code>${id}</code></p>` +
+          `<form method="post" action="/checkout/${id}/complete">` +
+          `<button type="submit">Complete payment</button></form>`,
+      )
+    }
+    if (section === 'checkout' && sessionId && action === 'complete' && req.method === 'POST') {
+      const form = new URLSearchParams(await req.text())
+      try {
+        backend.completeCheckout(sessionId, { planRef: form.get('planRef') ?? undefined })
+      } catch (error) {
+        return html(404, 'Checkout', `<p>${escapeHtml((error as Error).message)}</p>`)
+      }
+      const returnUrl = returnUrls.get(sessionId)
+      returnUrls.delete(sessionId)
+      return returnUrl
+        ? new Response(null, { status: 303, headers: { Location: returnUrl } })
+        : html(200, 'Payment complete', '<p>You can close this tab.</p>')
+    }
+    if (section === 'customer' && sessionId && !action && req.method === 'GET') {
+      return html(200, 'Customer portal', `<p>Session <code>${escapeHtml(sessionId)}</code></p>`)
+    }
+    return undefined
+  }
+
+  // Test controls for CI scripts that can't reach `backend` in-process.
+  const handleControl = async (req: Request, url: URL): Promise<Response> => {
+    const body =
+      req.method === 'POST' ? ((await req.json().catch(() => ({}))) as Record<string, unknown>) : {}
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /_dev/health':
+        return json(200, { ok: true })
+      case 'POST /_dev/payment-outcome':
+        backend.setPaymentOutcome(body.outcome as FakePaymentOutcome, {
+          settleAfterMs: body.settleAfterMs as number | undefined,
+        })
+        return json(200, { outcome: body.outcome })
+      case 'POST /_dev/settle-payments':
+        return json(200, { settled: backend.settlePendingPayments() })
+      case 'POST /_dev/fail-next':
+        backend.failNext(body.method as FakeSolvaPayMethod)
+        return json(200, { method: body.method })
+      case 'POST /_dev/timeout-next':
+        backend.timeoutNext(body.method as FakeSolvaPayMethod, {
+          afterMs: body.afterMs as number | undefined,
+        })
+        return json(200, { method: body.method })
+      default:
+        return errorResponse(404, `Cannot ${req.method} ${url.pathname}`)
+    }
+  }
+
+  const fetchHandler = (req: Request): Promise<Response> => {
+    const url = new URL(req.url)
+    return requestOrigin.run(url.origin, async () => {
+      if (url.pathname.startsWith('/v1/sdk/')) return handleApi(req, url)
+      if (url.pathname.startsWith('/_dev/')) return handleControl(req, url)
+      return (
+        (await handleHosted(req, url)) ?? errorResponse(404, `Cannot ${req.method} ${url.pathname}`)
+      )
+    })
+  }
+
+  return {
+    backend,
+    fetch: fetchHandler,
+
+    listen({ port = 4010, hostname = '127.0.0.1' } = {}) {
+      const server = createServer((req, res) => {
+        void toRequest(req, hostname)
+          .then(fetchHandler)
+          .then(response => writeResponse(res, response))
+          .catch(error => {
+            res.statusCode = 500
+            res.end(error instanceof Error ? error.message : 'Internal server error')
+          })
+      })
+
+      return new Promise((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(port, hostname, () => {
+          const { port: boundPort } = server.address() as AddressInfo
+          resolve({
+            url: `http://${hostname}:${boundPort}`,
+            close: () =>
+              new Promise<void>((done, fail) => server.close(err => (err ? fail(err) : done()))),
+          })
+        })
+      })
+    },
+  }
+}
+
+async function toRequest(req: IncomingMessage, hostname: string): Promise<Request> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach(v => headers.append(name, v))
+    else if (value !== undefined) headers.set(name, value)
+  }
+
+  const hasBody = chunks.length > 0 && req.method !== 'GET' && req.method !== 'HEAD'
+  return new Request(new URL(req.url ?? '/', `http://${req.headers.host ?? hostname}`), {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  })
+}
+
+async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.writeHead(response.status, Object.fromEntries(response.headers))
+  res.end(Buffer.from(await response.arrayBuffer()))
+}
@@ -0,0 +1,1421 @@
+/**
+ * Fake SolvaPay Backend
+ *
+ * In-process, stateful implementation of `SolvaPayClient` for offline
+ * integration tests. Customers, products, plans, purchases, credit
+ * balances and usage meters live in memory, and `checkLimits` derives
+ * `remaining` from recorded usage the same way the real API does — so
+ * `createSolvaPay({ apiClient: createFakeSolvaPayBackend() })` walks
+ * through realistic allow → gate → pay → allow flows with no network.
+ *
+ * Errors are thrown as the typed `SolvaPayApiError` subclasses with the same
+ * `"{Operation} failed ({status}): {message}"` wording as
+ * `createSolvaPayClient`, so SDK code that branches on status or
+ * message (`ensureCustomer`, `handleRouteError`) behaves as it would
+ * against the live API.
+ */
+
+import { createSolvaPayApiError, SolvaPayError } from '@solvapay/core'
+import type { SolvaPayApiError } from '@solvapay/core'
+import type {
+  components,
+  CustomerResponseMapped,
+  LimitResponseWithPlan,
+  ProcessPaymentResult,
+  SolvaPayClient,
+  TrackUsageRequest,
+  TrackUsageResponse,
+} from '@solvapay/server'
+
+type Plan = components['schemas']['Plan']
+type PurchaseInfo = components['schemas']['PurchaseInfo']
+type SdkProductResponse = components['schemas']['SdkProductResponse']
+type CreditDebit = NonNullable<TrackUsageResponse['creditDebit']>
+type McpPlanInput = NonNullable<components['schemas']['ConfigureMcpPlansDto']['plans']>[number]
+type AutoRechargeConfig = NonNullable<
+  Awaited<ReturnType<NonNullable<SolvaPayClient['getAutoRecharge']>>>['config']
+>
+type SpendingLimitsConfig = NonNullable<
+  Awaited<ReturnType<NonNullable<SolvaPayClient['getSpendingLimits']>>>['config']
+>
+type SdkMerchantResponse = Awaited<ReturnType<NonNullable<SolvaPayClient['getMerchant']>>>
+
+/** Every `SolvaPayClient` method name — used to target faults. */
+export type FakeSolvaPayMethod = keyof SolvaPayClient
+
+/**
+ * Plan seed. Anything omitted falls back to a free, active `recurring`
+ * plan in USD. Mark at most one plan per product `default: true` —
+ * customers without a purchase are metered against it (the backend's
+ * implicit free tier). When no plan is marked, the first plan that
+ * doesn't require payment is the default.
+ */
+export type FakePlanSeed = Partial<Plan> & { default?: boolean }
+
+export interface FakeProductSeed {
+  reference?: string
+  name?: string
+  description?: string
+  isMcpPay?: boolean
+  plans?: FakePlanSeed[]
+}
+
+export interface FakeCustomerSeed {
+  reference?: string
+  email?: string
+  name?: string
+  externalRef?: string
+  /** Starting credit balance (default: 0). */
+  credits?: number
+  /** Purchases to create up-front, e.g. a customer already on the Pro plan. */
+  purchases?: Array<{ productRef: string; planRef: string; status?: string }>
+}
+
+export interface FakeSolvaPayBackendOptions {
+  products?: FakeProductSeed[]
+  customers?: FakeCustomerSeed[]
+  /**
+   * Provision unknown `productRef`s on first use with a single default
+   * free plan of {@link FakeSolvaPayBackendOptions.defaultFreeUnits}
+   * units (default: `true`). Set `false` to get the live API's 404.
+   */
+  autoCreateProducts?: boolean
+  /** Free units on auto-created products (default: 3). */
+  defaultFreeUnits?: number
+  /**
+   * Origin for checkout / customer-portal URLs (default:
+   * `https://solvapay.test`). Pass a function to resolve it per call —
+   * the dev server uses this to point URLs back at itself.
+   */
+  baseUrl?: string | (() => string)
+  /** Artificial delay applied to every call, in milliseconds (default: 0). */
+  latencyMs?: number
+  /** Credits booked per minor currency unit on topups (default: 100). */
+  creditsPerMinorUnit?: number
+  /** Overrides for `getMerchant()`. */
+  merchant?: Partial<SdkMerchantResponse>
+}
+
+/**
+ * What `processPaymentIntent` reports for the next payments.
+ *
+ * - `succeeded` — the payment webhook has already landed; the response
+ *   carries the created purchase (the happy path).
+ * - `succeeded_bare` — the webhook race: the API answers a bare
+ *   `{ status: 'succeeded' }` and the purchase / credits only appear
+ *   once {@link FakeSolvaPayBackend.settlePendingPayments} runs (or
+ *   after `settleAfterMs`).
+ * - `processing`, `timeout`, `failed`, `cancelled` — returned verbatim;
+ *   nothing is booked.
+ */
+export type FakePaymentOutcome =
+  | 'succeeded'
+  | 'succeeded_bare'
+  | 'processing'
+  | 'timeout'
+  | 'failed'
+  | 'cancelled'
+
+export interface FakeSolvaPayCall {
+  method: FakeSolvaPayMethod
+  params: unknown[]
+}
+
+/**
+ * The fake client plus test controls. Every `SolvaPayClient` method is
+ * implemented (none are optional), so feature-detection branches such
+ * as `if (!apiClient.trackUsageBulk)` always take the supported path.
+ */
+export interface FakeSolvaPayBackend extends Required<SolvaPayClient> {
+  /** Every call in order, including ones that were made to fail. */
+  readonly calls: readonly FakeSolvaPayCall[]
+  /** Every recorded usage event (all outcomes), in order. */
+  readonly usageEvents: readonly TrackUsageRequest[]
+  /**
+   * Make the next call to `method` reject. Queue several to fail
+   * several calls. Defaults to a 500 `SolvaPayServerError`.
+   */
+  failNext(method: FakeSolvaPayMethod, error?: Error): void
+  /**
+   * Make the next call to `method` reject with a 504 after `afterMs`
+   * (default: 0) — what a backend timeout looks like to the client.
+   */
+  timeoutNext(method: FakeSolvaPayMethod, options?: { afterMs?: number }): void
+  /** Outcome for subsequent `processPaymentIntent` calls (default: `succeeded`). */
+  setPaymentOutcome(outcome: FakePaymentOutcome, options?: { settleAfterMs?: number }): void
+  /**
+   * Book purchases / credits for payments that returned
+   * `succeeded_bare` — i.e. deliver the delayed webhook. Returns the
+   * number of payments settled.
+   */
+  settlePendingPayments(): number
+  /**
+   * Simulate the customer paying on the hosted checkout page for a
+   * session returned by `createCheckoutSession` or a gated
+   * `checkLimits`. Topup sessions book `amount` minor units of credits.
+   */
+  completeCheckout(sessionId: string, options?: { planRef?: string; amount?: number }): void
+  /** Successful units recorded for a customer / product / meter. */
+  getUsage(params: { customerRef: string; productRef: string; meterName?: string }): number
+  /** Current credit balance. Throws for unknown customers. */
+  getCreditBalance(customerRef: string): number
+  /** All purchases (any status) for a customer. */
+  getPurchases(customerRef: string): PurchaseInfo[]
+  /**
+   * Zero usage counters and monthly spend — e.g. to simulate a billing
+   * period rollover.
+   */
+  resetUsage(customerRef?: string): void
+}
+
+interface FakeCustomer {
+  reference: string
+  email: string
+  name?: string
+  telephone?: string
+  externalRef?: string
+  metadata: Record<string, unknown>
+  credits: number
+}
+
+interface FakeProduct {
+  reference: string
+  name: string
+  description?: string
+  imageUrl?: string
+  productType?: string
+  isMcpPay: boolean
+  config?: components['schemas']['ProductConfigDto']
+  metadata: Record<string, unknown>
+  mcp?: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+}
+
+type FakePlan = Plan & { productRef: string; default?: boolean }
+type FakePurchase = PurchaseInfo & { customerRef: string }
+
+interface FakePaymentIntent {
+  id: string
+  purpose: 'product' | 'credit_topup'
+  customerRef: string
+  productRef?: string
+  planRef?: string
+  amount: number
+  currency: string
+  settled: boolean
+}
+
+interface FakeCheckoutSession {
+  id: string
+  customerRef: string
+  productRef?: string
+  planRef?: string
+  purpose?: 'credit_topup'
+}
+
+interface Fault {
+  error: Error
+  afterMs: number
+}
+
+const ACTIVE_PURCHASE_STATUSES = new Set(['active', 'trialing'])
+const DEFAULT_METER = 'requests'
+/** `remaining` reported for plans without a quota. */
+const UNLIMITED = Number.MAX_SAFE_INTEGER
+
+const OPERATION_LABELS: Record<FakeSolvaPayMethod, string> = {
+  checkLimits: 'Check limits',
+  trackUsage: 'Track usage',
+  trackUsageBulk: 'Track usage bulk',
+  createCustomer: 'Create customer',
+  updateCustomer: 'Update customer',
+  getCustomer: 'Get customer',
+  assignCredits: 'Assign credits',
+  getMerchant: 'Get merchant',
+  getPlatformConfig: 'Get platform config',
+  getProduct: 'Get product',
+  listProducts: 'List products',
+  createProduct: 'Create product',
+  bootstrapMcpProduct: 'Bootstrap MCP product',
+  configureMcpPlans: 'Configure MCP plans',
+  updateProduct: 'Update product',
+  deleteProduct: 'Delete product',
+  cloneProduct: 'Clone product',
+  listPlans: 'List plans',
+  createPlan: 'Create plan',
+  updatePlan: 'Update plan',
+  deletePlan: 'Delete plan',
+  createPaymentIntent: 'Create payment intent',
+  createTopupPaymentIntent: 'Create topup payment intent',
+  cancelPurchase: 'Cancel purchase',
+  reactivatePurchase: 'Reactivate purchase',
+  processPaymentIntent: 'Process payment',
+  attachBusinessDetails: 'Attach business details',
+  getUserInfo: 'Get user info',
+  getCustomerBalance: 'Get customer balance',
+  createCheckoutSession: 'Create checkout session',
+  createCustomerSession: 'Create customer session',
+  activatePlan: 'Activate plan',
+  getPaymentMethod: 'Get payment method',
+  getAutoRecharge: 'Get auto-recharge',
+  saveAutoRecharge: 'Save auto-recharge',
+  disableAutoRecharge: 'Disable auto-recharge',
+  getSpendingLimits: 'Get spending limits',
+  saveSpendingLimits: 'Save spending limits',
+  disableSpendingLimits: 'Disable spending limits',
+}
+
+function apiError(method: FakeSolvaPayMethod, status: number, message: string): SolvaPayApiError {
+  return createSolvaPayApiError(`${OPERATION_LABELS[method]} failed (${status}): ${message}`, {
+    status,
+    body: JSON.stringify({ statusCode: status, message }),
+  })
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * Create an in-memory SolvaPay backend that implements the full
+ * `SolvaPayClient` contract.
+ *
+ * @example
+ * ```typescript
+ * const backend = createFakeSolvaPayBackend({
+ *   products: [
+ *     {
+ *       reference: 'prd_chat',
+ *       plans: [
+ *         { reference: 'pln_free', freeUnits: 2, default: true },
+ *         { reference: 'pln_pro', price: 2000, requiresPayment: true },
+ *       ],
+ *     },
+ *   ],
+ * })
+ * const solvaPay = createSolvaPay({ apiClient: backend })
+ * const payable = solvaPay.payable({ productRef: 'prd_chat' })
+ *
+ * // Two allowed calls, then a 402 with a checkout URL…
+ * const gate = await payable.gate(req)
+ * // …pay, and the customer is allowed again.
+ * backend.completeCheckout(sessionIdFrom(gate), { planRef: 'pln_pro' })
+ * ```
+ */
+export function createFakeSolvaPayBackend(
+  options: FakeSolvaPayBackendOptions = {},
+): FakeSolvaPayBackend {
+  const baseUrl = () => {
+    const origin = options.baseUrl ?? 'https://solvapay.test'
+    return (typeof origin === 'function' ? origin() : origin).replace(/\/$/, '')
+  }
+  const autoCreateProducts = options.autoCreateProducts ?? true
+  const defaultFreeUnits = options.defaultFreeUnits ?? 3
+  const creditsPerMinorUnit = options.creditsPerMinorUnit ?? 100
+
+  const customers = new Map<string, FakeCustomer>()
+  const products = new Map<string, FakeProduct>()
+  const plans = new Map<string, FakePlan>()
+  const purchases = new Map<string, FakePurchase>()
+  const paymentIntents = new Map<string, FakePaymentIntent>()
+  const checkoutSessions = new Map<string, FakeCheckoutSession>()
+  const autoRecharge = new Map<string, AutoRechargeConfig>()
+  const spendingLimits = new Map<string, SpendingLimitsConfig>()
+  const cardsOnFile = new Set<string>()
+  /** `${customerRef}|${productRef}|${meterName}` → successful units. */
+  const usage = new Map<string, number>()
+  const idempotencyKeys = new Map<string, unknown>()
+
+  const calls: FakeSolvaPayCall[] = []
+  const usageEvents: TrackUsageRequest[] = []
+  const faults = new Map<FakeSolvaPayMethod, Fault[]>()
+  const pendingPayments: FakePaymentIntent[] = []
+  let paymentOutcome: FakePaymentOutcome = 'succeeded'
+  let settleAfterMs: number | undefined
+
+  const counters = new Map<string, number>()
+  const nextId = (prefix: string) => {
+    const n = (counters.get(prefix) ?? 0) + 1
+    counters.set(prefix, n)
+    return `${prefix}_fake_${n}`
+  }
+  const now = () => new Date().toISOString()
+
+  // --- State helpers -------------------------------------------------
+
+  const addPlan = (productRef: string, seed: FakePlanSeed = {}): FakePlan => {
+    const price = seed.price ?? 0
+    const timestamp = now()
+    const plan: FakePlan = {
+      type: 'recurring',
+      currency: 'USD',
+      hidden: false,
+      isActive: true,
+      status: 'active',
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      ...seed,
+      reference: seed.reference ?? nextId('pln'),
+      price,
+      requiresPayment: seed.requiresPayment ?? price > 0,
+      productRef,
+    }
+    plans.set(plan.reference, plan)
+    return plan
+  }
+
+  const addProduct = (seed: FakeProductSeed = {}): FakeProduct => {
+    const timestamp = now()
+    const product: FakeProduct = {
+      reference: seed.reference ?? nextId('prd'),
+      name: seed.name ?? 'Fake Product',
+      description: seed.description,
+      isMcpPay: seed.isMcpPay ?? false,
+      metadata: {},
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    }
+    products.set(product.reference, product)
+    for (const plan of seed.plans ?? []) addPlan(product.reference, plan)
+    return product
+  }
+
+  const productPlans = (productRef: string) =>
+    [...plans.values()].filter(plan => plan.productRef === productRef)
+
+  const findProduct = (method: FakeSolvaPayMethod, productRef: string): FakeProduct => {
+    const existing = products.get(productRef)
+    if (existing) return existing
+    if (!autoCreateProducts) throw apiError(method, 404, 'Product not found')
+    const product = addProduct({ reference: productRef, name: productRef })
+    addPlan(productRef, { name: 'Free', freeUnits: defaultFreeUnits, default: true })
+    return product
+  }
+
+  const findPlan = (method: FakeSolvaPayMethod, planRef: string): FakePlan => {
+    const plan = plans.get(planRef)
+    if (!plan) throw apiError(method, 404, 'Plan not found')
+    return plan
+  }
+
+  const findCustomer = (method: FakeSolvaPayMethod, customerRef: string): FakeCustomer => {
+    const customer = customers.get(customerRef)
+    if (!customer) throw apiError(method, 404, 'Customer not found')
+    return customer
+  }
+
+  const defaultPlan = (productRef: string): FakePlan | undefined => {
+    const candidates = productPlans(productRef).filter(plan => plan.isActive)
+    return candidates.find(plan => plan.default) ?? candidates.find(plan => !plan.requiresPayment)
+  }
+
+  const activePurchase = (customerRef: string, productRef: string): FakePurchase | undefined =>
+    [...purchases.values()].find(
+      purchase =>
+        purchase.customerRef === customerRef &&
+        purchase.productRef === productRef &&
+        ACTIVE_PURCHASE_STATUSES.has(purchase.status),
+    )
+
+  const usageKey = (customerRef: string, productRef: string, meterName: string) =>
+    `${customerRef}|${productRef}|${meterName}`
+
+  const usedUnits = (customerRef: string, productRef: string, meterName: string) =>
+    usage.get(usageKey(customerRef, productRef, meterName)) ?? 0
+
+  const isCreditBased = (plan: FakePlan) =>
+    (plan.type === 'usage-based' || plan.type === 'hybrid') && (plan.creditsPerUnit ?? 0) > 0
+
+  /** Plan the customer is metered against, and how many units are left. */
+  const entitlement = (customer: FakeCustomer, productRef: string, meterName: string) => {
+    const purchase = activePurchase(customer.reference, productRef)
+    const plan =
+      (purchase?.planRef ? plans.get(purchase.planRef) : undefined) ?? defaultPlan(productRef)
+    if (!plan) return { plan: undefined, remaining: 0, freeRemaining: 0 }
+
+    const used = usedUnits(customer.reference, productRef, meterName)
+    if (isCreditBased(plan)) {
+      const freeRemaining = Math.max(0, (plan.freeUnits ?? 0) - used)
+      const creditUnits = Math.floor(customer.credits / plan.creditsPerUnit!)
+      return { plan, remaining: freeRemaining + creditUnits, freeRemaining }
+    }
+
+    const quota = plan.limit ?? plan.freeUnits
+    const remaining = quota === undefined ? UNLIMITED : Math.max(0, quota - used)
+    return { plan, remaining, freeRemaining: remaining }
+  }
+
+  // What the API stores on a purchase: the plan as it was when bought.
+  const planSnapshot = (plan: FakePlan): PurchaseInfo['planSnapshot'] => {
+    const snapshot = {
+      reference: plan.reference,
+      name: plan.name,
+      price: plan.price,
+      currency: plan.currency,
+      planType: plan.type,
+      billingCycle: plan.billingCycle ?? null,
+      features: plan.features ?? null,
+      limits: plan.limits ?? null,
+      limit: plan.limit,
+      freeUnits: plan.freeUnits,
+      creditsPerUnit: plan.creditsPerUnit,
+    }
+    // The generated `PurchaseInfo` types the snapshot as an empty object.
+    return snapshot as unknown as PurchaseInfo['planSnapshot']
+  }
+
+  const createPurchase = (customerRef: string, plan: FakePlan): FakePurchase => {
+    // A new purchase on a product replaces the previous one (plan change).
+    const previous = activePurchase(customerRef, plan.productRef)
+    if (previous) previous.status = 'cancelled'
+
+    const purchase: FakePurchase = {
+      reference: nextId('pur'),
+      customerRef,
+      productName: products.get(plan.productRef)?.name ?? plan.productRef,
+      productRef: plan.productRef,
+      planRef: plan.reference,
+      status: 'active',
+      startDate: now(),
+      amount: plan.price,
+      currency: plan.currency,
+      planSnapshot: planSnapshot(plan),
+    }
+    purchases.set(purchase.reference, purchase)
+    return purchase
+  }
+
+  const publicPurchase = ({
+    customerRef: _customerRef,
+    ...purchase
+  }: FakePurchase): PurchaseInfo => ({ ...purchase })
+
+  const publicPlan = ({ productRef: _productRef, default: _default, ...plan }: FakePlan): Plan => ({
+    ...plan,
+  })
+
+  const productResponse = (product: FakeProduct): SdkProductResponse => {
+    const { reference, name, isMcpPay, createdAt, updatedAt, metadata } = product
+    const productPurchases = [...purchases.values()].filter(p => p.productRef === reference)
+    return {
+      reference,
+      name,
+      ...(product.description !== undefined ? { description: product.description } : {}),
+      ...(product.imageUrl !== undefined ? { imageUrl: product.imageUrl } : {}),
+      ...(product.productType !== undefined ? { productType: product.productType } : {}),
+      ...(product.config !== undefined ? { config: product.config } : {}),
+      ...(product.mcp !== undefined ? { mcp: product.mcp } : {}),
+      balance: productPurchases.reduce((sum, p) => sum + p.amount, 0),
+      totalTransactions: productPurchases.length,
+      isMcpPay,
+      metadata,
+      createdAt,
+      updatedAt,
+      plans: productPlans(reference).map(publicPlan),
+    }
+  }
+
+  const limitPlans = (productRef: string): components['schemas']['LimitPlanItemDto'][] =>
+    productPlans(productRef)
+      .filter(plan => plan.isActive && !plan.hidden)
+      .map(plan => ({
+        reference: plan.reference,
+        ...(plan.name !== undefined ? { name: plan.name } : {}),
+        type: plan.type,
+        price: plan.price,
+        currency: plan.currency,
+        requiresPayment: plan.requiresPayment,
+        ...(plan.freeUnits !== undefined ? { freeUnits: plan.freeUnits } : {}),
+        ...(plan.creditsPerUnit !== undefined ? { creditsPerUnit: plan.creditsPerUnit } : {}),
+        ...(plan.billingModel !== undefined ? { billingModel: plan.billingModel } : {}),
+        ...(plan.billingCycle !== undefined ? { billingCycle: plan.billingCycle } : {}),
+      }))
+
+  const openCheckoutSession = (session: Omit<FakeCheckoutSession, 'id'>) => {
+    const id = nextId('cs')
+    checkoutSessions.set(id, { id, ...session })
+    return { sessionId: id, checkoutUrl: `${baseUrl()}/checkout/${id}` }
+  }
+
+  const settle = (intent: FakePaymentIntent): FakePurchase | undefined => {
+    if (intent.settled) return undefined
+    intent.settled = true
+    cardsOnFile.add(intent.customerRef)
+    const customer = findCustomer('processPaymentIntent', intent.customerRef)
+    if (intent.purpose === 'credit_topup') {
+      customer.credits += intent.amount * creditsPerMinorUnit
+      return undefined
+    }
+    return createPurchase(customer.reference, findPlan('processPaymentIntent', intent.planRef!))
+  }
+
+  const succeededResult = (intent: FakePaymentIntent): ProcessPaymentResult => {
+    if (intent.purpose === 'credit_topup') return { status: 'succeeded' }
+    const purchase = [...purchases.values()]
+      .filter(p => p.customerRef === intent.customerRef && p.planRef === intent.planRef)
+      .at(-1)
+    if (!purchase) return { status: 'succeeded' }
+    if (plans.get(intent.planRef!)?.type === 'one-time') {
+      return {
+        status: 'succeeded',
+        type: 'one-time',
+        oneTimePurchase: {
+          reference: purchase.reference,
+          productRef: purchase.productRef,
+          amount: purchase.amount,
+          currency: purchase.currency,
+          completedAt: purchase.startDate,
+        },
+      }
+    }
+    return { status: 'succeeded', type: 'recurring', purchase: publicPurchase(purchase) }
+  }
+
+  const recordUsage = (event: TrackUsageRequest): TrackUsageResponse => {
+    const reference = nextId('usage')
+    if (event.idempotencyKey !== undefined) {
+      if (idempotencyKeys.has(`usage:${event.idempotencyKey}`)) {
+        return { success: true, reference, creditDebit: { debited: false, reason: 'duplicate' } }
+      }
+      idempotencyKeys.set(`usage:${event.idempotencyKey}`, true)
+    }
+    usageEvents.push(event)
+
+    if (!event.productRef) {
+      return { success: true, reference, creditDebit: { debited: false, reason: 'no_product_ref' } }
+    }
+    const customer = customers.get(event.customerRef)
+    if (!customer) {
+      return {
+        success: true,
+        reference,
+        creditDebit: { debited: false, reason: 'customer_not_found' },
+      }
+    }
+    // Only successful calls count towards limits — `paywall` and `fail`
+    // events are recorded for analytics but never consume allowance.
+    if (event.outcome !== 'success') return { success: true, reference }
+
+    const meta = event.metadata ?? {}
+    const meterName =
+      typeof meta.meterName === 'string'
+        ? meta.meterName
+        : typeof meta.action === 'string'
+          ? meta.action
+          : DEFAULT_METER
+    const units = event.units ?? 1
+    const before = entitlement(customer, event.productRef, meterName)
+    const key = usageKey(customer.reference, event.productRef, meterName)
+    usage.set(key, (usage.get(key) ?? 0) + units)
+
+    if (!before.plan) {
+      return {
+        success: true,
+        reference,
+        creditDebit: { debited: false, reason: 'no_active_purchase' },
+      }
+    }
+    if (!isCreditBased(before.plan)) {
+      return {
+        success: true,
+        reference,
+        creditDebit: { debited: false, reason: 'plan_not_credit_based' },
+      }
+    }
+
+    const creditsPerUnit = before.plan.creditsPerUnit!
+    const billable = Math.max(0, units - before.freeRemaining)
+    const amount = Math.min(customer.credits, billable * creditsPerUnit)
+    customer.credits -= amount
+    const limits = spendingLimits.get(customer.reference)
+    if (limits) limits.monthlySpendMinor += Math.ceil(amount / creditsPerMinorUnit)
+    const creditDebit: CreditDebit = {
+      debited: true,
+      amount,
+      unitsRemaining: Math.floor(customer.credits / creditsPerUnit),
+    }
+    return { success: true, reference, creditDebit }
+  }
+
+  const customerResponse = (customer: FakeCustomer): CustomerResponseMapped => ({
+    customerRef: customer.reference,
+    email: customer.email,
+    ...(customer.name !== undefined ? { name: customer.name } : {}),
+    ...(customer.externalRef !== undefined ? { externalRef: customer.externalRef } : {}),
+    purchases: [...purchases.values()]
+      .filter(p => p.customerRef === customer.reference)
+      .map(publicPurchase),
+  })
+
+  const addMcpPlans = (productRef: string, inputs: McpPlanInput[] = []) => {
+    const planMap: Record<string, { reference: string; name?: string }> = {}
+    for (const { key, pricingOptions: _pricingOptions, ...input } of inputs) {
+      const plan = addPlan(productRef, { ...input, features: input.features ?? {} })
+      planMap[key] = { reference: plan.reference, name: plan.name }
+    }
+    return planMap
+  }
+
+  // --- Seed ------------------------------------------------------------
+
+  for (const product of options.products ?? []) addProduct(product)
+  for (const seed of options.customers ?? []) {
+    const reference = seed.reference ?? nextId('cus')
+    customers.set(reference, {
+      reference,
+      email: seed.email ?? `${reference}@example.com`,
+      name: seed.name,
+      externalRef: seed.externalRef,
+      metadata: {},
+      credits: seed.credits ?? 0,
+    })
+    for (const purchase of seed.purchases ?? []) {
+      findProduct('createPaymentIntent', purchase.productRef)
+      const created = createPurchase(reference, findPlan('createPaymentIntent', purchase.planRef))
+      if (purchase.status) created.status = purchase.status
+    }
+  }
+
+  // --- Call pipeline ---------------------------------------------------
+
+  const run = async <T>(
+    method: FakeSolvaPayMethod,
+    params: unknown[],
+    handler: () => T,
+  ): Promise<Awaited<T>> => {
+    calls.push({ method, params })
+    if (options.latencyMs) await sleep(options.latencyMs)
+    const fault = faults.get(method)?.shift()
+    if (fault) {
+      if (fault.afterMs > 0) await sleep(fault.afterMs)
+      throw fault.error
+    }
+    return await handler()
+  }
+
+  const enqueueFault = (method: FakeSolvaPayMethod, fault: Fault) => {
+    const queue = faults.get(method) ?? []
+    queue.push(fault)
+    faults.set(method, queue)
+  }
+
+  const backend: FakeSolvaPayBackend = {
+    calls,
+    usageEvents,
+
+    // --- Limits & usage ---------------------------------------------
+
+    checkLimits: params =>
+      run('checkLimits', [params], (): LimitResponseWithPlan => {
+        const product = findProduct('checkLimits', params.productRef)
+        const customer = findCustomer('checkLimits', params.customerRef)
+        const meterName = params.meterName ?? params.usageType ?? DEFAULT_METER
+        const entitled = entitlement(customer, product.reference, meterName)
+        const { plan } = entitled
+        const cap = spendingLimits.get(customer.reference)
+        const capReached =
+          cap?.monthlyCapMinor !== undefined && cap.monthlySpendMinor >= cap.monthlyCapMinor
+        const remaining = capReached ? 0 : entitled.remaining
+        const withinLimits = remaining > 0
+        const creditBased = plan !== undefined && isCreditBased(plan)
+
+        return {
+          withinLimits,
+          remaining,
+          plan: plan?.reference ?? '',
+          meterName,
+          product: { reference: product.reference, name: product.name },
+          plans: limitPlans(product.reference),
+          ...(!plan && productPlans(product.reference).some(p => !p.requiresPayment)
+            ? { activationRequired: true }
+            : {}),
+          ...(cap?.monthlyCapMinor !== undefined
+            ? {
+                spendingLimit: {
+                  monthlyCapMinor: cap.monthlyCapMinor,
+                  monthlySpendMinor: cap.monthlySpendMinor,
+                  currency: cap.currency,
+                },
+              }
+            : {}),
+          ...(creditBased
+            ? {
+                creditBalance: customer.credits,
+                creditsPerUnit: plan.creditsPerUnit,
+                currency: plan.currency,
+                balance: {
+                  creditBalance: customer.credits,
+                  creditsPerUnit: plan.creditsPerUnit!,
+                  currency: plan.currency,
+                  remainingUnits: remaining,
+                },
+              }
+            : {}),
+          // Like the live API, only mint a session when asked to —
+          // and only when the customer actually needs one.
+          ...(params.includeCheckoutSession && !withinLimits
+            ? (({ sessionId, checkoutUrl }) => ({ checkoutSessionId: sessionId, checkoutUrl }))(
+                openCheckoutSession({
+                  customerRef: customer.reference,
+                  productRef: product.reference,
+                  ...(creditBased ? { purpose: 'credit_topup' as const } : {}),
+                }),
+              )
+            : {}),
+        }
+      }),
+
+    trackUsage: params => run('trackUsage', [params], () => recordUsage(params)),
+
+    trackUsageBulk: params =>
+      run('trackUsageBulk', [params], () => {
+        const results = params.events.map(event => {
+          const { reference, creditDebit } = recordUsage(event)
+          return { reference, ...(creditDebit ? { creditDebit } : {}) }
+        })
+        return { success: true, inserted: results.length, results }
+      }),
+
+    // --- Customers --------------------------------------------------
+
+    createCustomer: params =>
+      run('createCustomer', [params], () => {
+        const all = [...customers.values()]
+        if (all.some(c => c.email === params.email)) {
+          throw apiError('createCustomer', 409, 'Customer with identifier email already exists')
+        }
+        if (params.externalRef && all.some(c => c.externalRef === params.externalRef)) {
+          throw apiError(
+            'createCustomer',
+            409,
+            'Customer with identifier externalRef already exists',
+          )
+        }
+        const reference = nextId('cus')
+        customers.set(reference, {
+          reference,
+          email: params.email,
+          name: params.name,
+          telephone: params.telephone,
+          externalRef: params.externalRef,
+          metadata: params.metadata ?? {},
+          credits: 0,
+        })
+        return { customerRef: reference }
+      }),
+
+    updateCustomer: (customerRef, params) =>
+      run('updateCustomer', [customerRef, params], () => {
+        const customer = findCustomer('updateCustomer', customerRef)
+        const { metadata, ...fields } = params
+        Object.assign(customer, fields)
+        if (metadata) customer.metadata = { ...customer.metadata, ...metadata }
+        return { customerRef }
+      }),
+
+    getCustomer: params =>
+      run('getCustomer', [params], () => {
+        if (!params.externalRef && !params.email && !params.customerRef) {
+          throw new SolvaPayError('One of customerRef, externalRef, or email must be provided')
+        }
+        const all = [...customers.values()]
+        const customer = params.externalRef
+          ? all.find(c => c.externalRef === params.externalRef)
+          : params.email
+            ? all.find(c => c.email === params.email)
+            : customers.get(params.customerRef!)
+        if (!customer) throw apiError('getCustomer', 404, 'Customer not found')
+        return customerResponse(customer)
+      }),
+
+    assignCredits: params =>
+      run('assignCredits', [params], () => {
+        const customer = findCustomer('assignCredits', params.customerRef)
+        const idempotencyKey = params.idempotencyKey && `credits:${params.idempotencyKey}`
+        if (!idempotencyKey || !idempotencyKeys.has(idempotencyKey)) {
+          customer.credits += params.credits
+          if (idempotencyKey) idempotencyKeys.set(idempotencyKey, true)
+        }
+        return {
+          success: true,
+          customerRef: customer.reference,
+          credits: params.credits,
+          balance: customer.credits,
+          ...(params.reason !== undefined ? { reason: params.reason } : {}),
+        }
+      }),
+
+    getCustomerBalance: params =>
+      run('getCustomerBalance', [params], () => ({
+        customerRef: params.customerRef,
+        credits: findCustomer('getCustomerBalance', params.customerRef).credits,
+        displayCurrency: 'USD',
+        creditsPerMinorUnit,
+        displayExchangeRate: 1,
+      })),
+
+    getUserInfo: params =>
+      run('getUserInfo', [params], () => {
+        const customer = findCustomer('getUserInfo', params.customerRef)
+        const product = findProduct('getUserInfo', params.productRef)
+        const purchase = activePurchase(customer.reference, product.reference)
+        const plan = purchase?.planRef ? plans.get(purchase.planRef) : undefined
+        const used = usedUnits(customer.reference, product.reference, DEFAULT_METER)
+        const total = plan?.limit ?? plan?.freeUnits
+        return {
+          status: purchase ? `Active purchase: ${product.name}` : 'No active purchase',
+          verifyUrl: null,
+          user: {
+            reference: customer.reference,
+            name: customer.name ?? null,
+            email: customer.email,
+            externalRef: customer.externalRef ?? null,
+          },
+          ...(purchase && plan
+            ? {
+                purchase: {
+                  reference: purchase.reference,
+                  status: purchase.status,
+                  productName: purchase.productName,
+                  planType: plan.type,
+                  startDate: purchase.startDate,
+                  endDate: purchase.endDate ?? null,
+                  ...(total !== undefined
+                    ? {
+                        usage: {
+                          total,
+                          used,
+                          remaining: Math.max(0, total - used),
+                          percentUsed: total > 0 ? Math.round((used / total) * 100) : null,
+                        },
+                      }
+                    : {}),
+                  plan: {
+                    reference: plan.reference,
+                    price: plan.price,
+                    currency: plan.currency,
+                    type: plan.type,
+                    billingCycle: plan.billingCycle ?? null,
+                  },
+                },
+              }
+            : {}),
+        }
+      }),
+
+    // --- Merchant ---------------------------------------------------
+
+    getMerchant: () =>
+      run('getMerchant', [], () => ({
+        displayName: 'Fake Merchant',
+        legalName: 'Fake Merchant Ltd',
+        supportEmail: 'support@solvapay.test',
+        country: 'GB',
+        defaultCurrency: 'USD',
+        ...options.merchant,
+      })),
+
+    getPlatformConfig: () =>
+      run('getPlatformConfig', [], () => ({ stripePublishableKey: 'pk_test_fake' })),
+
+    // --- Products & plans -------------------------------------------
+
+    getProduct: productRef =>
+      run('getProduct', [productRef], () => {
+        const product = products.get(productRef)
+        if (!product) throw apiError('getProduct', 404, 'Product not found')
+        return productResponse(product)
+      }),
+
+    listProducts: () =>
+      run('listProducts', [], () =>
+        [...products.values()].map(({ reference, name, description }) => ({
+          reference,
+          name,
+          ...(description !== undefined ? { description } : {}),
+        })),
+      ),
+
+    createProduct: params =>
+      run('createProduct', [params], () => {
+        const product = addProduct({
+          name: params.name,
+          description: params.description,
+          isMcpPay: params.isMcpPay,
+        })
+        Object.assign(product, {
+          imageUrl: params.imageUrl,
+          productType: params.productType,
+          config: params.config,
+          metadata: params.metadata ?? {},
+        })
+        return { reference: product.reference, name: product.name }
+      }),
+
+    bootstrapMcpProduct: params =>
+      run('bootstrapMcpProduct', [params], () => {
+        const product = addProduct({
+          name: params.name ?? new URL(params.originUrl).hostname,
+          description: params.description,
+          isMcpPay: true,
+        })
+        const free = addPlan(product.reference, {
+          name: 'Free',
+          freeUnits: defaultFreeUnits,
+          default: true,
+        })
+        const planMap = addMcpPlans(product.reference, params.plans)
+        const subdomain = product.reference.replace(/_/g, '-')
+        const mcpServer = {
+          reference: nextId('mcp'),
+          subdomain,
+          mcpProxyUrl: `https://${subdomain}.mcp.solvapay.test`,
+          url: params.originUrl,
+          defaultPlanRef: free.reference,
+        }
+        product.mcp = { ...mcpServer }
+        return {
+          product: productResponse(product),
+          mcpServer,
+          planMap: { free: { reference: free.reference, name: free.name }, ...planMap },
+          toolsAutoMapped: !params.tools,
+        }
+      }),
+
+    configureMcpPlans: (productRef, params) =>
+      run('configureMcpPlans', [productRef, params], () => {
+        const product = products.get(productRef)
+        if (!product) throw apiError('configureMcpPlans', 404, 'Product not found')
+        const planMap = addMcpPlans(productRef, params.plans)
+        const free = defaultPlan(productRef)
+        return {
+          product: productResponse(product),
+          mcpServer: {
+            url: String(product.mcp?.url ?? ''),
+            ...(free ? { defaultPlanRef: free.reference } : {}),
+          },
+          planMap,
+        }
+      }),
+
+    updateProduct: (productRef, params) =>
+      run('updateProduct', [productRef, params], () => {
+        const product = products.get(productRef)
+        if (!product) throw apiError('updateProduct', 404, 'Product not found')
+        const { metadata, ...fields } = params
+        Object.assign(product, fields, { updatedAt: now() })
+        if (metadata) product.metadata = { ...product.metadata, ...metadata }
+        return productResponse(product)
+      }),
+
+    deleteProduct: productRef =>
+      run('deleteProduct', [productRef], () => {
+        if (!products.delete(productRef)) throw apiError('deleteProduct', 404, 'Product not found')
+        for (const plan of productPlans(productRef)) plans.delete(plan.reference)
+      }),
+
+    cloneProduct: (productRef, overrides) =>
+      run('cloneProduct', [productRef, overrides], () => {
+        const source = products.get(productRef)
+        if (!source) throw apiError('cloneProduct', 404, 'Product not found')
+        const clone = addProduct({
+          name: overrides?.name ?? `${source.name} (copy)`,
+          description: source.description,
+          isMcpPay: source.isMcpPay,
+        })
+        for (const plan of productPlans(productRef)) {
+          addPlan(clone.reference, {
+            ...publicPlan(plan),
+            reference: undefined,
+            default: plan.default,
+          })
+        }
+        return { reference: clone.reference, name: clone.name }
+      }),
+
+    listPlans: productRef =>
+      run('listPlans', [productRef], () => {
+        if (!products.has(productRef)) throw apiError('listPlans', 404, 'Product not found')
+        return productPlans(productRef).map(publicPlan)
+      }),
+
+    createPlan: params =>
+      run('createPlan', [params], () => {
+        const {
+          productRef,
+          usageTracking: _usageTracking,
+          metadata: _metadata,
+          autoRenew: _autoRenew,
+          basePrice: _basePrice,
+          ...fields
+        } = params
+        if (!products.has(productRef)) throw apiError('createPlan', 404, 'Product not found')
+        return publicPlan(addPlan(productRef, fields))
+      }),
+
+    updatePlan: (productRef, planRef, params) =>
+      run('updatePlan', [productRef, planRef, params], () => {
+        const plan = plans.get(planRef)
+        if (!plan || plan.productRef !== productRef) {
+          throw apiError('updatePlan', 404, 'Plan not found')
+        }
+        const { metadata: _metadata, ...fields } = params
+        Object.assign(plan, fields, { updatedAt: now() })
+        if (fields.price !== undefined) plan.requiresPayment = fields.price > 0
+        if (fields.status !== undefined) plan.isActive = fields.status === 'active'
+        return publicPlan(plan)
+      }),
+
+    deletePlan: (productRef, planRef) =>
+      run('deletePlan', [productRef, planRef], () => {
+        const plan = plans.get(planRef)
+        if (!plan || plan.productRef !== productRef) {
+          throw apiError('deletePlan', 404, 'Plan not found')
+        }
+        plans.delete(planRef)
+      }),
+
+    // --- Payments & purchases ---------------------------------------
+
+    createPaymentIntent: params =>
+      run('createPaymentIntent', [params], () => {
+        const cached = params.idempotencyKey && idempotencyKeys.get(`pi:${params.idempotencyKey}`)
+        const intent =
+          (cached as FakePaymentIntent | undefined) ??
+          (() => {
+            findCustomer('createPaymentIntent', params.customerRef)
+            findProduct('createPaymentIntent', params.productRef)
+            const plan = findPlan('createPaymentIntent', params.planRef)
+            const created: FakePaymentIntent = {
+              id: nextId('pi'),
+              purpose: 'product',
+              customerRef: params.customerRef,
+              productRef: params.productRef,
+              planRef: plan.reference,
+              amount: plan.price,
+              currency: params.currency ?? plan.currency,
+              settled: false,
+            }
+            paymentIntents.set(created.id, created)
+            if (params.idempotencyKey) idempotencyKeys.set(`pi:${params.idempotencyKey}`, created)
+            return created
+          })()
+        return {
+          processorPaymentId: intent.id,
+          clientSecret: `${intent.id}_secret_fake`,
+          publishableKey: 'pk_test_fake',
+          amount: intent.amount,
+          currency: intent.currency,
+          status: 'requires_payment_method',
+        }
+      }),
+
+    createTopupPaymentIntent: params =>
+      run('createTopupPaymentIntent', [params], () => {
+        const cached = params.idempotencyKey && idempotencyKeys.get(`pi:${params.idempotencyKey}`)
+        const intent =
+          (cached as FakePaymentIntent | undefined) ??
+          (() => {
+            findCustomer('createTopupPaymentIntent', params.customerRef)
+            if (!(params.amount > 0)) {
+              throw apiError('createTopupPaymentIntent', 400, 'amount must be positive')
+            }
+            const created: FakePaymentIntent = {
+              id: nextId('pi'),
+              purpose: 'credit_topup',
+              customerRef: params.customerRef,
+              amount: params.amount,
+              currency: params.currency,
+              settled: false,
+            }
+            paymentIntents.set(created.id, created)
+            if (params.idempotencyKey) idempotencyKeys.set(`pi:${params.idempotencyKey}`, created)
+            return created
+          })()
+        return {
+          processorPaymentId: intent.id,
+          clientSecret: `${intent.id}_secret_fake`,
+          publishableKey: 'pk_test_fake',
+        }
+      }),
+
+    processPaymentIntent: params =>
+      run('processPaymentIntent', [params], (): ProcessPaymentResult => {
+        const intent = paymentIntents.get(params.paymentIntentId)
+        if (!intent) throw apiError('processPaymentIntent', 404, 'Payment intent not found')
+        if (intent.settled) return succeededResult(intent)
+
+        switch (paymentOutcome) {
+          case 'succeeded':
+            settle(intent)
+            return succeededResult(intent)
+          case 'succeeded_bare':
+            if (!pendingPayments.includes(intent)) {
+              pendingPayments.push(intent)
+              if (settleAfterMs !== undefined) {
+                setTimeout(() => backend.settlePendingPayments(), settleAfterMs)
+              }
+            }
+            return { status: 'succeeded' }
+          case 'timeout':
+            return { status: 'timeout', message: 'Payment is still being confirmed' }
+          default:
+            return { status: paymentOutcome }
+        }
+      }),
+
+    attachBusinessDetails: params =>
+      run('attachBusinessDetails', [params], () => {
+        const intent = paymentIntents.get(params.paymentIntentId)
+        if (!intent) throw apiError('attachBusinessDetails', 404, 'Payment intent not found')
+        return {
+          taxBreakdown: {
+            subtotal: intent.amount,
+            taxAmount: 0,
+            taxRate: 0,
+            treatment: params.isBusiness ? 'reverse_charge' : 'none',
+            total: intent.amount,
+            currency: intent.currency,
+            inclusive: false,
+          },
+        }
+      }),
+
+    cancelPurchase: params =>
+      run('cancelPurchase', [params], () => {
+        const purchase = purchases.get(params.purchaseRef)
+        if (!purchase) throw apiError('cancelPurchase', 404, 'Purchase not found')
+        purchase.status = 'cancelled'
+        purchase.cancelledAt = now()
+        if (params.reason !== undefined) purchase.cancellationReason = params.reason
+        return publicPurchase(purchase)
+      }),
+
+    reactivatePurchase: params =>
+      run('reactivatePurchase', [params], () => {
+        const purchase = purchases.get(params.purchaseRef)
+        if (!purchase) throw apiError('reactivatePurchase', 404, 'Purchase not found')
+        if (purchase.status !== 'cancelled') {
+          throw apiError('reactivatePurchase', 400, 'Purchase is not cancelled')
+        }
+        purchase.status = 'active'
+        delete purchase.cancelledAt
+        delete purchase.cancellationReason
+        return publicPurchase(purchase)
+      }),
+
+    activatePlan: params =>
+      run('activatePlan', [params], () => {
+        const customer = findCustomer('activatePlan', params.customerRef)
+        findProduct('activatePlan', params.productRef)
+        const plan = plans.get(params.planRef)
+        if (!plan || plan.productRef !== params.productRef || !plan.isActive) {
+          return { status: 'invalid' as const, message: 'Plan not found for product' }
+        }
+        const current = activePurchase(customer.reference, plan.productRef)
+        if (current?.planRef === plan.reference) {
+          return { status: 'already_active' as const, purchaseRef: current.reference }
+        }
+        if (plan.requiresPayment) {
+          const { sessionId, checkoutUrl } = openCheckoutSession({
+            customerRef: customer.reference,
+            productRef: plan.productRef,
+            planRef: plan.reference,
+          })
+          return { status: 'payment_required' as const, checkoutUrl, checkoutSessionId: sessionId }
+        }
+        if (isCreditBased(plan) && customer.credits < plan.creditsPerUnit!) {
+          return {
+            status: 'topup_required' as const,
+            creditBalance: customer.credits,
+            creditsPerUnit: plan.creditsPerUnit,
+            currency: plan.currency,
+          }
+        }
+        const purchase = createPurchase(customer.reference, plan)
+        return { status: 'activated' as const, purchaseRef: purchase.reference }
+      }),
+
+    // --- Sessions ---------------------------------------------------
+
+    createCheckoutSession: params =>
+      run('createCheckoutSession', [params], () => {
+        findCustomer('createCheckoutSession', params.customerRef)
+        if (params.productRef) findProduct('createCheckoutSession', params.productRef)
+        if (params.planRef) findPlan('createCheckoutSession', params.planRef)
+        return openCheckoutSession({
+          customerRef: params.customerRef,
+          productRef: params.productRef,
+          planRef: params.planRef,
+          purpose: params.purpose,
+        })
+      }),
+
+    createCustomerSession: params =>
+      run('createCustomerSession', [params], () => {
+        findCustomer('createCustomerSession', params.customerRef)
+        const sessionId = nextId('cps')
+        return { sessionId, customerUrl: `${baseUrl()}/customer/${sessionId}` }
+      }),
+
+    // --- Payment method & auto-recharge -----------------------------
+
+    getPaymentMethod: params =>
+      run('getPaymentMethod', [params], () => {
+        findCustomer('getPaymentMethod', params.customerRef)
+        return cardsOnFile.has(params.customerRef)
+          ? {
+              kind: 'card' as const,
+              brand: 'visa',
+              last4: '4242',
+              expMonth: 12,
+              expYear: new Date().getFullYear() + 5,
+            }
+          : { kind: 'none' as const }
+      }),
+
+    getAutoRecharge: params =>
+      run('getAutoRecharge', [params], () => {
+        findCustomer('getAutoRecharge', params.customerRef)
+        return { config: autoRecharge.get(params.customerRef) ?? null }
+      }),
+
+    saveAutoRecharge: params =>
+      run('saveAutoRecharge', [params], () => {
+        findCustomer('saveAutoRecharge', params.customerRef)
+        const previous = autoRecharge.get(params.customerRef)
+        const hasCard = cardsOnFile.has(params.customerRef)
+        const config: AutoRechargeConfig = {
+          enabled: params.enabled,
+          trigger: {
+            type: 'balance',
+            thresholdAmountMinor: Math.round((params.thresholdAmountMajor ?? 0) * 100),
+          },
+          topup: {
+            mode: 'fixed',
+            amountMinor: Math.round((params.topupAmountMajor ?? 0) * 100),
+            currency: params.currency,
+          },
+          ...(hasCard ? { fundingSourceType: 'saved_card' as const } : {}),
+          status: !params.enabled ? 'disabled' : hasCard ? 'active' : 'pending_setup',
+          failureCount: 0,
+          ...(params.maxMonthlySpendMajor !== undefined
+            ? { maxMonthlySpendMinor: Math.round(params.maxMonthlySpendMajor * 100) }
+            : {}),
+          monthlySpendMinor: previous?.monthlySpendMinor ?? 0,
+          updatedAt: now(),
+        }
+        autoRecharge.set(params.customerRef, config)
+        return {
+          config,
+          ...(config.status === 'pending_setup' && !params.deferSetupIntent
+            ? { setupClientSecret: `${nextId('seti')}_secret_fake`, publishableKey: 'pk_test_fake' }
+            : {}),
+        }
+      }),
+
+    disableAutoRecharge: params =>
+      run('disableAutoRecharge', [params], () => {
+        const config = autoRecharge.get(params.customerRef)
+        if (config) Object.assign(config, { enabled: false, status: 'disabled', updatedAt: now() })
+        return { success: true as const }
+      }),
+
+    getSpendingLimits: params =>
+      run('getSpendingLimits', [params], () => {
+        findCustomer('getSpendingLimits', params.customerRef)
+        return { config: spendingLimits.get(params.customerRef) ?? null }
+      }),
+
+    saveSpendingLimits: params =>
+      run('saveSpendingLimits', [params], () => {
+        findCustomer('saveSpendingLimits', params.customerRef)
+        const previous = spendingLimits.get(params.customerRef)
+        const config: SpendingLimitsConfig = {
+          ...(params.monthlyCapMajor !== undefined
+            ? { monthlyCapMinor: Math.round(params.monthlyCapMajor * 100) }
+            : {}),
+          alertThresholds: [...(params.alertThresholds ?? [])].sort((a, b) => a - b),
+          currency: params.currency,
+          monthlySpendMinor: previous?.monthlySpendMinor ?? 0,
+          updatedAt: now(),
+        }
+        spendingLimits.set(params.customerRef, config)
+        return { config }
+      }),
+
+    disableSpendingLimits: params =>
+      run('disableSpendingLimits', [params], () => {
+        spendingLimits.delete(params.customerRef)
+        return { success: true as const }
+      }),
+
+    // --- Test controls ----------------------------------------------
+
+    failNext(method, error) {
+      enqueueFault(method, {
+        error: error ?? apiError(method, 500, 'Internal server error'),
+        afterMs: 0,
+      })
+    },
+
+    timeoutNext(method, timeoutOptions = {}) {
+      enqueueFault(method, {
+        error: apiError(method, 504, 'Gateway Timeout'),
+        afterMs: timeoutOptions.afterMs ?? 0,
+      })
+    },
+
+    setPaymentOutcome(outcome, outcomeOptions = {}) {
+      paymentOutcome = outcome
+      settleAfterMs = outcomeOptions.settleAfterMs
+    },
+
+    settlePendingPayments() {
+      const settled = pendingPayments.splice(0)
+      for (const intent of settled) settle(intent)
+      return settled.length
+    },
+
+    completeCheckout(sessionId, checkoutOptions = {}) {
+      const session = checkoutSessions.get(sessionId)
+      if (!session) throw new Error(`Unknown checkout session: ${sessionId}`)
+      checkoutSessions.delete(sessionId)
+      const customer = findCustomer('createCheckoutSession', session.customerRef)
+      cardsOnFile.add(customer.reference)
+
+      if (session.purpose === 'credit_topup') {
+        customer.credits += (checkoutOptions.amount ?? 1000) * creditsPerMinorUnit
+        return
+      }
+      const planRef =
+        checkoutOptions.planRef ??
+        session.planRef ??
+        productPlans(session.productRef ?? '').find(plan => plan.requiresPayment)?.reference
+      if (!planRef) throw new Error(`No paid plan to purchase for checkout session ${sessionId}`)
+      createPurchase(customer.reference, findPlan('createCheckoutSession', planRef))
+    },
+
+    getUsage({ customerRef, productRef, meterName = DEFAULT_METER }) {
+      return usedUnits(customerRef, productRef, meterName)
+    },
+
+    getCreditBalance(customerRef) {
+      return findCustomer('getCustomerBalance', customerRef).credits
+    },
+
+    getPurchases(customerRef) {
+      return [...purchases.values()].filter(p => p.customerRef === customerRef).map(publicPurchase)
+    },
+
+    resetUsage(customerRef) {
+      for (const key of [...usage.keys()]) {
+        if (customerRef === undefined || key.startsWith(`${customerRef}|`)) usage.delete(key)
+      }
+      for (const [ref, limits] of spendingLimits) {
+        if (customerRef === undefined || ref === customerRef) limits.monthlySpendMinor = 0
+      }
+    },
+  }
+
+  return backend
+}
@@ -37,5 +37,69 @@ export { testLog, conditionalLog, alwaysLog } from './test-logger'
 // Adapter contract test helpers
 export { describeAuthAdapterContract } from './describeAuthAdapterContract'
 export { describeClientAuthAdapterContract } from './describeClientAuthAdapterContract'
+export { describePayableAdapterContract } from './describePayableAdapterContract'
+export type {
+  PayableAdapterContractOptions,
+  PayableAdapterDriver,
+  PayableAdapterMount,
+  PayableContractRequest,
+  PayableContractResponse,
+} from './describePayableAdapterContract'
+export { describeMcpAdapterConformance } from './describeMcpAdapterConformance'
+export type {
+  McpAdapterConformanceOptions,
+  McpAdapterDriver,
+  McpAdapterMount,
+  McpAdapterUnderTest,
+  McpConformancePayableTool,
+  McpConformanceResponse,
+  McpConformanceResponseContext,
+} from './describeMcpAdapterConformance'
+
+// Webhook signing, fixtures and in-process delivery
+export {
+  signWebhookPayload,
+  createWebhookEvent,
+  deliverWebhook,
+  WEBHOOK_EVENT_TYPES,
+  TEST_WEBHOOK_SECRET,
+} from './webhooks'
+export type {
+  SignWebhookPayloadOptions,
+  WebhookEventOverrides,
+  DeliverWebhookOptions,
+} from './webhooks'
+
+// In-process fake SolvaPay backend (stateful SolvaPayClient)
+export { createFakeSolvaPayBackend } from './fake-backend'
+export type {
+  FakeSolvaPayBackend,
+  FakeSolvaPayBackendOptions,
+  FakeSolvaPayCall,
+  FakeSolvaPayMethod,
+  FakePaymentOutcome,
+  FakeProductSeed,
+  FakePlanSeed,
+  FakeCustomerSeed,
+} from './fake-backend'
+
+// Local JWKS issuer for offline JWT verification tests
+export { createJwksFixture } from './jwks'
+export type {
+  JwksFixture,
+  JwksFixtureAlgorithm,
+  JwksFixtureOptions,
+  SignJwksTokenOptions,
+} from './jwks'
+
+// Local HTTP server speaking the /v1/sdk API, backed by the fake
+export { createSolvaPayDevServer, loadDevServerFixture } from './dev-server'
+export type {
+  SolvaPayDevServer,
+  SolvaPayDevServerOptions,
+  SolvaPayDevServerFixture,
+  SolvaPayDevServerListenOptions,
+  SolvaPayDevServerHandle,
+} from './dev-server'
 
 export const TEST_UTILS_VERSION = '0.0.0'
@@ -0,0 +1,136 @@
+/**
+ * JWKS Test Fixture
+ *
+ * A local OpenID-style issuer for offline JWT tests: generates RS256
+ * and ES256 signing keys, serves them from
+ * `{issuer}/.well-known/jwks.json` on a loopback port (with RFC 8414
+ * metadata pointing there), and signs tokens
+ * the way Auth0 / Clerk / Cognito do (`kid` in the header, `iss` /
+ * `aud` / `exp` claims). `rotate()` swaps in fresh keys so tests can
+ * prove key-rotation handling without the network.
+ */
+
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { exportJWK, generateKeyPair, SignJWT } from 'jose'
+import type { CryptoKey, JWK, JWTPayload } from 'jose'
+
+export type JwksFixtureAlgorithm = 'RS256' | 'ES256'
+
+export interface JwksFixtureOptions {
+  /** Value of the `aud` claim on signed tokens (default: `'solvapay-test'`). */
+  audience?: string
+  /** Algorithms to generate keys for (default: both). */
+  algorithms?: JwksFixtureAlgorithm[]
+}
+
+export interface SignJwksTokenOptions {
+  /** Signing algorithm (default: the first configured algorithm). */
+  alg?: JwksFixtureAlgorithm
+  /** Override `iss` (default: the fixture issuer). */
+  issuer?: string
+  /** Override `aud` (default: the fixture audience). */
+  audience?: string
+  /** Token lifetime in seconds; negative values produce expired tokens (default: 300). */
+  expiresInSec?: number
+  /** Override the `kid` header, e.g. to reference a key the JWKS does not publish. */
+  kid?: string
+}
+
+export interface JwksFixture {
+  /**
+   * Issuer URL — the JWKS lives at `{issuer}/.well-known/jwks.json` and
+   * RFC 8414 metadata naming both at `{issuer}/.well-known/oauth-authorization-server`.
+   */
+  issuer: string
+  jwksUrl: string
+  audience: string
+  /** Number of times the JWKS endpoint has been fetched. */
+  readonly requests: number
+  /** Sign `payload` with one of the published keys. */
+  sign(payload: JWTPayload, options?: SignJwksTokenOptions): Promise<string>
+  /** Replace every signing key; tokens signed before keep their old `kid`. */
+  rotate(): Promise<void>
+  close(): Promise<void>
+}
+
+interface SigningKey {
+  kid: string
+  alg: JwksFixtureAlgorithm
+  privateKey: CryptoKey
+  jwk: JWK
+}
+
+let keyCounter = 0
+
+async function createSigningKey(alg: JwksFixtureAlgorithm): Promise<SigningKey> {
+  const { privateKey, publicKey } = await generateKeyPair(alg, { extractable: true })
+  const kid = `test-${alg.toLowerCase()}-${++keyCounter}`
+  return { kid, alg, privateKey, jwk: { ...(await exportJWK(publicKey)), kid, alg, use: 'sig' } }
+}
+
+/**
+ * Start a JWKS fixture on a random loopback port. Call `close()` in
+ * `afterAll`.
+ *
+ * @example
+ * ```typescript
+ * const jwks = await createJwksFixture()
+ * const token = await jwks.sign({ sub: 'user_1', email: 'ada@example.com' }, { alg: 'ES256' })
+ * await verifyJwt(token, { issuer: jwks.issuer, audience: jwks.audience })
+ * await jwks.close()
+ * ```
+ */
+export async function createJwksFixture(options: JwksFixtureOptions = {}): Promise<JwksFixture> {
+  const audience = options.audience ?? 'solvapay-test'
+  const algorithms = options.algorithms ?? ['RS256', 'ES256']
+  let keys = await Promise.all(algorithms.map(createSigningKey))
+  let requests = 0
+
+  let issuer = ''
+  const server = createServer((req, res) => {
+    if (req.url === '/.well-known/oauth-authorization-server') {
+      res.writeHead(200, { 'content-type': 'application/json' })
+      res.end(JSON.stringify({ issuer, jwks_uri: `${issuer}/.well-known/jwks.json` }))
+      return
+    }
+    if (req.url !== '/.well-known/jwks.json') {
+      res.writeHead(404).end()
+      return
+    }
+    requests++
+    res.writeHead(200, { 'content-type': 'application/json' })
+    res.end(JSON.stringify({ keys: keys.map(key => key.jwk) }))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  issuer = `http://127.0.0.1:${port}`
+
+  return {
+    issuer,
+    jwksUrl: `${issuer}/.well-known/jwks.json`,
+    audience,
+    get requests() {
+      return requests
+    },
+
+    async sign(payload, signOptions = {}) {
+      const alg = signOptions.alg ?? algorithms[0]!
+      const key = keys.find(candidate => candidate.alg === alg)
+      if (!key) throw new Error(`JWKS fixture has no ${alg} key`)
+      return new SignJWT(payload)
+        .setProtectedHeader({ alg, kid: signOptions.kid ?? key.kid })
+        .setIssuer(signOptions.issuer ?? issuer)
+        .setAudience(signOptions.audience ?? audience)
+        .setIssuedAt()
+        .setExpirationTime(Math.floor(Date.now() / 1000) + (signOptions.expiresInSec ?? 300))
+        .sign(key.privateKey)
+    },
+
+    async rotate() {
+      keys = await Promise.all(algorithms.map(createSigningKey))
+    },
+
+    close: () => new Promise<void>((done, fail) => server.close(err => (err ? fail(err) : done()))),
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Webhook Test Helpers
+ *
+ * Sign, build and deliver SolvaPay webhook events in-process so handler
+ * tests don't hand-craft `sv-signature` headers. The signing scheme
+ * mirrors `verifyWebhook` in `@solvapay/server`: HMAC-SHA256 over
+ * `"{timestamp}.{rawBody}"`, sent as `t={timestamp},v1={hex}`.
+ */
+
+import crypto from 'node:crypto'
+import type { WebhookEvent, WebhookEventForType, WebhookEventType } from '@solvapay/server'
+
+/**
+ * Default secret used by {@link deliverWebhook}. Configure the handler
+ * under test with the same value (or pass `secret` explicitly).
+ */
+export const TEST_WEBHOOK_SECRET = 'whsec_test_secret'
+
+export interface SignWebhookPayloadOptions {
+  /** Event object (serialised with `JSON.stringify`) or the exact raw body. */
+  event: WebhookEvent | Record<string, unknown> | string
+  /** Signing secret (`whsec_…`). */
+  secret: string
+  /** Unix seconds to sign with (default: now). Use an old value to test expiry. */
+  timestamp?: number
+}
+
+/**
+ * Produce the `sv-signature` header value for a payload.
+ *
+ * When `event` is an object, the signature covers `JSON.stringify(event)` —
+ * send exactly that string as the request body.
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify(event)
+ * const signature = signWebhookPayload({ event: body, secret: 'whsec_test' })
+ * verifyWebhook({ body, signature, secret: 'whsec_test' })
+ * ```
+ */
+export function signWebhookPayload({
+  event,
+  secret,
+  timestamp,
+}: SignWebhookPayloadOptions): string {
+  const body = typeof event === 'string' ? event : JSON.stringify(event)
+  const t = timestamp ?? Math.floor(Date.now() / 1000)
+  const hmac = crypto.createHmac('sha256', secret).update(`${t}.${body}`).digest('hex')
+  return `t=${t},v1=${hmac}`
+}
+
+type WebhookObject<TType extends WebhookEventType> = WebhookEventForType<TType>['data']['object']
+
+const CREATED = 1_767_225_600 // 2026-01-01T00:00:00Z — stable across runs.
+
+function suffix(type: string): string {
+  return type.slice(type.lastIndexOf('.') + 1)
+}
+
+const customerObject = (type: string) => ({
+  id: 'cus_obj_test',
+  created: CREATED,
+  product: { reference: 'prd_test' },
+  reference: 'cus_test',
+  name: 'Test Customer',
+  email: 'customer@example.com',
+  status: type === 'customer.deleted' ? 'deleted' : 'active',
+})
+
+const purchaseObject = (type: string) => ({
+  reference: 'pur_test',
+  customerRef: 'cus_test',
+  productRef: 'prd_test',
+  planRef: 'pln_test',
+  status: suffix(type),
+  amount: 1000,
+  currency: 'USD',
+  created: CREATED,
+})
+
+const paymentObject = (type: string) => ({
+  id: 'pi_test',
+  customerRef: 'cus_test',
+  amount: 1000,
+  currency: 'USD',
+  status: suffix(type),
+  created: CREATED,
+})
+
+const payoutObject = (type: string) => ({
+  id: 'po_test',
+  amount: 5000,
+  currency: 'USD',
+  status: suffix(type),
+  created: CREATED,
+})
+
+const checkoutSessionObject = (type: string) => ({
+  id: 'cs_test',
+  customerRef: 'cus_test',
+  productRef: 'prd_test',
+  planRef: 'pln_test',
+  status: suffix(type),
+  url: 'https://checkout.solvapay.com/cs_test',
+  created: CREATED,
+})
+
+const creditObject = (type: string) => ({
+  customerRef: 'cus_test',
+  amount: type.endsWith('debited') ? -100 : 1000,
+  balance: type.endsWith('exhausted') ? 0 : 5000,
+  currency: 'USD',
+  created: CREATED,
+})
+
+const usageObject = (type: string) => ({
+  customerRef: 'cus_test',
+  productRef: 'prd_test',
+  meterName: 'requests',
+  units: type === 'usage.reset' ? 0 : 1,
+  created: CREATED,
+})
+
+const productObject = (type: string) => ({
+  reference: 'prd_test',
+  name: 'Test Product',
+  status: type === 'product.archived' ? 'archived' : 'active',
+  created: CREATED,
+})
+
+const planObject = (type: string) => ({
+  reference: 'pln_test',
+  productRef: 'prd_test',
+  name: 'Test Plan',
+  price: 1000,
+  currency: 'USD',
+  status: type === 'plan.archived' ? 'archived' : 'active',
+  created: CREATED,
+})
+
+/**
+ * Default `data.object` builder for every event type. Typed as an
+ * exhaustive mapped type, so regenerating `WebhookEventType` with a new
+ * event fails the compile here until a builder is added.
+ */
+const OBJECT_BUILDERS: { [TType in WebhookEventType]: (type: TType) => WebhookObject<TType> } = {
+  'customer.created': customerObject,
+  'customer.updated': customerObject,
+  'customer.deleted': customerObject,
+  'purchase.created': purchaseObject,
+  'purchase.activated': purchaseObject,
+  'purchase.updated': purchaseObject,
+  'purchase.trial_ending': purchaseObject,
+  'purchase.trial_converted': purchaseObject,
+  'purchase.suspended': purchaseObject,
+  'purchase.past_due': purchaseObject,
+  'purchase.cancellation_scheduled': purchaseObject,
+  'purchase.cancelled': purchaseObject,
+  'purchase.reactivated': purchaseObject,
+  'purchase.expired': purchaseObject,
+  'purchase.renewed': purchaseObject,
+  'purchase.renewal_reminder': purchaseObject,
+  'purchase.refunded': purchaseObject,
+  'purchase.plan_changed': purchaseObject,
+  'payment.succeeded': paymentObject,
+  'payment.failed': paymentObject,
+  'payment.refunded': paymentObject,
+  'payment.refund_failed': paymentObject,
+  'payment.refund_pending': paymentObject,
+  'payment.canceled': paymentObject,
+  'payment.disputed': paymentObject,
+  'payment.dispute_closed': paymentObject,
+  'payout.paid': payoutObject,
+  'payout.failed': payoutObject,
+  'checkout_session.created': checkoutSessionObject,
+  'checkout_session.completed': checkoutSessionObject,
+  'checkout_session.expired': checkoutSessionObject,
+  'customer.credit.topped_up': creditObject,
+  'customer.credit.low_balance': creditObject,
+  'customer.credit.exhausted': creditObject,
+  'customer.credit.debited': creditObject,
+  'customer.credit.granted': creditObject,
+  'customer.credit.adjusted': creditObject,
+  'customer.credit.auto_topup_failed': creditObject,
+  'usage.charged': usageObject,
+  'usage.recorded': usageObject,
+  'usage.reset': usageObject,
+  'product.created': productObject,
+  'product.updated': productObject,
+  'product.archived': productObject,
+  'plan.created': planObject,
+  'plan.updated': planObject,
+  'plan.archived': planObject,
+}
+
+/** Every webhook event type the factory can build. */
+export const WEBHOOK_EVENT_TYPES = Object.keys(OBJECT_BUILDERS) as WebhookEventType[]
+
+export interface WebhookEventOverrides<TType extends WebhookEventType> {
+  id?: string
+  created?: number
+  api_version?: string
+  livemode?: boolean
+  /** Shallow-merged over the default `data.object`. */
+  object?: Partial<WebhookObject<TType>>
+  previous_attributes?: Record<string, unknown> | null
+  request?: { id: string | null; idempotency_key: string | null }
+}
+
+let eventCounter = 0
+
+/**
+ * Build a valid {@link WebhookEventForType} fixture for `type`.
+ *
+ * Each call gets a fresh `evt_test_<n>` id so idempotent routers don't
+ * treat separate fixtures as duplicates; pass `id` to pin one.
+ *
+ * @example
+ * ```typescript
+ * const event = createWebhookEvent('customer.updated', { object: { email: 'new@example.com' } })
+ * event.data.object.email // typed as CustomerWebhookObject
+ * ```
+ */
+export function createWebhookEvent<TType extends WebhookEventType>(
+  type: TType,
+  overrides: WebhookEventOverrides<TType> = {},
+): WebhookEventForType<TType> {
+  const build = OBJECT_BUILDERS[type] as (type: TType) => WebhookObject<TType>
+  eventCounter += 1
+  return {
+    id: overrides.id ?? `evt_test_${eventCounter}`,
+    type,
+    created: overrides.created ?? CREATED,
+    api_version: overrides.api_version ?? '2025-10-01',
+    data: {
+      object: { ...build(type), ...overrides.object } as WebhookObject<TType>,
+      previous_attributes: overrides.previous_attributes ?? null,
+    },
+    livemode: overrides.livemode ?? false,
+    request: overrides.request ?? { id: null, idempotency_key: null },
+  }
+}
+
+export interface DeliverWebhookOptions {
+  /** Signing secret (default: {@link TEST_WEBHOOK_SECRET}). */
+  secret?: string
+  /** Unix seconds to sign with (default: now). */
+  timestamp?: number
+  /** Override the `sv-signature` header entirely (e.g. to test rejection). */
+  signature?: string
+  /** Request URL (default: `http://localhost/webhooks/solvapay`). */
+  url?: string
+}
+
+/**
+ * Sign `event` and POST it to a fetch-style webhook handler in-process —
+ * e.g. the function returned by `solvapayWebhook(...)` or a router's
+ * `fetch` / `next()` handler.
+ *
+ * @example
+ * ```typescript
+ * const handler = solvapayWebhook({ secret: TEST_WEBHOOK_SECRET, onEvent })
+ * const res = await deliverWebhook(handler, createWebhookEvent('purchase.created'))
+ * expect(res.status).toBe(200)
+ * ```
+ */
+export async function deliverWebhook(
+  handler: (req: Request) => Promise<Response> | Response,
+  event: WebhookEvent | Record<string, unknown> | string,
+  options: DeliverWebhookOptions = {},
+): Promise<Response> {
+  const body = typeof event === 'string' ? event : JSON.stringify(event)
+  const signature =
+    options.signature ??
+    signWebhookPayload({
+      event: body,
+      secret: options.secret ?? TEST_WEBHOOK_SECRET,
+      timestamp: options.timestamp,
+    })
+
+  return handler(
+    new Request(options.url ?? 'http://localhost/webhooks/solvapay', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'sv-signature': signature },
+      body,
+    }),
+  )
+}
@@ -26,6 +26,8 @@ const PACKAGES: PackageTypecheck[] = [
   { dir: 'packages/mcp-core', projects: ['tsconfig.build.json'] },
   { dir: 'packages/server', projects: ['tsconfig.build.json'] },
   { dir: 'packages/mcp', projects: ['tsconfig.build.json'] },
+  { dir: 'packages/mcp-fastmcp', projects: ['tsconfig.build.json'] },
+  { dir: 'packages/mcp-jsonrpc', projects: ['tsconfig.build.json'] },
   { dir: 'packages/next', projects: ['tsconfig.build.json'] },
   {
     dir: 'packages/react',
@@ -82,6 +82,11 @@ const TARGETS: TargetPackage[] = [
       'corsPreflight',
       'authChallenge',
       'buildAuthInfoFromBearer',
+      'verifyBearerToken',
+      'withMcpSessionAffinity',
+      'createMemoryMcpSessionStore',
+      'createDurableObjectMcpSessionStore',
+      'McpSessionStoreDurableObject',
       'getOAuthAuthorizationServerResponse',
       'getOAuthProtectedResourceResponse',
     ],